@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "player_game_stats" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "player_id" TEXT NOT NULL,
+    "player_name" TEXT NOT NULL,
+    "team" TEXT,
+    "did_play" BOOLEAN NOT NULL DEFAULT true,
+    "stats" JSONB NOT NULL DEFAULT '{}',
+    "source" TEXT NOT NULL,
+    "ingested_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "player_game_stats_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "player_game_stats_event_id_idx" ON "player_game_stats"("event_id");
+
+-- CreateIndex
+CREATE INDEX "player_game_stats_player_name_idx" ON "player_game_stats"("player_name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "player_game_stats_event_id_player_id_key" ON "player_game_stats"("event_id", "player_id");
+
+-- AddForeignKey
+ALTER TABLE "player_game_stats" ADD CONSTRAINT "player_game_stats_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "sports_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "TransactionType" ADD VALUE 'DISPUTE_HOLD';
+ALTER TYPE "TransactionType" ADD VALUE 'DISPUTE_RELEASE';
+
+-- AlterTable
+ALTER TABLE "match_disputes" ADD COLUMN     "assigned_to" TEXT,
+ADD COLUMN     "assigned_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "match_disputes_assigned_to_status_idx" ON "match_disputes"("assigned_to", "status");
+
+-- AddForeignKey
+ALTER TABLE "match_disputes" ADD CONSTRAINT "match_disputes_assigned_to_fkey" FOREIGN KEY ("assigned_to") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
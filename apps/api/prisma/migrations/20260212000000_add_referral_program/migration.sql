@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "registration_ip" VARCHAR(45),
+ADD COLUMN     "device_id" VARCHAR(255),
+ADD COLUMN     "referral_rewarded_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "users_referred_by_id_idx" ON "users"("referred_by_id");
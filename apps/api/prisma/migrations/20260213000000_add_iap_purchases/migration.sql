@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "TransactionType" ADD VALUE 'PURCHASE_REVERSAL';
+
+-- CreateIndex
+CREATE INDEX "transactions_iap_receipt_id_idx" ON "transactions"("iap_receipt_id");
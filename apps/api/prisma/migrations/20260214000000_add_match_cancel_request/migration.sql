@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "cancel_requested_at" TIMESTAMP(3),
+ADD COLUMN     "cancel_requested_by" TEXT;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "odds_snapshots" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "market" TEXT NOT NULL,
+    "market_key" TEXT NOT NULL,
+    "prop_type" TEXT,
+    "player_id" TEXT,
+    "player_name" TEXT,
+    "line" DECIMAL(10,2),
+    "prices" JSONB NOT NULL,
+    "changes" JSONB,
+    "provider" TEXT,
+    "source" TEXT NOT NULL,
+    "captured_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "odds_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "odds_snapshots_event_id_market_key_captured_at_idx" ON "odds_snapshots"("event_id", "market_key", "captured_at");
+
+-- CreateIndex
+CREATE INDEX "odds_snapshots_event_id_captured_at_idx" ON "odds_snapshots"("event_id", "captured_at");
+
+-- AddForeignKey
+ALTER TABLE "odds_snapshots" ADD CONSTRAINT "odds_snapshots_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "sports_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "status_changed_at" TIMESTAMP(3),
+ADD COLUMN     "status_changed_by" TEXT,
+ADD COLUMN     "status_expires_at" TIMESTAMP(3),
+ADD COLUMN     "status_reason" TEXT;
+
+-- CreateTable
+CREATE TABLE "user_audit_logs" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "performed_by" TEXT NOT NULL,
+    "previous_state" JSONB NOT NULL,
+    "new_state" JSONB NOT NULL,
+    "reason" TEXT,
+    "metadata" JSONB NOT NULL DEFAULT '{}',
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "user_audit_logs_user_id_idx" ON "user_audit_logs"("user_id");
+
+-- CreateIndex
+CREATE INDEX "user_audit_logs_action_idx" ON "user_audit_logs"("action");
+
+-- CreateIndex
+CREATE INDEX "user_audit_logs_performed_by_idx" ON "user_audit_logs"("performed_by");
+
+-- CreateIndex
+CREATE INDEX "user_audit_logs_created_at_idx" ON "user_audit_logs"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "user_audit_logs" ADD CONSTRAINT "user_audit_logs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
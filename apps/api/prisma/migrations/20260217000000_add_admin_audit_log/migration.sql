@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "admin_audit_logs" (
+    "id" TEXT NOT NULL,
+    "actor_id" TEXT NOT NULL,
+    "actor_role" "AdminRole",
+    "action" TEXT NOT NULL,
+    "target_type" TEXT NOT NULL,
+    "target_id" TEXT,
+    "previous_state" JSONB,
+    "new_state" JSONB,
+    "reason" TEXT,
+    "metadata" JSONB NOT NULL DEFAULT '{}',
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "admin_audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "admin_audit_logs_actor_id_idx" ON "admin_audit_logs"("actor_id");
+
+-- CreateIndex
+CREATE INDEX "admin_audit_logs_action_idx" ON "admin_audit_logs"("action");
+
+-- CreateIndex
+CREATE INDEX "admin_audit_logs_target_type_target_id_idx" ON "admin_audit_logs"("target_type", "target_id");
+
+-- CreateIndex
+CREATE INDEX "admin_audit_logs_created_at_idx" ON "admin_audit_logs"("created_at");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "sports_events" ADD COLUMN "live_markets_suspended_at" TIMESTAMP(3);
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "rematch_of_id" TEXT,
+ADD COLUMN     "required_slip_size" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "matches_rematch_of_id_status_idx" ON "matches"("rematch_of_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "matches" ADD CONSTRAINT "matches_rematch_of_id_fkey" FOREIGN KEY ("rematch_of_id") REFERENCES "matches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,106 @@
+-- AlterEnum
+ALTER TYPE "GameMode" ADD VALUE IF NOT EXISTS 'LEAGUE';
+
+-- CreateEnum
+CREATE TYPE "LeagueStatus" AS ENUM ('ACTIVE', 'ARCHIVED');
+
+-- CreateEnum
+CREATE TYPE "LeagueEntryStatus" AS ENUM ('SUBMITTED', 'MATCHED', 'UNMATCHED');
+
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "league_id" TEXT,
+ADD COLUMN     "league_round" INTEGER;
+
+-- CreateTable
+CREATE TABLE "leagues" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(50) NOT NULL,
+    "owner_id" TEXT NOT NULL,
+    "invite_code" TEXT NOT NULL,
+    "stake_amount" BIGINT NOT NULL,
+    "slip_size" INTEGER,
+    "max_members" INTEGER NOT NULL DEFAULT 12,
+    "schedule_day" INTEGER NOT NULL,
+    "schedule_hour" INTEGER NOT NULL,
+    "current_round" INTEGER NOT NULL DEFAULT 1,
+    "next_round_at" TIMESTAMP(3) NOT NULL,
+    "status" "LeagueStatus" NOT NULL DEFAULT 'ACTIVE',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "leagues_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "league_members" (
+    "id" TEXT NOT NULL,
+    "league_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "joined_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "league_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "league_entries" (
+    "id" TEXT NOT NULL,
+    "league_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "slip_id" TEXT NOT NULL,
+    "entry_tx_id" TEXT NOT NULL,
+    "status" "LeagueEntryStatus" NOT NULL DEFAULT 'SUBMITTED',
+    "match_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "league_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "leagues_invite_code_key" ON "leagues"("invite_code");
+
+-- CreateIndex
+CREATE INDEX "leagues_status_next_round_at_idx" ON "leagues"("status", "next_round_at");
+
+-- CreateIndex
+CREATE INDEX "leagues_owner_id_idx" ON "leagues"("owner_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "league_members_league_id_user_id_key" ON "league_members"("league_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "league_members_user_id_idx" ON "league_members"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "league_entries_slip_id_key" ON "league_entries"("slip_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "league_entries_league_id_round_user_id_key" ON "league_entries"("league_id", "round", "user_id");
+
+-- CreateIndex
+CREATE INDEX "league_entries_league_id_round_status_idx" ON "league_entries"("league_id", "round", "status");
+
+-- CreateIndex
+CREATE INDEX "matches_league_id_status_idx" ON "matches"("league_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "matches" ADD CONSTRAINT "matches_league_id_fkey" FOREIGN KEY ("league_id") REFERENCES "leagues"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "leagues" ADD CONSTRAINT "leagues_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "league_members" ADD CONSTRAINT "league_members_league_id_fkey" FOREIGN KEY ("league_id") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "league_members" ADD CONSTRAINT "league_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "league_entries" ADD CONSTRAINT "league_entries_league_id_fkey" FOREIGN KEY ("league_id") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "league_entries" ADD CONSTRAINT "league_entries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "league_entries" ADD CONSTRAINT "league_entries_slip_id_fkey" FOREIGN KEY ("slip_id") REFERENCES "slips"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
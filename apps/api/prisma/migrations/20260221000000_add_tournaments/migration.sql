@@ -0,0 +1,105 @@
+-- AlterEnum
+ALTER TYPE "GameMode" ADD VALUE IF NOT EXISTS 'TOURNAMENT';
+
+-- CreateEnum
+CREATE TYPE "TournamentStatus" AS ENUM ('REGISTRATION', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "TournamentEntryStatus" AS ENUM ('REGISTERED', 'ACTIVE', 'ELIMINATED', 'CHAMPION', 'REFUNDED');
+
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "tournament_id" TEXT,
+ADD COLUMN     "tournament_round" INTEGER,
+ADD COLUMN     "bracket_slot" INTEGER;
+
+-- CreateTable
+CREATE TABLE "tournaments" (
+    "id" TEXT NOT NULL,
+    "name" VARCHAR(80) NOT NULL,
+    "size" INTEGER NOT NULL,
+    "entry_fee" BIGINT NOT NULL,
+    "rake_percentage" DECIMAL(5,2) NOT NULL DEFAULT 5.00,
+    "entrant_count" INTEGER NOT NULL DEFAULT 0,
+    "prize_pool" BIGINT NOT NULL DEFAULT 0,
+    "rake_amount" BIGINT,
+    "payout_structure" JSONB NOT NULL,
+    "total_rounds" INTEGER NOT NULL,
+    "current_round" INTEGER NOT NULL DEFAULT 0,
+    "status" "TournamentStatus" NOT NULL DEFAULT 'REGISTRATION',
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "champion_id" TEXT,
+    "completed_at" TIMESTAMP(3),
+    "cancelled_at" TIMESTAMP(3),
+    "cancel_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tournaments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tournament_rounds" (
+    "id" TEXT NOT NULL,
+    "tournament_id" TEXT NOT NULL,
+    "round" INTEGER NOT NULL,
+    "event_ids" TEXT[],
+    "locks_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tournament_rounds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tournament_entries" (
+    "id" TEXT NOT NULL,
+    "tournament_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "slip_id" TEXT NOT NULL,
+    "entry_tx_id" TEXT NOT NULL,
+    "seed" INTEGER,
+    "status" "TournamentEntryStatus" NOT NULL DEFAULT 'REGISTERED',
+    "eliminated_round" INTEGER,
+    "final_position" INTEGER,
+    "payout_amount" BIGINT,
+    "payout_tx_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tournament_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tournaments_status_starts_at_idx" ON "tournaments"("status", "starts_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournament_rounds_tournament_id_round_key" ON "tournament_rounds"("tournament_id", "round");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournament_entries_slip_id_key" ON "tournament_entries"("slip_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tournament_entries_tournament_id_user_id_key" ON "tournament_entries"("tournament_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "tournament_entries_tournament_id_status_idx" ON "tournament_entries"("tournament_id", "status");
+
+-- CreateIndex
+CREATE INDEX "tournament_entries_user_id_idx" ON "tournament_entries"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "matches_tournament_id_tournament_round_bracket_slot_key" ON "matches"("tournament_id", "tournament_round", "bracket_slot");
+
+-- AddForeignKey
+ALTER TABLE "matches" ADD CONSTRAINT "matches_tournament_id_fkey" FOREIGN KEY ("tournament_id") REFERENCES "tournaments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_rounds" ADD CONSTRAINT "tournament_rounds_tournament_id_fkey" FOREIGN KEY ("tournament_id") REFERENCES "tournaments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_entries" ADD CONSTRAINT "tournament_entries_tournament_id_fkey" FOREIGN KEY ("tournament_id") REFERENCES "tournaments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_entries" ADD CONSTRAINT "tournament_entries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tournament_entries" ADD CONSTRAINT "tournament_entries_slip_id_fkey" FOREIGN KEY ("slip_id") REFERENCES "slips"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- House account: collects rake and backs minted coins (starter credits,
+-- allowances, season rewards, bonuses). Ids must match HOUSE_USER_ID in
+-- src/lib/wallet.service.ts. The account can never log in.
+INSERT INTO "users" ("id", "email", "password_hash", "email_verified", "username", "display_name", "status", "status_reason", "created_at", "updated_at")
+VALUES ('00000000-0000-0000-0000-000000000001', 'house@system.pickrivals.invalid', '!', true, '__house__', 'House', 'banned', 'System account', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+ON CONFLICT ("id") DO NOTHING;
+
+INSERT INTO "wallets" ("id", "user_id", "created_at", "updated_at")
+VALUES ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-000000000001', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+ON CONFLICT ("user_id") DO NOTHING;
+
+-- AlterTable
+ALTER TABLE "tournaments" ADD COLUMN     "rake_tx_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "transactions_user_id_created_at_idx" ON "transactions"("user_id", "created_at");
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "WalletDiscrepancyType" AS ENUM ('BALANCE_MISMATCH', 'COUNTER_MISMATCH', 'BROKEN_CHAIN', 'ORPHANED_TRANSACTION');
+
+-- CreateEnum
+CREATE TYPE "WalletDiscrepancyStatus" AS ENUM ('OPEN', 'RESOLVED', 'DISMISSED');
+
+-- AlterTable
+ALTER TABLE "wallets" ADD COLUMN     "frozen_at" TIMESTAMP(3),
+ADD COLUMN     "frozen_reason" TEXT,
+ADD COLUMN     "frozen_by" TEXT;
+
+-- CreateTable
+CREATE TABLE "wallet_discrepancies" (
+    "id" TEXT NOT NULL,
+    "wallet_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "type" "WalletDiscrepancyType" NOT NULL,
+    "status" "WalletDiscrepancyStatus" NOT NULL DEFAULT 'OPEN',
+    "field" TEXT,
+    "expected" BIGINT,
+    "actual" BIGINT,
+    "transaction_id" TEXT,
+    "fingerprint" TEXT NOT NULL,
+    "details" JSONB NOT NULL DEFAULT '{}',
+    "run_id" TEXT NOT NULL,
+    "detected_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_seen_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolved_at" TIMESTAMP(3),
+    "resolved_by" TEXT,
+    "resolution_note" TEXT,
+
+    CONSTRAINT "wallet_discrepancies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "wallet_discrepancies_status_detected_at_idx" ON "wallet_discrepancies"("status", "detected_at");
+
+-- CreateIndex
+CREATE INDEX "wallet_discrepancies_wallet_id_idx" ON "wallet_discrepancies"("wallet_id");
+
+-- CreateIndex
+CREATE INDEX "wallet_discrepancies_fingerprint_status_idx" ON "wallet_discrepancies"("fingerprint", "status");
+
+-- AddForeignKey
+ALTER TABLE "wallet_discrepancies" ADD CONSTRAINT "wallet_discrepancies_wallet_id_fkey" FOREIGN KEY ("wallet_id") REFERENCES "wallets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "matches" ADD COLUMN     "creator_rating_before" INTEGER,
+ADD COLUMN     "opponent_rating_before" INTEGER,
+ADD COLUMN     "creator_rating_change" INTEGER,
+ADD COLUMN     "opponent_rating_change" INTEGER,
+ADD COLUMN     "rated_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "matches_season_id_settled_at_idx" ON "matches"("season_id", "settled_at");
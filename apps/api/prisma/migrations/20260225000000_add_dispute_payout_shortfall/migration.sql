@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "match_disputes" ADD COLUMN     "payout_shortfall" BIGINT NOT NULL DEFAULT 0;
@@ -0,0 +1,143 @@
+#!/usr/bin/env tsx
+// =====================================================
+// Rating Model Simulation
+// =====================================================
+// Run with: pnpm --filter @pick-rivals/api ratings:simulate [options]
+//
+// Replays every settled ranked match in settlement order through the
+// skill rating and rank point model, then prints a calibration report.
+// Read-only - nothing is written back to the database.
+//
+// Options (override the defaults in DEFAULT_RATING_MODEL):
+//   --k-factor <n>       Elo K-factor
+//   --scale <n>          Elo scale
+//   --win-points <n>     RP for beating an equally rated opponent
+//   --loss-points <n>    RP lost to an equally rated opponent
+//   --margin-bonus <n>   Extra share of RP for a blowout (0 - 1)
+//   --season <id>        Only replay one season
+
+import 'dotenv/config';
+import { MatchStatus, Prisma } from '@prisma/client';
+import { prisma } from '../src/lib/prisma';
+import {
+  DEFAULT_RATING_MODEL,
+  simulateRatingModel,
+  type RatingModel,
+  type SimulationMatch,
+} from '../src/services/skill-rating.service';
+
+const BATCH_SIZE = 1000;
+
+// ===========================================
+// Arguments
+// ===========================================
+
+const NUMERIC_OPTIONS: Record<string, keyof RatingModel> = {
+  '--k-factor': 'kFactor',
+  '--scale': 'scale',
+  '--win-points': 'winPoints',
+  '--loss-points': 'lossPoints',
+  '--margin-bonus': 'marginBonus',
+};
+
+function parseArgs(argv: string[]): { model: RatingModel; seasonId?: string } {
+  const model: RatingModel = { ...DEFAULT_RATING_MODEL };
+  let seasonId: string | undefined;
+
+  for (let i = 0; i < argv.length; i += 2) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+
+    if (value === undefined) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+
+    if (flag === '--season') {
+      seasonId = value;
+      continue;
+    }
+
+    const key = NUMERIC_OPTIONS[flag];
+    const parsed = Number(value);
+    if (!key) {
+      throw new Error(`Unknown option ${flag}`);
+    }
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`${flag} must be a non-negative number`);
+    }
+    (model[key] as number) = parsed;
+  }
+
+  return { model, seasonId };
+}
+
+// ===========================================
+// Match History
+// ===========================================
+
+async function loadMatches(seasonId?: string): Promise<SimulationMatch[]> {
+  const where: Prisma.MatchWhereInput = {
+    status: { in: [MatchStatus.settled, MatchStatus.draw] },
+    seasonId: seasonId ?? { not: null },
+    opponentId: { not: null },
+  };
+  const matches: SimulationMatch[] = [];
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.match.findMany({
+      where,
+      select: {
+        id: true,
+        seasonId: true,
+        creatorId: true,
+        opponentId: true,
+        winnerId: true,
+        isDraw: true,
+        creatorPoints: true,
+        opponentPoints: true,
+      },
+      orderBy: [{ settledAt: 'asc' }, { id: 'asc' }],
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    });
+
+    for (const match of batch) {
+      matches.push({
+        ...match,
+        seasonId: match.seasonId!,
+        opponentId: match.opponentId!,
+        creatorPoints: match.creatorPoints.toNumber(),
+        opponentPoints: match.opponentPoints.toNumber(),
+      });
+    }
+
+    if (batch.length < BATCH_SIZE) break;
+    cursor = batch[batch.length - 1].id;
+  }
+
+  return matches;
+}
+
+// ===========================================
+// Main
+// ===========================================
+
+async function main() {
+  try {
+    const { model, seasonId } = parseArgs(process.argv.slice(2));
+    const matches = await loadMatches(seasonId);
+
+    console.log(`Replaying ${matches.length} ranked matches`);
+    const report = simulateRatingModel(matches, model);
+
+    console.log(JSON.stringify({ model, report }, null, 2));
+  } catch (error) {
+    console.error('Rating simulation failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -14,7 +14,7 @@ import { defaultRateLimiter } from './middleware';
 import healthRoutes from './routes/health.routes';
 import { authRoutes } from './modules/auth';
 import { eventsRoutes } from './modules/events';
-import { walletRoutes } from './modules/wallet';
+import { walletRoutes, iapWebhookRoutes } from './modules/wallet';
 import { slipsRoutes } from './modules/slips';
 import { matchesRoutes } from './modules/matches';
 import { liveScoresRouter } from './modules/live-scores';
@@ -22,6 +22,8 @@ import { adminRoutes } from './modules/admin';
 import { leaderboardRoutes } from './modules/leaderboard';
 import { usersRoutes } from './modules/users';
 import { friendsRoutes } from './modules/friends';
+import { leaguesRoutes } from './modules/leagues';
+import { tournamentsRoutes } from './modules/tournaments';
 import { matchmakingRouter } from './modules/matchmaking';
 import { rankedRoutes } from './modules/ranked';
 
@@ -78,6 +80,7 @@ app.use('/health', healthRoutes);
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/events', eventsRoutes);
 app.use('/api/v1/wallet', walletRoutes);
+app.use('/api/v1/webhooks/iap', iapWebhookRoutes);
 app.use('/api/v1/slips', slipsRoutes);
 app.use('/api/v1/matches', matchesRoutes);
 app.use('/api/v1', liveScoresRouter);
@@ -85,6 +88,8 @@ app.use('/api/v1/admin', adminRoutes);
 app.use('/api/v1/leaderboard', leaderboardRoutes);
 app.use('/api/v1/users', usersRoutes);
 app.use('/api/v1/friends', friendsRoutes);
+app.use('/api/v1/leagues', leaguesRoutes);
+app.use('/api/v1/tournaments', tournamentsRoutes);
 app.use('/api/v1/matchmaking', matchmakingRouter);
 app.use('/api/v1/ranked', rankedRoutes);
 
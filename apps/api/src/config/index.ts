@@ -26,10 +26,29 @@ export const config = {
     refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
   },
 
+  // Email verification and password reset tokens
+  emailTokens: {
+    verificationSecret: process.env.EMAIL_VERIFICATION_SECRET || 'dev-email-verification-secret',
+    verificationExpiresIn: process.env.EMAIL_VERIFICATION_EXPIRES_IN || '24h',
+    passwordResetSecret: process.env.PASSWORD_RESET_SECRET || 'dev-password-reset-secret',
+    passwordResetExpiresIn: process.env.PASSWORD_RESET_EXPIRES_IN || '1h',
+  },
+
+  // Outbound Email
+  mail: {
+    transport: (process.env.MAIL_TRANSPORT || 'console') as 'console' | 'file',
+    from: process.env.MAIL_FROM || 'POINTLOCK <no-reply@pointlock.local>',
+    outboxDir: process.env.MAIL_OUTBOX_DIR || '.mail-outbox',
+    appUrl: process.env.APP_URL || 'pointlock://',
+  },
+
   // Rate Limiting
   rateLimit: {
     windowMs: 60 * 1000, // 1 minute
     max: 100, // 100 requests per window
+    // 'redis' shares windows across API instances; 'memory' is per-process (dev/tests)
+    store: (process.env.RATE_LIMIT_STORE || 'redis') as 'redis' | 'memory',
+    keyPrefix: process.env.RATE_LIMIT_KEY_PREFIX || 'ratelimit:',
   },
 
   // Wallet
@@ -39,6 +58,18 @@ export const config = {
     defaultRakePercentage: 5, // 5%
   },
 
+  // Rematches ("run it back" after settlement)
+  rematch: {
+    windowMinutes: parseInt(process.env.REMATCH_WINDOW_MINUTES || '15', 10), // Request expires after this
+  },
+
+  // In-App Purchases
+  iap: {
+    // 'fake' accepts locally signed test receipts and is refused in production
+    validator: (process.env.IAP_VALIDATOR || 'fake') as 'fake',
+    webhookSecret: process.env.IAP_WEBHOOK_SECRET || '',
+  },
+
   // Sports Data Providers
   oddsApi: {
     apiKey: process.env.ODDS_API_KEY || '',
@@ -48,6 +79,20 @@ export const config = {
     initialRetryDelayMs: 1000, // Start with 1 second, then exponential backoff
   },
 
+  // Server-side pick pricing (slip create/lock)
+  pickPricing: {
+    maxLineDrift: parseFloat(process.env.PICK_MAX_LINE_DRIFT || '0.5'), // Line points
+    maxProbabilityDrift: parseFloat(process.env.PICK_MAX_PROBABILITY_DRIFT || '0.05'), // Implied probability
+  },
+
+  // Live (in-game) picks
+  livePicks: {
+    enabled: process.env.LIVE_PICKS_ENABLED !== 'false', // Enabled by default
+    acceptanceDelayMs: parseInt(process.env.LIVE_PICKS_ACCEPTANCE_DELAY_MS || '5000', 10), // Re-price after this delay
+    maxOddsAgeMs: parseInt(process.env.LIVE_PICKS_MAX_ODDS_AGE_MS || '60000', 10), // Older live odds aren't accepted
+    scoreChangeSuspensionMs: parseInt(process.env.LIVE_PICKS_SUSPENSION_MS || '15000', 10), // Minimum suspension after a score change
+  },
+
   // Live Scores
   liveScores: {
     webhookSecret: process.env.LIVE_SCORES_WEBHOOK_SECRET || '',
@@ -14,9 +14,10 @@ import {
   scheduleMatchExpiryChecks,
   startGameSettlementWorker,
   stopGameSettlementWorker,
+  scheduleOverdueBoxScoreChecks,
   startLeaderboardResetWorker,
   stopLeaderboardResetWorker,
-  scheduleWeeklyLeaderboardReset,
+  scheduleLeaderboardResets,
   startLeaderboardUpdateWorker,
   stopLeaderboardUpdateWorker,
   queueFullCacheRebuild,
@@ -29,6 +30,15 @@ import {
   startSeasonWorker,
   stopSeasonWorker,
   scheduleSeasonJobs,
+  startLeagueRoundWorker,
+  stopLeagueRoundWorker,
+  scheduleLeagueRounds,
+  startTournamentWorker,
+  stopTournamentWorker,
+  scheduleTournamentProcessing,
+  startWalletReconciliationWorker,
+  stopWalletReconciliationWorker,
+  scheduleWalletReconciliation,
 } from "./queues";
 import { bootstrapLeaderboards } from "./lib/leaderboard-bootstrap";
 import {
@@ -74,17 +84,18 @@ async function initializeWorkers(): Promise<void> {
 
     // Start the game settlement worker
     startGameSettlementWorker();
-    logger.info("Game settlement worker started");
+    await scheduleOverdueBoxScoreChecks();
+    logger.info("Game settlement worker started (overdue box score check hourly)");
 
-    // Bootstrap leaderboards (ensure GLOBAL and WEEKLY exist)
+    // Bootstrap leaderboards (ensure GLOBAL and current period boards exist)
     await bootstrapLeaderboards();
 
     // Start the leaderboard reset worker
     startLeaderboardResetWorker();
 
-    // Schedule weekly leaderboard reset (Mondays 00:00 UTC)
-    await scheduleWeeklyLeaderboardReset();
-    logger.info("Leaderboard reset worker started and weekly reset scheduled");
+    // Schedule weekly, monthly and seasonal leaderboard resets
+    await scheduleLeaderboardResets();
+    logger.info("Leaderboard reset worker started and period resets scheduled");
 
     // Start leaderboard cache update worker
     startLeaderboardUpdateWorker();
@@ -104,10 +115,25 @@ async function initializeWorkers(): Promise<void> {
     await scheduleMatchmakingProcessor();
     logger.info("Matchmaking worker started and processor scheduled (every 5 seconds)");
 
-    // Start the season worker (rank decay, season end, rewards)
+    // Start the season worker (rank decay, season start and end, rewards)
     startSeasonWorker();
     await scheduleSeasonJobs();
-    logger.info("Season worker started (decay 2 AM UTC, season check hourly)");
+    logger.info("Season worker started (decay 2 AM UTC, season start/end checks hourly)");
+
+    // Start the league round worker (weekly private league pairing)
+    startLeagueRoundWorker();
+    await scheduleLeagueRounds();
+    logger.info("League round worker started and checks scheduled (every 15 minutes)");
+
+    // Start the tournament worker (bracket start, slip deadlines, payout retries)
+    startTournamentWorker();
+    await scheduleTournamentProcessing();
+    logger.info("Tournament worker started and checks scheduled (every 5 minutes)");
+
+    // Start the wallet reconciliation worker (ledger vs balance drift)
+    startWalletReconciliationWorker();
+    await scheduleWalletReconciliation();
+    logger.info("Wallet reconciliation worker started (daily 3:30 AM UTC)");
 
     logger.info("Background workers initialized successfully");
   } catch (error) {
@@ -163,6 +189,9 @@ const gracefulShutdown = async (signal: string) => {
       await stopPlayerTierSyncWorker();
       await stopMatchmakingWorker();
       await stopSeasonWorker();
+      await stopLeagueRoundWorker();
+      await stopTournamentWorker();
+      await stopWalletReconciliationWorker();
       logger.info("Background workers stopped");
 
       // Close Redis connections
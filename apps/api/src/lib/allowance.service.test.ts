@@ -25,6 +25,7 @@ import {
 const mockFunctions = {
   walletFindUnique: vi.fn(),
   walletUpdateMany: vi.fn(),
+  walletUpdate: vi.fn(),
   transactionFindUnique: vi.fn(),
   transactionCreate: vi.fn(),
 };
@@ -47,6 +48,9 @@ vi.mock('./prisma', () => ({
           get updateMany() {
             return mockFunctions.walletUpdateMany;
           },
+          get update() {
+            return mockFunctions.walletUpdate;
+          },
         },
         transaction: {
           get findUnique() {
@@ -89,6 +93,7 @@ import { logger } from '../utils/logger';
 // Extract individual mock functions for convenience
 const mockWalletFindUnique = mockFunctions.walletFindUnique;
 const mockWalletUpdateMany = mockFunctions.walletUpdateMany;
+const mockWalletUpdate = mockFunctions.walletUpdate;
 const mockTransactionFindUnique = mockFunctions.transactionFindUnique;
 const mockTransactionCreate = mockFunctions.transactionCreate;
 
@@ -136,6 +141,12 @@ function createMockTransaction(overrides = {}) {
 
 beforeEach(() => {
   vi.clearAllMocks();
+  // House wallet debit that backs each allowance
+  mockWalletUpdate.mockResolvedValue({
+    id: 'house-wallet',
+    paidBalance: BigInt(-1000),
+    bonusBalance: BigInt(0),
+  });
 });
 
 afterEach(() => {
@@ -408,6 +419,26 @@ describe('creditAllowance - happy paths', () => {
       })
     );
 
+    // Verify the house wallet backs the minted coins
+    expect(mockWalletUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: '00000000-0000-0000-0000-000000000001' },
+        data: expect.objectContaining({
+          paidBalance: { increment: BigInt(-1000) },
+        }),
+      })
+    );
+    expect(mockTransactionCreate).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          userId: '00000000-0000-0000-0000-000000000001',
+          type: 'WEEKLY_ALLOWANCE',
+          amount: BigInt(-1000),
+          idempotencyKey: expect.stringMatching(/^house:allowance-user-123-/),
+        }),
+      })
+    );
+
     // Verify logging
     expect(logger.info).toHaveBeenCalledWith(
       expect.stringContaining('Allowance credited')
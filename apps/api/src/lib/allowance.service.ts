@@ -14,7 +14,7 @@ import {
   ConflictError,
 } from '../utils/errors';
 import { ERROR_CODES } from '@pick-rivals/shared-types';
-import { bigIntToNumber } from './wallet.service';
+import { bigIntToNumber, postHouseEntry, getHouseIdempotencyKey } from './wallet.service';
 
 // ===========================================
 // Constants
@@ -326,6 +326,17 @@ async function attemptCreditAllowance(
         },
       });
 
+      // 9. Allowance coins are minted: back them with a house debit
+      await postHouseEntry(tx, {
+        amount: ALLOWANCE_AMOUNT,
+        direction: 'debit',
+        type: 'WEEKLY_ALLOWANCE' as TransactionType,
+        idempotencyKey: getHouseIdempotencyKey(idempotencyKey),
+        counterpartyUserId: userId,
+        description: `Weekly allowance funding - Week ${weekNumber} of ${year}`,
+        metadata: { userTransactionId: transaction.id },
+      });
+
       logger.info(
         `Allowance credited: ${userId} +${bigIntToNumber(ALLOWANCE_AMOUNT)} | ` +
           `Balance: ${bigIntToNumber(balanceBefore)} -> ${bigIntToNumber(balanceAfter)} | ` +
@@ -0,0 +1,49 @@
+// =====================================================
+// Invite Codes
+// =====================================================
+// Short shareable codes for private matches, lobbies and leagues.
+// Codes are random, so callers check uniqueness against their own
+// table and retry on collision.
+
+// ===========================================
+// Constants
+// ===========================================
+
+const INVITE_CODE_LENGTH = 10;
+const INVITE_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Excludes ambiguous chars (0, O, I, 1)
+const MAX_GENERATION_ATTEMPTS = 5;
+
+// ===========================================
+// Generation
+// ===========================================
+
+/**
+ * Generates a random alphanumeric invite code.
+ * Excludes ambiguous characters for user-friendliness.
+ */
+export function generateInviteCode(): string {
+  let code = '';
+  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+    const randomIndex = Math.floor(Math.random() * INVITE_CODE_CHARS.length);
+    code += INVITE_CODE_CHARS[randomIndex];
+  }
+  return code;
+}
+
+/**
+ * Generates an invite code that isn't already taken, retrying on collision.
+ * Returns null if every attempt collided - callers raise their own error.
+ *
+ * @param isTaken - Whether a code is already in use
+ */
+export async function generateUniqueInviteCode(
+  isTaken: (code: string) => Promise<boolean>
+): Promise<string | null> {
+  for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+    const code = generateInviteCode();
+    if (!(await isTaken(code))) {
+      return code;
+    }
+  }
+  return null;
+}
@@ -8,15 +8,14 @@ import { prisma } from './prisma';
 import { logger } from '../utils/logger';
 import {
   GLOBAL_LEADERBOARD_SLUG,
-  getWeekStart,
-  getWeekEnd,
-  getISOWeekNumber,
-  generateWeeklySlug,
+  resolveLeaderboardPeriod,
+  findOrCreateLeaderboard,
 } from '../modules/leaderboard/leaderboard.service';
 
 /**
  * Initialize required leaderboards.
- * Creates GLOBAL and current WEEKLY leaderboards if they don't exist.
+ * Creates GLOBAL and the current WEEKLY, MONTHLY and SEASONAL all-sports
+ * leaderboards if they don't exist. Per-sport boards are created on demand.
  * Called once during application startup.
  */
 export async function bootstrapLeaderboards(): Promise<void> {
@@ -47,32 +46,17 @@ export async function bootstrapLeaderboards(): Promise<void> {
       logger.debug('[Leaderboard] Global leaderboard already exists');
     }
 
-    // 2. Ensure current weekly leaderboard exists
-    const weekStart = getWeekStart();
-    const weeklySlug = generateWeeklySlug(weekStart);
+    // 2. Ensure current period leaderboards exist
+    for (const timeframe of ['WEEKLY', 'MONTHLY', 'SEASONAL'] as const) {
+      const period = await resolveLeaderboardPeriod(prisma, timeframe, null);
 
-    const weeklyExists = await prisma.leaderboard.findUnique({
-      where: { slug: weeklySlug },
-    });
-
-    if (!weeklyExists) {
-      const weekEnd = getWeekEnd(weekStart);
-      const weekNum = getISOWeekNumber(weekStart);
+      if (!period) {
+        logger.debug(`[Leaderboard] No current period for ${timeframe} leaderboard`);
+        continue;
+      }
 
-      await prisma.leaderboard.create({
-        data: {
-          name: `Weekly Leaderboard - Week ${weekNum}, ${weekStart.getUTCFullYear()}`,
-          slug: weeklySlug,
-          timeframe: 'WEEKLY',
-          status: 'active',
-          periodStart: weekStart,
-          periodEnd: weekEnd,
-          displayOrder: 1,
-        },
-      });
-      logger.info(`[Leaderboard] Created weekly leaderboard: ${weeklySlug}`);
-    } else {
-      logger.debug(`[Leaderboard] Weekly leaderboard already exists: ${weeklySlug}`);
+      await findOrCreateLeaderboard(prisma, period);
+      logger.debug(`[Leaderboard] Ensured ${timeframe} leaderboard: ${period.slug}`);
     }
 
     logger.info('[Leaderboard] Bootstrap complete');
@@ -8,6 +8,7 @@ import { describe, it, expect } from 'vitest';
 import {
   isValidAmericanOdds,
   americanToDecimalOdds,
+  decimalToAmericanOdds,
   americanToImpliedProbability,
   convertAmericanOdds,
   calculateDifficultyMultiplier,
@@ -15,6 +16,8 @@ import {
   calculateParlayBonus,
   calculateSlipPointPotential,
   calculateCombinedProbability,
+  normalizeMarketProbability,
+  STANDARD_TWO_WAY_OVERROUND,
   BASE_POINTS,
   MAX_POINTS_PER_PICK,
   MIN_POINTS_PER_PICK,
@@ -133,6 +136,34 @@ describe('American to Decimal Odds Conversion', () => {
   });
 });
 
+// ===========================================
+// Test: Decimal to American Odds Conversion
+// ===========================================
+
+describe('Decimal to American Odds Conversion', () => {
+  it('converts underdog prices to positive American odds', () => {
+    expect(decimalToAmericanOdds(3.0)).toBe(200);
+    expect(decimalToAmericanOdds(2.0)).toBe(100);
+  });
+
+  it('converts favourite prices to negative American odds', () => {
+    expect(decimalToAmericanOdds(1.5)).toBe(-200);
+    expect(decimalToAmericanOdds(1.91)).toBe(-110);
+  });
+
+  it('round-trips with americanToDecimalOdds', () => {
+    for (const odds of [-300, -110, 150, 900]) {
+      expect(decimalToAmericanOdds(americanToDecimalOdds(odds))).toBe(odds);
+    }
+  });
+
+  it('returns null for prices that cannot be converted', () => {
+    expect(decimalToAmericanOdds(1)).toBeNull();
+    expect(decimalToAmericanOdds(0)).toBeNull();
+    expect(decimalToAmericanOdds(NaN)).toBeNull();
+  });
+});
+
 // ===========================================
 // Test: American to Implied Probability
 // ===========================================
@@ -299,6 +330,40 @@ describe('Point Value Ordering (Harder = More Points)', () => {
   }
 });
 
+// ===========================================
+// Test: Three-Way Market Normalization
+// ===========================================
+
+describe('Three-Way Market Normalization', () => {
+  // +150 home / +180 away / +230 draw
+  const threeWay = [100 / 250, 100 / 280, 100 / 330];
+
+  it('Two-way market probability is unchanged', () => {
+    expect(normalizeMarketProbability(0.5238, [0.5238, 0.5238])).toBe(0.5238);
+  });
+
+  it('Missing market probabilities leave probability unchanged', () => {
+    expect(normalizeMarketProbability(0.4)).toBe(0.4);
+  });
+
+  it('Three-way market is rescaled to the standard two-way overround', () => {
+    const total = threeWay.reduce(
+      (sum, p) => sum + normalizeMarketProbability(p, threeWay),
+      0
+    );
+    expect(total).toBeCloseTo(STANDARD_TWO_WAY_OVERROUND, 6);
+  });
+
+  it('Three-way vig is stripped before pricing a pick', () => {
+    // -120 home / +250 away / +220 draw carries ~14% overround
+    const heavyVig = [120 / 220, 100 / 350, 100 / 320];
+    const raw = calculatePickPointValue(220);
+    const normalized = calculatePickPointValue(220, heavyVig);
+    expect(normalized.impliedProbability).toBeLessThan(raw.impliedProbability);
+    expect(normalized.pointValue).toBeGreaterThan(raw.pointValue);
+  });
+});
+
 // ===========================================
 // Test: Parlay Bonus
 // ===========================================
@@ -54,6 +54,12 @@ export const MAX_VALID_ODDS = 99999;
  */
 const STANDARD_IMPLIED_PROBABILITY = 110 / 210; // ~0.5238
 
+/**
+ * Overround (sum of implied probabilities) of a standard -110/-110 market.
+ * Point and coin curves are calibrated against two-way markets priced like this.
+ */
+export const STANDARD_TWO_WAY_OVERROUND = 2 * STANDARD_IMPLIED_PROBABILITY; // ~1.0476
+
 // ===========================================
 // Type Definitions
 // ===========================================
@@ -140,6 +146,30 @@ export function americanToDecimalOdds(americanOdds: number): number {
   return (100 / Math.abs(americanOdds)) + 1;
 }
 
+/**
+ * Converts decimal odds to American odds (rounded to the nearest integer).
+ *
+ * Formula:
+ * - Decimal >= 2.00: (decimal - 1) * 100 = +200 for 3.00
+ * - Decimal < 2.00: -100 / (decimal - 1) = -150 for 1.667
+ *
+ * @param decimalOdds - Decimal odds (e.g., 1.91, 3.00)
+ * @returns American odds (e.g., -110, +200), or null for decimal odds <= 1
+ */
+export function decimalToAmericanOdds(decimalOdds: number): number | null {
+  if (!Number.isFinite(decimalOdds) || decimalOdds <= 1) {
+    return null;
+  }
+
+  const american =
+    decimalOdds >= 2
+      ? Math.round((decimalOdds - 1) * 100)
+      : Math.round(-100 / (decimalOdds - 1));
+
+  // Clamp into the valid range (e.g. 1.0001 would otherwise be -1000000)
+  return Math.min(MAX_VALID_ODDS, Math.max(MIN_VALID_ODDS, american));
+}
+
 /**
  * Converts American odds to implied probability.
  *
@@ -189,6 +219,39 @@ export function convertAmericanOdds(americanOdds: number): OddsConversionResult
   };
 }
 
+/**
+ * Normalizes a pick's implied probability from a multi-way market
+ * (e.g. soccer home / draw / away) to its two-way equivalent.
+ *
+ * Three-way markets carry a larger overround spread across three outcomes,
+ * so raw implied probabilities aren't comparable with two-way prices.
+ * The vig is removed across all outcomes, then the standard two-way
+ * overround is re-applied so the result sits on the same scale the
+ * point and coin curves were calibrated on.
+ *
+ * Two-way (or unknown) markets are returned unchanged.
+ *
+ * @param impliedProbability - Raw implied probability of the pick
+ * @param marketImpliedProbabilities - Raw implied probabilities of every outcome in the market
+ * @returns Two-way equivalent implied probability
+ */
+export function normalizeMarketProbability(
+  impliedProbability: number,
+  marketImpliedProbabilities?: number[]
+): number {
+  if (!marketImpliedProbabilities || marketImpliedProbabilities.length <= 2) {
+    return impliedProbability;
+  }
+
+  const overround = marketImpliedProbabilities.reduce((sum, p) => sum + p, 0);
+  if (!Number.isFinite(overround) || overround <= 0) {
+    return impliedProbability;
+  }
+
+  const fairProbability = impliedProbability / overround;
+  return Math.min(0.99, fairProbability * STANDARD_TWO_WAY_OVERROUND);
+}
+
 // ===========================================
 // Point Value Calculation
 // ===========================================
@@ -259,9 +322,13 @@ export function calculateDifficultyMultiplier(impliedProbability: number): numbe
  * - All calculations use safe math operations
  *
  * @param americanOdds - American odds for the pick
+ * @param marketImpliedProbabilities - All outcome probabilities for multi-way markets (optional)
  * @returns Point calculation result with detailed breakdown
  */
-export function calculatePickPointValue(americanOdds: number): PointCalculationResult {
+export function calculatePickPointValue(
+  americanOdds: number,
+  marketImpliedProbabilities?: number[]
+): PointCalculationResult {
   // Validate input
   if (!isValidAmericanOdds(americanOdds)) {
     return {
@@ -273,7 +340,10 @@ export function calculatePickPointValue(americanOdds: number): PointCalculationR
     };
   }
 
-  const impliedProbability = americanToImpliedProbability(americanOdds);
+  const impliedProbability = normalizeMarketProbability(
+    americanToImpliedProbability(americanOdds),
+    marketImpliedProbabilities
+  );
   const difficultyMultiplier = calculateDifficultyMultiplier(impliedProbability);
 
   // Calculate raw points
@@ -353,16 +423,20 @@ export function calculateCombinedProbability(probabilities: number[]): number {
  * - Invalid odds don't provide exploitable advantages
  *
  * @param oddsArray - Array of American odds for each pick
+ * @param marketImpliedProbabilities - Per-pick outcome probabilities for multi-way markets (optional)
  * @returns Detailed point potential calculation
  */
-export function calculateSlipPointPotential(oddsArray: number[]): SlipPointPotentialResult {
+export function calculateSlipPointPotential(
+  oddsArray: number[],
+  marketImpliedProbabilities?: Array<number[] | undefined>
+): SlipPointPotentialResult {
   const errors: string[] = [];
   const pickPointValues: number[] = [];
   const impliedProbabilities: number[] = [];
 
   // Calculate individual pick values
   for (let i = 0; i < oddsArray.length; i++) {
-    const result = calculatePickPointValue(oddsArray[i]);
+    const result = calculatePickPointValue(oddsArray[i], marketImpliedProbabilities?.[i]);
     pickPointValues.push(result.pointValue);
     impliedProbabilities.push(result.impliedProbability);
 
@@ -12,6 +12,8 @@ import {
   calculateUnderdogBonus,
   getTierMultiplier,
   getMarketModifier,
+  getLiveMarketModifier,
+  applyLivePointModifier,
   type MarketType,
   type PickForValidation,
 } from './pointlock-calculator';
@@ -172,6 +174,46 @@ describe('getMarketModifier', () => {
   });
 });
 
+// ===========================================
+// Test: Live Market Modifiers
+// ===========================================
+
+describe('getLiveMarketModifier', () => {
+  it('is lower than the pre-game modifier for every market', () => {
+    for (const market of ['moneyline', 'spread', 'prop', 'total'] as MarketType[]) {
+      expect(getLiveMarketModifier(market)).toBeLessThan(getMarketModifier(market));
+    }
+  });
+
+  it('unknown market defaults to live moneyline (0.8x)', () => {
+    expect(getLiveMarketModifier('unknown' as MarketType)).toBe(0.8);
+  });
+});
+
+describe('applyLivePointModifier', () => {
+  it('scales and rounds a pre-game point value', () => {
+    expect(applyLivePointModifier(20, 'moneyline')).toBe(16);
+    expect(applyLivePointModifier(20, 'spread')).toBe(14);
+  });
+
+  it('never drops below 1 point', () => {
+    expect(applyLivePointModifier(1, 'spread')).toBe(1);
+  });
+});
+
+describe('calculatePoints - Live', () => {
+  it('uses the live modifier', () => {
+    const result = calculatePoints(0.5, -110, 'spread', undefined, true);
+    expect(result.marketModifier).toBe(0.7);
+  });
+
+  it('earns fewer points than the same pre-game pick', () => {
+    const pregame = calculatePoints(0.3, 200, 'moneyline');
+    const live = calculatePoints(0.3, 200, 'moneyline', undefined, true);
+    expect(live.points).toBeLessThan(pregame.points);
+  });
+});
+
 // ===========================================
 // Test: calculateCoinCost
 // ===========================================
@@ -22,6 +22,7 @@ import {
   POINTS_FORMULA,
   MIN_SLIP_SPEND,
 } from '@pick-rivals/shared-types';
+import { normalizeMarketProbability } from './odds-calculator';
 
 // ===========================================
 // Constants
@@ -197,6 +198,40 @@ export function getMarketModifier(marketType: MarketType): number {
   return POINTS_FORMULA.MARKET_MODIFIERS.moneyline;
 }
 
+/**
+ * Gets the live market modifier for points calculation.
+ * Live picks are made with the game state in view, so they earn fewer
+ * points than the same pick made before kickoff.
+ * Defaults to moneyline for unknown market types.
+ *
+ * @param marketType - Market type string
+ * @returns Live market modifier
+ */
+export function getLiveMarketModifier(marketType: MarketType): number {
+  const modifier = POINTS_FORMULA.LIVE_MARKET_MODIFIERS[marketType];
+  if (modifier !== undefined) {
+    return modifier;
+  }
+
+  return POINTS_FORMULA.LIVE_MARKET_MODIFIERS.moneyline;
+}
+
+/**
+ * Applies the live market modifier to a pre-game point value.
+ * Used for pick point values computed by the odds calculator.
+ *
+ * @example
+ * applyLivePointModifier(20, 'moneyline') // 16
+ * applyLivePointModifier(20, 'spread')    // 14
+ *
+ * @param points - Point value before the live modifier
+ * @param marketType - Market type string
+ * @returns Rounded point value (at least 1)
+ */
+export function applyLivePointModifier(points: number, marketType: MarketType): number {
+  return Math.max(1, Math.round(points * getLiveMarketModifier(marketType)));
+}
+
 /**
  * Calculates underdog bonus based on American odds thresholds.
  *
@@ -266,13 +301,18 @@ export function calculateUnderdogBonus(americanOdds: number | null | undefined):
  * calculateCoinCost(0.80, PickTier.ELITE)
  * // { coinCost: 225, tier: PickTier.ELITE, ... }
  *
+ * Three-way markets (soccer moneyline) pass every outcome's probability so
+ * the pick is priced on the two-way scale (see normalizeMarketProbability).
+ *
  * @param impliedProbability - Decimal probability in [0, 1]
  * @param tier - PickTier enum value
+ * @param marketImpliedProbabilities - All outcome probabilities for multi-way markets (optional)
  * @returns CoinCostResult with calculated cost and metadata
  */
 export function calculateCoinCost(
   impliedProbability: number,
-  tier: PickTier
+  tier: PickTier,
+  marketImpliedProbabilities?: number[]
 ): CoinCostResult {
   // Validate probability
   const validation = validateProbability(impliedProbability);
@@ -293,8 +333,10 @@ export function calculateCoinCost(
     };
   }
 
-  // Clamp probability to safe range
-  const clampedProb = clampProbability(impliedProbability);
+  // Normalize multi-way markets, then clamp probability to safe range
+  const clampedProb = clampProbability(
+    normalizeMarketProbability(impliedProbability, marketImpliedProbabilities)
+  );
 
   // Get tier multiplier
   const tierMultiplier = getTierMultiplier(tier);
@@ -334,6 +376,7 @@ export function calculateCoinCost(
  * Properties:
  * - Monotonically decreasing with probability (underdogs earn more)
  * - Spread/prop/total picks earn slightly fewer points than moneyline
+ * - Live picks use LIVE_MARKET_MODIFIERS, which are lower across the board
  * - Underdog bonus adds flat points for +300/+400/+500 odds
  * - Output is always an integer in range [5, 40]
  *
@@ -349,18 +392,23 @@ export function calculateCoinCost(
  * @param impliedProbability - Decimal probability in [0, 1]
  * @param americanOdds - American odds (e.g., -110, +200) or null
  * @param marketType - Market type ('moneyline', 'spread', 'total', 'prop')
+ * @param marketImpliedProbabilities - All outcome probabilities for multi-way markets (optional)
+ * @param isLive - Whether the pick was placed during the game (uses LIVE_MARKET_MODIFIERS)
  * @returns PointsResult with calculated points and metadata
  */
 export function calculatePoints(
   impliedProbability: number,
   americanOdds: number | null | undefined,
-  marketType: MarketType
+  marketType: MarketType,
+  marketImpliedProbabilities?: number[],
+  isLive = false
 ): PointsResult {
+  const marketModifier = isLive ? getLiveMarketModifier(marketType) : getMarketModifier(marketType);
+
   // Validate probability
   const validation = validateProbability(impliedProbability);
   if (!validation.valid) {
     // Return safe default with error
-    const marketModifier = getMarketModifier(marketType);
     const defaultPoints = Math.round(
       (POINTS_FORMULA.P_MIN + POINTS_FORMULA.P_MAX) / 2 * marketModifier
     );
@@ -376,11 +424,10 @@ export function calculatePoints(
     };
   }
 
-  // Clamp probability to safe range
-  const clampedProb = clampProbability(impliedProbability);
-
-  // Get market modifier
-  const marketModifier = getMarketModifier(marketType);
+  // Normalize multi-way markets, then clamp probability to safe range
+  const clampedProb = clampProbability(
+    normalizeMarketProbability(impliedProbability, marketImpliedProbabilities)
+  );
 
   // Calculate base points using inverse probability power curve
   // inverseProb = 1 - clampedProb
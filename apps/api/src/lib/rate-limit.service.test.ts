@@ -0,0 +1,201 @@
+// =====================================================
+// Rate Limit Service Test Suite
+// =====================================================
+// Tests for the sliding window (Redis script and in-memory store),
+// policy consumption, fail-open behaviour and rejection metrics.
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { config } from '../config';
+import {
+  RATE_LIMIT_POLICIES,
+  buildRateLimitKey,
+  hitRateLimitWindow,
+  removeRateLimitHit,
+  consumeRateLimit,
+  getRateLimitMetrics,
+  resetRateLimitMetrics,
+  resetMemoryRateLimitWindows,
+} from './rate-limit.service';
+
+// ===========================================
+// Mock Redis Connection
+// ===========================================
+
+const mockRedis = {
+  eval: vi.fn(),
+  zrem: vi.fn(),
+  del: vi.fn(),
+};
+
+vi.mock('../queues/connection', () => ({
+  getRedisConnection: () => mockRedis,
+}));
+
+vi.mock('../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+// ===========================================
+// Test Setup
+// ===========================================
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  resetRateLimitMetrics();
+  resetMemoryRateLimitWindows();
+  config.rateLimit.store = 'redis';
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ===========================================
+// Test: Redis Store
+// ===========================================
+
+describe('hitRateLimitWindow (redis)', () => {
+  it('runs the sliding window script for the key', async () => {
+    vi.useFakeTimers({ now: 10_000 });
+    mockRedis.eval.mockResolvedValue([3, '4000']);
+
+    const hit = await hitRateLimitWindow('ratelimit:matchJoin:user:u1', 60_000, 10, 'hit-1');
+
+    expect(mockRedis.eval).toHaveBeenCalledWith(
+      expect.stringContaining('ZREMRANGEBYSCORE'),
+      1,
+      'ratelimit:matchJoin:user:u1',
+      10_000,
+      60_000,
+      10,
+      'hit-1'
+    );
+    expect(hit).toEqual({
+      totalHits: 3,
+      resetTime: new Date(64_000),
+      allowed: true,
+      member: 'hit-1',
+    });
+  });
+
+  it('rejects once hits exceed the limit', async () => {
+    mockRedis.eval.mockResolvedValue([11, '1000']);
+
+    const hit = await hitRateLimitWindow('ratelimit:matchJoin:user:u1', 60_000, 10);
+
+    expect(hit.allowed).toBe(false);
+    expect(hit.member).toBeNull();
+  });
+
+  it('removes exactly the given hit', async () => {
+    mockRedis.zrem.mockResolvedValue(1);
+
+    await removeRateLimitHit('ratelimit:auth:ip:203.0.113.7', 'hit-1');
+
+    expect(mockRedis.zrem).toHaveBeenCalledWith('ratelimit:auth:ip:203.0.113.7', 'hit-1');
+  });
+});
+
+// ===========================================
+// Test: Memory Store
+// ===========================================
+
+describe('hitRateLimitWindow (memory)', () => {
+  beforeEach(() => {
+    config.rateLimit.store = 'memory';
+  });
+
+  it('slides the window instead of resetting on a boundary', async () => {
+    vi.useFakeTimers({ now: 0 });
+    await hitRateLimitWindow('k', 1000, 2);
+    vi.setSystemTime(600);
+    await hitRateLimitWindow('k', 1000, 2);
+
+    vi.setSystemTime(900);
+    expect((await hitRateLimitWindow('k', 1000, 2)).allowed).toBe(false);
+
+    // First hit has left the window; second is still in it
+    vi.setSystemTime(1100);
+    const hit = await hitRateLimitWindow('k', 1000, 2);
+    expect(hit.allowed).toBe(true);
+    expect(hit.resetTime).toEqual(new Date(1600));
+    expect((await hitRateLimitWindow('k', 1000, 2)).allowed).toBe(false);
+  });
+
+  it('does not record rejected hits', async () => {
+    vi.useFakeTimers({ now: 0 });
+    await hitRateLimitWindow('k', 1000, 1);
+    vi.setSystemTime(500);
+    await hitRateLimitWindow('k', 1000, 1);
+
+    vi.setSystemTime(1001);
+    expect((await hitRateLimitWindow('k', 1000, 1)).allowed).toBe(true);
+  });
+
+  it('removes the given hit, not the newest one', async () => {
+    vi.useFakeTimers({ now: 0 });
+    const first = await hitRateLimitWindow('k', 1000, 2);
+    vi.setSystemTime(100);
+    await hitRateLimitWindow('k', 1000, 2);
+
+    await removeRateLimitHit('k', first.member!);
+
+    // Only the second hit is left, so the window resets from it
+    vi.setSystemTime(200);
+    const hit = await hitRateLimitWindow('k', 1000, 2);
+    expect(hit.allowed).toBe(true);
+    expect(hit.resetTime).toEqual(new Date(1100));
+  });
+
+  it('does not touch Redis', async () => {
+    await hitRateLimitWindow('k', 1000, 1);
+
+    expect(mockRedis.eval).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// Test: consumeRateLimit()
+// ===========================================
+
+describe('consumeRateLimit', () => {
+  it('keys the window by policy and identity', async () => {
+    mockRedis.eval.mockResolvedValue([1, '0']);
+
+    await consumeRateLimit('socketJoinMatch', 'user:u1');
+
+    expect(mockRedis.eval.mock.calls[0][2]).toBe(buildRateLimitKey('socketJoinMatch', 'user:u1'));
+    expect(mockRedis.eval.mock.calls[0][5]).toBe(RATE_LIMIT_POLICIES.socketJoinMatch.max);
+  });
+
+  it('counts rejections per policy', async () => {
+    mockRedis.eval.mockResolvedValue([RATE_LIMIT_POLICIES.socketJoinMatch.max + 1, '0']);
+
+    expect(await consumeRateLimit('socketJoinMatch', 'user:u1')).toBe(false);
+    expect(await consumeRateLimit('socketJoinMatch', 'user:u1')).toBe(false);
+
+    expect(getRateLimitMetrics()).toEqual({
+      rejections: { socketJoinMatch: 2 },
+      storeErrors: 0,
+      totalRejections: 2,
+    });
+  });
+
+  it('fails open when Redis errors', async () => {
+    mockRedis.eval.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    expect(await consumeRateLimit('matchJoin', 'user:u1')).toBe(true);
+    expect(getRateLimitMetrics().storeErrors).toBe(1);
+  });
+
+  it('fails open when Redis does not respond', async () => {
+    vi.useFakeTimers();
+    mockRedis.eval.mockReturnValue(new Promise(() => {}));
+
+    const result = consumeRateLimit('matchJoin', 'user:u1');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(await result).toBe(true);
+    expect(getRateLimitMetrics().storeErrors).toBe(1);
+  });
+});
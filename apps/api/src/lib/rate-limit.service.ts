@@ -0,0 +1,387 @@
+// =====================================================
+// Rate Limit Service
+// =====================================================
+// Sliding-window rate limiting shared by every API instance.
+// Each hit is a member of a Redis sorted set scored by its timestamp;
+// hits older than the window are trimmed before counting, so limits
+// roll continuously instead of resetting on fixed boundaries.
+//
+// Limits are keyed by authenticated user ID where known and by client
+// IP otherwise, so users behind a shared NAT don't throttle each other.
+// If Redis is unavailable, hits are allowed (fail open) and counted
+// as store errors - rate limiting must never take the API down.
+
+import { randomUUID } from 'crypto';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface RateLimitPolicy {
+  /** Window length in milliseconds */
+  windowMs: number;
+  /** Hits allowed per key within the window */
+  max: number;
+  /** Message returned to rejected clients */
+  message: string;
+}
+
+export interface RateLimitHit {
+  /** Hits in the current window, including this one */
+  totalHits: number;
+  /** When the oldest hit in the window expires */
+  resetTime: Date;
+  /** Whether this hit is within the limit */
+  allowed: boolean;
+  /** Window member recorded for this hit (null if it was rejected) */
+  member: string | null;
+}
+
+interface RateLimitMetrics {
+  rejections: Record<string, number>;
+  storeErrors: number;
+}
+
+// ===========================================
+// Policies
+// ===========================================
+
+export type RateLimitPolicyName =
+  | 'default'
+  | 'auth'
+  | 'passwordReset'
+  | 'usernameCheck'
+  | 'allowanceClaim'
+  | 'creation'
+  | 'slipCreate'
+  | 'matchJoin'
+  | 'friendRequest'
+  | 'socketJoinMatch'
+  | 'socketJoinTournament';
+
+/**
+ * Named rate limit policies.
+ * HTTP limiters and socket handlers both consume these, so a policy
+ * means the same thing regardless of transport.
+ */
+export const RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  default: {
+    windowMs: 15 * 60 * 1000,
+    max: 100,
+    message: 'Too many requests. Please try again later.',
+  },
+  auth: {
+    windowMs: 15 * 60 * 1000,
+    max: 5,
+    message: 'Too many authentication attempts. Please try again in 15 minutes.',
+  },
+  passwordReset: {
+    windowMs: 60 * 60 * 1000,
+    max: 5,
+    message: 'Too many password reset requests. Please try again later.',
+  },
+  usernameCheck: {
+    windowMs: 60 * 1000,
+    max: 20,
+    message: 'Too many username checks. Please try again in a minute.',
+  },
+  allowanceClaim: {
+    windowMs: 60 * 60 * 1000,
+    max: 10,
+    message: 'Too many allowance claim attempts. Please try again later.',
+  },
+  creation: {
+    windowMs: 60 * 1000,
+    max: 10,
+    message: 'Too many requests. Please slow down.',
+  },
+  slipCreate: {
+    windowMs: 60 * 1000,
+    max: 20,
+    message: 'Too many slips created. Please slow down.',
+  },
+  matchJoin: {
+    windowMs: 60 * 1000,
+    max: 10,
+    message: 'Too many match join attempts. Please slow down.',
+  },
+  friendRequest: {
+    windowMs: 60 * 60 * 1000,
+    max: 30,
+    message: 'Too many friend requests. Please try again later.',
+  },
+  socketJoinMatch: {
+    windowMs: 60 * 1000,
+    max: 30,
+    message: 'Too many match subscriptions. Please slow down.',
+  },
+  socketJoinTournament: {
+    windowMs: 60 * 1000,
+    max: 30,
+    message: 'Too many tournament subscriptions. Please slow down.',
+  },
+};
+
+// ===========================================
+// Constants
+// ===========================================
+
+/** Redis calls slower than this are treated as store errors */
+const REDIS_TIMEOUT_MS = 500;
+
+/**
+ * Trims expired hits, then records this hit only if it is within the
+ * limit - rejected retries must not extend the lockout.
+ *
+ * KEYS[1] window key
+ * ARGV[1] now (ms), ARGV[2] window (ms), ARGV[3] max, ARGV[4] member
+ * Returns { hits including this one, score of oldest hit }
+ */
+const SLIDING_WINDOW_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', tonumber(ARGV[1]) - tonumber(ARGV[2]))
+local count = redis.call('ZCARD', KEYS[1])
+if count < tonumber(ARGV[3]) then
+  redis.call('ZADD', KEYS[1], ARGV[1], ARGV[4])
+end
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+return { count + 1, oldest[2] or ARGV[1] }
+`;
+
+// ===========================================
+// Metrics (in-memory counters)
+// ===========================================
+
+const metrics: RateLimitMetrics = {
+  rejections: {},
+  storeErrors: 0,
+};
+
+/**
+ * Counts a rejected hit against its policy.
+ */
+export function recordRateLimitRejection(policy: string, key: string): void {
+  metrics.rejections[policy] = (metrics.rejections[policy] ?? 0) + 1;
+  logger.warn(`[RateLimit] ${policy} limit exceeded for ${key}`);
+}
+
+/**
+ * Counts a store failure that the caller allowed through.
+ */
+export function recordRateLimitStoreError(policy: string, error: unknown): void {
+  metrics.storeErrors++;
+  logger.error(`[RateLimit] Store error for ${policy}, allowing request:`, error);
+}
+
+/**
+ * Get rate limit metrics for monitoring.
+ */
+export function getRateLimitMetrics(): RateLimitMetrics & { totalRejections: number } {
+  const totalRejections = Object.values(metrics.rejections).reduce((sum, count) => sum + count, 0);
+  return { rejections: { ...metrics.rejections }, storeErrors: metrics.storeErrors, totalRejections };
+}
+
+/**
+ * Reset rate limit metrics (for testing).
+ */
+export function resetRateLimitMetrics(): void {
+  metrics.rejections = {};
+  metrics.storeErrors = 0;
+}
+
+// ===========================================
+// Keys
+// ===========================================
+
+/**
+ * Builds the Redis key for a policy and client identity
+ * (`user:<id>` or `ip:<address>`).
+ */
+export function buildRateLimitKey(policy: string, identity: string): string {
+  return `${config.rateLimit.keyPrefix}${policy}:${identity}`;
+}
+
+// ===========================================
+// Window Stores
+// ===========================================
+
+/**
+ * Get the Redis client for rate limit operations.
+ * Uses lazy import to avoid circular dependencies.
+ */
+async function getRedis() {
+  const { getRedisConnection } = await import('../queues/connection');
+  return getRedisConnection();
+}
+
+/**
+ * Rejects if the Redis call doesn't settle in time. The shared
+ * connection queues commands while disconnected (BullMQ requires
+ * maxRetriesPerRequest: null), which would otherwise stall requests.
+ */
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Rate limit store timed out')), REDIS_TIMEOUT_MS);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+interface MemoryHit {
+  member: string;
+  timestamp: number;
+}
+
+/** In-process windows for RATE_LIMIT_STORE=memory (development/tests) */
+const memoryWindows = new Map<string, MemoryHit[]>();
+
+function hitMemoryWindow(
+  key: string,
+  windowMs: number,
+  max: number,
+  now: number,
+  member: string
+): [number, number] {
+  const hits = (memoryWindows.get(key) ?? []).filter((hit) => hit.timestamp > now - windowMs);
+  const count = hits.length;
+
+  if (count < max) {
+    hits.push({ member, timestamp: now });
+  }
+  memoryWindows.set(key, hits);
+
+  return [count + 1, hits[0]?.timestamp ?? now];
+}
+
+/**
+ * Generates a unique window member for a hit.
+ */
+export function createRateLimitHitId(now: number = Date.now()): string {
+  return `${now}-${randomUUID()}`;
+}
+
+/**
+ * Records a hit in the sliding window for a key.
+ * Throws if the store is unavailable - callers decide how to degrade.
+ *
+ * @param key - Full window key (see buildRateLimitKey)
+ * @param windowMs - Window length in milliseconds
+ * @param max - Hits allowed within the window
+ * @param member - Window member for this hit (see createRateLimitHitId)
+ */
+export async function hitRateLimitWindow(
+  key: string,
+  windowMs: number,
+  max: number,
+  member: string = createRateLimitHitId()
+): Promise<RateLimitHit> {
+  const now = Date.now();
+  let totalHits: number;
+  let oldest: number;
+
+  if (config.rateLimit.store === 'memory') {
+    [totalHits, oldest] = hitMemoryWindow(key, windowMs, max, now, member);
+  } else {
+    const redis = await getRedis();
+    const result = (await withTimeout(
+      redis.eval(SLIDING_WINDOW_SCRIPT, 1, key, now, windowMs, max, member)
+    )) as [number, string];
+    totalHits = Number(result[0]);
+    oldest = Number(result[1]);
+  }
+
+  const allowed = totalHits <= max;
+
+  return {
+    totalHits,
+    resetTime: new Date(oldest + windowMs),
+    allowed,
+    member: allowed ? member : null,
+  };
+}
+
+/**
+ * Removes a recorded hit from a key's window (e.g. a request that should
+ * not count after all, such as a successful login). Removes exactly the
+ * member hitRateLimitWindow recorded, so parallel requests from the same
+ * client never take back each other's hits.
+ */
+export async function removeRateLimitHit(key: string, member: string): Promise<void> {
+  if (config.rateLimit.store === 'memory') {
+    const hits = memoryWindows.get(key);
+    const index = hits?.findIndex((hit) => hit.member === member) ?? -1;
+    if (index >= 0) {
+      hits!.splice(index, 1);
+    }
+    return;
+  }
+
+  const redis = await getRedis();
+  await withTimeout(redis.zrem(key, member));
+}
+
+/**
+ * Clears all hits for a key.
+ */
+export async function resetRateLimitWindow(key: string): Promise<void> {
+  if (config.rateLimit.store === 'memory') {
+    memoryWindows.delete(key);
+    return;
+  }
+
+  const redis = await getRedis();
+  await withTimeout(redis.del(key));
+}
+
+/**
+ * Clears all in-process windows (for testing).
+ */
+export function resetMemoryRateLimitWindows(): void {
+  memoryWindows.clear();
+}
+
+// ===========================================
+// Policy Consumption
+// ===========================================
+
+/**
+ * Consumes one hit of a named policy for a client identity.
+ * Used where there is no HTTP request to hang express-rate-limit on,
+ * such as socket events. Fails open if the store is unavailable.
+ *
+ * @param policyName - Policy to consume
+ * @param identity - `user:<id>` or `ip:<address>`
+ * @returns Whether the hit is allowed
+ */
+export async function consumeRateLimit(
+  policyName: RateLimitPolicyName,
+  identity: string
+): Promise<boolean> {
+  const policy = RATE_LIMIT_POLICIES[policyName];
+
+  try {
+    const hit = await hitRateLimitWindow(
+      buildRateLimitKey(policyName, identity),
+      policy.windowMs,
+      policy.max
+    );
+
+    if (!hit.allowed) {
+      recordRateLimitRejection(policyName, identity);
+    }
+    return hit.allowed;
+  } catch (error) {
+    recordRateLimitStoreError(policyName, error);
+    return true;
+  }
+}
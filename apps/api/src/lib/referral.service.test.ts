@@ -0,0 +1,92 @@
+// =====================================================
+// Referral Service Test Suite
+// =====================================================
+// Covers referral code generation and anti-abuse checks.
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateReferralCode,
+  normalizeReferralCode,
+  detectReferralAbuse,
+} from './referral.service';
+
+// ===========================================
+// Test Helpers
+// ===========================================
+
+const referrer = {
+  id: 'referrer-1',
+  email: 'alice@example.com',
+  registrationIp: '203.0.113.10',
+  deviceId: 'device-alice',
+};
+
+function createReferred(overrides: Partial<typeof referrer> = {}) {
+  return {
+    email: 'bob@example.com',
+    registrationIp: '198.51.100.20',
+    deviceId: 'device-bob',
+    ...overrides,
+  };
+}
+
+// ===========================================
+// Test: Code Generation
+// ===========================================
+
+describe('generateReferralCode', () => {
+  it('generates an 8 character code', () => {
+    expect(generateReferralCode()).toHaveLength(8);
+  });
+
+  it('uses only unambiguous uppercase characters and digits', () => {
+    for (let i = 0; i < 50; i++) {
+      expect(generateReferralCode()).toMatch(/^[A-HJKMNP-Z2-9]+$/);
+    }
+  });
+});
+
+describe('normalizeReferralCode', () => {
+  it('trims and uppercases user input', () => {
+    expect(normalizeReferralCode('  ab3kq7xz ')).toBe('AB3KQ7XZ');
+  });
+});
+
+// ===========================================
+// Test: Anti-Abuse
+// ===========================================
+
+describe('detectReferralAbuse', () => {
+  it('allows unrelated accounts', () => {
+    expect(detectReferralAbuse(referrer, createReferred())).toBeNull();
+  });
+
+  it('blocks the referrer referring their own account', () => {
+    expect(detectReferralAbuse(referrer, createReferred({ id: referrer.id }))).toBe('self_referral');
+  });
+
+  it('blocks plus-addressed aliases of the referrer email', () => {
+    expect(
+      detectReferralAbuse(referrer, createReferred({ email: 'Alice+promo@example.com' }))
+    ).toBe('self_referral');
+  });
+
+  it('blocks registrations from the same device', () => {
+    expect(
+      detectReferralAbuse(referrer, createReferred({ deviceId: 'device-alice' }))
+    ).toBe('same_device');
+  });
+
+  it('blocks registrations from the same IP address', () => {
+    expect(
+      detectReferralAbuse(referrer, createReferred({ registrationIp: '203.0.113.10' }))
+    ).toBe('same_ip');
+  });
+
+  it('does not treat missing device or IP as a match', () => {
+    const legacyReferrer = { ...referrer, registrationIp: null, deviceId: null };
+    expect(
+      detectReferralAbuse(legacyReferrer, { ...createReferred(), registrationIp: null, deviceId: null })
+    ).toBeNull();
+  });
+});
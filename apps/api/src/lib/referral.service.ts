@@ -0,0 +1,354 @@
+// =====================================================
+// Referral Service
+// =====================================================
+// Handles referral code assignment, referral linking at registration,
+// and the referrer bonus paid after the referred user's first settled match.
+// CRITICAL: Bonus payout is idempotent - keyed on the referred user's ID.
+// Anti-abuse checks run before a referral link is recorded.
+
+import crypto from 'crypto';
+import { prisma } from './prisma';
+import { logger } from '../utils/logger';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+import type { ReferralSummary, ReferredUser } from '@pick-rivals/shared-types';
+import { creditWallet, bigIntToNumber } from './wallet.service';
+
+// ===========================================
+// Constants
+// ===========================================
+
+/** Coins credited to the referrer's bonus balance per qualifying referral */
+export const REFERRAL_BONUS_COINS = 500;
+
+const REFERRAL_CODE_LENGTH = 8;
+
+// Excludes look-alike characters (0/O, 1/I/L) so codes can be typed from a screenshot
+const REFERRAL_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+const MAX_CODE_GENERATION_ATTEMPTS = 5;
+
+const REFERRAL_IDEMPOTENCY_PREFIX = 'REFERRAL_BONUS-';
+
+const REFERRAL_LIST_LIMIT = 50;
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Request details captured at registration for abuse checks.
+ */
+export interface ReferralContext {
+  ipAddress?: string;
+  deviceId?: string;
+}
+
+interface ReferralParty {
+  id: string;
+  email: string;
+  registrationIp: string | null;
+  deviceId: string | null;
+}
+
+// ===========================================
+// Code Generation
+// ===========================================
+
+/**
+ * Generate a random referral code. Does not check uniqueness.
+ */
+export function generateReferralCode(): string {
+  const bytes = crypto.randomBytes(REFERRAL_CODE_LENGTH);
+  let code = '';
+  for (let i = 0; i < REFERRAL_CODE_LENGTH; i++) {
+    code += REFERRAL_CODE_ALPHABET[bytes[i] % REFERRAL_CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+/**
+ * Normalize user-entered codes (case-insensitive, whitespace tolerant).
+ */
+export function normalizeReferralCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Generate a referral code that is not yet assigned to any user.
+ */
+export async function generateUniqueReferralCode(): Promise<string> {
+  for (let attempt = 0; attempt < MAX_CODE_GENERATION_ATTEMPTS; attempt++) {
+    const code = generateReferralCode();
+    const existing = await prisma.user.findUnique({
+      where: { referralCode: code },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return code;
+    }
+  }
+
+  throw new Error('Failed to generate a unique referral code');
+}
+
+/**
+ * Return the user's referral code, assigning one to accounts created
+ * before codes were generated at registration.
+ */
+export async function ensureReferralCode(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { referralCode: true },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found', ERROR_CODES.USER_NOT_FOUND);
+  }
+
+  if (user.referralCode) {
+    return user.referralCode;
+  }
+
+  const code = await generateUniqueReferralCode();
+
+  // Only assign if still unset - a concurrent request may have won
+  await prisma.user.updateMany({
+    where: { id: userId, referralCode: null },
+    data: { referralCode: code },
+  });
+
+  const updated = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { referralCode: true },
+  });
+
+  return updated.referralCode!;
+}
+
+// ===========================================
+// Anti-Abuse
+// ===========================================
+
+/**
+ * Strip "+tag" suffixes so alias addresses compare equal.
+ */
+function normalizeEmailForComparison(email: string): string {
+  const [local, domain] = email.toLowerCase().split('@');
+  return `${local.split('+')[0]}@${domain}`;
+}
+
+/**
+ * Check whether a referral looks like the same person on both sides.
+ * Pure function - safe to unit test.
+ *
+ * @returns Reason the referral is blocked, or null if allowed
+ */
+export function detectReferralAbuse(
+  referrer: ReferralParty,
+  referred: Omit<ReferralParty, 'id'> & { id?: string }
+): string | null {
+  if (referred.id && referrer.id === referred.id) {
+    return 'self_referral';
+  }
+
+  if (normalizeEmailForComparison(referrer.email) === normalizeEmailForComparison(referred.email)) {
+    return 'self_referral';
+  }
+
+  if (referrer.deviceId && referred.deviceId && referrer.deviceId === referred.deviceId) {
+    return 'same_device';
+  }
+
+  if (
+    referrer.registrationIp &&
+    referred.registrationIp &&
+    referrer.registrationIp === referred.registrationIp
+  ) {
+    return 'same_ip';
+  }
+
+  return null;
+}
+
+// ===========================================
+// Registration
+// ===========================================
+
+/**
+ * Resolve a referral code entered at registration to the referrer's ID.
+ *
+ * @returns Referrer ID, or null if the referral was blocked by anti-abuse checks.
+ *          Blocked referrals do not fail registration - the link is simply not recorded.
+ * @throws BadRequestError if the code does not exist
+ */
+export async function resolveReferrer(
+  code: string,
+  newUser: { email: string } & ReferralContext
+): Promise<string | null> {
+  const referrer = await prisma.user.findUnique({
+    where: { referralCode: normalizeReferralCode(code) },
+    select: { id: true, email: true, registrationIp: true, deviceId: true, status: true },
+  });
+
+  if (!referrer) {
+    throw new BadRequestError('Invalid referral code', ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  if (referrer.status === 'banned' || referrer.status === 'suspended') {
+    logger.warn(`[Referral] Code used for inactive referrer ${referrer.id} - not linked`);
+    return null;
+  }
+
+  const abuseReason = detectReferralAbuse(referrer, {
+    email: newUser.email,
+    registrationIp: newUser.ipAddress ?? null,
+    deviceId: newUser.deviceId ?? null,
+  });
+
+  if (abuseReason) {
+    logger.warn(`[Referral] Blocked referral from ${referrer.id}: ${abuseReason}`);
+    return null;
+  }
+
+  return referrer.id;
+}
+
+// ===========================================
+// Bonus Payout
+// ===========================================
+
+/**
+ * Pay the referrer's bonus for a referred user, if eligible.
+ * Called after each settled match; only the first qualifying call pays.
+ * Requires the referred user to have verified their email.
+ *
+ * @returns true if a bonus was paid by this call
+ */
+export async function processReferralReward(userId: string, matchId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: {
+      referredById: true,
+      referralRewardedAt: true,
+      emailVerified: true,
+      status: true,
+      referredBy: { select: { status: true } },
+    },
+  });
+
+  if (!user?.referredById || user.referralRewardedAt) {
+    return false;
+  }
+
+  if (!user.emailVerified) {
+    logger.info(`[Referral] Reward for ${userId} pending email verification`);
+    return false;
+  }
+
+  if (user.status === 'banned' || user.referredBy?.status === 'banned') {
+    logger.warn(`[Referral] Skipping reward for ${userId}: banned account`);
+    return false;
+  }
+
+  // Idempotent on the referred user - retries never double-pay
+  await creditWallet({
+    userId: user.referredById,
+    amount: BigInt(REFERRAL_BONUS_COINS),
+    type: 'BONUS',
+    useBonus: true,
+    idempotencyKey: `${REFERRAL_IDEMPOTENCY_PREFIX}${userId}`,
+    description: 'Referral bonus: referred player completed their first match',
+    metadata: { referredUserId: userId, matchId },
+  });
+
+  await prisma.user.updateMany({
+    where: { id: userId, referralRewardedAt: null },
+    data: { referralRewardedAt: new Date() },
+  });
+
+  logger.info(`[Referral] Paid ${REFERRAL_BONUS_COINS} bonus to ${user.referredById} for ${userId}`);
+
+  return true;
+}
+
+/**
+ * Process referral rewards for both players of a settled match.
+ * Failures are logged and swallowed - settlement is already complete.
+ */
+export async function processReferralRewardsForMatch(
+  matchId: string,
+  userIds: string[]
+): Promise<void> {
+  for (const userId of userIds) {
+    try {
+      await processReferralReward(userId, matchId);
+    } catch (error) {
+      logger.error(`[Referral] Reward processing failed for user ${userId}:`, error);
+    }
+  }
+}
+
+// ===========================================
+// Summary
+// ===========================================
+
+/**
+ * Get a user's referral code and the status of everyone they referred.
+ */
+export async function getReferralSummary(userId: string): Promise<ReferralSummary> {
+  const referralCode = await ensureReferralCode(userId);
+
+  const [referrals, totalReferrals, rewardedReferrals, earned] = await Promise.all([
+    prisma.user.findMany({
+      where: { referredById: userId },
+      orderBy: { createdAt: 'desc' },
+      take: REFERRAL_LIST_LIMIT,
+      select: {
+        id: true,
+        username: true,
+        createdAt: true,
+        emailVerified: true,
+        referralRewardedAt: true,
+      },
+    }),
+    prisma.user.count({ where: { referredById: userId } }),
+    prisma.user.count({ where: { referredById: userId, referralRewardedAt: { not: null } } }),
+    prisma.transaction.aggregate({
+      where: {
+        userId,
+        type: 'BONUS',
+        idempotencyKey: { startsWith: REFERRAL_IDEMPOTENCY_PREFIX },
+      },
+      _sum: { amount: true },
+    }),
+  ]);
+
+  const referredUsers: ReferredUser[] = referrals.map((referral) => {
+    const rewarded = referral.referralRewardedAt !== null;
+    let pendingReason: ReferredUser['pendingReason'] = null;
+    if (!rewarded) {
+      pendingReason = referral.emailVerified ? 'awaiting_first_match' : 'awaiting_email_verification';
+    }
+
+    return {
+      userId: referral.id,
+      username: referral.username,
+      joinedAt: referral.createdAt.toISOString(),
+      status: rewarded ? 'rewarded' : 'pending',
+      pendingReason,
+      rewardedAt: referral.referralRewardedAt?.toISOString() ?? null,
+    };
+  });
+
+  return {
+    referralCode,
+    bonusPerReferral: REFERRAL_BONUS_COINS,
+    totalReferrals,
+    rewardedReferrals,
+    pendingReferrals: totalReferrals - rewardedReferrals,
+    totalEarned: bigIntToNumber(earned._sum.amount ?? BigInt(0)),
+    referrals: referredUsers,
+  };
+}
@@ -6,6 +6,7 @@
 // and all edge cases for financial transactions.
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Prisma } from '@prisma/client';
 import {
   bigIntToNumber,
   numberToBigInt,
@@ -15,12 +16,14 @@ import {
   processRefund,
   getTransactionHistory,
   hasSufficientBalance,
+  HOUSE_USER_ID,
 } from './wallet.service';
 import {
   BadRequestError,
   NotFoundError,
   ConflictError,
   InsufficientBalanceError,
+  WalletFrozenError,
 } from '../utils/errors';
 
 // ===========================================
@@ -31,10 +34,12 @@ import {
 const mockFunctions = {
   walletFindUnique: vi.fn(),
   walletUpdateMany: vi.fn(),
+  walletUpdate: vi.fn(),
   transactionFindUnique: vi.fn(),
   transactionFindFirst: vi.fn(),
   transactionCreate: vi.fn(),
   transactionFindMany: vi.fn(),
+  executeRaw: vi.fn(),
 };
 
 // Mock the prisma module BEFORE imports
@@ -56,6 +61,9 @@ vi.mock('./prisma', () => ({
     $transaction: async (callback: any) => {
       // Create a mock transaction client for the callback
       const mockTx = {
+        get $executeRaw() {
+          return mockFunctions.executeRaw;
+        },
         wallet: {
           get findUnique() {
             return mockFunctions.walletFindUnique;
@@ -63,6 +71,9 @@ vi.mock('./prisma', () => ({
           get updateMany() {
             return mockFunctions.walletUpdateMany;
           },
+          get update() {
+            return mockFunctions.walletUpdate;
+          },
         },
         transaction: {
           get findUnique() {
@@ -98,6 +109,7 @@ import { logger } from '../utils/logger';
 // Extract individual mock functions for convenience
 const mockWalletFindUnique = mockFunctions.walletFindUnique;
 const mockWalletUpdateMany = mockFunctions.walletUpdateMany;
+const mockWalletUpdate = mockFunctions.walletUpdate;
 const mockTransactionFindUnique = mockFunctions.transactionFindUnique;
 const mockTransactionFindFirst = mockFunctions.transactionFindFirst;
 const mockTransactionCreate = mockFunctions.transactionCreate;
@@ -123,6 +135,15 @@ function createMockWallet(overrides = {}) {
   };
 }
 
+function createMockHouseWallet(overrides = {}) {
+  return {
+    id: 'house-wallet',
+    paidBalance: BigInt(0),
+    bonusBalance: BigInt(0),
+    ...overrides,
+  };
+}
+
 function createMockTransaction(overrides = {}) {
   return {
     id: 'tx-123',
@@ -151,6 +172,7 @@ function createMockTransaction(overrides = {}) {
 
 beforeEach(() => {
   vi.clearAllMocks();
+  mockWalletUpdate.mockResolvedValue(createMockHouseWallet());
 });
 
 afterEach(() => {
@@ -385,6 +407,76 @@ describe('creditWallet - happy paths', () => {
     );
   });
 
+  it('BONUS is backed by a house debit in the same transaction', async () => {
+    mockTransactionFindUnique.mockResolvedValue(null);
+    mockWalletFindUnique.mockResolvedValue(createMockWallet());
+    mockWalletUpdateMany.mockResolvedValue({ count: 1 });
+    mockWalletUpdate.mockResolvedValue(createMockHouseWallet({ paidBalance: BigInt(-1000) }));
+    mockTransactionCreate.mockResolvedValue(
+      createMockTransaction({ id: 'tx-bonus', type: 'BONUS' })
+    );
+
+    await creditWallet({
+      userId: 'user-123',
+      amount: BigInt(1000),
+      type: 'BONUS',
+      idempotencyKey: 'referral-bonus-1',
+    });
+
+    expect(mockWalletUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: HOUSE_USER_ID },
+        data: expect.objectContaining({
+          paidBalance: { increment: BigInt(-1000) },
+        }),
+      })
+    );
+    expect(mockTransactionCreate).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          userId: HOUSE_USER_ID,
+          type: 'BONUS',
+          amount: BigInt(-1000),
+          balanceBefore: BigInt(0),
+          balanceAfter: BigInt(-1000),
+          idempotencyKey: 'house:referral-bonus-1',
+          metadata: expect.objectContaining({
+            userTransactionId: 'tx-bonus',
+            counterpartyUserId: 'user-123',
+          }),
+        }),
+      })
+    );
+  });
+
+  it('ADMIN_ADJUSTMENT credit is backed by a house debit', async () => {
+    mockTransactionFindUnique.mockResolvedValue(null);
+    mockWalletFindUnique.mockResolvedValue(createMockWallet());
+    mockWalletUpdateMany.mockResolvedValue({ count: 1 });
+    mockWalletUpdate.mockResolvedValue(createMockHouseWallet({ paidBalance: BigInt(-500) }));
+    mockTransactionCreate.mockResolvedValue(
+      createMockTransaction({ id: 'tx-grant', type: 'ADMIN_ADJUSTMENT' })
+    );
+
+    await creditWallet({
+      userId: 'user-123',
+      amount: BigInt(500),
+      type: 'ADMIN_ADJUSTMENT',
+      idempotencyKey: 'admin-adjustment:grant-1',
+    });
+
+    expect(mockTransactionCreate).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          userId: HOUSE_USER_ID,
+          type: 'ADMIN_ADJUSTMENT',
+          amount: BigInt(-500),
+          idempotencyKey: 'house:admin-adjustment:grant-1',
+        }),
+      })
+    );
+  });
+
   it('MATCH_WIN with matchId, updates totalWon', async () => {
     const mockWallet = createMockWallet({
       totalWon: BigInt(25000),
@@ -627,6 +719,159 @@ describe('creditWallet - edge cases', () => {
   });
 });
 
+// ===========================================
+// Test: House Wallet
+// ===========================================
+
+describe('house wallet', () => {
+  it('credits rake to the house with an atomic increment', async () => {
+    mockTransactionFindUnique.mockResolvedValue(null);
+    mockWalletUpdate.mockResolvedValue(createMockHouseWallet({ paidBalance: BigInt(2500) }));
+    mockTransactionCreate.mockResolvedValue(
+      createMockTransaction({
+        userId: HOUSE_USER_ID,
+        type: 'RAKE_FEE',
+        amount: BigInt(500),
+        matchId: 'match-456',
+      })
+    );
+
+    const result = await creditWallet({
+      userId: HOUSE_USER_ID,
+      amount: BigInt(500),
+      type: 'RAKE_FEE',
+      matchId: 'match-456',
+      idempotencyKey: 'match-456-rake',
+    });
+
+    expect(result.type).toBe('RAKE_FEE');
+    expect(mockWalletFindUnique).not.toHaveBeenCalled();
+    expect(mockWalletUpdateMany).not.toHaveBeenCalled();
+    expect(mockWalletUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: HOUSE_USER_ID },
+        data: expect.objectContaining({
+          paidBalance: { increment: BigInt(500) },
+        }),
+      })
+    );
+    expect(mockTransactionCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          amount: BigInt(500),
+          balanceBefore: BigInt(2000),
+          balanceAfter: BigInt(2500),
+          matchId: 'match-456',
+          idempotencyKey: 'match-456-rake',
+        }),
+      })
+    );
+  });
+
+  it('recreates a missing house wallet and posts the entry', async () => {
+    mockTransactionFindUnique.mockResolvedValue(null);
+    mockWalletUpdate
+      .mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Record to update not found.', {
+          code: 'P2025',
+          clientVersion: 'test',
+        })
+      )
+      .mockResolvedValueOnce(createMockHouseWallet({ paidBalance: BigInt(500) }));
+    mockTransactionCreate.mockResolvedValue(
+      createMockTransaction({ userId: HOUSE_USER_ID, type: 'RAKE_FEE', amount: BigInt(500) })
+    );
+
+    const result = await creditWallet({
+      userId: HOUSE_USER_ID,
+      amount: BigInt(500),
+      type: 'RAKE_FEE',
+      idempotencyKey: 'match-456-rake',
+    });
+
+    expect(result.type).toBe('RAKE_FEE');
+    // House user, then house wallet
+    expect(mockFunctions.executeRaw).toHaveBeenCalledTimes(2);
+    expect(mockWalletUpdate).toHaveBeenCalledTimes(2);
+    expect(mockTransactionCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          userId: HOUSE_USER_ID,
+          balanceBefore: BigInt(0),
+          balanceAfter: BigInt(500),
+        }),
+      })
+    );
+  });
+
+  it('returns the existing house entry for a repeated idempotency key', async () => {
+    const existing = createMockTransaction({ id: 'tx-rake', type: 'RAKE_FEE' });
+    mockTransactionFindUnique.mockResolvedValue(existing);
+
+    const result = await creditWallet({
+      userId: HOUSE_USER_ID,
+      amount: BigInt(500),
+      type: 'RAKE_FEE',
+      idempotencyKey: 'match-456-rake',
+    });
+
+    expect(result.id).toBe('tx-rake');
+    expect(mockWalletUpdate).not.toHaveBeenCalled();
+    expect(mockTransactionCreate).not.toHaveBeenCalled();
+  });
+
+  it('requires an idempotency key for house credits', async () => {
+    await expect(
+      creditWallet({
+        userId: HOUSE_USER_ID,
+        amount: BigInt(500),
+        type: 'RAKE_FEE',
+      })
+    ).rejects.toThrow(BadRequestError);
+  });
+
+  it('rejects non-rake credits to the house', async () => {
+    await expect(
+      creditWallet({
+        userId: HOUSE_USER_ID,
+        amount: BigInt(500),
+        type: 'BONUS',
+        idempotencyKey: 'house-bonus',
+      })
+    ).rejects.toThrow(BadRequestError);
+  });
+
+  it('rejects direct debits from the house', async () => {
+    await expect(
+      debitWallet({
+        userId: HOUSE_USER_ID,
+        amount: BigInt(500),
+        type: 'MATCH_ENTRY',
+      })
+    ).rejects.toThrow('The house wallet cannot be debited directly');
+  });
+
+  it('does not back credits that only move existing coins', async () => {
+    mockTransactionFindUnique.mockResolvedValue(null);
+    mockWalletFindUnique.mockResolvedValue(createMockWallet());
+    mockWalletUpdateMany.mockResolvedValue({ count: 1 });
+    mockTransactionCreate.mockResolvedValue(
+      createMockTransaction({ type: 'MATCH_WIN', matchId: 'match-456' })
+    );
+
+    await creditWallet({
+      userId: 'user-123',
+      amount: BigInt(1000),
+      type: 'MATCH_WIN',
+      matchId: 'match-456',
+      idempotencyKey: 'match-456-payout',
+    });
+
+    expect(mockWalletUpdate).not.toHaveBeenCalled();
+    expect(mockTransactionCreate).toHaveBeenCalledTimes(1);
+  });
+});
+
 // ===========================================
 // Test: debitWallet() - Happy Paths
 // ===========================================
@@ -806,6 +1051,144 @@ describe('debitWallet - happy paths', () => {
     );
   });
 
+  it('DISPUTE_HOLD reverses totalWon, floored at zero', async () => {
+    const mockWallet = createMockWallet({
+      totalWon: BigInt(3000),
+    });
+    mockTransactionFindUnique.mockResolvedValue(null);
+    mockWalletFindUnique.mockResolvedValue(mockWallet);
+    mockWalletUpdateMany.mockResolvedValue({ count: 1 });
+
+    const mockTx = createMockTransaction({
+      type: 'DISPUTE_HOLD',
+      amount: BigInt(-4000),
+    });
+    mockTransactionCreate.mockResolvedValue(mockTx);
+
+    await debitWallet({
+      userId: 'user-123',
+      amount: BigInt(4000),
+      type: 'DISPUTE_HOLD',
+      matchId: 'match-789',
+      idempotencyKey: 'dispute:d-1:hold:user-123',
+      preferBonus: false,
+    });
+
+    expect(mockWalletUpdateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          totalWon: BigInt(0), // max(3000 - 4000, 0)
+        }),
+      })
+    );
+  });
+
+  it('PURCHASE_REVERSAL reverses totalDeposited and debits paid first', async () => {
+    const mockWallet = createMockWallet({
+      totalDeposited: BigInt(12000),
+    });
+    mockTransactionFindUnique.mockResolvedValue(null);
+    mockWalletFindUnique.mockResolvedValue(mockWallet);
+    mockWalletUpdateMany.mockResolvedValue({ count: 1 });
+
+    const mockTx = createMockTransaction({
+      type: 'PURCHASE_REVERSAL',
+      amount: BigInt(-2500),
+    });
+    mockTransactionCreate.mockResolvedValue(mockTx);
+
+    await debitWallet({
+      userId: 'user-123',
+      amount: BigInt(2500),
+      type: 'PURCHASE_REVERSAL',
+      iapReceiptId: 'apple-tx-1',
+      idempotencyKey: 'IAP_REVERSAL-apple-apple-tx-1',
+      preferBonus: false,
+    });
+
+    expect(mockWalletUpdateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          paidBalance: BigInt(7500),
+          totalDeposited: BigInt(9500),
+        }),
+      })
+    );
+    expect(mockTransactionCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ iapReceiptId: 'apple-tx-1' }),
+      })
+    );
+  });
+
+  it('ADMIN_ADJUSTMENT debit returns the coins to the house', async () => {
+    mockTransactionFindUnique.mockResolvedValue(null);
+    mockWalletFindUnique.mockResolvedValue(createMockWallet());
+    mockWalletUpdateMany.mockResolvedValue({ count: 1 });
+    mockWalletUpdate.mockResolvedValue(createMockHouseWallet({ paidBalance: BigInt(500) }));
+    mockTransactionCreate.mockResolvedValue(
+      createMockTransaction({ id: 'tx-removal', type: 'ADMIN_ADJUSTMENT', amount: BigInt(-500) })
+    );
+
+    await debitWallet({
+      userId: 'user-123',
+      amount: BigInt(500),
+      type: 'ADMIN_ADJUSTMENT',
+      idempotencyKey: 'admin-adjustment:removal-1',
+    });
+
+    expect(mockWalletUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { userId: HOUSE_USER_ID },
+        data: expect.objectContaining({
+          paidBalance: { increment: BigInt(500) },
+        }),
+      })
+    );
+    expect(mockTransactionCreate).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          userId: HOUSE_USER_ID,
+          type: 'ADMIN_ADJUSTMENT',
+          amount: BigInt(500),
+          idempotencyKey: 'house:admin-adjustment:removal-1',
+          metadata: expect.objectContaining({
+            userTransactionId: 'tx-removal',
+            counterpartyUserId: 'user-123',
+          }),
+        }),
+      })
+    );
+  });
+
+  it('does not post a house entry for match entries', async () => {
+    mockTransactionFindUnique.mockResolvedValue(null);
+    mockWalletFindUnique.mockResolvedValue(createMockWallet());
+    mockWalletUpdateMany.mockResolvedValue({ count: 1 });
+    mockTransactionCreate.mockResolvedValue(createMockTransaction({ type: 'MATCH_ENTRY' }));
+
+    await debitWallet({
+      userId: 'user-123',
+      amount: BigInt(500),
+      type: 'MATCH_ENTRY',
+      matchId: 'match-789',
+      idempotencyKey: 'match-789-entry',
+    });
+
+    expect(mockWalletUpdate).not.toHaveBeenCalled();
+    expect(mockTransactionCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it('PURCHASE_REVERSAL requires an idempotency key', async () => {
+    await expect(
+      debitWallet({
+        userId: 'user-123',
+        amount: BigInt(2500),
+        type: 'PURCHASE_REVERSAL',
+      })
+    ).rejects.toThrow(BadRequestError);
+  });
+
   it('idempotent: duplicate key returns existing transaction', async () => {
     const existingTx = createMockTransaction({
       id: 'tx-existing-debit',
@@ -911,6 +1294,45 @@ describe('debitWallet - validation errors', () => {
       })
     ).rejects.toThrow('Match ID is required for MATCH_ENTRY transactions');
   });
+
+  it('throws WalletFrozenError for match entries from a frozen wallet', async () => {
+    const mockWallet = createMockWallet({ frozenAt: new Date() });
+    mockTransactionFindUnique.mockResolvedValue(null);
+    mockWalletFindUnique.mockResolvedValue(mockWallet);
+
+    await expect(
+      debitWallet({
+        userId: 'user-123',
+        amount: BigInt(1000),
+        type: 'MATCH_ENTRY',
+        matchId: 'match-789',
+        idempotencyKey: 'match-789-entry',
+      })
+    ).rejects.toThrow(WalletFrozenError);
+
+    expect(mockWalletUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it('still applies system debits to a frozen wallet', async () => {
+    const mockWallet = createMockWallet({ frozenAt: new Date(), totalWon: BigInt(3000) });
+    mockTransactionFindUnique.mockResolvedValue(null);
+    mockWalletFindUnique.mockResolvedValue(mockWallet);
+    mockWalletUpdateMany.mockResolvedValue({ count: 1 });
+    mockTransactionCreate.mockResolvedValue(
+      createMockTransaction({ type: 'DISPUTE_HOLD', amount: BigInt(-1000) })
+    );
+
+    await debitWallet({
+      userId: 'user-123',
+      amount: BigInt(1000),
+      type: 'DISPUTE_HOLD',
+      matchId: 'match-789',
+      idempotencyKey: 'dispute:d-1:hold:user-123',
+      preferBonus: false,
+    });
+
+    expect(mockWalletUpdateMany).toHaveBeenCalled();
+  });
 });
 
 // ===========================================
@@ -13,6 +13,7 @@ import {
   NotFoundError,
   ConflictError,
   InsufficientBalanceError,
+  WalletFrozenError,
 } from '../utils/errors';
 import { ERROR_CODES } from '@pick-rivals/shared-types';
 
@@ -29,6 +30,28 @@ const MAX_TRANSACTION_AMOUNT = BigInt(10000000);
 // Maximum balance per user ($10 million in cents) - business limit
 const MAX_BALANCE = BigInt(1000000000);
 
+// System account that collects rake and funds minted coins.
+// Its user and wallet rows are created by the add_house_wallet migration,
+// and recreated on first use where they are missing (see ensureHouseWallet).
+export const HOUSE_USER_ID = '00000000-0000-0000-0000-000000000001';
+
+// Transaction types the house wallet can be credited with
+const HOUSE_CREDIT_TYPES = ['RAKE_FEE'] as const;
+
+// Credit types that mint new coins. Each credit is backed by an equal
+// house debit, so coins in circulation always net against the house.
+export const HOUSE_FUNDED_TYPES: TransactionType[] = [
+  'STARTER_CREDIT',
+  'WEEKLY_ALLOWANCE',
+  'SEASON_REWARD',
+  'BONUS',
+  'ADMIN_ADJUSTMENT',
+];
+
+// Debit types that take coins back out of circulation. Each debit is
+// returned to the house as an equal house credit.
+export const HOUSE_RECLAIMED_TYPES: TransactionType[] = ['ADMIN_ADJUSTMENT'];
+
 // Transaction types that are valid for credit operations
 // Hardcoded to avoid Prisma client regeneration issues
 const CREDIT_TYPES = [
@@ -40,6 +63,7 @@ const CREDIT_TYPES = [
   'ADMIN_ADJUSTMENT',
   'STARTER_CREDIT', // Task 0.4: One-time starter coins on registration
   'SEASON_REWARD', // Task 4.1: Seasonal ranked rewards
+  'DISPUTE_RELEASE', // Held payout returned after a rejected dispute
 ] as const;
 
 // Transaction types that are valid for debit operations
@@ -48,13 +72,21 @@ const DEBIT_TYPES = [
   'WITHDRAWAL',
   'RAKE_FEE',
   'ADMIN_ADJUSTMENT',
+  'DISPUTE_HOLD', // Settlement payout held while a dispute is open
+  'PURCHASE_REVERSAL', // Coin purchase refunded or charged back by the store
 ] as const;
 
+// Debits a frozen wallet refuses: the user spending coins. System debits
+// (dispute holds, purchase reversals, admin adjustments) still apply.
+const FROZEN_BLOCKED_DEBIT_TYPES: TransactionType[] = ['MATCH_ENTRY', 'WITHDRAWAL'];
+
 // Transaction types that require a matchId
 const MATCH_REQUIRED_TYPES: TransactionType[] = [
   'MATCH_ENTRY',
   'MATCH_WIN',
   'MATCH_REFUND',
+  'DISPUTE_HOLD',
+  'DISPUTE_RELEASE',
 ];
 
 // Transaction types that require idempotency keys (financial operations)
@@ -64,6 +96,9 @@ const IDEMPOTENCY_REQUIRED_TYPES: TransactionType[] = [
   'MATCH_ENTRY',
   'MATCH_WIN',
   'MATCH_REFUND',
+  'DISPUTE_HOLD',
+  'DISPUTE_RELEASE',
+  'PURCHASE_REVERSAL',
 ];
 
 // ===========================================
@@ -85,6 +120,7 @@ export interface CreditParams {
   type: TransactionType;
   useBonus?: boolean;
   matchId?: string;
+  iapReceiptId?: string;
   idempotencyKey?: string;
   description?: string;
   metadata?: Record<string, unknown>;
@@ -96,11 +132,23 @@ export interface DebitParams {
   type: TransactionType;
   preferBonus?: boolean;
   matchId?: string;
+  iapReceiptId?: string;
   idempotencyKey?: string;
   description?: string;
   metadata?: Record<string, unknown>;
 }
 
+export interface HouseEntryParams {
+  amount: bigint; // Always positive; direction sets the sign
+  direction: 'credit' | 'debit';
+  type: TransactionType;
+  idempotencyKey: string;
+  matchId?: string;
+  counterpartyUserId?: string; // User on the other side of the entry
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
 export interface RefundParams {
   originalTransactionId: string;
   idempotencyKey: string; // Required for refunds
@@ -174,6 +222,13 @@ export function numberToBigInt(value: number): bigint {
   return bigIntValue;
 }
 
+/**
+ * Idempotency key for the house side of a user transaction.
+ */
+export function getHouseIdempotencyKey(key: string): string {
+  return `house:${key}`;
+}
+
 /**
  * Validate idempotency key is provided and non-empty.
  */
@@ -306,17 +361,41 @@ export async function creditWallet(params: CreditParams): Promise<TransactionRes
     type,
     useBonus = false,
     matchId,
+    iapReceiptId,
     idempotencyKey,
     description,
     metadata = {},
   } = params;
 
+  const isHouse = userId === HOUSE_USER_ID;
+
   // Validate all inputs
   validateAmount(amount);
-  validateTransactionType(type, CREDIT_TYPES, 'credit');
+  validateTransactionType(type, isHouse ? HOUSE_CREDIT_TYPES : CREDIT_TYPES, 'credit');
   validateIdempotencyKey(idempotencyKey, type);
   validateMatchId(matchId, type);
 
+  // House credits skip the user wallet path (see postHouseEntry)
+  if (isHouse) {
+    if (!idempotencyKey || idempotencyKey.trim() === '') {
+      throw new BadRequestError('Idempotency key is required for house wallet credits');
+    }
+
+    return prisma.$transaction(
+      (tx) =>
+        postHouseEntry(tx, {
+          amount,
+          direction: 'credit',
+          type,
+          idempotencyKey,
+          matchId,
+          description,
+          metadata,
+        }),
+      { timeout: 10000 }
+    );
+  }
+
   const result = await prisma.$transaction(
     async (tx) => {
       // Check for duplicate transaction (idempotency)
@@ -372,7 +451,7 @@ export async function creditWallet(params: CreditParams): Promise<TransactionRes
       // Update cumulative totals based on transaction type
       if (type === 'DEPOSIT') {
         newTotalDeposited += amount;
-      } else if (type === 'MATCH_WIN') {
+      } else if (type === 'MATCH_WIN' || type === 'DISPUTE_RELEASE') {
         newTotalWon += amount;
       }
 
@@ -414,6 +493,7 @@ export async function creditWallet(params: CreditParams): Promise<TransactionRes
           balanceBefore,
           balanceAfter,
           matchId,
+          iapReceiptId,
           idempotencyKey,
           description,
           metadata: metadata as Prisma.InputJsonValue,
@@ -421,6 +501,20 @@ export async function creditWallet(params: CreditParams): Promise<TransactionRes
         },
       });
 
+      // Minted coins are backed by an equal house debit in the same transaction
+      if (HOUSE_FUNDED_TYPES.includes(type)) {
+        await postHouseEntry(tx, {
+          amount,
+          direction: 'debit',
+          type,
+          idempotencyKey: getHouseIdempotencyKey(idempotencyKey ?? transaction.id),
+          matchId,
+          counterpartyUserId: userId,
+          description: description ?? `${type} funding`,
+          metadata: { userTransactionId: transaction.id },
+        });
+      }
+
       logger.info(
         `Credit completed: ${userId} +${bigIntToNumber(amount)} (${type}) | ` +
           `Balance: ${bigIntToNumber(balanceBefore)} -> ${bigIntToNumber(balanceAfter)}`
@@ -461,11 +555,17 @@ export async function debitWallet(params: DebitParams): Promise<TransactionResul
     type,
     preferBonus = true, // Default: use bonus balance first
     matchId,
+    iapReceiptId,
     idempotencyKey,
     description,
     metadata = {},
   } = params;
 
+  // The house is only debited to back minted credits (see postHouseEntry)
+  if (userId === HOUSE_USER_ID) {
+    throw new BadRequestError('The house wallet cannot be debited directly');
+  }
+
   // Validate all inputs
   validateAmount(amount);
   validateTransactionType(type, DEBIT_TYPES, 'debit');
@@ -495,7 +595,10 @@ export async function debitWallet(params: DebitParams): Promise<TransactionResul
           bonusBalance: true,
           totalLost: true,
           totalRakePaid: true,
+          totalWon: true,
+          totalDeposited: true,
           version: true,
+          frozenAt: true,
         },
       });
 
@@ -503,6 +606,10 @@ export async function debitWallet(params: DebitParams): Promise<TransactionResul
         throw new NotFoundError('Wallet not found', ERROR_CODES.USER_NOT_FOUND);
       }
 
+      if (wallet.frozenAt && FROZEN_BLOCKED_DEBIT_TYPES.includes(type)) {
+        throw new WalletFrozenError();
+      }
+
       // Check sufficient balance
       const totalBalance = wallet.paidBalance + wallet.bonusBalance;
       if (totalBalance < amount) {
@@ -552,11 +659,23 @@ export async function debitWallet(params: DebitParams): Promise<TransactionResul
       // Track cumulative totals
       let newTotalLost = wallet.totalLost;
       let newTotalRakePaid = wallet.totalRakePaid;
+      let newTotalWon = wallet.totalWon;
+      let newTotalDeposited = wallet.totalDeposited;
 
       if (type === 'MATCH_ENTRY') {
         newTotalLost += amount; // Track as potential loss (will be reversed on win)
       } else if (type === 'RAKE_FEE') {
         newTotalRakePaid += amount;
+      } else if (type === 'DISPUTE_HOLD') {
+        newTotalWon -= amount; // Held winnings no longer count as won
+        if (newTotalWon < BigInt(0)) {
+          newTotalWon = BigInt(0); // Prevent negative
+        }
+      } else if (type === 'PURCHASE_REVERSAL') {
+        newTotalDeposited -= amount; // Reversed purchase no longer counts as deposited
+        if (newTotalDeposited < BigInt(0)) {
+          newTotalDeposited = BigInt(0); // Prevent negative
+        }
       }
 
       const balanceAfter = newPaidBalance + newBonusBalance;
@@ -577,6 +696,8 @@ export async function debitWallet(params: DebitParams): Promise<TransactionResul
           bonusBalance: newBonusBalance,
           totalLost: newTotalLost,
           totalRakePaid: newTotalRakePaid,
+          totalWon: newTotalWon,
+          totalDeposited: newTotalDeposited,
           version: { increment: 1 },
         },
       });
@@ -603,6 +724,7 @@ export async function debitWallet(params: DebitParams): Promise<TransactionResul
           balanceBefore,
           balanceAfter,
           matchId,
+          iapReceiptId,
           idempotencyKey,
           description,
           metadata: metadata as Prisma.InputJsonValue,
@@ -610,6 +732,20 @@ export async function debitWallet(params: DebitParams): Promise<TransactionResul
         },
       });
 
+      // Reclaimed coins go back to the house in the same transaction
+      if (HOUSE_RECLAIMED_TYPES.includes(type)) {
+        await postHouseEntry(tx, {
+          amount,
+          direction: 'credit',
+          type,
+          idempotencyKey: getHouseIdempotencyKey(idempotencyKey ?? transaction.id),
+          matchId,
+          counterpartyUserId: userId,
+          description: description ?? `${type} reclaim`,
+          metadata: { userTransactionId: transaction.id },
+        });
+      }
+
       logger.info(
         `Debit completed: ${userId} -${bigIntToNumber(amount)} (${type}) | ` +
           `Balance: ${bigIntToNumber(balanceBefore)} -> ${bigIntToNumber(balanceAfter)}`
@@ -623,6 +759,123 @@ export async function debitWallet(params: DebitParams): Promise<TransactionResul
   return result;
 }
 
+function incrementHouseWallet(tx: Prisma.TransactionClient, signedAmount: bigint) {
+  return tx.wallet.update({
+    where: { userId: HOUSE_USER_ID },
+    data: {
+      paidBalance: { increment: signedAmount },
+      version: { increment: 1 },
+    },
+    select: { id: true, paidBalance: true, bonusBalance: true },
+  });
+}
+
+/**
+ * Creates the house user and wallet if they are missing, with the same
+ * rows as the add_house_wallet migration. Databases set up with
+ * `prisma db push`, or truncated between tests, don't have them.
+ * ON CONFLICT DO NOTHING lets concurrent first entries both succeed
+ * without aborting either transaction.
+ */
+async function ensureHouseWallet(tx: Prisma.TransactionClient): Promise<void> {
+  await tx.$executeRaw`
+    INSERT INTO "users" ("id", "email", "password_hash", "email_verified", "username", "display_name", "status", "status_reason", "created_at", "updated_at")
+    VALUES (${HOUSE_USER_ID}, 'house@system.pickrivals.invalid', '!', true, '__house__', 'House', 'banned', 'System account', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+    ON CONFLICT DO NOTHING
+  `;
+  await tx.$executeRaw`
+    INSERT INTO "wallets" ("id", "user_id", "created_at", "updated_at")
+    VALUES (${HOUSE_USER_ID}, ${HOUSE_USER_ID}, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+    ON CONFLICT DO NOTHING
+  `;
+}
+
+/**
+ * Post an entry to the house wallet inside an existing transaction.
+ * Idempotent on idempotencyKey.
+ *
+ * Unlike user wallets, the house balance moves with an atomic increment
+ * instead of a version check - every settlement and mint touches this one
+ * row, so optimistic locking would turn concurrency into retries. The
+ * house may also run negative: its balance is rake collected minus coins
+ * minted.
+ *
+ * @param tx - Transaction client the entry joins
+ * @param params - House entry parameters
+ * @returns The created house transaction record
+ */
+export async function postHouseEntry(
+  tx: Prisma.TransactionClient,
+  params: HouseEntryParams
+): Promise<TransactionResult> {
+  const {
+    amount,
+    direction,
+    type,
+    idempotencyKey,
+    matchId,
+    counterpartyUserId,
+    description,
+    metadata = {},
+  } = params;
+
+  validateAmount(amount);
+
+  const existing = await tx.transaction.findUnique({
+    where: { idempotencyKey },
+  });
+
+  if (existing) {
+    logger.info(`Idempotent house entry detected: ${idempotencyKey}`);
+    return formatTransactionResult(existing);
+  }
+
+  const signedAmount = direction === 'credit' ? amount : -amount;
+
+  let wallet: { id: string; paidBalance: bigint; bonusBalance: bigint };
+  try {
+    wallet = await incrementHouseWallet(tx, signedAmount);
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025')) {
+      throw error;
+    }
+    logger.warn('House wallet not found, recreating it');
+    await ensureHouseWallet(tx);
+    wallet = await incrementHouseWallet(tx, signedAmount);
+  }
+
+  const balanceAfter = wallet.paidBalance + wallet.bonusBalance;
+
+  const transaction = await tx.transaction.create({
+    data: {
+      walletId: wallet.id,
+      userId: HOUSE_USER_ID,
+      type,
+      status: 'completed',
+      amount: signedAmount,
+      paidAmount: signedAmount,
+      bonusAmount: BigInt(0),
+      balanceBefore: balanceAfter - signedAmount,
+      balanceAfter,
+      matchId,
+      idempotencyKey,
+      description,
+      metadata: {
+        ...metadata,
+        ...(counterpartyUserId && { counterpartyUserId }),
+      } as Prisma.InputJsonValue,
+      completedAt: new Date(),
+    },
+  });
+
+  logger.info(
+    `House ${direction} completed: ${direction === 'credit' ? '+' : '-'}${bigIntToNumber(amount)} ` +
+      `(${type}) | Balance: ${bigIntToNumber(balanceAfter)}`
+  );
+
+  return formatTransactionResult(transaction);
+}
+
 /**
  * Get transaction history for a user.
  * Supports filtering by type and pagination.
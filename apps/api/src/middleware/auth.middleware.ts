@@ -44,7 +44,8 @@ function extractBearerToken(authHeader: string | undefined): string | null {
 
 /**
  * Required authentication middleware.
- * Returns 401 if no valid token is provided.
+ * Returns 401 if no valid token is provided, 403 if the account is
+ * suspended or banned (checked on every request, not just at login).
  */
 export async function requireAuth(
   req: Request,
@@ -0,0 +1,138 @@
+// =====================================================
+// Rate Limit Middleware Test Suite
+// =====================================================
+// Tests for client identity resolution and the express-rate-limit store.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import { config } from '../config';
+
+const mocks = vi.hoisted(() => ({
+  hitRateLimitWindow: vi.fn(),
+  removeRateLimitHit: vi.fn(),
+  recordRateLimitStoreError: vi.fn(),
+}));
+
+vi.mock('../lib/rate-limit.service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../lib/rate-limit.service')>()),
+  hitRateLimitWindow: mocks.hitRateLimitWindow,
+  removeRateLimitHit: mocks.removeRateLimitHit,
+  recordRateLimitStoreError: mocks.recordRateLimitStoreError,
+}));
+
+vi.mock('../modules/auth/auth.service', () => ({
+  verifyAccessToken: vi.fn(),
+}));
+
+import { getRateLimitIdentity, SlidingWindowStore } from './rate-limit.middleware';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+function createRequest(overrides: Partial<Request> = {}): Request {
+  return {
+    headers: {},
+    ip: '203.0.113.7',
+    socket: { remoteAddress: '203.0.113.7' },
+    ...overrides,
+  } as unknown as Request;
+}
+
+function bearer(token: string) {
+  return { authorization: `Bearer ${token}` };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ===========================================
+// Test: getRateLimitIdentity()
+// ===========================================
+
+describe('getRateLimitIdentity', () => {
+  it('uses the authenticated user', () => {
+    const req = createRequest({ user: { id: 'user-1' } as Request['user'] });
+
+    expect(getRateLimitIdentity(req)).toBe('user:user-1');
+  });
+
+  it('uses the subject of a valid access token before requireAuth runs', () => {
+    const token = jwt.sign({ sub: 'user-2', type: 'access' }, config.jwt.accessSecret);
+
+    expect(getRateLimitIdentity(createRequest({ headers: bearer(token) }))).toBe('user:user-2');
+  });
+
+  it('falls back to IP for forged or refresh tokens', () => {
+    const forged = jwt.sign({ sub: 'user-2', type: 'access' }, 'not-the-secret');
+    const refresh = jwt.sign({ sub: 'user-2', type: 'refresh' }, config.jwt.accessSecret);
+
+    expect(getRateLimitIdentity(createRequest({ headers: bearer(forged) }))).toBe('ip:203.0.113.7');
+    expect(getRateLimitIdentity(createRequest({ headers: bearer(refresh) }))).toBe('ip:203.0.113.7');
+  });
+
+  it('keeps IPv4-mapped clients apart', () => {
+    const a = getRateLimitIdentity(createRequest({ ip: '::ffff:198.51.100.1' }));
+    const b = getRateLimitIdentity(createRequest({ ip: '::ffff:198.51.100.2' }));
+
+    expect(a).toBe('ip:198.51.100.1');
+    expect(b).toBe('ip:198.51.100.2');
+  });
+
+  it('groups IPv6 clients by subnet', () => {
+    const a = getRateLimitIdentity(createRequest({ ip: '2001:db8:1:1::1' }));
+    const b = getRateLimitIdentity(createRequest({ ip: '2001:db8:1:1::2' }));
+
+    expect(a).toBe(b);
+  });
+});
+
+// ===========================================
+// Test: SlidingWindowStore
+// ===========================================
+
+describe('SlidingWindowStore', () => {
+  it('increments the policy window for the client key', async () => {
+    const resetTime = new Date('2026-03-01T12:01:00Z');
+    mocks.hitRateLimitWindow.mockResolvedValue({
+      totalHits: 4,
+      resetTime,
+      allowed: true,
+      member: 'hit-1',
+    });
+    const store = new SlidingWindowStore('matchJoin', 60_000, 10);
+
+    const info = await store.increment('user:user-1#hit-1');
+
+    expect(mocks.hitRateLimitWindow).toHaveBeenCalledWith(
+      `${config.rateLimit.keyPrefix}matchJoin:user:user-1`,
+      60_000,
+      10,
+      'hit-1'
+    );
+    expect(info).toEqual({ totalHits: 4, resetTime });
+  });
+
+  it('removes only the hit of the request being skipped', async () => {
+    const store = new SlidingWindowStore('auth', 60_000, 5);
+
+    await store.decrement('ip:2001:db8:1:1::/56#hit-2');
+
+    expect(mocks.removeRateLimitHit).toHaveBeenCalledWith(
+      `${config.rateLimit.keyPrefix}auth:ip:2001:db8:1:1::/56`,
+      'hit-2'
+    );
+  });
+
+  it('lets the request through when the store fails', async () => {
+    mocks.hitRateLimitWindow.mockRejectedValue(new Error('ECONNREFUSED'));
+    const store = new SlidingWindowStore('matchJoin', 60_000, 10);
+
+    const info = await store.increment('user:user-1#hit-1');
+
+    expect(info.totalHits).toBe(0);
+    expect(mocks.recordRateLimitStoreError).toHaveBeenCalledWith('matchJoin', expect.any(Error));
+  });
+});
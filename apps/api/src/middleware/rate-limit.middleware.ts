@@ -2,11 +2,32 @@
 // Rate Limiting Middleware
 // =====================================================
 // Protects endpoints from abuse (brute force, API flooding).
-// Uses sliding window algorithm with in-memory store.
-// For production: Consider Redis-backed store for distributed systems.
+// Each limiter applies a named policy from the rate limit service,
+// backed by a Redis sliding window shared across API instances.
+// Clients are keyed by user ID when authenticated, by IP otherwise.
 
-import rateLimit, { RateLimitRequestHandler } from 'express-rate-limit';
+import { Request } from 'express';
+import rateLimit, {
+  ipKeyGenerator,
+  ClientRateLimitInfo,
+  RateLimitRequestHandler,
+  Store,
+} from 'express-rate-limit';
+import jwt from 'jsonwebtoken';
 import { ApiResponse, ERROR_CODES } from '@pick-rivals/shared-types';
+import { config } from '../config';
+import {
+  RATE_LIMIT_POLICIES,
+  RateLimitPolicy,
+  RateLimitPolicyName,
+  buildRateLimitKey,
+  createRateLimitHitId,
+  hitRateLimitWindow,
+  removeRateLimitHit,
+  resetRateLimitWindow,
+  recordRateLimitRejection,
+  recordRateLimitStoreError,
+} from '../lib/rate-limit.service';
 
 // ===========================================
 // Types
@@ -18,6 +39,176 @@ export interface RateLimitConfig {
   message?: string;
   skipSuccessfulRequests?: boolean;
   skipFailedRequests?: boolean;
+  /** Policy name used in store keys and metrics */
+  name?: string;
+}
+
+// ===========================================
+// Store
+// ===========================================
+
+/** Separates the client identity from the hit ID in store keys */
+const HIT_ID_SEPARATOR = '#';
+
+/**
+ * Store key for one request: `<identity>#<hit ID>`.
+ * express-rate-limit hands decrement() only the key it passed to
+ * increment(), so each request carries its own hit ID and a skipped
+ * request removes exactly its own window member.
+ */
+function buildRequestKey(req: Request): string {
+  return `${getRateLimitIdentity(req)}${HIT_ID_SEPARATOR}${createRateLimitHitId()}`;
+}
+
+function parseRequestKey(key: string): { identity: string; hitId: string | undefined } {
+  const separator = key.lastIndexOf(HIT_ID_SEPARATOR);
+  if (separator < 0) {
+    return { identity: key, hitId: undefined };
+  }
+  return { identity: key.slice(0, separator), hitId: key.slice(separator + 1) };
+}
+
+/**
+ * express-rate-limit store over the shared sliding window.
+ * Keys are request keys (see buildRequestKey); hits are recorded under
+ * the client identity with the request's hit ID as the window member.
+ * Fails open: store errors are counted and the request is allowed.
+ */
+export class SlidingWindowStore implements Store {
+  readonly prefix: string;
+
+  constructor(
+    private readonly policyName: string,
+    private readonly windowMs: number,
+    private readonly max: number
+  ) {
+    this.prefix = buildRateLimitKey(policyName, '');
+  }
+
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const { identity, hitId } = parseRequestKey(key);
+
+    try {
+      const hit = await hitRateLimitWindow(
+        buildRateLimitKey(this.policyName, identity),
+        this.windowMs,
+        this.max,
+        hitId
+      );
+      return { totalHits: hit.totalHits, resetTime: hit.resetTime };
+    } catch (error) {
+      recordRateLimitStoreError(this.policyName, error);
+      return { totalHits: 0, resetTime: undefined };
+    }
+  }
+
+  async decrement(key: string): Promise<void> {
+    const { identity, hitId } = parseRequestKey(key);
+    if (!hitId) return;
+
+    try {
+      await removeRateLimitHit(buildRateLimitKey(this.policyName, identity), hitId);
+    } catch (error) {
+      recordRateLimitStoreError(this.policyName, error);
+    }
+  }
+
+  async resetKey(key: string): Promise<void> {
+    try {
+      await resetRateLimitWindow(buildRateLimitKey(this.policyName, parseRequestKey(key).identity));
+    } catch (error) {
+      recordRateLimitStoreError(this.policyName, error);
+    }
+  }
+}
+
+// ===========================================
+// Client Identity
+// ===========================================
+
+/**
+ * User ID from a validly signed access token, without a database lookup.
+ * Lets limiters that run before requireAuth (the global limiter) key
+ * by user; a forged token fails verification and falls back to IP.
+ */
+function getAccessTokenSubject(req: Request): string | null {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    return null;
+  }
+
+  try {
+    const payload = jwt.verify(token, config.jwt.accessSecret) as jwt.JwtPayload & { type?: string };
+    return payload.type === 'access' && payload.sub ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rate limit identity for a request: `user:<id>` when authenticated,
+ * otherwise `ip:<address>` (IPv6 collapsed to its /56 subnet).
+ */
+export function getRateLimitIdentity(req: Request): string {
+  const userId = req.user?.id ?? getAccessTokenSubject(req);
+
+  if (userId) {
+    return `user:${userId}`;
+  }
+
+  // Unwrap IPv4-mapped addresses (dual-stack listeners) - as IPv6 they
+  // would all collapse into the same /56 subnet
+  const ip = (req.ip ?? req.socket.remoteAddress ?? 'unknown').replace(/^::ffff:(?=\d+\.)/i, '');
+
+  return `ip:${ipKeyGenerator(ip)}`;
+}
+
+// ===========================================
+// Limiter Factory
+// ===========================================
+
+function buildRateLimiter(
+  name: string,
+  policy: RateLimitPolicy,
+  options: { skipSuccessfulRequests?: boolean; skipFailedRequests?: boolean } = {}
+): RateLimitRequestHandler {
+  return rateLimit({
+    windowMs: policy.windowMs,
+    max: policy.max,
+    standardHeaders: true, // Return rate limit info in `RateLimit-*` headers
+    legacyHeaders: false, // Disable `X-RateLimit-*` headers
+    skipSuccessfulRequests: options.skipSuccessfulRequests ?? false,
+    skipFailedRequests: options.skipFailedRequests ?? false,
+    store: new SlidingWindowStore(name, policy.windowMs, policy.max),
+    keyGenerator: buildRequestKey,
+    handler: (req, res) => {
+      recordRateLimitRejection(name, getRateLimitIdentity(req));
+
+      const response: ApiResponse = {
+        success: false,
+        error: {
+          code: ERROR_CODES.RATE_LIMITED,
+          message: policy.message,
+        },
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+      res.status(429).json(response);
+    },
+  });
+}
+
+/**
+ * Creates a limiter for a named policy.
+ */
+function policyRateLimiter(
+  name: RateLimitPolicyName,
+  options?: { skipSuccessfulRequests?: boolean }
+): RateLimitRequestHandler {
+  return buildRateLimiter(name, RATE_LIMIT_POLICIES[name], options);
 }
 
 // ===========================================
@@ -28,52 +219,15 @@ export interface RateLimitConfig {
  * Default rate limiter for general API endpoints.
  * 15 minutes window, 100 requests max.
  */
-export const defaultRateLimiter: RateLimitRequestHandler = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // Limit each IP to 100 requests per window
-  standardHeaders: true, // Return rate limit info in `RateLimit-*` headers
-  legacyHeaders: false, // Disable `X-RateLimit-*` headers
-  handler: (_req, res) => {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: ERROR_CODES.RATE_LIMITED,
-        message: 'Too many requests. Please try again later.',
-      },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: generateRequestId(),
-      },
-    };
-    res.status(429).json(response);
-  },
-});
+export const defaultRateLimiter: RateLimitRequestHandler = policyRateLimiter('default');
 
 /**
  * Strict rate limiter for authentication endpoints.
  * Prevents brute force attacks on login/register.
  * 15 minutes window, 5 attempts max.
  */
-export const authRateLimiter: RateLimitRequestHandler = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 5, // Limit each IP to 5 requests per window
-  standardHeaders: true,
-  legacyHeaders: false,
+export const authRateLimiter: RateLimitRequestHandler = policyRateLimiter('auth', {
   skipSuccessfulRequests: true, // Don't count successful login/register towards limit
-  handler: (_req, res) => {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: ERROR_CODES.RATE_LIMITED,
-        message: 'Too many authentication attempts. Please try again in 15 minutes.',
-      },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: generateRequestId(),
-      },
-    };
-    res.status(429).json(response);
-  },
 });
 
 /**
@@ -81,26 +235,7 @@ export const authRateLimiter: RateLimitRequestHandler = rateLimit({
  * Prevents spam but allows reasonable usage.
  * 1 minute window, 10 requests max.
  */
-export const creationRateLimiter: RateLimitRequestHandler = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 10, // Limit each IP to 10 requests per window
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (_req, res) => {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: ERROR_CODES.RATE_LIMITED,
-        message: 'Too many requests. Please slow down.',
-      },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: generateRequestId(),
-      },
-    };
-    res.status(429).json(response);
-  },
-});
+export const creationRateLimiter: RateLimitRequestHandler = policyRateLimiter('creation');
 
 /**
  * Username availability check rate limiter.
@@ -109,26 +244,15 @@ export const creationRateLimiter: RateLimitRequestHandler = rateLimit({
  * This allows users to check multiple usernames during registration
  * but prevents automated enumeration attempts.
  */
-export const usernameCheckRateLimiter: RateLimitRequestHandler = rateLimit({
-  windowMs: 60 * 1000, // 1 minute
-  max: 20, // Limit each IP to 20 requests per window
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (_req, res) => {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: ERROR_CODES.RATE_LIMITED,
-        message: 'Too many username checks. Please try again in a minute.',
-      },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: generateRequestId(),
-      },
-    };
-    res.status(429).json(response);
-  },
-});
+export const usernameCheckRateLimiter: RateLimitRequestHandler = policyRateLimiter('usernameCheck');
+
+/**
+ * Password reset request rate limiter.
+ * The endpoint always succeeds (to prevent email enumeration), so
+ * authRateLimiter's skipSuccessfulRequests would never trip.
+ * 1 hour window, 5 requests max.
+ */
+export const passwordResetRateLimiter: RateLimitRequestHandler = policyRateLimiter('passwordReset');
 
 /**
  * Allowance claim rate limiter.
@@ -136,26 +260,26 @@ export const usernameCheckRateLimiter: RateLimitRequestHandler = rateLimit({
  * 1 hour window, 10 attempts max per user.
  * This is defense-in-depth - the service layer also enforces cooldowns.
  */
-export const allowanceClaimRateLimiter: RateLimitRequestHandler = rateLimit({
-  windowMs: 60 * 60 * 1000, // 1 hour
-  max: 10, // Limit each IP to 10 claim attempts per hour
-  standardHeaders: true,
-  legacyHeaders: false,
-  handler: (_req, res) => {
-    const response: ApiResponse = {
-      success: false,
-      error: {
-        code: ERROR_CODES.RATE_LIMITED,
-        message: 'Too many allowance claim attempts. Please try again later.',
-      },
-      meta: {
-        timestamp: new Date().toISOString(),
-        requestId: generateRequestId(),
-      },
-    };
-    res.status(429).json(response);
-  },
-});
+export const allowanceClaimRateLimiter: RateLimitRequestHandler = policyRateLimiter('allowanceClaim');
+
+/**
+ * Slip creation rate limiter.
+ * 1 minute window, 20 slips max per user.
+ */
+export const slipCreationRateLimiter: RateLimitRequestHandler = policyRateLimiter('slipCreate');
+
+/**
+ * Match join rate limiter.
+ * 1 minute window, 10 join attempts max per user.
+ */
+export const matchJoinRateLimiter: RateLimitRequestHandler = policyRateLimiter('matchJoin');
+
+/**
+ * Friend request rate limiter.
+ * Prevents friend request spam.
+ * 1 hour window, 30 requests max per user.
+ */
+export const friendRequestRateLimiter: RateLimitRequestHandler = policyRateLimiter('friendRequest');
 
 /**
  * Configurable rate limiter factory.
@@ -167,6 +291,7 @@ export const allowanceClaimRateLimiter: RateLimitRequestHandler = rateLimit({
  * @example
  * ```typescript
  * const customLimiter = createRateLimiter({
+ *   name: 'customAction',
  *   windowMs: 60 * 1000,
  *   max: 20,
  *   message: 'Custom rate limit message'
@@ -182,30 +307,10 @@ export function createRateLimiter(options: RateLimitConfig): RateLimitRequestHan
     message = 'Too many requests. Please try again later.',
     skipSuccessfulRequests = false,
     skipFailedRequests = false,
+    name = `custom:${windowMs}:${max}`,
   } = options;
 
-  return rateLimit({
-    windowMs,
-    max,
-    standardHeaders: true,
-    legacyHeaders: false,
-    skipSuccessfulRequests,
-    skipFailedRequests,
-    handler: (_req, res) => {
-      const response: ApiResponse = {
-        success: false,
-        error: {
-          code: ERROR_CODES.RATE_LIMITED,
-          message,
-        },
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId: generateRequestId(),
-        },
-      };
-      res.status(429).json(response);
-    },
-  });
+  return buildRateLimiter(name, { windowMs, max, message }, { skipSuccessfulRequests, skipFailedRequests });
 }
 
 // ===========================================
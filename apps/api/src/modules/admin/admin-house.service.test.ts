@@ -0,0 +1,176 @@
+// =====================================================
+// Admin House Ledger Service Tests
+// =====================================================
+// Covers the report range (defaults, ordering and the 366-day cap) and
+// how grouped house entries roll up into rake, minted, reclaimed and net
+// totals.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  queryRaw: vi.fn(),
+  walletFindUnique: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => ({
+  prisma: {
+    $queryRaw: mocks.queryRaw,
+    wallet: { findUnique: mocks.walletFindUnique },
+  },
+}));
+
+vi.mock('../../lib/wallet.service', () => ({
+  HOUSE_USER_ID: 'house-user',
+  bigIntToNumber: (value: bigint) => Number(value),
+}));
+
+import {
+  getHouseLedgerReport,
+  resolveHouseLedgerRange,
+  HOUSE_LEDGER_DEFAULT_DAYS,
+} from './admin-house.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.queryRaw.mockResolvedValue([]);
+  mocks.walletFindUnique.mockResolvedValue({
+    paidBalance: BigInt(0),
+    bonusBalance: BigInt(0),
+  });
+});
+
+// ===========================================
+// resolveHouseLedgerRange
+// ===========================================
+
+describe('resolveHouseLedgerRange', () => {
+  const now = new Date('2026-03-01T00:00:00.000Z');
+
+  it('defaults to the last 30 days', () => {
+    const { from, to } = resolveHouseLedgerRange({}, now);
+
+    expect(to).toEqual(now);
+    expect(to.getTime() - from.getTime()).toBe(HOUSE_LEDGER_DEFAULT_DAYS * DAY_MS);
+  });
+
+  it('counts the default window back from an explicit end date', () => {
+    const to = new Date('2026-01-31T00:00:00.000Z');
+
+    const range = resolveHouseLedgerRange({ to }, now);
+
+    expect(range.from).toEqual(new Date('2026-01-01T00:00:00.000Z'));
+  });
+
+  it('rejects from after to', () => {
+    expect(() =>
+      resolveHouseLedgerRange({ from: now, to: new Date('2026-02-01T00:00:00.000Z') })
+    ).toThrow('from must be before to');
+  });
+
+  it('rejects ranges longer than 366 days', () => {
+    try {
+      resolveHouseLedgerRange({ from: new Date('2024-01-01T00:00:00.000Z'), to: now });
+      expect.fail('should have thrown');
+    } catch (error: any) {
+      expect(error.statusCode).toBe(400);
+      expect(error.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+    }
+  });
+});
+
+// ===========================================
+// getHouseLedgerReport
+// ===========================================
+
+describe('getHouseLedgerReport', () => {
+  it('maps grouped rows and totals rake, minted, reclaimed and net', async () => {
+    mocks.queryRaw.mockResolvedValue([
+      {
+        day: '2026-02-01',
+        gameMode: null,
+        type: 'STARTER_CREDIT',
+        entries: BigInt(3),
+        credits: BigInt(0),
+        debits: BigInt(3000),
+      },
+      {
+        day: '2026-02-01',
+        gameMode: 'QUICK_MATCH',
+        type: 'RAKE_FEE',
+        entries: BigInt(4),
+        credits: BigInt(200),
+        debits: BigInt(0),
+      },
+      {
+        day: '2026-02-02',
+        gameMode: 'RANDOM_MATCH',
+        type: 'RAKE_FEE',
+        entries: BigInt(2),
+        credits: BigInt(50),
+        debits: BigInt(20),
+      },
+      {
+        day: '2026-02-02',
+        gameMode: null,
+        type: 'ADMIN_ADJUSTMENT',
+        entries: BigInt(1),
+        credits: BigInt(100),
+        debits: BigInt(0),
+      },
+    ]);
+    mocks.walletFindUnique.mockResolvedValue({
+      paidBalance: BigInt(-12000),
+      bonusBalance: BigInt(0),
+    });
+
+    const report = await getHouseLedgerReport({
+      from: new Date('2026-02-01T00:00:00.000Z'),
+      to: new Date('2026-02-03T00:00:00.000Z'),
+    });
+
+    expect(report.rows).toHaveLength(4);
+    expect(report.rows[1]).toEqual({
+      day: '2026-02-01',
+      gameMode: 'QUICK_MATCH',
+      type: 'RAKE_FEE',
+      entries: 4,
+      credits: 200,
+      debits: 0,
+    });
+    expect(report.totals).toEqual({
+      rakeCollected: 230,
+      minted: 3000,
+      reclaimed: 100,
+      net: -2670,
+    });
+    expect(report.balance).toBe(-12000);
+  });
+
+  it('reports a zero balance when the house wallet is missing', async () => {
+    mocks.walletFindUnique.mockResolvedValue(null);
+
+    const report = await getHouseLedgerReport({});
+
+    expect(report.balance).toBe(0);
+    expect(report.rows).toEqual([]);
+    expect(report.totals).toEqual({ rakeCollected: 0, minted: 0, reclaimed: 0, net: 0 });
+  });
+
+  it('does not query when the range is invalid', async () => {
+    await expect(
+      getHouseLedgerReport({
+        from: new Date('2026-02-02T00:00:00.000Z'),
+        to: new Date('2026-02-01T00:00:00.000Z'),
+      })
+    ).rejects.toThrow('from must be before to');
+
+    expect(mocks.queryRaw).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,170 @@
+// =====================================================
+// Admin House Ledger Service
+// =====================================================
+// Finance reporting on the house wallet. Every rake collection is a
+// house credit and every minted coin (starter credits, allowances,
+// season rewards, bonuses, admin grants) a house debit. Coins admins
+// remove from a wallet go back to the house as a credit, so the house
+// ledger shows how many coins were minted versus taken back out of
+// circulation.
+
+import { GameMode, TransactionType } from '@prisma/client';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+import { prisma } from '../../lib/prisma';
+import { BadRequestError } from '../../utils/errors';
+import { bigIntToNumber, HOUSE_USER_ID } from '../../lib/wallet.service';
+
+// ===========================================
+// Constants
+// ===========================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Range reported when no dates are given */
+export const HOUSE_LEDGER_DEFAULT_DAYS = 30;
+
+/** Longest range a single report may cover */
+export const HOUSE_LEDGER_MAX_DAYS = 366;
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface HouseLedgerQuery {
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * House entries for one UTC day, game mode and transaction type.
+ * gameMode is null for entries not tied to a match (starter credits,
+ * allowances, season rewards) and for matches without a game mode.
+ */
+export interface HouseLedgerRow {
+  day: string;
+  gameMode: GameMode | null;
+  type: TransactionType;
+  entries: number;
+  /** Coins into the house (rake) */
+  credits: number;
+  /** Coins out of the house (minted) */
+  debits: number;
+}
+
+export interface HouseLedgerTotals {
+  rakeCollected: number;
+  minted: number;
+  /** Coins taken back out of circulation (admin debits) */
+  reclaimed: number;
+  /** Credits minus debits over the range */
+  net: number;
+}
+
+export interface HouseLedgerReport {
+  from: Date;
+  to: Date;
+  /** Current house wallet balance (rake collected minus coins minted, all time) */
+  balance: number;
+  totals: HouseLedgerTotals;
+  rows: HouseLedgerRow[];
+}
+
+interface RawHouseLedgerRow {
+  day: string;
+  gameMode: GameMode | null;
+  type: TransactionType;
+  entries: bigint;
+  credits: bigint;
+  debits: bigint;
+}
+
+// ===========================================
+// Report
+// ===========================================
+
+/**
+ * Resolves the report range: defaults to the last 30 days and rejects
+ * ranges longer than HOUSE_LEDGER_MAX_DAYS.
+ */
+export function resolveHouseLedgerRange(
+  query: HouseLedgerQuery,
+  now: Date = new Date()
+): { from: Date; to: Date } {
+  const to = query.to ?? now;
+  const from = query.from ?? new Date(to.getTime() - HOUSE_LEDGER_DEFAULT_DAYS * DAY_MS);
+
+  if (from > to) {
+    throw new BadRequestError('from must be before to', ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  if (to.getTime() - from.getTime() > HOUSE_LEDGER_MAX_DAYS * DAY_MS) {
+    throw new BadRequestError(
+      `Ledger range cannot exceed ${HOUSE_LEDGER_MAX_DAYS} days`,
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  return { from, to };
+}
+
+/**
+ * House ledger by UTC day and game mode for [from, to).
+ * Rows are ordered by day, then game mode, then type.
+ */
+export async function getHouseLedgerReport(query: HouseLedgerQuery): Promise<HouseLedgerReport> {
+  const { from, to } = resolveHouseLedgerRange(query);
+
+  const [rawRows, wallet] = await Promise.all([
+    prisma.$queryRaw<RawHouseLedgerRow[]>`
+      SELECT
+        to_char(date_trunc('day', t.created_at), 'YYYY-MM-DD') AS "day",
+        m.game_mode AS "gameMode",
+        t.type AS "type",
+        COUNT(*) AS "entries",
+        COALESCE(SUM(t.amount) FILTER (WHERE t.amount > 0), 0)::bigint AS "credits",
+        COALESCE(-SUM(t.amount) FILTER (WHERE t.amount < 0), 0)::bigint AS "debits"
+      FROM transactions t
+      LEFT JOIN matches m ON m.id = t.match_id
+      WHERE t.user_id = ${HOUSE_USER_ID}
+        AND t.status = 'completed'
+        AND t.created_at >= ${from}
+        AND t.created_at < ${to}
+      GROUP BY 1, 2, 3
+      ORDER BY 1, 2 NULLS FIRST, 3
+    `,
+    prisma.wallet.findUnique({
+      where: { userId: HOUSE_USER_ID },
+      select: { paidBalance: true, bonusBalance: true },
+    }),
+  ]);
+
+  const rows: HouseLedgerRow[] = rawRows.map((row) => ({
+    day: row.day,
+    gameMode: row.gameMode,
+    type: row.type,
+    entries: Number(row.entries),
+    credits: bigIntToNumber(row.credits),
+    debits: bigIntToNumber(row.debits),
+  }));
+
+  // RAKE_FEE debits reverse rake on re-settled matches, so they reduce
+  // the rake collected rather than count as minted
+  const totals = rows.reduce<HouseLedgerTotals>(
+    (acc, row) => ({
+      rakeCollected:
+        acc.rakeCollected + (row.type === 'RAKE_FEE' ? row.credits - row.debits : 0),
+      minted: acc.minted + (row.type === 'RAKE_FEE' ? 0 : row.debits),
+      reclaimed: acc.reclaimed + (row.type === 'RAKE_FEE' ? 0 : row.credits),
+      net: acc.net + row.credits - row.debits,
+    }),
+    { rakeCollected: 0, minted: 0, reclaimed: 0, net: 0 }
+  );
+
+  return {
+    from,
+    to,
+    balance: wallet ? bigIntToNumber(wallet.paidBalance + wallet.bonusBalance) : 0,
+    totals,
+    rows,
+  };
+}
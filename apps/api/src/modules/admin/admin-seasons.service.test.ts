@@ -0,0 +1,400 @@
+// =====================================================
+// Admin Season Service Tests
+// =====================================================
+// Covers scheduling (slug and overlap checks), the reward table (locked
+// once rewards are paid), the payout preview, extending and ending a
+// season early, and that each change reaches the admin audit log.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  seasonFindUnique: vi.fn(),
+  seasonCreate: vi.fn(),
+  seasonUpdateMany: vi.fn(),
+  rewardDeleteMany: vi.fn(),
+  rewardCreateMany: vi.fn(),
+  claimCount: vi.fn(),
+  entryGroupBy: vi.fn(),
+  assertNoSeasonOverlap: vi.fn(),
+  activateSeason: vi.fn(),
+  recordAdminAction: vi.fn(),
+  adminRoles: {} as Record<string, string>,
+}));
+
+vi.mock('../../lib/prisma', () => {
+  const tx = {
+    season: {
+      findUnique: mocks.seasonFindUnique,
+      create: mocks.seasonCreate,
+      updateMany: mocks.seasonUpdateMany,
+    },
+    seasonReward: { deleteMany: mocks.rewardDeleteMany, createMany: mocks.rewardCreateMany },
+    seasonRewardClaim: { count: mocks.claimCount },
+    seasonEntry: { groupBy: mocks.entryGroupBy },
+  };
+
+  return {
+    prisma: {
+      ...tx,
+      $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../lib/wallet.service', () => ({
+  creditWallet: vi.fn(),
+  numberToBigInt: (value: number) => BigInt(value),
+}));
+
+vi.mock('../../services/season.service', async () => {
+  const actual = await vi.importActual<typeof import('../../services/season.service')>(
+    '../../services/season.service'
+  );
+
+  return {
+    ...actual,
+    assertNoSeasonOverlap: mocks.assertNoSeasonOverlap,
+    activateSeason: mocks.activateSeason,
+  };
+});
+
+vi.mock('../../services/admin-audit.service', () => ({
+  recordAdminAction: mocks.recordAdminAction,
+}));
+
+vi.mock('../../services/settlement/settlement-edge-cases.service', async () => {
+  const { ForbiddenError } = await import('../../utils/errors');
+  const levels: Record<string, number> = {
+    SUPER_ADMIN: 4,
+    SETTLEMENT_ADMIN: 3,
+    SUPPORT_ADMIN: 2,
+    VIEWER: 1,
+  };
+
+  return {
+    validateAdminPermission: vi.fn(async (userId: string, requiredRole: string) => {
+      const role = mocks.adminRoles[userId];
+      if (!role || levels[role] < levels[requiredRole]) {
+        throw new ForbiddenError(`Insufficient admin permissions. Required: ${requiredRole}`, 'FORBIDDEN_001');
+      }
+    }),
+  };
+});
+
+import {
+  createSeason,
+  setSeasonRewards,
+  previewSeasonRewards,
+  extendSeason,
+  endSeasonEarly,
+  activateSeasonNow,
+} from './admin-seasons.service';
+import { BadRequestError, ConflictError, ForbiddenError } from '../../utils/errors';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const MODERATOR = 'admin-settlement';
+const SUPPORT = 'admin-support';
+const REASON = 'Rebalancing rewards after the economy review';
+
+const REWARDS = [
+  { minRank: 'GOLD_1', maxRank: 'DIAMOND_3', coinReward: 2000 },
+  { minRank: 'BRONZE_1', maxRank: 'SILVER_3', coinReward: 500 },
+] as const;
+
+function createSeasonRecord(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'season-2',
+    name: 'Season 2',
+    slug: 'season-2',
+    startDate: new Date('2026-04-01T00:00:00.000Z'),
+    endDate: new Date('2099-07-01T00:00:00.000Z'),
+    status: 'ACTIVE',
+    isCurrent: true,
+    lockedAt: null,
+    rankingsFinalizedAt: null,
+    rewardsDistributedAt: null,
+    _count: { entries: 42 },
+    rewards: [
+      { id: 'reward-1', minRank: 'BRONZE_1', maxRank: 'SILVER_3', coinReward: 500, description: null },
+      { id: 'reward-2', minRank: 'GOLD_1', maxRank: 'PLATINUM_3', coinReward: 2000, description: null },
+    ],
+    ...overrides,
+  };
+}
+
+async function expectError(promise: Promise<unknown>, errorClass: unknown, code?: string) {
+  const error = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(errorClass);
+  if (code) expect(error.code).toBe(code);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.adminRoles = { [MODERATOR]: 'SETTLEMENT_ADMIN', [SUPPORT]: 'SUPPORT_ADMIN' };
+  mocks.seasonFindUnique.mockResolvedValue(createSeasonRecord());
+  mocks.seasonCreate.mockResolvedValue(createSeasonRecord({ status: 'SCHEDULED', isCurrent: false }));
+  mocks.seasonUpdateMany.mockResolvedValue({ count: 1 });
+  mocks.claimCount.mockResolvedValue(0);
+  mocks.assertNoSeasonOverlap.mockResolvedValue(undefined);
+});
+
+// ===========================================
+// createSeason
+// ===========================================
+
+describe('createSeason', () => {
+  const params = {
+    adminId: MODERATOR,
+    name: 'Season 3',
+    slug: 'season-3',
+    startDate: new Date('2099-07-01T00:00:00.000Z'),
+    endDate: new Date('2099-10-01T00:00:00.000Z'),
+    rewards: [...REWARDS],
+  };
+
+  it('schedules the season with sorted brackets and audits it', async () => {
+    mocks.seasonFindUnique.mockResolvedValueOnce(null); // slug is free
+
+    const season = await createSeason(params);
+
+    expect(mocks.assertNoSeasonOverlap).toHaveBeenCalledWith(expect.anything(), {
+      startDate: params.startDate,
+      endDate: params.endDate,
+    });
+    expect(mocks.seasonCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          slug: 'season-3',
+          status: 'SCHEDULED',
+          rewards: {
+            create: [
+              expect.objectContaining({ minRank: 'BRONZE_1' }),
+              expect.objectContaining({ minRank: 'GOLD_1' }),
+            ],
+          },
+        }),
+      })
+    );
+    expect(mocks.recordAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'SEASON_CREATED', targetType: 'season' }),
+      expect.anything()
+    );
+    expect(season.entryCount).toBe(42);
+  });
+
+  it('rejects a taken slug', async () => {
+    await expectError(createSeason(params), ConflictError);
+    expect(mocks.seasonCreate).not.toHaveBeenCalled();
+  });
+
+  it('does not create a season that overlaps another', async () => {
+    mocks.seasonFindUnique.mockResolvedValueOnce(null);
+    mocks.assertNoSeasonOverlap.mockRejectedValue(
+      new ConflictError('Season dates overlap with Season 2', ERROR_CODES.SEASON_OVERLAP)
+    );
+
+    await expectError(createSeason(params), ConflictError, ERROR_CODES.SEASON_OVERLAP);
+    expect(mocks.seasonCreate).not.toHaveBeenCalled();
+  });
+
+  it('requires SETTLEMENT_ADMIN', async () => {
+    await expectError(createSeason({ ...params, adminId: SUPPORT }), ForbiddenError);
+  });
+});
+
+// ===========================================
+// Rewards
+// ===========================================
+
+describe('setSeasonRewards', () => {
+  it('replaces the reward table and audits old and new brackets', async () => {
+    await setSeasonRewards({ seasonId: 'season-2', adminId: MODERATOR, rewards: [...REWARDS], reason: REASON });
+
+    expect(mocks.rewardDeleteMany).toHaveBeenCalledWith({ where: { seasonId: 'season-2' } });
+    expect(mocks.rewardCreateMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ seasonId: 'season-2', minRank: 'BRONZE_1' }),
+        expect.objectContaining({ seasonId: 'season-2', minRank: 'GOLD_1', maxRank: 'DIAMOND_3' }),
+      ],
+    });
+    expect(mocks.recordAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'SEASON_REWARDS_UPDATED',
+        previousState: {
+          rewards: [
+            { minRank: 'BRONZE_1', maxRank: 'SILVER_3', coinReward: 500 },
+            { minRank: 'GOLD_1', maxRank: 'PLATINUM_3', coinReward: 2000 },
+          ],
+        },
+      }),
+      expect.anything()
+    );
+  });
+
+  it('is locked once rewards have been paid', async () => {
+    mocks.claimCount.mockResolvedValue(3);
+
+    await expectError(
+      setSeasonRewards({ seasonId: 'season-2', adminId: MODERATOR, rewards: [...REWARDS], reason: REASON }),
+      BadRequestError,
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+    expect(mocks.rewardDeleteMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects overlapping brackets before touching the database', async () => {
+    await expectError(
+      setSeasonRewards({
+        seasonId: 'season-2',
+        adminId: MODERATOR,
+        rewards: [
+          { minRank: 'BRONZE_1', maxRank: 'GOLD_2', coinReward: 500 },
+          { minRank: 'GOLD_1', maxRank: 'DIAMOND_3', coinReward: 2000 },
+        ],
+        reason: REASON,
+      }),
+      BadRequestError
+    );
+    expect(mocks.seasonFindUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe('previewSeasonRewards', () => {
+  it('prices each bracket from current standings', async () => {
+    mocks.entryGroupBy.mockResolvedValue([
+      { currentRank: 'BRONZE_2', _count: { _all: 10 } },
+      { currentRank: 'SILVER_3', _count: { _all: 5 } },
+      { currentRank: 'GOLD_2', _count: { _all: 4 } },
+      { currentRank: 'DIAMOND_1', _count: { _all: 1 } }, // no bracket
+    ]);
+
+    const preview = await previewSeasonRewards('season-2');
+
+    expect(preview).toEqual({
+      seasonId: 'season-2',
+      rankedPlayers: 20,
+      unrewardedPlayers: 1,
+      totalCoins: 15 * 500 + 4 * 2000,
+      brackets: [
+        expect.objectContaining({ id: 'reward-1', players: 15, totalCoins: 7500 }),
+        expect.objectContaining({ id: 'reward-2', players: 4, totalCoins: 8000 }),
+      ],
+    });
+  });
+});
+
+// ===========================================
+// Extend / End / Activate
+// ===========================================
+
+describe('extendSeason', () => {
+  const endDate = new Date('2099-08-01T00:00:00.000Z');
+
+  it('moves the end date, checking overlap against other seasons', async () => {
+    await extendSeason({ seasonId: 'season-2', adminId: MODERATOR, endDate, reason: REASON });
+
+    expect(mocks.assertNoSeasonOverlap).toHaveBeenCalledWith(
+      expect.anything(),
+      { startDate: createSeasonRecord().startDate, endDate },
+      'season-2'
+    );
+    expect(mocks.seasonUpdateMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({ id: 'season-2', endDate: createSeasonRecord().endDate }),
+      data: { endDate },
+    });
+    expect(mocks.recordAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'SEASON_EXTENDED' }),
+      expect.anything()
+    );
+  });
+
+  it('only moves the end date later', async () => {
+    await expectError(
+      extendSeason({
+        seasonId: 'season-2',
+        adminId: MODERATOR,
+        endDate: new Date('2099-06-01T00:00:00.000Z'),
+        reason: REASON,
+      }),
+      BadRequestError
+    );
+  });
+
+  it('rejects ended seasons', async () => {
+    mocks.seasonFindUnique.mockResolvedValue(createSeasonRecord({ status: 'ENDED' }));
+
+    await expectError(
+      extendSeason({ seasonId: 'season-2', adminId: MODERATOR, endDate, reason: REASON }),
+      BadRequestError,
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+  });
+});
+
+describe('endSeasonEarly', () => {
+  it('moves the end date to now', async () => {
+    await endSeasonEarly({ seasonId: 'season-2', adminId: MODERATOR, reason: REASON });
+
+    expect(mocks.seasonUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'season-2', status: 'ACTIVE', endDate: createSeasonRecord().endDate },
+      data: { endDate: expect.any(Date) },
+    });
+    expect(mocks.recordAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'SEASON_ENDED_EARLY' }),
+      expect.anything()
+    );
+  });
+
+  it('does not audit when the season changed concurrently', async () => {
+    mocks.seasonUpdateMany.mockResolvedValue({ count: 0 });
+
+    await expectError(endSeasonEarly({ seasonId: 'season-2', adminId: MODERATOR, reason: REASON }), ConflictError);
+    expect(mocks.recordAdminAction).not.toHaveBeenCalled();
+  });
+
+  it('only ends active seasons', async () => {
+    mocks.seasonFindUnique.mockResolvedValue(createSeasonRecord({ status: 'SCHEDULED' }));
+
+    await expectError(
+      endSeasonEarly({ seasonId: 'season-2', adminId: MODERATOR, reason: REASON }),
+      BadRequestError,
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+  });
+});
+
+describe('activateSeasonNow', () => {
+  it('activates immediately and records the carry-over', async () => {
+    mocks.seasonFindUnique.mockResolvedValueOnce(createSeasonRecord({ status: 'SCHEDULED' }));
+    mocks.activateSeason.mockResolvedValue({
+      seasonId: 'season-2',
+      activated: true,
+      startDate: new Date(),
+      previousSeasonId: 'season-1',
+      carriedOver: 17,
+    });
+
+    const season = await activateSeasonNow({ seasonId: 'season-2', adminId: MODERATOR, reason: REASON });
+
+    expect(mocks.activateSeason).toHaveBeenCalledWith('season-2', { startNow: true });
+    expect(mocks.recordAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'SEASON_ACTIVATED',
+        metadata: { previousSeasonId: 'season-1', carriedOver: 17 },
+      })
+    );
+    expect(season.carriedOver).toBe(17);
+  });
+});
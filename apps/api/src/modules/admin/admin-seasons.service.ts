@@ -0,0 +1,522 @@
+// =====================================================
+// Admin Season Service
+// =====================================================
+// Ranked season lifecycle for admins:
+// 1. List and schedule seasons (windows may not overlap)
+// 2. Configure reward brackets and preview their payout cost
+// 3. Extend a season, end it early, or activate the next one early
+//
+// Activation (and the soft reset of returning players) lives in the
+// season service, shared with the season queue's hourly start check.
+//
+// CRITICAL: Every change writes an AdminAuditLog entry.
+
+import { Prisma, Rank, SeasonStatus } from '@prisma/client';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import { BadRequestError, ConflictError, NotFoundError } from '../../utils/errors';
+import { validateAdminPermission } from '../../services/settlement/settlement-edge-cases.service';
+import { recordAdminAction, AdminActionContext } from '../../services/admin-audit.service';
+import { findSeasonRewardForRank } from '../../services/ranked.service';
+import {
+  activateSeason,
+  assertNoSeasonOverlap,
+  validateRewardBrackets,
+  RewardBracketInput,
+} from '../../services/season.service';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface ListSeasonsParams {
+  status?: SeasonStatus;
+  page: number;
+  limit: number;
+}
+
+export interface CreateSeasonParams extends AdminActionContext {
+  name: string;
+  slug: string;
+  startDate: Date;
+  endDate: Date;
+  rewards: RewardBracketInput[];
+}
+
+export interface SetSeasonRewardsParams extends AdminActionContext {
+  seasonId: string;
+  rewards: RewardBracketInput[];
+  reason: string;
+}
+
+export interface ExtendSeasonParams extends AdminActionContext {
+  seasonId: string;
+  endDate: Date;
+  reason: string;
+}
+
+export interface SeasonTransitionParams extends AdminActionContext {
+  seasonId: string;
+  reason: string;
+}
+
+export interface SeasonRewardView {
+  id: string;
+  minRank: Rank;
+  maxRank: Rank;
+  coinReward: number;
+  description: string | null;
+}
+
+export interface AdminSeasonView {
+  id: string;
+  name: string;
+  slug: string;
+  startDate: Date;
+  endDate: Date;
+  status: SeasonStatus;
+  isCurrent: boolean;
+  lockedAt: Date | null;
+  rankingsFinalizedAt: Date | null;
+  rewardsDistributedAt: Date | null;
+  entryCount: number;
+  rewards: SeasonRewardView[];
+}
+
+export interface SeasonRewardPreviewBracket extends SeasonRewardView {
+  players: number;
+  totalCoins: number;
+}
+
+export interface SeasonRewardPreview {
+  seasonId: string;
+  /** Players who finished placement */
+  rankedPlayers: number;
+  /** Ranked players no bracket covers */
+  unrewardedPlayers: number;
+  totalCoins: number;
+  brackets: SeasonRewardPreviewBracket[];
+}
+
+export interface SeasonActivationView extends AdminSeasonView {
+  /** Returning players whose rank points carried over */
+  carriedOver: number;
+}
+
+// ===========================================
+// Helpers
+// ===========================================
+
+const ADMIN_SEASON_SELECT = Prisma.validator<Prisma.SeasonSelect>()({
+  id: true,
+  name: true,
+  slug: true,
+  startDate: true,
+  endDate: true,
+  status: true,
+  isCurrent: true,
+  lockedAt: true,
+  rankingsFinalizedAt: true,
+  rewardsDistributedAt: true,
+  _count: { select: { entries: true } },
+  rewards: {
+    orderBy: { minRank: 'asc' },
+    select: { id: true, minRank: true, maxRank: true, coinReward: true, description: true },
+  },
+});
+
+type AdminSeasonRecord = Prisma.SeasonGetPayload<{ select: typeof ADMIN_SEASON_SELECT }>;
+
+function toAdminSeasonView(season: AdminSeasonRecord): AdminSeasonView {
+  const { _count, ...rest } = season;
+
+  return { ...rest, entryCount: _count.entries };
+}
+
+async function getSeasonOrThrow(client: Prisma.TransactionClient | typeof prisma, seasonId: string) {
+  const season = await client.season.findUnique({
+    where: { id: seasonId },
+    select: ADMIN_SEASON_SELECT,
+  });
+
+  if (!season) {
+    throw new NotFoundError('Season not found', ERROR_CODES.SEASON_NOT_FOUND);
+  }
+
+  return season;
+}
+
+function describeBrackets(rewards: Array<Pick<SeasonRewardView, 'minRank' | 'maxRank' | 'coinReward'>>) {
+  return rewards.map(({ minRank, maxRank, coinReward }) => ({ minRank, maxRank, coinReward }));
+}
+
+// ===========================================
+// 1. LIST / SCHEDULE
+// ===========================================
+
+/**
+ * List seasons, latest start first.
+ */
+export async function listSeasons(
+  params: ListSeasonsParams
+): Promise<{ seasons: AdminSeasonView[]; total: number }> {
+  const { status, page, limit } = params;
+  const where: Prisma.SeasonWhereInput = status ? { status } : {};
+
+  const [seasons, total] = await Promise.all([
+    prisma.season.findMany({
+      where,
+      orderBy: { startDate: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+      select: ADMIN_SEASON_SELECT,
+    }),
+    prisma.season.count({ where }),
+  ]);
+
+  return { seasons: seasons.map(toAdminSeasonView), total };
+}
+
+/**
+ * Schedule a season. It activates automatically at its start date once
+ * the season before it has ended.
+ *
+ * @throws {ConflictError} Slug taken or dates overlap another season
+ * @throws {BadRequestError} Invalid reward brackets
+ */
+export async function createSeason(params: CreateSeasonParams): Promise<AdminSeasonView> {
+  const { adminId, name, slug, startDate, endDate, rewards, ipAddress, userAgent } = params;
+
+  await validateAdminPermission(adminId, 'SETTLEMENT_ADMIN');
+
+  const brackets = validateRewardBrackets(rewards);
+
+  const existing = await prisma.season.findUnique({ where: { slug }, select: { id: true } });
+  if (existing) {
+    throw new ConflictError(`Season slug '${slug}' is already taken`, ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  const season = await prisma.$transaction(async (tx) => {
+    await assertNoSeasonOverlap(tx, { startDate, endDate });
+
+    const created = await tx.season.create({
+      data: {
+        name,
+        slug,
+        startDate,
+        endDate,
+        status: SeasonStatus.SCHEDULED,
+        rewards: { create: brackets },
+      },
+      select: ADMIN_SEASON_SELECT,
+    });
+
+    await recordAdminAction(
+      {
+        adminId,
+        action: 'SEASON_CREATED',
+        targetType: 'season',
+        targetId: created.id,
+        newState: {
+          name,
+          slug,
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+          rewards: describeBrackets(brackets),
+        },
+        ipAddress,
+        userAgent,
+      },
+      tx
+    );
+
+    return created;
+  });
+
+  logger.info(`Admin ${adminId} scheduled season ${season.id} (${slug})`);
+
+  return toAdminSeasonView(season);
+}
+
+// ===========================================
+// 2. REWARDS
+// ===========================================
+
+/**
+ * Replace a season's reward brackets. Allowed until rewards are paid out.
+ *
+ * @throws {BadRequestError} Invalid brackets, or rewards already distributed
+ */
+export async function setSeasonRewards(params: SetSeasonRewardsParams): Promise<AdminSeasonView> {
+  const { seasonId, adminId, rewards, reason, ipAddress, userAgent } = params;
+
+  await validateAdminPermission(adminId, 'SETTLEMENT_ADMIN');
+
+  const brackets = validateRewardBrackets(rewards);
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const season = await getSeasonOrThrow(tx, seasonId);
+
+    const claims = await tx.seasonRewardClaim.count({ where: { seasonId } });
+    if (season.rewardsDistributedAt || season.status === SeasonStatus.ARCHIVED || claims > 0) {
+      throw new BadRequestError(
+        'Rewards have already been distributed for this season',
+        ERROR_CODES.SEASON_INVALID_STATE
+      );
+    }
+
+    await tx.seasonReward.deleteMany({ where: { seasonId } });
+    await tx.seasonReward.createMany({
+      data: brackets.map((bracket) => ({ ...bracket, seasonId })),
+    });
+
+    await recordAdminAction(
+      {
+        adminId,
+        action: 'SEASON_REWARDS_UPDATED',
+        targetType: 'season',
+        targetId: seasonId,
+        previousState: { rewards: describeBrackets(season.rewards) },
+        newState: { rewards: describeBrackets(brackets) },
+        reason,
+        ipAddress,
+        userAgent,
+      },
+      tx
+    );
+
+    return getSeasonOrThrow(tx, seasonId);
+  });
+
+  logger.info(`Admin ${adminId} set ${brackets.length} reward brackets for season ${seasonId}`);
+
+  return toAdminSeasonView(updated);
+}
+
+/**
+ * What the configured reward table would pay out if the season ended on
+ * current standings. Mirrors distributeSeasonRewards: ranked players are
+ * matched to a bracket by their current rank.
+ */
+export async function previewSeasonRewards(seasonId: string): Promise<SeasonRewardPreview> {
+  const season = await getSeasonOrThrow(prisma, seasonId);
+
+  const rankCounts = await prisma.seasonEntry.groupBy({
+    by: ['currentRank'],
+    where: { seasonId, currentRank: { not: null } },
+    _count: { _all: true },
+  });
+
+  const brackets: SeasonRewardPreviewBracket[] = season.rewards.map((reward) => ({
+    ...reward,
+    players: 0,
+    totalCoins: 0,
+  }));
+
+  let rankedPlayers = 0;
+  let unrewardedPlayers = 0;
+
+  for (const row of rankCounts) {
+    const players = row._count._all;
+    rankedPlayers += players;
+
+    const bracket = row.currentRank ? findSeasonRewardForRank(row.currentRank, brackets) : undefined;
+    if (!bracket) {
+      unrewardedPlayers += players;
+      continue;
+    }
+
+    bracket.players += players;
+    bracket.totalCoins += players * bracket.coinReward;
+  }
+
+  return {
+    seasonId,
+    rankedPlayers,
+    unrewardedPlayers,
+    totalCoins: brackets.reduce((sum, bracket) => sum + bracket.totalCoins, 0),
+    brackets,
+  };
+}
+
+// ===========================================
+// 3. EXTEND / END / ACTIVATE
+// ===========================================
+
+/**
+ * Push back the end date of a scheduled or active season.
+ *
+ * @throws {BadRequestError} Season already ended, or the new end date is not later
+ * @throws {ConflictError} New window overlaps the next season
+ */
+export async function extendSeason(params: ExtendSeasonParams): Promise<AdminSeasonView> {
+  const { seasonId, adminId, endDate, reason, ipAddress, userAgent } = params;
+
+  await validateAdminPermission(adminId, 'SETTLEMENT_ADMIN');
+
+  const season = await getSeasonOrThrow(prisma, seasonId);
+
+  if (season.status !== SeasonStatus.SCHEDULED && season.status !== SeasonStatus.ACTIVE) {
+    throw new BadRequestError(
+      `Only scheduled or active seasons can be extended (status: ${season.status})`,
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+  }
+
+  if (endDate <= season.endDate) {
+    throw new BadRequestError(
+      'New end date must be after the current end date',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    await assertNoSeasonOverlap(tx, { startDate: season.startDate, endDate }, seasonId);
+
+    // Conditional on the end date we read, so the hourly end check or
+    // another admin can't be silently overridden
+    const { count } = await tx.season.updateMany({
+      where: {
+        id: seasonId,
+        status: { in: [SeasonStatus.SCHEDULED, SeasonStatus.ACTIVE] },
+        endDate: season.endDate,
+      },
+      data: { endDate },
+    });
+
+    if (count === 0) {
+      throw new ConflictError(
+        'Season was modified concurrently. Please retry.',
+        ERROR_CODES.INTERNAL_ERROR
+      );
+    }
+
+    await recordAdminAction(
+      {
+        adminId,
+        action: 'SEASON_EXTENDED',
+        targetType: 'season',
+        targetId: seasonId,
+        previousState: { endDate: season.endDate.toISOString() },
+        newState: { endDate: endDate.toISOString() },
+        reason,
+        ipAddress,
+        userAgent,
+      },
+      tx
+    );
+
+    return getSeasonOrThrow(tx, seasonId);
+  });
+
+  logger.info(`Admin ${adminId} extended season ${seasonId} to ${endDate.toISOString()}`);
+
+  return toAdminSeasonView(updated);
+}
+
+/**
+ * End an active season now. Moves the end date to now; the caller queues
+ * the season end job, which locks the season and schedules finalization.
+ *
+ * @throws {BadRequestError} Season not active, or already past its end date
+ */
+export async function endSeasonEarly(params: SeasonTransitionParams): Promise<AdminSeasonView> {
+  const { seasonId, adminId, reason, ipAddress, userAgent } = params;
+  const now = new Date();
+
+  await validateAdminPermission(adminId, 'SETTLEMENT_ADMIN');
+
+  const season = await getSeasonOrThrow(prisma, seasonId);
+
+  if (season.status !== SeasonStatus.ACTIVE) {
+    throw new BadRequestError(
+      `Only active seasons can be ended early (status: ${season.status})`,
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+  }
+
+  if (season.endDate <= now) {
+    throw new BadRequestError(
+      'Season is already past its end date and will end on the next check',
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.season.updateMany({
+      where: { id: seasonId, status: SeasonStatus.ACTIVE, endDate: season.endDate },
+      data: { endDate: now },
+    });
+
+    if (count === 0) {
+      throw new ConflictError(
+        'Season was modified concurrently. Please retry.',
+        ERROR_CODES.INTERNAL_ERROR
+      );
+    }
+
+    await recordAdminAction(
+      {
+        adminId,
+        action: 'SEASON_ENDED_EARLY',
+        targetType: 'season',
+        targetId: seasonId,
+        previousState: { endDate: season.endDate.toISOString() },
+        newState: { endDate: now.toISOString() },
+        reason,
+        ipAddress,
+        userAgent,
+      },
+      tx
+    );
+
+    return getSeasonOrThrow(tx, seasonId);
+  });
+
+  logger.info(`Admin ${adminId} ended season ${seasonId} early`);
+
+  return toAdminSeasonView(updated);
+}
+
+/**
+ * Activate a scheduled season now instead of waiting for its start date.
+ * Returning players are soft-reset as in a scheduled activation.
+ *
+ * @throws {BadRequestError} Season not scheduled, or another season still active
+ */
+export async function activateSeasonNow(params: SeasonTransitionParams): Promise<SeasonActivationView> {
+  const { seasonId, adminId, reason, ipAddress, userAgent } = params;
+
+  await validateAdminPermission(adminId, 'SETTLEMENT_ADMIN');
+
+  const before = await getSeasonOrThrow(prisma, seasonId);
+
+  if (before.status !== SeasonStatus.SCHEDULED) {
+    throw new BadRequestError(
+      `Only scheduled seasons can be activated (status: ${before.status})`,
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+  }
+
+  const result = await activateSeason(seasonId, { startNow: true });
+
+  await recordAdminAction({
+    adminId,
+    action: 'SEASON_ACTIVATED',
+    targetType: 'season',
+    targetId: seasonId,
+    previousState: { status: before.status, startDate: before.startDate.toISOString() },
+    newState: { status: SeasonStatus.ACTIVE, startDate: result.startDate.toISOString() },
+    reason,
+    metadata: { previousSeasonId: result.previousSeasonId, carriedOver: result.carriedOver },
+    ipAddress,
+    userAgent,
+  });
+
+  logger.info(`Admin ${adminId} activated season ${seasonId} early`);
+
+  const season = await getSeasonOrThrow(prisma, seasonId);
+
+  return { ...toAdminSeasonView(season), carriedOver: result.carriedOver };
+}
@@ -0,0 +1,411 @@
+// =====================================================
+// Admin User Management Service Tests
+// =====================================================
+// Covers suspensions/bans (token revocation, socket disconnect, admin
+// targets), role grants restricted to SUPER_ADMIN, audited wallet
+// adjustments and idempotent replays. Every change must reach both the
+// account history and the system-wide admin audit log.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  userFindUnique: vi.fn(),
+  userFindUniqueOrThrow: vi.fn(),
+  userUpdateMany: vi.fn(),
+  userUpdate: vi.fn(),
+  refreshTokenUpdateMany: vi.fn(),
+  auditLogCreate: vi.fn(),
+  transactionFindUnique: vi.fn(),
+  creditWallet: vi.fn(),
+  debitWallet: vi.fn(),
+  disconnect: vi.fn(),
+  recordAdminAction: vi.fn(),
+  adminRoles: {} as Record<string, string>,
+}));
+
+vi.mock('../../lib/prisma', () => {
+  const tx = {
+    user: {
+      findUnique: mocks.userFindUnique,
+      findUniqueOrThrow: mocks.userFindUniqueOrThrow,
+      updateMany: mocks.userUpdateMany,
+      update: mocks.userUpdate,
+    },
+    refreshToken: { updateMany: mocks.refreshTokenUpdateMany },
+    userAuditLog: { create: mocks.auditLogCreate },
+    transaction: { findUnique: mocks.transactionFindUnique },
+  };
+
+  return {
+    prisma: {
+      ...tx,
+      $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../lib/wallet.service', () => ({
+  creditWallet: mocks.creditWallet,
+  debitWallet: mocks.debitWallet,
+  numberToBigInt: (value: number) => BigInt(value),
+  bigIntToNumber: (value: bigint) => Number(value),
+}));
+
+vi.mock('../../services/live-scores/live-scores.broadcaster', () => ({
+  disconnectUserSocketsSync: mocks.disconnect,
+}));
+
+vi.mock('../../services/admin-audit.service', () => ({
+  recordAdminAction: mocks.recordAdminAction,
+}));
+
+vi.mock('../../services/settlement/settlement-edge-cases.service', async () => {
+  const { ForbiddenError } = await import('../../utils/errors');
+  const levels: Record<string, number> = {
+    SUPER_ADMIN: 4,
+    SETTLEMENT_ADMIN: 3,
+    SUPPORT_ADMIN: 2,
+    VIEWER: 1,
+  };
+
+  return {
+    validateAdminPermission: vi.fn(async (userId: string, requiredRole: string) => {
+      const role = mocks.adminRoles[userId];
+      if (!role || levels[role] < levels[requiredRole]) {
+        throw new ForbiddenError(`Insufficient admin permissions. Required: ${requiredRole}`, 'FORBIDDEN_001');
+      }
+    }),
+  };
+});
+
+import { setUserStatus, setAdminRole, adjustWallet } from './admin-users.service';
+import { BadRequestError, ConflictError, ForbiddenError } from '../../utils/errors';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const SUPER_ADMIN = 'admin-super';
+const MODERATOR = 'admin-settlement';
+const TARGET = 'user-target';
+const REASON = 'Repeated abusive chat messages in match lobby';
+
+function createUser(overrides: Record<string, unknown> = {}) {
+  return {
+    id: TARGET,
+    username: 'target',
+    status: 'active',
+    statusReason: null,
+    statusExpiresAt: null,
+    adminRole: null,
+    ...overrides,
+  };
+}
+
+function createTransaction(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'tx-1',
+    walletId: 'wallet-1',
+    amount: 500,
+    paidAmount: 500,
+    bonusAmount: 0,
+    balanceBefore: 1000,
+    balanceAfter: 1500,
+    ...overrides,
+  };
+}
+
+async function expectError(promise: Promise<unknown>, errorClass: unknown, code?: string) {
+  const error = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(errorClass);
+  if (code) expect(error.code).toBe(code);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.adminRoles = { [SUPER_ADMIN]: 'SUPER_ADMIN', [MODERATOR]: 'SETTLEMENT_ADMIN' };
+  mocks.userFindUnique.mockResolvedValue(createUser());
+  mocks.userFindUniqueOrThrow.mockResolvedValue(createUser({ status: 'suspended' }));
+  mocks.userUpdateMany.mockResolvedValue({ count: 1 });
+  mocks.userUpdate.mockImplementation(({ data }) => Promise.resolve(createUser(data)));
+  mocks.refreshTokenUpdateMany.mockResolvedValue({ count: 2 });
+  mocks.transactionFindUnique.mockResolvedValue(null);
+});
+
+// ===========================================
+// Test: Suspend / Ban
+// ===========================================
+
+describe('setUserStatus', () => {
+  it('suspends until the expiry, revokes tokens and disconnects sockets', async () => {
+    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+    await setUserStatus({
+      userId: TARGET,
+      adminId: MODERATOR,
+      status: 'suspended',
+      reason: REASON,
+      expiresAt,
+    });
+
+    expect(mocks.userUpdateMany).toHaveBeenCalledWith({
+      where: { id: TARGET, status: 'active' },
+      data: expect.objectContaining({
+        status: 'suspended',
+        statusReason: REASON,
+        statusExpiresAt: expiresAt,
+        statusChangedBy: MODERATOR,
+      }),
+    });
+    expect(mocks.refreshTokenUpdateMany).toHaveBeenCalledWith({
+      where: { userId: TARGET, revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+    expect(mocks.auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: TARGET,
+        action: 'STATUS_CHANGED',
+        performedBy: MODERATOR,
+        previousState: expect.objectContaining({ status: 'active' }),
+        newState: { status: 'suspended', statusExpiresAt: expiresAt.toISOString() },
+        reason: REASON,
+        metadata: { revokedTokens: 2 },
+      }),
+    });
+    expect(mocks.recordAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        adminId: MODERATOR,
+        action: 'USER_STATUS_CHANGED',
+        targetType: 'user',
+        targetId: TARGET,
+        reason: REASON,
+      }),
+      expect.anything()
+    );
+    expect(mocks.disconnect).toHaveBeenCalledWith(TARGET);
+  });
+
+  it('reinstates a banned account without touching tokens or sockets', async () => {
+    mocks.userFindUnique.mockResolvedValue(createUser({ status: 'banned', statusReason: 'Fraud' }));
+
+    await setUserStatus({ userId: TARGET, adminId: MODERATOR, status: 'active', reason: REASON });
+
+    expect(mocks.userUpdateMany).toHaveBeenCalledWith({
+      where: { id: TARGET, status: 'banned' },
+      data: expect.objectContaining({ status: 'active', statusReason: null, statusExpiresAt: null }),
+    });
+    expect(mocks.refreshTokenUpdateMany).not.toHaveBeenCalled();
+    expect(mocks.disconnect).not.toHaveBeenCalled();
+  });
+
+  it('rejects reinstating an account that is not restricted', async () => {
+    await expectError(
+      setUserStatus({ userId: TARGET, adminId: MODERATOR, status: 'active', reason: REASON }),
+      BadRequestError
+    );
+  });
+
+  it('rejects moderating yourself', async () => {
+    await expectError(
+      setUserStatus({ userId: MODERATOR, adminId: MODERATOR, status: 'banned', reason: REASON }),
+      ForbiddenError
+    );
+  });
+
+  it('requires SUPER_ADMIN to moderate another admin', async () => {
+    mocks.userFindUnique.mockResolvedValue(createUser({ adminRole: 'VIEWER' }));
+
+    await expectError(
+      setUserStatus({ userId: TARGET, adminId: MODERATOR, status: 'banned', reason: REASON }),
+      ForbiddenError
+    );
+    expect(mocks.userUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects a concurrent status change', async () => {
+    mocks.userUpdateMany.mockResolvedValue({ count: 0 });
+
+    await expectError(
+      setUserStatus({ userId: TARGET, adminId: MODERATOR, status: 'banned', reason: REASON }),
+      ConflictError
+    );
+    expect(mocks.auditLogCreate).not.toHaveBeenCalled();
+    expect(mocks.disconnect).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// Test: Admin Roles
+// ===========================================
+
+describe('setAdminRole', () => {
+  it('grants a role and audits it', async () => {
+    const user = await setAdminRole({
+      userId: TARGET,
+      adminId: SUPER_ADMIN,
+      role: 'SUPPORT_ADMIN',
+      reason: REASON,
+    });
+
+    expect(user.adminRole).toBe('SUPPORT_ADMIN');
+    expect(mocks.userUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { adminRole: 'SUPPORT_ADMIN', adminGrantedAt: expect.any(Date), adminGrantedBy: SUPER_ADMIN },
+      })
+    );
+    expect(mocks.auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'ROLE_GRANTED',
+        previousState: { adminRole: null },
+        newState: { adminRole: 'SUPPORT_ADMIN' },
+      }),
+    });
+    expect(mocks.recordAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'ADMIN_ROLE_GRANTED', targetId: TARGET }),
+      expect.anything()
+    );
+  });
+
+  it('revokes a role', async () => {
+    mocks.userFindUnique.mockResolvedValue(createUser({ adminRole: 'VIEWER' }));
+
+    await setAdminRole({ userId: TARGET, adminId: SUPER_ADMIN, role: null, reason: REASON });
+
+    expect(mocks.userUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { adminRole: null, adminGrantedAt: null, adminGrantedBy: null },
+      })
+    );
+    expect(mocks.auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'ROLE_REVOKED' }),
+    });
+  });
+
+  it('is restricted to SUPER_ADMIN', async () => {
+    await expectError(
+      setAdminRole({ userId: TARGET, adminId: MODERATOR, role: 'VIEWER', reason: REASON }),
+      ForbiddenError,
+      ERROR_CODES.FORBIDDEN
+    );
+    expect(mocks.userUpdate).not.toHaveBeenCalled();
+  });
+
+  it('rejects changing your own role', async () => {
+    await expectError(
+      setAdminRole({ userId: SUPER_ADMIN, adminId: SUPER_ADMIN, role: null, reason: REASON }),
+      ForbiddenError
+    );
+  });
+});
+
+// ===========================================
+// Test: Wallet Adjustments
+// ===========================================
+
+describe('adjustWallet', () => {
+  it('credits the wallet as an ADMIN_ADJUSTMENT and audits it', async () => {
+    mocks.creditWallet.mockResolvedValue(createTransaction());
+
+    const result = await adjustWallet({
+      userId: TARGET,
+      adminId: SUPER_ADMIN,
+      direction: 'credit',
+      amount: 500,
+      balance: 'paid',
+      reason: REASON,
+      idempotencyKey: 'ticket-123',
+    });
+
+    expect(result.applied).toBe(true);
+    expect(mocks.creditWallet).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: TARGET,
+        amount: BigInt(500),
+        type: 'ADMIN_ADJUSTMENT',
+        useBonus: false,
+        idempotencyKey: 'admin-adjustment:ticket-123',
+        metadata: { adminId: SUPER_ADMIN, reason: REASON },
+      })
+    );
+    expect(mocks.auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        action: 'WALLET_ADJUSTED',
+        previousState: { balance: 1000 },
+        newState: { balance: 1500 },
+        metadata: expect.objectContaining({ transactionId: 'tx-1', direction: 'credit', amount: 500 }),
+      }),
+    });
+    expect(mocks.recordAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: 'WALLET_ADJUSTED',
+        targetType: 'wallet',
+        targetId: 'wallet-1',
+        reason: REASON,
+      }),
+      expect.anything()
+    );
+  });
+
+  it('debits the bonus balance first when requested', async () => {
+    mocks.debitWallet.mockResolvedValue(createTransaction({ balanceAfter: 500 }));
+
+    await adjustWallet({
+      userId: TARGET,
+      adminId: SUPER_ADMIN,
+      direction: 'debit',
+      amount: 500,
+      balance: 'bonus',
+      reason: REASON,
+    });
+
+    expect(mocks.debitWallet).toHaveBeenCalledWith(
+      expect.objectContaining({
+        preferBonus: true,
+        idempotencyKey: expect.stringMatching(/^admin-adjustment:/),
+      })
+    );
+  });
+
+  it('does not audit an idempotent replay twice', async () => {
+    mocks.transactionFindUnique.mockResolvedValue({ id: 'tx-1' });
+    mocks.creditWallet.mockResolvedValue(createTransaction());
+
+    const result = await adjustWallet({
+      userId: TARGET,
+      adminId: SUPER_ADMIN,
+      direction: 'credit',
+      amount: 500,
+      balance: 'paid',
+      reason: REASON,
+      idempotencyKey: 'ticket-123',
+    });
+
+    expect(result.applied).toBe(false);
+    expect(mocks.auditLogCreate).not.toHaveBeenCalled();
+    expect(mocks.recordAdminAction).not.toHaveBeenCalled();
+  });
+
+  it('is restricted to SUPER_ADMIN', async () => {
+    await expectError(
+      adjustWallet({
+        userId: TARGET,
+        adminId: MODERATOR,
+        direction: 'credit',
+        amount: 500,
+        balance: 'paid',
+        reason: REASON,
+      }),
+      ForbiddenError
+    );
+    expect(mocks.creditWallet).not.toHaveBeenCalled();
+  });
+});
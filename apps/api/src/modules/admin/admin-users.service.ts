@@ -0,0 +1,515 @@
+// =====================================================
+// Admin User Management Service
+// =====================================================
+// Account moderation for admins:
+// 1. Search / review accounts
+// 2. Suspend or ban (optionally until a date), and reinstate
+// 3. Grant or revoke admin roles (SUPER_ADMIN only)
+// 4. Credit or debit wallets with a mandatory reason (SUPER_ADMIN only)
+//
+// Status is enforced in auth.service (assertAccountActive), which both
+// the HTTP and socket auth middleware go through.
+//
+// CRITICAL: Every change writes a UserAuditLog entry (account history)
+// and an AdminAuditLog entry (system-wide admin trail).
+
+import { randomUUID } from 'crypto';
+import { Prisma, AdminRole, UserStatus } from '@prisma/client';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import {
+  BadRequestError,
+  NotFoundError,
+  ConflictError,
+  ForbiddenError,
+} from '../../utils/errors';
+import {
+  creditWallet,
+  debitWallet,
+  numberToBigInt,
+  bigIntToNumber,
+  TransactionResult,
+} from '../../lib/wallet.service';
+import { validateAdminPermission } from '../../services/settlement/settlement-edge-cases.service';
+import { disconnectUserSocketsSync } from '../../services/live-scores/live-scores.broadcaster';
+import { recordAdminAction, AdminActionContext } from '../../services/admin-audit.service';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface SearchUsersParams {
+  search?: string;
+  status?: UserStatus;
+  adminRole?: AdminRole;
+  page: number;
+  limit: number;
+}
+
+export interface SetUserStatusParams extends AdminActionContext {
+  userId: string;
+  status: 'active' | 'suspended' | 'banned';
+  reason: string;
+  /** Restriction lifts automatically after this (suspend/ban only) */
+  expiresAt?: Date | null;
+}
+
+export interface SetAdminRoleParams extends AdminActionContext {
+  userId: string;
+  /** null revokes admin access */
+  role: AdminRole | null;
+  reason: string;
+}
+
+export interface AdjustWalletParams extends AdminActionContext {
+  userId: string;
+  direction: 'credit' | 'debit';
+  /** Amount in cents */
+  amount: number;
+  balance: 'paid' | 'bonus';
+  reason: string;
+  idempotencyKey?: string;
+}
+
+export interface WalletAdjustmentResult {
+  transaction: TransactionResult;
+  /** False when the idempotency key matched an earlier adjustment */
+  applied: boolean;
+}
+
+// ===========================================
+// Selects
+// ===========================================
+
+const ADMIN_USER_SELECT = Prisma.validator<Prisma.UserSelect>()({
+  id: true,
+  email: true,
+  username: true,
+  displayName: true,
+  avatarUrl: true,
+  status: true,
+  statusReason: true,
+  statusExpiresAt: true,
+  statusChangedAt: true,
+  statusChangedBy: true,
+  adminRole: true,
+  adminGrantedAt: true,
+  adminGrantedBy: true,
+  emailVerified: true,
+  kycVerified: true,
+  matchesPlayed: true,
+  matchesWon: true,
+  createdAt: true,
+  lastLoginAt: true,
+});
+
+export type AdminUserView = Prisma.UserGetPayload<{ select: typeof ADMIN_USER_SELECT }>;
+
+// ===========================================
+// Helpers
+// ===========================================
+
+async function findTargetUser(userId: string): Promise<AdminUserView> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: ADMIN_USER_SELECT,
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found', ERROR_CODES.USER_NOT_FOUND);
+  }
+
+  return user;
+}
+
+function assertNotSelf(adminId: string, userId: string, action: string): void {
+  if (adminId === userId) {
+    throw new ForbiddenError(`Admins cannot ${action} their own account`, ERROR_CODES.FORBIDDEN);
+  }
+}
+
+// ===========================================
+// 1. SEARCH / REVIEW
+// ===========================================
+
+/**
+ * Search accounts by email, username or display name.
+ * An exact user ID also matches.
+ */
+export async function searchUsers(
+  params: SearchUsersParams
+): Promise<{ users: AdminUserView[]; total: number }> {
+  const { search, status, adminRole, page, limit } = params;
+
+  const where: Prisma.UserWhereInput = {};
+  if (status) where.status = status;
+  if (adminRole) where.adminRole = adminRole;
+
+  const term = search?.trim();
+  if (term) {
+    where.OR = [
+      { email: { contains: term, mode: 'insensitive' } },
+      { username: { contains: term, mode: 'insensitive' } },
+      { displayName: { contains: term, mode: 'insensitive' } },
+      { id: term },
+    ];
+  }
+
+  const [users, total] = await Promise.all([
+    prisma.user.findMany({
+      where,
+      select: ADMIN_USER_SELECT,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.user.count({ where }),
+  ]);
+
+  return { users, total };
+}
+
+/**
+ * Get an account with its wallet and recent moderation history.
+ */
+export async function getUserForAdmin(userId: string) {
+  const [user, wallet, auditLogs] = await Promise.all([
+    findTargetUser(userId),
+    prisma.wallet.findUnique({
+      where: { userId },
+      select: {
+        paidBalance: true,
+        bonusBalance: true,
+        totalDeposited: true,
+        totalWon: true,
+        totalLost: true,
+        totalRakePaid: true,
+        frozenAt: true,
+        frozenReason: true,
+      },
+    }),
+    prisma.userAuditLog.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    }),
+  ]);
+
+  return {
+    ...user,
+    wallet: wallet
+      ? {
+          paidBalance: bigIntToNumber(wallet.paidBalance),
+          bonusBalance: bigIntToNumber(wallet.bonusBalance),
+          totalDeposited: bigIntToNumber(wallet.totalDeposited),
+          totalWon: bigIntToNumber(wallet.totalWon),
+          totalLost: bigIntToNumber(wallet.totalLost),
+          totalRakePaid: bigIntToNumber(wallet.totalRakePaid),
+          frozenAt: wallet.frozenAt,
+          frozenReason: wallet.frozenReason,
+        }
+      : null,
+    auditLogs,
+  };
+}
+
+/**
+ * Get the paginated moderation history for an account.
+ */
+export async function listUserAuditLog(
+  userId: string,
+  params: { action?: string; page: number; limit: number }
+) {
+  const where: Prisma.UserAuditLogWhereInput = { userId };
+  if (params.action) where.action = params.action;
+
+  const [logs, total] = await Promise.all([
+    prisma.userAuditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (params.page - 1) * params.limit,
+      take: params.limit,
+    }),
+    prisma.userAuditLog.count({ where }),
+  ]);
+
+  return { logs, total };
+}
+
+// ===========================================
+// 2. SUSPEND / BAN
+// ===========================================
+
+/**
+ * Suspend, ban or reinstate an account.
+ * Restricting an account revokes its refresh tokens and disconnects its
+ * sockets; access tokens are rejected on their next use.
+ *
+ * Requires SETTLEMENT_ADMIN. Only a SUPER_ADMIN can moderate another admin.
+ */
+export async function setUserStatus(params: SetUserStatusParams): Promise<AdminUserView> {
+  const { userId, adminId, status, reason, ipAddress, userAgent } = params;
+  const expiresAt = status === 'active' ? null : params.expiresAt ?? null;
+
+  await validateAdminPermission(adminId, 'SETTLEMENT_ADMIN');
+  assertNotSelf(adminId, userId, 'change the status of');
+
+  const user = await findTargetUser(userId);
+
+  if (user.adminRole) {
+    await validateAdminPermission(adminId, 'SUPER_ADMIN');
+  }
+
+  if (expiresAt && expiresAt <= new Date()) {
+    throw new BadRequestError('Expiry must be in the future', ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  if (status === 'active' && user.status !== 'suspended' && user.status !== 'banned') {
+    throw new BadRequestError(
+      `Account is not restricted (status: ${user.status})`,
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const now = new Date();
+  const restricting = status !== 'active';
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // Conditional on the status we read, so concurrent moderators can't
+    // overwrite each other silently
+    const { count } = await tx.user.updateMany({
+      where: { id: userId, status: user.status },
+      data: {
+        status,
+        statusReason: restricting ? reason : null,
+        statusExpiresAt: expiresAt,
+        statusChangedAt: now,
+        statusChangedBy: adminId,
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictError(
+        'Account status was modified concurrently. Please retry.',
+        ERROR_CODES.INTERNAL_ERROR
+      );
+    }
+
+    let revokedTokens = 0;
+    if (restricting) {
+      const revoked = await tx.refreshToken.updateMany({
+        where: { userId, revokedAt: null },
+        data: { revokedAt: now },
+      });
+      revokedTokens = revoked.count;
+    }
+
+    await tx.userAuditLog.create({
+      data: {
+        userId,
+        action: 'STATUS_CHANGED',
+        performedBy: adminId,
+        previousState: {
+          status: user.status,
+          statusReason: user.statusReason,
+          statusExpiresAt: user.statusExpiresAt?.toISOString() ?? null,
+        },
+        newState: {
+          status,
+          statusExpiresAt: expiresAt?.toISOString() ?? null,
+        },
+        reason,
+        metadata: { revokedTokens },
+        ipAddress,
+        userAgent,
+      },
+    });
+
+    await recordAdminAction(
+      {
+        adminId,
+        action: 'USER_STATUS_CHANGED',
+        targetType: 'user',
+        targetId: userId,
+        previousState: { status: user.status, statusExpiresAt: user.statusExpiresAt?.toISOString() ?? null },
+        newState: { status, statusExpiresAt: expiresAt?.toISOString() ?? null },
+        reason,
+        metadata: { revokedTokens },
+        ipAddress,
+        userAgent,
+      },
+      tx
+    );
+
+    return tx.user.findUniqueOrThrow({ where: { id: userId }, select: ADMIN_USER_SELECT });
+  });
+
+  if (restricting) {
+    disconnectUserSocketsSync(userId);
+  }
+
+  logger.info(
+    `Admin ${adminId} set user ${userId} status ${user.status} -> ${status}` +
+      (expiresAt ? ` until ${expiresAt.toISOString()}` : '')
+  );
+
+  return updated;
+}
+
+// ===========================================
+// 3. ADMIN ROLES
+// ===========================================
+
+/**
+ * Grant, change or revoke an account's admin role.
+ * Requires SUPER_ADMIN. Admins cannot change their own role.
+ */
+export async function setAdminRole(params: SetAdminRoleParams): Promise<AdminUserView> {
+  const { userId, adminId, role, reason, ipAddress, userAgent } = params;
+
+  await validateAdminPermission(adminId, 'SUPER_ADMIN');
+  assertNotSelf(adminId, userId, 'change the admin role of');
+
+  const user = await findTargetUser(userId);
+
+  if (user.adminRole === role) {
+    throw new BadRequestError(
+      role ? `User already has the ${role} role` : 'User has no admin role',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const result = await tx.user.update({
+      where: { id: userId },
+      data: {
+        adminRole: role,
+        adminGrantedAt: role ? new Date() : null,
+        adminGrantedBy: role ? adminId : null,
+      },
+      select: ADMIN_USER_SELECT,
+    });
+
+    await tx.userAuditLog.create({
+      data: {
+        userId,
+        action: role ? 'ROLE_GRANTED' : 'ROLE_REVOKED',
+        performedBy: adminId,
+        previousState: { adminRole: user.adminRole },
+        newState: { adminRole: role },
+        reason,
+        ipAddress,
+        userAgent,
+      },
+    });
+
+    await recordAdminAction(
+      {
+        adminId,
+        action: role ? 'ADMIN_ROLE_GRANTED' : 'ADMIN_ROLE_REVOKED',
+        targetType: 'user',
+        targetId: userId,
+        previousState: { adminRole: user.adminRole },
+        newState: { adminRole: role },
+        reason,
+        ipAddress,
+        userAgent,
+      },
+      tx
+    );
+
+    return result;
+  });
+
+  logger.info(`Admin ${adminId} changed user ${userId} role ${user.adminRole ?? 'none'} -> ${role ?? 'none'}`);
+
+  return updated;
+}
+
+// ===========================================
+// 4. WALLET ADJUSTMENTS
+// ===========================================
+
+/**
+ * Credit or debit an account's wallet as an ADMIN_ADJUSTMENT.
+ * Requires SUPER_ADMIN. A retried request with the same idempotency key
+ * returns the original transaction without auditing it twice.
+ */
+export async function adjustWallet(params: AdjustWalletParams): Promise<WalletAdjustmentResult> {
+  const { userId, adminId, direction, amount, balance, reason, ipAddress, userAgent } = params;
+  const idempotencyKey = `admin-adjustment:${params.idempotencyKey ?? randomUUID()}`;
+
+  await validateAdminPermission(adminId, 'SUPER_ADMIN');
+  assertNotSelf(adminId, userId, 'adjust the wallet of');
+
+  await findTargetUser(userId);
+
+  const existing = await prisma.transaction.findUnique({
+    where: { idempotencyKey },
+    select: { id: true },
+  });
+
+  const walletParams = {
+    userId,
+    amount: numberToBigInt(amount),
+    type: 'ADMIN_ADJUSTMENT' as const,
+    idempotencyKey,
+    description: `Admin ${direction}: ${reason}`,
+    metadata: { adminId, reason },
+  };
+
+  const transaction =
+    direction === 'credit'
+      ? await creditWallet({ ...walletParams, useBonus: balance === 'bonus' })
+      : await debitWallet({ ...walletParams, preferBonus: balance === 'bonus' });
+
+  if (existing) {
+    logger.info(`Idempotent wallet adjustment detected: ${idempotencyKey}`);
+    return { transaction, applied: false };
+  }
+
+  const auditMetadata = {
+    transactionId: transaction.id,
+    direction,
+    amount,
+    paidAmount: transaction.paidAmount,
+    bonusAmount: transaction.bonusAmount,
+  };
+
+  await prisma.$transaction(async (tx) => {
+    await tx.userAuditLog.create({
+      data: {
+        userId,
+        action: 'WALLET_ADJUSTED',
+        performedBy: adminId,
+        previousState: { balance: transaction.balanceBefore },
+        newState: { balance: transaction.balanceAfter },
+        reason,
+        metadata: auditMetadata,
+        ipAddress,
+        userAgent,
+      },
+    });
+
+    await recordAdminAction(
+      {
+        adminId,
+        action: 'WALLET_ADJUSTED',
+        targetType: 'wallet',
+        targetId: transaction.walletId,
+        previousState: { balance: transaction.balanceBefore },
+        newState: { balance: transaction.balanceAfter },
+        reason,
+        metadata: { ...auditMetadata, userId },
+        ipAddress,
+        userAgent,
+      },
+      tx
+    );
+  });
+
+  logger.info(`Admin ${adminId} applied ${direction} of ${amount} to user ${userId} wallet (tx ${transaction.id})`);
+
+  return { transaction, applied: true };
+}
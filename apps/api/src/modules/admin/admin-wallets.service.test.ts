@@ -0,0 +1,260 @@
+// =====================================================
+// Admin Wallet Review Service Tests
+// =====================================================
+// Covers freezing/unfreezing wallets (SETTLEMENT_ADMIN only, state
+// checks, both audit logs) and closing reconciliation discrepancies
+// without two reviewers closing the same one.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  walletFindUnique: vi.fn(),
+  walletFindUniqueOrThrow: vi.fn(),
+  walletUpdateMany: vi.fn(),
+  discrepancyFindUnique: vi.fn(),
+  discrepancyFindUniqueOrThrow: vi.fn(),
+  discrepancyUpdateMany: vi.fn(),
+  auditLogCreate: vi.fn(),
+  recordAdminAction: vi.fn(),
+  adminRoles: {} as Record<string, string>,
+}));
+
+vi.mock('../../lib/prisma', () => {
+  const tx = {
+    wallet: {
+      findUnique: mocks.walletFindUnique,
+      findUniqueOrThrow: mocks.walletFindUniqueOrThrow,
+      updateMany: mocks.walletUpdateMany,
+    },
+    walletDiscrepancy: {
+      findUnique: mocks.discrepancyFindUnique,
+      findUniqueOrThrow: mocks.discrepancyFindUniqueOrThrow,
+      updateMany: mocks.discrepancyUpdateMany,
+    },
+    userAuditLog: { create: mocks.auditLogCreate },
+  };
+
+  return {
+    prisma: {
+      ...tx,
+      $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../../lib/wallet.service', () => ({
+  bigIntToNumber: (value: bigint) => Number(value),
+}));
+
+vi.mock('../../services/admin-audit.service', () => ({
+  recordAdminAction: mocks.recordAdminAction,
+}));
+
+vi.mock('../../services/settlement/settlement-edge-cases.service', async () => {
+  const { ForbiddenError } = await import('../../utils/errors');
+  const levels: Record<string, number> = {
+    SUPER_ADMIN: 4,
+    SETTLEMENT_ADMIN: 3,
+    SUPPORT_ADMIN: 2,
+    VIEWER: 1,
+  };
+
+  return {
+    validateAdminPermission: vi.fn(async (userId: string, requiredRole: string) => {
+      const role = mocks.adminRoles[userId];
+      if (!role || levels[role] < levels[requiredRole]) {
+        throw new ForbiddenError(`Insufficient admin permissions. Required: ${requiredRole}`, 'FORBIDDEN_001');
+      }
+    }),
+  };
+});
+
+import { setWalletFreeze, resolveWalletDiscrepancy } from './admin-wallets.service';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../../utils/errors';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const MODERATOR = 'admin-settlement';
+const SUPPORT = 'admin-support';
+const TARGET = 'user-target';
+const REASON = 'Balance drift flagged by nightly reconciliation';
+
+function createDiscrepancy(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'disc-1',
+    walletId: 'wallet-1',
+    userId: TARGET,
+    type: 'BALANCE_MISMATCH',
+    status: 'OPEN',
+    field: 'paidBalance',
+    expected: BigInt(4000),
+    actual: BigInt(4500),
+    transactionId: null,
+    details: { drift: '500' },
+    runId: 'run-1',
+    detectedAt: new Date('2026-02-20T03:30:00.000Z'),
+    lastSeenAt: new Date('2026-02-21T03:30:00.000Z'),
+    resolvedAt: null,
+    resolvedBy: null,
+    resolutionNote: null,
+    ...overrides,
+  };
+}
+
+async function expectError(promise: Promise<unknown>, errorClass: unknown, code?: string) {
+  const error = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(errorClass);
+  if (code) expect(error.code).toBe(code);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.adminRoles = { [MODERATOR]: 'SETTLEMENT_ADMIN', [SUPPORT]: 'SUPPORT_ADMIN' };
+  mocks.walletFindUnique.mockResolvedValue({ id: 'wallet-1', frozenAt: null, frozenReason: null });
+  mocks.walletUpdateMany.mockResolvedValue({ count: 1 });
+  mocks.walletFindUniqueOrThrow.mockResolvedValue({
+    id: 'wallet-1',
+    userId: TARGET,
+    frozenAt: new Date(),
+    frozenReason: REASON,
+    frozenBy: MODERATOR,
+  });
+  mocks.discrepancyFindUnique.mockResolvedValue(createDiscrepancy());
+  mocks.discrepancyUpdateMany.mockResolvedValue({ count: 1 });
+  mocks.discrepancyFindUniqueOrThrow.mockResolvedValue(
+    createDiscrepancy({ status: 'RESOLVED', resolvedBy: MODERATOR, resolutionNote: REASON })
+  );
+});
+
+// ===========================================
+// setWalletFreeze
+// ===========================================
+
+describe('setWalletFreeze', () => {
+  it('freezes the wallet and writes both audit logs', async () => {
+    const result = await setWalletFreeze({ userId: TARGET, adminId: MODERATOR, frozen: true, reason: REASON });
+
+    expect(mocks.walletUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'wallet-1', frozenAt: null },
+      data: expect.objectContaining({ frozenReason: REASON, frozenBy: MODERATOR }),
+    });
+    expect(mocks.auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: TARGET, action: 'WALLET_FROZEN', performedBy: MODERATOR }),
+    });
+    expect(mocks.recordAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'WALLET_FROZEN', targetType: 'wallet', targetId: 'wallet-1' }),
+      expect.anything()
+    );
+    expect(result).toEqual(expect.objectContaining({ walletId: 'wallet-1', frozenBy: MODERATOR }));
+  });
+
+  it('unfreezes a frozen wallet', async () => {
+    mocks.walletFindUnique.mockResolvedValue({ id: 'wallet-1', frozenAt: new Date(), frozenReason: REASON });
+
+    await setWalletFreeze({ userId: TARGET, adminId: MODERATOR, frozen: false, reason: 'Drift explained' });
+
+    expect(mocks.walletUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'wallet-1', frozenAt: { not: null } },
+      data: { frozenAt: null, frozenReason: null, frozenBy: null },
+    });
+    expect(mocks.auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'WALLET_UNFROZEN' }),
+    });
+  });
+
+  it('requires SETTLEMENT_ADMIN', async () => {
+    await expectError(
+      setWalletFreeze({ userId: TARGET, adminId: SUPPORT, frozen: true, reason: REASON }),
+      ForbiddenError
+    );
+    expect(mocks.walletUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects freezing a wallet that is already frozen', async () => {
+    mocks.walletFindUnique.mockResolvedValue({ id: 'wallet-1', frozenAt: new Date(), frozenReason: REASON });
+
+    await expectError(
+      setWalletFreeze({ userId: TARGET, adminId: MODERATOR, frozen: true, reason: REASON }),
+      BadRequestError,
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  });
+
+  it('rejects users without a wallet', async () => {
+    mocks.walletFindUnique.mockResolvedValue(null);
+
+    await expectError(
+      setWalletFreeze({ userId: TARGET, adminId: MODERATOR, frozen: true, reason: REASON }),
+      NotFoundError
+    );
+  });
+
+  it('does not audit when another admin changed the wallet first', async () => {
+    mocks.walletUpdateMany.mockResolvedValue({ count: 0 });
+
+    await expectError(
+      setWalletFreeze({ userId: TARGET, adminId: MODERATOR, frozen: true, reason: REASON }),
+      ConflictError
+    );
+    expect(mocks.auditLogCreate).not.toHaveBeenCalled();
+    expect(mocks.recordAdminAction).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// resolveWalletDiscrepancy
+// ===========================================
+
+describe('resolveWalletDiscrepancy', () => {
+  it('closes an open discrepancy and records the admin action', async () => {
+    const result = await resolveWalletDiscrepancy({
+      discrepancyId: 'disc-1',
+      adminId: MODERATOR,
+      status: 'RESOLVED',
+      note: REASON,
+    });
+
+    expect(mocks.discrepancyUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'disc-1', status: 'OPEN' },
+      data: expect.objectContaining({ status: 'RESOLVED', resolvedBy: MODERATOR, resolutionNote: REASON }),
+    });
+    expect(mocks.recordAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'WALLET_DISCREPANCY_RESOLVED', targetId: 'wallet-1' }),
+      expect.anything()
+    );
+    expect(result).toEqual(
+      expect.objectContaining({ status: 'RESOLVED', expected: 4000, actual: 4500 })
+    );
+  });
+
+  it('rejects discrepancies that are already closed', async () => {
+    mocks.discrepancyFindUnique.mockResolvedValue(createDiscrepancy({ status: 'DISMISSED' }));
+
+    await expectError(
+      resolveWalletDiscrepancy({ discrepancyId: 'disc-1', adminId: MODERATOR, status: 'RESOLVED', note: REASON }),
+      BadRequestError
+    );
+    expect(mocks.discrepancyUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it('fails with a conflict when another reviewer closed it first', async () => {
+    mocks.discrepancyUpdateMany.mockResolvedValue({ count: 0 });
+
+    await expectError(
+      resolveWalletDiscrepancy({ discrepancyId: 'disc-1', adminId: MODERATOR, status: 'DISMISSED', note: REASON }),
+      ConflictError
+    );
+    expect(mocks.recordAdminAction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,308 @@
+// =====================================================
+// Admin Wallet Review Service
+// =====================================================
+// Review of wallet reconciliation findings:
+// 1. List discrepancies and resolve or dismiss them
+// 2. Freeze a wallet under investigation, and unfreeze it
+//
+// A frozen wallet keeps receiving credits (payouts, refunds) but
+// debitWallet refuses match entries and withdrawals.
+//
+// CRITICAL: Freezes write a UserAuditLog entry (account history) and
+// every action an AdminAuditLog entry (system-wide admin trail).
+
+import {
+  Prisma,
+  WalletDiscrepancy,
+  WalletDiscrepancyStatus,
+  WalletDiscrepancyType,
+} from '@prisma/client';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import { BadRequestError, NotFoundError, ConflictError } from '../../utils/errors';
+import { bigIntToNumber } from '../../lib/wallet.service';
+import { validateAdminPermission } from '../../services/settlement/settlement-edge-cases.service';
+import { recordAdminAction, AdminActionContext } from '../../services/admin-audit.service';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface ListDiscrepanciesParams {
+  status?: WalletDiscrepancyStatus;
+  type?: WalletDiscrepancyType;
+  userId?: string;
+  page: number;
+  limit: number;
+}
+
+export interface ResolveDiscrepancyParams extends AdminActionContext {
+  discrepancyId: string;
+  status: 'RESOLVED' | 'DISMISSED';
+  note: string;
+}
+
+export interface SetWalletFreezeParams extends AdminActionContext {
+  userId: string;
+  frozen: boolean;
+  reason: string;
+}
+
+export interface WalletDiscrepancyView {
+  id: string;
+  walletId: string;
+  userId: string;
+  type: WalletDiscrepancyType;
+  status: WalletDiscrepancyStatus;
+  field: string | null;
+  expected: number | null;
+  actual: number | null;
+  transactionId: string | null;
+  details: Prisma.JsonValue;
+  runId: string;
+  detectedAt: Date;
+  lastSeenAt: Date;
+  resolvedAt: Date | null;
+  resolvedBy: string | null;
+  resolutionNote: string | null;
+}
+
+export interface WalletFreezeView {
+  walletId: string;
+  userId: string;
+  frozenAt: Date | null;
+  frozenReason: string | null;
+  frozenBy: string | null;
+}
+
+// ===========================================
+// Helpers
+// ===========================================
+
+function toDiscrepancyView(record: WalletDiscrepancy): WalletDiscrepancyView {
+  return {
+    id: record.id,
+    walletId: record.walletId,
+    userId: record.userId,
+    type: record.type,
+    status: record.status,
+    field: record.field,
+    expected: record.expected === null ? null : bigIntToNumber(record.expected),
+    actual: record.actual === null ? null : bigIntToNumber(record.actual),
+    transactionId: record.transactionId,
+    details: record.details,
+    runId: record.runId,
+    detectedAt: record.detectedAt,
+    lastSeenAt: record.lastSeenAt,
+    resolvedAt: record.resolvedAt,
+    resolvedBy: record.resolvedBy,
+    resolutionNote: record.resolutionNote,
+  };
+}
+
+// ===========================================
+// 1. DISCREPANCIES
+// ===========================================
+
+/**
+ * List reconciliation discrepancies, most recently detected first.
+ */
+export async function listWalletDiscrepancies(
+  params: ListDiscrepanciesParams
+): Promise<{ discrepancies: WalletDiscrepancyView[]; total: number }> {
+  const { status, type, userId, page, limit } = params;
+
+  const where: Prisma.WalletDiscrepancyWhereInput = {
+    ...(status && { status }),
+    ...(type && { type }),
+    ...(userId && { userId }),
+  };
+
+  const [records, total] = await Promise.all([
+    prisma.walletDiscrepancy.findMany({
+      where,
+      orderBy: [{ detectedAt: 'desc' }, { id: 'asc' }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.walletDiscrepancy.count({ where }),
+  ]);
+
+  return { discrepancies: records.map(toDiscrepancyView), total };
+}
+
+/**
+ * Close an open discrepancy as resolved (fixed) or dismissed (not a
+ * real problem). If the drift is still there, the next run opens a
+ * new discrepancy for it.
+ */
+export async function resolveWalletDiscrepancy(
+  params: ResolveDiscrepancyParams
+): Promise<WalletDiscrepancyView> {
+  const { discrepancyId, adminId, status, note, ipAddress, userAgent } = params;
+
+  await validateAdminPermission(adminId, 'SETTLEMENT_ADMIN');
+
+  const discrepancy = await prisma.walletDiscrepancy.findUnique({
+    where: { id: discrepancyId },
+  });
+
+  if (!discrepancy) {
+    throw new NotFoundError('Discrepancy not found', ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  if (discrepancy.status !== 'OPEN') {
+    throw new BadRequestError(
+      `Discrepancy is already ${discrepancy.status.toLowerCase()}`,
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const now = new Date();
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // Conditional on OPEN, so two reviewers can't both close it
+    const { count } = await tx.walletDiscrepancy.updateMany({
+      where: { id: discrepancyId, status: 'OPEN' },
+      data: { status, resolvedAt: now, resolvedBy: adminId, resolutionNote: note },
+    });
+
+    if (count === 0) {
+      throw new ConflictError(
+        'Discrepancy was modified concurrently. Please retry.',
+        ERROR_CODES.INTERNAL_ERROR
+      );
+    }
+
+    await recordAdminAction(
+      {
+        adminId,
+        action: status === 'RESOLVED' ? 'WALLET_DISCREPANCY_RESOLVED' : 'WALLET_DISCREPANCY_DISMISSED',
+        targetType: 'wallet',
+        targetId: discrepancy.walletId,
+        previousState: { status: 'OPEN' },
+        newState: { status },
+        reason: note,
+        metadata: {
+          discrepancyId,
+          userId: discrepancy.userId,
+          type: discrepancy.type,
+          field: discrepancy.field,
+        },
+        ipAddress,
+        userAgent,
+      },
+      tx
+    );
+
+    return tx.walletDiscrepancy.findUniqueOrThrow({ where: { id: discrepancyId } });
+  });
+
+  logger.info(`Admin ${adminId} marked wallet discrepancy ${discrepancyId} ${status}`);
+
+  return toDiscrepancyView(updated);
+}
+
+// ===========================================
+// 2. FREEZE / UNFREEZE
+// ===========================================
+
+/**
+ * Freeze or unfreeze a user's wallet.
+ */
+export async function setWalletFreeze(params: SetWalletFreezeParams): Promise<WalletFreezeView> {
+  const { userId, adminId, frozen, reason, ipAddress, userAgent } = params;
+
+  await validateAdminPermission(adminId, 'SETTLEMENT_ADMIN');
+
+  const wallet = await prisma.wallet.findUnique({
+    where: { userId },
+    select: { id: true, frozenAt: true, frozenReason: true },
+  });
+
+  if (!wallet) {
+    throw new NotFoundError('Wallet not found', ERROR_CODES.USER_NOT_FOUND);
+  }
+
+  if (frozen === Boolean(wallet.frozenAt)) {
+    throw new BadRequestError(
+      frozen ? 'Wallet is already frozen' : 'Wallet is not frozen',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const now = new Date();
+  const previousState = {
+    frozenAt: wallet.frozenAt?.toISOString() ?? null,
+    frozenReason: wallet.frozenReason,
+  };
+  const newState = {
+    frozenAt: frozen ? now.toISOString() : null,
+    frozenReason: frozen ? reason : null,
+  };
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // Conditional on the state we read, so concurrent admins can't
+    // overwrite each other silently
+    const { count } = await tx.wallet.updateMany({
+      where: { id: wallet.id, frozenAt: frozen ? null : { not: null } },
+      data: {
+        frozenAt: frozen ? now : null,
+        frozenReason: frozen ? reason : null,
+        frozenBy: frozen ? adminId : null,
+      },
+    });
+
+    if (count === 0) {
+      throw new ConflictError(
+        'Wallet was modified concurrently. Please retry.',
+        ERROR_CODES.INTERNAL_ERROR
+      );
+    }
+
+    await tx.userAuditLog.create({
+      data: {
+        userId,
+        action: frozen ? 'WALLET_FROZEN' : 'WALLET_UNFROZEN',
+        performedBy: adminId,
+        previousState,
+        newState,
+        reason,
+        ipAddress,
+        userAgent,
+      },
+    });
+
+    await recordAdminAction(
+      {
+        adminId,
+        action: frozen ? 'WALLET_FROZEN' : 'WALLET_UNFROZEN',
+        targetType: 'wallet',
+        targetId: wallet.id,
+        previousState,
+        newState,
+        reason,
+        metadata: { userId },
+        ipAddress,
+        userAgent,
+      },
+      tx
+    );
+
+    return tx.wallet.findUniqueOrThrow({
+      where: { id: wallet.id },
+      select: { id: true, userId: true, frozenAt: true, frozenReason: true, frozenBy: true },
+    });
+  });
+
+  logger.info(`Admin ${adminId} ${frozen ? 'froze' : 'unfroze'} wallet of user ${userId}`);
+
+  return {
+    walletId: updated.id,
+    userId: updated.userId,
+    frozenAt: updated.frozenAt,
+    frozenReason: updated.frozenReason,
+    frozenBy: updated.frozenBy,
+  };
+}
@@ -17,12 +17,77 @@ import {
   handleCancelledEvent,
   checkSettlementEligibility,
 } from '../../services/settlement/settlement-edge-cases.service';
+import {
+  listDisputes,
+  getDisputeForReview,
+  assignDispute,
+  resolveDispute,
+} from '../../services/settlement/match-dispute.service';
 import {
   manualSettlementSchema,
   cancelEventSchema,
   auditLogQuerySchema,
   pendingSettlementsQuerySchema,
+  disputeQueueQuerySchema,
+  assignDisputeSchema,
+  resolveDisputeSchema,
+  userSearchQuerySchema,
+  userStatusSchema,
+  adminRoleSchema,
+  walletAdjustmentSchema,
+  adminAuditQuerySchema,
+  houseLedgerQuerySchema,
+  walletFreezeSchema,
+  walletDiscrepancyQuerySchema,
+  resolveWalletDiscrepancySchema,
+  seasonListQuerySchema,
+  createSeasonSchema,
+  seasonRewardsSchema,
+  extendSeasonSchema,
+  seasonTransitionSchema,
 } from './admin.schemas';
+import {
+  recordAdminAction,
+  queryAdminAuditLog,
+  exportAdminAuditLogCsv,
+} from '../../services/admin-audit.service';
+import {
+  searchUsers,
+  getUserForAdmin,
+  listUserAuditLog,
+  setUserStatus,
+  setAdminRole,
+  adjustWallet,
+} from './admin-users.service';
+import { getHouseLedgerReport, HouseLedgerReport } from './admin-house.service';
+import {
+  listWalletDiscrepancies,
+  resolveWalletDiscrepancy,
+  setWalletFreeze,
+  WalletDiscrepancyView,
+  WalletFreezeView,
+} from './admin-wallets.service';
+import {
+  listSeasons,
+  createSeason,
+  setSeasonRewards,
+  previewSeasonRewards,
+  extendSeason,
+  endSeasonEarly,
+  activateSeasonNow,
+  AdminSeasonView,
+  SeasonRewardPreview,
+  SeasonActivationView,
+} from './admin-seasons.service';
+import { getRateLimitMetrics, RATE_LIMIT_POLICIES } from '../../lib/rate-limit.service';
+import {
+  createTournament,
+  cancelTournament,
+  createTournamentSchema,
+  cancelTournamentSchema,
+  CreateTournamentInput,
+  TournamentDetails,
+} from '../tournaments';
 const router = Router();
 
 // ===========================================
@@ -47,6 +112,19 @@ async function requireAdmin(req: Request, _res: Response, next: NextFunction): P
   }
 }
 
+/**
+ * Middleware to require support role (read access to user accounts).
+ */
+async function requireSupport(req: Request, _res: Response, next: NextFunction): Promise<void> {
+  try {
+    const user = getAuthenticatedUser(req);
+    await validateAdminPermission(user.id, 'SUPPORT_ADMIN');
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Middleware to require viewer role (read-only access).
  */
@@ -238,10 +316,15 @@ router.post(
   validateRequest(cancelEventSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
+      const user = getAuthenticatedUser(req);
       const eventId = req.params.id;
       const { reason } = req.body;
 
-      const results = await handleCancelledEvent(eventId, reason);
+      const results = await handleCancelledEvent(eventId, reason, {
+        adminId: user.id,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
 
       const response: ApiResponse<typeof results> = {
         success: true,
@@ -437,34 +520,241 @@ router.get(
 );
 
 // ===========================================
-// Leaderboard Cache Endpoints
+// Dispute Management Endpoints
 // ===========================================
 
 /**
- * POST /api/v1/admin/leaderboard/refresh-cache
- * Force rebuild of leaderboard cache.
+ * GET /api/v1/admin/disputes
+ * Get the dispute review queue.
+ *
+ * Auth: Required (VIEWER)
+ * Query: ?status=pending&priority=2&assignedTo=uuid&page=1&limit=20
+ * Response: 200 with disputes, highest priority and oldest first
+ */
+router.get(
+  '/disputes',
+  requireAuth,
+  requireViewer,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const queryResult = disputeQueueQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: ERROR_CODES.VALIDATION_ERROR,
+            message: 'Invalid query parameters',
+            details: queryResult.error.errors,
+          },
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { status, priority, assignedTo, page, limit } = queryResult.data;
+
+      const { disputes, total } = await listDisputes({
+        status,
+        priority,
+        assignedTo,
+        page,
+        limit,
+      });
+
+      const totalPages = Math.ceil(total / limit);
+      const response: ApiResponse<typeof disputes> = {
+        success: true,
+        data: disputes,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+          },
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/disputes/:id
+ * Get a dispute with the match and slips needed to review it.
+ *
+ * Auth: Required (VIEWER)
+ * Response: 200 with dispute details
+ */
+router.get(
+  '/disputes/:id',
+  requireAuth,
+  requireViewer,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const dispute = await getDisputeForReview(req.params.id);
+
+      const response: ApiResponse<typeof dispute> = {
+        success: true,
+        data: dispute,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/disputes/:id/assign
+ * Assign a dispute for review. Defaults to the requesting admin.
+ *
+ * Auth: Required (SUPPORT_ADMIN - checked by the service)
+ * Body: { assigneeId? }
+ * Response: 200 with updated dispute
+ */
+router.post(
+  '/disputes/:id/assign',
+  requireAuth,
+  validateRequest(assignDisputeSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const { assigneeId } = req.body;
+
+      const dispute = await assignDispute({
+        disputeId: req.params.id,
+        adminId: user.id,
+        assigneeId: assigneeId ?? user.id,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<typeof dispute> = {
+        success: true,
+        data: dispute,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/disputes/:id/resolve
+ * Resolve a dispute.
+ * - rejected: original result stands, held payouts released
+ * - upheld/partial: match re-settled to winnerId, or voided and refunded
  *
  * Auth: Required (SETTLEMENT_ADMIN)
- * Response: 200 with job info
+ * Body: { resolutionType, winnerId?, resolution }
+ * Response: 200 with resolution result
  */
 router.post(
-  '/leaderboard/refresh-cache',
+  '/disputes/:id/resolve',
   requireAuth,
   requireAdmin,
-  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+  validateRequest(resolveDisputeSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { queueFullCacheRebuild } = await import('../../queues/leaderboard.queue');
-      const job = await queueFullCacheRebuild('manual');
+      const user = getAuthenticatedUser(req);
+      const { resolutionType, winnerId, resolution } = req.body;
 
-      const response: ApiResponse<{ jobId: string; message: string }> = {
+      const result = await resolveDispute({
+        disputeId: req.params.id,
+        adminId: user.id,
+        resolutionType,
+        winnerId,
+        resolution,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<typeof result> = {
         success: true,
-        data: {
-          jobId: job.id || 'unknown',
-          message: 'Leaderboard cache rebuild queued',
+        data: result,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
         },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// User Management Endpoints
+// ===========================================
+
+/**
+ * GET /api/v1/admin/users
+ * Search accounts by email, username or display name.
+ *
+ * Auth: Required (SUPPORT_ADMIN)
+ * Query: ?search=jane&status=suspended&adminRole=VIEWER&page=1&limit=20
+ * Response: 200 with matching users, newest first
+ */
+router.get(
+  '/users',
+  requireAuth,
+  requireSupport,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const queryResult = userSearchQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: ERROR_CODES.VALIDATION_ERROR,
+            message: 'Invalid query parameters',
+            details: queryResult.error.errors,
+          },
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { search, status, adminRole, page, limit } = queryResult.data;
+
+      const { users, total } = await searchUsers({ search, status, adminRole, page, limit });
+
+      const totalPages = Math.ceil(total / limit);
+      const response: ApiResponse<typeof users> = {
+        success: true,
+        data: users,
         meta: {
           timestamp: new Date().toISOString(),
           requestId: generateRequestId(),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+          },
         },
       };
 
@@ -476,34 +766,1072 @@ router.post(
 );
 
 /**
- * GET /api/v1/admin/leaderboard/cache-status
- * Get the current status of the leaderboard cache.
+ * GET /api/v1/admin/users/:id
+ * Get an account with its wallet and recent moderation history.
  *
- * Auth: Required (VIEWER)
- * Response: 200 with cache status
+ * Auth: Required (SUPPORT_ADMIN)
+ * Response: 200 with user details
  */
 router.get(
-  '/leaderboard/cache-status',
+  '/users/:id',
   requireAuth,
-  requireViewer,
-  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+  requireSupport,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const { getCacheStatus } = await import('../leaderboard/leaderboard-cache.service');
-      const { getLeaderboardUpdateQueueStatus } = await import('../../queues/leaderboard.queue');
+      const user = await getUserForAdmin(req.params.id);
 
-      const [cacheStatus, queueStatus] = await Promise.all([
-        getCacheStatus(),
-        getLeaderboardUpdateQueueStatus(),
-      ]);
+      const response: ApiResponse<typeof user> = {
+        success: true,
+        data: user,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
 
-      const response: ApiResponse<{
-        cache: typeof cacheStatus;
-        queue: typeof queueStatus;
-      }> = {
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/users/:id/audit-log
+ * Get the moderation history for an account.
+ *
+ * Auth: Required (SUPPORT_ADMIN)
+ * Query: ?page=1&limit=50&action=STATUS_CHANGED
+ * Response: 200 with audit log entries, newest first
+ */
+router.get(
+  '/users/:id/audit-log',
+  requireAuth,
+  requireSupport,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const queryResult = auditLogQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: ERROR_CODES.VALIDATION_ERROR,
+            message: 'Invalid query parameters',
+            details: queryResult.error.errors,
+          },
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { page, limit, action } = queryResult.data;
+
+      const { logs, total } = await listUserAuditLog(req.params.id, { action, page, limit });
+
+      const totalPages = Math.ceil(total / limit);
+      const response: ApiResponse<typeof logs> = {
         success: true,
-        data: {
-          cache: cacheStatus,
-          queue: queueStatus,
+        data: logs,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+          },
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/users/:id/status
+ * Suspend, ban or reinstate an account.
+ * Restricting revokes refresh tokens and disconnects live sockets.
+ *
+ * Auth: Required (SETTLEMENT_ADMIN; SUPER_ADMIN to moderate another admin)
+ * Body: { status, reason, expiresAt? }
+ * Response: 200 with updated user
+ */
+router.post(
+  '/users/:id/status',
+  requireAuth,
+  requireAdmin,
+  validateRequest(userStatusSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = getAuthenticatedUser(req);
+      const { status, reason, expiresAt } = req.body;
+
+      const user = await setUserStatus({
+        userId: req.params.id,
+        adminId: admin.id,
+        status,
+        reason,
+        expiresAt,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<typeof user> = {
+        success: true,
+        data: user,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/admin/users/:id/role
+ * Grant, change or revoke (role: null) an admin role.
+ *
+ * Auth: Required (SUPER_ADMIN - checked by the service)
+ * Body: { role, reason }
+ * Response: 200 with updated user
+ */
+router.put(
+  '/users/:id/role',
+  requireAuth,
+  validateRequest(adminRoleSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = getAuthenticatedUser(req);
+      const { role, reason } = req.body;
+
+      const user = await setAdminRole({
+        userId: req.params.id,
+        adminId: admin.id,
+        role,
+        reason,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<typeof user> = {
+        success: true,
+        data: user,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/users/:id/wallet-adjustments
+ * Credit or debit an account's wallet.
+ *
+ * Auth: Required (SUPER_ADMIN - checked by the service)
+ * Body: { direction, amount, balance?, reason, idempotencyKey? }
+ * Response: 201 with the wallet transaction (200 on an idempotent replay)
+ */
+router.post(
+  '/users/:id/wallet-adjustments',
+  requireAuth,
+  validateRequest(walletAdjustmentSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = getAuthenticatedUser(req);
+      const { direction, amount, balance, reason, idempotencyKey } = req.body;
+
+      const result = await adjustWallet({
+        userId: req.params.id,
+        adminId: admin.id,
+        direction,
+        amount,
+        balance,
+        reason,
+        idempotencyKey,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        data: result,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(result.applied ? 201 : 200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/users/:id/wallet-freeze
+ * Freeze a wallet under investigation, or unfreeze it.
+ * A frozen wallet still receives payouts and refunds but can't be
+ * spent (match entries, withdrawals).
+ *
+ * Auth: Required (SETTLEMENT_ADMIN)
+ * Body: { frozen, reason }
+ * Response: 200 with the wallet's freeze state
+ */
+router.post(
+  '/users/:id/wallet-freeze',
+  requireAuth,
+  requireAdmin,
+  validateRequest(walletFreezeSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = getAuthenticatedUser(req);
+      const { frozen, reason } = req.body;
+
+      const wallet = await setWalletFreeze({
+        userId: req.params.id,
+        adminId: admin.id,
+        frozen,
+        reason,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<WalletFreezeView> = {
+        success: true,
+        data: wallet,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// Admin Audit Log Endpoints
+// ===========================================
+
+/**
+ * GET /api/v1/admin/audit-log
+ * Query the system-wide admin audit log, or export it as CSV.
+ *
+ * Auth: Required (SUPPORT_ADMIN)
+ * Query: ?actorId=uuid&action=SCORE_OVERRIDE&targetType=event&targetId=uuid
+ *        &from=ISO&to=ISO&page=1&limit=50&format=json|csv
+ * Response: 200 with audit entries, newest first (text/csv when format=csv)
+ */
+router.get(
+  '/audit-log',
+  requireAuth,
+  requireSupport,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const queryResult = adminAuditQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: ERROR_CODES.VALIDATION_ERROR,
+            message: 'Invalid query parameters',
+            details: queryResult.error.errors,
+          },
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { format, page, limit, ...filters } = queryResult.data;
+
+      if (format === 'csv') {
+        const { csv, rowCount, truncated } = await exportAdminAuditLogCsv(filters);
+
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader(
+          'Content-Disposition',
+          `attachment; filename="admin-audit-log-${new Date().toISOString().slice(0, 10)}.csv"`
+        );
+        res.setHeader('X-Row-Count', String(rowCount));
+        res.setHeader('X-Truncated', String(truncated));
+        res.status(200).send(csv);
+        return;
+      }
+
+      const { logs, total } = await queryAdminAuditLog({ ...filters, page, limit });
+
+      const totalPages = Math.ceil(total / limit);
+      const response: ApiResponse<typeof logs> = {
+        success: true,
+        data: logs,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+          },
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// Leaderboard Cache Endpoints
+// ===========================================
+
+/**
+ * POST /api/v1/admin/leaderboard/refresh-cache
+ * Force rebuild of leaderboard cache.
+ *
+ * Auth: Required (SETTLEMENT_ADMIN)
+ * Response: 200 with job info
+ */
+router.post(
+  '/leaderboard/refresh-cache',
+  requireAuth,
+  requireAdmin,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const { queueFullCacheRebuild } = await import('../../queues/leaderboard.queue');
+      const job = await queueFullCacheRebuild('manual');
+
+      await recordAdminAction({
+        adminId: user.id,
+        action: 'LEADERBOARD_CACHE_REBUILD',
+        targetType: 'leaderboard',
+        metadata: { jobId: job.id ?? null },
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<{ jobId: string; message: string }> = {
+        success: true,
+        data: {
+          jobId: job.id || 'unknown',
+          message: 'Leaderboard cache rebuild queued',
+        },
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/leaderboard/cache-status
+ * Get the current status of the leaderboard cache.
+ *
+ * Auth: Required (VIEWER)
+ * Response: 200 with cache status
+ */
+router.get(
+  '/leaderboard/cache-status',
+  requireAuth,
+  requireViewer,
+  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { getCacheStatus } = await import('../leaderboard/leaderboard-cache.service');
+      const { getLeaderboardUpdateQueueStatus } = await import('../../queues/leaderboard.queue');
+
+      const [cacheStatus, queueStatus] = await Promise.all([
+        getCacheStatus(),
+        getLeaderboardUpdateQueueStatus(),
+      ]);
+
+      const response: ApiResponse<{
+        cache: typeof cacheStatus;
+        queue: typeof queueStatus;
+      }> = {
+        success: true,
+        data: {
+          cache: cacheStatus,
+          queue: queueStatus,
+        },
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// Tournament Endpoints
+// ===========================================
+
+/**
+ * POST /api/v1/admin/tournaments
+ * Schedule a single-elimination tournament on an event slate.
+ * Registration closes shortly before round 1's first event.
+ *
+ * Auth: Required (SETTLEMENT_ADMIN)
+ * Body: { name, size, entryFee, rakePercentage?, payoutStructure?, rounds: [{ eventIds }] }
+ * Response: 201 with tournament details
+ */
+router.post(
+  '/tournaments',
+  requireAuth,
+  requireAdmin,
+  validateRequest(createTournamentSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = getAuthenticatedUser(req);
+
+      const tournament = await createTournament({
+        ...(req.body as CreateTournamentInput),
+        adminId: admin.id,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<TournamentDetails> = {
+        success: true,
+        data: tournament,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/tournaments/:id/cancel
+ * Cancel a tournament before it starts. Every entry fee is refunded.
+ *
+ * Auth: Required (SETTLEMENT_ADMIN)
+ * Body: { reason }
+ * Response: 200 with tournament details
+ */
+router.post(
+  '/tournaments/:id/cancel',
+  requireAuth,
+  requireAdmin,
+  validateRequest(cancelTournamentSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = getAuthenticatedUser(req);
+
+      const tournament = await cancelTournament({
+        tournamentId: req.params.id,
+        adminId: admin.id,
+        reason: req.body.reason,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<TournamentDetails> = {
+        success: true,
+        data: tournament,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// Season Endpoints
+// ===========================================
+
+/**
+ * GET /api/v1/admin/seasons
+ * List ranked seasons with their reward brackets, latest start first.
+ *
+ * Auth: Required (SUPPORT_ADMIN)
+ * Query: ?status=SCHEDULED&page=1&limit=20
+ * Response: 200 with seasons
+ */
+router.get(
+  '/seasons',
+  requireAuth,
+  requireSupport,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const queryResult = seasonListQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: ERROR_CODES.VALIDATION_ERROR,
+            message: 'Invalid query parameters',
+            details: queryResult.error.errors,
+          },
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { status, page, limit } = queryResult.data;
+
+      const { seasons, total } = await listSeasons({ status, page, limit });
+
+      const totalPages = Math.ceil(total / limit);
+      const response: ApiResponse<AdminSeasonView[]> = {
+        success: true,
+        data: seasons,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+          },
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/seasons
+ * Schedule a ranked season. It activates at its start date once the
+ * previous season has ended.
+ *
+ * Auth: Required (SETTLEMENT_ADMIN)
+ * Body: { name, slug, startDate, endDate, rewards?: [{ minRank, maxRank, coinReward, description? }] }
+ * Response: 201 with the season
+ */
+router.post(
+  '/seasons',
+  requireAuth,
+  requireAdmin,
+  validateRequest(createSeasonSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = getAuthenticatedUser(req);
+
+      const { name, slug, startDate, endDate, rewards } = req.body;
+
+      const season = await createSeason({
+        name,
+        slug,
+        startDate,
+        endDate,
+        rewards,
+        adminId: admin.id,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<AdminSeasonView> = {
+        success: true,
+        data: season,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /api/v1/admin/seasons/:id/rewards
+ * Replace the season's reward brackets. Allowed until rewards are paid out.
+ *
+ * Auth: Required (SETTLEMENT_ADMIN)
+ * Body: { rewards: [{ minRank, maxRank, coinReward, description? }], reason }
+ * Response: 200 with the season
+ */
+router.put(
+  '/seasons/:id/rewards',
+  requireAuth,
+  requireAdmin,
+  validateRequest(seasonRewardsSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = getAuthenticatedUser(req);
+      const { rewards, reason } = req.body;
+
+      const season = await setSeasonRewards({
+        seasonId: req.params.id,
+        adminId: admin.id,
+        rewards,
+        reason,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<AdminSeasonView> = {
+        success: true,
+        data: season,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/admin/seasons/:id/rewards/preview
+ * Payout cost of the reward table if the season ended on current standings.
+ *
+ * Auth: Required (SUPPORT_ADMIN)
+ * Response: 200 with players and coins per bracket
+ */
+router.get(
+  '/seasons/:id/rewards/preview',
+  requireAuth,
+  requireSupport,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const preview = await previewSeasonRewards(req.params.id);
+
+      const response: ApiResponse<SeasonRewardPreview> = {
+        success: true,
+        data: preview,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/seasons/:id/extend
+ * Push back the end date of a scheduled or active season.
+ *
+ * Auth: Required (SETTLEMENT_ADMIN)
+ * Body: { endDate, reason }
+ * Response: 200 with the season
+ */
+router.post(
+  '/seasons/:id/extend',
+  requireAuth,
+  requireAdmin,
+  validateRequest(extendSeasonSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = getAuthenticatedUser(req);
+      const { endDate, reason } = req.body;
+
+      const season = await extendSeason({
+        seasonId: req.params.id,
+        adminId: admin.id,
+        endDate,
+        reason,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<AdminSeasonView> = {
+        success: true,
+        data: season,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/seasons/:id/end
+ * End an active season now. Rankings finalize after the usual grace
+ * period and rewards follow.
+ *
+ * Auth: Required (SETTLEMENT_ADMIN)
+ * Body: { reason }
+ * Response: 200 with the season and the queued end job
+ */
+router.post(
+  '/seasons/:id/end',
+  requireAuth,
+  requireAdmin,
+  validateRequest(seasonTransitionSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = getAuthenticatedUser(req);
+
+      const season = await endSeasonEarly({
+        seasonId: req.params.id,
+        adminId: admin.id,
+        reason: req.body.reason,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const { queueManualSeasonEnd } = await import('../../queues/season.queue');
+      const job = await queueManualSeasonEnd(season.id);
+
+      const response: ApiResponse<AdminSeasonView & { jobId: string }> = {
+        success: true,
+        data: { ...season, jobId: job.id || 'unknown' },
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/seasons/:id/activate
+ * Activate a scheduled season now instead of at its start date.
+ * The previous season must have ended. Returning players' rank points
+ * are soft-reset.
+ *
+ * Auth: Required (SETTLEMENT_ADMIN)
+ * Body: { reason }
+ * Response: 200 with the season and how many players carried over
+ */
+router.post(
+  '/seasons/:id/activate',
+  requireAuth,
+  requireAdmin,
+  validateRequest(seasonTransitionSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = getAuthenticatedUser(req);
+
+      const season = await activateSeasonNow({
+        seasonId: req.params.id,
+        adminId: admin.id,
+        reason: req.body.reason,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<SeasonActivationView> = {
+        success: true,
+        data: season,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// Wallet Reconciliation Endpoints
+// ===========================================
+
+/**
+ * GET /api/v1/admin/wallet-discrepancies
+ * List drift found by the nightly wallet reconciliation.
+ *
+ * Auth: Required (SUPPORT_ADMIN)
+ * Query: ?status=OPEN&type=BALANCE_MISMATCH&userId=uuid&page=1&limit=50
+ * Response: 200 with discrepancies, most recently detected first
+ */
+router.get(
+  '/wallet-discrepancies',
+  requireAuth,
+  requireSupport,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const queryResult = walletDiscrepancyQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: ERROR_CODES.VALIDATION_ERROR,
+            message: 'Invalid query parameters',
+            details: queryResult.error.errors,
+          },
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const { status, type, userId, page, limit } = queryResult.data;
+
+      const { discrepancies, total } = await listWalletDiscrepancies({
+        status,
+        type,
+        userId,
+        page,
+        limit,
+      });
+
+      const totalPages = Math.ceil(total / limit);
+      const response: ApiResponse<WalletDiscrepancyView[]> = {
+        success: true,
+        data: discrepancies,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+            hasNext: page < totalPages,
+            hasPrev: page > 1,
+          },
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/wallet-discrepancies/:id/resolve
+ * Close an open discrepancy as resolved or dismissed.
+ *
+ * Auth: Required (SETTLEMENT_ADMIN)
+ * Body: { status: 'RESOLVED' | 'DISMISSED', note }
+ * Response: 200 with the updated discrepancy
+ */
+router.post(
+  '/wallet-discrepancies/:id/resolve',
+  requireAuth,
+  requireAdmin,
+  validateRequest(resolveWalletDiscrepancySchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const admin = getAuthenticatedUser(req);
+      const { status, note } = req.body;
+
+      const discrepancy = await resolveWalletDiscrepancy({
+        discrepancyId: req.params.id,
+        adminId: admin.id,
+        status,
+        note,
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<WalletDiscrepancyView> = {
+        success: true,
+        data: discrepancy,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/admin/wallet-reconciliation/run
+ * Queue a reconciliation run now (e.g. to confirm a fix).
+ *
+ * Auth: Required (SETTLEMENT_ADMIN)
+ * Response: 200 with job info
+ */
+router.post(
+  '/wallet-reconciliation/run',
+  requireAuth,
+  requireAdmin,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const { queueWalletReconciliation } = await import('../../queues/wallet-reconciliation.queue');
+      const job = await queueWalletReconciliation();
+
+      await recordAdminAction({
+        adminId: user.id,
+        action: 'WALLET_RECONCILIATION_RUN',
+        targetType: 'wallet',
+        metadata: { jobId: job.id ?? null },
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<{ jobId: string; message: string }> = {
+        success: true,
+        data: {
+          jobId: job.id || 'unknown',
+          message: 'Wallet reconciliation queued',
+        },
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// House Ledger Endpoints
+// ===========================================
+
+/**
+ * GET /api/v1/admin/house/ledger
+ * House wallet ledger by day and game mode: rake collected versus
+ * coins minted (starter credits, allowances, season rewards, bonuses,
+ * admin grants) and coins reclaimed by admin debits.
+ *
+ * Auth: Required (SETTLEMENT_ADMIN)
+ * Query: from?, to? (ISO 8601, defaults to the last 30 days, max 366 days)
+ * Response: 200 with current balance, totals and daily rows
+ */
+router.get(
+  '/house/ledger',
+  requireAuth,
+  requireAdmin,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const queryResult = houseLedgerQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: ERROR_CODES.VALIDATION_ERROR,
+            message: 'Invalid query parameters',
+            details: queryResult.error.errors,
+          },
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const report = await getHouseLedgerReport(queryResult.data);
+
+      const response: ApiResponse<HouseLedgerReport> = {
+        success: true,
+        data: report,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// Rate Limit Endpoints
+// ===========================================
+
+/**
+ * GET /api/v1/admin/rate-limits
+ * Get rate limit policies and rejection counters.
+ * Counters are per API instance, since process start.
+ *
+ * Auth: Required (VIEWER)
+ * Response: 200 with policies and metrics
+ */
+router.get(
+  '/rate-limits',
+  requireAuth,
+  requireViewer,
+  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const metrics = getRateLimitMetrics();
+
+      const response: ApiResponse<{
+        policies: typeof RATE_LIMIT_POLICIES;
+        metrics: typeof metrics;
+      }> = {
+        success: true,
+        data: {
+          policies: RATE_LIMIT_POLICIES,
+          metrics,
         },
         meta: {
           timestamp: new Date().toISOString(),
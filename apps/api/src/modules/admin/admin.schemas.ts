@@ -5,6 +5,7 @@
 // Zod schemas for admin API request validation.
 
 import { z } from 'zod';
+import { Rank, SeasonStatus } from '@prisma/client';
 import { SETTLEMENT_EDGE_CASE_CONSTANTS } from '../../services/settlement/settlement-edge-cases.types';
 
 const { MIN_JUSTIFICATION_LENGTH, MAX_JUSTIFICATION_LENGTH } = SETTLEMENT_EDGE_CASE_CONSTANTS;
@@ -92,6 +93,368 @@ export const pendingSettlementsQuerySchema = z.object({
     .pipe(z.number().int().min(1).max(100)),
 });
 
+// ===========================================
+// Dispute Schemas
+// ===========================================
+
+/**
+ * Schema for the admin dispute queue query.
+ * Without a status filter, only open (pending/reviewing) disputes are returned.
+ */
+export const disputeQueueQuerySchema = z.object({
+  status: z.enum(['pending', 'reviewing', 'resolved', 'rejected']).optional(),
+  priority: z
+    .string()
+    .optional()
+    .transform((val) => (val === undefined ? undefined : parseInt(val, 10)))
+    .pipe(z.number().int().min(0).max(2).optional()),
+  assignedTo: z.string().uuid('Invalid assignee ID format').optional(),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '1', 10))
+    .pipe(z.number().int().min(1)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => Math.min(parseInt(val || '20', 10), 100))
+    .pipe(z.number().int().min(1).max(100)),
+});
+
+/**
+ * Schema for assigning a dispute.
+ * Defaults to the requesting admin when assigneeId is omitted.
+ */
+export const assignDisputeSchema = z.object({
+  assigneeId: z.string().uuid('Invalid assignee ID format').optional(),
+});
+
+/**
+ * Schema for resolving a dispute.
+ * - rejected: original result stands
+ * - upheld/partial: re-settle to winnerId, or void and refund if omitted
+ */
+export const resolveDisputeSchema = z.object({
+  resolutionType: z.enum(['upheld', 'rejected', 'partial'], {
+    errorMap: () => ({ message: 'Invalid resolution type. Must be upheld, rejected, or partial' }),
+  }),
+  winnerId: z
+    .string()
+    .uuid('Invalid winner ID format')
+    .optional()
+    .nullable(),
+  resolution: z
+    .string()
+    .min(MIN_JUSTIFICATION_LENGTH, `Resolution must be at least ${MIN_JUSTIFICATION_LENGTH} characters for audit purposes`)
+    .max(MAX_JUSTIFICATION_LENGTH, `Resolution cannot exceed ${MAX_JUSTIFICATION_LENGTH} characters`),
+}).refine(
+  (data) => !(data.resolutionType === 'rejected' && data.winnerId),
+  {
+    message: 'winnerId cannot be set when rejecting a dispute',
+    path: ['winnerId'],
+  }
+);
+
+// ===========================================
+// User Management Schemas
+// ===========================================
+
+const auditReasonSchema = z
+  .string()
+  .min(MIN_JUSTIFICATION_LENGTH, `Reason must be at least ${MIN_JUSTIFICATION_LENGTH} characters for audit purposes`)
+  .max(MAX_JUSTIFICATION_LENGTH, `Reason cannot exceed ${MAX_JUSTIFICATION_LENGTH} characters`);
+
+/**
+ * Schema for the admin user search query.
+ * search matches email, username or display name (or an exact user ID).
+ */
+export const userSearchQuerySchema = z.object({
+  search: z.string().trim().max(100).optional(),
+  status: z.enum(['active', 'suspended', 'banned', 'pending_verification']).optional(),
+  adminRole: z.enum(['SUPER_ADMIN', 'SETTLEMENT_ADMIN', 'SUPPORT_ADMIN', 'VIEWER']).optional(),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '1', 10))
+    .pipe(z.number().int().min(1)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => Math.min(parseInt(val || '20', 10), 100))
+    .pipe(z.number().int().min(1).max(100)),
+});
+
+/**
+ * Schema for suspending, banning or reinstating an account.
+ * expiresAt is optional (permanent until reinstated) and only valid
+ * for suspended/banned.
+ */
+export const userStatusSchema = z.object({
+  status: z.enum(['active', 'suspended', 'banned'], {
+    errorMap: () => ({ message: 'Invalid status. Must be active, suspended, or banned' }),
+  }),
+  reason: auditReasonSchema,
+  expiresAt: z
+    .string()
+    .datetime({ message: 'expiresAt must be an ISO 8601 date' })
+    .transform((val) => new Date(val))
+    .optional()
+    .nullable(),
+}).refine(
+  (data) => !(data.status === 'active' && data.expiresAt),
+  {
+    message: 'expiresAt can only be set when suspending or banning',
+    path: ['expiresAt'],
+  }
+).refine(
+  (data) => !data.expiresAt || data.expiresAt > new Date(),
+  {
+    message: 'expiresAt must be in the future',
+    path: ['expiresAt'],
+  }
+);
+
+/**
+ * Schema for granting or revoking an admin role.
+ * role: null revokes admin access.
+ */
+export const adminRoleSchema = z.object({
+  role: z
+    .enum(['SUPER_ADMIN', 'SETTLEMENT_ADMIN', 'SUPPORT_ADMIN', 'VIEWER'], {
+      errorMap: () => ({ message: 'Invalid role. Must be SUPER_ADMIN, SETTLEMENT_ADMIN, SUPPORT_ADMIN, VIEWER, or null' }),
+    })
+    .nullable(),
+  reason: auditReasonSchema,
+});
+
+/**
+ * Schema for a manual wallet credit/debit.
+ * amount is in cents.
+ */
+export const walletAdjustmentSchema = z.object({
+  direction: z.enum(['credit', 'debit'], {
+    errorMap: () => ({ message: 'Invalid direction. Must be credit or debit' }),
+  }),
+  amount: z.number().int('Amount must be a whole number of cents').positive('Amount must be positive'),
+  balance: z.enum(['paid', 'bonus']).default('paid'),
+  reason: auditReasonSchema,
+  idempotencyKey: z.string().min(1).max(100).optional(),
+});
+
+/**
+ * Schema for freezing or unfreezing a wallet under investigation.
+ */
+export const walletFreezeSchema = z.object({
+  frozen: z.boolean({ required_error: 'frozen is required' }),
+  reason: auditReasonSchema,
+});
+
+// ===========================================
+// Wallet Reconciliation Schemas
+// ===========================================
+
+/**
+ * Schema for the wallet discrepancy review query.
+ */
+export const walletDiscrepancyQuerySchema = z.object({
+  status: z.enum(['OPEN', 'RESOLVED', 'DISMISSED']).optional().default('OPEN'),
+  type: z.enum(['BALANCE_MISMATCH', 'COUNTER_MISMATCH', 'BROKEN_CHAIN', 'ORPHANED_TRANSACTION']).optional(),
+  userId: z.string().uuid('Invalid user ID format').optional(),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '1', 10))
+    .pipe(z.number().int().min(1)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => Math.min(parseInt(val || '50', 10), 100))
+    .pipe(z.number().int().min(1).max(100)),
+});
+
+/**
+ * Schema for closing a wallet discrepancy.
+ */
+export const resolveWalletDiscrepancySchema = z.object({
+  status: z.enum(['RESOLVED', 'DISMISSED'], {
+    errorMap: () => ({ message: 'Invalid status. Must be RESOLVED or DISMISSED' }),
+  }),
+  note: auditReasonSchema,
+});
+
+// ===========================================
+// Season Schemas
+// ===========================================
+
+/**
+ * One reward bracket: players whose final rank is between minRank and
+ * maxRank (inclusive) receive coinReward. The service rejects inverted
+ * or overlapping brackets.
+ */
+const seasonRewardBracketSchema = z.object({
+  minRank: z.nativeEnum(Rank),
+  maxRank: z.nativeEnum(Rank),
+  coinReward: z
+    .number()
+    .int('Coin reward must be an integer')
+    .min(1, 'Coin reward must be positive')
+    .max(1000000, 'Coin reward cannot exceed 1,000,000'),
+  description: z.string().trim().max(200).optional().nullable(),
+});
+
+const seasonRewardTableSchema = z
+  .array(seasonRewardBracketSchema)
+  .max(15, 'A season cannot have more than 15 reward brackets');
+
+/**
+ * Schema for the admin season list query.
+ */
+export const seasonListQuerySchema = z.object({
+  status: z.nativeEnum(SeasonStatus).optional(),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '1', 10))
+    .pipe(z.number().int().min(1)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => Math.min(parseInt(val || '20', 10), 100))
+    .pipe(z.number().int().min(1).max(100)),
+});
+
+/**
+ * Schema for scheduling a season.
+ * The slug also names the seasonal leaderboard (season-<slug>).
+ */
+export const createSeasonSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(3, 'Season name must be at least 3 characters')
+    .max(80, 'Season name cannot exceed 80 characters'),
+  slug: z
+    .string()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug must be lowercase letters, numbers and dashes')
+    .max(60, 'Slug cannot exceed 60 characters'),
+  startDate: z
+    .string()
+    .datetime({ message: 'startDate must be an ISO 8601 date' })
+    .transform((val) => new Date(val)),
+  endDate: z
+    .string()
+    .datetime({ message: 'endDate must be an ISO 8601 date' })
+    .transform((val) => new Date(val)),
+  rewards: seasonRewardTableSchema.optional().default([]),
+}).refine(
+  (data) => data.endDate > data.startDate,
+  {
+    message: 'endDate must be after startDate',
+    path: ['endDate'],
+  }
+).refine(
+  (data) => data.startDate > new Date(),
+  {
+    message: 'startDate must be in the future',
+    path: ['startDate'],
+  }
+);
+
+/**
+ * Schema for replacing a season's reward table.
+ */
+export const seasonRewardsSchema = z.object({
+  rewards: seasonRewardTableSchema,
+  reason: auditReasonSchema,
+});
+
+/**
+ * Schema for extending a season's end date.
+ */
+export const extendSeasonSchema = z.object({
+  endDate: z
+    .string()
+    .datetime({ message: 'endDate must be an ISO 8601 date' })
+    .transform((val) => new Date(val)),
+  reason: auditReasonSchema,
+});
+
+/**
+ * Schema for ending a season early or activating one early.
+ */
+export const seasonTransitionSchema = z.object({
+  reason: auditReasonSchema,
+});
+
+// ===========================================
+// Admin Audit Log Schemas
+// ===========================================
+
+/**
+ * Schema for the system-wide admin audit log query.
+ * format=csv exports every matching entry (capped) instead of a page.
+ */
+export const adminAuditQuerySchema = z.object({
+  actorId: z.string().uuid('Invalid actor ID format').optional(),
+  action: z.string().max(100).optional(),
+  targetType: z.enum(['match', 'event', 'dispute', 'user', 'wallet', 'leaderboard', 'tournament', 'season']).optional(),
+  targetId: z.string().max(100).optional(),
+  from: z
+    .string()
+    .datetime({ message: 'from must be an ISO 8601 date' })
+    .transform((val) => new Date(val))
+    .optional(),
+  to: z
+    .string()
+    .datetime({ message: 'to must be an ISO 8601 date' })
+    .transform((val) => new Date(val))
+    .optional(),
+  format: z.enum(['json', 'csv']).optional().default('json'),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '1', 10))
+    .pipe(z.number().int().min(1)),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => Math.min(parseInt(val || '50', 10), 100))
+    .pipe(z.number().int().min(1).max(100)),
+}).refine(
+  (data) => !(data.from && data.to && data.from > data.to),
+  {
+    message: 'from must be before to',
+    path: ['from'],
+  }
+);
+
+// ===========================================
+// House Ledger Schemas
+// ===========================================
+
+/**
+ * Schema for the house ledger report.
+ * Defaults to the last 30 days; the service caps the range.
+ */
+export const houseLedgerQuerySchema = z.object({
+  from: z
+    .string()
+    .datetime({ message: 'from must be an ISO 8601 date' })
+    .transform((val) => new Date(val))
+    .optional(),
+  to: z
+    .string()
+    .datetime({ message: 'to must be an ISO 8601 date' })
+    .transform((val) => new Date(val))
+    .optional(),
+}).refine(
+  (data) => !(data.from && data.to && data.from > data.to),
+  {
+    message: 'from must be before to',
+    path: ['from'],
+  }
+);
+
 // ===========================================
 // TypeScript Types
 // ===========================================
@@ -100,3 +463,20 @@ export type ManualSettlementInput = z.infer<typeof manualSettlementSchema>;
 export type CancelEventInput = z.infer<typeof cancelEventSchema>;
 export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
 export type PendingSettlementsQuery = z.infer<typeof pendingSettlementsQuerySchema>;
+export type DisputeQueueQuery = z.infer<typeof disputeQueueQuerySchema>;
+export type AssignDisputeInput = z.infer<typeof assignDisputeSchema>;
+export type ResolveDisputeInput = z.infer<typeof resolveDisputeSchema>;
+export type UserSearchQuery = z.infer<typeof userSearchQuerySchema>;
+export type UserStatusInput = z.infer<typeof userStatusSchema>;
+export type AdminRoleInput = z.infer<typeof adminRoleSchema>;
+export type WalletAdjustmentInput = z.infer<typeof walletAdjustmentSchema>;
+export type AdminAuditQueryInput = z.infer<typeof adminAuditQuerySchema>;
+export type WalletFreezeInput = z.infer<typeof walletFreezeSchema>;
+export type WalletDiscrepancyQueryInput = z.infer<typeof walletDiscrepancyQuerySchema>;
+export type ResolveWalletDiscrepancyInput = z.infer<typeof resolveWalletDiscrepancySchema>;
+export type SeasonListQuery = z.infer<typeof seasonListQuerySchema>;
+export type CreateSeasonInput = z.infer<typeof createSeasonSchema>;
+export type SeasonRewardsInput = z.infer<typeof seasonRewardsSchema>;
+export type ExtendSeasonInput = z.infer<typeof extendSeasonSchema>;
+export type SeasonTransitionInput = z.infer<typeof seasonTransitionSchema>;
+export type HouseLedgerQueryInput = z.infer<typeof houseLedgerQuerySchema>;
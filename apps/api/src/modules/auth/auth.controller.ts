@@ -12,12 +12,21 @@ import {
   refreshTokenSchema,
   checkUsernameSchema,
   pushTokenSchema,
+  verifyEmailSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
   validateInput,
 } from './auth.schemas';
 import * as authService from './auth.service';
 import { BadRequestError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
-import { usernameCheckRateLimiter, requireAuth } from '../../middleware';
+import {
+  usernameCheckRateLimiter,
+  authRateLimiter,
+  passwordResetRateLimiter,
+  requireAuth,
+  getAuthenticatedUser,
+} from '../../middleware';
 import { prisma } from '../../lib/prisma';
 
 const router: Router = Router();
@@ -67,7 +76,10 @@ router.post(
       logger.info('✅ Validation passed, creating user...');
 
       // Call service
-      const result = await authService.register(validation.data);
+      const result = await authService.register(validation.data, {
+        ipAddress: req.ip,
+        deviceId: req.get('x-device-id')?.substring(0, 255),
+      });
 
       // Format response
       const response: ApiResponse<AuthResponse> = {
@@ -323,4 +335,158 @@ router.post(
   }
 );
 
+// ===========================================
+// POST /auth/verify-email
+// ===========================================
+// Public endpoint - the signed token identifies the user.
+
+router.post(
+  '/verify-email',
+  authRateLimiter,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const validation = validateInput(verifyEmailSchema, req.body);
+
+      if (!validation.success || !validation.data) {
+        throw new BadRequestError(
+          formatValidationErrors(validation.errors || []),
+          ERROR_CODES.VALIDATION_ERROR
+        );
+      }
+
+      const result = await authService.verifyEmail(validation.data.token);
+
+      const response: ApiResponse<{ email: string; verifiedAt: string }> = {
+        success: true,
+        data: {
+          email: result.email,
+          verifiedAt: result.verifiedAt.toISOString(),
+        },
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// POST /auth/resend-verification
+// ===========================================
+// Protected endpoint - requires authentication.
+
+router.post(
+  '/resend-verification',
+  requireAuth,
+  passwordResetRateLimiter,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+
+      await authService.sendVerificationEmail(user.id);
+
+      const response: ApiResponse<{ message: string }> = {
+        success: true,
+        data: { message: 'Verification email sent' },
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// POST /auth/forgot-password
+// ===========================================
+// Public endpoint. Always returns 200 OK with the same message
+// whether or not the email is registered, to prevent enumeration.
+
+router.post(
+  '/forgot-password',
+  passwordResetRateLimiter,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const validation = validateInput(forgotPasswordSchema, req.body);
+
+      if (!validation.success || !validation.data) {
+        throw new BadRequestError(
+          formatValidationErrors(validation.errors || []),
+          ERROR_CODES.VALIDATION_ERROR
+        );
+      }
+
+      try {
+        await authService.requestPasswordReset(validation.data.email);
+      } catch (error) {
+        // Mail failures must not reveal that the account exists
+        logger.error('Error sending password reset email:', error);
+      }
+
+      const response: ApiResponse<{ message: string }> = {
+        success: true,
+        data: {
+          message: 'If an account exists for that email, a reset link has been sent',
+        },
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// POST /auth/reset-password
+// ===========================================
+// Public endpoint - the signed token identifies the user.
+// Revokes all refresh tokens on success.
+
+router.post(
+  '/reset-password',
+  authRateLimiter,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const validation = validateInput(resetPasswordSchema, req.body);
+
+      if (!validation.success || !validation.data) {
+        throw new BadRequestError(
+          formatValidationErrors(validation.errors || []),
+          ERROR_CODES.VALIDATION_ERROR
+        );
+      }
+
+      await authService.resetPassword(validation.data);
+
+      const response: ApiResponse<{ message: string }> = {
+        success: true,
+        data: { message: 'Password has been reset. Please log in again.' },
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
@@ -15,6 +15,33 @@ const PASSWORD_MAX_LENGTH = 128;
 const USERNAME_MIN_LENGTH = 3;
 const USERNAME_MAX_LENGTH = 30;
 const USERNAME_PATTERN = /^[a-zA-Z0-9_]+$/;
+const REFERRAL_CODE_PATTERN = /^[A-Z0-9]{4,16}$/;
+
+// ===========================================
+// Password Rules
+// ===========================================
+// Shared by registration and password reset.
+
+const passwordSchema = z
+  .string()
+  .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  .max(PASSWORD_MAX_LENGTH, `Password cannot exceed ${PASSWORD_MAX_LENGTH} characters`)
+  .refine(
+    (password) => /[A-Z]/.test(password),
+    'Password must contain at least one uppercase letter'
+  )
+  .refine(
+    (password) => /[a-z]/.test(password),
+    'Password must contain at least one lowercase letter'
+  )
+  .refine(
+    (password) => /[0-9]/.test(password),
+    'Password must contain at least one number'
+  )
+  .refine(
+    (password) => /[!@#$%^&*(),.?":{}|<>]/.test(password),
+    'Password must contain at least one special character'
+  );
 
 // ===========================================
 // Register Schema
@@ -38,26 +65,14 @@ export const registerSchema = z.object({
       'Username can only contain letters, numbers, and underscores'
     ),
 
-  password: z
+  password: passwordSchema,
+
+  referralCode: z
     .string()
-    .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
-    .max(PASSWORD_MAX_LENGTH, `Password cannot exceed ${PASSWORD_MAX_LENGTH} characters`)
-    .refine(
-      (password) => /[A-Z]/.test(password),
-      'Password must contain at least one uppercase letter'
-    )
-    .refine(
-      (password) => /[a-z]/.test(password),
-      'Password must contain at least one lowercase letter'
-    )
-    .refine(
-      (password) => /[0-9]/.test(password),
-      'Password must contain at least one number'
-    )
-    .refine(
-      (password) => /[!@#$%^&*(),.?":{}|<>]/.test(password),
-      'Password must contain at least one special character'
-    ),
+    .trim()
+    .toUpperCase()
+    .regex(REFERRAL_CODE_PATTERN, 'Invalid referral code')
+    .optional(),
 });
 
 export type RegisterInput = z.infer<typeof registerSchema>;
@@ -129,6 +144,46 @@ export const pushTokenSchema = z.object({
 
 export type PushTokenInput = z.infer<typeof pushTokenSchema>;
 
+// ===========================================
+// Email Verification Schema
+// ===========================================
+
+export const verifyEmailSchema = z.object({
+  token: z
+    .string()
+    .min(1, 'Verification token is required'),
+});
+
+export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
+
+// ===========================================
+// Forgot Password Schema
+// ===========================================
+
+export const forgotPasswordSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .email('Invalid email format'),
+});
+
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+
+// ===========================================
+// Reset Password Schema
+// ===========================================
+
+export const resetPasswordSchema = z.object({
+  token: z
+    .string()
+    .min(1, 'Reset token is required'),
+
+  password: passwordSchema,
+});
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+
 // ===========================================
 // Validation Helper
 // ===========================================
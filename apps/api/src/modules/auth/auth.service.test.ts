@@ -7,6 +7,62 @@
 // These tests verify constants and document expected behavior.
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import jwt from 'jsonwebtoken';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  userFindUnique: vi.fn(),
+  userUpdate: vi.fn(),
+  userUpdateMany: vi.fn(),
+  userAuditLogCreate: vi.fn(),
+  refreshTokenUpdateMany: vi.fn(),
+  transaction: vi.fn(),
+  send: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: mocks.userFindUnique,
+      update: mocks.userUpdate,
+      updateMany: mocks.userUpdateMany,
+    },
+    userAuditLog: { create: mocks.userAuditLogCreate },
+    refreshToken: { updateMany: mocks.refreshTokenUpdateMany },
+    $transaction: mocks.transaction,
+  },
+}));
+
+// Skip real hashing - 12 bcrypt rounds per test is slow
+vi.mock('bcrypt', () => ({
+  default: { hash: async (value: string) => `hashed:${value}` },
+}));
+
+vi.mock('../../services/mail', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../services/mail')>()),
+  getMailer: () => ({ name: 'test', send: mocks.send }),
+}));
+
+import {
+  verifyEmail,
+  requestPasswordReset,
+  resetPassword,
+  assertAccountActive,
+} from './auth.service';
+import { config } from '../../config';
+
+/**
+ * Pull the signed token out of the link in the last sent email.
+ */
+function tokenFromLastEmail(): string {
+  const message = mocks.send.mock.calls[mocks.send.mock.calls.length - 1][0];
+  const match = /token=([^\s]+)/.exec(message.text);
+  return decodeURIComponent(match![1]);
+}
 
 // ===========================================
 // Constants Tests
@@ -56,6 +112,210 @@ describe('Starter Coins Integration Tests (Specifications)', () => {
   });
 });
 
+// ===========================================
+// Email Verification Tests
+// ===========================================
+
+describe('verifyEmail', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  function signVerification(payload: object, expiresIn: string = '1h'): string {
+    return jwt.sign(payload, config.emailTokens.verificationSecret, {
+      expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+    });
+  }
+
+  it('should verify the email and activate a pending account', async () => {
+    mocks.userFindUnique.mockResolvedValue({
+      id: 'user-1',
+      email: 'a@example.com',
+      status: 'pending_verification',
+      emailVerified: false,
+      emailVerifiedAt: null,
+    });
+
+    const token = signVerification({ sub: 'user-1', email: 'a@example.com', type: 'email_verification' });
+    const result = await verifyEmail(token);
+
+    expect(result.email).toBe('a@example.com');
+    expect(mocks.userUpdate).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: expect.objectContaining({ emailVerified: true, status: 'active' }),
+    });
+  });
+
+  it('should not change status of a suspended account', async () => {
+    mocks.userFindUnique.mockResolvedValue({
+      id: 'user-1',
+      email: 'a@example.com',
+      status: 'suspended',
+      emailVerified: false,
+      emailVerifiedAt: null,
+    });
+
+    const token = signVerification({ sub: 'user-1', email: 'a@example.com', type: 'email_verification' });
+    await verifyEmail(token);
+
+    expect(mocks.userUpdate.mock.calls[0][0].data.status).toBeUndefined();
+  });
+
+  it('should reject a token issued for a previous email address', async () => {
+    mocks.userFindUnique.mockResolvedValue({
+      id: 'user-1',
+      email: 'new@example.com',
+      status: 'pending_verification',
+      emailVerified: false,
+      emailVerifiedAt: null,
+    });
+
+    const token = signVerification({ sub: 'user-1', email: 'old@example.com', type: 'email_verification' });
+
+    await expect(verifyEmail(token)).rejects.toMatchObject({ code: ERROR_CODES.TOKEN_INVALID });
+  });
+
+  it('should reject an expired token', async () => {
+    const token = signVerification(
+      { sub: 'user-1', email: 'a@example.com', type: 'email_verification' },
+      '-1s'
+    );
+
+    await expect(verifyEmail(token)).rejects.toMatchObject({ code: ERROR_CODES.TOKEN_EXPIRED });
+  });
+
+  it('should reject a password reset token', async () => {
+    const token = jwt.sign(
+      { sub: 'user-1', email: 'a@example.com', type: 'password_reset' },
+      config.emailTokens.verificationSecret
+    );
+
+    await expect(verifyEmail(token)).rejects.toMatchObject({ code: ERROR_CODES.TOKEN_INVALID });
+  });
+});
+
+// ===========================================
+// Password Reset Tests
+// ===========================================
+
+describe('Password Reset', () => {
+  const user = {
+    id: 'user-1',
+    email: 'a@example.com',
+    username: 'alice',
+    passwordHash: '$2b$12$existinghash',
+    status: 'active',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.transaction.mockResolvedValue([]);
+  });
+
+  it('should not send anything for an unknown email', async () => {
+    mocks.userFindUnique.mockResolvedValue(null);
+
+    await requestPasswordReset('nobody@example.com');
+
+    expect(mocks.send).not.toHaveBeenCalled();
+  });
+
+  it('should email a reset link for a known account', async () => {
+    mocks.userFindUnique.mockResolvedValue(user);
+
+    await requestPasswordReset(user.email);
+
+    expect(mocks.send).toHaveBeenCalledTimes(1);
+    expect(mocks.send.mock.calls[0][0].to).toBe(user.email);
+  });
+
+  it('should update the password and revoke all refresh tokens', async () => {
+    mocks.userFindUnique.mockResolvedValue(user);
+    await requestPasswordReset(user.email);
+    const token = tokenFromLastEmail();
+
+    await resetPassword({ token, password: 'NewPassword1!' });
+
+    expect(mocks.transaction).toHaveBeenCalledTimes(1);
+    expect(mocks.refreshTokenUpdateMany).toHaveBeenCalledWith({
+      where: { userId: user.id, revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+    const update = mocks.userUpdate.mock.calls[0][0];
+    expect(update.data.passwordHash).not.toBe(user.passwordHash);
+  });
+
+  it('should reject a reset token once the password has changed', async () => {
+    mocks.userFindUnique.mockResolvedValue(user);
+    await requestPasswordReset(user.email);
+    const token = tokenFromLastEmail();
+
+    mocks.userFindUnique.mockResolvedValue({ ...user, passwordHash: '$2b$12$changedhash' });
+
+    await expect(resetPassword({ token, password: 'NewPassword1!' })).rejects.toMatchObject({
+      code: ERROR_CODES.TOKEN_INVALID,
+    });
+    expect(mocks.transaction).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// Account Status Tests
+// ===========================================
+
+describe('assertAccountActive', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.userUpdateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should allow active and pending accounts', async () => {
+    await expect(
+      assertAccountActive({ id: 'user-1', status: 'active', statusExpiresAt: null })
+    ).resolves.toBeUndefined();
+    await expect(
+      assertAccountActive({ id: 'user-1', status: 'pending_verification', statusExpiresAt: null })
+    ).resolves.toBeUndefined();
+  });
+
+  it('should reject a suspended account with its expiry', async () => {
+    const statusExpiresAt = new Date(Date.now() + 60 * 60 * 1000);
+
+    await expect(
+      assertAccountActive({ id: 'user-1', status: 'suspended', statusExpiresAt })
+    ).rejects.toMatchObject({
+      statusCode: 403,
+      code: ERROR_CODES.ACCOUNT_SUSPENDED,
+      message: `Account is suspended until ${statusExpiresAt.toISOString()}`,
+    });
+  });
+
+  it('should reject a permanently banned account', async () => {
+    await expect(
+      assertAccountActive({ id: 'user-1', status: 'banned', statusExpiresAt: null })
+    ).rejects.toMatchObject({ code: ERROR_CODES.ACCOUNT_BANNED });
+  });
+
+  it('should lift an expired restriction once and audit it', async () => {
+    const statusExpiresAt = new Date(Date.now() - 1000);
+
+    await assertAccountActive({ id: 'user-1', status: 'suspended', statusExpiresAt });
+
+    expect(mocks.userUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'user-1', status: 'suspended', statusExpiresAt: { lte: expect.any(Date) } },
+      data: expect.objectContaining({ status: 'active', statusChangedBy: 'SYSTEM' }),
+    });
+    expect(mocks.userAuditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: 'user-1', action: 'STATUS_EXPIRED' }),
+    });
+
+    // A concurrent request that lost the race doesn't audit again
+    mocks.userUpdateMany.mockResolvedValue({ count: 0 });
+    await assertAccountActive({ id: 'user-1', status: 'suspended', statusExpiresAt });
+    expect(mocks.userAuditLogCreate).toHaveBeenCalledTimes(1);
+  });
+});
+
 // ===========================================
 // Manual Verification Steps
 // ===========================================
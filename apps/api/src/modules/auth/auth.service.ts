@@ -10,13 +10,27 @@ import crypto from 'crypto';
 import { prisma } from '../../lib/prisma';
 import { config } from '../../config';
 import { logger } from '../../utils/logger';
+import { UserStatus } from '@prisma/client';
 import {
   BadRequestError,
   UnauthorizedError,
   ConflictError,
+  NotFoundError,
+  ForbiddenError,
 } from '../../utils/errors';
 import { ERROR_CODES } from '@pick-rivals/shared-types';
-import type { RegisterInput, LoginInput } from './auth.schemas';
+import {
+  getMailer,
+  buildVerificationEmail,
+  buildPasswordResetEmail,
+} from '../../services/mail';
+import {
+  resolveReferrer,
+  generateUniqueReferralCode,
+  type ReferralContext,
+} from '../../lib/referral.service';
+import { postHouseEntry, getHouseIdempotencyKey } from '../../lib/wallet.service';
+import type { RegisterInput, LoginInput, ResetPasswordInput } from './auth.schemas';
 
 // ===========================================
 // Types
@@ -54,6 +68,17 @@ interface JwtPayload {
   exp?: number;
 }
 
+interface EmailTokenPayload {
+  sub: string;
+  email: string;
+  type: 'email_verification' | 'password_reset';
+  // Password reset only: fingerprint of the password hash the token was issued
+  // against. Changing the password invalidates every outstanding reset token.
+  pwd?: string;
+  iat?: number;
+  exp?: number;
+}
+
 // ===========================================
 // Constants
 // ===========================================
@@ -103,11 +128,132 @@ function hashToken(token: string): string {
   return crypto.createHash('sha256').update(token).digest('hex');
 }
 
+function passwordFingerprint(passwordHash: string): string {
+  return hashToken(passwordHash).substring(0, 16);
+}
+
+function generateVerificationToken(userId: string, email: string): string {
+  const payload: EmailTokenPayload = { sub: userId, email, type: 'email_verification' };
+
+  return jwt.sign(payload, config.emailTokens.verificationSecret, {
+    expiresIn: config.emailTokens.verificationExpiresIn as jwt.SignOptions['expiresIn'],
+  });
+}
+
+function generatePasswordResetToken(userId: string, email: string, passwordHash: string): string {
+  const payload: EmailTokenPayload = {
+    sub: userId,
+    email,
+    type: 'password_reset',
+    pwd: passwordFingerprint(passwordHash),
+  };
+
+  return jwt.sign(payload, config.emailTokens.passwordResetSecret, {
+    expiresIn: config.emailTokens.passwordResetExpiresIn as jwt.SignOptions['expiresIn'],
+  });
+}
+
+/**
+ * Verify an email verification or password reset token.
+ * @throws BadRequestError with TOKEN_EXPIRED or TOKEN_INVALID
+ */
+function verifyEmailToken(
+  token: string,
+  secret: string,
+  type: EmailTokenPayload['type']
+): EmailTokenPayload {
+  let payload: EmailTokenPayload;
+  try {
+    payload = jwt.verify(token, secret) as EmailTokenPayload;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new BadRequestError('Link has expired', ERROR_CODES.TOKEN_EXPIRED);
+    }
+    throw new BadRequestError('Invalid link', ERROR_CODES.TOKEN_INVALID);
+  }
+
+  if (payload.type !== type) {
+    throw new BadRequestError('Invalid link', ERROR_CODES.TOKEN_INVALID);
+  }
+
+  return payload;
+}
+
 function bigIntToNumber(value: bigint): number {
   // Safe conversion for wallet balances (stored in cents/smallest unit)
   return Number(value);
 }
 
+// ===========================================
+// Account Status
+// ===========================================
+
+/**
+ * Account fields needed to enforce moderation status.
+ */
+export interface AccountStatusFields {
+  id: string;
+  status: UserStatus;
+  statusExpiresAt: Date | null;
+}
+
+/**
+ * Reactivates an account whose suspension/ban has expired.
+ * Conditional on the restriction still being in place, so concurrent
+ * requests only lift (and audit) it once.
+ */
+async function liftExpiredRestriction(user: AccountStatusFields): Promise<void> {
+  const now = new Date();
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: user.id, status: user.status, statusExpiresAt: { lte: now } },
+    data: {
+      status: 'active',
+      statusReason: null,
+      statusExpiresAt: null,
+      statusChangedAt: now,
+      statusChangedBy: 'SYSTEM',
+    },
+  });
+
+  if (count > 0) {
+    await prisma.userAuditLog.create({
+      data: {
+        userId: user.id,
+        action: 'STATUS_EXPIRED',
+        performedBy: 'SYSTEM',
+        previousState: { status: user.status, statusExpiresAt: user.statusExpiresAt?.toISOString() },
+        newState: { status: 'active' },
+      },
+    });
+    logger.info(`${user.status} expired for user ${user.id} - account reactivated`);
+  }
+}
+
+/**
+ * Enforces suspensions and bans. Expired restrictions are lifted here
+ * rather than by a scheduled job.
+ * @throws ForbiddenError (ACCOUNT_SUSPENDED / ACCOUNT_BANNED)
+ */
+export async function assertAccountActive(user: AccountStatusFields): Promise<void> {
+  if (user.status !== 'suspended' && user.status !== 'banned') {
+    return;
+  }
+
+  if (user.statusExpiresAt && user.statusExpiresAt <= new Date()) {
+    await liftExpiredRestriction(user);
+    return;
+  }
+
+  const until = user.statusExpiresAt ? ` until ${user.statusExpiresAt.toISOString()}` : '';
+
+  if (user.status === 'banned') {
+    throw new ForbiddenError(`Account has been banned${until}`, ERROR_CODES.ACCOUNT_BANNED);
+  }
+
+  throw new ForbiddenError(`Account is suspended${until}`, ERROR_CODES.ACCOUNT_SUSPENDED);
+}
+
 // ===========================================
 // Auth Service Functions
 // ===========================================
@@ -115,8 +261,13 @@ function bigIntToNumber(value: bigint): number {
 /**
  * Register a new user with atomic User + Wallet creation.
  * CRITICAL: If wallet creation fails, user creation is rolled back.
+ *
+ * @param context - Request IP and device ID, used for referral anti-abuse checks
  */
-export async function register(input: RegisterInput): Promise<AuthResult> {
+export async function register(
+  input: RegisterInput,
+  context: ReferralContext = {}
+): Promise<AuthResult> {
   const { email, username, password } = input;
 
   // Check for existing email
@@ -145,6 +296,12 @@ export async function register(input: RegisterInput): Promise<AuthResult> {
     );
   }
 
+  // Resolve referral before any writes - an unknown code fails registration
+  const referredById = input.referralCode
+    ? await resolveReferrer(input.referralCode, { email, ...context })
+    : null;
+  const referralCode = await generateUniqueReferralCode();
+
   // Hash password
   const passwordHash = await bcrypt.hash(password, BCRYPT_ROUNDS);
 
@@ -158,6 +315,10 @@ export async function register(input: RegisterInput): Promise<AuthResult> {
         username,
         passwordHash,
         status: 'pending_verification',
+        referralCode,
+        referredById,
+        registrationIp: context.ipAddress,
+        deviceId: context.deviceId,
       },
       select: {
         id: true,
@@ -182,7 +343,8 @@ export async function register(input: RegisterInput): Promise<AuthResult> {
     // Task 0.4: Record starter credit transaction for audit trail
     // This uses idempotencyKey to prevent double-credit (though user creation
     // uniqueness already prevents this, belt-and-suspenders approach)
-    await tx.transaction.create({
+    const starterIdempotencyKey = `STARTER_CREDIT-${user.id}`;
+    const starterTransaction = await tx.transaction.create({
       data: {
         walletId: wallet.id,
         userId: user.id,
@@ -193,12 +355,23 @@ export async function register(input: RegisterInput): Promise<AuthResult> {
         bonusAmount: starterCoinsAmount,
         balanceBefore: BigInt(0),
         balanceAfter: starterCoinsAmount,
-        idempotencyKey: `STARTER_CREDIT-${user.id}`,
+        idempotencyKey: starterIdempotencyKey,
         description: 'Welcome bonus: starter coins on registration',
         completedAt: new Date(),
       },
     });
 
+    // Starter coins are minted: back them with a house debit
+    await postHouseEntry(tx, {
+      amount: starterCoinsAmount,
+      direction: 'debit',
+      type: 'STARTER_CREDIT',
+      idempotencyKey: getHouseIdempotencyKey(starterIdempotencyKey),
+      counterpartyUserId: user.id,
+      description: 'Starter coins funding',
+      metadata: { userTransactionId: starterTransaction.id },
+    });
+
     // Generate tokens
     const tokens = generateTokenPair(user.id, user.email);
 
@@ -229,6 +402,14 @@ export async function register(input: RegisterInput): Promise<AuthResult> {
     };
   });
 
+  // Outside the transaction - a mail failure must not roll back registration.
+  // The user can request a new link via /auth/resend-verification.
+  try {
+    await sendVerificationEmail(result.user.id);
+  } catch (error) {
+    logger.error(`Failed to send verification email to user ${result.user.id}:`, error);
+  }
+
   return result;
 }
 
@@ -265,19 +446,7 @@ export async function login(input: LoginInput): Promise<AuthResult> {
   }
 
   // Check user status
-  if (user.status === 'banned') {
-    throw new UnauthorizedError(
-      'Account has been banned',
-      ERROR_CODES.FORBIDDEN
-    );
-  }
-
-  if (user.status === 'suspended') {
-    throw new UnauthorizedError(
-      'Account is suspended',
-      ERROR_CODES.FORBIDDEN
-    );
-  }
+  await assertAccountActive(user);
 
   // Generate tokens
   const tokens = generateTokenPair(user.id, user.email);
@@ -381,6 +550,9 @@ export async function refreshTokens(refreshToken: string): Promise<TokenPair> {
     throw new UnauthorizedError('Refresh token expired', ERROR_CODES.TOKEN_EXPIRED);
   }
 
+  // Suspended/banned accounts can't extend their session
+  await assertAccountActive(storedToken.user);
+
   // TOKEN ROTATION: Revoke old token and issue new pair
   const newTokens = generateTokenPair(storedToken.userId, storedToken.user.email);
   const newRefreshTokenExpiry = new Date();
@@ -466,6 +638,7 @@ export async function verifyAccessToken(
       displayName: true,
       avatarUrl: true,
       status: true,
+      statusExpiresAt: true,
     },
   });
 
@@ -473,9 +646,7 @@ export async function verifyAccessToken(
     throw new UnauthorizedError('User not found', ERROR_CODES.USER_NOT_FOUND);
   }
 
-  if (user.status === 'banned' || user.status === 'suspended') {
-    throw new UnauthorizedError('Account is not active', ERROR_CODES.FORBIDDEN);
-  }
+  await assertAccountActive(user);
 
   return {
     id: user.id,
@@ -504,3 +675,148 @@ export async function checkUsernameAvailability(username: string): Promise<boole
   // Return true if username is available (no user found)
   return existingUser === null;
 }
+
+
+// ===========================================
+// Email Verification
+// ===========================================
+
+/**
+ * Send (or re-send) the email verification link to a user.
+ * @throws BadRequestError if the email is already verified
+ */
+export async function sendVerificationEmail(userId: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, username: true, emailVerified: true },
+  });
+
+  if (!user) {
+    throw new NotFoundError('User not found', ERROR_CODES.USER_NOT_FOUND);
+  }
+
+  if (user.emailVerified) {
+    throw new BadRequestError('Email is already verified', ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  const token = generateVerificationToken(user.id, user.email);
+  await getMailer().send(buildVerificationEmail(user.email, user.username, token));
+
+  logger.info(`Verification email sent to user: ${user.id}`);
+}
+
+/**
+ * Mark a user's email as verified.
+ * Idempotent: verifying an already verified address succeeds.
+ * Activates accounts still in pending_verification; suspended or
+ * banned accounts keep their status.
+ */
+export async function verifyEmail(token: string): Promise<{ email: string; verifiedAt: Date }> {
+  const payload = verifyEmailToken(
+    token,
+    config.emailTokens.verificationSecret,
+    'email_verification'
+  );
+
+  const user = await prisma.user.findUnique({
+    where: { id: payload.sub },
+    select: { id: true, email: true, status: true, emailVerified: true, emailVerifiedAt: true },
+  });
+
+  // Token was issued for a different address (email changed since)
+  if (!user || user.email !== payload.email) {
+    throw new BadRequestError('Invalid link', ERROR_CODES.TOKEN_INVALID);
+  }
+
+  if (user.emailVerified && user.emailVerifiedAt) {
+    return { email: user.email, verifiedAt: user.emailVerifiedAt };
+  }
+
+  const verifiedAt = new Date();
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      emailVerified: true,
+      emailVerifiedAt: verifiedAt,
+      ...(user.status === 'pending_verification' && { status: 'active' }),
+    },
+  });
+
+  logger.info(`Email verified for user: ${user.id}`);
+
+  return { email: user.email, verifiedAt };
+}
+
+// ===========================================
+// Password Reset
+// ===========================================
+
+/**
+ * Email a password reset link if an account exists for the address.
+ * CRITICAL: Never reveals whether the email is registered - unknown
+ * addresses return normally without sending anything.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true, email: true, username: true, passwordHash: true, status: true },
+  });
+
+  if (!user) {
+    logger.info('Password reset requested for unknown email');
+    return;
+  }
+
+  if (user.status === 'banned') {
+    logger.warn(`Password reset requested for banned user: ${user.id}`);
+    return;
+  }
+
+  const token = generatePasswordResetToken(user.id, user.email, user.passwordHash);
+  await getMailer().send(buildPasswordResetEmail(user.email, user.username, token));
+
+  logger.info(`Password reset email sent to user: ${user.id}`);
+}
+
+/**
+ * Set a new password using a reset token.
+ * Tokens are single-use: the new hash no longer matches the token's
+ * fingerprint. All refresh tokens are revoked so every session must
+ * sign in again with the new password.
+ */
+export async function resetPassword(input: ResetPasswordInput): Promise<void> {
+  const payload = verifyEmailToken(
+    input.token,
+    config.emailTokens.passwordResetSecret,
+    'password_reset'
+  );
+
+  const user = await prisma.user.findUnique({
+    where: { id: payload.sub },
+    select: { id: true, email: true, passwordHash: true },
+  });
+
+  if (
+    !user ||
+    user.email !== payload.email ||
+    payload.pwd !== passwordFingerprint(user.passwordHash)
+  ) {
+    throw new BadRequestError('Invalid link', ERROR_CODES.TOKEN_INVALID);
+  }
+
+  const passwordHash = await bcrypt.hash(input.password, BCRYPT_ROUNDS);
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: { passwordHash },
+    }),
+    prisma.refreshToken.updateMany({
+      where: { userId: user.id, revokedAt: null },
+      data: { revokedAt: now },
+    }),
+  ]);
+
+  logger.info(`Password reset for user: ${user.id} - all sessions revoked`);
+}
@@ -5,10 +5,11 @@
 // All business logic is delegated to events.service.ts
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { ApiResponse, ERROR_CODES } from '@pick-rivals/shared-types';
+import { ApiResponse, ERROR_CODES, EventOddsHistory } from '@pick-rivals/shared-types';
 import {
   validateListEventsQuery,
   validateEventId,
+  validateOddsHistoryQuery,
   EventListItem,
   EventDetails,
 } from './events.schemas';
@@ -251,4 +252,72 @@ router.get(
   }
 );
 
+// ===========================================
+// GET /events/:id/odds-history
+// Line movement for an event, one series per market
+// ===========================================
+
+router.get(
+  '/:id/odds-history',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const requestId = generateRequestId();
+
+      // Validate ID parameter
+      const idValidation = validateEventId({ id: req.params.id });
+
+      if (!idValidation.success || !idValidation.data) {
+        throw new BadRequestError(
+          formatValidationErrors(idValidation.errors || []),
+          ERROR_CODES.VALIDATION_ERROR
+        );
+      }
+
+      // Validate query parameters
+      const queryValidation = validateOddsHistoryQuery(req.query);
+
+      if (!queryValidation.success || !queryValidation.data) {
+        throw new BadRequestError(
+          formatValidationErrors(queryValidation.errors || []),
+          ERROR_CODES.VALIDATION_ERROR
+        );
+      }
+
+      const { id } = idValidation.data;
+      const query = queryValidation.data;
+
+      logger.debug(`[EventsController] Get event odds history request`, {
+        requestId,
+        eventId: id,
+        market: query.market,
+        since: query.since,
+        until: query.until,
+      });
+
+      const history = await eventsService.getEventOddsHistory(id, query);
+
+      if (!history) {
+        throw new NotFoundError(
+          `Event with ID ${id} not found`,
+          ERROR_CODES.EVENT_NOT_FOUND
+        );
+      }
+
+      // Build response
+      const response: ApiResponse<EventOddsHistory> = {
+        success: true,
+        data: history,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId,
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
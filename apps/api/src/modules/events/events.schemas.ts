@@ -93,6 +93,31 @@ export const getEventByIdSchema = z.object({
 
 export type GetEventByIdParams = z.infer<typeof getEventByIdSchema>;
 
+// ===========================================
+// Odds History Query Schema
+// ===========================================
+
+export const oddsHistoryQuerySchema = z.object({
+  market: z
+    .enum(['moneyline', 'spread', 'total', 'prop'])
+    .optional()
+    .describe('Only return this market'),
+
+  since: z
+    .string()
+    .datetime({ message: 'since must be a valid ISO 8601 date string' })
+    .optional()
+    .describe('Only return snapshots captured on or after this time'),
+
+  until: z
+    .string()
+    .datetime({ message: 'until must be a valid ISO 8601 date string' })
+    .optional()
+    .describe('Only return snapshots captured on or before this time'),
+});
+
+export type OddsHistoryQuery = z.infer<typeof oddsHistoryQuerySchema>;
+
 // ===========================================
 // Response Types
 // ===========================================
@@ -225,3 +250,24 @@ export function validateEventId(
     })),
   };
 }
+
+/**
+ * Validate odds history query parameters
+ */
+export function validateOddsHistoryQuery(
+  input: unknown
+): ValidationResult<OddsHistoryQuery> {
+  const result = oddsHistoryQuerySchema.safeParse(input);
+
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    errors: result.error.errors.map((e) => ({
+      path: e.path,
+      message: e.message,
+    })),
+  };
+}
@@ -7,10 +7,18 @@
 import { Prisma, SportType, EventStatus } from '@prisma/client';
 import { prisma } from '../../lib/prisma';
 import { logger } from '../../utils/logger';
+import type {
+  EventOddsHistory,
+  OddsHistoryChanges,
+  OddsHistoryMarket,
+  OddsHistorySeries,
+} from '@pick-rivals/shared-types';
+import { decimalToAmericanOdds } from '../../lib/odds-calculator';
 import {
   ListEventsQuery,
   EventListItem,
   EventDetails,
+  OddsHistoryQuery,
 } from './events.schemas';
 
 // ===========================================
@@ -141,6 +149,39 @@ function parseFullOddsData(raw: Prisma.JsonValue): EventDetails['oddsData'] {
   return parseOddsData(raw);
 }
 
+/**
+ * Convert stored decimal prices to American odds for the API.
+ */
+function toAmericanPrices(prices: Record<string, number>): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const [outcome, decimal] of Object.entries(prices)) {
+    const american = decimalToAmericanOdds(decimal);
+    if (american !== null) {
+      result[outcome] = american;
+    }
+  }
+  return result;
+}
+
+/**
+ * Convert a stored diff to API format (prices in American odds, line as-is).
+ */
+function toAmericanChanges(changes: OddsHistoryChanges | null): OddsHistoryChanges | null {
+  if (!changes) return null;
+
+  const result: OddsHistoryChanges = {};
+  for (const [field, [from, to]] of Object.entries(changes)) {
+    result[field] =
+      field === 'line'
+        ? [from, to]
+        : [
+            from !== null ? decimalToAmericanOdds(from) : null,
+            to !== null ? decimalToAmericanOdds(to) : null,
+          ];
+  }
+  return result;
+}
+
 /**
  * Build sort order from sort parameter
  */
@@ -341,3 +382,79 @@ export async function getEventsByExternalIds(
 
   return new Map(events.map((e) => [e.externalId, e.id]));
 }
+
+/**
+ * Get line-movement history for an event, one time series per market.
+ * Points are only recorded when a market moves, so each point holds
+ * until the next one.
+ * Returns null if event not found.
+ */
+export async function getEventOddsHistory(
+  id: string,
+  query: OddsHistoryQuery
+): Promise<EventOddsHistory | null> {
+  if (!(await eventExists(id))) {
+    logger.debug(`[EventsService] Event not found: ${id}`);
+    return null;
+  }
+
+  const where: Prisma.OddsSnapshotWhereInput = { eventId: id };
+
+  if (query.market) {
+    where.market = query.market;
+  }
+
+  if (query.since || query.until) {
+    where.capturedAt = {
+      ...(query.since && { gte: new Date(query.since) }),
+      ...(query.until && { lte: new Date(query.until) }),
+    };
+  }
+
+  const snapshots = await prisma.oddsSnapshot.findMany({
+    where,
+    orderBy: { capturedAt: 'asc' },
+    select: {
+      market: true,
+      marketKey: true,
+      propType: true,
+      playerId: true,
+      playerName: true,
+      line: true,
+      prices: true,
+      changes: true,
+      capturedAt: true,
+    },
+  });
+
+  const seriesByKey = new Map<string, OddsHistorySeries>();
+
+  for (const snapshot of snapshots) {
+    let series = seriesByKey.get(snapshot.marketKey);
+    if (!series) {
+      series = {
+        market: snapshot.market as OddsHistoryMarket,
+        marketKey: snapshot.marketKey,
+        propType: snapshot.propType,
+        playerId: snapshot.playerId,
+        playerName: snapshot.playerName,
+        points: [],
+      };
+      seriesByKey.set(snapshot.marketKey, series);
+    }
+
+    series.points.push({
+      capturedAt: snapshot.capturedAt.toISOString(),
+      line: snapshot.line?.toNumber() ?? null,
+      prices: toAmericanPrices(snapshot.prices as Record<string, number>),
+      changes: toAmericanChanges(snapshot.changes as OddsHistoryChanges | null),
+    });
+  }
+
+  logger.debug(`[EventsService] Retrieved ${snapshots.length} odds snapshots for event ${id}`);
+
+  return {
+    eventId: id,
+    series: [...seriesByKey.values()],
+  };
+}
@@ -741,3 +741,21 @@ export async function getFriendshipStatus(
     canUnblock: false,
   };
 }
+
+/**
+ * Get the user IDs of all ACCEPTED friends of a user (either direction)
+ * Used for friends-only leaderboards
+ */
+export async function getAcceptedFriendIds(userId: string): Promise<string[]> {
+  const friendships = await prisma.friendship.findMany({
+    where: {
+      OR: [
+        { userId, status: FriendshipStatus.ACCEPTED },
+        { friendId: userId, status: FriendshipStatus.ACCEPTED },
+      ],
+    },
+    select: { userId: true, friendId: true },
+  });
+
+  return friendships.map((f) => (f.userId === userId ? f.friendId : f.userId));
+}
@@ -3,13 +3,16 @@
 // =====================================================
 // Redis ZSET-based caching for fast leaderboard access.
 // Provides sub-10ms reads for top 100 leaderboard data.
+// One ZSET per leaderboard slug, covering every timeframe/sport board.
+// A second, untrimmed ZSET per board ranks every entry for "around me" views.
 
+import { LeaderboardTimeframe, SportType } from '@prisma/client';
 import { logger } from '../../utils/logger';
 import { prisma } from '../../lib/prisma';
 import {
-  GLOBAL_LEADERBOARD_SLUG,
-  generateWeeklySlug,
-  getWeekStart,
+  LEADERBOARD_TIMEFRAMES,
+  resolveLeaderboardPeriod,
+  scopeSlugToSport,
 } from './leaderboard.service';
 import { LeaderboardEntryResponse } from './leaderboard.schemas';
 
@@ -23,23 +26,75 @@ export interface CacheUpdateResult {
   success: boolean;
   globalEntriesUpdated: number;
   weeklyEntriesUpdated: number;
+  /** Number of timeframe/sport boards rebuilt */
+  boardsUpdated: number;
   duration: number;
 }
 
+/**
+ * A current leaderboard identified by timeframe and sport.
+ */
+export interface CurrentLeaderboardSlug {
+  timeframe: LeaderboardTimeframe;
+  sport: SportType | null;
+  slug: string;
+}
+
+/**
+ * A window of user IDs around one user's position in a cached ranking.
+ */
+export interface CachedRankWindow {
+  /** 1-indexed rank of the user, null if they have no entry on the board */
+  rank: number | null;
+  /** 1-indexed rank of the first user in `userIds` */
+  startRank: number;
+  userIds: string[];
+  total: number;
+}
+
+interface TopEntryRow {
+  id: string;
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  score: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  matches_played: number;
+  win_rate: number;
+  current_streak: number;
+  previous_rank: number | null;
+}
+
 // ===========================================
 // Cache Keys
 // ===========================================
 
 const CACHE_KEYS = {
-  globalTop100: 'leaderboard:global:top100',
-  weeklyTop100: (slug: string) => `leaderboard:weekly:${slug}:top100`,
-  userMetadata: (userId: string) => `leaderboard:user:${userId}`,
+  top100: (slug: string) => `leaderboard:${slug}:top100`,
+  allRanks: (slug: string) => `leaderboard:${slug}:ranks`,
+  userMetadata: (userId: string, slug: string) => `leaderboard:user:${userId}:${slug}`,
   lastUpdate: 'leaderboard:cache:lastUpdate',
 } as const;
 
 const CACHE_TTL = 3600; // 1 hour in seconds
 const TOP_100_LIMIT = 100;
 
+const ALL_SPORTS = Object.values(SportType);
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+/**
+ * Composite ZSET score so Redis ordering matches the DB tiebreakers:
+ * score DESC, winRate DESC, matchesPlayed DESC.
+ */
+function compositeScore(score: number, winRate: number, matchesPlayed: number): number {
+  return score * 1e6 + winRate * 1e3 + Math.min(matchesPlayed, 999);
+}
+
 // ===========================================
 // Redis Client Access
 // ===========================================
@@ -54,47 +109,62 @@ async function getRedis() {
   return getRedisConnection();
 }
 
+// ===========================================
+// Slug Resolution
+// ===========================================
+
+/**
+ * Resolve the slugs of the current leaderboards for the given sports.
+ * Pass null in `sports` for the all-sports boards. Seasonal boards are
+ * skipped when there is no current season.
+ */
+export async function getCurrentLeaderboardSlugs(
+  sports: Array<SportType | null> = [null, ...ALL_SPORTS]
+): Promise<CurrentLeaderboardSlug[]> {
+  const slugs: CurrentLeaderboardSlug[] = [];
+
+  for (const timeframe of LEADERBOARD_TIMEFRAMES) {
+    // Resolve the all-sports period once and scope it per sport
+    const period = await resolveLeaderboardPeriod(prisma, timeframe, null);
+    if (!period) continue;
+
+    for (const sport of sports) {
+      slugs.push({ timeframe, sport, slug: scopeSlugToSport(period.slug, sport) });
+    }
+  }
+
+  return slugs;
+}
+
 // ===========================================
 // Cache Write Operations
 // ===========================================
 
 /**
- * Rebuild the global leaderboard cache from database.
- * Fetches top 100 entries and populates Redis ZSET.
+ * Rebuild the cache for one leaderboard from database.
+ * Fetches top 100 entries and populates a Redis ZSET plus per-user hashes.
+ *
+ * @returns Number of entries cached (0 if the leaderboard doesn't exist yet)
  */
-export async function updateGlobalLeaderboardCache(): Promise<number> {
+export async function updateLeaderboardCache(slug: string): Promise<number> {
   const startTime = Date.now();
 
   try {
     const redis = await getRedis();
+    const cacheKey = CACHE_KEYS.top100(slug);
 
-    // Find global leaderboard
     const leaderboard = await prisma.leaderboard.findUnique({
-      where: { slug: GLOBAL_LEADERBOARD_SLUG },
+      where: { slug },
     });
 
     if (!leaderboard) {
-      logger.warn('[LeaderboardCache] Global leaderboard not found');
+      logger.debug(`[LeaderboardCache] Leaderboard not found: ${slug}`);
+      await redis.del(cacheKey, CACHE_KEYS.allRanks(slug));
       return 0;
     }
 
     // Fetch top 100 entries with user data
-    const entries = await prisma.$queryRaw<
-      Array<{
-        id: string;
-        user_id: string;
-        username: string;
-        avatar_url: string | null;
-        score: number;
-        wins: number;
-        losses: number;
-        draws: number;
-        matches_played: number;
-        win_rate: number;
-        current_streak: number;
-        previous_rank: number | null;
-      }>
-    >`
+    const entries = await prisma.$queryRaw<TopEntryRow[]>`
       SELECT
         le.id,
         le.user_id,
@@ -117,38 +187,39 @@ export async function updateGlobalLeaderboardCache(): Promise<number> {
 
     if (entries.length === 0) {
       // Clear the cache if no entries
-      await redis.del(CACHE_KEYS.globalTop100);
+      await redis.del(cacheKey, CACHE_KEYS.allRanks(slug));
       return 0;
     }
 
+    await updateRankingCache(slug, leaderboard.id);
+
     // Build ZSET and user metadata in a pipeline
     const pipeline = redis.pipeline();
 
     // Clear existing ZSET
-    pipeline.del(CACHE_KEYS.globalTop100);
+    pipeline.del(cacheKey);
 
-    // Add all users to ZSET with their scores
-    // Use a composite score for tiebreaking: score * 1e6 + winRate * 1e3 + matchesPlayed
+    // Add all users to ZSET with their composite scores
     for (const entry of entries) {
-      // Primary sort by score, tiebreakers embedded in decimal places
-      const compositeScore =
-        entry.score * 1e6 +
-        entry.win_rate * 1e3 +
-        Math.min(entry.matches_played, 999);
-      pipeline.zadd(CACHE_KEYS.globalTop100, compositeScore, entry.user_id);
+      pipeline.zadd(
+        cacheKey,
+        compositeScore(entry.score, entry.win_rate, entry.matches_played),
+        entry.user_id
+      );
     }
 
     // Set TTL on the ZSET
-    pipeline.expire(CACHE_KEYS.globalTop100, CACHE_TTL);
+    pipeline.expire(cacheKey, CACHE_TTL);
 
-    // Store user metadata in hashes
+    // Store user metadata in per-board hashes
     for (let i = 0; i < entries.length; i++) {
       const entry = entries[i];
       const rank = i + 1;
       const rankChange =
         entry.previous_rank !== null ? entry.previous_rank - rank : null;
+      const userKey = CACHE_KEYS.userMetadata(entry.user_id, slug);
 
-      pipeline.hset(CACHE_KEYS.userMetadata(entry.user_id), {
+      pipeline.hset(userKey, {
         username: entry.username,
         avatarUrl: entry.avatar_url || '',
         score: String(entry.score),
@@ -162,174 +233,121 @@ export async function updateGlobalLeaderboardCache(): Promise<number> {
         rank: String(rank),
         rankChange: rankChange !== null ? String(rankChange) : '',
       });
-      pipeline.expire(CACHE_KEYS.userMetadata(entry.user_id), CACHE_TTL);
+      pipeline.expire(userKey, CACHE_TTL);
     }
 
-    // Execute pipeline
     await pipeline.exec();
 
     const duration = Date.now() - startTime;
     logger.info(
-      `[LeaderboardCache] Global cache updated: ${entries.length} entries in ${duration}ms`
+      `[LeaderboardCache] Cache updated (${slug}): ${entries.length} entries in ${duration}ms`
     );
 
     return entries.length;
   } catch (error) {
-    logger.error('[LeaderboardCache] Failed to update global cache:', error);
+    logger.error(`[LeaderboardCache] Failed to update cache for ${slug}:`, error);
     throw error;
   }
 }
 
 /**
- * Rebuild the weekly leaderboard cache from database.
+ * Rebuild the untrimmed ranking ZSET for a leaderboard.
+ * Only user IDs and composite scores are stored - entry details for
+ * "around me" windows are loaded from the database.
  */
-export async function updateWeeklyLeaderboardCache(): Promise<number> {
-  const startTime = Date.now();
-
-  try {
-    const redis = await getRedis();
-    const weeklySlug = generateWeeklySlug(getWeekStart());
-
-    // Find weekly leaderboard
-    const leaderboard = await prisma.leaderboard.findUnique({
-      where: { slug: weeklySlug },
-    });
-
-    if (!leaderboard) {
-      logger.warn(`[LeaderboardCache] Weekly leaderboard not found: ${weeklySlug}`);
-      return 0;
-    }
-
-    // Fetch top 100 entries
-    const entries = await prisma.$queryRaw<
-      Array<{
-        id: string;
-        user_id: string;
-        username: string;
-        avatar_url: string | null;
-        score: number;
-        wins: number;
-        losses: number;
-        draws: number;
-        matches_played: number;
-        win_rate: number;
-        current_streak: number;
-        previous_rank: number | null;
-      }>
-    >`
-      SELECT
-        le.id,
-        le.user_id,
-        u.username,
-        u.avatar_url,
-        CAST(le.score AS FLOAT) as score,
-        le.wins,
-        le.losses,
-        le.draws,
-        le.matches_played,
-        CAST(le.win_rate AS FLOAT) as win_rate,
-        le.current_streak,
-        le.previous_rank
-      FROM leaderboard_entries le
-      JOIN users u ON le.user_id = u.id
-      WHERE le.leaderboard_id = ${leaderboard.id}
-      ORDER BY le.score DESC, le.win_rate DESC, le.matches_played DESC
-      LIMIT ${TOP_100_LIMIT}
-    `;
-
-    const cacheKey = CACHE_KEYS.weeklyTop100(weeklySlug);
-
-    if (entries.length === 0) {
-      await redis.del(cacheKey);
-      return 0;
-    }
-
-    const pipeline = redis.pipeline();
-
-    // Clear existing ZSET
-    pipeline.del(cacheKey);
-
-    // Add all users with composite scores
-    for (const entry of entries) {
-      const compositeScore =
-        entry.score * 1e6 +
-        entry.win_rate * 1e3 +
-        Math.min(entry.matches_played, 999);
-      pipeline.zadd(cacheKey, compositeScore, entry.user_id);
-    }
-
-    pipeline.expire(cacheKey, CACHE_TTL);
+async function updateRankingCache(slug: string, leaderboardId: string): Promise<void> {
+  const redis = await getRedis();
+  const ranksKey = CACHE_KEYS.allRanks(slug);
+
+  const rows = await prisma.$queryRaw<
+    Array<{ user_id: string; score: number; win_rate: number; matches_played: number }>
+  >`
+    SELECT
+      user_id,
+      CAST(score AS FLOAT) as score,
+      CAST(win_rate AS FLOAT) as win_rate,
+      matches_played
+    FROM leaderboard_entries
+    WHERE leaderboard_id = ${leaderboardId}
+  `;
+
+  const pipeline = redis.pipeline();
+  pipeline.del(ranksKey);
+
+  for (const row of rows) {
+    pipeline.zadd(
+      ranksKey,
+      compositeScore(row.score, row.win_rate, row.matches_played),
+      row.user_id
+    );
+  }
 
-    // Store user metadata (weekly-specific)
-    // Note: We reuse the same user metadata keys - weekly data overwrites global
-    // This is intentional since we're showing one leaderboard at a time
-    for (let i = 0; i < entries.length; i++) {
-      const entry = entries[i];
-      const rank = i + 1;
-      const rankChange =
-        entry.previous_rank !== null ? entry.previous_rank - rank : null;
+  pipeline.expire(ranksKey, CACHE_TTL);
+  await pipeline.exec();
+}
 
-      const weeklyUserKey = `${CACHE_KEYS.userMetadata(entry.user_id)}:${weeklySlug}`;
-      pipeline.hset(weeklyUserKey, {
-        username: entry.username,
-        avatarUrl: entry.avatar_url || '',
-        score: String(entry.score),
-        wins: String(entry.wins),
-        losses: String(entry.losses),
-        draws: String(entry.draws),
-        matchesPlayed: String(entry.matches_played),
-        winRate: String(entry.win_rate),
-        currentStreak: String(entry.current_streak),
-        previousRank: entry.previous_rank !== null ? String(entry.previous_rank) : '',
-        rank: String(rank),
-        rankChange: rankChange !== null ? String(rankChange) : '',
-      });
-      pipeline.expire(weeklyUserKey, CACHE_TTL);
-    }
+/**
+ * Rebuild the caches of every current leaderboard for the given sports.
+ * Pass null in `sports` for the all-sports boards.
+ */
+export async function updateLeaderboardCachesForSports(
+  sports: Array<SportType | null>
+): Promise<{ globalEntries: number; weeklyEntries: number; boardsUpdated: number }> {
+  const slugs = await getCurrentLeaderboardSlugs(sports);
+  let globalEntries = 0;
+  let weeklyEntries = 0;
+
+  for (const { timeframe, sport, slug } of slugs) {
+    const count = await updateLeaderboardCache(slug);
+
+    if (!sport && timeframe === 'GLOBAL') globalEntries = count;
+    if (!sport && timeframe === 'WEEKLY') weeklyEntries = count;
+  }
 
-    await pipeline.exec();
+  return { globalEntries, weeklyEntries, boardsUpdated: slugs.length };
+}
 
-    const duration = Date.now() - startTime;
-    logger.info(
-      `[LeaderboardCache] Weekly cache updated (${weeklySlug}): ${entries.length} entries in ${duration}ms`
-    );
+/**
+ * Rebuild the global all-sports leaderboard cache from database.
+ */
+export async function updateGlobalLeaderboardCache(): Promise<number> {
+  const [global] = await getCurrentLeaderboardSlugs([null]);
+  return updateLeaderboardCache(global.slug);
+}
 
-    return entries.length;
-  } catch (error) {
-    logger.error('[LeaderboardCache] Failed to update weekly cache:', error);
-    throw error;
-  }
+/**
+ * Rebuild the current weekly all-sports leaderboard cache from database.
+ */
+export async function updateWeeklyLeaderboardCache(): Promise<number> {
+  const slugs = await getCurrentLeaderboardSlugs([null]);
+  const weekly = slugs.find((s) => s.timeframe === 'WEEKLY')!;
+  return updateLeaderboardCache(weekly.slug);
 }
 
 /**
- * Update a single user's score in the cache after settlement.
+ * Update a single user's score in a leaderboard cache after settlement.
  * More efficient than full rebuild for individual updates.
  */
 export async function updateUserScoreInCache(
   userId: string,
-  globalScore: number,
-  weeklyScore: number,
-  weeklySlug: string
+  score: number,
+  slug: string
 ): Promise<void> {
   try {
     const redis = await getRedis();
     const pipeline = redis.pipeline();
+    const cacheKey = CACHE_KEYS.top100(slug);
 
-    // Update global ZSET (ZADD is upsert)
-    const globalCompositeScore = globalScore * 1e6;
-    pipeline.zadd(CACHE_KEYS.globalTop100, globalCompositeScore, userId);
-
-    // Update weekly ZSET
-    const weeklyCompositeScore = weeklyScore * 1e6;
-    pipeline.zadd(CACHE_KEYS.weeklyTop100(weeklySlug), weeklyCompositeScore, userId);
+    // ZADD is upsert
+    pipeline.zadd(cacheKey, score * 1e6, userId);
+    pipeline.zadd(CACHE_KEYS.allRanks(slug), 'XX', score * 1e6, userId);
 
     // Trim to top 100 + buffer (keep 110 to avoid thrashing)
-    pipeline.zremrangebyrank(CACHE_KEYS.globalTop100, 0, -111);
-    pipeline.zremrangebyrank(CACHE_KEYS.weeklyTop100(weeklySlug), 0, -111);
+    pipeline.zremrangebyrank(cacheKey, 0, -111);
 
     await pipeline.exec();
 
-    logger.debug(`[LeaderboardCache] Updated scores for user ${userId}`);
+    logger.debug(`[LeaderboardCache] Updated ${slug} score for user ${userId}`);
   } catch (error) {
     logger.error('[LeaderboardCache] Failed to update user score:', error);
     // Don't throw - cache failures shouldn't break the app
@@ -341,10 +359,11 @@ export async function updateUserScoreInCache(
 // ===========================================
 
 /**
- * Get cached global leaderboard entries.
+ * Get cached leaderboard entries for a leaderboard slug.
  * Returns null on cache miss (caller should fall back to DB).
  */
-export async function getCachedGlobalLeaderboard(
+export async function getCachedLeaderboard(
+  slug: string,
   start: number,
   end: number
 ): Promise<CachedLeaderboardEntry[] | null> {
@@ -352,7 +371,7 @@ export async function getCachedGlobalLeaderboard(
     const redis = await getRedis();
 
     // Get user IDs from ZSET in descending order
-    const userIds = await redis.zrevrange(CACHE_KEYS.globalTop100, start, end);
+    const userIds = await redis.zrevrange(CACHE_KEYS.top100(slug), start, end);
 
     if (!userIds || userIds.length === 0) {
       return null; // Cache miss
@@ -361,7 +380,7 @@ export async function getCachedGlobalLeaderboard(
     // Fetch metadata for each user
     const pipeline = redis.pipeline();
     for (const userId of userIds) {
-      pipeline.hgetall(CACHE_KEYS.userMetadata(userId));
+      pipeline.hgetall(CACHE_KEYS.userMetadata(userId, slug));
     }
 
     const results = await pipeline.exec();
@@ -404,76 +423,50 @@ export async function getCachedGlobalLeaderboard(
 
     return entries;
   } catch (error) {
-    logger.warn('[LeaderboardCache] Cache read error:', error);
+    logger.warn(`[LeaderboardCache] Cache read error (${slug}):`, error);
     return null; // Graceful degradation
   }
 }
 
 /**
- * Get cached weekly leaderboard entries.
- * Returns null on cache miss.
+ * Get the user IDs ranked within `radius` places of a user, from the
+ * untrimmed ranking ZSET.
+ * Returns null on cache miss (caller should fall back to DB).
  */
-export async function getCachedWeeklyLeaderboard(
+export async function getCachedRankWindow(
   slug: string,
-  start: number,
-  end: number
-): Promise<CachedLeaderboardEntry[] | null> {
+  userId: string,
+  radius: number
+): Promise<CachedRankWindow | null> {
   try {
     const redis = await getRedis();
-    const cacheKey = CACHE_KEYS.weeklyTop100(slug);
-
-    const userIds = await redis.zrevrange(cacheKey, start, end);
+    const ranksKey = CACHE_KEYS.allRanks(slug);
 
-    if (!userIds || userIds.length === 0) {
-      return null;
-    }
+    const [zeroBasedRank, total] = await Promise.all([
+      redis.zrevrank(ranksKey, userId),
+      redis.zcard(ranksKey),
+    ]);
 
-    const pipeline = redis.pipeline();
-    for (const userId of userIds) {
-      const weeklyUserKey = `${CACHE_KEYS.userMetadata(userId)}:${slug}`;
-      pipeline.hgetall(weeklyUserKey);
+    if (total === 0) {
+      return null; // Cache miss
     }
 
-    const results = await pipeline.exec();
-
-    if (!results) {
-      return null;
+    if (zeroBasedRank === null) {
+      return { rank: null, startRank: 0, userIds: [], total };
     }
 
-    const entries: CachedLeaderboardEntry[] = [];
-
-    for (let i = 0; i < userIds.length; i++) {
-      const result = results[i];
-      if (!result || result[0] || !result[1]) {
-        return null;
-      }
-
-      const data = result[1] as Record<string, string>;
-      if (!data.username) {
-        return null;
-      }
-
-      entries.push({
-        rank: start + i + 1,
-        previousRank: data.previousRank ? parseInt(data.previousRank, 10) : null,
-        rankChange: data.rankChange ? parseInt(data.rankChange, 10) : null,
-        userId: userIds[i],
-        username: data.username,
-        avatarUrl: data.avatarUrl || null,
-        score: parseFloat(data.score || '0'),
-        wins: parseInt(data.wins || '0', 10),
-        losses: parseInt(data.losses || '0', 10),
-        draws: parseInt(data.draws || '0', 10),
-        matchesPlayed: parseInt(data.matchesPlayed || '0', 10),
-        winRate: parseFloat(data.winRate || '0'),
-        currentStreak: parseInt(data.currentStreak || '0', 10),
-      });
-    }
+    const start = Math.max(0, zeroBasedRank - radius);
+    const userIds = await redis.zrevrange(ranksKey, start, zeroBasedRank + radius);
 
-    return entries;
+    return {
+      rank: zeroBasedRank + 1,
+      startRank: start + 1,
+      userIds,
+      total,
+    };
   } catch (error) {
-    logger.warn('[LeaderboardCache] Weekly cache read error:', error);
-    return null;
+    logger.warn(`[LeaderboardCache] Rank window read error (${slug}):`, error);
+    return null; // Graceful degradation
   }
 }
 
@@ -482,16 +475,14 @@ export async function getCachedWeeklyLeaderboard(
 // ===========================================
 
 /**
- * Full cache rebuild - updates both global and weekly caches.
+ * Full cache rebuild - updates every current timeframe and sport leaderboard.
  */
 export async function rebuildLeaderboardCaches(): Promise<CacheUpdateResult> {
   const startTime = Date.now();
 
   try {
-    const [globalCount, weeklyCount] = await Promise.all([
-      updateGlobalLeaderboardCache(),
-      updateWeeklyLeaderboardCache(),
-    ]);
+    const { globalEntries, weeklyEntries, boardsUpdated } =
+      await updateLeaderboardCachesForSports([null, ...ALL_SPORTS]);
 
     // Update last update timestamp
     const redis = await getRedis();
@@ -501,13 +492,15 @@ export async function rebuildLeaderboardCaches(): Promise<CacheUpdateResult> {
     const duration = Date.now() - startTime;
 
     logger.info(
-      `[LeaderboardCache] Full rebuild complete: global=${globalCount}, weekly=${weeklyCount} in ${duration}ms`
+      `[LeaderboardCache] Full rebuild complete: ${boardsUpdated} boards ` +
+        `(global=${globalEntries}, weekly=${weeklyEntries}) in ${duration}ms`
     );
 
     return {
       success: true,
-      globalEntriesUpdated: globalCount,
-      weeklyEntriesUpdated: weeklyCount,
+      globalEntriesUpdated: globalEntries,
+      weeklyEntriesUpdated: weeklyEntries,
+      boardsUpdated,
       duration,
     };
   } catch (error) {
@@ -516,28 +509,30 @@ export async function rebuildLeaderboardCaches(): Promise<CacheUpdateResult> {
       success: false,
       globalEntriesUpdated: 0,
       weeklyEntriesUpdated: 0,
+      boardsUpdated: 0,
       duration: Date.now() - startTime,
     };
   }
 }
 
 /**
- * Invalidate all leaderboard caches.
- * Used on weekly reset or when data integrity is uncertain.
+ * Invalidate all current leaderboard caches.
+ * Used on period reset or when data integrity is uncertain.
  */
 export async function invalidateLeaderboardCaches(): Promise<void> {
   try {
     const redis = await getRedis();
-    const weeklySlug = generateWeeklySlug(getWeekStart());
+    const slugs = await getCurrentLeaderboardSlugs();
 
     const pipeline = redis.pipeline();
-    pipeline.del(CACHE_KEYS.globalTop100);
-    pipeline.del(CACHE_KEYS.weeklyTop100(weeklySlug));
+    for (const { slug } of slugs) {
+      pipeline.del(CACHE_KEYS.top100(slug), CACHE_KEYS.allRanks(slug));
+    }
     pipeline.del(CACHE_KEYS.lastUpdate);
 
     await pipeline.exec();
 
-    logger.info('[LeaderboardCache] Caches invalidated');
+    logger.info(`[LeaderboardCache] Caches invalidated (${slugs.length} boards)`);
   } catch (error) {
     logger.error('[LeaderboardCache] Failed to invalidate caches:', error);
   }
@@ -573,24 +568,33 @@ export async function getCacheStatus(): Promise<{
   lastUpdate: string | null;
   globalEntries: number;
   weeklyEntries: number;
+  boards: Record<string, number>;
   isStale: boolean;
 }> {
   try {
     const redis = await getRedis();
-    const weeklySlug = generateWeeklySlug(getWeekStart());
+    const slugs = await getCurrentLeaderboardSlugs();
 
-    const [lastUpdate, globalCount, weeklyCount] = await Promise.all([
+    const [lastUpdate, ...counts] = await Promise.all([
       redis.get(CACHE_KEYS.lastUpdate),
-      redis.zcard(CACHE_KEYS.globalTop100),
-      redis.zcard(CACHE_KEYS.weeklyTop100(weeklySlug)),
+      ...slugs.map(({ slug }) => redis.zcard(CACHE_KEYS.top100(slug))),
     ]);
 
+    const boards: Record<string, number> = {};
+    slugs.forEach(({ slug }, i) => {
+      boards[slug] = counts[i] as number;
+    });
+
+    const global = slugs.find((s) => s.timeframe === 'GLOBAL' && !s.sport);
+    const weekly = slugs.find((s) => s.timeframe === 'WEEKLY' && !s.sport);
+
     const isStale = await isCacheStale();
 
     return {
-      lastUpdate,
-      globalEntries: globalCount,
-      weeklyEntries: weeklyCount,
+      lastUpdate: lastUpdate as string | null,
+      globalEntries: global ? boards[global.slug] : 0,
+      weeklyEntries: weekly ? boards[weekly.slug] : 0,
+      boards,
       isStale,
     };
   } catch (error) {
@@ -599,6 +603,7 @@ export async function getCacheStatus(): Promise<{
       lastUpdate: null,
       globalEntries: 0,
       weeklyEntries: 0,
+      boards: {},
       isStale: true,
     };
   }
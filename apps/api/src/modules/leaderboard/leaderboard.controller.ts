@@ -5,23 +5,28 @@
 // Handles request validation and response formatting.
 
 import { Router, Request, Response, NextFunction } from 'express';
+import { LeaderboardTimeframe, SportType } from '@prisma/client';
 import { ApiResponse, ERROR_CODES } from '@pick-rivals/shared-types';
-import { optionalAuth } from '../../middleware';
+import { optionalAuth, requireAuth, getAuthenticatedUser } from '../../middleware';
 import {
   leaderboardQuerySchema,
+  leaderboardTimeframeParamSchema,
+  aroundMeQuerySchema,
   PaginatedLeaderboard,
+  AroundMeLeaderboard,
 } from './leaderboard.schemas';
 import {
-  getGlobalLeaderboard,
-  getWeeklyLeaderboard,
-  generateWeeklySlug,
-  getWeekStart,
-  GLOBAL_LEADERBOARD_SLUG,
+  getLeaderboard,
+  getFriendsLeaderboard,
+  getAroundMeLeaderboard,
+  resolveLeaderboardPeriod,
 } from './leaderboard.service';
 import {
-  getCachedGlobalLeaderboard,
-  getCachedWeeklyLeaderboard,
+  getCachedLeaderboard,
+  getCachedRankWindow,
+  CachedRankWindow,
 } from './leaderboard-cache.service';
+import { prisma } from '../../lib/prisma';
 import { BadRequestError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
 
@@ -35,86 +40,198 @@ function generateRequestId(): string {
   return `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
-// ===========================================
-// GET /api/v1/leaderboard
-// Global all-time leaderboard
-// ===========================================
+/**
+ * Serve a leaderboard page, from the Redis cache when possible.
+ */
+async function sendLeaderboard(
+  timeframe: LeaderboardTimeframe,
+  req: Request,
+  res: Response
+): Promise<void> {
+  const requestId = generateRequestId();
 
-router.get(
-  '/',
-  optionalAuth, // Public endpoint, auth optional for potential "your rank" feature
-  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  // Validate query parameters
+  const queryResult = leaderboardQuerySchema.safeParse(req.query);
+
+  if (!queryResult.success) {
+    throw new BadRequestError(
+      'Invalid query parameters',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const { page, limit } = queryResult.data;
+  const sport = (queryResult.data.sport ?? null) as SportType | null;
+
+  // Try cache first for first page requests within top 100
+  if (page === 1 && limit <= 100) {
     try {
-      const requestId = generateRequestId();
+      const period = await resolveLeaderboardPeriod(prisma, timeframe, sport);
+      const cachedEntries = period
+        ? await getCachedLeaderboard(period.slug, 0, limit - 1)
+        : null;
 
-      // Validate query parameters
-      const queryResult = leaderboardQuerySchema.safeParse(req.query);
+      if (period && cachedEntries && cachedEntries.length > 0) {
+        const cachedResponse: ApiResponse<PaginatedLeaderboard> = {
+          success: true,
+          data: {
+            leaderboard: {
+              id: period.slug,
+              name: period.name,
+              timeframe,
+              sport,
+              periodStart: period.periodStart?.toISOString() ?? null,
+              periodEnd: period.periodEnd?.toISOString() ?? null,
+              entries: cachedEntries,
+            },
+            pagination: {
+              page: 1,
+              limit,
+              total: cachedEntries.length,
+              totalPages: 1,
+              hasNext: false,
+              hasPrev: false,
+            },
+          },
+          meta: {
+            timestamp: new Date().toISOString(),
+            requestId,
+          },
+        };
 
-      if (!queryResult.success) {
-        throw new BadRequestError(
-          'Invalid query parameters',
-          ERROR_CODES.VALIDATION_ERROR
+        logger.debug(
+          `[Leaderboard] Serving ${period.slug} from cache (${cachedEntries.length} entries)`
         );
+        res.status(200).json(cachedResponse);
+        return;
       }
+    } catch (cacheError) {
+      // Cache miss or error - fall through to DB query
+      logger.warn(`[Leaderboard] ${timeframe} cache miss, falling back to DB:`, cacheError);
+    }
+  }
 
-      const { page, limit } = queryResult.data;
-
-      // Try cache first for first page requests within top 100
-      if (page === 1 && limit <= 100) {
-        try {
-          const cachedEntries = await getCachedGlobalLeaderboard(0, limit - 1);
-
-          if (cachedEntries && cachedEntries.length > 0) {
-            const cachedResponse: ApiResponse<PaginatedLeaderboard> = {
-              success: true,
-              data: {
-                leaderboard: {
-                  id: GLOBAL_LEADERBOARD_SLUG,
-                  name: 'Global All-Time',
-                  timeframe: 'GLOBAL',
-                  periodStart: null,
-                  periodEnd: null,
-                  entries: cachedEntries,
-                },
-                pagination: {
-                  page: 1,
-                  limit,
-                  total: cachedEntries.length,
-                  totalPages: 1,
-                  hasNext: false,
-                  hasPrev: false,
-                },
-              },
-              meta: {
-                timestamp: new Date().toISOString(),
-                requestId,
-              },
-            };
-
-            logger.debug(`[Leaderboard] Serving global leaderboard from cache (${cachedEntries.length} entries)`);
-            res.status(200).json(cachedResponse);
-            return;
-          }
-        } catch (cacheError) {
-          // Cache miss or error - fall through to DB query
-          logger.warn('[Leaderboard] Global cache miss, falling back to DB:', cacheError);
-        }
-      }
+  // Fall back to database query
+  const result = await getLeaderboard(timeframe, queryResult.data);
+
+  const response: ApiResponse<PaginatedLeaderboard> = {
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+      requestId,
+      pagination: result.pagination,
+    },
+  };
+
+  res.status(200).json(response);
+}
+
+/**
+ * Parse the :timeframe route param, defaulting to GLOBAL for routes without one.
+ */
+function parseTimeframe(req: Request): LeaderboardTimeframe {
+  if (req.params.timeframe === undefined) {
+    return 'GLOBAL';
+  }
+
+  const paramResult = leaderboardTimeframeParamSchema.safeParse(req.params);
+
+  if (!paramResult.success) {
+    throw new BadRequestError(
+      'Invalid timeframe. Must be one of: global, weekly, monthly, seasonal',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  return paramResult.data.timeframe;
+}
+
+/**
+ * Serve the caller's friends-only leaderboard.
+ */
+async function sendFriendsLeaderboard(req: Request, res: Response): Promise<void> {
+  const user = getAuthenticatedUser(req);
+  const timeframe = parseTimeframe(req);
+
+  const queryResult = leaderboardQuerySchema.safeParse(req.query);
+
+  if (!queryResult.success) {
+    throw new BadRequestError(
+      'Invalid query parameters',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const result = await getFriendsLeaderboard(user.id, timeframe, queryResult.data);
+
+  const response: ApiResponse<PaginatedLeaderboard> = {
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+      requestId: generateRequestId(),
+      pagination: result.pagination,
+    },
+  };
+
+  res.status(200).json(response);
+}
+
+/**
+ * Serve the entries ranked around the caller, from the Redis ranking when possible.
+ */
+async function sendAroundMeLeaderboard(req: Request, res: Response): Promise<void> {
+  const user = getAuthenticatedUser(req);
+  const timeframe = parseTimeframe(req);
+
+  const queryResult = aroundMeQuerySchema.safeParse(req.query);
+
+  if (!queryResult.success) {
+    throw new BadRequestError(
+      'Invalid query parameters',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const sport = (queryResult.data.sport ?? null) as SportType | null;
+
+  // Try the cached ranking first - a miss falls back to ranking in the DB
+  let cachedWindow: CachedRankWindow | null = null;
+  try {
+    const period = await resolveLeaderboardPeriod(prisma, timeframe, sport);
+    cachedWindow = period
+      ? await getCachedRankWindow(period.slug, user.id, queryResult.data.radius)
+      : null;
+  } catch (cacheError) {
+    logger.warn(`[Leaderboard] ${timeframe} ranking cache miss, falling back to DB:`, cacheError);
+  }
 
-      // Fall back to database query
-      const result = await getGlobalLeaderboard(queryResult.data);
+  const result = await getAroundMeLeaderboard(user.id, timeframe, queryResult.data, cachedWindow);
 
-      const response: ApiResponse<PaginatedLeaderboard> = {
-        success: true,
-        data: result,
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId,
-          pagination: result.pagination,
-        },
-      };
+  const response: ApiResponse<AroundMeLeaderboard> = {
+    success: true,
+    data: result,
+    meta: {
+      timestamp: new Date().toISOString(),
+      requestId: generateRequestId(),
+    },
+  };
 
-      res.status(200).json(response);
+  res.status(200).json(response);
+}
+
+// ===========================================
+// GET /api/v1/leaderboard
+// Global all-time leaderboard (?sport=NBA for a per-sport board)
+// ===========================================
+
+router.get(
+  '/',
+  optionalAuth, // Public endpoint, auth optional for potential "your rank" feature
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await sendLeaderboard('GLOBAL', req, res);
     } catch (error) {
       next(error);
     }
@@ -122,90 +239,52 @@ router.get(
 );
 
 // ===========================================
-// GET /api/v1/leaderboard/weekly
-// Current week leaderboard
+// GET /api/v1/leaderboard/friends
+// GET /api/v1/leaderboard/:timeframe/friends
+// Caller and their accepted friends only
 // ===========================================
 
 router.get(
-  '/weekly',
-  optionalAuth, // Public endpoint, auth optional
+  ['/friends', '/:timeframe/friends'],
+  requireAuth,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const requestId = generateRequestId();
-
-      const queryResult = leaderboardQuerySchema.safeParse(req.query);
-
-      if (!queryResult.success) {
-        throw new BadRequestError(
-          'Invalid query parameters',
-          ERROR_CODES.VALIDATION_ERROR
-        );
-      }
+      await sendFriendsLeaderboard(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
-      const { page, limit } = queryResult.data;
-      const weeklySlug = generateWeeklySlug(getWeekStart());
-
-      // Try cache first for first page requests within top 100
-      if (page === 1 && limit <= 100) {
-        try {
-          const cachedEntries = await getCachedWeeklyLeaderboard(weeklySlug, 0, limit - 1);
-
-          if (cachedEntries && cachedEntries.length > 0) {
-            const weekStart = getWeekStart();
-            const weekEnd = new Date(weekStart);
-            weekEnd.setUTCDate(weekEnd.getUTCDate() + 6);
-            weekEnd.setUTCHours(23, 59, 59, 999);
-
-            const cachedResponse: ApiResponse<PaginatedLeaderboard> = {
-              success: true,
-              data: {
-                leaderboard: {
-                  id: weeklySlug,
-                  name: `Weekly Leaderboard`,
-                  timeframe: 'WEEKLY',
-                  periodStart: weekStart.toISOString(),
-                  periodEnd: weekEnd.toISOString(),
-                  entries: cachedEntries,
-                },
-                pagination: {
-                  page: 1,
-                  limit,
-                  total: cachedEntries.length,
-                  totalPages: 1,
-                  hasNext: false,
-                  hasPrev: false,
-                },
-              },
-              meta: {
-                timestamp: new Date().toISOString(),
-                requestId,
-              },
-            };
-
-            logger.debug(`[Leaderboard] Serving weekly leaderboard from cache (${cachedEntries.length} entries)`);
-            res.status(200).json(cachedResponse);
-            return;
-          }
-        } catch (cacheError) {
-          // Cache miss or error - fall through to DB query
-          logger.warn('[Leaderboard] Weekly cache miss, falling back to DB:', cacheError);
-        }
-      }
+// ===========================================
+// GET /api/v1/leaderboard/around-me
+// GET /api/v1/leaderboard/:timeframe/around-me
+// Entries ranked within ?radius=N places of the caller
+// ===========================================
 
-      // Fall back to database query
-      const result = await getWeeklyLeaderboard(queryResult.data);
+router.get(
+  ['/around-me', '/:timeframe/around-me'],
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await sendAroundMeLeaderboard(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
 
-      const response: ApiResponse<PaginatedLeaderboard> = {
-        success: true,
-        data: result,
-        meta: {
-          timestamp: new Date().toISOString(),
-          requestId,
-          pagination: result.pagination,
-        },
-      };
+// ===========================================
+// GET /api/v1/leaderboard/:timeframe
+// global | weekly | monthly | seasonal (?sport=NBA for a per-sport board)
+// ===========================================
 
-      res.status(200).json(response);
+router.get(
+  '/:timeframe',
+  optionalAuth, // Public endpoint, auth optional
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      await sendLeaderboard(parseTimeframe(req), req, res);
     } catch (error) {
       next(error);
     }
@@ -5,6 +5,7 @@
 // TypeScript types for API responses.
 
 import { z } from 'zod';
+import { LeaderboardTimeframe, SportType } from '@prisma/client';
 
 // ===========================================
 // Constants
@@ -14,6 +15,8 @@ const DEFAULT_PAGE = 1;
 const DEFAULT_LIMIT = 20;
 const MAX_LIMIT = 100;
 
+const VALID_SPORTS = Object.values(SportType) as [string, ...string[]];
+
 // ===========================================
 // Query Schema for GET /leaderboard
 // ===========================================
@@ -35,10 +38,52 @@ export const leaderboardQuerySchema = z.object({
       if (isNaN(parsed) || parsed < 1) return DEFAULT_LIMIT;
       return Math.min(parsed, MAX_LIMIT);
     }),
+
+  // Sport filter (optional) - omitted for the all-sports board
+  sport: z
+    .enum(VALID_SPORTS)
+    .optional()
+    .describe('Per-sport leaderboard (NFL, NBA, etc.)'),
 });
 
 export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
 
+// ===========================================
+// Query Schema for GET /leaderboard/:timeframe/around-me
+// ===========================================
+
+const DEFAULT_AROUND_ME_RADIUS = 5;
+const MAX_AROUND_ME_RADIUS = 25;
+
+export const aroundMeQuerySchema = z.object({
+  sport: z
+    .enum(VALID_SPORTS)
+    .optional()
+    .describe('Per-sport leaderboard (NFL, NBA, etc.)'),
+
+  // Entries shown above and below the caller
+  radius: z
+    .string()
+    .optional()
+    .transform((val) => {
+      const parsed = parseInt(val || String(DEFAULT_AROUND_ME_RADIUS), 10);
+      if (isNaN(parsed) || parsed < 1) return DEFAULT_AROUND_ME_RADIUS;
+      return Math.min(parsed, MAX_AROUND_ME_RADIUS);
+    }),
+});
+
+export type AroundMeQuery = z.infer<typeof aroundMeQuerySchema>;
+
+// ===========================================
+// Param Schema for GET /leaderboard/:timeframe
+// ===========================================
+
+export const leaderboardTimeframeParamSchema = z.object({
+  timeframe: z
+    .enum(['global', 'weekly', 'monthly', 'seasonal'])
+    .transform((val) => val.toUpperCase() as LeaderboardTimeframe),
+});
+
 // ===========================================
 // Response Types
 // ===========================================
@@ -62,7 +107,8 @@ export interface LeaderboardEntryResponse {
 export interface LeaderboardResponse {
   id: string;
   name: string;
-  timeframe: 'GLOBAL' | 'WEEKLY';
+  timeframe: LeaderboardTimeframe;
+  sport: SportType | null;
   periodStart: string | null;
   periodEnd: string | null;
   entries: LeaderboardEntryResponse[];
@@ -79,3 +125,11 @@ export interface PaginatedLeaderboard {
     hasPrev: boolean;
   };
 }
+
+export interface AroundMeLeaderboard {
+  leaderboard: LeaderboardResponse;
+  /** Caller's rank on the full board, null if they have no entry yet */
+  userRank: number | null;
+  /** Total entries on the full board */
+  total: number;
+}
@@ -0,0 +1,291 @@
+// =====================================================
+// Leaderboard Service Tests
+// =====================================================
+// Covers period boundaries, slug generation, timeframe/sport
+// leaderboard resolution, and the friends and around-me views.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  seasonFindUnique: vi.fn(),
+  seasonFindFirst: vi.fn(),
+  leaderboardFindUnique: vi.fn(),
+  entryFindMany: vi.fn(),
+  entryCount: vi.fn(),
+  getAcceptedFriendIds: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => ({
+  prisma: {
+    season: {
+      findUnique: mocks.seasonFindUnique,
+      findFirst: mocks.seasonFindFirst,
+    },
+    leaderboard: {
+      findUnique: mocks.leaderboardFindUnique,
+    },
+    leaderboardEntry: {
+      findMany: mocks.entryFindMany,
+      count: mocks.entryCount,
+    },
+  },
+}));
+
+vi.mock('../friends/friends.service', () => ({
+  getAcceptedFriendIds: mocks.getAcceptedFriendIds,
+}));
+
+import { prisma } from '../../lib/prisma';
+import {
+  getMonthStart,
+  getMonthEnd,
+  generateMonthlySlug,
+  generateWeeklySlug,
+  scopeSlugToSport,
+  resolveMatchSport,
+  resolveLeaderboardPeriod,
+  getFriendsLeaderboard,
+  getAroundMeLeaderboard,
+  GLOBAL_LEADERBOARD_SLUG,
+} from './leaderboard.service';
+
+const SEASON = {
+  id: 'season-1',
+  name: 'Season 3',
+  slug: '2026-s3',
+  startDate: new Date('2026-01-01T00:00:00.000Z'),
+  endDate: new Date('2026-03-31T23:59:59.999Z'),
+};
+
+const WEEKLY_BOARD = {
+  id: 'lb-weekly',
+  name: 'Weekly Leaderboard - Week 7, 2026',
+  periodStart: new Date('2026-02-09T00:00:00.000Z'),
+  periodEnd: new Date('2026-02-15T23:59:59.999Z'),
+};
+
+function createEntry(userId: string, score: number, previousRank: number | null = null) {
+  return {
+    userId,
+    score,
+    wins: 3,
+    losses: 1,
+    draws: 0,
+    matchesPlayed: 4,
+    winRate: 0.75,
+    currentStreak: 2,
+    previousRank,
+    user: { username: `${userId}-name`, avatarUrl: null },
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ===========================================
+// Test: Period Helpers
+// ===========================================
+
+describe('Monthly Period Helpers', () => {
+  it('returns the first and last instant of the UTC month', () => {
+    const date = new Date('2026-02-14T18:30:00.000Z');
+
+    expect(getMonthStart(date).toISOString()).toBe('2026-02-01T00:00:00.000Z');
+    expect(getMonthEnd(date).toISOString()).toBe('2026-02-28T23:59:59.999Z');
+  });
+
+  it('handles December rolling into the next year', () => {
+    const date = new Date('2026-12-31T23:00:00.000Z');
+
+    expect(getMonthEnd(date).toISOString()).toBe('2026-12-31T23:59:59.999Z');
+  });
+
+  it('generates zero-padded monthly slugs', () => {
+    expect(generateMonthlySlug(new Date('2026-03-01T00:00:00.000Z'))).toBe('monthly-2026-03');
+  });
+});
+
+describe('Sport Scoping', () => {
+  it('keeps the base slug for the all-sports board', () => {
+    expect(scopeSlugToSport(GLOBAL_LEADERBOARD_SLUG, null)).toBe('global-all-time');
+  });
+
+  it('suffixes the lowercase sport for per-sport boards', () => {
+    expect(scopeSlugToSport('weekly-2026-W04', 'NBA')).toBe('weekly-2026-W04-nba');
+  });
+
+  it('attributes single-sport matches to that sport', () => {
+    expect(resolveMatchSport(['NFL', 'NFL', 'NFL'])).toBe('NFL');
+  });
+
+  it('does not attribute mixed-sport matches to any sport', () => {
+    expect(resolveMatchSport(['NFL', 'NBA'])).toBeNull();
+    expect(resolveMatchSport([])).toBeNull();
+  });
+});
+
+// ===========================================
+// Test: Period Resolution
+// ===========================================
+
+describe('resolveLeaderboardPeriod', () => {
+  const date = new Date('2026-02-11T12:00:00.000Z'); // Wednesday
+
+  it('resolves the global board without period boundaries', async () => {
+    const period = await resolveLeaderboardPeriod(prisma, 'GLOBAL', 'NHL', { date });
+
+    expect(period).toMatchObject({
+      slug: 'global-all-time-nhl',
+      timeframe: 'GLOBAL',
+      sport: 'NHL',
+      periodStart: null,
+      periodEnd: null,
+    });
+  });
+
+  it('resolves the current week', async () => {
+    const period = await resolveLeaderboardPeriod(prisma, 'WEEKLY', null, { date });
+
+    expect(period!.slug).toBe(generateWeeklySlug(new Date('2026-02-09T00:00:00.000Z')));
+    expect(period!.periodStart!.toISOString()).toBe('2026-02-09T00:00:00.000Z');
+    expect(period!.periodEnd!.toISOString()).toBe('2026-02-15T23:59:59.999Z');
+  });
+
+  it('resolves the current month', async () => {
+    const period = await resolveLeaderboardPeriod(prisma, 'MONTHLY', 'NBA', { date });
+
+    expect(period).toMatchObject({
+      slug: 'monthly-2026-02-nba',
+      name: 'NBA Monthly Leaderboard - February 2026',
+    });
+  });
+
+  it('resolves the current season when no season is given', async () => {
+    mocks.seasonFindFirst.mockResolvedValue(SEASON);
+
+    const period = await resolveLeaderboardPeriod(prisma, 'SEASONAL', null, { date });
+
+    expect(mocks.seasonFindFirst).toHaveBeenCalledWith({ where: { isCurrent: true } });
+    expect(period).toMatchObject({
+      slug: 'season-2026-s3',
+      name: 'Season 3 Leaderboard',
+      periodStart: SEASON.startDate,
+      periodEnd: SEASON.endDate,
+    });
+  });
+
+  it("resolves a match's own season when one is given", async () => {
+    mocks.seasonFindUnique.mockResolvedValue(SEASON);
+
+    const period = await resolveLeaderboardPeriod(prisma, 'SEASONAL', 'MLB', {
+      seasonId: 'season-1',
+    });
+
+    expect(mocks.seasonFindUnique).toHaveBeenCalledWith({ where: { id: 'season-1' } });
+    expect(mocks.seasonFindFirst).not.toHaveBeenCalled();
+    expect(period!.slug).toBe('season-2026-s3-mlb');
+  });
+
+  it('returns null for seasonal boards when there is no season', async () => {
+    mocks.seasonFindFirst.mockResolvedValue(null);
+
+    const period = await resolveLeaderboardPeriod(prisma, 'SEASONAL', null, { date });
+
+    expect(period).toBeNull();
+  });
+});
+
+// ===========================================
+// Test: Friends Leaderboard
+// ===========================================
+
+describe('getFriendsLeaderboard', () => {
+  it('ranks only the caller and accepted friends', async () => {
+    mocks.getAcceptedFriendIds.mockResolvedValue(['friend-1', 'friend-2']);
+    mocks.leaderboardFindUnique.mockResolvedValue(WEEKLY_BOARD);
+    mocks.entryFindMany.mockResolvedValue([
+      createEntry('friend-2', 300, 12),
+      createEntry('user-1', 250, 40),
+    ]);
+    mocks.entryCount.mockResolvedValue(2);
+
+    const result = await getFriendsLeaderboard('user-1', 'WEEKLY', { page: 1, limit: 20 });
+
+    expect(mocks.entryFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          leaderboardId: 'lb-weekly',
+          userId: { in: ['user-1', 'friend-1', 'friend-2'] },
+        },
+      })
+    );
+    expect(result.leaderboard.entries.map((e) => [e.userId, e.rank])).toEqual([
+      ['friend-2', 1],
+      ['user-1', 2],
+    ]);
+    // Board-wide previous ranks don't apply within the friends group
+    expect(result.leaderboard.entries[0].rankChange).toBeNull();
+    expect(result.pagination.total).toBe(2);
+  });
+
+  it('returns an empty page when the board has no entries yet', async () => {
+    mocks.getAcceptedFriendIds.mockResolvedValue([]);
+    mocks.leaderboardFindUnique.mockResolvedValue(null);
+
+    const result = await getFriendsLeaderboard('user-1', 'MONTHLY', {
+      page: 1,
+      limit: 20,
+      sport: 'NBA',
+    });
+
+    expect(mocks.entryFindMany).not.toHaveBeenCalled();
+    expect(result.leaderboard.entries).toEqual([]);
+    expect(result.leaderboard.sport).toBe('NBA');
+    expect(result.pagination.total).toBe(0);
+  });
+});
+
+// ===========================================
+// Test: Around Me
+// ===========================================
+
+describe('getAroundMeLeaderboard', () => {
+  it('orders entries by the cached ranking window', async () => {
+    mocks.leaderboardFindUnique.mockResolvedValue(WEEKLY_BOARD);
+    // Database order doesn't match rank order
+    mocks.entryFindMany.mockResolvedValue([
+      createEntry('user-below', 90, 73),
+      createEntry('user-1', 100, 75),
+      createEntry('user-above', 110, 70),
+    ]);
+
+    const result = await getAroundMeLeaderboard(
+      'user-1',
+      'WEEKLY',
+      { radius: 1 },
+      { rank: 72, startRank: 71, userIds: ['user-above', 'user-1', 'user-below'], total: 500 }
+    );
+
+    expect(result.userRank).toBe(72);
+    expect(result.total).toBe(500);
+    expect(result.leaderboard.entries.map((e) => [e.userId, e.rank, e.rankChange])).toEqual([
+      ['user-above', 71, -1],
+      ['user-1', 72, 3],
+      ['user-below', 73, 0],
+    ]);
+  });
+
+  it('returns no entries when the board does not exist yet', async () => {
+    mocks.leaderboardFindUnique.mockResolvedValue(null);
+
+    const result = await getAroundMeLeaderboard('user-1', 'WEEKLY', { radius: 5 });
+
+    expect(result).toMatchObject({ userRank: null, total: 0 });
+    expect(result.leaderboard.entries).toEqual([]);
+  });
+});
@@ -2,18 +2,24 @@
 // Leaderboard Service
 // =====================================================
 // Business logic for leaderboard queries and updates.
-// Handles both global (all-time) and weekly leaderboards.
+// Handles global (all-time), weekly, monthly and seasonal leaderboards,
+// each with an all-sports board and optional per-sport boards.
 
-import { Prisma } from '@prisma/client';
+import { Prisma, LeaderboardTimeframe, SportType } from '@prisma/client';
 import { prisma, PrismaTransactionClient } from '../../lib/prisma';
 import { logger } from '../../utils/logger';
 import { NotFoundError } from '../../utils/errors';
 import { ERROR_CODES } from '@pick-rivals/shared-types';
+import { getAcceptedFriendIds } from '../friends/friends.service';
 import {
   LeaderboardQuery,
   LeaderboardEntryResponse,
+  LeaderboardResponse,
   PaginatedLeaderboard,
+  AroundMeQuery,
+  AroundMeLeaderboard,
 } from './leaderboard.schemas';
+import type { CachedRankWindow } from './leaderboard-cache.service';
 
 // ===========================================
 // Constants
@@ -21,6 +27,53 @@ import {
 
 export const GLOBAL_LEADERBOARD_SLUG = 'global-all-time';
 export const WEEKLY_LEADERBOARD_SLUG_PREFIX = 'weekly-';
+export const MONTHLY_LEADERBOARD_SLUG_PREFIX = 'monthly-';
+export const SEASONAL_LEADERBOARD_SLUG_PREFIX = 'season-';
+
+export const LEADERBOARD_TIMEFRAMES: LeaderboardTimeframe[] = [
+  'GLOBAL',
+  'WEEKLY',
+  'MONTHLY',
+  'SEASONAL',
+];
+
+const TIMEFRAME_DISPLAY_ORDER: Record<LeaderboardTimeframe, number> = {
+  GLOBAL: 0,
+  WEEKLY: 1,
+  MONTHLY: 2,
+  SEASONAL: 3,
+};
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Which boards a settled match counts toward beyond the all-sports boards.
+ */
+export interface LeaderboardScope {
+  /** Sport shared by every pick in the match (null = mixed sports) */
+  sport?: SportType | null;
+  /** Season the match was attributed to */
+  seasonId?: string | null;
+}
+
+/**
+ * Identity and time boundaries of one leaderboard for a timeframe and sport.
+ */
+export interface LeaderboardPeriod {
+  slug: string;
+  name: string;
+  timeframe: LeaderboardTimeframe;
+  sport: SportType | null;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+}
 
 // ===========================================
 // Helper Functions
@@ -81,6 +134,149 @@ export function generateWeeklySlug(weekStart: Date): string {
   return `${WEEKLY_LEADERBOARD_SLUG_PREFIX}${year}-W${weekNum.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Get the start of the month (1st 00:00:00 UTC).
+ */
+export function getMonthStart(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Get the end of the month (last day 23:59:59.999 UTC).
+ */
+export function getMonthEnd(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0, 23, 59, 59, 999));
+}
+
+/**
+ * Generate slug for a monthly leaderboard.
+ * Format: monthly-2026-02
+ */
+export function generateMonthlySlug(monthStart: Date): string {
+  const month = (monthStart.getUTCMonth() + 1).toString().padStart(2, '0');
+  return `${MONTHLY_LEADERBOARD_SLUG_PREFIX}${monthStart.getUTCFullYear()}-${month}`;
+}
+
+/**
+ * Generate slug for a seasonal leaderboard.
+ * Format: season-<season slug>
+ */
+export function generateSeasonalSlug(seasonSlug: string): string {
+  return `${SEASONAL_LEADERBOARD_SLUG_PREFIX}${seasonSlug}`;
+}
+
+/**
+ * Scope a leaderboard slug to a single sport.
+ * Format: weekly-2026-W04-nba (all-sports boards keep the base slug)
+ */
+export function scopeSlugToSport(slug: string, sport: SportType | null): string {
+  return sport ? `${slug}-${sport.toLowerCase()}` : slug;
+}
+
+/**
+ * Get the sport a match counts toward for per-sport boards.
+ * Only single-sport matches qualify; mixed-sport matches return null.
+ */
+export function resolveMatchSport(sports: SportType[]): SportType | null {
+  if (sports.length === 0) return null;
+  return sports.every((sport) => sport === sports[0]) ? sports[0] : null;
+}
+
+/**
+ * Resolve the leaderboard identity for a timeframe and sport at a point in time.
+ * SEASONAL uses the given season, or the current season when none is given.
+ *
+ * @returns null for SEASONAL when there is no season to attribute to
+ */
+export async function resolveLeaderboardPeriod(
+  client: PrismaTransactionClient,
+  timeframe: LeaderboardTimeframe,
+  sport: SportType | null,
+  options: { date?: Date; seasonId?: string | null } = {}
+): Promise<LeaderboardPeriod | null> {
+  const date = options.date ?? new Date();
+  const namePrefix = sport ? `${sport} ` : '';
+
+  switch (timeframe) {
+    case 'GLOBAL':
+      return {
+        slug: scopeSlugToSport(GLOBAL_LEADERBOARD_SLUG, sport),
+        name: sport ? `${sport} All-Time Leaderboard` : 'Global All-Time Leaderboard',
+        timeframe,
+        sport,
+        periodStart: null,
+        periodEnd: null,
+      };
+
+    case 'WEEKLY': {
+      const weekStart = getWeekStart(date);
+      const weekNum = getISOWeekNumber(weekStart);
+      return {
+        slug: scopeSlugToSport(generateWeeklySlug(weekStart), sport),
+        name: `${namePrefix}Weekly Leaderboard - Week ${weekNum}, ${weekStart.getUTCFullYear()}`,
+        timeframe,
+        sport,
+        periodStart: weekStart,
+        periodEnd: getWeekEnd(weekStart),
+      };
+    }
+
+    case 'MONTHLY': {
+      const monthStart = getMonthStart(date);
+      return {
+        slug: scopeSlugToSport(generateMonthlySlug(monthStart), sport),
+        name: `${namePrefix}Monthly Leaderboard - ${MONTH_NAMES[monthStart.getUTCMonth()]} ${monthStart.getUTCFullYear()}`,
+        timeframe,
+        sport,
+        periodStart: monthStart,
+        periodEnd: getMonthEnd(monthStart),
+      };
+    }
+
+    case 'SEASONAL': {
+      const season = options.seasonId
+        ? await client.season.findUnique({ where: { id: options.seasonId } })
+        : await client.season.findFirst({ where: { isCurrent: true } });
+
+      if (!season) {
+        return null;
+      }
+
+      return {
+        slug: scopeSlugToSport(generateSeasonalSlug(season.slug), sport),
+        name: `${namePrefix}${season.name} Leaderboard`,
+        timeframe,
+        sport,
+        periodStart: season.startDate,
+        periodEnd: season.endDate,
+      };
+    }
+  }
+}
+
+/**
+ * Find a leaderboard by its period slug, creating it if it doesn't exist yet.
+ */
+export async function findOrCreateLeaderboard(
+  client: PrismaTransactionClient,
+  period: LeaderboardPeriod
+) {
+  return client.leaderboard.upsert({
+    where: { slug: period.slug },
+    update: {},
+    create: {
+      name: period.name,
+      slug: period.slug,
+      timeframe: period.timeframe,
+      sport: period.sport,
+      status: 'active',
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      displayOrder: TIMEFRAME_DISPLAY_ORDER[period.timeframe],
+    },
+  });
+}
+
 // ===========================================
 // Raw Query Result Types
 // ===========================================
@@ -101,30 +297,63 @@ interface RawLeaderboardEntry {
   dynamic_rank: bigint;
 }
 
+interface LeaderboardEntryWithUser {
+  userId: string;
+  score: Prisma.Decimal;
+  wins: number;
+  losses: number;
+  draws: number;
+  matchesPlayed: number;
+  winRate: Prisma.Decimal;
+  currentStreak: number;
+  previousRank: number | null;
+  user: { username: string; avatarUrl: string | null };
+}
+
+const ENTRY_ORDER_BY: Prisma.LeaderboardEntryOrderByWithRelationInput[] = [
+  { score: 'desc' },
+  { winRate: 'desc' },
+  { matchesPlayed: 'desc' },
+];
+
 // ===========================================
 // Query Functions
 // ===========================================
 
 /**
- * Get global all-time leaderboard with pagination.
+ * Get a leaderboard for a timeframe (and optional sport) with pagination.
  * Ranks are calculated dynamically using window functions.
  */
-export async function getGlobalLeaderboard(
+export async function getLeaderboard(
+  timeframe: LeaderboardTimeframe,
   query: LeaderboardQuery
 ): Promise<PaginatedLeaderboard> {
   const { page, limit } = query;
+  const sport = (query.sport ?? null) as SportType | null;
   const offset = (page - 1) * limit;
 
-  // Find the global leaderboard
-  const leaderboard = await prisma.leaderboard.findUnique({
-    where: { slug: GLOBAL_LEADERBOARD_SLUG },
-  });
+  const period = await resolveLeaderboardPeriod(prisma, timeframe, sport);
 
-  if (!leaderboard) {
-    throw new NotFoundError(
-      'Global leaderboard not found. Please contact support.',
-      ERROR_CODES.INTERNAL_ERROR
-    );
+  if (!period) {
+    throw new NotFoundError('No active season', ERROR_CODES.LEADERBOARD_NOT_FOUND);
+  }
+
+  // The all-sports global board is created at bootstrap - every other
+  // board is created on-demand in case no match has been settled into it yet
+  let leaderboard;
+  if (timeframe === 'GLOBAL' && !sport) {
+    leaderboard = await prisma.leaderboard.findUnique({
+      where: { slug: period.slug },
+    });
+
+    if (!leaderboard) {
+      throw new NotFoundError(
+        'Global leaderboard not found. Please contact support.',
+        ERROR_CODES.INTERNAL_ERROR
+      );
+    }
+  } else {
+    leaderboard = await findOrCreateLeaderboard(prisma, period);
   }
 
   // Get total count for pagination
@@ -166,9 +395,10 @@ export async function getGlobalLeaderboard(
     leaderboard: {
       id: leaderboard.id,
       name: leaderboard.name,
-      timeframe: 'GLOBAL',
-      periodStart: null,
-      periodEnd: null,
+      timeframe,
+      sport,
+      periodStart: leaderboard.periodStart?.toISOString() ?? null,
+      periodEnd: leaderboard.periodEnd?.toISOString() ?? null,
       entries: transformedEntries,
     },
     pagination: {
@@ -183,70 +413,63 @@ export async function getGlobalLeaderboard(
 }
 
 /**
- * Get current weekly leaderboard with pagination.
+ * Get a leaderboard ranking only the caller and their ACCEPTED friends.
+ * Ranks are positions within the friends group, so rank changes are omitted.
  */
-export async function getWeeklyLeaderboard(
+export async function getFriendsLeaderboard(
+  userId: string,
+  timeframe: LeaderboardTimeframe,
   query: LeaderboardQuery
 ): Promise<PaginatedLeaderboard> {
   const { page, limit } = query;
+  const sport = (query.sport ?? null) as SportType | null;
   const offset = (page - 1) * limit;
 
-  const weekStart = getWeekStart();
-  const slug = generateWeeklySlug(weekStart);
-
-  // Find or create current weekly leaderboard
-  let leaderboard = await prisma.leaderboard.findUnique({
-    where: { slug },
-  });
+  const period = await resolveLeaderboardPeriod(prisma, timeframe, sport);
 
-  if (!leaderboard) {
-    // Create it on-demand if cron hasn't run yet
-    leaderboard = await createWeeklyLeaderboard(weekStart);
+  if (!period) {
+    throw new NotFoundError('No active season', ERROR_CODES.LEADERBOARD_NOT_FOUND);
   }
 
-  // Get total count
-  const total = await prisma.leaderboardEntry.count({
-    where: { leaderboardId: leaderboard.id },
+  const friendIds = await getAcceptedFriendIds(userId);
+  const leaderboard = await prisma.leaderboard.findUnique({
+    where: { slug: period.slug },
   });
 
-  // Query with dynamic ranking (same tiebreaker logic)
-  const entries = await prisma.$queryRaw<RawLeaderboardEntry[]>`
-    SELECT
-      le.id,
-      le.user_id,
-      u.username,
-      u.avatar_url,
-      le.score,
-      le.wins,
-      le.losses,
-      le.draws,
-      le.matches_played,
-      le.win_rate,
-      le.current_streak,
-      le.previous_rank,
-      ROW_NUMBER() OVER (
-        ORDER BY le.score DESC, le.win_rate DESC, le.matches_played DESC
-      ) as dynamic_rank
-    FROM leaderboard_entries le
-    JOIN users u ON le.user_id = u.id
-    WHERE le.leaderboard_id = ${leaderboard.id}
-    ORDER BY le.score DESC, le.win_rate DESC, le.matches_played DESC
-    LIMIT ${limit}
-    OFFSET ${offset}
-  `;
+  let records: LeaderboardEntryWithUser[] = [];
+  let total = 0;
+
+  // A board with no settled matches yet has no entries to rank
+  if (leaderboard) {
+    const where = {
+      leaderboardId: leaderboard.id,
+      userId: { in: [userId, ...friendIds] },
+    };
+
+    [records, total] = await Promise.all([
+      prisma.leaderboardEntry.findMany({
+        where,
+        include: { user: { select: { username: true, avatarUrl: true } } },
+        orderBy: ENTRY_ORDER_BY,
+        skip: offset,
+        take: limit,
+      }),
+      prisma.leaderboardEntry.count({ where }),
+    ]);
+  }
 
-  const transformedEntries = transformEntries(entries);
   const totalPages = Math.ceil(total / limit);
 
   return {
-    leaderboard: {
-      id: leaderboard.id,
-      name: leaderboard.name,
-      timeframe: 'WEEKLY',
-      periodStart: leaderboard.periodStart?.toISOString() ?? null,
-      periodEnd: leaderboard.periodEnd?.toISOString() ?? null,
-      entries: transformedEntries,
-    },
+    leaderboard: buildLeaderboardResponse(
+      leaderboard,
+      period,
+      records.map((record, i) => ({
+        ...transformEntryRecord(record, offset + i + 1),
+        previousRank: null,
+        rankChange: null,
+      }))
+    ),
     pagination: {
       page,
       limit,
@@ -258,6 +481,168 @@ export async function getWeeklyLeaderboard(
   };
 }
 
+/**
+ * Get the entries ranked within `radius` places above and below the caller.
+ * Uses the cached ranking window when the caller has one, otherwise
+ * ranks the full board in the database.
+ */
+export async function getAroundMeLeaderboard(
+  userId: string,
+  timeframe: LeaderboardTimeframe,
+  query: AroundMeQuery,
+  cachedWindow: CachedRankWindow | null = null
+): Promise<AroundMeLeaderboard> {
+  const sport = (query.sport ?? null) as SportType | null;
+  const period = await resolveLeaderboardPeriod(prisma, timeframe, sport);
+
+  if (!period) {
+    throw new NotFoundError('No active season', ERROR_CODES.LEADERBOARD_NOT_FOUND);
+  }
+
+  const leaderboard = await prisma.leaderboard.findUnique({
+    where: { slug: period.slug },
+  });
+
+  if (!leaderboard) {
+    return { leaderboard: buildLeaderboardResponse(null, period, []), userRank: null, total: 0 };
+  }
+
+  // Fast path: ranks come from the Redis ZSET, details from the database
+  if (cachedWindow) {
+    const records = await prisma.leaderboardEntry.findMany({
+      where: { leaderboardId: leaderboard.id, userId: { in: cachedWindow.userIds } },
+      include: { user: { select: { username: true, avatarUrl: true } } },
+    });
+    const recordsByUser = new Map(records.map((record) => [record.userId, record]));
+
+    const entries = cachedWindow.userIds
+      .map((id, i) => {
+        const record = recordsByUser.get(id);
+        return record ? transformEntryRecord(record, cachedWindow.startRank + i) : null;
+      })
+      .filter((entry): entry is LeaderboardEntryResponse => entry !== null);
+
+    return {
+      leaderboard: buildLeaderboardResponse(leaderboard, period, entries),
+      userRank: cachedWindow.rank,
+      total: cachedWindow.total,
+    };
+  }
+
+  const [total, entries] = await Promise.all([
+    prisma.leaderboardEntry.count({ where: { leaderboardId: leaderboard.id } }),
+    prisma.$queryRaw<RawLeaderboardEntry[]>`
+      WITH ranked AS (
+        SELECT
+          le.*,
+          ROW_NUMBER() OVER (
+            ORDER BY le.score DESC, le.win_rate DESC, le.matches_played DESC
+          ) as dynamic_rank
+        FROM leaderboard_entries le
+        WHERE le.leaderboard_id = ${leaderboard.id}
+      ),
+      me AS (
+        SELECT dynamic_rank FROM ranked WHERE user_id = ${userId}
+      )
+      SELECT
+        r.id,
+        r.user_id,
+        u.username,
+        u.avatar_url,
+        r.score,
+        r.wins,
+        r.losses,
+        r.draws,
+        r.matches_played,
+        r.win_rate,
+        r.current_streak,
+        r.previous_rank,
+        r.dynamic_rank
+      FROM ranked r
+      JOIN users u ON r.user_id = u.id
+      CROSS JOIN me
+      WHERE r.dynamic_rank BETWEEN me.dynamic_rank - ${query.radius} AND me.dynamic_rank + ${query.radius}
+      ORDER BY r.dynamic_rank
+    `,
+  ]);
+
+  const transformedEntries = transformEntries(entries);
+  const userEntry = transformedEntries.find((entry) => entry.userId === userId);
+
+  return {
+    leaderboard: buildLeaderboardResponse(leaderboard, period, transformedEntries),
+    userRank: userEntry?.rank ?? null,
+    total,
+  };
+}
+
+/**
+ * Get the sport a settled match counts toward, from its slips' picks.
+ */
+export async function getMatchSport(matchId: string): Promise<SportType | null> {
+  const match = await prisma.match.findUnique({
+    where: { id: matchId },
+    select: {
+      creatorSlip: { select: { picks: { select: { event: { select: { sport: true } } } } } },
+      opponentSlip: { select: { picks: { select: { event: { select: { sport: true } } } } } },
+    },
+  });
+
+  if (!match) return null;
+
+  const picks = [...(match.creatorSlip?.picks ?? []), ...(match.opponentSlip?.picks ?? [])];
+  return resolveMatchSport(picks.map((pick) => pick.event.sport));
+}
+
+/**
+ * Build the leaderboard metadata for a response. Falls back to the resolved
+ * period when the board hasn't been created yet.
+ */
+function buildLeaderboardResponse(
+  leaderboard: { id: string; name: string; periodStart: Date | null; periodEnd: Date | null } | null,
+  period: LeaderboardPeriod,
+  entries: LeaderboardEntryResponse[]
+): LeaderboardResponse {
+  const periodStart = leaderboard ? leaderboard.periodStart : period.periodStart;
+  const periodEnd = leaderboard ? leaderboard.periodEnd : period.periodEnd;
+
+  return {
+    id: leaderboard?.id ?? period.slug,
+    name: leaderboard?.name ?? period.name,
+    timeframe: period.timeframe,
+    sport: period.sport,
+    periodStart: periodStart?.toISOString() ?? null,
+    periodEnd: periodEnd?.toISOString() ?? null,
+    entries,
+  };
+}
+
+/**
+ * Transform a Prisma entry record (with user) to response format.
+ */
+function transformEntryRecord(
+  entry: LeaderboardEntryWithUser,
+  rank: number
+): LeaderboardEntryResponse {
+  const previousRank = entry.previousRank;
+
+  return {
+    rank,
+    previousRank,
+    rankChange: previousRank !== null ? previousRank - rank : null,
+    userId: entry.userId,
+    username: entry.user.username,
+    avatarUrl: entry.user.avatarUrl,
+    score: decimalToNumber(entry.score),
+    wins: entry.wins,
+    losses: entry.losses,
+    draws: entry.draws,
+    matchesPlayed: entry.matchesPlayed,
+    winRate: decimalToNumber(entry.winRate),
+    currentStreak: entry.currentStreak,
+  };
+}
+
 /**
  * Transform raw query results to response format.
  */
@@ -287,36 +672,14 @@ function transformEntries(entries: RawLeaderboardEntry[]): LeaderboardEntryRespo
   });
 }
 
-// ===========================================
-// Leaderboard Creation Functions
-// ===========================================
-
-/**
- * Create a weekly leaderboard record.
- */
-async function createWeeklyLeaderboard(weekStart: Date) {
-  const weekEnd = getWeekEnd(weekStart);
-  const slug = generateWeeklySlug(weekStart);
-  const weekNum = getISOWeekNumber(weekStart);
-
-  return prisma.leaderboard.create({
-    data: {
-      name: `Weekly Leaderboard - Week ${weekNum}, ${weekStart.getUTCFullYear()}`,
-      slug,
-      timeframe: 'WEEKLY',
-      status: 'active',
-      periodStart: weekStart,
-      periodEnd: weekEnd,
-    },
-  });
-}
-
 // ===========================================
 // Leaderboard Entry Update Functions
 // ===========================================
 
 /**
  * Updates leaderboard entries for both players after a match settlement.
+ * Every match counts toward the all-sports board of each timeframe; single-sport
+ * matches also count toward that sport's boards.
  * MUST be called within the settlement transaction for atomicity.
  *
  * @param tx - Prisma transaction client
@@ -326,6 +689,7 @@ async function createWeeklyLeaderboard(weekStart: Date) {
  * @param isDraw - Whether match was a draw
  * @param creatorPoints - Points earned by creator
  * @param opponentPoints - Points earned by opponent
+ * @param scope - Sport and season the match is attributed to
  */
 export async function updateLeaderboardEntries(
   tx: PrismaTransactionClient,
@@ -334,45 +698,42 @@ export async function updateLeaderboardEntries(
   winnerId: string | null,
   isDraw: boolean,
   creatorPoints: number,
-  opponentPoints: number
+  opponentPoints: number,
+  scope: LeaderboardScope = {}
 ): Promise<void> {
   // Get global leaderboard
   const globalLeaderboard = await tx.leaderboard.findUnique({
     where: { slug: GLOBAL_LEADERBOARD_SLUG },
   });
 
-  // Get or create weekly leaderboard
-  const weekStart = getWeekStart();
-  const weeklySlug = generateWeeklySlug(weekStart);
-  let weeklyLeaderboard = await tx.leaderboard.findUnique({
-    where: { slug: weeklySlug },
-  });
-
-  // Create weekly if it doesn't exist
-  if (!weeklyLeaderboard) {
-    const weekEnd = getWeekEnd(weekStart);
-    const weekNum = getISOWeekNumber(weekStart);
-    weeklyLeaderboard = await tx.leaderboard.create({
-      data: {
-        name: `Weekly Leaderboard - Week ${weekNum}, ${weekStart.getUTCFullYear()}`,
-        slug: weeklySlug,
-        timeframe: 'WEEKLY',
-        status: 'active',
-        periodStart: weekStart,
-        periodEnd: weekEnd,
-      },
-    });
-    logger.info(`[Leaderboard] Created weekly leaderboard during settlement: ${weeklySlug}`);
-  }
-
   if (!globalLeaderboard) {
     logger.error('[Leaderboard] Global leaderboard not found during settlement!');
     // Don't fail settlement, but log the error for investigation
     return;
   }
 
-  // Update entries for both leaderboards
-  const leaderboardIds = [globalLeaderboard.id, weeklyLeaderboard.id];
+  const sports: Array<SportType | null> = scope.sport ? [null, scope.sport] : [null];
+  const leaderboardIds: string[] = [];
+
+  // Get or create every other board this match counts toward
+  for (const timeframe of LEADERBOARD_TIMEFRAMES) {
+    for (const sport of sports) {
+      if (timeframe === 'GLOBAL' && !sport) {
+        leaderboardIds.push(globalLeaderboard.id);
+        continue;
+      }
+
+      const period = await resolveLeaderboardPeriod(tx, timeframe, sport, {
+        seasonId: scope.seasonId,
+      });
+
+      // No season to attribute to - skip seasonal boards
+      if (!period) continue;
+
+      const leaderboard = await findOrCreateLeaderboard(tx, period);
+      leaderboardIds.push(leaderboard.id);
+    }
+  }
 
   for (const leaderboardId of leaderboardIds) {
     await updateUserEntry(tx, leaderboardId, creatorId, winnerId, isDraw, creatorPoints);
@@ -392,8 +753,9 @@ export async function updateLeaderboardEntries(
   }
 
   logger.info(
-    `[Leaderboard] Updated entries for users ${creatorId} and ${opponentId} ` +
-      `(winner: ${winnerId ?? 'draw'}, creator: ${creatorPoints}pts, opponent: ${opponentPoints}pts)`
+    `[Leaderboard] Updated ${leaderboardIds.length} leaderboards for users ${creatorId} and ${opponentId} ` +
+      `(winner: ${winnerId ?? 'draw'}, sport: ${scope.sport ?? 'mixed'}, ` +
+      `creator: ${creatorPoints}pts, opponent: ${opponentPoints}pts)`
   );
 }
 
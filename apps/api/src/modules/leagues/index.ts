@@ -0,0 +1,7 @@
+// =====================================================
+// Leagues Module - Barrel Export
+// =====================================================
+
+export { default as leaguesRoutes } from './leagues.controller';
+export * from './leagues.service';
+export * from './leagues.schemas';
@@ -0,0 +1,282 @@
+// =====================================================
+// League Controller
+// =====================================================
+// HTTP layer for private leagues.
+// All business logic is delegated to leagues.service.ts
+// CRITICAL: All endpoints require authentication.
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { ApiResponse } from '@pick-rivals/shared-types';
+import { requireAuth, getAuthenticatedUser, creationRateLimiter } from '../../middleware';
+import { validateRequest } from '../../middleware/validation.middleware';
+import {
+  createLeague,
+  getUserLeagues,
+  getLeagueDetails,
+  joinLeague,
+  leaveLeague,
+  archiveLeague,
+  submitLeagueSlip,
+} from './leagues.service';
+import {
+  createLeagueSchema,
+  joinLeagueSchema,
+  submitLeagueSlipSchema,
+  CreateLeagueInput,
+  JoinLeagueInput,
+  SubmitLeagueSlipInput,
+  LeagueDetails,
+  LeagueEntryInfo,
+  LeagueSummary,
+} from './leagues.schemas';
+
+const router = Router();
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+/**
+ * Generates a unique request ID for tracing.
+ */
+function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// ===========================================
+// Routes
+// ===========================================
+
+/**
+ * POST /api/v1/leagues
+ * Create a private league. The creator becomes its owner and first member.
+ *
+ * Auth: Required
+ * Body: { name, stakeAmount, slipSize?, maxMembers?, scheduleDay, scheduleHour }
+ * Response: 201 with league details (including invite code)
+ */
+router.post(
+  '/',
+  requireAuth,
+  creationRateLimiter,
+  validateRequest(createLeagueSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const league = await createLeague(user.id, req.body as CreateLeagueInput);
+
+      const response: ApiResponse<LeagueDetails> = {
+        success: true,
+        data: league,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/leagues
+ * List the leagues the user belongs to, active leagues first.
+ *
+ * Auth: Required
+ * Response: 200 with league summaries
+ */
+router.get(
+  '/',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const leagues = await getUserLeagues(user.id);
+
+      const response: ApiResponse<LeagueSummary[]> = {
+        success: true,
+        data: leagues,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/leagues/join
+ * Join a league by invite code.
+ *
+ * Auth: Required
+ * Body: { inviteCode }
+ * Response: 200 with league details
+ */
+router.post(
+  '/join',
+  requireAuth,
+  validateRequest(joinLeagueSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const { inviteCode } = req.body as JoinLeagueInput;
+      const league = await joinLeague(user.id, inviteCode);
+
+      const response: ApiResponse<LeagueDetails> = {
+        success: true,
+        data: league,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/leagues/:id
+ * League details: members, standings and the viewer's current-round entry.
+ *
+ * Auth: Required (members only)
+ * Response: 200 with league details
+ */
+router.get(
+  '/:id',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const league = await getLeagueDetails(req.params.id, user.id);
+
+      const response: ApiResponse<LeagueDetails> = {
+        success: true,
+        data: league,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/leagues/:id/entries
+ * Submit a slip for the current round. Debits the league stake and
+ * locks the slip until the round starts.
+ *
+ * Auth: Required (members only)
+ * Body: { slipId }
+ * Response: 201 with the entry
+ */
+router.post(
+  '/:id/entries',
+  requireAuth,
+  validateRequest(submitLeagueSlipSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const entry = await submitLeagueSlip(
+        req.params.id,
+        user.id,
+        req.body as SubmitLeagueSlipInput
+      );
+
+      const response: ApiResponse<LeagueEntryInfo> = {
+        success: true,
+        data: entry,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/leagues/:id/leave
+ * Leave a league. A slip submitted for the current round is returned
+ * and refunded.
+ *
+ * Auth: Required (members other than the owner)
+ * Response: 200 with { left: true }
+ */
+router.post(
+  '/:id/leave',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      await leaveLeague(req.params.id, user.id);
+
+      const response: ApiResponse<{ left: boolean }> = {
+        success: true,
+        data: { left: true },
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /api/v1/leagues/:id
+ * Archive a league. Stops future rounds and refunds current-round slips;
+ * standings stay viewable.
+ *
+ * Auth: Required (owner only)
+ * Response: 200 with league details
+ */
+router.delete(
+  '/:id',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const league = await archiveLeague(req.params.id, user.id);
+
+      const response: ApiResponse<LeagueDetails> = {
+        success: true,
+        data: league,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,143 @@
+// =====================================================
+// League Validation Schemas & Types
+// =====================================================
+// Zod schemas for request validation and TypeScript types for
+// league responses.
+
+import { z } from 'zod';
+import { LeagueEntryStatus, LeagueStatus } from '@prisma/client';
+
+// ===========================================
+// Request Validation Schemas
+// ===========================================
+
+/**
+ * Schema for creating a league.
+ * - stakeAmount: Stake each player puts up per league match (same bounds as matches)
+ * - slipSize: Required picks per slip (omit for any size)
+ * - scheduleDay / scheduleHour: When each weekly round starts (UTC)
+ */
+export const createLeagueSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(3, 'League name must be at least 3 characters')
+    .max(50, 'League name cannot exceed 50 characters'),
+  stakeAmount: z
+    .number()
+    .int('Stake must be an integer')
+    .min(100, 'Minimum stake is $1 (100 cents)')
+    .max(100000, 'Maximum stake is $1000 (100,000 cents)'),
+  slipSize: z
+    .number()
+    .int('Slip size must be an integer')
+    .min(1, 'Slip size must be at least 1 pick')
+    .max(20, 'Slip size cannot exceed 20 picks')
+    .optional(),
+  maxMembers: z
+    .number()
+    .int('Max members must be an integer')
+    .min(2, 'A league needs at least 2 members')
+    .max(20, 'A league cannot have more than 20 members')
+    .optional()
+    .default(12),
+  scheduleDay: z
+    .number()
+    .int('Schedule day must be an integer')
+    .min(0, 'Schedule day must be 0 (Sunday) to 6 (Saturday)')
+    .max(6, 'Schedule day must be 0 (Sunday) to 6 (Saturday)'),
+  scheduleHour: z
+    .number()
+    .int('Schedule hour must be an integer')
+    .min(0, 'Schedule hour must be 0-23 (UTC)')
+    .max(23, 'Schedule hour must be 0-23 (UTC)'),
+});
+
+/**
+ * Schema for joining a league by invite code.
+ */
+export const joinLeagueSchema = z.object({
+  inviteCode: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .min(1, 'Invite code is required')
+    .max(20, 'Invalid invite code'),
+});
+
+/**
+ * Schema for submitting a slip for the current round.
+ * - slipId: UUID of the member's DRAFT slip
+ */
+export const submitLeagueSlipSchema = z.object({
+  slipId: z.string().uuid('Invalid slip ID format'),
+});
+
+// ===========================================
+// TypeScript Types
+// ===========================================
+
+export type CreateLeagueInput = z.infer<typeof createLeagueSchema>;
+export type JoinLeagueInput = z.infer<typeof joinLeagueSchema>;
+export type SubmitLeagueSlipInput = z.infer<typeof submitLeagueSlipSchema>;
+
+/**
+ * League summary returned by the API.
+ * BigInt fields are converted to numbers for JSON serialization.
+ */
+export interface LeagueSummary {
+  id: string;
+  name: string;
+  ownerId: string;
+  inviteCode: string;
+  stakeAmount: number;
+  slipSize: number | null;
+  maxMembers: number;
+  memberCount: number;
+  scheduleDay: number;
+  scheduleHour: number;
+  currentRound: number;
+  nextRoundAt: Date;
+  status: LeagueStatus;
+  isOwner: boolean;
+}
+
+export interface LeagueMemberInfo {
+  userId: string;
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  joinedAt: Date;
+  hasSubmitted: boolean;
+}
+
+export interface LeagueStanding {
+  rank: number;
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  played: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  points: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+export interface LeagueEntryInfo {
+  round: number;
+  slipId: string;
+  status: LeagueEntryStatus;
+  matchId: string | null;
+}
+
+/**
+ * Full league view for members: roster, standings and the viewer's
+ * entry for the current round.
+ */
+export interface LeagueDetails extends LeagueSummary {
+  members: LeagueMemberInfo[];
+  standings: LeagueStanding[];
+  myEntry: LeagueEntryInfo | null;
+}
@@ -0,0 +1,422 @@
+// =====================================================
+// League Service Tests
+// =====================================================
+// Covers round-robin pairing, weekly scheduling and standings, slip
+// submission (stake debit, slip lock, slip size) and starting a due
+// round: pairs with two slips become matches, everyone else is refunded.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  leagueFindUnique: vi.fn(),
+  leagueFindMany: vi.fn(),
+  leagueUpdateMany: vi.fn(),
+  entryFindUnique: vi.fn(),
+  entryFindMany: vi.fn(),
+  entryCreate: vi.fn(),
+  entryUpdateMany: vi.fn(),
+  matchCreate: vi.fn(),
+  slipFindFirst: vi.fn(),
+  slipUpdate: vi.fn(),
+  slipUpdateMany: vi.fn(),
+  debitWallet: vi.fn(),
+  processRefund: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => {
+  const tx = {
+    league: {
+      findUnique: mocks.leagueFindUnique,
+      findMany: mocks.leagueFindMany,
+      updateMany: mocks.leagueUpdateMany,
+    },
+    leagueEntry: {
+      findUnique: mocks.entryFindUnique,
+      findMany: mocks.entryFindMany,
+      create: mocks.entryCreate,
+      updateMany: mocks.entryUpdateMany,
+    },
+    match: { create: mocks.matchCreate },
+    slip: {
+      findFirst: mocks.slipFindFirst,
+      update: mocks.slipUpdate,
+      updateMany: mocks.slipUpdateMany,
+    },
+  };
+
+  return {
+    prisma: {
+      ...tx,
+      $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../../lib/wallet.service', () => ({
+  debitWallet: mocks.debitWallet,
+  processRefund: mocks.processRefund,
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  buildRoundPairings,
+  calculateNextRoundAt,
+  calculateLeagueStandings,
+  submitLeagueSlip,
+  processDueLeagueRounds,
+} from './leagues.service';
+import { BadRequestError, ConflictError, ForbiddenError } from '../../utils/errors';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const LEAGUE_ID = 'league-1';
+const USER = 'user-a';
+const NOW = new Date('2026-03-04T18:00:00Z'); // Wednesday
+
+function createLeague(overrides: Record<string, unknown> = {}) {
+  return {
+    id: LEAGUE_ID,
+    name: 'Sunday Squad',
+    ownerId: USER,
+    inviteCode: 'ABCDEFGHJK',
+    stakeAmount: BigInt(1000),
+    slipSize: null,
+    maxMembers: 12,
+    scheduleDay: 3,
+    scheduleHour: 18,
+    currentRound: 2,
+    nextRoundAt: NOW,
+    status: 'ACTIVE',
+    _count: { members: 4 },
+    members: [{ id: 'member-a' }],
+    ...overrides,
+  };
+}
+
+function createEntry(userId: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `entry-${userId}`,
+    userId,
+    round: 2,
+    slipId: `slip-${userId}`,
+    entryTxId: `tx-${userId}`,
+    ...overrides,
+  };
+}
+
+/** Every pair in a full round-robin cycle, as sorted "a-b" keys */
+function cyclePairs(memberIds: string[]): string[] {
+  const rounds = memberIds.length % 2 === 0 ? memberIds.length - 1 : memberIds.length;
+  return Array.from({ length: rounds }, (_, i) => buildRoundPairings(memberIds, i + 1))
+    .flat()
+    .map((pair) => [...pair].sort().join('-'))
+    .sort();
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.entryFindUnique.mockResolvedValue(null);
+  mocks.entryUpdateMany.mockResolvedValue({ count: 1 });
+  mocks.leagueUpdateMany.mockResolvedValue({ count: 1 });
+  mocks.debitWallet.mockResolvedValue({ id: 'tx-entry' });
+  mocks.processRefund.mockResolvedValue({ id: 'tx-refund' });
+  mocks.entryCreate.mockImplementation(({ data }) =>
+    Promise.resolve({ round: data.round, slipId: data.slipId, status: 'SUBMITTED', matchId: null })
+  );
+  mocks.matchCreate.mockImplementation(({ data }) =>
+    Promise.resolve({ id: `match-${data.creatorId}-${data.opponentId}` })
+  );
+});
+
+// ===========================================
+// Test: buildRoundPairings()
+// ===========================================
+
+describe('buildRoundPairings', () => {
+  it('pairs every member exactly once per round', () => {
+    const pairings = buildRoundPairings(['a', 'b', 'c', 'd'], 1);
+
+    expect(pairings).toHaveLength(2);
+    expect(pairings.flat().sort()).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('plays every pair once over a full cycle', () => {
+    expect(cyclePairs(['a', 'b', 'c', 'd'])).toEqual(['a-b', 'a-c', 'a-d', 'b-c', 'b-d', 'c-d']);
+  });
+
+  it('gives one member a bye each round when the count is odd', () => {
+    const byes = [1, 2, 3].map((round) => {
+      const paired = buildRoundPairings(['a', 'b', 'c'], round).flat();
+      return ['a', 'b', 'c'].find((id) => !paired.includes(id));
+    });
+
+    expect(byes.sort()).toEqual(['a', 'b', 'c']);
+    expect(cyclePairs(['a', 'b', 'c'])).toEqual(['a-b', 'a-c', 'b-c']);
+  });
+
+  it('repeats the cycle after n - 1 rounds', () => {
+    const members = ['a', 'b', 'c', 'd'];
+    expect(buildRoundPairings(members, 4)).toEqual(buildRoundPairings(members, 1));
+  });
+
+  it('returns no pairings for a league of one', () => {
+    expect(buildRoundPairings(['a'], 1)).toEqual([]);
+  });
+});
+
+// ===========================================
+// Test: calculateNextRoundAt()
+// ===========================================
+
+describe('calculateNextRoundAt', () => {
+  it('schedules later the same week', () => {
+    // Wednesday 18:00 -> Sunday 20:00
+    expect(calculateNextRoundAt(0, 20, NOW).toISOString()).toBe('2026-03-08T20:00:00.000Z');
+  });
+
+  it('schedules later the same day', () => {
+    expect(calculateNextRoundAt(3, 21, NOW).toISOString()).toBe('2026-03-04T21:00:00.000Z');
+  });
+
+  it('moves to next week once the slot has passed', () => {
+    expect(calculateNextRoundAt(3, 18, NOW).toISOString()).toBe('2026-03-11T18:00:00.000Z');
+    expect(calculateNextRoundAt(1, 9, NOW).toISOString()).toBe('2026-03-09T09:00:00.000Z');
+  });
+});
+
+// ===========================================
+// Test: calculateLeagueStandings()
+// ===========================================
+
+describe('calculateLeagueStandings', () => {
+  const members = ['a', 'b', 'c'].map((id) => ({ userId: id, username: id, avatarUrl: null }));
+
+  function settled(
+    creatorId: string,
+    opponentId: string,
+    winnerId: string | null,
+    score: [number, number]
+  ) {
+    return {
+      creatorId,
+      opponentId,
+      winnerId,
+      isDraw: winnerId === null,
+      creatorPoints: new Prisma.Decimal(score[0]),
+      opponentPoints: new Prisma.Decimal(score[1]),
+    };
+  }
+
+  it('awards 3 points per win and 1 per draw', () => {
+    const standings = calculateLeagueStandings(members, [
+      settled('a', 'b', 'a', [40, 20]),
+      settled('c', 'a', null, [30, 30]),
+    ]);
+
+    expect(standings.map((s) => [s.rank, s.userId, s.points, s.wins, s.losses, s.draws])).toEqual([
+      [1, 'a', 4, 1, 0, 1],
+      [2, 'c', 1, 0, 0, 1],
+      [3, 'b', 0, 0, 1, 0],
+    ]);
+    expect(standings[0]).toMatchObject({ played: 2, pointsFor: 70, pointsAgainst: 50 });
+  });
+
+  it('breaks ties on points difference', () => {
+    const standings = calculateLeagueStandings(members, [
+      settled('a', 'c', 'a', [25, 20]),
+      settled('b', 'c', 'b', [50, 10]),
+    ]);
+
+    expect(standings.map((s) => s.userId)).toEqual(['b', 'a', 'c']);
+  });
+
+  it('ignores players who have left the league', () => {
+    const standings = calculateLeagueStandings(members, [settled('a', 'gone', 'gone', [10, 20])]);
+
+    expect(standings).toHaveLength(3);
+    expect(standings.find((s) => s.userId === 'a')).toMatchObject({ played: 1, losses: 1 });
+  });
+});
+
+// ===========================================
+// Test: submitLeagueSlip()
+// ===========================================
+
+describe('submitLeagueSlip', () => {
+  beforeEach(() => {
+    mocks.leagueFindUnique.mockResolvedValue(createLeague());
+    mocks.slipFindFirst.mockResolvedValue({ status: 'DRAFT', totalPicks: 3 });
+  });
+
+  it('debits the stake, locks the slip and records the entry', async () => {
+    const entry = await submitLeagueSlip(LEAGUE_ID, USER, { slipId: 'slip-1' });
+
+    expect(mocks.debitWallet).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: USER,
+        amount: BigInt(1000),
+        type: 'MATCH_ENTRY',
+        idempotencyKey: `league-entry-${LEAGUE_ID}-r2-${USER}`,
+      })
+    );
+    expect(mocks.slipUpdate).toHaveBeenCalledWith({
+      where: { id: 'slip-1' },
+      data: expect.objectContaining({ status: 'PENDING' }),
+    });
+    expect(mocks.entryCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          leagueId: LEAGUE_ID,
+          userId: USER,
+          round: 2,
+          slipId: 'slip-1',
+          entryTxId: 'tx-entry',
+        },
+      })
+    );
+    expect(entry).toEqual({ round: 2, slipId: 'slip-1', status: 'SUBMITTED', matchId: null });
+  });
+
+  it('enforces the league slip size', async () => {
+    mocks.leagueFindUnique.mockResolvedValue(createLeague({ slipSize: 5 }));
+
+    await expect(submitLeagueSlip(LEAGUE_ID, USER, { slipId: 'slip-1' })).rejects.toBeInstanceOf(
+      BadRequestError
+    );
+    expect(mocks.debitWallet).not.toHaveBeenCalled();
+  });
+
+  it('rejects a second slip for the same round', async () => {
+    mocks.entryFindUnique.mockResolvedValue({ id: 'entry-existing' });
+
+    await expect(submitLeagueSlip(LEAGUE_ID, USER, { slipId: 'slip-1' })).rejects.toBeInstanceOf(
+      ConflictError
+    );
+  });
+
+  it('rejects non-members', async () => {
+    mocks.leagueFindUnique.mockResolvedValue(createLeague({ members: [] }));
+
+    await expect(submitLeagueSlip(LEAGUE_ID, USER, { slipId: 'slip-1' })).rejects.toBeInstanceOf(
+      ForbiddenError
+    );
+  });
+
+  it('rejects submissions to archived leagues', async () => {
+    mocks.leagueFindUnique.mockResolvedValue(createLeague({ status: 'ARCHIVED' }));
+
+    await expect(submitLeagueSlip(LEAGUE_ID, USER, { slipId: 'slip-1' })).rejects.toBeInstanceOf(
+      BadRequestError
+    );
+  });
+});
+
+// ===========================================
+// Test: processDueLeagueRounds()
+// ===========================================
+
+describe('processDueLeagueRounds', () => {
+  const MEMBERS = ['user-a', 'user-b', 'user-c', 'user-d'];
+
+  beforeEach(() => {
+    mocks.leagueFindMany.mockResolvedValue([{ id: LEAGUE_ID }]);
+    mocks.leagueFindUnique.mockResolvedValue(
+      createLeague({ members: MEMBERS.map((userId) => ({ userId })) })
+    );
+  });
+
+  it('creates a match for each pairing where both members submitted', async () => {
+    // Round 2 pairs a-c and d-b; b has no slip in
+    mocks.entryFindMany.mockResolvedValue([
+      createEntry('user-a'),
+      createEntry('user-c'),
+      createEntry('user-d'),
+    ]);
+
+    const created = await processDueLeagueRounds(NOW);
+
+    expect(created).toBe(1);
+    expect(mocks.matchCreate).toHaveBeenCalledTimes(1);
+    expect(mocks.matchCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          gameMode: 'LEAGUE',
+          status: 'matched',
+          creatorId: 'user-a',
+          opponentId: 'user-c',
+          creatorEntryTxId: 'tx-user-a',
+          opponentEntryTxId: 'tx-user-c',
+          leagueId: LEAGUE_ID,
+          leagueRound: 2,
+        }),
+      })
+    );
+    expect(mocks.slipUpdateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['slip-user-a', 'slip-user-c'] } },
+      data: { status: 'ACTIVE', matchId: 'match-user-a-user-c' },
+    });
+  });
+
+  it('returns and refunds slips left without an opponent', async () => {
+    mocks.entryFindMany.mockResolvedValue([
+      createEntry('user-a'),
+      createEntry('user-c'),
+      createEntry('user-d'),
+    ]);
+
+    await processDueLeagueRounds(NOW);
+
+    expect(mocks.slipUpdate).toHaveBeenCalledWith({
+      where: { id: 'slip-user-d' },
+      data: { status: 'DRAFT', lockedAt: null },
+    });
+    expect(mocks.processRefund).toHaveBeenCalledTimes(1);
+    expect(mocks.processRefund).toHaveBeenCalledWith(
+      expect.objectContaining({
+        originalTransactionId: 'tx-user-d',
+        idempotencyKey: 'league-entry-refund-entry-user-d',
+      })
+    );
+  });
+
+  it('advances the league to the next round and weekly slot', async () => {
+    mocks.entryFindMany.mockResolvedValue([]);
+
+    await processDueLeagueRounds(NOW);
+
+    expect(mocks.leagueUpdateMany).toHaveBeenCalledWith({
+      where: { id: LEAGUE_ID, currentRound: 2 },
+      data: { currentRound: 3, nextRoundAt: new Date('2026-03-11T18:00:00Z') },
+    });
+  });
+
+  it('does nothing when another run already claimed the round', async () => {
+    mocks.leagueUpdateMany.mockResolvedValue({ count: 0 });
+
+    const created = await processDueLeagueRounds(NOW);
+
+    expect(created).toBe(0);
+    expect(mocks.entryFindMany).not.toHaveBeenCalled();
+    expect(mocks.matchCreate).not.toHaveBeenCalled();
+  });
+
+  it('keeps processing other leagues when one fails', async () => {
+    mocks.leagueFindMany.mockResolvedValue([{ id: 'league-broken' }, { id: LEAGUE_ID }]);
+    mocks.leagueFindUnique
+      .mockRejectedValueOnce(new Error('db down'))
+      .mockResolvedValue(createLeague({ members: MEMBERS.map((userId) => ({ userId })) }));
+    mocks.entryFindMany.mockResolvedValue([createEntry('user-a'), createEntry('user-c')]);
+
+    await expect(processDueLeagueRounds(NOW)).resolves.toBe(1);
+  });
+});
@@ -0,0 +1,863 @@
+// =====================================================
+// Leagues Service
+// =====================================================
+// Private leagues: friend groups that play one scheduled round a week.
+//
+// Members submit a DRAFT slip for the current round. As with the
+// matchmaking queue, the stake is debited and the slip locked on
+// submission. When the round is due, members are paired round robin
+// and every pair where both submitted becomes a league match. Anyone
+// left without an opponent gets their slip and stake back.
+// Standings are computed from the league's settled matches.
+
+import {
+  GameMode,
+  LeagueEntryStatus,
+  LeagueStatus,
+  MatchStatus,
+  Prisma,
+  SlipStatus,
+} from '@prisma/client';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+import { prisma } from '../../lib/prisma';
+import { debitWallet, processRefund } from '../../lib/wallet.service';
+import { generateUniqueInviteCode } from '../../lib/invite-code';
+import { logger } from '../../utils/logger';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../utils/errors';
+import {
+  CreateLeagueInput,
+  LeagueDetails,
+  LeagueEntryInfo,
+  LeagueStanding,
+  LeagueSummary,
+  SubmitLeagueSlipInput,
+} from './leagues.schemas';
+
+// ===========================================
+// Constants
+// ===========================================
+
+const TRANSACTION_TIMEOUT = 10000; // 10 seconds
+const MAX_LEAGUES_PER_RUN = 50;
+const POINTS_PER_WIN = 3;
+const POINTS_PER_DRAW = 1;
+const STANDING_MATCH_STATUSES: MatchStatus[] = [MatchStatus.settled, MatchStatus.draw];
+
+const LEAGUE_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  ownerId: true,
+  inviteCode: true,
+  stakeAmount: true,
+  slipSize: true,
+  maxMembers: true,
+  scheduleDay: true,
+  scheduleHour: true,
+  currentRound: true,
+  nextRoundAt: true,
+  status: true,
+  _count: { select: { members: true } },
+} as const;
+
+type LeagueSummaryRecord = Prisma.LeagueGetPayload<{ select: typeof LEAGUE_SUMMARY_SELECT }>;
+
+const RELEASABLE_ENTRY_SELECT = {
+  id: true,
+  userId: true,
+  round: true,
+  slipId: true,
+  entryTxId: true,
+} as const;
+
+type ReleasableEntry = Prisma.LeagueEntryGetPayload<{ select: typeof RELEASABLE_ENTRY_SELECT }>;
+
+// ===========================================
+// Types
+// ===========================================
+
+/** Member as needed for the standings table */
+export interface StandingMember {
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+}
+
+/** Settled league match as needed for the standings table */
+export interface StandingMatch {
+  creatorId: string;
+  opponentId: string | null;
+  winnerId: string | null;
+  isDraw: boolean;
+  creatorPoints: Prisma.Decimal | number | null;
+  opponentPoints: Prisma.Decimal | number | null;
+}
+
+// ===========================================
+// Scheduling & Pairing
+// ===========================================
+
+/**
+ * Next weekly round start strictly after a given time.
+ *
+ * @param scheduleDay - 0 = Sunday ... 6 = Saturday (UTC)
+ * @param scheduleHour - 0-23 (UTC)
+ */
+export function calculateNextRoundAt(scheduleDay: number, scheduleHour: number, after: Date): Date {
+  const next = new Date(
+    Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate(), scheduleHour)
+  );
+  next.setUTCDate(next.getUTCDate() + ((scheduleDay - after.getUTCDay() + 7) % 7));
+
+  if (next <= after) {
+    next.setUTCDate(next.getUTCDate() + 7);
+  }
+  return next;
+}
+
+/**
+ * Round-robin pairings for a round (circle method).
+ * The first member stays fixed while the rest rotate one seat per round,
+ * so every pair meets once per cycle of (n - 1) rounds. With an odd
+ * member count one member sits out each round.
+ *
+ * @param memberIds - Members in a stable order (join order)
+ * @param round - 1-based round number
+ * @returns [creatorId, opponentId] pairs
+ */
+export function buildRoundPairings(memberIds: string[], round: number): Array<[string, string]> {
+  if (memberIds.length < 2) {
+    return [];
+  }
+
+  const seats: Array<string | null> =
+    memberIds.length % 2 === 0 ? [...memberIds] : [...memberIds, null];
+  const [fixed, ...rotating] = seats;
+  const shift = (round - 1) % rotating.length;
+  const order = [
+    fixed,
+    ...rotating.slice(rotating.length - shift),
+    ...rotating.slice(0, rotating.length - shift),
+  ];
+
+  const pairings: Array<[string, string]> = [];
+  for (let i = 0; i < order.length / 2; i++) {
+    const home = order[i];
+    const away = order[order.length - 1 - i];
+    if (home && away) {
+      pairings.push([home, away]);
+    }
+  }
+  return pairings;
+}
+
+/**
+ * Builds the standings table from settled league matches.
+ * Wins are worth 3 points and draws 1. Ties are broken by points
+ * difference, then wins, then username. Matches involving players who
+ * have since left the league are ignored.
+ */
+export function calculateLeagueStandings(
+  members: StandingMember[],
+  matches: StandingMatch[]
+): LeagueStanding[] {
+  const rows = new Map<string, LeagueStanding>(
+    members.map((member) => [
+      member.userId,
+      {
+        rank: 0,
+        userId: member.userId,
+        username: member.username,
+        avatarUrl: member.avatarUrl,
+        played: 0,
+        wins: 0,
+        losses: 0,
+        draws: 0,
+        points: 0,
+        pointsFor: 0,
+        pointsAgainst: 0,
+      },
+    ])
+  );
+
+  for (const match of matches) {
+    if (!match.opponentId) continue;
+
+    const sides: Array<[string, number, number]> = [
+      [match.creatorId, Number(match.creatorPoints ?? 0), Number(match.opponentPoints ?? 0)],
+      [match.opponentId, Number(match.opponentPoints ?? 0), Number(match.creatorPoints ?? 0)],
+    ];
+
+    for (const [userId, pointsFor, pointsAgainst] of sides) {
+      const row = rows.get(userId);
+      if (!row) continue;
+
+      row.played++;
+      row.pointsFor += pointsFor;
+      row.pointsAgainst += pointsAgainst;
+
+      if (match.isDraw) {
+        row.draws++;
+        row.points += POINTS_PER_DRAW;
+      } else if (match.winnerId === userId) {
+        row.wins++;
+        row.points += POINTS_PER_WIN;
+      } else {
+        row.losses++;
+      }
+    }
+  }
+
+  return [...rows.values()]
+    .sort(
+      (a, b) =>
+        b.points - a.points ||
+        b.pointsFor - b.pointsAgainst - (a.pointsFor - a.pointsAgainst) ||
+        b.wins - a.wins ||
+        a.username.localeCompare(b.username)
+    )
+    .map((row, index) => ({ ...row, rank: index + 1 }));
+}
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+/**
+ * Generates an invite code not used by any league.
+ * Returns null if every attempt collided.
+ */
+async function generateLeagueInviteCode(): Promise<string | null> {
+  return generateUniqueInviteCode(async (inviteCode) => {
+    const existing = await prisma.league.findUnique({
+      where: { inviteCode },
+      select: { id: true },
+    });
+    return !!existing;
+  });
+}
+
+function transformLeagueSummary(league: LeagueSummaryRecord, userId: string): LeagueSummary {
+  return {
+    id: league.id,
+    name: league.name,
+    ownerId: league.ownerId,
+    inviteCode: league.inviteCode,
+    stakeAmount: Number(league.stakeAmount),
+    slipSize: league.slipSize,
+    maxMembers: league.maxMembers,
+    memberCount: league._count.members,
+    scheduleDay: league.scheduleDay,
+    scheduleHour: league.scheduleHour,
+    currentRound: league.currentRound,
+    nextRoundAt: league.nextRoundAt,
+    status: league.status,
+    isOwner: league.ownerId === userId,
+  };
+}
+
+/**
+ * Loads a league the user belongs to.
+ *
+ * @throws {NotFoundError} League not found
+ * @throws {ForbiddenError} User is not a member
+ */
+async function getLeagueForMember(leagueId: string, userId: string) {
+  const league = await prisma.league.findUnique({
+    where: { id: leagueId },
+    select: {
+      ...LEAGUE_SUMMARY_SELECT,
+      members: { where: { userId }, select: { id: true } },
+    },
+  });
+
+  if (!league) {
+    throw new NotFoundError(`League with ID ${leagueId} not found`, ERROR_CODES.LEAGUE_NOT_FOUND);
+  }
+
+  if (league.members.length === 0) {
+    throw new ForbiddenError('You are not a member of this league', ERROR_CODES.FORBIDDEN);
+  }
+
+  return league;
+}
+
+/**
+ * Marks still-submitted entries UNMATCHED and returns their slips to DRAFT.
+ * Returns the entries actually released, which are owed a refund.
+ */
+async function releaseLeagueEntries(
+  tx: Prisma.TransactionClient,
+  entries: ReleasableEntry[]
+): Promise<ReleasableEntry[]> {
+  const released: ReleasableEntry[] = [];
+
+  for (const entry of entries) {
+    const { count } = await tx.leagueEntry.updateMany({
+      where: { id: entry.id, status: LeagueEntryStatus.SUBMITTED },
+      data: { status: LeagueEntryStatus.UNMATCHED },
+    });
+    if (count === 0) continue;
+
+    await tx.slip.update({
+      where: { id: entry.slipId },
+      data: { status: SlipStatus.DRAFT, lockedAt: null },
+    });
+    released.push(entry);
+  }
+
+  return released;
+}
+
+/**
+ * Refunds the stakes of released entries.
+ * Failures are logged, not thrown - the entries are already released.
+ */
+async function refundLeagueEntries(entries: ReleasableEntry[], description: string): Promise<void> {
+  for (const entry of entries) {
+    try {
+      await processRefund({
+        originalTransactionId: entry.entryTxId,
+        idempotencyKey: `league-entry-refund-${entry.id}`,
+        description,
+      });
+    } catch (refundError) {
+      logger.error(
+        `[LeagueService] Failed to refund league entry ${entry.id} for user ${entry.userId}:`,
+        refundError
+      );
+    }
+  }
+}
+
+// ===========================================
+// Service Methods
+// ===========================================
+
+/**
+ * Creates a league with the creator as its owner and first member.
+ * The first round starts at the next scheduled slot.
+ */
+export async function createLeague(
+  userId: string,
+  data: CreateLeagueInput
+): Promise<LeagueDetails> {
+  const inviteCode = await generateLeagueInviteCode();
+
+  if (!inviteCode) {
+    throw new ConflictError(
+      'Failed to generate unique invite code. Please retry.',
+      ERROR_CODES.INTERNAL_ERROR
+    );
+  }
+
+  const league = await prisma.$transaction(async (tx) => {
+    const created = await tx.league.create({
+      data: {
+        name: data.name,
+        ownerId: userId,
+        inviteCode,
+        stakeAmount: BigInt(data.stakeAmount),
+        slipSize: data.slipSize ?? null,
+        maxMembers: data.maxMembers,
+        scheduleDay: data.scheduleDay,
+        scheduleHour: data.scheduleHour,
+        nextRoundAt: calculateNextRoundAt(data.scheduleDay, data.scheduleHour, new Date()),
+      },
+      select: { id: true },
+    });
+
+    await tx.leagueMember.create({
+      data: { leagueId: created.id, userId },
+    });
+
+    return created;
+  });
+
+  logger.info(`[LeagueService] User ${userId} created league ${league.id} (code ${inviteCode})`);
+
+  return getLeagueDetails(league.id, userId);
+}
+
+/**
+ * Lists the leagues a user belongs to, active leagues first.
+ */
+export async function getUserLeagues(userId: string): Promise<LeagueSummary[]> {
+  const leagues = await prisma.league.findMany({
+    where: { members: { some: { userId } } },
+    select: LEAGUE_SUMMARY_SELECT,
+    orderBy: [{ status: 'asc' }, { nextRoundAt: 'asc' }],
+  });
+
+  return leagues.map((league) => transformLeagueSummary(league, userId));
+}
+
+/**
+ * Gets a league with its roster, standings and the viewer's entry for
+ * the current round. Members only.
+ *
+ * @throws {NotFoundError} League not found
+ * @throws {ForbiddenError} Viewer is not a member
+ */
+export async function getLeagueDetails(leagueId: string, userId: string): Promise<LeagueDetails> {
+  const league = await getLeagueForMember(leagueId, userId);
+
+  const [members, entries, matches] = await Promise.all([
+    prisma.leagueMember.findMany({
+      where: { leagueId },
+      select: {
+        userId: true,
+        joinedAt: true,
+        user: { select: { username: true, displayName: true, avatarUrl: true } },
+      },
+      orderBy: { joinedAt: 'asc' },
+    }),
+    prisma.leagueEntry.findMany({
+      where: { leagueId, round: league.currentRound },
+      select: { userId: true, round: true, slipId: true, status: true, matchId: true },
+    }),
+    prisma.match.findMany({
+      where: { leagueId, status: { in: STANDING_MATCH_STATUSES } },
+      select: {
+        creatorId: true,
+        opponentId: true,
+        winnerId: true,
+        isDraw: true,
+        creatorPoints: true,
+        opponentPoints: true,
+      },
+    }),
+  ]);
+
+  const submitted = new Set(entries.map((entry) => entry.userId));
+  const myEntry = entries.find((entry) => entry.userId === userId);
+
+  return {
+    ...transformLeagueSummary(league, userId),
+    members: members.map((member) => ({
+      userId: member.userId,
+      username: member.user.username,
+      displayName: member.user.displayName,
+      avatarUrl: member.user.avatarUrl,
+      joinedAt: member.joinedAt,
+      hasSubmitted: submitted.has(member.userId),
+    })),
+    standings: calculateLeagueStandings(
+      members.map((member) => ({
+        userId: member.userId,
+        username: member.user.username,
+        avatarUrl: member.user.avatarUrl,
+      })),
+      matches
+    ),
+    myEntry: myEntry
+      ? {
+          round: myEntry.round,
+          slipId: myEntry.slipId,
+          status: myEntry.status,
+          matchId: myEntry.matchId,
+        }
+      : null,
+  };
+}
+
+/**
+ * Joins a league by invite code.
+ *
+ * @throws {NotFoundError} No league with this code
+ * @throws {BadRequestError} League is archived
+ * @throws {ConflictError} Already a member, or the league is full
+ */
+export async function joinLeague(userId: string, inviteCode: string): Promise<LeagueDetails> {
+  const league = await prisma.league.findUnique({
+    where: { inviteCode },
+    select: { id: true, status: true },
+  });
+
+  if (!league) {
+    throw new NotFoundError('No league found for this invite code', ERROR_CODES.LEAGUE_NOT_FOUND);
+  }
+
+  if (league.status !== LeagueStatus.ACTIVE) {
+    throw new BadRequestError('This league has been archived', ERROR_CODES.LEAGUE_ARCHIVED);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const current = await tx.league.findUniqueOrThrow({
+      where: { id: league.id },
+      select: {
+        maxMembers: true,
+        members: { where: { userId }, select: { id: true } },
+        _count: { select: { members: true } },
+      },
+    });
+
+    if (current.members.length > 0) {
+      throw new ConflictError(
+        'You are already a member of this league',
+        ERROR_CODES.LEAGUE_ALREADY_MEMBER
+      );
+    }
+
+    if (current._count.members >= current.maxMembers) {
+      throw new ConflictError('This league is full', ERROR_CODES.LEAGUE_FULL);
+    }
+
+    await tx.leagueMember.create({
+      data: { leagueId: league.id, userId },
+    });
+  });
+
+  logger.info(`[LeagueService] User ${userId} joined league ${league.id}`);
+
+  return getLeagueDetails(league.id, userId);
+}
+
+/**
+ * Leaves a league. A slip submitted for the current round is returned
+ * and its stake refunded. Owners archive the league instead.
+ *
+ * @throws {BadRequestError} User owns the league
+ */
+export async function leaveLeague(leagueId: string, userId: string): Promise<void> {
+  const league = await getLeagueForMember(leagueId, userId);
+
+  if (league.ownerId === userId) {
+    throw new BadRequestError(
+      'League owners cannot leave. Archive the league instead.',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const released = await prisma.$transaction(async (tx) => {
+    const entries = await tx.leagueEntry.findMany({
+      where: { leagueId, userId, status: LeagueEntryStatus.SUBMITTED },
+      select: RELEASABLE_ENTRY_SELECT,
+    });
+
+    await tx.leagueMember.delete({
+      where: { leagueId_userId: { leagueId, userId } },
+    });
+
+    return releaseLeagueEntries(tx, entries);
+  });
+
+  await refundLeagueEntries(released, 'Left league - entry fee refunded');
+
+  logger.info(`[LeagueService] User ${userId} left league ${leagueId}`);
+}
+
+/**
+ * Archives a league (owner only). No further rounds run; slips
+ * submitted for the current round are returned and refunded.
+ * Standings and past matches remain viewable.
+ *
+ * @throws {ForbiddenError} User is not the owner
+ * @throws {BadRequestError} League is already archived
+ */
+export async function archiveLeague(leagueId: string, userId: string): Promise<LeagueDetails> {
+  const league = await getLeagueForMember(leagueId, userId);
+
+  if (league.ownerId !== userId) {
+    throw new ForbiddenError('Only the league owner can archive it', ERROR_CODES.FORBIDDEN);
+  }
+
+  const released = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.league.updateMany({
+      where: { id: leagueId, status: LeagueStatus.ACTIVE },
+      data: { status: LeagueStatus.ARCHIVED },
+    });
+
+    if (count === 0) {
+      throw new BadRequestError(
+        'This league has already been archived',
+        ERROR_CODES.LEAGUE_ARCHIVED
+      );
+    }
+
+    const entries = await tx.leagueEntry.findMany({
+      where: { leagueId, status: LeagueEntryStatus.SUBMITTED },
+      select: RELEASABLE_ENTRY_SELECT,
+    });
+
+    return releaseLeagueEntries(tx, entries);
+  });
+
+  await refundLeagueEntries(released, 'League archived - entry fee refunded');
+
+  logger.info(`[LeagueService] Owner ${userId} archived league ${leagueId}`);
+
+  return getLeagueDetails(leagueId, userId);
+}
+
+/**
+ * Submits a slip for the league's current round.
+ *
+ * Flow:
+ * 1. Validate membership, league status and no existing entry this round
+ * 2. Atomic transaction:
+ *    a. Validate slip (DRAFT, owned by user, has picks, league slip size)
+ *    b. Debit the league stake
+ *    c. Lock slip (DRAFT → PENDING)
+ *    d. Record the entry
+ *
+ * @throws {ConflictError} Already submitted for this round
+ * @throws {InsufficientBalanceError} Wallet balance too low
+ */
+export async function submitLeagueSlip(
+  leagueId: string,
+  userId: string,
+  data: SubmitLeagueSlipInput
+): Promise<LeagueEntryInfo> {
+  const { slipId } = data;
+  const league = await getLeagueForMember(leagueId, userId);
+  const round = league.currentRound;
+
+  if (league.status !== LeagueStatus.ACTIVE) {
+    throw new BadRequestError('This league has been archived', ERROR_CODES.LEAGUE_ARCHIVED);
+  }
+
+  const existing = await prisma.leagueEntry.findUnique({
+    where: { leagueId_round_userId: { leagueId, round, userId } },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new ConflictError(
+      `You already submitted a slip for round ${round}`,
+      ERROR_CODES.LEAGUE_ENTRY_EXISTS
+    );
+  }
+
+  const entry = await prisma.$transaction(
+    async (tx) => {
+      // 1. Validate slip
+      const slip = await tx.slip.findFirst({
+        where: { id: slipId, userId },
+        select: { status: true, totalPicks: true },
+      });
+
+      if (!slip) {
+        throw new NotFoundError(`Slip with ID ${slipId} not found`, ERROR_CODES.SLIP_NOT_FOUND);
+      }
+
+      if (slip.status !== SlipStatus.DRAFT) {
+        throw new ForbiddenError(
+          `Slip is already locked with status '${slip.status}'`,
+          ERROR_CODES.SLIP_ALREADY_LOCKED
+        );
+      }
+
+      if (slip.totalPicks === 0) {
+        throw new BadRequestError(
+          'Cannot submit a slip with no picks',
+          ERROR_CODES.INVALID_PICK_COUNT
+        );
+      }
+
+      if (league.slipSize && slip.totalPicks !== league.slipSize) {
+        throw new BadRequestError(
+          `This league requires a slip with exactly ${league.slipSize} picks`,
+          ERROR_CODES.INVALID_PICK_COUNT
+        );
+      }
+
+      // 2. Debit the league stake
+      const entryTx = await debitWallet({
+        userId,
+        amount: league.stakeAmount,
+        type: 'MATCH_ENTRY',
+        preferBonus: true,
+        idempotencyKey: `league-entry-${leagueId}-r${round}-${userId}`,
+        description: `League entry fee: ${league.name} round ${round}`,
+        metadata: { leagueId, round, slipId },
+      });
+
+      // 3. Lock slip
+      await tx.slip.update({
+        where: { id: slipId },
+        data: { status: SlipStatus.PENDING, lockedAt: new Date() },
+      });
+
+      // 4. Record entry
+      return tx.leagueEntry.create({
+        data: { leagueId, userId, round, slipId, entryTxId: entryTx.id },
+        select: { round: true, slipId: true, status: true, matchId: true },
+      });
+    },
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+
+  logger.info(
+    `[LeagueService] User ${userId} submitted slip ${slipId} for league ${leagueId} round ${round}`
+  );
+
+  return entry;
+}
+
+// ===========================================
+// Round Processing
+// ===========================================
+
+/**
+ * Starts a league's due round.
+ *
+ * Flow (single transaction):
+ * 1. Claim the round by advancing currentRound/nextRoundAt
+ *    (optimistic - a concurrent run finds the round already claimed)
+ * 2. Pair members round robin; each pair where both submitted a slip
+ *    becomes a matched league match and both slips go ACTIVE
+ * 3. Release every other submitted entry (byes, missing opponents,
+ *    entries that raced an earlier round)
+ * Released entries are refunded after the transaction commits.
+ *
+ * @returns Number of matches created
+ */
+async function runLeagueRound(leagueId: string, now: Date): Promise<number> {
+  const result = await prisma.$transaction(
+    async (tx) => {
+      const league = await tx.league.findUnique({
+        where: { id: leagueId },
+        select: {
+          status: true,
+          stakeAmount: true,
+          currentRound: true,
+          nextRoundAt: true,
+          scheduleDay: true,
+          scheduleHour: true,
+          members: { select: { userId: true }, orderBy: { joinedAt: 'asc' } },
+        },
+      });
+
+      if (!league || league.status !== LeagueStatus.ACTIVE || league.nextRoundAt > now) {
+        return null;
+      }
+
+      const round = league.currentRound;
+
+      // 1. Claim the round
+      const claimed = await tx.league.updateMany({
+        where: { id: leagueId, currentRound: round },
+        data: {
+          currentRound: round + 1,
+          nextRoundAt: calculateNextRoundAt(league.scheduleDay, league.scheduleHour, now),
+        },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const entries = await tx.leagueEntry.findMany({
+        where: { leagueId, status: LeagueEntryStatus.SUBMITTED, round: { lte: round } },
+        select: RELEASABLE_ENTRY_SELECT,
+      });
+      const entriesByUser = new Map(
+        entries.filter((entry) => entry.round === round).map((entry) => [entry.userId, entry])
+      );
+
+      // 2. Create a match for each pairing with two slips
+      const matchedEntryIds = new Set<string>();
+      const matchIds: string[] = [];
+
+      for (const [creatorId, opponentId] of buildRoundPairings(
+        league.members.map((member) => member.userId),
+        round
+      )) {
+        const creatorEntry = entriesByUser.get(creatorId);
+        const opponentEntry = entriesByUser.get(opponentId);
+        if (!creatorEntry || !opponentEntry) continue;
+
+        const match = await tx.match.create({
+          data: {
+            type: 'private',
+            gameMode: GameMode.LEAGUE,
+            stakeAmount: league.stakeAmount,
+            creatorId,
+            opponentId,
+            creatorSlipId: creatorEntry.slipId,
+            opponentSlipId: opponentEntry.slipId,
+            creatorEntryTxId: creatorEntry.entryTxId,
+            opponentEntryTxId: opponentEntry.entryTxId,
+            matchAttemptKey: `league-${leagueId}-r${round}-${creatorId}-${opponentId}`,
+            status: MatchStatus.matched,
+            matchedAt: now,
+            leagueId,
+            leagueRound: round,
+            version: 1,
+          },
+          select: { id: true },
+        });
+
+        const pairEntries = [creatorEntry, opponentEntry];
+
+        await tx.slip.updateMany({
+          where: { id: { in: pairEntries.map((entry) => entry.slipId) } },
+          data: { status: SlipStatus.ACTIVE, matchId: match.id },
+        });
+
+        await tx.leagueEntry.updateMany({
+          where: { id: { in: pairEntries.map((entry) => entry.id) } },
+          data: { status: LeagueEntryStatus.MATCHED, matchId: match.id },
+        });
+
+        pairEntries.forEach((entry) => matchedEntryIds.add(entry.id));
+        matchIds.push(match.id);
+      }
+
+      // 3. Release everyone else
+      const released = await releaseLeagueEntries(
+        tx,
+        entries.filter((entry) => !matchedEntryIds.has(entry.id))
+      );
+
+      return { round, matchIds, released };
+    },
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+
+  if (!result) {
+    return 0;
+  }
+
+  await refundLeagueEntries(result.released, 'No league opponent this round - entry fee refunded');
+
+  logger.info(
+    `[LeagueService] League ${leagueId} round ${result.round}: ` +
+      `${result.matchIds.length} matches, ${result.released.length} entries returned`
+  );
+
+  return result.matchIds.length;
+}
+
+/**
+ * Starts every active league round that is due.
+ * Called by the league round scheduler. A failing league is logged
+ * and retried on the next run without blocking the others.
+ *
+ * @returns Number of matches created
+ */
+export async function processDueLeagueRounds(now: Date = new Date()): Promise<number> {
+  const dueLeagues = await prisma.league.findMany({
+    where: { status: LeagueStatus.ACTIVE, nextRoundAt: { lte: now } },
+    select: { id: true },
+    orderBy: { nextRoundAt: 'asc' },
+    take: MAX_LEAGUES_PER_RUN,
+  });
+
+  let matchesCreated = 0;
+
+  for (const league of dueLeagues) {
+    try {
+      matchesCreated += await runLeagueRound(league.id, now);
+    } catch (error) {
+      logger.error(`[LeagueService] Failed to run round for league ${league.id}:`, error);
+    }
+  }
+
+  return matchesCreated;
+}
@@ -12,6 +12,9 @@ import {
   webhookPayloadSchema,
   manualScoreUpdateSchema,
   pollTriggerSchema,
+  boxScoreWebhookPayloadSchema,
+  manualBoxScoreSchema,
+  eventIdParamSchema,
 } from './live-scores.schemas';
 import {
   queueScoreUpdate,
@@ -20,7 +23,11 @@ import {
 } from '../../queues/live-scores.queue';
 import { normalizeWebhookPayload } from '../../services/live-scores/providers';
 import type { RawScoreUpdate } from '../../services/live-scores/types';
-import { getLiveEvents } from '../../services/live-scores';
+import type { BoxScorePlayerInput } from '../../services/live-scores/box-score.service';
+import { getLiveEvents, ingestBoxScore, getEventBoxScore } from '../../services/live-scores';
+import { getAuthenticatedUser } from '../../middleware';
+import { validateAdminPermission } from '../../services/settlement/settlement-edge-cases.service';
+import { recordAdminAction } from '../../services/admin-audit.service';
 
 // ===========================================
 // Webhook Handler
@@ -96,6 +103,64 @@ export async function handleWebhook(
   }
 }
 
+/**
+ * Handle incoming box score webhook from sports data provider.
+ * POST /api/v1/webhooks/box-scores
+ */
+export async function handleBoxScoreWebhook(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const signature = req.headers['x-webhook-signature'] as string | undefined;
+    if (!verifyWebhookSignature(req.body, signature)) {
+      logger.warn('[LiveScores] Box score webhook signature verification failed');
+      res.status(401).json({
+        success: false,
+        error: 'Invalid webhook signature',
+      });
+      return;
+    }
+
+    const parseResult = boxScoreWebhookPayloadSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      logger.warn('[LiveScores] Invalid box score payload:', parseResult.error.errors);
+      res.status(400).json({
+        success: false,
+        error: 'Invalid payload',
+        details: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const payload = parseResult.data;
+
+    // Box scores are small and infrequent - ingest inline rather than queueing
+    const results = [];
+    for (const boxScore of payload.events) {
+      results.push(
+        await ingestBoxScore({
+          externalEventId: boxScore.externalEventId,
+          players: boxScore.players as BoxScorePlayerInput[],
+          source: payload.provider,
+        })
+      );
+    }
+
+    logger.info(`[LiveScores] Box score webhook processed: ${results.length} events`, {
+      provider: payload.provider,
+    });
+
+    res.json({
+      success: true,
+      results,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 // ===========================================
 // Admin Endpoints
 // ===========================================
@@ -182,7 +247,8 @@ export async function getLiveEventsHandler(
 }
 
 /**
- * Manual score update (admin only).
+ * Manual score update (settlement admin only).
+ * Overrides are recorded in the admin audit log with the previous score.
  * POST /api/v1/admin/live-scores/manual-update
  */
 export async function manualScoreUpdate(
@@ -191,6 +257,9 @@ export async function manualScoreUpdate(
   next: NextFunction
 ): Promise<void> {
   try {
+    const user = getAuthenticatedUser(req);
+    await validateAdminPermission(user.id, 'SETTLEMENT_ADMIN');
+
     const parseResult = manualScoreUpdateSchema.safeParse(req.body);
     if (!parseResult.success) {
       res.status(400).json({
@@ -207,7 +276,7 @@ export async function manualScoreUpdate(
     const { prisma } = await import('../../lib/prisma');
     const event = await prisma.sportsEvent.findUnique({
       where: { id: eventId },
-      select: { externalId: true, sport: true, status: true },
+      select: { externalId: true, sport: true, status: true, homeScore: true, awayScore: true },
     });
 
     if (!event) {
@@ -235,9 +304,26 @@ export async function manualScoreUpdate(
     // Process immediately (bypass queue for manual updates)
     const result = await processScoreUpdate(update);
 
-    // Log for audit trail
+    await recordAdminAction({
+      adminId: user.id,
+      action: 'SCORE_OVERRIDE',
+      targetType: 'event',
+      targetId: eventId,
+      previousState: { homeScore: event.homeScore, awayScore: event.awayScore, status: event.status },
+      newState: { homeScore, awayScore, status: update.status },
+      reason,
+      metadata: {
+        success: result.success,
+        scoreChanged: result.scoreChanged,
+        statusChanged: result.statusChanged,
+      },
+      ipAddress: req.ip || req.socket.remoteAddress,
+      userAgent: req.get('user-agent'),
+    });
+
     logger.info('[LiveScores] Manual score update processed', {
       eventId,
+      adminId: user.id,
       homeScore,
       awayScore,
       status,
@@ -258,6 +344,102 @@ export async function manualScoreUpdate(
   }
 }
 
+/**
+ * Manual box score entry (settlement admin only).
+ * Used when the provider feed is missing or wrong for an event.
+ * POST /api/v1/admin/live-scores/box-score
+ */
+export async function manualBoxScoreUpdate(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const user = getAuthenticatedUser(req);
+    await validateAdminPermission(user.id, 'SETTLEMENT_ADMIN');
+
+    const parseResult = manualBoxScoreSchema.safeParse(req.body);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid request',
+        details: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const { eventId, players, reason } = parseResult.data;
+
+    const result = await ingestBoxScore({
+      eventId,
+      players: players as BoxScorePlayerInput[],
+      source: 'admin-manual',
+    });
+
+    await recordAdminAction({
+      adminId: user.id,
+      action: 'BOX_SCORE_OVERRIDE',
+      targetType: 'event',
+      targetId: eventId,
+      newState: { playerCount: players.length },
+      reason,
+      metadata: { settlementChecksQueued: result.settlementChecksQueued },
+      ipAddress: req.ip || req.socket.remoteAddress,
+      userAgent: req.get('user-agent'),
+    });
+
+    logger.info('[LiveScores] Manual box score processed', {
+      eventId,
+      adminId: user.id,
+      playerCount: players.length,
+      reason,
+      settlementChecksQueued: result.settlementChecksQueued,
+    });
+
+    res.json({
+      success: true,
+      result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get the ingested box score for an event (settlement admin only).
+ * GET /api/v1/admin/live-scores/box-score/:eventId
+ */
+export async function getBoxScoreHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const user = getAuthenticatedUser(req);
+    await validateAdminPermission(user.id, 'SETTLEMENT_ADMIN');
+
+    const parseResult = eventIdParamSchema.safeParse(req.params);
+    if (!parseResult.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid request',
+        details: parseResult.error.errors,
+      });
+      return;
+    }
+
+    const players = await getEventBoxScore(parseResult.data.eventId);
+
+    res.json({
+      success: true,
+      count: players.length,
+      players,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 // ===========================================
 // Helper Functions
 // ===========================================
@@ -10,6 +10,9 @@ import {
   getQueueStatus,
   getLiveEventsHandler,
   manualScoreUpdate,
+  handleBoxScoreWebhook,
+  manualBoxScoreUpdate,
+  getBoxScoreHandler,
 } from './live-scores.controller';
 import { requireAuth } from '../../middleware';
 
@@ -25,6 +28,12 @@ const router = Router();
  */
 router.post('/webhooks/live-scores', handleWebhook);
 
+/**
+ * Box score webhook for player prop settlement.
+ * Body: { timestamp, provider, events: [{ externalEventId, players }] }
+ */
+router.post('/webhooks/box-scores', handleBoxScoreWebhook);
+
 // ===========================================
 // Admin Endpoints (Require Auth)
 // ===========================================
@@ -47,9 +56,20 @@ router.get('/admin/live-scores/queue-status', requireAuth, getQueueStatus);
 router.get('/admin/live-scores/live-events', requireAuth, getLiveEventsHandler);
 
 /**
- * Manual score update (admin only).
+ * Manual score update (settlement admin only, audited).
  * Body: { eventId, homeScore, awayScore, status?, reason }
  */
 router.post('/admin/live-scores/manual-update', requireAuth, manualScoreUpdate);
 
+/**
+ * Manual box score entry (settlement admin only).
+ * Body: { eventId, players: [{ playerId, playerName, didPlay?, stats }], reason }
+ */
+router.post('/admin/live-scores/box-score', requireAuth, manualBoxScoreUpdate);
+
+/**
+ * Get ingested box score for an event (settlement admin only).
+ */
+router.get('/admin/live-scores/box-score/:eventId', requireAuth, getBoxScoreHandler);
+
 export default router;
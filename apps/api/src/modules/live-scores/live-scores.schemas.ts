@@ -10,6 +10,35 @@ import { EventStatus, SportType } from '@prisma/client';
 // Webhook Payload Schema
 // ===========================================
 
+/**
+ * Schema for in-game odds sent with a score update.
+ * Same market format as SportsEvent.oddsData.
+ */
+const liveOddsSchema = z.object({
+  moneyline: z
+    .object({
+      home: z.number(),
+      away: z.number(),
+      draw: z.number().optional(),
+    })
+    .optional(),
+  spread: z
+    .object({
+      home: z.number(),
+      away: z.number(),
+      homeOdds: z.number(),
+      awayOdds: z.number(),
+    })
+    .optional(),
+  totals: z
+    .object({
+      value: z.number(),
+      overOdds: z.number(),
+      underOdds: z.number(),
+    })
+    .optional(),
+});
+
 /**
  * Schema for individual score update events in a webhook payload.
  */
@@ -29,6 +58,7 @@ export const rawScoreUpdateSchema = z.object({
   status: z.string().min(1, 'Status is required'),
   gameTime: z.string().optional(),
   timestamp: z.string().datetime('Invalid timestamp format'),
+  odds: liveOddsSchema.optional(),
   metadata: z.record(z.unknown()).optional(),
 });
 
@@ -77,6 +107,88 @@ export const manualScoreUpdateSchema = z.object({
 
 export type ManualScoreUpdateInput = z.infer<typeof manualScoreUpdateSchema>;
 
+// ===========================================
+// Box Score Schemas (Prop Settlement)
+// ===========================================
+
+const statValue = z.number().min(0, 'Stat values cannot be negative').max(10000);
+
+/**
+ * Normalized stat columns. Only the columns relevant to the sport
+ * need to be supplied; missing columns grade as 0.
+ */
+export const playerBoxScoreStatsSchema = z
+  .object({
+    points: statValue.optional(),
+    rebounds: statValue.optional(),
+    assists: statValue.optional(),
+    threePointersMade: statValue.optional(),
+    passingYards: z.number().min(-100).max(10000).optional(), // Yards can go negative
+    passingTouchdowns: statValue.optional(),
+    rushingYards: z.number().min(-100).max(10000).optional(),
+    rushingTouchdowns: statValue.optional(),
+    receptions: statValue.optional(),
+    receivingYards: z.number().min(-100).max(10000).optional(),
+    receivingTouchdowns: statValue.optional(),
+    otherTouchdowns: statValue.optional(),
+  })
+  .strict();
+
+/**
+ * Schema for a single player's stat line.
+ */
+export const boxScorePlayerSchema = z.object({
+  playerId: z.string().min(1, 'Player ID is required').max(100, 'Player ID too long'),
+  playerName: z.string().min(1, 'Player name is required').max(100, 'Player name too long'),
+  team: z.string().max(100).optional(),
+  didPlay: z.boolean().optional(),
+  stats: playerBoxScoreStatsSchema,
+});
+
+export type BoxScorePlayerSchemaInput = z.infer<typeof boxScorePlayerSchema>;
+
+/**
+ * Schema for box score webhook payloads.
+ */
+export const boxScoreWebhookPayloadSchema = z.object({
+  timestamp: z.string().datetime('Invalid timestamp format'),
+  provider: z.string().min(1, 'Provider is required'),
+  events: z
+    .array(
+      z.object({
+        externalEventId: z
+          .string()
+          .min(1, 'External event ID is required')
+          .max(100, 'External event ID too long'),
+        players: z
+          .array(boxScorePlayerSchema)
+          .min(1, 'At least one player is required')
+          .max(200, 'Too many players in single box score'),
+      })
+    )
+    .min(1, 'At least one event is required')
+    .max(50, 'Too many events in single payload'),
+});
+
+export type BoxScoreWebhookPayloadInput = z.infer<typeof boxScoreWebhookPayloadSchema>;
+
+/**
+ * Schema for manual box score entry via admin endpoint.
+ */
+export const manualBoxScoreSchema = z.object({
+  eventId: z.string().uuid('Invalid event ID format'),
+  players: z
+    .array(boxScorePlayerSchema)
+    .min(1, 'At least one player is required')
+    .max(200, 'Too many players in single box score'),
+  reason: z
+    .string()
+    .min(1, 'Reason is required for audit trail')
+    .max(500, 'Reason too long'),
+});
+
+export type ManualBoxScoreInput = z.infer<typeof manualBoxScoreSchema>;
+
 // ===========================================
 // Query Schemas
 // ===========================================
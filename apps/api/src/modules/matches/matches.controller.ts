@@ -6,7 +6,7 @@
 
 import { Router, Request, Response, NextFunction } from 'express';
 import { ApiResponse, ERROR_CODES } from '@pick-rivals/shared-types';
-import { requireAuth, optionalAuth, getAuthenticatedUser } from '../../middleware';
+import { requireAuth, optionalAuth, getAuthenticatedUser, matchJoinRateLimiter } from '../../middleware';
 import { validateRequest } from '../../middleware/validation.middleware';
 import { NotFoundError, BadRequestError } from '../../utils/errors';
 import {
@@ -17,11 +17,15 @@ import {
   getMatchByInviteCode,
   createRandomMatchLobby,
   createFriendChallenge,
+  cancelMatch,
+  requestRematch,
 } from './matches.service';
 import {
   enqueueForMatchmaking,
   getQueueStatus,
 } from '../../services/matchmaking.service';
+import { fileDispute, getMatchDisputes } from '../../services/settlement/match-dispute.service';
+import type { DisputeEvidenceItem } from '../../services/settlement/settlement-edge-cases.types';
 import {
   createMatchSchema,
   joinMatchSchema,
@@ -29,6 +33,14 @@ import {
   quickMatchSchema,
   randomMatchSchema,
   challengeFriendSchema,
+  fileDisputeSchema,
+  cancelMatchSchema,
+  requestRematchSchema,
+  FileDisputeInput,
+  CancelMatchInput,
+  CancelMatchResponse,
+  RequestRematchInput,
+  RematchResponse,
   MatchDetails,
   PaginatedMatches,
   QuickMatchResponse,
@@ -242,6 +254,7 @@ router.get(
 router.post(
   '/:id/join',
   requireAuth,
+  matchJoinRateLimiter,
   validateRequest(joinMatchSchema),
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -271,6 +284,170 @@ router.post(
   }
 );
 
+/**
+ * POST /api/v1/matches/:id/cancel
+ * Cancel a match. The creator may cancel while pending; once matched (before
+ * lock) both participants must call this - the first call records a request,
+ * the second cancels. Stakes are refunded on cancellation.
+ *
+ * Auth: Required
+ * Body: { reason? }
+ * Response: 200 with { status: CANCELLED | CANCEL_REQUESTED, match }
+ */
+router.post(
+  '/:id/cancel',
+  requireAuth,
+  validateRequest(cancelMatchSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const { id } = req.params;
+      const { reason } = req.body as CancelMatchInput;
+
+      if (!id || id.trim() === '') {
+        throw new NotFoundError('Match ID is required', ERROR_CODES.VALIDATION_ERROR);
+      }
+
+      const result = await cancelMatch(id, user.id, reason);
+
+      const response: ApiResponse<CancelMatchResponse> = {
+        success: true,
+        data: result,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/matches/:id/rematch
+ * Ask to run a settled match back against the same opponent at the same stake.
+ * If the opponent already asked, the rematch starts immediately.
+ *
+ * Auth: Required
+ * Body: { slipId, sameSlipSize? }
+ * Response: 201 with { status: REMATCH_REQUESTED | REMATCH_STARTED, match, originalMatchId }
+ */
+router.post(
+  '/:id/rematch',
+  requireAuth,
+  validateRequest(requestRematchSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const { id } = req.params;
+
+      if (!id || id.trim() === '') {
+        throw new NotFoundError('Match ID is required', ERROR_CODES.VALIDATION_ERROR);
+      }
+
+      const result = await requestRematch(id, user.id, req.body as RequestRematchInput);
+
+      const response: ApiResponse<RematchResponse> = {
+        success: true,
+        data: result,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// Dispute Routes
+// ===========================================
+
+/**
+ * POST /api/v1/matches/:id/disputes
+ * File a dispute on a settled match (participants only).
+ * Moves the match to 'disputed' and holds settlement payouts.
+ *
+ * Auth: Required
+ * Body: { disputeType, description, evidence? }
+ * Response: 201 with created dispute
+ */
+router.post(
+  '/:id/disputes',
+  requireAuth,
+  validateRequest(fileDisputeSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const { id } = req.params;
+      const { disputeType, description, evidence } = req.body as FileDisputeInput;
+
+      const dispute = await fileDispute({
+        matchId: id,
+        userId: user.id,
+        disputeType,
+        description,
+        evidence: evidence as DisputeEvidenceItem[],
+        ipAddress: req.ip || req.socket.remoteAddress,
+        userAgent: req.get('user-agent'),
+      });
+
+      const response: ApiResponse<typeof dispute> = {
+        success: true,
+        data: dispute,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/matches/:id/disputes
+ * List disputes on a match (participants only).
+ *
+ * Auth: Required
+ * Response: 200 with disputes and their resolution status
+ */
+router.get(
+  '/:id/disputes',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const { id } = req.params;
+
+      const disputes = await getMatchDisputes(id, user.id);
+
+      const response: ApiResponse<typeof disputes> = {
+        success: true,
+        data: disputes,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // ===========================================
 // Task 2.2: New Match Mode Routes
 // ===========================================
@@ -5,6 +5,13 @@
 
 import { z } from 'zod';
 import { MatchStatus, GameMode, PickTier, QueueStatus } from '@prisma/client';
+import { SETTLEMENT_EDGE_CASE_CONSTANTS } from '../../services/settlement/settlement-edge-cases.types';
+
+const {
+  MIN_DISPUTE_DESCRIPTION_LENGTH,
+  MAX_DISPUTE_DESCRIPTION_LENGTH,
+  MAX_DISPUTE_EVIDENCE_ITEMS,
+} = SETTLEMENT_EDGE_CASE_CONSTANTS;
 
 // ===========================================
 // Request Validation Schemas
@@ -128,6 +135,52 @@ export const challengeFriendSchema = z.object({
   }),
 });
 
+/**
+ * Schema for filing a dispute on a settled match.
+ * - disputeType: scoring (pick graded wrong), timing, fraud, other
+ * - description: What the participant believes is wrong
+ * - evidence: Optional links/screenshots/notes supporting the claim
+ */
+export const fileDisputeSchema = z.object({
+  disputeType: z.enum(['scoring', 'timing', 'fraud', 'other'], {
+    errorMap: () => ({ message: 'Invalid dispute type. Must be scoring, timing, fraud, or other' }),
+  }),
+  description: z
+    .string()
+    .trim()
+    .min(MIN_DISPUTE_DESCRIPTION_LENGTH, `Description must be at least ${MIN_DISPUTE_DESCRIPTION_LENGTH} characters`)
+    .max(MAX_DISPUTE_DESCRIPTION_LENGTH, `Description cannot exceed ${MAX_DISPUTE_DESCRIPTION_LENGTH} characters`),
+  evidence: z
+    .array(
+      z.object({
+        type: z.enum(['text', 'url', 'screenshot']),
+        value: z.string().min(1).max(2000),
+        description: z.string().max(500).optional(),
+      })
+    )
+    .max(MAX_DISPUTE_EVIDENCE_ITEMS, `At most ${MAX_DISPUTE_EVIDENCE_ITEMS} evidence items allowed`)
+    .optional()
+    .default([]),
+});
+
+/**
+ * Schema for cancelling a match (or requesting/confirming a mutual cancel).
+ * - reason: Optional note shown to the other participant
+ */
+export const cancelMatchSchema = z.object({
+  reason: z.string().trim().max(200, 'Reason cannot exceed 200 characters').optional(),
+});
+
+/**
+ * Schema for requesting a rematch of a settled match.
+ * - slipId: Requester's new DRAFT slip
+ * - sameSlipSize: Require both slips to match the original pick count
+ */
+export const requestRematchSchema = z.object({
+  slipId: z.string().uuid('Invalid slip ID format'),
+  sameSlipSize: z.boolean().optional().default(false),
+});
+
 // ===========================================
 // TypeScript Types
 // ===========================================
@@ -135,6 +188,9 @@ export const challengeFriendSchema = z.object({
 export type CreateMatchInput = z.infer<typeof createMatchSchema>;
 export type JoinMatchInput = z.infer<typeof joinMatchSchema>;
 export type ListMatchesQuery = z.infer<typeof listMatchesQuerySchema>;
+export type FileDisputeInput = z.infer<typeof fileDisputeSchema>;
+export type CancelMatchInput = z.infer<typeof cancelMatchSchema>;
+export type RequestRematchInput = z.infer<typeof requestRematchSchema>;
 
 /**
  * Match details returned by the API.
@@ -166,7 +222,16 @@ export interface MatchDetails {
   version: number;
   matchedAt: Date | null;
   cancelledAt: Date | null;
+  cancelledBy: string | null;
   cancellationReason: string | null;
+  cancelRequestedBy: string | null;
+  cancelRequestedAt: Date | null;
+  rematchOfId: string | null;
+  requiredSlipSize: number | null;
+  leagueId: string | null;
+  leagueRound: number | null;
+  tournamentId: string | null;
+  tournamentRound: number | null;
 
   // Relations (optional for list view)
   creator?: UserBasic;
@@ -291,6 +356,25 @@ export interface FriendChallengeResponse {
   targetUserId: string;
 }
 
+/**
+ * Response for POST /matches/:id/cancel endpoint.
+ * CANCEL_REQUESTED means the other participant still has to confirm.
+ */
+export interface CancelMatchResponse {
+  status: 'CANCELLED' | 'CANCEL_REQUESTED';
+  match: MatchDetails;
+}
+
+/**
+ * Response for POST /matches/:id/rematch endpoint.
+ * REMATCH_STARTED means the other player had already asked, so the match is on.
+ */
+export interface RematchResponse {
+  status: 'REMATCH_REQUESTED' | 'REMATCH_STARTED';
+  match: MatchDetails;
+  originalMatchId: string;
+}
+
 /**
  * Response for GET /matches/queue/status endpoint.
  */
@@ -384,7 +468,16 @@ export const MATCH_DETAILS_SELECT = {
   version: true,
   matchedAt: true,
   cancelledAt: true,
+  cancelledBy: true,
   cancellationReason: true,
+  cancelRequestedBy: true,
+  cancelRequestedAt: true,
+  rematchOfId: true,
+  requiredSlipSize: true,
+  leagueId: true,
+  leagueRound: true,
+  tournamentId: true,
+  tournamentRound: true,
   creator: {
     select: USER_BASIC_SELECT,
   },
@@ -0,0 +1,509 @@
+// =====================================================
+// Match Service Tests
+// =====================================================
+// Covers match cancellation: creator cancel while pending, the mutual
+// request/confirm flow once matched, refund idempotency and state guards.
+// Also covers rematches: requesting, auto-starting when both players ask,
+// slip size requirements and who may join.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  matchFindUnique: vi.fn(),
+  matchFindFirst: vi.fn(),
+  matchCreate: vi.fn(),
+  matchUpdateMany: vi.fn(),
+  slipFindFirst: vi.fn(),
+  slipUpdate: vi.fn(),
+  slipUpdateMany: vi.fn(),
+  userFindUnique: vi.fn(),
+  friendshipFindFirst: vi.fn(),
+  queueFindFirst: vi.fn(),
+  auditLogCreate: vi.fn(),
+  debitWallet: vi.fn(),
+  processRefund: vi.fn(),
+  broadcast: vi.fn(),
+  broadcastRematch: vi.fn(),
+  sendRematchNotification: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => {
+  const tx = {
+    match: {
+      findUnique: mocks.matchFindUnique,
+      findFirst: mocks.matchFindFirst,
+      create: mocks.matchCreate,
+      updateMany: mocks.matchUpdateMany,
+    },
+    slip: {
+      findFirst: mocks.slipFindFirst,
+      update: mocks.slipUpdate,
+      updateMany: mocks.slipUpdateMany,
+    },
+    user: { findUnique: mocks.userFindUnique },
+    friendship: { findFirst: mocks.friendshipFindFirst },
+    matchmakingQueue: { findFirst: mocks.queueFindFirst },
+    matchAuditLog: { create: mocks.auditLogCreate },
+  };
+
+  return {
+    prisma: {
+      ...tx,
+      $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../../lib/wallet.service', () => ({
+  debitWallet: mocks.debitWallet,
+  processRefund: mocks.processRefund,
+  bigIntToNumber: (value: bigint) => Number(value),
+}));
+
+vi.mock('../../services/live-scores/live-scores.broadcaster', () => ({
+  broadcastMatchCancellationSync: mocks.broadcast,
+  broadcastRematchSync: mocks.broadcastRematch,
+}));
+
+vi.mock('../../services/notifications', () => ({
+  sendRematchRequestNotification: mocks.sendRematchNotification,
+}));
+
+import { cancelMatch, joinMatch, requestRematch } from './matches.service';
+import { config } from '../../config';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../utils/errors';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const CREATOR = 'user-creator';
+const OPPONENT = 'user-opponent';
+
+function createCancellableMatch(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'match-1',
+    version: 2,
+    status: 'matched',
+    creatorId: CREATOR,
+    opponentId: OPPONENT,
+    creatorSlipId: 'slip-creator',
+    opponentSlipId: 'slip-opponent',
+    creatorEntryTxId: 'tx-creator',
+    opponentEntryTxId: 'tx-opponent',
+    lockedAt: null,
+    cancelRequestedBy: null,
+    ...overrides,
+  };
+}
+
+const MATCH_DETAILS = {
+  id: 'match-1',
+  type: 'private',
+  stakeAmount: BigInt(1000),
+  rakePercentage: 5,
+  creatorPoints: 0,
+  opponentPoints: 0,
+  status: 'cancelled',
+};
+
+/**
+ * First findUnique reads the cancellable state, later ones return details.
+ */
+function mockMatch(state: ReturnType<typeof createCancellableMatch>) {
+  mocks.matchFindUnique.mockResolvedValueOnce(state).mockResolvedValue(MATCH_DETAILS);
+}
+
+function createSettledMatch(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'match-1',
+    status: 'settled',
+    stakeAmount: BigInt(1000),
+    creatorId: CREATOR,
+    opponentId: OPPONENT,
+    creatorSlip: { totalPicks: 4 },
+    opponentSlip: { totalPicks: 3 },
+    ...overrides,
+  };
+}
+
+function createPendingRematch(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'rematch-1',
+    version: 1,
+    status: 'pending',
+    creatorId: OPPONENT,
+    stakeAmount: BigInt(1000),
+    inviteExpiresAt: new Date(Date.now() + 60_000),
+    inviteCode: 'ABCDEFGHJK',
+    requiredSlipSize: null,
+    rematchOf: { creatorId: CREATOR, opponentId: OPPONENT },
+    ...overrides,
+  };
+}
+
+const REMATCH_DETAILS = {
+  ...MATCH_DETAILS,
+  id: 'rematch-1',
+  status: 'pending',
+  rematchOfId: 'match-1',
+  matchedAt: null,
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.matchFindUnique.mockReset();
+  mocks.matchFindFirst.mockReset();
+  mocks.matchFindFirst.mockResolvedValue(null);
+  mocks.matchCreate.mockResolvedValue(REMATCH_DETAILS);
+  mocks.matchUpdateMany.mockResolvedValue({ count: 1 });
+  mocks.slipFindFirst.mockResolvedValue({ id: 'slip-new', status: 'DRAFT', totalPicks: 4 });
+  mocks.userFindUnique.mockImplementation(({ where }: { where: { id: string } }) =>
+    Promise.resolve({ id: where.id, username: `${where.id}-name`, status: 'active' })
+  );
+  mocks.friendshipFindFirst.mockResolvedValue(null);
+  mocks.queueFindFirst.mockResolvedValue(null);
+  mocks.debitWallet.mockResolvedValue({ id: 'entry-tx' });
+  mocks.processRefund.mockResolvedValue({ id: 'refund-tx' });
+  mocks.sendRematchNotification.mockResolvedValue(undefined);
+});
+
+// ===========================================
+// Test: Pending Matches
+// ===========================================
+
+describe('cancelMatch - pending', () => {
+  it('lets the creator cancel and refunds their stake', async () => {
+    mockMatch(
+      createCancellableMatch({
+        status: 'pending',
+        opponentId: null,
+        opponentSlipId: null,
+        opponentEntryTxId: null,
+      })
+    );
+
+    const result = await cancelMatch('match-1', CREATOR, 'Wrong slip');
+
+    expect(result.status).toBe('CANCELLED');
+    expect(mocks.matchUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'match-1', version: 2, status: 'pending', lockedAt: null },
+      data: expect.objectContaining({
+        status: 'cancelled',
+        cancelledBy: CREATOR,
+        cancellationReason: 'Wrong slip',
+      }),
+    });
+    expect(mocks.slipUpdateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['slip-creator'] } },
+      data: { status: 'DRAFT', lockedAt: null },
+    });
+    expect(mocks.auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'CANCELLED', performedBy: CREATOR }),
+    });
+    expect(mocks.processRefund).toHaveBeenCalledTimes(1);
+    expect(mocks.processRefund).toHaveBeenCalledWith({
+      originalTransactionId: 'tx-creator',
+      idempotencyKey: `cancellation:match-1:refund:${CREATOR}`,
+      description: 'Match cancelled - entry fee refunded',
+    });
+    // Nobody else to notify yet
+    expect(mocks.broadcast).not.toHaveBeenCalled();
+  });
+
+  it('hides matches the caller is not part of', async () => {
+    mockMatch(createCancellableMatch({ status: 'pending', opponentId: null }));
+
+    await expect(cancelMatch('match-1', 'user-stranger')).rejects.toThrow(NotFoundError);
+    expect(mocks.matchUpdateMany).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// Test: Mutual Cancellation
+// ===========================================
+
+describe('cancelMatch - matched', () => {
+  it('records the first request and notifies the other participant', async () => {
+    mockMatch(createCancellableMatch());
+
+    const result = await cancelMatch('match-1', CREATOR, 'Need to leave');
+
+    expect(result.status).toBe('CANCEL_REQUESTED');
+    expect(mocks.matchUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'match-1', version: 2, status: 'matched', lockedAt: null },
+      data: expect.objectContaining({ cancelRequestedBy: CREATOR }),
+    });
+    expect(mocks.processRefund).not.toHaveBeenCalled();
+    expect(mocks.broadcast).toHaveBeenCalledWith(
+      OPPONENT,
+      'match:cancel-requested',
+      expect.objectContaining({ matchId: 'match-1', requestedBy: CREATOR, reason: 'Need to leave' })
+    );
+  });
+
+  it('treats a repeat request from the same participant as a no-op', async () => {
+    mockMatch(createCancellableMatch({ cancelRequestedBy: CREATOR }));
+
+    const result = await cancelMatch('match-1', CREATOR);
+
+    expect(result.status).toBe('CANCEL_REQUESTED');
+    expect(mocks.matchUpdateMany).not.toHaveBeenCalled();
+    expect(mocks.broadcast).not.toHaveBeenCalled();
+  });
+
+  it('cancels and refunds both stakes when the other participant confirms', async () => {
+    mockMatch(createCancellableMatch({ cancelRequestedBy: CREATOR }));
+
+    const result = await cancelMatch('match-1', OPPONENT);
+
+    expect(result.status).toBe('CANCELLED');
+    expect(mocks.slipUpdateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['slip-creator', 'slip-opponent'] } },
+      data: { status: 'DRAFT', lockedAt: null },
+    });
+    expect(mocks.processRefund.mock.calls.map(([params]) => params.idempotencyKey)).toEqual([
+      `cancellation:match-1:refund:${CREATOR}`,
+      `cancellation:match-1:refund:${OPPONENT}`,
+    ]);
+    expect(mocks.broadcast).toHaveBeenCalledWith(
+      CREATOR,
+      'match:cancelled',
+      expect.objectContaining({ cancelledBy: OPPONENT, mutual: true })
+    );
+  });
+
+  it('still cancels when a refund fails so it can be retried', async () => {
+    mockMatch(createCancellableMatch({ cancelRequestedBy: OPPONENT }));
+    mocks.processRefund.mockRejectedValueOnce(new Error('Wallet was modified'));
+
+    const result = await cancelMatch('match-1', CREATOR);
+
+    expect(result.status).toBe('CANCELLED');
+    expect(mocks.processRefund).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects the cancel when the match changed concurrently', async () => {
+    mockMatch(createCancellableMatch({ cancelRequestedBy: CREATOR }));
+    mocks.matchUpdateMany.mockResolvedValue({ count: 0 });
+
+    await expect(cancelMatch('match-1', OPPONENT)).rejects.toThrow(ConflictError);
+    expect(mocks.processRefund).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// Test: State Guards
+// ===========================================
+
+describe('cancelMatch - state guards', () => {
+  it('refuses once slips are locked', async () => {
+    mockMatch(createCancellableMatch({ lockedAt: new Date() }));
+
+    await expect(cancelMatch('match-1', CREATOR)).rejects.toThrow(BadRequestError);
+  });
+
+  it.each(['locked', 'active', 'settled'])('refuses %s matches', async (status) => {
+    mockMatch(createCancellableMatch({ status }));
+
+    await expect(cancelMatch('match-1', CREATOR)).rejects.toThrow(
+      'Match can no longer be cancelled'
+    );
+  });
+
+  it('retries refunds on an already cancelled match without changing state', async () => {
+    mockMatch(createCancellableMatch({ status: 'cancelled' }));
+
+    const result = await cancelMatch('match-1', OPPONENT);
+
+    expect(result.status).toBe('CANCELLED');
+    expect(mocks.matchUpdateMany).not.toHaveBeenCalled();
+    expect(mocks.processRefund).toHaveBeenCalledTimes(2);
+    expect(mocks.broadcast).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// Test: Rematch Requests
+// ===========================================
+
+describe('requestRematch', () => {
+  it('creates a pending rematch at the same stake and notifies the opponent', async () => {
+    mocks.matchFindUnique.mockResolvedValueOnce(createSettledMatch()).mockResolvedValue(null);
+    const before = Date.now();
+
+    const result = await requestRematch('match-1', CREATOR, { slipId: 'slip-new', sameSlipSize: false });
+
+    expect(result.status).toBe('REMATCH_REQUESTED');
+    expect(result.originalMatchId).toBe('match-1');
+    const { data } = mocks.matchCreate.mock.calls[0][0];
+    expect(data).toMatchObject({
+      gameMode: 'PLAY_FRIEND',
+      stakeAmount: BigInt(1000),
+      creatorId: CREATOR,
+      creatorSlipId: 'slip-new',
+      status: 'pending',
+      rematchOfId: 'match-1',
+      requiredSlipSize: null,
+    });
+    expect(data.inviteExpiresAt.getTime()).toBeGreaterThanOrEqual(
+      before + config.rematch.windowMinutes * 60 * 1000
+    );
+    expect(mocks.auditLogCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: 'REMATCH_REQUESTED', performedBy: CREATOR }),
+    });
+    expect(mocks.broadcastRematch).toHaveBeenCalledWith(
+      OPPONENT,
+      'match:rematch-requested',
+      expect.objectContaining({
+        matchId: 'rematch-1',
+        originalMatchId: 'match-1',
+        requestedBy: CREATOR,
+        stakeAmount: 1000,
+      })
+    );
+    expect(mocks.sendRematchNotification).toHaveBeenCalledWith(
+      OPPONENT,
+      'rematch-1',
+      'match-1',
+      `${CREATOR}-name`
+    );
+  });
+
+  it('requires the original slip size when asked', async () => {
+    mocks.matchFindUnique.mockImplementation(({ where }: { where: { id?: string } }) =>
+      Promise.resolve(where.id ? createSettledMatch() : null)
+    );
+
+    // The creator's original slip had 4 picks
+    await requestRematch('match-1', CREATOR, { slipId: 'slip-new', sameSlipSize: true });
+    expect(mocks.matchCreate.mock.calls[0][0].data.requiredSlipSize).toBe(4);
+
+    // The opponent's had 3, but their new slip has 4
+    await expect(
+      requestRematch('match-1', OPPONENT, { slipId: 'slip-new', sameSlipSize: true })
+    ).rejects.toThrow('exactly 3 picks');
+  });
+
+  it('starts the rematch when the other player already asked', async () => {
+    mocks.matchFindUnique
+      .mockResolvedValueOnce(createSettledMatch())
+      .mockResolvedValueOnce(createPendingRematch())
+      .mockResolvedValue({ ...REMATCH_DETAILS, status: 'matched', matchedAt: new Date() });
+    mocks.matchFindFirst.mockResolvedValueOnce({ id: 'rematch-1', creatorId: OPPONENT });
+
+    const result = await requestRematch('match-1', CREATOR, { slipId: 'slip-new', sameSlipSize: false });
+
+    expect(result.status).toBe('REMATCH_STARTED');
+    expect(mocks.matchCreate).not.toHaveBeenCalled();
+    expect(mocks.matchUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'rematch-1', version: 1, status: 'pending' },
+      data: expect.objectContaining({ opponentId: CREATOR, status: 'matched' }),
+    });
+    expect(mocks.broadcastRematch).toHaveBeenCalledWith(
+      OPPONENT,
+      'match:rematch-started',
+      expect.objectContaining({ matchId: 'rematch-1', acceptedBy: CREATOR })
+    );
+  });
+
+  it('charges a new entry when the same slip is used again after a cancelled request', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // A repeated idempotency key would hand back the refunded entry
+    const entries = new Map<string, { id: string }>();
+    mocks.debitWallet.mockImplementation(({ idempotencyKey }: { idempotencyKey: string }) => {
+      if (!entries.has(idempotencyKey)) {
+        entries.set(idempotencyKey, { id: `entry-tx-${entries.size + 1}` });
+      }
+      return Promise.resolve(entries.get(idempotencyKey));
+    });
+
+    try {
+      mocks.matchFindUnique.mockResolvedValueOnce(createSettledMatch()).mockResolvedValue(null);
+      await requestRematch('match-1', CREATOR, { slipId: 'slip-new', sameSlipSize: false });
+
+      vi.advanceTimersByTime(60_000);
+      mockMatch(
+        createCancellableMatch({
+          id: 'rematch-1',
+          status: 'pending',
+          creatorSlipId: 'slip-new',
+          creatorEntryTxId: 'entry-tx-1',
+          opponentId: null,
+          opponentSlipId: null,
+          opponentEntryTxId: null,
+        })
+      );
+      await cancelMatch('rematch-1', CREATOR);
+      expect(mocks.processRefund).toHaveBeenCalledWith(
+        expect.objectContaining({ originalTransactionId: 'entry-tx-1' })
+      );
+
+      vi.advanceTimersByTime(60_000);
+      mocks.matchFindUnique.mockReset();
+      mocks.matchFindUnique.mockResolvedValueOnce(createSettledMatch()).mockResolvedValue(null);
+      await requestRematch('match-1', CREATOR, { slipId: 'slip-new', sameSlipSize: false });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(mocks.debitWallet).toHaveBeenCalledTimes(2);
+    expect(entries.size).toBe(2);
+    expect(mocks.matchCreate.mock.calls[1][0].data.creatorEntryTxId).toBe('entry-tx-2');
+  });
+
+  it('rejects a second request from the same player', async () => {
+    mocks.matchFindUnique.mockResolvedValueOnce(createSettledMatch());
+    mocks.matchFindFirst.mockResolvedValueOnce({ id: 'rematch-1', creatorId: CREATOR });
+
+    await expect(
+      requestRematch('match-1', CREATOR, { slipId: 'slip-new', sameSlipSize: false })
+    ).rejects.toThrow(ConflictError);
+  });
+
+  it('refuses matches that have not settled', async () => {
+    mocks.matchFindUnique.mockResolvedValueOnce(createSettledMatch({ status: 'active' }));
+
+    await expect(
+      requestRematch('match-1', CREATOR, { slipId: 'slip-new', sameSlipSize: false })
+    ).rejects.toThrow(BadRequestError);
+  });
+
+  it('refuses callers who did not play the match', async () => {
+    mocks.matchFindUnique.mockResolvedValueOnce(createSettledMatch());
+
+    await expect(
+      requestRematch('match-1', 'user-stranger', { slipId: 'slip-new', sameSlipSize: false })
+    ).rejects.toThrow(ForbiddenError);
+  });
+
+  it('respects a block between the players', async () => {
+    mocks.matchFindUnique.mockResolvedValueOnce(createSettledMatch());
+    mocks.friendshipFindFirst.mockResolvedValue({ id: 'friendship-1' });
+
+    await expect(
+      requestRematch('match-1', CREATOR, { slipId: 'slip-new', sameSlipSize: false })
+    ).rejects.toThrow(ForbiddenError);
+    expect(mocks.debitWallet).not.toHaveBeenCalled();
+  });
+});
+
+describe('joinMatch - rematches', () => {
+  it('only lets the original opponent join', async () => {
+    mocks.matchFindUnique.mockResolvedValueOnce(createPendingRematch({ creatorId: CREATOR }));
+
+    await expect(joinMatch('rematch-1', 'user-stranger', 'slip-new')).rejects.toThrow(
+      ForbiddenError
+    );
+    expect(mocks.debitWallet).not.toHaveBeenCalled();
+  });
+});
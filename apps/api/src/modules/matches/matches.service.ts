@@ -15,8 +15,19 @@ import {
 } from '../../utils/errors';
 import { ERROR_CODES } from '@pick-rivals/shared-types';
 import { debitWallet, processRefund, bigIntToNumber } from '../../lib/wallet.service';
+import { generateCancellationRefundKey } from '../../services/settlement/settlement-edge-cases.types';
+import {
+  broadcastMatchCancellationSync,
+  broadcastRematchSync,
+} from '../../services/live-scores/live-scores.broadcaster';
+import { sendRematchRequestNotification } from '../../services/notifications';
+import { config } from '../../config';
+import { generateUniqueInviteCode } from '../../lib/invite-code';
 import {
   CreateMatchInput,
+  CancelMatchResponse,
+  RematchResponse,
+  RequestRematchInput,
   ListMatchesQuery,
   MatchDetails,
   MatchListItem,
@@ -31,26 +42,26 @@ import {
 // Constants
 // ===========================================
 
-const INVITE_CODE_LENGTH = 10;
-const INVITE_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Excludes ambiguous chars (0, O, I, 1)
 const DEFAULT_EXPIRY_HOURS = 24;
 const TRANSACTION_TIMEOUT = 10000; // 10 seconds
+const REMATCHABLE_STATUSES: MatchStatus[] = [MatchStatus.settled, MatchStatus.draw];
 
 // ===========================================
 // Helper Functions
 // ===========================================
 
 /**
- * Generates a random alphanumeric invite code.
- * Excludes ambiguous characters for user-friendliness.
+ * Generates an invite code not used by any match.
+ * Returns null if every attempt collided.
  */
-function generateInviteCode(): string {
-  let code = '';
-  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
-    const randomIndex = Math.floor(Math.random() * INVITE_CODE_CHARS.length);
-    code += INVITE_CODE_CHARS[randomIndex];
-  }
-  return code;
+async function generateMatchInviteCode(): Promise<string | null> {
+  return generateUniqueInviteCode(async (inviteCode) => {
+    const existing = await prisma.match.findUnique({
+      where: { inviteCode },
+      select: { id: true },
+    });
+    return !!existing;
+  });
 }
 
 /**
@@ -91,7 +102,16 @@ function transformMatchDetails(match: any): MatchDetails {
     version: match.version,
     matchedAt: match.matchedAt,
     cancelledAt: match.cancelledAt,
+    cancelledBy: match.cancelledBy,
     cancellationReason: match.cancellationReason,
+    cancelRequestedBy: match.cancelRequestedBy,
+    cancelRequestedAt: match.cancelRequestedAt,
+    rematchOfId: match.rematchOfId ?? null,
+    requiredSlipSize: match.requiredSlipSize ?? null,
+    leagueId: match.leagueId ?? null,
+    leagueRound: match.leagueRound ?? null,
+    tournamentId: match.tournamentId ?? null,
+    tournamentRound: match.tournamentRound ?? null,
     creator: match.creator,
     opponent: match.opponent,
     winner: match.winner,
@@ -158,7 +178,8 @@ function transformMatchListItem(match: any): MatchListItem {
 async function validateSlipForMatch(
   slipId: string,
   userId: string,
-  tx: Prisma.TransactionClient
+  tx: Prisma.TransactionClient,
+  requiredSlipSize?: number | null
 ): Promise<void> {
   const slip = await tx.slip.findFirst({
     where: { id: slipId, userId },
@@ -189,6 +210,13 @@ async function validateSlipForMatch(
       ERROR_CODES.INVALID_PICK_COUNT
     );
   }
+
+  if (requiredSlipSize && slip.totalPicks !== requiredSlipSize) {
+    throw new BadRequestError(
+      `This match requires a slip with exactly ${requiredSlipSize} picks`,
+      ERROR_CODES.INVALID_PICK_COUNT
+    );
+  }
 }
 
 /**
@@ -243,22 +271,9 @@ export async function createMatch(
   const { slipId, stakeAmount, inviteExpiresIn } = data;
 
   // Generate unique invite code (retry on collision)
-  let inviteCode: string;
-  let codeExists = true;
-  let attempts = 0;
-  const maxAttempts = 5;
-
-  while (codeExists && attempts < maxAttempts) {
-    inviteCode = generateInviteCode();
-    const existing = await prisma.match.findUnique({
-      where: { inviteCode },
-      select: { id: true },
-    });
-    codeExists = !!existing;
-    attempts++;
-  }
+  const inviteCode = await generateMatchInviteCode();
 
-  if (codeExists) {
+  if (!inviteCode) {
     throw new ConflictError(
       'Failed to generate unique invite code. Please retry.',
       ERROR_CODES.INTERNAL_ERROR
@@ -308,7 +323,7 @@ export async function createMatch(
           creatorSlipId: slipId,
           creatorEntryTxId: entryTx.id,
           status: MatchStatus.pending,
-          inviteCode: inviteCode!,
+          inviteCode: inviteCode,
           inviteExpiresAt,
           version: 1,
         },
@@ -323,7 +338,7 @@ export async function createMatch(
         userId,
         {},
         { status: 'pending', stakeAmount },
-        { inviteCode: inviteCode!, inviteExpiresAt: inviteExpiresAt.toISOString() }
+        { inviteCode: inviteCode, inviteExpiresAt: inviteExpiresAt.toISOString() }
       );
 
       logger.info(
@@ -377,6 +392,10 @@ export async function joinMatch(
       stakeAmount: true,
       inviteExpiresAt: true,
       inviteCode: true,
+      requiredSlipSize: true,
+      rematchOf: {
+        select: { creatorId: true, opponentId: true },
+      },
     },
   });
 
@@ -409,13 +428,22 @@ export async function joinMatch(
     );
   }
 
+  // Rematches are reserved for the original opponent
+  const { rematchOf } = existingMatch;
+  if (rematchOf && rematchOf.creatorId !== opponentId && rematchOf.opponentId !== opponentId) {
+    throw new ForbiddenError(
+      'This rematch is reserved for the original opponent',
+      ERROR_CODES.FORBIDDEN
+    );
+  }
+
   const stakeAmount = existingMatch.stakeAmount;
 
   // 3. Execute atomic transaction with optimistic lock
   const updatedMatch = await prisma.$transaction(
     async (tx) => {
       // Validate opponent's slip
-      await validateSlipForMatch(opponentSlipId, opponentId, tx);
+      await validateSlipForMatch(opponentSlipId, opponentId, tx, existingMatch.requiredSlipSize);
 
       // Debit opponent's wallet
       const entryTx = await debitWallet({
@@ -817,6 +845,310 @@ export async function processExpiredMatches(): Promise<number> {
   }
 }
 
+// ===========================================
+// Match Cancellation
+// ===========================================
+
+const CANCELLABLE_MATCH_SELECT = {
+  id: true,
+  version: true,
+  status: true,
+  creatorId: true,
+  opponentId: true,
+  creatorSlipId: true,
+  opponentSlipId: true,
+  creatorEntryTxId: true,
+  opponentEntryTxId: true,
+  lockedAt: true,
+  cancelRequestedBy: true,
+  tournamentId: true,
+} as const;
+
+type CancellableMatch = Prisma.MatchGetPayload<{ select: typeof CANCELLABLE_MATCH_SELECT }>;
+
+/**
+ * Cancels a match, or records one side of a mutual cancellation.
+ *
+ * Rules:
+ * - pending: the creator may cancel outright
+ * - matched (not yet locked): the first participant to call records a
+ *   cancel request; the match is cancelled when the other participant calls too
+ * - cancelled: refunds are re-attempted, so a failed refund can be retried
+ *
+ * Refunds are keyed by generateCancellationRefundKey, so repeated calls never
+ * credit a stake twice. The other participant is notified over the socket.
+ *
+ * @throws {NotFoundError} Match not found or user is not a participant
+ * @throws {BadRequestError} Match is past the point where it can be cancelled
+ * @throws {ConflictError} Match changed concurrently
+ */
+export async function cancelMatch(
+  matchId: string,
+  userId: string,
+  reason?: string
+): Promise<CancelMatchResponse> {
+  const existingMatch = await prisma.match.findUnique({
+    where: { id: matchId },
+    select: CANCELLABLE_MATCH_SELECT,
+  });
+
+  if (
+    !existingMatch ||
+    (existingMatch.creatorId !== userId && existingMatch.opponentId !== userId)
+  ) {
+    throw new NotFoundError(
+      'Match not found or you are not a participant',
+      ERROR_CODES.MATCH_NOT_FOUND
+    );
+  }
+
+  // Bracket matches are decided by the tournament (forfeit on a missed slip)
+  if (existingMatch.tournamentId) {
+    throw new BadRequestError(
+      'Tournament matches cannot be cancelled',
+      ERROR_CODES.MATCH_NOT_CANCELLABLE
+    );
+  }
+
+  // Already cancelled - re-run refunds in case one failed the first time
+  if (existingMatch.status === MatchStatus.cancelled) {
+    await refundCancelledMatch(existingMatch);
+    const match = await prisma.match.findUnique({
+      where: { id: matchId },
+      select: MATCH_DETAILS_SELECT,
+    });
+    return { status: 'CANCELLED', match: transformMatchDetails(match) };
+  }
+
+  if (existingMatch.status === MatchStatus.pending) {
+    const match = await applyCancellation(
+      existingMatch,
+      userId,
+      reason ?? 'Cancelled by creator',
+      false
+    );
+    return { status: 'CANCELLED', match };
+  }
+
+  if (existingMatch.status === MatchStatus.matched && !existingMatch.lockedAt) {
+    // The other participant already asked - this call confirms
+    if (existingMatch.cancelRequestedBy && existingMatch.cancelRequestedBy !== userId) {
+      const match = await applyCancellation(
+        existingMatch,
+        userId,
+        reason ?? 'Mutually cancelled by both participants',
+        true
+      );
+      return { status: 'CANCELLED', match };
+    }
+
+    const match = await requestCancellation(existingMatch, userId, reason ?? null);
+    return { status: 'CANCEL_REQUESTED', match };
+  }
+
+  throw new BadRequestError(
+    `Match can no longer be cancelled (status: ${existingMatch.status})`,
+    ERROR_CODES.MATCH_NOT_CANCELLABLE
+  );
+}
+
+/**
+ * Records a cancel request on a matched game and notifies the other participant.
+ * Repeat requests from the same participant are a no-op.
+ */
+async function requestCancellation(
+  existingMatch: CancellableMatch,
+  userId: string,
+  reason: string | null
+): Promise<MatchDetails> {
+  if (existingMatch.cancelRequestedBy === userId) {
+    const match = await prisma.match.findUnique({
+      where: { id: existingMatch.id },
+      select: MATCH_DETAILS_SELECT,
+    });
+    return transformMatchDetails(match);
+  }
+
+  const requestedAt = new Date();
+
+  const updatedMatch = await prisma.$transaction(
+    async (tx) => {
+      const updateResult = await tx.match.updateMany({
+        where: {
+          id: existingMatch.id,
+          version: existingMatch.version,
+          status: MatchStatus.matched,
+          lockedAt: null,
+        },
+        data: {
+          cancelRequestedBy: userId,
+          cancelRequestedAt: requestedAt,
+          version: { increment: 1 },
+        },
+      });
+
+      if (updateResult.count === 0) {
+        throw new ConflictError(
+          'Match was updated by another request. Please refresh and try again.',
+          ERROR_CODES.INTERNAL_ERROR
+        );
+      }
+
+      await createAuditLog(
+        tx,
+        existingMatch.id,
+        'CANCEL_REQUESTED',
+        userId,
+        { status: 'matched' },
+        { status: 'matched', cancelRequestedBy: userId },
+        { reason }
+      );
+
+      return tx.match.findUnique({
+        where: { id: existingMatch.id },
+        select: MATCH_DETAILS_SELECT,
+      });
+    },
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+
+  logger.info(`[MatchService] Cancel requested on match ${existingMatch.id} by ${userId}`);
+
+  const otherUserId = getOtherParticipant(existingMatch, userId);
+  if (otherUserId) {
+    broadcastMatchCancellationSync(otherUserId, 'match:cancel-requested', {
+      matchId: existingMatch.id,
+      requestedBy: userId,
+      reason,
+      requestedAt: requestedAt.toISOString(),
+    });
+  }
+
+  return transformMatchDetails(updatedMatch);
+}
+
+/**
+ * Moves a match to cancelled, unlocks both slips, refunds stakes and
+ * notifies the other participant.
+ */
+async function applyCancellation(
+  existingMatch: CancellableMatch,
+  userId: string,
+  reason: string,
+  mutual: boolean
+): Promise<MatchDetails> {
+  const cancelledAt = new Date();
+
+  const updatedMatch = await prisma.$transaction(
+    async (tx) => {
+      // Optimistic lock - also guards against the match locking mid-request
+      const updateResult = await tx.match.updateMany({
+        where: {
+          id: existingMatch.id,
+          version: existingMatch.version,
+          status: existingMatch.status,
+          lockedAt: null,
+        },
+        data: {
+          status: MatchStatus.cancelled,
+          cancelledAt,
+          cancelledBy: userId,
+          cancellationReason: reason,
+          version: { increment: 1 },
+        },
+      });
+
+      if (updateResult.count === 0) {
+        throw new ConflictError(
+          'Match was updated by another request. Please refresh and try again.',
+          ERROR_CODES.INTERNAL_ERROR
+        );
+      }
+
+      const slipIds = [existingMatch.creatorSlipId, existingMatch.opponentSlipId].filter(
+        (id): id is string => !!id
+      );
+
+      if (slipIds.length > 0) {
+        await tx.slip.updateMany({
+          where: { id: { in: slipIds } },
+          data: {
+            status: SlipStatus.DRAFT,
+            lockedAt: null,
+          },
+        });
+      }
+
+      await createAuditLog(
+        tx,
+        existingMatch.id,
+        'CANCELLED',
+        userId,
+        { status: existingMatch.status, cancelRequestedBy: existingMatch.cancelRequestedBy },
+        { status: 'cancelled' },
+        { reason, mutual }
+      );
+
+      return tx.match.findUnique({
+        where: { id: existingMatch.id },
+        select: MATCH_DETAILS_SELECT,
+      });
+    },
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+
+  logger.info(`[MatchService] Match ${existingMatch.id} cancelled by ${userId}`, { mutual });
+
+  // Refunds run outside the state transaction (processRefund opens its own)
+  await refundCancelledMatch(existingMatch);
+
+  const otherUserId = getOtherParticipant(existingMatch, userId);
+  if (otherUserId) {
+    broadcastMatchCancellationSync(otherUserId, 'match:cancelled', {
+      matchId: existingMatch.id,
+      cancelledBy: userId,
+      reason,
+      mutual,
+      cancelledAt: cancelledAt.toISOString(),
+    });
+  }
+
+  return transformMatchDetails(updatedMatch);
+}
+
+/**
+ * Refunds every participant's entry fee on a cancelled match.
+ * Idempotent - failures are logged and can be retried by cancelling again.
+ */
+async function refundCancelledMatch(match: CancellableMatch): Promise<void> {
+  const entries: Array<[string | null, string | null]> = [
+    [match.creatorId, match.creatorEntryTxId],
+    [match.opponentId, match.opponentEntryTxId],
+  ];
+
+  for (const [participantId, entryTxId] of entries) {
+    if (!participantId || !entryTxId) continue;
+
+    try {
+      await processRefund({
+        originalTransactionId: entryTxId,
+        idempotencyKey: generateCancellationRefundKey(match.id, participantId),
+        description: 'Match cancelled - entry fee refunded',
+      });
+    } catch (refundError) {
+      // Log but don't fail - the match is already cancelled
+      logger.error(
+        `[MatchService] Failed to refund ${participantId} for cancelled match ${match.id}:`,
+        refundError
+      );
+    }
+  }
+}
+
+function getOtherParticipant(match: CancellableMatch, userId: string): string | null {
+  return match.creatorId === userId ? match.opponentId : match.creatorId;
+}
+
 // ===========================================
 // Task 2.2: New Match Mode Methods
 // ===========================================
@@ -908,22 +1240,9 @@ export async function createRandomMatchLobby(
   }
 
   // 3. Generate unique invite code (used as lobby code)
-  let inviteCode: string;
-  let codeExists = true;
-  let attempts = 0;
-  const maxAttempts = 5;
-
-  while (codeExists && attempts < maxAttempts) {
-    inviteCode = generateInviteCode();
-    const existing = await prisma.match.findUnique({
-      where: { inviteCode },
-      select: { id: true },
-    });
-    codeExists = !!existing;
-    attempts++;
-  }
+  const inviteCode = await generateMatchInviteCode();
 
-  if (codeExists) {
+  if (!inviteCode) {
     throw new ConflictError(
       'Failed to generate unique lobby code. Please retry.',
       ERROR_CODES.INTERNAL_ERROR
@@ -972,7 +1291,7 @@ export async function createRandomMatchLobby(
           creatorSlipId: slipId,
           creatorEntryTxId: entryTx.id,
           status: MatchStatus.pending,
-          inviteCode: inviteCode!,
+          inviteCode: inviteCode,
           inviteExpiresAt,
           version: 1,
         },
@@ -987,7 +1306,7 @@ export async function createRandomMatchLobby(
         userId,
         {},
         { status: 'pending', stakeAmount, gameMode: 'RANDOM_MATCH' },
-        { lobbyCode: inviteCode!, expiresAt: inviteExpiresAt.toISOString() }
+        { lobbyCode: inviteCode, expiresAt: inviteExpiresAt.toISOString() }
       );
 
       logger.info(
@@ -1146,22 +1465,9 @@ export async function createFriendChallenge(
   }
 
   // 6. Generate invite code for the challenge
-  let inviteCode: string;
-  let codeExists = true;
-  let attempts = 0;
-  const maxAttempts = 5;
+  const inviteCode = await generateMatchInviteCode();
 
-  while (codeExists && attempts < maxAttempts) {
-    inviteCode = generateInviteCode();
-    const existing = await prisma.match.findUnique({
-      where: { inviteCode },
-      select: { id: true },
-    });
-    codeExists = !!existing;
-    attempts++;
-  }
-
-  if (codeExists) {
+  if (!inviteCode) {
     throw new ConflictError(
       'Failed to generate unique challenge code. Please retry.',
       ERROR_CODES.INTERNAL_ERROR
@@ -1212,7 +1518,7 @@ export async function createFriendChallenge(
           creatorSlipId: slipId,
           creatorEntryTxId: entryTx.id,
           status: MatchStatus.pending,
-          inviteCode: inviteCode!,
+          inviteCode: inviteCode,
           inviteExpiresAt,
           version: 1,
         },
@@ -1227,7 +1533,7 @@ export async function createFriendChallenge(
         challengerId,
         {},
         { status: 'pending', stakeAmount, gameMode: 'PLAY_FRIEND' },
-        { targetUserId, targetUsername: targetUser.username, message: message || null, inviteCode: inviteCode! }
+        { targetUserId, targetUsername: targetUser.username, message: message || null, inviteCode: inviteCode }
       );
 
       logger.info(
@@ -1248,3 +1554,299 @@ export async function createFriendChallenge(
 
   return transformMatchDetails(match);
 }
+
+// ===========================================
+// Rematch
+// ===========================================
+
+/**
+ * Asks to run a settled match back: same opponent, same stake.
+ *
+ * If the opponent already asked and their request hasn't expired, the
+ * caller's slip joins it and the rematch starts immediately (their
+ * slip size requirement applies, not the caller's). Otherwise a
+ * PLAY_FRIEND challenge is created that only the original opponent can
+ * join, expiring after `config.rematch.windowMinutes`.
+ *
+ * Friendship isn't required since the two have already played, but a
+ * block is respected. The queue's recent-opponent exclusion doesn't
+ * apply to direct rematches.
+ *
+ * @param matchId - The settled match to replay
+ * @param userId - Requesting participant
+ * @param data - New DRAFT slip, and whether to keep the original pick count
+ *
+ * @throws {NotFoundError} Match or slip not found
+ * @throws {ForbiddenError} Caller is not a participant, or a block exists
+ * @throws {BadRequestError} Match not settled, or slip has the wrong pick count
+ * @throws {ConflictError} Already requested, or either player is busy
+ * @throws {InsufficientBalanceError} Wallet balance too low
+ */
+export async function requestRematch(
+  matchId: string,
+  userId: string,
+  data: RequestRematchInput
+): Promise<RematchResponse> {
+  const { slipId, sameSlipSize } = data;
+
+  // 1. Validate the original match and caller
+  const original = await prisma.match.findUnique({
+    where: { id: matchId },
+    select: {
+      id: true,
+      status: true,
+      stakeAmount: true,
+      creatorId: true,
+      opponentId: true,
+      tournamentId: true,
+      creatorSlip: { select: { totalPicks: true } },
+      opponentSlip: { select: { totalPicks: true } },
+    },
+  });
+
+  if (!original) {
+    throw new NotFoundError(
+      `Match with ID ${matchId} not found`,
+      ERROR_CODES.MATCH_NOT_FOUND
+    );
+  }
+
+  const isCreator = original.creatorId === userId;
+  if (!isCreator && original.opponentId !== userId) {
+    throw new ForbiddenError(
+      'You are not a participant in this match',
+      ERROR_CODES.FORBIDDEN
+    );
+  }
+
+  if (original.tournamentId) {
+    throw new BadRequestError(
+      'Tournament matches cannot be rematched',
+      ERROR_CODES.MATCH_NOT_REMATCHABLE
+    );
+  }
+
+  if (!REMATCHABLE_STATUSES.includes(original.status) || !original.opponentId) {
+    throw new BadRequestError(
+      `Only settled matches can be rematched (status: ${original.status})`,
+      ERROR_CODES.MATCH_NOT_REMATCHABLE
+    );
+  }
+
+  const rivalId = isCreator ? original.opponentId : original.creatorId;
+
+  // 2. The other player already asked: accept by joining their request
+  const pendingRematch = await prisma.match.findFirst({
+    where: {
+      rematchOfId: matchId,
+      status: MatchStatus.pending,
+      inviteExpiresAt: { gt: new Date() },
+    },
+    select: { id: true, creatorId: true },
+  });
+
+  if (pendingRematch) {
+    if (pendingRematch.creatorId === userId) {
+      throw new ConflictError(
+        'You have already requested a rematch',
+        ERROR_CODES.MATCH_ALREADY_FULL
+      );
+    }
+
+    const match = await joinMatch(pendingRematch.id, userId, slipId);
+
+    logger.info(
+      `[MatchService] Rematch ${match.id} of ${matchId} started: both players asked`
+    );
+
+    broadcastRematchSync(rivalId, 'match:rematch-started', {
+      matchId: match.id,
+      originalMatchId: matchId,
+      acceptedBy: userId,
+      startedAt: (match.matchedAt ?? new Date()).toISOString(),
+    });
+
+    return { status: 'REMATCH_STARTED', match, originalMatchId: matchId };
+  }
+
+  // 3. Both players must be free to play
+  const [requester, rival, block, requesterInQueue, rivalInQueue, requesterActiveMatch, rivalActiveMatch] =
+    await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { username: true },
+      }),
+      prisma.user.findUnique({
+        where: { id: rivalId },
+        select: { id: true, username: true, status: true },
+      }),
+      prisma.friendship.findFirst({
+        where: {
+          status: FriendshipStatus.BLOCKED,
+          OR: [
+            { userId, friendId: rivalId },
+            { userId: rivalId, friendId: userId },
+          ],
+        },
+        select: { id: true },
+      }),
+      prisma.matchmakingQueue.findFirst({
+        where: { userId, status: QueueStatus.WAITING },
+        select: { id: true },
+      }),
+      prisma.matchmakingQueue.findFirst({
+        where: { userId: rivalId, status: QueueStatus.WAITING },
+        select: { id: true },
+      }),
+      prisma.match.findFirst({
+        where: {
+          OR: [{ creatorId: userId }, { opponentId: userId }],
+          status: { in: [MatchStatus.pending, MatchStatus.matched, MatchStatus.active] },
+        },
+        select: { id: true },
+      }),
+      prisma.match.findFirst({
+        where: {
+          OR: [{ creatorId: rivalId }, { opponentId: rivalId }],
+          status: { in: [MatchStatus.pending, MatchStatus.matched, MatchStatus.active] },
+        },
+        select: { id: true },
+      }),
+    ]);
+
+  if (!rival || rival.status !== 'active' || block) {
+    throw new ForbiddenError(
+      'Cannot request a rematch with this user',
+      ERROR_CODES.FORBIDDEN
+    );
+  }
+
+  if (requesterInQueue) {
+    throw new ConflictError(
+      'You are currently in matchmaking queue. Leave the queue first.',
+      ERROR_CODES.MATCH_ALREADY_FULL
+    );
+  }
+
+  if (rivalInQueue) {
+    throw new ConflictError(
+      'Your opponent is currently in matchmaking queue',
+      ERROR_CODES.MATCH_ALREADY_FULL
+    );
+  }
+
+  if (requesterActiveMatch) {
+    throw new ConflictError(
+      'You already have an active match',
+      ERROR_CODES.MATCH_ALREADY_FULL
+    );
+  }
+
+  if (rivalActiveMatch) {
+    throw new ConflictError(
+      'Your opponent already has an active match',
+      ERROR_CODES.MATCH_ALREADY_FULL
+    );
+  }
+
+  // 4. Generate invite code (the rematch is still joinable via /:id/join)
+  const inviteCode = await generateMatchInviteCode();
+
+  if (!inviteCode) {
+    throw new ConflictError(
+      'Failed to generate unique challenge code. Please retry.',
+      ERROR_CODES.INTERNAL_ERROR
+    );
+  }
+
+  const originalSlip = isCreator ? original.creatorSlip : original.opponentSlip;
+  const requiredSlipSize = sameSlipSize ? originalSlip?.totalPicks ?? null : null;
+  const inviteExpiresAt = new Date(Date.now() + config.rematch.windowMinutes * 60 * 1000);
+  const stakeAmount = bigIntToNumber(original.stakeAmount);
+
+  // 5. Execute atomic transaction
+  const match = await prisma.$transaction(
+    async (tx) => {
+      await validateSlipForMatch(slipId, userId, tx, requiredSlipSize);
+
+      const entryTx = await debitWallet({
+        userId,
+        amount: original.stakeAmount,
+        type: 'MATCH_ENTRY',
+        preferBonus: true,
+        idempotencyKey: `rematch-${matchId}-${userId}-${Date.now()}-${slipId}`,
+        description: `Rematch entry: ${stakeAmount} RC`,
+      });
+
+      logger.info(
+        `[MatchService] Requester ${userId} debited ${stakeAmount} RC for rematch of ${matchId} (tx: ${entryTx.id})`
+      );
+
+      await tx.slip.update({
+        where: { id: slipId },
+        data: {
+          status: SlipStatus.PENDING,
+          lockedAt: new Date(),
+        },
+      });
+
+      const createdMatch = await tx.match.create({
+        data: {
+          type: 'private',
+          gameMode: GameMode.PLAY_FRIEND,
+          stakeAmount: original.stakeAmount,
+          creatorId: userId,
+          creatorSlipId: slipId,
+          creatorEntryTxId: entryTx.id,
+          status: MatchStatus.pending,
+          inviteCode: inviteCode,
+          inviteExpiresAt,
+          rematchOfId: matchId,
+          requiredSlipSize,
+          version: 1,
+        },
+        select: MATCH_DETAILS_SELECT,
+      });
+
+      await createAuditLog(
+        tx,
+        createdMatch.id,
+        'REMATCH_REQUESTED',
+        userId,
+        {},
+        { status: 'pending', stakeAmount, gameMode: 'PLAY_FRIEND' },
+        { originalMatchId: matchId, targetUserId: rivalId, requiredSlipSize }
+      );
+
+      logger.info(
+        `[MatchService] Created rematch ${createdMatch.id} of ${matchId} from ${userId} to ${rivalId}`
+      );
+
+      return createdMatch;
+    },
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+
+  // 6. Notify the other player (fire-and-forget, after commit)
+  const requesterUsername = requester?.username ?? 'Your opponent';
+
+  broadcastRematchSync(rivalId, 'match:rematch-requested', {
+    matchId: match.id,
+    originalMatchId: matchId,
+    requestedBy: userId,
+    requesterUsername,
+    stakeAmount,
+    requiredSlipSize,
+    expiresAt: inviteExpiresAt.toISOString(),
+  });
+
+  sendRematchRequestNotification(rivalId, match.id, matchId, requesterUsername).catch((error) => {
+    logger.error(`[MatchService] Failed to send rematch notification for ${match.id}:`, error);
+  });
+
+  return {
+    status: 'REMATCH_REQUESTED',
+    match: transformMatchDetails(match),
+    originalMatchId: matchId,
+  };
+}
@@ -1,7 +1,19 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
 import { requireAuth, getAuthenticatedUser } from '../../middleware';
-import { getPlacementStatus, getRankedProgress } from './ranked.service';
-import { seasonIdParamSchema } from './ranked.schemas';
+import { BadRequestError } from '../../utils/errors';
+import {
+  getPlacementStatus,
+  getRankedProgress,
+  getSeasonAroundMe,
+  getSeasonLeaderboard,
+  getSeasonSummary,
+} from './ranked.service';
+import {
+  seasonAroundMeQuerySchema,
+  seasonIdParamSchema,
+  seasonLeaderboardQuerySchema,
+} from './ranked.schemas';
 
 const router = Router();
 
@@ -59,4 +71,100 @@ router.get(
   }
 );
 
+/**
+ * GET /api/v1/ranked/season/:seasonId/leaderboard
+ *
+ * Get a page of the season leaderboard ordered by rank points.
+ * Optional ?tier=GOLD or ?rank=GOLD_2 narrows the page to one division;
+ * positions stay season-wide.
+ *
+ * @route GET /api/v1/ranked/season/:seasonId/leaderboard
+ * @access Private (requireAuth)
+ * @returns {RankedLeaderboardPage} 200 - Leaderboard page with rank badges
+ * @returns {Error} 400 - Invalid query parameters
+ * @returns {Error} 404 - Season not found
+ * @returns {Error} 401 - Unauthorized
+ */
+router.get(
+  '/season/:seasonId/leaderboard',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { seasonId } = seasonIdParamSchema.parse(req.params);
+      const queryResult = seasonLeaderboardQuerySchema.safeParse(req.query);
+
+      if (!queryResult.success) {
+        throw new BadRequestError('Invalid query parameters', ERROR_CODES.VALIDATION_ERROR);
+      }
+
+      const result = await getSeasonLeaderboard(seasonId, queryResult.data);
+      res.status(200).json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/ranked/season/:seasonId/leaderboard/around-me
+ *
+ * Get the season leaderboard entries within ?radius=N places of the
+ * authenticated user.
+ *
+ * @route GET /api/v1/ranked/season/:seasonId/leaderboard/around-me
+ * @access Private (requireAuth)
+ * @returns {RankedAroundMeLeaderboard} 200 - Entries around the user (empty until placed)
+ * @returns {Error} 400 - Invalid query parameters
+ * @returns {Error} 404 - Season not found
+ * @returns {Error} 401 - Unauthorized
+ */
+router.get(
+  '/season/:seasonId/leaderboard/around-me',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const { seasonId } = seasonIdParamSchema.parse(req.params);
+      const queryResult = seasonAroundMeQuerySchema.safeParse(req.query);
+
+      if (!queryResult.success) {
+        throw new BadRequestError('Invalid query parameters', ERROR_CODES.VALIDATION_ERROR);
+      }
+
+      const result = await getSeasonAroundMe(user.id, seasonId, queryResult.data);
+      res.status(200).json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/ranked/season/:seasonId/summary
+ *
+ * Get the end-of-season recap for the authenticated user.
+ * Returns final rank and position, peak rank, record and reward claimed.
+ *
+ * @route GET /api/v1/ranked/season/:seasonId/summary
+ * @access Private (requireAuth)
+ * @returns {RankedSeasonSummary} 200 - Season recap
+ * @returns {Error} 400 - Season has not ended yet
+ * @returns {Error} 404 - Season not found or user has not participated in it
+ * @returns {Error} 401 - Unauthorized
+ */
+router.get(
+  '/season/:seasonId/summary',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const { seasonId } = seasonIdParamSchema.parse(req.params);
+      const result = await getSeasonSummary(user.id, seasonId);
+      res.status(200).json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
@@ -1,5 +1,60 @@
 import { z } from 'zod';
+import { Rank } from '@prisma/client';
 
 export const seasonIdParamSchema = z.object({
   seasonId: z.string().uuid(),
 });
+
+// ===========================================
+// Season Leaderboard Queries
+// ===========================================
+
+const DEFAULT_PAGE = 1;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+const DEFAULT_AROUND_ME_RADIUS = 5;
+const MAX_AROUND_ME_RADIUS = 25;
+
+export const seasonLeaderboardQuerySchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => {
+      const parsed = parseInt(val || String(DEFAULT_PAGE), 10);
+      return isNaN(parsed) || parsed < 1 ? DEFAULT_PAGE : parsed;
+    }),
+
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => {
+      const parsed = parseInt(val || String(DEFAULT_LIMIT), 10);
+      if (isNaN(parsed) || parsed < 1) return DEFAULT_LIMIT;
+      return Math.min(parsed, MAX_LIMIT);
+    }),
+
+  // Rank division filters (optional) - positions stay season-wide
+  tier: z
+    .enum(['BRONZE', 'SILVER', 'GOLD', 'PLATINUM', 'DIAMOND'])
+    .optional()
+    .describe('Only players in this tier (all three divisions)'),
+
+  rank: z.nativeEnum(Rank).optional().describe('Only players in this exact division'),
+});
+
+export type SeasonLeaderboardQuery = z.infer<typeof seasonLeaderboardQuerySchema>;
+
+export const seasonAroundMeQuerySchema = z.object({
+  // Entries shown above and below the caller
+  radius: z
+    .string()
+    .optional()
+    .transform((val) => {
+      const parsed = parseInt(val || String(DEFAULT_AROUND_ME_RADIUS), 10);
+      if (isNaN(parsed) || parsed < 1) return DEFAULT_AROUND_ME_RADIUS;
+      return Math.min(parsed, MAX_AROUND_ME_RADIUS);
+    }),
+});
+
+export type SeasonAroundMeQuery = z.infer<typeof seasonAroundMeQuerySchema>;
@@ -0,0 +1,292 @@
+// =====================================================
+// Ranked Module Service Tests
+// =====================================================
+// Covers the season leaderboard (badges, rank division filters,
+// around-me window) and the end-of-season summary.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  seasonFindUnique: vi.fn(),
+  entryFindUnique: vi.fn(),
+  entryCount: vi.fn(),
+  claimFindFirst: vi.fn(),
+  queryRaw: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => ({
+  prisma: {
+    season: { findUnique: mocks.seasonFindUnique },
+    seasonEntry: { findUnique: mocks.entryFindUnique, count: mocks.entryCount },
+    seasonRewardClaim: { findFirst: mocks.claimFindFirst },
+    $queryRaw: mocks.queryRaw,
+  },
+}));
+
+import { getSeasonAroundMe, getSeasonLeaderboard, getSeasonSummary } from './ranked.service';
+import { BadRequestError, NotFoundError } from '../../utils/errors';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const SEASON_ID = 'season-1';
+const USER_ID = 'user-me';
+
+function createRow(userId: string, position: number, overrides: Record<string, unknown> = {}) {
+  return {
+    user_id: userId,
+    username: `player-${userId}`,
+    avatar_url: null,
+    rank: 'GOLD_3',
+    rank_points: 860,
+    wins: 6,
+    losses: 3,
+    draws: 1,
+    position: BigInt(position),
+    ...overrides,
+  };
+}
+
+function createEntry(overrides: Record<string, unknown> = {}) {
+  return {
+    userId: USER_ID,
+    seasonId: SEASON_ID,
+    isPlaced: true,
+    initialRank: 'SILVER_2',
+    currentRank: 'GOLD_3',
+    highestRank: 'PLATINUM_1',
+    rankPoints: 860,
+    finalRank: 'GOLD_3',
+    finalRankPoints: 860,
+    rankPosition: 42,
+    placementMatchesPlayed: 10,
+    placementMatchesWon: 6,
+    wins: 31,
+    losses: 19,
+    draws: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * Mock the count query, then the rows query.
+ */
+function mockQueries(total: number, rows: unknown[]) {
+  mocks.queryRaw.mockResolvedValueOnce([{ total }]).mockResolvedValueOnce(rows);
+}
+
+/**
+ * Parameters bound to a $queryRaw call, with nested fragments flattened.
+ */
+function queryValues(callIndex: number): unknown[] {
+  return boundQuery(callIndex).values;
+}
+
+function boundQuery(callIndex: number): Prisma.Sql {
+  const [strings, ...values] = mocks.queryRaw.mock.calls[callIndex];
+  return Prisma.sql(strings, ...values);
+}
+
+async function expectError(promise: Promise<unknown>, errorClass: unknown, code?: string) {
+  const error = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(errorClass);
+  if (code) expect(error.code).toBe(code);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.queryRaw.mockReset();
+  mocks.seasonFindUnique.mockResolvedValue({
+    id: SEASON_ID,
+    name: 'Season 1',
+    status: 'ENDED',
+    startDate: new Date('2026-01-01T00:00:00.000Z'),
+    endDate: new Date('2026-04-01T00:00:00.000Z'),
+  });
+  mocks.entryFindUnique.mockResolvedValue(createEntry());
+  mocks.entryCount.mockResolvedValue(1250);
+  mocks.claimFindFirst.mockResolvedValue(null);
+});
+
+// ===========================================
+// getSeasonLeaderboard
+// ===========================================
+
+describe('getSeasonLeaderboard', () => {
+  it('returns ranked entries with rank badges and pagination', async () => {
+    mockQueries(45, [createRow('user-a', 21), createRow('user-b', 22, { rank: 'GOLD_2', rank_points: 790 })]);
+
+    const result = await getSeasonLeaderboard(SEASON_ID, { page: 2, limit: 20 });
+
+    expect(result.entries[0]).toEqual({
+      position: 21,
+      userId: 'user-a',
+      username: 'player-user-a',
+      avatarUrl: null,
+      rank: 'GOLD_3',
+      badge: expect.objectContaining({ name: 'Gold III', tier: 'GOLD', division: 3 }),
+      rankPoints: 860,
+      wins: 6,
+      losses: 3,
+      draws: 1,
+      winRate: 0.6,
+    });
+    expect(result.entries[1].badge.name).toBe('Gold II');
+    expect(result.pagination).toEqual({
+      page: 2,
+      limit: 20,
+      total: 45,
+      totalPages: 3,
+      hasNext: true,
+      hasPrev: true,
+    });
+    expect(queryValues(1)).toEqual([SEASON_ID, 20, 20]);
+  });
+
+  it('filters a tier to its three divisions', async () => {
+    mockQueries(0, []);
+
+    const result = await getSeasonLeaderboard(SEASON_ID, { page: 1, limit: 20, tier: 'GOLD' });
+
+    expect(result.tier).toBe('GOLD');
+    expect(queryValues(0)).toEqual([SEASON_ID, 'GOLD_1', 'GOLD_2', 'GOLD_3']);
+    expect(queryValues(1)).toEqual([SEASON_ID, 'GOLD_1', 'GOLD_2', 'GOLD_3', 20, 0]);
+  });
+
+  it('filters an exact division', async () => {
+    mockQueries(0, []);
+
+    await getSeasonLeaderboard(SEASON_ID, { page: 1, limit: 20, rank: 'DIAMOND_2' });
+
+    expect(queryValues(0)).toEqual([SEASON_ID, 'DIAMOND_2']);
+  });
+
+  it('matches nobody when the rank is outside the requested tier', async () => {
+    mockQueries(0, []);
+
+    await getSeasonLeaderboard(SEASON_ID, { page: 1, limit: 20, tier: 'GOLD', rank: 'DIAMOND_2' });
+
+    expect(queryValues(0)).toEqual([SEASON_ID]);
+    expect(boundQuery(0).sql).toContain('WHERE FALSE');
+  });
+
+  it('rejects an unknown season', async () => {
+    mocks.seasonFindUnique.mockResolvedValue(null);
+
+    await expectError(
+      getSeasonLeaderboard('missing', { page: 1, limit: 20 }),
+      NotFoundError,
+      ERROR_CODES.SEASON_NOT_FOUND
+    );
+    expect(mocks.queryRaw).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// getSeasonAroundMe
+// ===========================================
+
+describe('getSeasonAroundMe', () => {
+  it('returns the window around the caller and their position', async () => {
+    mockQueries(300, [createRow('user-a', 41), createRow(USER_ID, 42), createRow('user-b', 43)]);
+
+    const result = await getSeasonAroundMe(USER_ID, SEASON_ID, { radius: 1 });
+
+    expect(result.position).toBe(42);
+    expect(result.total).toBe(300);
+    expect(result.entries.map((entry) => entry.position)).toEqual([41, 42, 43]);
+    expect(queryValues(1)).toEqual([SEASON_ID, USER_ID, 1, 1]);
+  });
+
+  it('returns no position before the caller is placed', async () => {
+    mockQueries(300, []);
+
+    const result = await getSeasonAroundMe(USER_ID, SEASON_ID, { radius: 5 });
+
+    expect(result).toEqual({ seasonId: SEASON_ID, entries: [], position: null, total: 300 });
+  });
+});
+
+// ===========================================
+// getSeasonSummary
+// ===========================================
+
+describe('getSeasonSummary', () => {
+  it('summarizes final standing, peak rank, record and the reward paid', async () => {
+    mocks.claimFindFirst.mockResolvedValue({
+      rewardId: 'reward-gold',
+      transactionId: 'tx-1',
+      claimedAt: new Date('2026-04-01T01:00:00.000Z'),
+      reward: { coinReward: 2000, description: 'Gold finish' },
+    });
+
+    const result = await getSeasonSummary(USER_ID, SEASON_ID);
+
+    expect(result).toEqual({
+      seasonId: SEASON_ID,
+      seasonName: 'Season 1',
+      startDate: '2026-01-01T00:00:00.000Z',
+      endDate: '2026-04-01T00:00:00.000Z',
+      isPlaced: true,
+      initialRank: 'SILVER_2',
+      finalRank: 'GOLD_3',
+      finalRankPoints: 860,
+      highestRank: 'PLATINUM_1',
+      rankPosition: 42,
+      totalRanked: 1250,
+      placementMatchesPlayed: 10,
+      placementMatchesWon: 6,
+      wins: 31,
+      losses: 19,
+      draws: 0,
+      matchesPlayed: 50,
+      winRate: 0.62,
+      reward: {
+        rewardId: 'reward-gold',
+        coinReward: 2000,
+        description: 'Gold finish',
+        claimedAt: '2026-04-01T01:00:00.000Z',
+        transactionId: 'tx-1',
+      },
+    });
+    expect(mocks.claimFindFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: USER_ID, seasonId: SEASON_ID } })
+    );
+  });
+
+  it('falls back to live rank points before rankings are finalized', async () => {
+    mocks.entryFindUnique.mockResolvedValue(
+      createEntry({ finalRank: null, finalRankPoints: null, rankPosition: null, rankPoints: 905 })
+    );
+
+    const result = await getSeasonSummary(USER_ID, SEASON_ID);
+
+    expect(result).toEqual(
+      expect.objectContaining({ finalRank: null, finalRankPoints: 905, rankPosition: null, reward: null })
+    );
+  });
+
+  it('rejects a season that has not ended', async () => {
+    mocks.seasonFindUnique.mockResolvedValue({ id: SEASON_ID, status: 'ACTIVE' });
+
+    await expectError(
+      getSeasonSummary(USER_ID, SEASON_ID),
+      BadRequestError,
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+    expect(mocks.entryFindUnique).not.toHaveBeenCalled();
+  });
+
+  it('rejects users who did not play the season', async () => {
+    mocks.entryFindUnique.mockResolvedValue(null);
+
+    await expectError(getSeasonSummary(USER_ID, SEASON_ID), NotFoundError);
+  });
+});
@@ -1,7 +1,17 @@
+import { Prisma, SeasonStatus } from '@prisma/client';
 import { prisma } from '../../lib/prisma';
-import { NotFoundError } from '../../utils/errors';
-import { PLACEMENT_MATCHES_REQUIRED } from '@pick-rivals/shared-types';
-import type { PlacementStatus, RankedProgress, Rank } from '@pick-rivals/shared-types';
+import { BadRequestError, NotFoundError } from '../../utils/errors';
+import { ERROR_CODES, PLACEMENT_MATCHES_REQUIRED, RANK_DISPLAY } from '@pick-rivals/shared-types';
+import type {
+  PlacementStatus,
+  RankedAroundMeLeaderboard,
+  RankedLeaderboardEntry,
+  RankedLeaderboardPage,
+  RankedProgress,
+  RankedSeasonSummary,
+  Rank,
+} from '@pick-rivals/shared-types';
+import type { SeasonAroundMeQuery, SeasonLeaderboardQuery } from './ranked.schemas';
 
 // ===========================================
 // Rank Thresholds (must match ranked.service.ts)
@@ -42,6 +52,22 @@ const RANK_ORDER = [
   'DIAMOND_3',
 ];
 
+// ===========================================
+// Types
+// ===========================================
+
+interface RawSeasonLeaderboardRow {
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  rank: string;
+  rank_points: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  position: bigint;
+}
+
 // ===========================================
 // Helper Functions
 // ===========================================
@@ -60,6 +86,79 @@ function getPrevRankThreshold(currentRank: string | null): number {
   return RANK_THRESHOLDS[RANK_ORDER[currentIndex - 1]];
 }
 
+function calculateWinRate(wins: number, losses: number, draws: number): number {
+  const matchesPlayed = wins + losses + draws;
+  const winRate = matchesPlayed > 0 ? wins / matchesPlayed : 0;
+  return Math.round(winRate * 100) / 100;
+}
+
+/**
+ * Ranks matching the leaderboard filters, or null when unfiltered.
+ */
+function getRankFilter(query: SeasonLeaderboardQuery): string[] | null {
+  if (!query.tier && !query.rank) return null;
+  return RANK_ORDER.filter(
+    (rank) => (!query.tier || rank.startsWith(`${query.tier}_`)) && (!query.rank || rank === query.rank)
+  );
+}
+
+/**
+ * Ranked entries of a season with their season-wide position.
+ * Finalized standings win over live values, so an ended season keeps the
+ * order it was finalized in even if a late match settles afterwards.
+ */
+function rankedEntriesSql(seasonId: string): Prisma.Sql {
+  return Prisma.sql`
+    SELECT
+      se.user_id,
+      COALESCE(se.final_rank, se.current_rank)::text as rank,
+      COALESCE(se.final_rank_points, se.rank_points) as rank_points,
+      se.wins,
+      se.losses,
+      se.draws,
+      ROW_NUMBER() OVER (
+        ORDER BY COALESCE(se.final_rank_points, se.rank_points) DESC,
+          se.rank_position ASC NULLS LAST,
+          se.wins DESC,
+          se.user_id ASC
+      ) as position
+    FROM season_entries se
+    WHERE se.season_id = ${seasonId}
+      AND COALESCE(se.final_rank, se.current_rank) IS NOT NULL
+  `;
+}
+
+function transformLeaderboardRows(rows: RawSeasonLeaderboardRow[]): RankedLeaderboardEntry[] {
+  return rows.map((row) => {
+    const rank = row.rank as Rank;
+
+    return {
+      position: Number(row.position),
+      userId: row.user_id,
+      username: row.username,
+      avatarUrl: row.avatar_url,
+      rank,
+      badge: RANK_DISPLAY[rank],
+      rankPoints: row.rank_points,
+      wins: row.wins,
+      losses: row.losses,
+      draws: row.draws,
+      winRate: calculateWinRate(row.wins, row.losses, row.draws),
+    };
+  });
+}
+
+async function assertSeasonExists(seasonId: string): Promise<void> {
+  const season = await prisma.season.findUnique({
+    where: { id: seasonId },
+    select: { id: true },
+  });
+
+  if (!season) {
+    throw new NotFoundError('Season not found', ERROR_CODES.SEASON_NOT_FOUND);
+  }
+}
+
 // ===========================================
 // Service Functions
 // ===========================================
@@ -136,8 +235,6 @@ export async function getRankedProgress(
 
   const nextThreshold = getNextRankThreshold(entry.currentRank);
   const prevThreshold = getPrevRankThreshold(entry.currentRank);
-  const matchesPlayed = entry.wins + entry.losses + entry.draws;
-  const winRate = matchesPlayed > 0 ? entry.wins / matchesPlayed : 0;
 
   return {
     seasonId,
@@ -150,6 +247,193 @@ export async function getRankedProgress(
     wins: entry.wins,
     losses: entry.losses,
     draws: entry.draws,
-    winRate: Math.round(winRate * 100) / 100,
+    winRate: calculateWinRate(entry.wins, entry.losses, entry.draws),
+  };
+}
+
+/**
+ * Get a page of a season's leaderboard, ordered by rank points.
+ * Only placed players are listed. Tier/rank filters narrow the page
+ * without changing anyone's position.
+ *
+ * @param seasonId - The season ID
+ * @param query - Pagination and rank division filters
+ * @returns RankedLeaderboardPage with pagination
+ * @throws NotFoundError if the season does not exist
+ */
+export async function getSeasonLeaderboard(
+  seasonId: string,
+  query: SeasonLeaderboardQuery
+): Promise<RankedLeaderboardPage> {
+  await assertSeasonExists(seasonId);
+
+  const { page, limit } = query;
+  const offset = (page - 1) * limit;
+  const ranks = getRankFilter(query);
+  let rankFilter = Prisma.empty;
+  if (ranks) {
+    // A rank outside the requested tier matches nobody
+    rankFilter =
+      ranks.length > 0 ? Prisma.sql`WHERE r.rank IN (${Prisma.join(ranks)})` : Prisma.sql`WHERE FALSE`;
+  }
+
+  const [countResult, rows] = await Promise.all([
+    prisma.$queryRaw<{ total: number }[]>`
+      WITH ranked AS (${rankedEntriesSql(seasonId)})
+      SELECT COUNT(*)::int as total FROM ranked r ${rankFilter}
+    `,
+    prisma.$queryRaw<RawSeasonLeaderboardRow[]>`
+      WITH ranked AS (${rankedEntriesSql(seasonId)})
+      SELECT r.*, u.username, u.avatar_url
+      FROM ranked r
+      JOIN users u ON r.user_id = u.id
+      ${rankFilter}
+      ORDER BY r.position
+      LIMIT ${limit}
+      OFFSET ${offset}
+    `,
+  ]);
+
+  const total = countResult[0]?.total ?? 0;
+  const totalPages = Math.ceil(total / limit);
+
+  return {
+    seasonId,
+    tier: query.tier ?? null,
+    entries: transformLeaderboardRows(rows),
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    },
+  };
+}
+
+/**
+ * Get the season leaderboard entries within `radius` places of the user.
+ * Returns no entries until the user has finished placement.
+ *
+ * @param userId - The user ID
+ * @param seasonId - The season ID
+ * @param query - Places shown above and below the user
+ * @returns RankedAroundMeLeaderboard with the user's position
+ * @throws NotFoundError if the season does not exist
+ */
+export async function getSeasonAroundMe(
+  userId: string,
+  seasonId: string,
+  query: SeasonAroundMeQuery
+): Promise<RankedAroundMeLeaderboard> {
+  await assertSeasonExists(seasonId);
+
+  const [countResult, rows] = await Promise.all([
+    prisma.$queryRaw<{ total: number }[]>`
+      WITH ranked AS (${rankedEntriesSql(seasonId)})
+      SELECT COUNT(*)::int as total FROM ranked
+    `,
+    prisma.$queryRaw<RawSeasonLeaderboardRow[]>`
+      WITH ranked AS (${rankedEntriesSql(seasonId)}),
+      me AS (
+        SELECT position FROM ranked WHERE user_id = ${userId}
+      )
+      SELECT r.*, u.username, u.avatar_url
+      FROM ranked r
+      JOIN users u ON r.user_id = u.id
+      CROSS JOIN me
+      WHERE r.position BETWEEN me.position - ${query.radius} AND me.position + ${query.radius}
+      ORDER BY r.position
+    `,
+  ]);
+
+  const entries = transformLeaderboardRows(rows);
+
+  return {
+    seasonId,
+    entries,
+    position: entries.find((entry) => entry.userId === userId)?.position ?? null,
+    total: countResult[0]?.total ?? 0,
+  };
+}
+
+/**
+ * Get the end-of-season recap for a user: final standing, peak rank,
+ * record and the season reward they were paid.
+ *
+ * @param userId - The user ID
+ * @param seasonId - The season ID
+ * @returns RankedSeasonSummary for the season
+ * @throws NotFoundError if the season does not exist or the user did not play in it
+ * @throws BadRequestError if the season has not ended yet
+ */
+export async function getSeasonSummary(
+  userId: string,
+  seasonId: string
+): Promise<RankedSeasonSummary> {
+  const season = await prisma.season.findUnique({
+    where: { id: seasonId },
+    select: { id: true, name: true, status: true, startDate: true, endDate: true },
+  });
+
+  if (!season) {
+    throw new NotFoundError('Season not found', ERROR_CODES.SEASON_NOT_FOUND);
+  }
+
+  if (season.status !== SeasonStatus.ENDED && season.status !== SeasonStatus.ARCHIVED) {
+    throw new BadRequestError(
+      'Season summary is available once the season has ended',
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+  }
+
+  const entry = await prisma.seasonEntry.findUnique({
+    where: { userId_seasonId: { userId, seasonId } },
+  });
+
+  if (!entry) {
+    throw new NotFoundError('Season entry not found. User has not participated in this season.');
+  }
+
+  const [totalRanked, claim] = await Promise.all([
+    prisma.seasonEntry.count({
+      where: { seasonId, rankPosition: { not: null } },
+    }),
+    prisma.seasonRewardClaim.findFirst({
+      where: { userId, seasonId },
+      orderBy: { claimedAt: 'desc' },
+      include: { reward: { select: { coinReward: true, description: true } } },
+    }),
+  ]);
+
+  return {
+    seasonId,
+    seasonName: season.name,
+    startDate: season.startDate.toISOString(),
+    endDate: season.endDate.toISOString(),
+    isPlaced: entry.isPlaced,
+    initialRank: entry.initialRank as Rank | null,
+    finalRank: entry.finalRank as Rank | null,
+    finalRankPoints: entry.finalRankPoints ?? entry.rankPoints,
+    highestRank: entry.highestRank as Rank | null,
+    rankPosition: entry.rankPosition,
+    totalRanked,
+    placementMatchesPlayed: entry.placementMatchesPlayed,
+    placementMatchesWon: entry.placementMatchesWon,
+    wins: entry.wins,
+    losses: entry.losses,
+    draws: entry.draws,
+    matchesPlayed: entry.wins + entry.losses + entry.draws,
+    winRate: calculateWinRate(entry.wins, entry.losses, entry.draws),
+    reward: claim
+      ? {
+          rewardId: claim.rewardId,
+          coinReward: claim.reward.coinReward,
+          description: claim.reward.description,
+          claimedAt: claim.claimedAt.toISOString(),
+          transactionId: claim.transactionId,
+        }
+      : null,
   };
 }
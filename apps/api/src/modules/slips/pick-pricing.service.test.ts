@@ -0,0 +1,466 @@
+// =====================================================
+// Pick Pricing Service Tests
+// =====================================================
+// Covers server-side pick pricing: repricing within tolerance, rejecting
+// drifted lines/odds, prop lookup (event data and OddsService fallback),
+// missing markets and live picks (suspension, delayed acceptance).
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SportType, EventStatus } from '@prisma/client';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  getEventPlayerProps: vi.fn(),
+  sportsEventFindMany: vi.fn(),
+}));
+
+vi.mock('../../config', () => ({
+  config: {
+    pickPricing: {
+      maxLineDrift: 0.5,
+      maxProbabilityDrift: 0.05,
+    },
+    livePicks: {
+      acceptanceDelayMs: 5000,
+      maxOddsAgeMs: 60000,
+      scoreChangeSuspensionMs: 15000,
+    },
+  },
+}));
+
+vi.mock('../../lib/prisma', () => ({
+  prisma: { sportsEvent: { findMany: mocks.sportsEventFindMany } },
+}));
+
+vi.mock('../../services/odds', () => ({
+  getOddsService: () => ({ getEventPlayerProps: mocks.getEventPlayerProps }),
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  findEventQuote,
+  pricePick,
+  pricePicks,
+  confirmLivePrices,
+  PricingEvent,
+  PricingPickInput,
+} from './pick-pricing.service';
+import { BadRequestError } from '../../utils/errors';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+function createEvent(overrides: Partial<PricingEvent> = {}): PricingEvent {
+  return {
+    id: 'event-1',
+    sport: SportType.NBA,
+    externalId: 'ext-1',
+    oddsData: {
+      provider: 'the-odds-api',
+      lastUpdated: '2026-03-01T11:55:00Z',
+      markets: {
+        moneyline: { home: 1.3333, away: 3.5 },
+        spread: { home: -7.5, away: 7.5, homeOdds: 1.91, awayOdds: 1.91 },
+        totals: { value: 215.5, overOdds: 1.87, underOdds: 1.95 },
+        props: {
+          lastUpdated: '2026-03-01T11:50:00Z',
+          players: [
+            {
+              playerId: 'player-1',
+              playerName: 'Jayson Tatum',
+              propType: 'player_points',
+              line: 27.5,
+              overOdds: 1.91,
+              underOdds: 1.91,
+            },
+          ],
+        },
+      },
+    },
+    ...overrides,
+  };
+}
+
+function createPick(overrides: Partial<PricingPickInput> = {}): PricingPickInput {
+  return {
+    sportsEventId: 'event-1',
+    pickType: 'moneyline',
+    selection: 'home',
+    odds: -300,
+    ...overrides,
+  };
+}
+
+async function expectRejected(promise: Promise<unknown>, code: string): Promise<void> {
+  const error = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(BadRequestError);
+  expect(error.code).toBe(code);
+}
+
+function createLiveEvent(overrides: Partial<PricingEvent> = {}): PricingEvent {
+  const event = createEvent();
+  return {
+    ...event,
+    status: EventStatus.LIVE,
+    liveMarketsSuspendedAt: null,
+    oddsData: {
+      ...(event.oddsData as object),
+      lastUpdated: '2026-03-01T11:59:50Z',
+      liveUpdatedAt: '2026-03-01T11:59:50Z',
+    },
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ===========================================
+// Test: Market Lookup
+// ===========================================
+
+describe('findEventQuote', () => {
+  it('finds each market in the stored oddsData', () => {
+    const { oddsData } = createEvent();
+
+    expect(findEventQuote(oddsData, createPick({ selection: 'away' }))).toEqual({
+      line: null,
+      oddsDecimal: 3.5,
+    });
+    expect(findEventQuote(oddsData, createPick({ pickType: 'spread', selection: 'home' }))).toEqual({
+      line: -7.5,
+      oddsDecimal: 1.91,
+    });
+    expect(findEventQuote(oddsData, createPick({ pickType: 'total', selection: 'under' }))).toEqual({
+      line: 215.5,
+      oddsDecimal: 1.95,
+    });
+  });
+
+  it('returns null when the market or selection is not offered', () => {
+    const { oddsData } = createEvent();
+
+    expect(findEventQuote(oddsData, createPick({ selection: 'draw' }))).toBeNull();
+    expect(findEventQuote(oddsData, createPick({ pickType: 'spread', selection: 'draw' }))).toBeNull();
+    expect(findEventQuote(null, createPick())).toBeNull();
+  });
+});
+
+// ===========================================
+// Test: Repricing
+// ===========================================
+
+describe('pricePick - repricing', () => {
+  it('keeps the submitted price when it matches the market', async () => {
+    const result = await pricePick(createEvent(), createPick(), NOW);
+
+    expect(result.odds).toBe(-300);
+    expect(result.oddsDecimal).toBe(1.3333);
+    expect(result.repriced).toBe(false);
+  });
+
+  it('reprices small odds moves to the current market', async () => {
+    const result = await pricePick(createEvent(), createPick({ odds: -290 }), NOW);
+
+    expect(result.odds).toBe(-300);
+    expect(result.repriced).toBe(true);
+    expect(result.marketSnapshot).toMatchObject({
+      source: 'event',
+      provider: 'the-odds-api',
+      marketUpdatedAt: '2026-03-01T11:55:00Z',
+      capturedAt: NOW.toISOString(),
+      odds: -300,
+      requested: { line: null, odds: -290 },
+    });
+  });
+
+  it('reprices small line moves to the current line', async () => {
+    const result = await pricePick(
+      createEvent(),
+      createPick({ pickType: 'spread', selection: 'home', line: -7, odds: -110 }),
+      NOW
+    );
+
+    expect(result.line).toBe(-7.5);
+    expect(result.odds).toBe(-110);
+    expect(result.repriced).toBe(true);
+  });
+
+  it('takes the current line when the client sent none', async () => {
+    const result = await pricePick(
+      createEvent(),
+      createPick({ pickType: 'total', selection: 'over', odds: -115 }),
+      NOW
+    );
+
+    expect(result.line).toBe(215.5);
+  });
+});
+
+// ===========================================
+// Test: Rejection
+// ===========================================
+
+describe('pricePick - rejection', () => {
+  it('rejects long-shot odds submitted on a heavy favourite', async () => {
+    await expectRejected(
+      pricePick(createEvent(), createPick({ odds: 900 }), NOW),
+      ERROR_CODES.ODDS_CHANGED
+    );
+  });
+
+  it('rejects lines that drifted past tolerance', async () => {
+    await expectRejected(
+      pricePick(
+        createEvent(),
+        createPick({ pickType: 'spread', selection: 'home', line: -3.5, odds: -110 }),
+        NOW
+      ),
+      ERROR_CODES.ODDS_CHANGED
+    );
+  });
+
+  it('rejects markets the event no longer offers', async () => {
+    await expectRejected(
+      pricePick(createEvent({ oddsData: null }), createPick(), NOW),
+      ERROR_CODES.MARKET_UNAVAILABLE
+    );
+  });
+
+  it('rejects picks whose event is missing', async () => {
+    await expectRejected(
+      pricePicks([createPick({ sportsEventId: 'event-2' })], new Map([['event-1', createEvent()]])),
+      ERROR_CODES.MARKET_UNAVAILABLE
+    );
+  });
+});
+
+// ===========================================
+// Test: Props
+// ===========================================
+
+describe('pricePick - props', () => {
+  const propPick = createPick({
+    pickType: 'prop',
+    selection: 'over',
+    line: 27.5,
+    odds: -110,
+    propType: 'player_points',
+    propPlayerId: 'player-1',
+    propPlayerName: 'Jayson Tatum',
+  });
+
+  it('prices props from the event oddsData', async () => {
+    const result = await pricePick(createEvent(), propPick, NOW);
+
+    expect(result.odds).toBe(-110);
+    expect(result.marketSnapshot).toMatchObject({
+      source: 'event',
+      marketUpdatedAt: '2026-03-01T11:50:00Z',
+      propType: 'player_points',
+      propPlayerId: 'player-1',
+    });
+    expect(mocks.getEventPlayerProps).not.toHaveBeenCalled();
+  });
+
+  it('falls back to cached OddsService props', async () => {
+    mocks.getEventPlayerProps.mockResolvedValue({
+      eventId: 'ext-1',
+      playerProps: [
+        {
+          playerId: 'player-2',
+          playerName: 'Jaylen Brown',
+          propType: 'player_rebounds',
+          line: 6.5,
+          overOdds: 2.0,
+          underOdds: 1.8,
+        },
+      ],
+      remainingRequests: null,
+      usedRequests: null,
+    });
+
+    const result = await pricePick(
+      createEvent(),
+      createPick({
+        pickType: 'prop',
+        selection: 'over',
+        line: 6.5,
+        odds: 100,
+        propType: 'player_rebounds',
+        propPlayerName: 'jaylen brown',
+      }),
+      NOW
+    );
+
+    expect(mocks.getEventPlayerProps).toHaveBeenCalledWith('basketball_nba', 'ext-1', [
+      'player_rebounds',
+    ]);
+    expect(result.odds).toBe(100);
+    expect(result.marketSnapshot.source).toBe('odds-service');
+  });
+
+  it('rejects props the OddsService cannot price', async () => {
+    mocks.getEventPlayerProps.mockRejectedValue(new Error('Props unavailable'));
+
+    await expectRejected(
+      pricePick(createEvent(), { ...propPick, propType: 'player_assists' }, NOW),
+      ERROR_CODES.MARKET_UNAVAILABLE
+    );
+  });
+});
+
+// ===========================================
+// Test: Live Picks
+// ===========================================
+
+describe('pricePick - live', () => {
+  it('prices live picks from the live odds', async () => {
+    const priced = await pricePick(createLiveEvent(), createPick(), NOW);
+
+    expect(priced.isLive).toBe(true);
+    expect(priced.marketSnapshot.source).toBe('live');
+    expect(priced.marketSnapshot.marketUpdatedAt).toBe('2026-03-01T11:59:50Z');
+  });
+
+  it('treats pre-game events as not live', async () => {
+    const priced = await pricePick(createEvent({ status: EventStatus.SCHEDULED }), createPick(), NOW);
+
+    expect(priced.isLive).toBe(false);
+  });
+
+  it('rejects live events without fresh live odds', async () => {
+    await expectRejected(
+      pricePick(createLiveEvent({ oddsData: createEvent().oddsData }), createPick(), NOW),
+      ERROR_CODES.MARKET_SUSPENDED
+    );
+
+    const stale = createLiveEvent();
+    await expectRejected(
+      pricePick(stale, createPick(), new Date('2026-03-01T12:01:00Z')),
+      ERROR_CODES.MARKET_SUSPENDED
+    );
+  });
+
+  it('suspends markets after a score change until newer odds arrive', async () => {
+    const suspendedAt = new Date('2026-03-01T11:59:30Z');
+
+    // Still inside the suspension window
+    const suspended = createLiveEvent({ liveMarketsSuspendedAt: suspendedAt });
+    await expectRejected(
+      pricePick(suspended, createPick(), new Date('2026-03-01T11:59:40Z')),
+      ERROR_CODES.MARKET_SUSPENDED
+    );
+
+    // Window over, but the odds predate the score change
+    const oddsBeforeScore = createLiveEvent({ liveMarketsSuspendedAt: new Date('2026-03-01T11:59:50Z') });
+    await expectRejected(pricePick(oddsBeforeScore, createPick(), NOW), ERROR_CODES.MARKET_SUSPENDED);
+
+    // Window over and odds updated since
+    const reopened = await pricePick(createLiveEvent({ liveMarketsSuspendedAt: suspendedAt }), createPick(), NOW);
+    expect(reopened.isLive).toBe(true);
+  });
+
+  it('does not fall back to pre-game props', async () => {
+    await expectRejected(
+      pricePick(
+        createLiveEvent(),
+        createPick({
+          pickType: 'prop',
+          selection: 'over',
+          odds: -110,
+          line: 8.5,
+          propType: 'player_rebounds',
+          propPlayerId: 'player-1',
+        }),
+        NOW
+      ),
+      ERROR_CODES.MARKET_UNAVAILABLE
+    );
+    expect(mocks.getEventPlayerProps).not.toHaveBeenCalled();
+  });
+});
+
+describe('confirmLivePrices', () => {
+  async function confirm(picks: PricingPickInput[], events: PricingEvent[]) {
+    const priced = await pricePicks(picks, new Map(events.map((e) => [e.id, e])));
+    const result = confirmLivePrices(picks, priced).catch((err) => err);
+    await vi.advanceTimersByTimeAsync(5000);
+    return result;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW });
+  });
+
+  it('returns pre-game picks without waiting', async () => {
+    const picks = [createPick()];
+    const priced = await pricePicks(picks, new Map([['event-1', createEvent()]]));
+
+    expect(await confirmLivePrices(picks, priced)).toBe(priced);
+    expect(mocks.sportsEventFindMany).not.toHaveBeenCalled();
+  });
+
+  it('re-prices live picks after the acceptance delay', async () => {
+    const moved = createLiveEvent();
+    (moved.oddsData as { markets: { moneyline: object } }).markets.moneyline = { home: 1.3, away: 3.7 };
+    (moved.oddsData as { liveUpdatedAt: string }).liveUpdatedAt = '2026-03-01T12:00:04Z';
+    mocks.sportsEventFindMany.mockResolvedValue([moved]);
+
+    const [confirmed] = await confirm([createPick()], [createLiveEvent()]);
+
+    expect(confirmed.odds).toBe(-333);
+    expect(confirmed.repriced).toBe(true);
+    expect(confirmed.marketSnapshot.requested.odds).toBe(-300);
+    expect(confirmed.marketSnapshot.liveAcceptance).toEqual({
+      quotedAt: NOW.toISOString(),
+      odds: -300,
+      line: null,
+      delayMs: 5000,
+    });
+  });
+
+  it('rejects live picks when the score changes during the delay', async () => {
+    mocks.sportsEventFindMany.mockResolvedValue([
+      createLiveEvent({ liveMarketsSuspendedAt: new Date('2026-03-01T12:00:03Z') }),
+    ]);
+
+    const error = await confirm([createPick()], [createLiveEvent()]);
+
+    expect(error).toBeInstanceOf(BadRequestError);
+    expect(error.code).toBe(ERROR_CODES.MARKET_SUSPENDED);
+  });
+
+  it('rejects live picks when the event ends during the delay', async () => {
+    mocks.sportsEventFindMany.mockResolvedValue([createLiveEvent({ status: EventStatus.COMPLETED })]);
+
+    const error = await confirm([createPick()], [createLiveEvent()]);
+
+    expect(error.code).toBe(ERROR_CODES.MARKET_SUSPENDED);
+  });
+
+  it('rejects live picks when the price moves past tolerance', async () => {
+    const moved = createLiveEvent();
+    (moved.oddsData as { markets: { moneyline: object } }).markets.moneyline = { home: 1.8, away: 2.1 };
+    mocks.sportsEventFindMany.mockResolvedValue([moved]);
+
+    const error = await confirm([createPick()], [createLiveEvent()]);
+
+    expect(error.code).toBe(ERROR_CODES.ODDS_CHANGED);
+  });
+});
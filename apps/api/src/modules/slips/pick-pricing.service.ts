@@ -0,0 +1,519 @@
+// =====================================================
+// Pick Pricing Service
+// =====================================================
+// Resolves client-submitted picks against the server's own market data.
+//
+// SECURITY: The odds and line stored on a pick come from the event's
+// oddsData (or cached OddsService props), never from the client payload.
+// The client's price is only used to detect drift: small moves are
+// repriced to the current market, larger ones are rejected.
+//
+// LIVE PICKS: Events in progress are priced from the odds the live-scores
+// pipeline writes to oddsData. Markets are suspended after every score
+// change until fresher live odds arrive, and live picks are only accepted
+// after a delay and a second price check (see confirmLivePrices).
+
+import { Prisma, PickType, SportType, EventStatus } from '@prisma/client';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+import { config } from '../../config';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import { BadRequestError } from '../../utils/errors';
+import {
+  americanToImpliedProbability,
+  decimalToAmericanOdds,
+} from '../../lib/odds-calculator';
+import { getOddsService } from '../../services/odds';
+import type { Sport, PlayerPropMarket } from '../../services/odds';
+import { SPORT_TYPE_TO_KEY } from '../../services/events/types';
+import type { OddsData, PlayerPropData } from '../../services/events/types';
+import {
+  HOME_SELECTIONS,
+  AWAY_SELECTIONS,
+  DRAW_SELECTIONS,
+  OVER_SELECTIONS,
+  UNDER_SELECTIONS,
+  YES_SELECTIONS,
+  NO_SELECTIONS,
+} from '../../services/settlement/settlement.types';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Event fields needed to price a pick.
+ */
+export interface PricingEvent {
+  id: string;
+  sport: SportType;
+  externalId: string;
+  oddsData: Prisma.JsonValue | null;
+  /** Events without a status are priced as pre-game */
+  status?: EventStatus;
+  liveMarketsSuspendedAt?: Date | null;
+}
+
+/**
+ * Pick fields as submitted by the client (or as stored, when re-checking at lock).
+ */
+export interface PricingPickInput {
+  sportsEventId: string;
+  pickType: string;
+  selection: string;
+  line?: number | null;
+  odds: number;
+  propType?: string | null;
+  propPlayerId?: string | null;
+  propPlayerName?: string | null;
+}
+
+/**
+ * A single outcome's current price in the server's market data.
+ */
+export interface MarketQuote {
+  line: number | null;
+  oddsDecimal: number;
+}
+
+/**
+ * Stored in SlipPick.marketSnapshot - the market the pick was priced against.
+ */
+export interface PickMarketSnapshot {
+  source: 'event' | 'odds-service' | 'live';
+  provider: string | null;
+  marketUpdatedAt: string | null;
+  capturedAt: string;
+  pickType: string;
+  selection: string;
+  line: number | null;
+  odds: number;
+  oddsDecimal: number;
+  requested: { line: number | null; odds: number };
+  propType?: string;
+  propPlayerId?: string;
+  propPlayerName?: string;
+  /** Live picks: the price quoted before the acceptance delay */
+  liveAcceptance?: { quotedAt: string; odds: number; line: number | null; delayMs: number };
+}
+
+/**
+ * Server-authoritative price for a pick.
+ */
+export interface PricedPick {
+  odds: number;
+  oddsDecimal: number;
+  line: number | null;
+  marketSnapshot: PickMarketSnapshot;
+  /** True when the stored price differs from what the client submitted */
+  repriced: boolean;
+  /** True when the event was in progress when the pick was priced */
+  isLive: boolean;
+}
+
+/**
+ * Event fields selected when re-loading events for pricing.
+ */
+export const PRICING_EVENT_SELECT = {
+  id: true,
+  sport: true,
+  externalId: true,
+  oddsData: true,
+  status: true,
+  liveMarketsSuspendedAt: true,
+} as const;
+
+// ===========================================
+// Selection Helpers
+// ===========================================
+
+function matchesSelection(selection: string, values: readonly string[]): boolean {
+  return values.includes(selection.trim().toLowerCase());
+}
+
+/**
+ * Maps an over/under (or yes/no) selection to a side.
+ */
+function getTotalSide(selection: string): 'over' | 'under' | null {
+  if (matchesSelection(selection, OVER_SELECTIONS) || matchesSelection(selection, YES_SELECTIONS)) {
+    return 'over';
+  }
+  if (matchesSelection(selection, UNDER_SELECTIONS) || matchesSelection(selection, NO_SELECTIONS)) {
+    return 'under';
+  }
+  return null;
+}
+
+/**
+ * Maps a home/away (or draw) selection to a side.
+ */
+function getTeamSide(selection: string): 'home' | 'away' | 'draw' | null {
+  if (matchesSelection(selection, HOME_SELECTIONS)) return 'home';
+  if (matchesSelection(selection, AWAY_SELECTIONS)) return 'away';
+  if (matchesSelection(selection, DRAW_SELECTIONS)) return 'draw';
+  return null;
+}
+
+// ===========================================
+// Market Lookup
+// ===========================================
+
+function asOddsData(raw: Prisma.JsonValue | null | undefined): OddsData | null {
+  return raw && typeof raw === 'object' && !Array.isArray(raw)
+    ? (raw as unknown as OddsData)
+    : null;
+}
+
+/**
+ * Finds the prop the pick refers to (by player ID, falling back to name).
+ */
+function findPropQuote(
+  players: Array<Pick<PlayerPropData, 'playerId' | 'playerName' | 'propType' | 'line' | 'overOdds' | 'underOdds'>>,
+  pick: PricingPickInput
+): MarketQuote | null {
+  const side = getTotalSide(pick.selection);
+  if (!side || !pick.propType) return null;
+
+  const playerName = pick.propPlayerName?.trim().toLowerCase();
+  const prop = players.find(
+    (p) =>
+      p.propType === pick.propType &&
+      ((pick.propPlayerId && p.playerId === pick.propPlayerId) ||
+        (!!playerName && p.playerName.trim().toLowerCase() === playerName))
+  );
+
+  if (!prop) return null;
+
+  return {
+    line: prop.line,
+    oddsDecimal: side === 'over' ? prop.overOdds : prop.underOdds,
+  };
+}
+
+/**
+ * Finds the current price for a pick in an event's stored oddsData.
+ * Returns null if the market or selection isn't offered.
+ */
+export function findEventQuote(
+  oddsData: Prisma.JsonValue | null | undefined,
+  pick: PricingPickInput
+): MarketQuote | null {
+  const markets = asOddsData(oddsData)?.markets;
+  if (!markets) return null;
+
+  switch (pick.pickType) {
+    case PickType.moneyline: {
+      const side = getTeamSide(pick.selection);
+      const price = side && markets.moneyline?.[side];
+      return price ? { line: null, oddsDecimal: price } : null;
+    }
+
+    case PickType.spread: {
+      const side = getTeamSide(pick.selection);
+      const spread = markets.spread;
+      if (!spread || (side !== 'home' && side !== 'away')) return null;
+      return side === 'home'
+        ? { line: spread.home, oddsDecimal: spread.homeOdds }
+        : { line: spread.away, oddsDecimal: spread.awayOdds };
+    }
+
+    case PickType.total: {
+      const side = getTotalSide(pick.selection);
+      const totals = markets.totals;
+      if (!totals || !side) return null;
+      return {
+        line: totals.value,
+        oddsDecimal: side === 'over' ? totals.overOdds : totals.underOdds,
+      };
+    }
+
+    case PickType.prop:
+      return findPropQuote(markets.props?.players ?? [], pick);
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Looks up a prop in the cached OddsService data when it isn't in the
+ * event's synced oddsData (e.g. props sync hasn't run for this event yet).
+ */
+async function fetchPropQuote(
+  event: PricingEvent,
+  pick: PricingPickInput
+): Promise<MarketQuote | null> {
+  if (!pick.propType) return null;
+
+  try {
+    const response = await getOddsService().getEventPlayerProps(
+      SPORT_TYPE_TO_KEY[event.sport] as Sport,
+      event.externalId,
+      [pick.propType as PlayerPropMarket]
+    );
+    return findPropQuote(response.playerProps, pick);
+  } catch (error) {
+    logger.warn(`[PickPricing] Props lookup failed for event ${event.id}:`, error);
+    return null;
+  }
+}
+
+// ===========================================
+// Live Markets
+// ===========================================
+
+/**
+ * Whether picks on this event are live (in-game) picks.
+ */
+export function isLiveEvent(event: Pick<PricingEvent, 'status'>): boolean {
+  return event.status === EventStatus.LIVE;
+}
+
+function marketSuspended(message: string): BadRequestError {
+  return new BadRequestError(message, ERROR_CODES.MARKET_SUSPENDED);
+}
+
+/**
+ * Checks that a live event's markets are open.
+ * Markets close after a score change until the minimum suspension has
+ * passed AND live odds newer than the score change have arrived, and
+ * whenever the live odds are older than maxOddsAgeMs.
+ *
+ * @param event - Live event
+ * @param now - Pricing time
+ * @param quotedAt - When the pick was first quoted; a score change since then rejects it
+ * @throws BadRequestError (MARKET_SUSPENDED) if markets are closed
+ */
+export function assertLiveMarketOpen(event: PricingEvent, now: Date, quotedAt?: Date): void {
+  const { maxOddsAgeMs, scoreChangeSuspensionMs } = config.livePicks;
+  const liveUpdatedAt = asOddsData(event.oddsData)?.liveUpdatedAt;
+  const oddsAt = liveUpdatedAt ? new Date(liveUpdatedAt).getTime() : NaN;
+  const suspendedAt = event.liveMarketsSuspendedAt?.getTime();
+
+  if (suspendedAt !== undefined) {
+    if (quotedAt && suspendedAt > quotedAt.getTime()) {
+      throw marketSuspended(`Score changed on event ${event.id} while the pick was being accepted`);
+    }
+    if (now.getTime() < suspendedAt + scoreChangeSuspensionMs || !(oddsAt > suspendedAt)) {
+      throw marketSuspended(`Markets on event ${event.id} are suspended after a score change`);
+    }
+  }
+
+  if (!(now.getTime() - oddsAt <= maxOddsAgeMs)) {
+    throw marketSuspended(`Live odds are not available for event ${event.id}`);
+  }
+}
+
+// ===========================================
+// Pricing
+// ===========================================
+
+/**
+ * Prices a pick against the server's market data.
+ *
+ * @param event - Event the pick is on
+ * @param pick - Client-submitted (or previously stored) pick
+ * @param now - Snapshot timestamp
+ * @param quotedAt - Live picks: when the pick was first quoted
+ * @returns Server-authoritative odds, line and market snapshot
+ * @throws BadRequestError (MARKET_SUSPENDED) if a live event's markets are closed
+ * @throws BadRequestError (MARKET_UNAVAILABLE) if the market isn't offered
+ * @throws BadRequestError (ODDS_CHANGED) if the line or odds drifted past tolerance
+ */
+export async function pricePick(
+  event: PricingEvent,
+  pick: PricingPickInput,
+  now: Date = new Date(),
+  quotedAt?: Date
+): Promise<PricedPick> {
+  const isLive = isLiveEvent(event);
+  if (isLive) {
+    assertLiveMarketOpen(event, now, quotedAt);
+  }
+
+  let source: PickMarketSnapshot['source'] = isLive ? 'live' : 'event';
+  let quote = findEventQuote(event.oddsData, pick);
+
+  // Cached props are pre-game prices - never used for live picks
+  if (!quote && pick.pickType === PickType.prop && !isLive) {
+    quote = await fetchPropQuote(event, pick);
+    source = 'odds-service';
+  }
+
+  const serverOdds = quote ? decimalToAmericanOdds(quote.oddsDecimal) : null;
+
+  if (!quote || serverOdds === null) {
+    throw new BadRequestError(
+      `Market no longer available for ${pick.pickType} '${pick.selection}' on event ${pick.sportsEventId}`,
+      ERROR_CODES.MARKET_UNAVAILABLE
+    );
+  }
+
+  const requestedLine = pick.line ?? null;
+  const { maxLineDrift, maxProbabilityDrift } = config.pickPricing;
+
+  // A missing client line simply takes the current one
+  if (quote.line !== null && requestedLine !== null) {
+    if (Math.abs(quote.line - requestedLine) > maxLineDrift) {
+      throw new BadRequestError(
+        `Line moved from ${requestedLine} to ${quote.line} for ${pick.pickType} '${pick.selection}' on event ${pick.sportsEventId}`,
+        ERROR_CODES.ODDS_CHANGED
+      );
+    }
+  }
+
+  const probabilityDrift = Math.abs(
+    americanToImpliedProbability(pick.odds) - 1 / quote.oddsDecimal
+  );
+
+  if (probabilityDrift > maxProbabilityDrift) {
+    throw new BadRequestError(
+      `Odds moved from ${pick.odds} to ${serverOdds} for ${pick.pickType} '${pick.selection}' on event ${pick.sportsEventId}`,
+      ERROR_CODES.ODDS_CHANGED
+    );
+  }
+
+  const oddsData = asOddsData(event.oddsData);
+  const marketSnapshot: PickMarketSnapshot = {
+    source,
+    provider: oddsData?.provider ?? null,
+    marketUpdatedAt:
+      (isLive ? oddsData?.liveUpdatedAt : undefined) ??
+      (pick.pickType === PickType.prop ? oddsData?.markets?.props?.lastUpdated : undefined) ??
+      oddsData?.lastUpdated ??
+      null,
+    capturedAt: now.toISOString(),
+    pickType: pick.pickType,
+    selection: pick.selection,
+    line: quote.line,
+    odds: serverOdds,
+    oddsDecimal: quote.oddsDecimal,
+    requested: { line: requestedLine, odds: pick.odds },
+    ...(pick.pickType === PickType.prop && {
+      propType: pick.propType ?? undefined,
+      propPlayerId: pick.propPlayerId ?? undefined,
+      propPlayerName: pick.propPlayerName ?? undefined,
+    }),
+  };
+
+  return {
+    odds: serverOdds,
+    oddsDecimal: quote.oddsDecimal,
+    line: quote.line,
+    marketSnapshot,
+    repriced: serverOdds !== pick.odds || quote.line !== requestedLine,
+    isLive,
+  };
+}
+
+/**
+ * Prices every pick in a slip. Picks are priced in order so the first
+ * rejected pick is the one reported.
+ *
+ * @param picks - Picks to price
+ * @param events - Events keyed by ID (every pick's event must be present)
+ */
+export async function pricePicks(
+  picks: PricingPickInput[],
+  events: Map<string, PricingEvent>
+): Promise<PricedPick[]> {
+  const now = new Date();
+  const priced: PricedPick[] = [];
+
+  for (const pick of picks) {
+    const event = events.get(pick.sportsEventId);
+    if (!event) {
+      throw new BadRequestError(
+        `Market no longer available for event ${pick.sportsEventId}`,
+        ERROR_CODES.MARKET_UNAVAILABLE
+      );
+    }
+    priced.push(await pricePick(event, pick, now));
+  }
+
+  const repricedCount = priced.filter((p) => p.repriced).length;
+  if (repricedCount > 0) {
+    logger.info(`[PickPricing] Repriced ${repricedCount}/${picks.length} picks to current market`);
+  }
+
+  return priced;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Delayed acceptance for live picks. Waits acceptanceDelayMs, re-loads the
+ * live events and re-prices each live pick against the price it was first
+ * quoted at - so a pick can't be placed on a price the game has already
+ * moved past. Pre-game picks are returned unchanged.
+ *
+ * @param picks - Picks as submitted (same order as priced)
+ * @param priced - Result of pricePicks
+ * @returns Final prices
+ * @throws BadRequestError (MARKET_SUSPENDED) if the event left LIVE, the score
+ *   changed or the live odds went stale during the delay
+ * @throws BadRequestError (ODDS_CHANGED) if the price moved past tolerance
+ */
+export async function confirmLivePrices(
+  picks: PricingPickInput[],
+  priced: PricedPick[]
+): Promise<PricedPick[]> {
+  const liveEventIds = [
+    ...new Set(picks.filter((_, index) => priced[index].isLive).map((p) => p.sportsEventId)),
+  ];
+  if (liveEventIds.length === 0) return priced;
+
+  const quotedAt = new Date();
+  const delayMs = config.livePicks.acceptanceDelayMs;
+  await sleep(delayMs);
+
+  const events = await prisma.sportsEvent.findMany({
+    where: { id: { in: liveEventIds } },
+    select: PRICING_EVENT_SELECT,
+  });
+  const eventMap = new Map(events.map((e) => [e.id, e]));
+  const now = new Date();
+  const confirmed: PricedPick[] = [];
+
+  for (const [index, pick] of picks.entries()) {
+    const quoted = priced[index];
+    if (!quoted.isLive) {
+      confirmed.push(quoted);
+      continue;
+    }
+
+    const event = eventMap.get(pick.sportsEventId);
+    if (!event || !isLiveEvent(event)) {
+      throw marketSuspended(`Event ${pick.sportsEventId} is no longer live`);
+    }
+
+    const final = await pricePick(
+      event,
+      { ...pick, odds: quoted.odds, line: quoted.line },
+      now,
+      quotedAt
+    );
+
+    const requested = quoted.marketSnapshot.requested;
+    confirmed.push({
+      ...final,
+      marketSnapshot: {
+        ...final.marketSnapshot,
+        requested,
+        liveAcceptance: {
+          quotedAt: quotedAt.toISOString(),
+          odds: quoted.odds,
+          line: quoted.line,
+          delayMs,
+        },
+      },
+      repriced: final.odds !== requested.odds || final.line !== requested.line,
+    });
+  }
+
+  logger.info(`[PickPricing] Accepted live picks on ${liveEventIds.length} events after ${delayMs}ms`);
+
+  return confirmed;
+}
@@ -7,6 +7,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { ApiResponse, ERROR_CODES } from '@pick-rivals/shared-types';
 import { requireAuth, getAuthenticatedUser } from '../../middleware/auth.middleware';
+import { slipCreationRateLimiter } from '../../middleware/rate-limit.middleware';
 import {
   validateCreateSlip,
   validateUpdateSlip,
@@ -43,6 +44,7 @@ function formatValidationErrors(
 router.post(
   '/',
   requireAuth,
+  slipCreationRateLimiter,
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const requestId = generateRequestId();
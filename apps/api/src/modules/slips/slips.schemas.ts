@@ -6,6 +6,7 @@
 
 import { z } from 'zod';
 import { SlipStatus, PickStatus, PickType } from '@prisma/client';
+import { isDrawSelection } from '../../services/settlement/pick-result';
 
 // ===========================================
 // Constants
@@ -37,7 +38,7 @@ export const pickInputSchema = z.object({
     .string()
     .min(1, 'Selection is required')
     .max(100, 'Selection must be 100 characters or less')
-    .describe('The selection made (e.g., "home", "away", "over", "under")'),
+    .describe('The selection made (e.g., "home", "away", "draw", "over", "under")'),
 
   line: z
     .number()
@@ -51,7 +52,7 @@ export const pickInputSchema = z.object({
       (val) => val <= -100 || val >= 100,
       { message: 'American odds must be >= +100 or <= -100' }
     )
-    .describe('American odds at time of pick (e.g., -110, +200)'),
+    .describe('American odds seen by the client (e.g., -110, +200); the server prices from its own market data'),
 
   oddsDecimal: z
     .number()
@@ -82,7 +83,15 @@ export const pickInputSchema = z.object({
     .max(100, 'Prop player name must be 100 characters or less')
     .optional()
     .describe('Player name for prop bets'),
-});
+}).refine(
+  (pick) =>
+    pick.pickType === 'moneyline' ||
+    !isDrawSelection(pick.selection),
+  {
+    message: 'Draw is only a valid selection for moneyline picks',
+    path: ['selection'],
+  }
+);
 
 export type PickInput = z.infer<typeof pickInputSchema>;
 
@@ -6,6 +6,7 @@
 
 import { Prisma, SlipStatus, PickStatus, PickType, EventStatus, PickTier as PrismaPickTier } from '@prisma/client';
 import { prisma } from '../../lib/prisma';
+import { config } from '../../config';
 import { logger } from '../../utils/logger';
 import { NotFoundError, BadRequestError, ForbiddenError } from '../../utils/errors';
 import { ERROR_CODES } from '@pick-rivals/shared-types';
@@ -22,12 +23,30 @@ import { Decimal } from '@prisma/client/runtime/library';
 import {
   calculatePickPointValue,
   calculateSlipPointPotential,
+  MAX_POINTS_PER_SLIP,
   americanToDecimalOdds,
   americanToImpliedProbability,
+  decimalToAmericanOdds,
 } from '../../lib/odds-calculator';
-import { calculateCoinCost, validateMinimumSpend, PickForValidation } from '../../lib/pointlock-calculator';
+import {
+  calculateCoinCost,
+  validateMinimumSpend,
+  applyLivePointModifier,
+  MarketType,
+  PickForValidation,
+} from '../../lib/pointlock-calculator';
 import { getUserTier, isPickLocked } from '../../lib/tier.service';
 import { PickTier } from '@pick-rivals/shared-types';
+import { isDrawSelection } from '../../services/settlement/pick-result';
+import {
+  findEventQuote,
+  pricePicks,
+  confirmLivePrices,
+  PRICING_EVENT_SELECT,
+  PricedPick,
+  PricingEvent,
+  PricingPickInput,
+} from './pick-pricing.service';
 
 // ===========================================
 // Types
@@ -269,15 +288,29 @@ function calculatePotentialPayout(stake: number, totalOdds: number): number {
  * not from client-provided values. This prevents point manipulation exploits.
  *
  * @param picks - Array of picks with odds
+ * @param livePicks - Per-pick live flags; live picks take the live market modifier
  * @returns Total point potential for the slip
  */
-function calculatePointPotentialFromOdds(picks: PickInput[]): number {
+function calculatePointPotentialFromOdds(
+  picks: PickInput[],
+  marketProbabilities?: Array<number[] | undefined>,
+  livePicks?: boolean[]
+): number {
   if (picks.length === 0) return 0;
 
   const oddsArray = picks.map((pick) => pick.odds);
-  const result = calculateSlipPointPotential(oddsArray);
+  const result = calculateSlipPointPotential(oddsArray, marketProbabilities);
+
+  if (!livePicks?.some(Boolean)) {
+    return result.totalPointPotential;
+  }
 
-  return result.totalPointPotential;
+  const sumOfPoints = result.pickPointValues.reduce(
+    (sum, points, index) =>
+      sum + (livePicks[index] ? applyLivePointModifier(points, picks[index].pickType as MarketType) : points),
+    0
+  );
+  return Math.round(Math.min(MAX_POINTS_PER_SLIP, sumOfPoints * result.parlayBonus));
 }
 
 /**
@@ -285,10 +318,65 @@ function calculatePointPotentialFromOdds(picks: PickInput[]): number {
  * Returns an array of point values corresponding to each pick.
  *
  * @param picks - Array of picks with odds
+ * @param marketProbabilities - Per-pick outcome probabilities for three-way markets
+ * @param livePicks - Per-pick live flags; live picks take the live market modifier
  * @returns Array of calculated point values
  */
-function calculatePickPointValues(picks: PickInput[]): number[] {
-  return picks.map((pick) => calculatePickPointValue(pick.odds).pointValue);
+function calculatePickPointValues(
+  picks: PickInput[],
+  marketProbabilities?: Array<number[] | undefined>,
+  livePicks?: boolean[]
+): number[] {
+  return picks.map((pick, index) => {
+    const { pointValue } = calculatePickPointValue(pick.odds, marketProbabilities?.[index]);
+    return livePicks?.[index] ? applyLivePointModifier(pointValue, pick.pickType as MarketType) : pointValue;
+  });
+}
+
+/**
+ * Get raw implied probabilities for every outcome of a three-way moneyline
+ * (home / away / draw) from the event's stored odds.
+ * Returns undefined for two-way markets and non-moneyline picks, which are
+ * priced on the pick's own odds alone.
+ */
+function getMarketImpliedProbabilities(
+  pickType: string,
+  oddsData: Prisma.JsonValue | null | undefined
+): number[] | undefined {
+  if (pickType !== PickType.moneyline) return undefined;
+
+  const moneyline = (oddsData as {
+    markets?: { moneyline?: { home?: number; away?: number; draw?: number } };
+  } | null | undefined)?.markets?.moneyline;
+
+  if (!moneyline?.home || !moneyline.away || !moneyline.draw) return undefined;
+
+  return [moneyline.home, moneyline.away, moneyline.draw].map((decimalOdds) => 1 / decimalOdds);
+}
+
+/**
+ * Reject draw picks on events that don't offer a three-way moneyline.
+ *
+ * @param picks - Picks being added
+ * @param marketProbabilities - Result of getMarketImpliedProbabilities per pick
+ * @throws BadRequestError if a draw is picked on a two-way market
+ */
+function validateDrawSelections(
+  picks: PickInput[],
+  marketProbabilities: Array<number[] | undefined>
+): void {
+  const invalid = picks.filter(
+    (pick, index) =>
+      isDrawSelection(pick.selection) &&
+      !marketProbabilities[index]
+  );
+
+  if (invalid.length > 0) {
+    throw new BadRequestError(
+      `Draw is not offered for events: ${[...new Set(invalid.map((p) => p.sportsEventId))].join(', ')}`,
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
 }
 
 /**
@@ -339,7 +427,7 @@ function getPickTierFromMarket(pickType: PickType): PrismaPickTier {
  * @returns Object with coinCost and tier (Prisma enum for storage)
  */
 function calculatePickCoinCostAndTier(
-  pick: { pickType: PickType; odds: number },
+  pick: { pickType: PickType; odds: number; marketImpliedProbabilities?: number[] },
   userTier: PrismaPickTier
 ): { coinCost: number; tier: PrismaPickTier } {
   // Get pick tier as Prisma enum
@@ -358,7 +446,7 @@ function calculatePickCoinCostAndTier(
 
   // Convert to shared-types tier for pointlock-calculator
   const sharedTier = prismaTierToSharedTier(pickTier);
-  const result = calculateCoinCost(impliedProb, sharedTier);
+  const result = calculateCoinCost(impliedProb, sharedTier, pick.marketImpliedProbabilities);
 
   return { coinCost: result.coinCost, tier: pickTier };
 }
@@ -385,6 +473,52 @@ function validatePickTiersAccessible(
   }
 }
 
+/**
+ * Rejects events that picks can no longer be added to: anything that isn't
+ * SCHEDULED and in the future, except LIVE events when live picks are enabled.
+ */
+function assertEventsOpenForPicks(
+  events: Array<{ id: string; status: EventStatus; scheduledAt: Date }>,
+  now: Date
+): void {
+  const startedEvents = events.filter((e) =>
+    e.status === EventStatus.LIVE
+      ? !config.livePicks.enabled
+      : e.status !== EventStatus.SCHEDULED || e.scheduledAt <= now
+  );
+
+  if (startedEvents.length > 0) {
+    throw new BadRequestError(
+      `Cannot add picks for events that have already started: ${startedEvents.map((e) => e.id).join(', ')}`,
+      ERROR_CODES.EVENT_ALREADY_STARTED
+    );
+  }
+}
+
+/**
+ * Prices picks against the server's market data and replaces the submitted
+ * odds and line with the server's. Everything downstream (tiers, coin cost,
+ * points, payout) uses the returned picks.
+ * Picks on LIVE events go through delayed acceptance before being returned.
+ */
+async function priceSlipPicks(
+  requestedPicks: PickInput[],
+  events: Map<string, PricingEvent>
+): Promise<{ picks: PickInput[]; priced: PricedPick[] }> {
+  const priced = await confirmLivePrices(
+    requestedPicks as PricingPickInput[],
+    await pricePicks(requestedPicks as PricingPickInput[], events)
+  );
+  const picks = requestedPicks.map((pick, index) => ({
+    ...pick,
+    odds: priced[index].odds,
+    oddsDecimal: priced[index].oddsDecimal,
+    line: priced[index].line ?? undefined,
+  }));
+
+  return { picks, priced };
+}
+
 /**
  * Build sort order from sort parameter
  */
@@ -409,16 +543,17 @@ function buildOrderBy(sort: string): Prisma.SlipOrderByWithRelationInput {
 
 /**
  * Create a new slip with picks.
- * Validates that all events exist and haven't started.
+ * Validates that all events exist and haven't started (or are LIVE, when
+ * live picks are enabled).
  */
 export async function createSlip(
   userId: string,
   input: CreateSlipInput
 ): Promise<SlipDetails> {
-  const { name, picks, stake } = input;
+  const { name, picks: requestedPicks, stake } = input;
 
   // Extract unique event IDs
-  const eventIds = [...new Set(picks.map((p) => p.sportsEventId))];
+  const eventIds = [...new Set(requestedPicks.map((p) => p.sportsEventId))];
 
   // Verify all events exist and are valid for betting
   const events = await prisma.sportsEvent.findMany({
@@ -426,8 +561,7 @@ export async function createSlip(
       id: { in: eventIds },
     },
     select: {
-      id: true,
-      status: true,
+      ...PRICING_EVENT_SELECT,
       scheduledAt: true,
     },
   });
@@ -442,26 +576,33 @@ export async function createSlip(
     );
   }
 
-  // Check no events have started
-  const now = new Date();
-  const startedEvents = events.filter(
-    (e) => e.status !== EventStatus.SCHEDULED || e.scheduledAt <= now
+  // Check no events have started (live events only in live-picks mode)
+  assertEventsOpenForPicks(events, new Date());
+
+  // SECURITY: Price every pick from server market data, NOT client input
+  const { picks, priced: pricedPicks } = await priceSlipPicks(
+    requestedPicks,
+    new Map(events.map((e) => [e.id, e]))
   );
 
-  if (startedEvents.length > 0) {
-    throw new BadRequestError(
-      `Cannot add picks for events that have already started: ${startedEvents.map((e) => e.id).join(', ')}`,
-      ERROR_CODES.EVENT_ALREADY_STARTED
-    );
-  }
+  // Three-way moneylines (soccer) are priced across all outcomes
+  const eventOdds = new Map(events.map((e) => [e.id, e.oddsData]));
+  const marketProbabilities = picks.map((pick) =>
+    getMarketImpliedProbabilities(pick.pickType, eventOdds.get(pick.sportsEventId))
+  );
+  validateDrawSelections(picks, marketProbabilities);
 
   // Get user tier
   const userTierInfo = await getUserTier(userId);
 
   // Calculate coin cost and tier for each pick (validates tier access)
-  const pickCoinData = picks.map((pick) =>
+  const pickCoinData = picks.map((pick, index) =>
     calculatePickCoinCostAndTier(
-      { pickType: pick.pickType as PickType, odds: pick.odds },
+      {
+        pickType: pick.pickType as PickType,
+        odds: pick.odds,
+        marketImpliedProbabilities: marketProbabilities[index],
+      },
       userTierInfo.tier
     )
   );
@@ -472,10 +613,11 @@ export async function createSlip(
   // Calculate slip aggregates
   const totalOdds = calculateTotalOdds(picks);
   const potentialPayout = calculatePotentialPayout(stake, totalOdds);
-  const pointPotential = calculatePointPotentialFromOdds(picks);
+  const livePicks = pricedPicks.map((p) => p.isLive);
+  const pointPotential = calculatePointPotentialFromOdds(picks, marketProbabilities, livePicks);
 
   // Calculate server-side point values for each pick (NOT from client input)
-  const pickPointValues = calculatePickPointValues(picks);
+  const pickPointValues = calculatePickPointValues(picks, marketProbabilities, livePicks);
 
   // Create slip with picks in a transaction
   const slip = await prisma.$transaction(async (tx) => {
@@ -499,6 +641,8 @@ export async function createSlip(
             line: pick.line,
             odds: pick.odds,
             oddsDecimal: pick.oddsDecimal ?? americanToDecimal(pick.odds),
+            marketSnapshot: pricedPicks[index].marketSnapshot as unknown as Prisma.InputJsonValue,
+            isLive: pricedPicks[index].isLive,
             // SECURITY: Use server-calculated point value, NOT client-provided
             pointValue: pickPointValues[index],
             // Tier system fields
@@ -625,7 +769,7 @@ export async function updateSlip(
   userId: string,
   input: UpdateSlipInput
 ): Promise<SlipDetails> {
-  const { name, addPicks, removePickIds, stake } = input;
+  const { name, addPicks: requestedAddPicks, removePickIds, stake } = input;
 
   // Get existing slip with tier info for validation
   const existingSlip = await prisma.slip.findFirst({
@@ -685,13 +829,19 @@ export async function updateSlip(
   validatePickTiersAccessible(picksToKeep, userTierInfo.tier);
 
   // Validate new picks' events exist and are valid
+  let addPicks: PickInput[] = [];
+  let addPickPricing: PricedPick[] = [];
   let pickCoinData: { coinCost: number; tier: PrismaPickTier }[] = [];
-  if (addPicks && addPicks.length > 0) {
-    const eventIds = [...new Set(addPicks.map((p) => p.sportsEventId))];
+  let addPickMarketProbabilities: Array<number[] | undefined> = [];
+  if (requestedAddPicks && requestedAddPicks.length > 0) {
+    const eventIds = [...new Set(requestedAddPicks.map((p) => p.sportsEventId))];
 
     const events = await prisma.sportsEvent.findMany({
       where: { id: { in: eventIds } },
-      select: { id: true, status: true, scheduledAt: true },
+      select: {
+        ...PRICING_EVENT_SELECT,
+        scheduledAt: true,
+      },
     });
 
     if (events.length !== eventIds.length) {
@@ -703,22 +853,28 @@ export async function updateSlip(
       );
     }
 
-    const now = new Date();
-    const startedEvents = events.filter(
-      (e) => e.status !== EventStatus.SCHEDULED || e.scheduledAt <= now
-    );
+    assertEventsOpenForPicks(events, new Date());
 
-    if (startedEvents.length > 0) {
-      throw new BadRequestError(
-        `Cannot add picks for events that have already started: ${startedEvents.map((e) => e.id).join(', ')}`,
-        ERROR_CODES.EVENT_ALREADY_STARTED
-      );
-    }
+    // SECURITY: Price new picks from server market data, NOT client input
+    ({ picks: addPicks, priced: addPickPricing } = await priceSlipPicks(
+      requestedAddPicks,
+      new Map(events.map((e) => [e.id, e]))
+    ));
+
+    const eventOdds = new Map(events.map((e) => [e.id, e.oddsData]));
+    addPickMarketProbabilities = addPicks.map((pick) =>
+      getMarketImpliedProbabilities(pick.pickType, eventOdds.get(pick.sportsEventId))
+    );
+    validateDrawSelections(addPicks, addPickMarketProbabilities);
 
     // Calculate coin costs for new picks (user tier already fetched above)
-    pickCoinData = addPicks.map((pick) =>
+    pickCoinData = addPicks.map((pick, index) =>
       calculatePickCoinCostAndTier(
-        { pickType: pick.pickType as PickType, odds: pick.odds },
+        {
+          pickType: pick.pickType as PickType,
+          odds: pick.odds,
+          marketImpliedProbabilities: addPickMarketProbabilities[index],
+        },
         userTierInfo.tier
       )
     );
@@ -737,9 +893,13 @@ export async function updateSlip(
     }
 
     // Add new picks if specified
-    if (addPicks && addPicks.length > 0) {
+    if (addPicks.length > 0) {
       // Calculate server-side point values for new picks
-      const newPickPointValues = calculatePickPointValues(addPicks);
+      const newPickPointValues = calculatePickPointValues(
+        addPicks,
+        addPickMarketProbabilities,
+        addPickPricing.map((p) => p.isLive)
+      );
 
       await tx.slipPick.createMany({
         data: addPicks.map((pick, index) => ({
@@ -750,6 +910,8 @@ export async function updateSlip(
           line: pick.line,
           odds: pick.odds,
           oddsDecimal: pick.oddsDecimal ?? americanToDecimal(pick.odds),
+          marketSnapshot: addPickPricing[index].marketSnapshot as unknown as Prisma.InputJsonValue,
+          isLive: addPickPricing[index].isLive,
           // SECURITY: Use server-calculated point value, NOT client-provided
           pointValue: newPickPointValues[index],
           // Tier system fields
@@ -767,17 +929,20 @@ export async function updateSlip(
     const updatedPicks = await tx.slipPick.findMany({
       where: { slipId },
       select: {
+        pickType: true,
         odds: true,
         oddsDecimal: true,
         pointValue: true,
         coinCost: true,
+        isLive: true,
+        event: { select: { oddsData: true } },
       },
     });
 
     // Recalculate aggregates
     const pickInputsForCalc: PickInput[] = updatedPicks.map((p) => ({
       sportsEventId: '',
-      pickType: 'moneyline',
+      pickType: p.pickType,
       selection: '',
       odds: p.odds,
       oddsDecimal: p.oddsDecimal?.toNumber(),
@@ -787,7 +952,11 @@ export async function updateSlip(
     const newStake = stake ?? 0;
     const newTotalOdds = calculateTotalOdds(pickInputsForCalc);
     const newPotentialPayout = calculatePotentialPayout(newStake, newTotalOdds);
-    const newPointPotential = calculatePointPotentialFromOdds(pickInputsForCalc);
+    const newPointPotential = calculatePointPotentialFromOdds(
+      pickInputsForCalc,
+      updatedPicks.map((p) => getMarketImpliedProbabilities(p.pickType, p.event.oddsData)),
+      updatedPicks.map((p) => p.isLive)
+    );
 
     // Recalculate total coin cost
     const newTotalCoinCost = updatedPicks.reduce((sum, p) => sum + p.coinCost, 0);
@@ -879,7 +1048,8 @@ export async function slipExists(slipId: string, userId?: string): Promise<boole
 /**
  * Lock a slip (transition from DRAFT to PENDING).
  * This is called when the user submits/places the slip.
- * Validates minimum spend requirement and recalculates coin costs server-side.
+ * Re-prices every pick against the current market, validates minimum spend
+ * requirement and recalculates coin costs server-side.
  */
 export async function lockSlip(slipId: string, userId: string): Promise<SlipDetails> {
   // Fetch slip with picks for validation
@@ -888,15 +1058,24 @@ export async function lockSlip(slipId: string, userId: string): Promise<SlipDeta
     select: {
       id: true,
       status: true,
+      stake: true,
       totalPicks: true,
       picks: {
         select: {
           id: true,
+          sportsEventId: true,
           pickType: true,
+          selection: true,
+          line: true,
           odds: true,
           tier: true,
           coinCost: true,
+          propType: true,
+          propPlayerId: true,
+          propPlayerName: true,
+          event: { select: PRICING_EVENT_SELECT },
         },
+        orderBy: { createdAt: 'asc' },
       },
     },
   });
@@ -926,11 +1105,42 @@ export async function lockSlip(slipId: string, userId: string): Promise<SlipDeta
   const userTierInfo = await getUserTier(userId);
   validatePickTiersAccessible(existingSlip.picks, userTierInfo.tier);
 
+  // Drafts on events that have since gone live can only be placed as live picks
+  const liveEvents = existingSlip.picks.filter((p) => p.event.status === EventStatus.LIVE);
+  if (liveEvents.length > 0 && !config.livePicks.enabled) {
+    throw new BadRequestError(
+      `Cannot lock picks for events that have already started: ${[...new Set(liveEvents.map((p) => p.sportsEventId))].join(', ')}`,
+      ERROR_CODES.EVENT_ALREADY_STARTED
+    );
+  }
+
+  // Re-check every pick against the current market (odds may have moved since drafting)
+  const storedPicks: PickInput[] = existingSlip.picks.map((pick) => ({
+    sportsEventId: pick.sportsEventId,
+    pickType: pick.pickType,
+    selection: pick.selection,
+    line: pick.line?.toNumber(),
+    odds: pick.odds,
+    pointValue: 0,
+    propType: pick.propType ?? undefined,
+    propPlayerId: pick.propPlayerId ?? undefined,
+    propPlayerName: pick.propPlayerName ?? undefined,
+  }));
+  const { picks, priced: pricedPicks } = await priceSlipPicks(
+    storedPicks,
+    new Map(existingSlip.picks.map((p) => [p.event.id, p.event]))
+  );
+  const marketProbabilities = existingSlip.picks.map((pick) =>
+    getMarketImpliedProbabilities(pick.pickType, pick.event.oddsData)
+  );
+  const livePicks = pricedPicks.map((p) => p.isLive);
+  const pickPointValues = calculatePickPointValues(picks, marketProbabilities, livePicks);
+
   // Recalculate coin costs server-side (authoritative)
-  const recalculatedPicks: PickForValidation[] = existingSlip.picks.map((pick) => {
-    const impliedProb = americanToImpliedProbability(pick.odds);
+  const recalculatedPicks: PickForValidation[] = existingSlip.picks.map((pick, index) => {
+    const impliedProb = americanToImpliedProbability(picks[index].odds);
     const sharedTier = prismaTierToSharedTier(pick.tier);
-    const result = calculateCoinCost(impliedProb, sharedTier);
+    const result = calculateCoinCost(impliedProb, sharedTier, marketProbabilities[index]);
 
     return {
       coinCost: result.coinCost,
@@ -948,13 +1158,36 @@ export async function lockSlip(slipId: string, userId: string): Promise<SlipDeta
     );
   }
 
+  const totalOdds = calculateTotalOdds(picks);
+  const potentialPayout = calculatePotentialPayout(existingSlip.stake.toNumber(), totalOdds);
+  const pointPotential = calculatePointPotentialFromOdds(picks, marketProbabilities, livePicks);
+
   // Lock the slip in a transaction
   const updatedSlip = await prisma.$transaction(async (tx) => {
+    // Persist the locked-in price (every pick gets a fresh market snapshot)
+    for (const [index, pick] of existingSlip.picks.entries()) {
+      await tx.slipPick.update({
+        where: { id: pick.id },
+        data: {
+          odds: picks[index].odds,
+          oddsDecimal: picks[index].oddsDecimal,
+          line: picks[index].line ?? null,
+          pointValue: pickPointValues[index],
+          coinCost: recalculatedPicks[index].coinCost,
+          marketSnapshot: pricedPicks[index].marketSnapshot as unknown as Prisma.InputJsonValue,
+          isLive: pricedPicks[index].isLive,
+        },
+      });
+    }
+
     const slip = await tx.slip.update({
       where: { id: slipId },
       data: {
         status: SlipStatus.PENDING,
         lockedAt: new Date(),
+        totalOdds,
+        potentialPayout,
+        pointPotential,
         totalCoinCost: minSpendValidation.totalCoinCost,
         minCoinSpend: minSpendValidation.minCoinSpend,
         coinSpendMet: true,
@@ -1084,12 +1317,8 @@ export async function validateDraftPicks(
     }
 
     // Try to extract current odds from oddsData
-    const currentOdds = extractOddsFromEvent(
-      event.oddsData as Record<string, unknown> | null,
-      pick.pickType,
-      pick.selection,
-      pick.line ?? null
-    );
+    const quote = findEventQuote(event.oddsData, { ...pick, odds: pick.currentOdds });
+    const currentOdds = quote ? decimalToAmericanOdds(quote.oddsDecimal) : null;
 
     // If we can extract odds, check if they changed
     if (currentOdds !== null) {
@@ -1118,55 +1347,3 @@ export async function validateDraftPicks(
 
   return results;
 }
-
-/**
- * Extract odds from event oddsData JSON.
- * Returns null if odds cannot be extracted.
- */
-function extractOddsFromEvent(
-  oddsData: Record<string, unknown> | null,
-  pickType: string,
-  selection: string,
-  line: number | null
-): number | null {
-  if (!oddsData) return null;
-
-  try {
-    // Handle different pick types
-    if (pickType === 'moneyline') {
-      const moneyline = oddsData.moneyline as Record<string, unknown> | undefined;
-      if (!moneyline) return null;
-      const odds = moneyline[selection] as number | undefined;
-      return odds ?? null;
-    }
-
-    if (pickType === 'spread') {
-      const spread = oddsData.spread as Record<string, unknown> | undefined;
-      if (!spread) return null;
-      const selectionData = spread[selection] as { odds?: number; line?: number } | undefined;
-      if (!selectionData) return null;
-      // Only return if line matches (or close enough)
-      if (line !== null && selectionData.line !== undefined) {
-        if (Math.abs(selectionData.line - line) > 0.5) return null;
-      }
-      return selectionData.odds ?? null;
-    }
-
-    if (pickType === 'total') {
-      const total = oddsData.total as Record<string, unknown> | undefined;
-      if (!total) return null;
-      const selectionData = total[selection] as { odds?: number; line?: number } | undefined;
-      if (!selectionData) return null;
-      // Only return if line matches (or close enough)
-      if (line !== null && selectionData.line !== undefined) {
-        if (Math.abs(selectionData.line - line) > 0.5) return null;
-      }
-      return selectionData.odds ?? null;
-    }
-
-    // Props are more complex - just return null and let server validate on submission
-    return null;
-  } catch {
-    return null;
-  }
-}
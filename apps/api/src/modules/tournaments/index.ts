@@ -0,0 +1,7 @@
+// =====================================================
+// Tournaments Module - Barrel Export
+// =====================================================
+
+export { default as tournamentsRoutes } from './tournaments.controller';
+export * from './tournaments.service';
+export * from './tournaments.schemas';
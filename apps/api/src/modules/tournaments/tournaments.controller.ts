@@ -0,0 +1,204 @@
+// =====================================================
+// Tournament Controller
+// =====================================================
+// HTTP layer for tournaments: browsing brackets, registering and
+// submitting round slips. Scheduling and cancellation are admin
+// endpoints (see admin.controller.ts).
+// All business logic is delegated to tournaments.service.ts
+// CRITICAL: All endpoints require authentication.
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { ApiResponse, ERROR_CODES } from '@pick-rivals/shared-types';
+import { requireAuth, getAuthenticatedUser } from '../../middleware';
+import { validateRequest } from '../../middleware/validation.middleware';
+import {
+  listTournaments,
+  getTournamentDetails,
+  registerForTournament,
+  submitTournamentSlip,
+} from './tournaments.service';
+import {
+  registerTournamentSchema,
+  submitTournamentSlipSchema,
+  tournamentListQuerySchema,
+  RegisterTournamentInput,
+  SubmitTournamentSlipInput,
+  TournamentDetails,
+  TournamentSummary,
+} from './tournaments.schemas';
+
+const router = Router();
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+/**
+ * Generates a unique request ID for tracing.
+ */
+function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// ===========================================
+// Routes
+// ===========================================
+
+/**
+ * GET /api/v1/tournaments
+ * List tournaments. Defaults to those open for registration or in progress.
+ *
+ * Auth: Required
+ * Query: { status? }
+ * Response: 200 with tournament summaries
+ */
+router.get(
+  '/',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const queryResult = tournamentListQuerySchema.safeParse(req.query);
+
+      if (!queryResult.success) {
+        const response: ApiResponse = {
+          success: false,
+          error: {
+            code: ERROR_CODES.VALIDATION_ERROR,
+            message: 'Invalid query parameters',
+            details: queryResult.error.errors,
+          },
+          meta: {
+            timestamp: new Date().toISOString(),
+            requestId: generateRequestId(),
+          },
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const tournaments = await listTournaments(queryResult.data);
+
+      const response: ApiResponse<TournamentSummary[]> = {
+        success: true,
+        data: tournaments,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /api/v1/tournaments/:id
+ * Get a tournament with its rounds, payouts, bracket and entrants.
+ * Includes the caller's entry when they are registered.
+ *
+ * Auth: Required
+ * Response: 200 with tournament details
+ */
+router.get(
+  '/:id',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const tournament = await getTournamentDetails(req.params.id, user.id);
+
+      const response: ApiResponse<TournamentDetails> = {
+        success: true,
+        data: tournament,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/tournaments/:id/entries
+ * Register with a round 1 slip. The entry fee is debited into the
+ * prize pool and the slip is locked.
+ *
+ * Auth: Required
+ * Body: { slipId }
+ * Response: 201 with tournament details
+ */
+router.post(
+  '/:id/entries',
+  requireAuth,
+  validateRequest(registerTournamentSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const tournament = await registerForTournament(
+        req.params.id,
+        user.id,
+        req.body as RegisterTournamentInput
+      );
+
+      const response: ApiResponse<TournamentDetails> = {
+        success: true,
+        data: tournament,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /api/v1/tournaments/:id/slips
+ * Submit a slip for the caller's open bracket match (rounds 2+).
+ *
+ * Auth: Required
+ * Body: { slipId }
+ * Response: 200 with tournament details
+ */
+router.post(
+  '/:id/slips',
+  requireAuth,
+  validateRequest(submitTournamentSlipSchema),
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+      const tournament = await submitTournamentSlip(
+        req.params.id,
+        user.id,
+        req.body as SubmitTournamentSlipInput
+      );
+
+      const response: ApiResponse<TournamentDetails> = {
+        success: true,
+        data: tournament,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,207 @@
+// =====================================================
+// Tournament Validation Schemas & Types
+// =====================================================
+// Zod schemas for request validation and TypeScript types for
+// tournament responses.
+
+import { z } from 'zod';
+import { TournamentEntryStatus, TournamentStatus } from '@prisma/client';
+
+// ===========================================
+// Constants
+// ===========================================
+
+export const TOURNAMENT_SIZES = [8, 16, 32] as const;
+
+// ===========================================
+// Request Validation Schemas
+// ===========================================
+
+/**
+ * Schema for scheduling a tournament (admin).
+ * - size: Bracket slots (8, 16 or 32)
+ * - entryFee: Per-player entry fee (same bounds as match stakes)
+ * - payoutStructure: Percent of the net pool per finishing tier
+ *   (1st, 2nd, 3rd-4th, 5th-8th, ...); defaults by size when omitted
+ * - rounds: One slate slice per round, in round order. Round count must
+ *   match the bracket size (checked by the service)
+ */
+export const createTournamentSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(3, 'Tournament name must be at least 3 characters')
+    .max(80, 'Tournament name cannot exceed 80 characters'),
+  size: z
+    .number()
+    .int()
+    .refine((size) => (TOURNAMENT_SIZES as readonly number[]).includes(size), {
+      message: 'Tournament size must be 8, 16 or 32',
+    }),
+  entryFee: z
+    .number()
+    .int('Entry fee must be an integer')
+    .min(100, 'Minimum entry fee is $1 (100 cents)')
+    .max(100000, 'Maximum entry fee is $1000 (100,000 cents)'),
+  rakePercentage: z
+    .number()
+    .min(0, 'Rake cannot be negative')
+    .max(20, 'Rake cannot exceed 20%')
+    .optional()
+    .default(5),
+  payoutStructure: z
+    .array(z.number().int('Payout percentages must be integers').min(0).max(100))
+    .min(1, 'Payout structure needs at least one tier')
+    .max(6, 'Payout structure cannot have more than 6 tiers')
+    .refine((tiers) => tiers.reduce((sum, percent) => sum + percent, 0) === 100, {
+      message: 'Payout percentages must add up to 100',
+    })
+    .optional(),
+  rounds: z
+    .array(
+      z.object({
+        eventIds: z
+          .array(z.string().uuid('Invalid event ID format'))
+          .min(1, 'Each round needs at least one event')
+          .max(50, 'A round cannot have more than 50 events'),
+      })
+    )
+    .min(3, 'A tournament has at least 3 rounds')
+    .max(5, 'A tournament has at most 5 rounds'),
+});
+
+/**
+ * Schema for cancelling a tournament before it starts (admin).
+ */
+export const cancelTournamentSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(5, 'Reason must be at least 5 characters')
+    .max(500, 'Reason cannot exceed 500 characters'),
+});
+
+/**
+ * Schema for registering: the round 1 slip.
+ * - slipId: UUID of the user's DRAFT slip (round 1 events only)
+ */
+export const registerTournamentSchema = z.object({
+  slipId: z.string().uuid('Invalid slip ID format'),
+});
+
+/**
+ * Schema for submitting a slip for the user's current bracket match.
+ * - slipId: UUID of the user's DRAFT slip (that round's events only)
+ */
+export const submitTournamentSlipSchema = z.object({
+  slipId: z.string().uuid('Invalid slip ID format'),
+});
+
+/**
+ * Schema for listing tournaments.
+ */
+export const tournamentListQuerySchema = z.object({
+  status: z.nativeEnum(TournamentStatus).optional(),
+});
+
+// ===========================================
+// TypeScript Types
+// ===========================================
+
+export type CreateTournamentInput = z.infer<typeof createTournamentSchema>;
+export type CancelTournamentInput = z.infer<typeof cancelTournamentSchema>;
+export type RegisterTournamentInput = z.infer<typeof registerTournamentSchema>;
+export type SubmitTournamentSlipInput = z.infer<typeof submitTournamentSlipSchema>;
+export type TournamentListQuery = z.infer<typeof tournamentListQuerySchema>;
+
+/**
+ * Tournament summary returned by the API.
+ * BigInt fields are converted to numbers for JSON serialization.
+ */
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  size: number;
+  entryFee: number;
+  rakePercentage: number;
+  entrantCount: number;
+  prizePool: number;
+  totalRounds: number;
+  currentRound: number;
+  status: TournamentStatus;
+  startsAt: Date;
+  completedAt: Date | null;
+  championId: string | null;
+}
+
+export interface TournamentRoundInfo {
+  round: number;
+  name: string;
+  eventIds: string[];
+  locksAt: Date;
+}
+
+export interface TournamentPayoutTier {
+  position: number;
+  players: number;
+  percent: number;
+}
+
+export interface BracketPlayer {
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  seed: number;
+}
+
+export interface BracketMatch {
+  round: number;
+  slot: number;
+  matchId: string | null;
+  status: string | null;
+  creator: BracketPlayer | null;
+  opponent: BracketPlayer | null;
+  creatorPoints: number | null;
+  opponentPoints: number | null;
+  winnerId: string | null;
+  isBye: boolean;
+}
+
+export interface TournamentBracketRound {
+  round: number;
+  name: string;
+  matches: BracketMatch[];
+}
+
+export interface TournamentEntrant {
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  seed: number | null;
+  status: TournamentEntryStatus;
+  eliminatedRound: number | null;
+  finalPosition: number | null;
+  payoutAmount: number | null;
+}
+
+export interface TournamentMyEntry {
+  status: TournamentEntryStatus;
+  seed: number | null;
+  openMatchId: string | null;
+  needsSlip: boolean;
+  slipDueAt: Date | null;
+  finalPosition: number | null;
+  payoutAmount: number | null;
+}
+
+/**
+ * Full tournament view: round slates, payout tiers, the bracket and
+ * (for entrants) the viewer's entry.
+ */
+export interface TournamentDetails extends TournamentSummary {
+  rounds: TournamentRoundInfo[];
+  payouts: TournamentPayoutTier[];
+  bracket: TournamentBracketRound[];
+  entrants: TournamentEntrant[];
+  myEntry: TournamentMyEntry | null;
+}
@@ -0,0 +1,670 @@
+// =====================================================
+// Tournament Service Tests
+// =====================================================
+// Covers bracket layout (seed order, byes, seed fallback on draws),
+// payout splitting, registration (capacity, slate, entry fee), starting
+// a tournament (seeding, byes, cancellation when short of entrants) and
+// bracket advancement through to the final payout.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MatchStatus } from '@prisma/client';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  tournamentFindUnique: vi.fn(),
+  tournamentFindMany: vi.fn(),
+  tournamentUpdate: vi.fn(),
+  tournamentUpdateMany: vi.fn(),
+  entryCreate: vi.fn(),
+  entryFindMany: vi.fn(),
+  entryUpdate: vi.fn(),
+  entryUpdateMany: vi.fn(),
+  matchCreate: vi.fn(),
+  matchFindMany: vi.fn(),
+  matchUpdateMany: vi.fn(),
+  slipFindFirst: vi.fn(),
+  slipUpdate: vi.fn(),
+  slipUpdateMany: vi.fn(),
+  debitWallet: vi.fn(),
+  creditWallet: vi.fn(),
+  processRefund: vi.fn(),
+  broadcastTournamentUpdateSync: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => {
+  const tx = {
+    tournament: {
+      findUnique: mocks.tournamentFindUnique,
+      findMany: mocks.tournamentFindMany,
+      update: mocks.tournamentUpdate,
+      updateMany: mocks.tournamentUpdateMany,
+    },
+    tournamentEntry: {
+      create: mocks.entryCreate,
+      findMany: mocks.entryFindMany,
+      update: mocks.entryUpdate,
+      updateMany: mocks.entryUpdateMany,
+    },
+    match: {
+      create: mocks.matchCreate,
+      findMany: mocks.matchFindMany,
+      updateMany: mocks.matchUpdateMany,
+    },
+    slip: {
+      findFirst: mocks.slipFindFirst,
+      update: mocks.slipUpdate,
+      updateMany: mocks.slipUpdateMany,
+    },
+  };
+
+  return {
+    prisma: {
+      ...tx,
+      $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../../lib/wallet.service', () => ({
+  debitWallet: mocks.debitWallet,
+  creditWallet: mocks.creditWallet,
+  processRefund: mocks.processRefund,
+  HOUSE_USER_ID: 'house-user',
+}));
+
+vi.mock('../../services/admin-audit.service', () => ({
+  recordAdminAction: vi.fn(),
+}));
+
+vi.mock('../../services/live-scores/live-scores.broadcaster', () => ({
+  broadcastTournamentUpdateSync: mocks.broadcastTournamentUpdateSync,
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  buildBracketSeedOrder,
+  resolveBracket,
+  calculateTournamentPayouts,
+  calculateTournamentRake,
+  getRoundName,
+  getTierFinishingPosition,
+  registerForTournament,
+  processDueTournaments,
+  advanceTournament,
+  BracketMatchState,
+} from './tournaments.service';
+import { BadRequestError, ConflictError } from '../../utils/errors';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const TOURNAMENT_ID = 'tournament-1';
+const NOW = new Date('2026-05-01T18:00:00Z');
+const ROUND_1_EVENT = 'event-r1';
+
+/** u1 ... u8, seeded in order */
+const PLAYERS = Array.from({ length: 8 }, (_, i) => `u${i + 1}`);
+
+function seeded(count: number) {
+  return PLAYERS.slice(0, count).map((userId, i) => ({ userId, seed: i + 1 }));
+}
+
+function bracketMatch(
+  round: number,
+  slot: number,
+  creatorId: string,
+  opponentId: string,
+  overrides: Partial<BracketMatchState> & Record<string, unknown> = {}
+) {
+  return {
+    id: `match-r${round}-s${slot}`,
+    status: MatchStatus.settled,
+    tournamentRound: round,
+    bracketSlot: slot,
+    creatorId,
+    opponentId,
+    winnerId: creatorId,
+    creatorSlipId: `slip-${creatorId}-r${round}`,
+    opponentSlipId: `slip-${opponentId}-r${round}`,
+    creatorPoints: 3,
+    opponentPoints: 1,
+    ...overrides,
+  };
+}
+
+/** Round 1 of a full 8-player bracket: 1v8, 4v5, 2v7, 3v6 */
+function firstRound(overrides: Record<number, Record<string, unknown>> = {}) {
+  return [
+    bracketMatch(1, 0, 'u1', 'u8', overrides[0]),
+    bracketMatch(1, 1, 'u4', 'u5', overrides[1]),
+    bracketMatch(1, 2, 'u2', 'u7', overrides[2]),
+    bracketMatch(1, 3, 'u3', 'u6', overrides[3]),
+  ];
+}
+
+const PAST_ROUNDS = [
+  { round: 1, locksAt: new Date('2026-04-30T18:00:00Z') },
+  { round: 2, locksAt: new Date('2026-05-02T18:00:00Z') },
+  { round: 3, locksAt: new Date('2026-05-04T18:00:00Z') },
+];
+
+/** Registration-phase tournament as loaded for the details view */
+function tournamentDetailsRecord() {
+  return {
+    id: TOURNAMENT_ID,
+    name: 'Spring Showdown',
+    size: 8,
+    entryFee: BigInt(1000),
+    rakePercentage: 5,
+    entrantCount: 1,
+    prizePool: BigInt(1000),
+    totalRounds: 3,
+    currentRound: 0,
+    status: 'REGISTRATION',
+    startsAt: NOW,
+    completedAt: null,
+    championId: null,
+    payoutStructure: [60, 30, 10],
+    rounds: [],
+    entries: [
+      {
+        userId: 'u1',
+        seed: null,
+        status: 'REGISTERED',
+        eliminatedRound: null,
+        finalPosition: null,
+        payoutAmount: null,
+        user: { username: 'player1', avatarUrl: null },
+      },
+    ],
+    matches: [],
+  };
+}
+
+describe('Tournament Service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Drop queued once-values too; tests chain several per mock
+    Object.values(mocks).forEach((mock) => mock.mockReset());
+    mocks.tournamentFindUnique.mockResolvedValue(null);
+    mocks.tournamentUpdateMany.mockResolvedValue({ count: 1 });
+    mocks.entryUpdateMany.mockResolvedValue({ count: 1 });
+    mocks.matchUpdateMany.mockResolvedValue({ count: 1 });
+    mocks.matchCreate.mockImplementation(({ data }) =>
+      Promise.resolve({ id: `match-r${data.tournamentRound}-s${data.bracketSlot}` })
+    );
+    mocks.debitWallet.mockResolvedValue({ id: 'entry-tx' });
+    mocks.creditWallet.mockImplementation(({ userId }) => Promise.resolve({ id: `payout-${userId}` }));
+  });
+
+  // ===========================================
+  // Bracket Layout
+  // ===========================================
+
+  describe('buildBracketSeedOrder', () => {
+    it('pairs top seeds with bottom seeds and keeps 1 and 2 apart', () => {
+      expect(buildBracketSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    });
+
+    it('covers every seed once for larger brackets', () => {
+      const order = buildBracketSeedOrder(32);
+      expect(order).toHaveLength(32);
+      expect(new Set(order).size).toBe(32);
+      expect(order.indexOf(2)).toBeGreaterThanOrEqual(16); // Other half from seed 1
+    });
+  });
+
+  describe('getRoundName', () => {
+    it('names rounds back from the final', () => {
+      expect([1, 2, 3, 4, 5].map((round) => getRoundName(round, 5))).toEqual([
+        'Round of 32',
+        'Round of 16',
+        'Quarterfinals',
+        'Semifinals',
+        'Final',
+      ]);
+    });
+  });
+
+  describe('resolveBracket', () => {
+    it('gives the top seeds byes when the bracket is not full', () => {
+      const [round1, round2] = resolveBracket(8, seeded(6), []);
+
+      expect(round1[0]).toMatchObject({ players: ['u1', null], isBye: true, winnerId: 'u1' });
+      expect(round1[1]).toMatchObject({ players: ['u4', 'u5'], isBye: false, winnerId: null });
+      expect(round1[2]).toMatchObject({ players: ['u2', null], isBye: true, winnerId: 'u2' });
+      expect(round2[0].players).toEqual(['u1', null]);
+    });
+
+    it('advances match winners into the next round', () => {
+      const [, round2, final] = resolveBracket(8, seeded(8), [
+        ...firstRound({ 1: { winnerId: 'u5' } }),
+        bracketMatch(2, 0, 'u1', 'u5', { status: MatchStatus.active, winnerId: null }),
+      ]);
+
+      expect(round2[0]).toMatchObject({ players: ['u1', 'u5'], winnerId: null, loserId: null });
+      expect(round2[1].players).toEqual(['u2', 'u3']);
+      expect(final[0].players).toEqual([null, null]);
+    });
+
+    it('advances the better seed on a draw, void or double forfeit', () => {
+      const [round1] = resolveBracket(
+        8,
+        seeded(8),
+        firstRound({
+          0: { status: MatchStatus.draw, winnerId: null },
+          1: { status: MatchStatus.voided, winnerId: null },
+          2: { status: MatchStatus.cancelled, winnerId: null, creatorId: 'u7', opponentId: 'u2' },
+        })
+      );
+
+      expect(round1[0]).toMatchObject({ winnerId: 'u1', loserId: 'u8' });
+      expect(round1[1]).toMatchObject({ winnerId: 'u4', loserId: 'u5' });
+      expect(round1[2]).toMatchObject({ winnerId: 'u2', loserId: 'u7' });
+    });
+  });
+
+  // ===========================================
+  // Payouts
+  // ===========================================
+
+  describe('calculateTournamentPayouts', () => {
+    it('splits each tier evenly and pays the whole pool', () => {
+      const payouts = calculateTournamentPayouts(BigInt(7600), [60, 30, 10], [
+        { userId: 'u2', tier: 0 },
+        { userId: 'u1', tier: 1 },
+        { userId: 'u3', tier: 2 },
+        { userId: 'u4', tier: 2 },
+        { userId: 'u5', tier: 3 },
+      ]);
+
+      expect(payouts.get('u2')).toBe(BigInt(4560));
+      expect(payouts.get('u1')).toBe(BigInt(2280));
+      expect(payouts.get('u3')).toBe(BigInt(380));
+      expect(payouts.get('u4')).toBe(BigInt(380));
+      expect(payouts.get('u5')).toBe(BigInt(0));
+    });
+
+    it('gives rounding remainders to the champion', () => {
+      const payouts = calculateTournamentPayouts(BigInt(1001), [60, 30, 10], [
+        { userId: 'u1', tier: 0 },
+        { userId: 'u2', tier: 1 },
+        { userId: 'u3', tier: 2 },
+        { userId: 'u4', tier: 2 },
+      ]);
+
+      const total = [...payouts.values()].reduce((sum, amount) => sum + amount, BigInt(0));
+      expect(total).toBe(BigInt(1001));
+      expect(payouts.get('u3')).toBe(BigInt(50));
+      expect(payouts.get('u1')).toBe(BigInt(601));
+    });
+
+    it('rounds rake up and reports tier positions', () => {
+      expect(calculateTournamentRake(BigInt(8100), 5)).toBe(BigInt(405));
+      expect(calculateTournamentRake(BigInt(8001), 5)).toBe(BigInt(401));
+      expect([0, 1, 2, 3, 4].map(getTierFinishingPosition)).toEqual([1, 2, 3, 5, 9]);
+    });
+  });
+
+  // ===========================================
+  // Registration
+  // ===========================================
+
+  describe('registerForTournament', () => {
+    const openTournament = {
+      name: 'Spring Showdown',
+      size: 8,
+      status: 'REGISTRATION',
+      entryFee: BigInt(1000),
+      startsAt: new Date(Date.now() + 60 * 60 * 1000),
+      rounds: [{ eventIds: [ROUND_1_EVENT] }],
+      entries: [],
+    };
+
+    beforeEach(() => {
+      mocks.slipFindFirst.mockResolvedValue({
+        status: 'DRAFT',
+        picks: [{ sportsEventId: ROUND_1_EVENT }],
+      });
+    });
+
+    it('claims a spot, debits the entry fee and locks the slip', async () => {
+      mocks.tournamentFindUnique
+        .mockResolvedValueOnce(openTournament)
+        .mockResolvedValue(tournamentDetailsRecord());
+
+      const details = await registerForTournament(TOURNAMENT_ID, 'u1', { slipId: 'slip-1' });
+
+      expect(details.myEntry).toMatchObject({ status: 'REGISTERED', needsSlip: false });
+
+      expect(mocks.tournamentUpdateMany).toHaveBeenCalledWith({
+        where: { id: TOURNAMENT_ID, status: 'REGISTRATION', entrantCount: { lt: 8 } },
+        data: { entrantCount: { increment: 1 }, prizePool: { increment: BigInt(1000) } },
+      });
+      expect(mocks.debitWallet).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'u1',
+          amount: BigInt(1000),
+          type: 'MATCH_ENTRY',
+          idempotencyKey: `tournament-entry-${TOURNAMENT_ID}-u1`,
+        })
+      );
+      expect(mocks.slipUpdate).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: 'PENDING' }) })
+      );
+      expect(mocks.entryCreate).toHaveBeenCalledWith({
+        data: { tournamentId: TOURNAMENT_ID, userId: 'u1', slipId: 'slip-1', entryTxId: 'entry-tx' },
+      });
+    });
+
+    it('rejects a full bracket without charging', async () => {
+      mocks.tournamentFindUnique.mockResolvedValueOnce(openTournament);
+      mocks.tournamentUpdateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        registerForTournament(TOURNAMENT_ID, 'u1', { slipId: 'slip-1' })
+      ).rejects.toThrow(ConflictError);
+      expect(mocks.debitWallet).not.toHaveBeenCalled();
+    });
+
+    it('rejects picks outside the round 1 slate', async () => {
+      mocks.tournamentFindUnique.mockResolvedValueOnce(openTournament);
+      mocks.slipFindFirst.mockResolvedValueOnce({
+        status: 'DRAFT',
+        picks: [{ sportsEventId: ROUND_1_EVENT }, { sportsEventId: 'event-elsewhere' }],
+      });
+
+      await expect(
+        registerForTournament(TOURNAMENT_ID, 'u1', { slipId: 'slip-1' })
+      ).rejects.toThrow(BadRequestError);
+      expect(mocks.tournamentUpdateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects registration once the tournament has started', async () => {
+      mocks.tournamentFindUnique.mockResolvedValueOnce({ ...openTournament, status: 'IN_PROGRESS' });
+
+      await expect(
+        registerForTournament(TOURNAMENT_ID, 'u1', { slipId: 'slip-1' })
+      ).rejects.toThrow('closed');
+    });
+
+    it('rejects a second entry from the same user', async () => {
+      mocks.tournamentFindUnique.mockResolvedValueOnce({ ...openTournament, entries: [{ id: 'e1' }] });
+
+      await expect(
+        registerForTournament(TOURNAMENT_ID, 'u1', { slipId: 'slip-1' })
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  // ===========================================
+  // Starting
+  // ===========================================
+
+  describe('processDueTournaments - start', () => {
+    function registration(count: number) {
+      return {
+        size: 8,
+        status: 'REGISTRATION',
+        startsAt: NOW,
+        // Registered in reverse rating order, so seeding must re-sort
+        entries: PLAYERS.slice(0, count)
+          .reverse()
+          .map((userId, i) => ({
+            id: `entry-${userId}`,
+            userId,
+            slipId: `slip-${userId}`,
+            entryTxId: `tx-${userId}`,
+            createdAt: new Date(NOW.getTime() - (count - i) * 1000),
+            user: { skillRating: 2000 - Number(userId.slice(1)) * 10 },
+          })),
+      };
+    }
+
+    beforeEach(() => {
+      mocks.tournamentFindMany
+        .mockResolvedValueOnce([{ id: TOURNAMENT_ID }]) // Due to start
+        .mockResolvedValueOnce([]) // In progress
+        .mockResolvedValueOnce([]); // Unpaid
+    });
+
+    it('seeds by rating and creates locked round 1 matches around byes', async () => {
+      mocks.tournamentFindUnique.mockResolvedValueOnce(registration(6));
+
+      expect(await processDueTournaments(NOW)).toBe(1);
+
+      expect(mocks.entryUpdate).toHaveBeenCalledWith({
+        where: { id: 'entry-u1' },
+        data: { seed: 1, status: 'ACTIVE' },
+      });
+      expect(mocks.matchCreate).toHaveBeenCalledTimes(2);
+      expect(mocks.matchCreate.mock.calls.map(([args]) => args.data)).toEqual([
+        expect.objectContaining({
+          creatorId: 'u4',
+          opponentId: 'u5',
+          status: 'locked',
+          stakeAmount: BigInt(0),
+          gameMode: 'TOURNAMENT',
+          matchAttemptKey: `tournament-${TOURNAMENT_ID}-r1-s1`,
+        }),
+        expect.objectContaining({ creatorId: 'u3', opponentId: 'u6', bracketSlot: 3 }),
+      ]);
+      // Byes for seeds 1 and 2 get their round 1 slips back
+      expect(mocks.slipUpdate).toHaveBeenCalledWith({
+        where: { id: 'slip-u1' },
+        data: { status: 'DRAFT', lockedAt: null },
+      });
+      expect(mocks.slipUpdate).toHaveBeenCalledWith({
+        where: { id: 'slip-u2' },
+        data: { status: 'DRAFT', lockedAt: null },
+      });
+    });
+
+    it('cancels and refunds when half the bracket or fewer registered', async () => {
+      const tournament = registration(4);
+      mocks.tournamentFindUnique.mockResolvedValueOnce(tournament);
+      mocks.entryFindMany.mockResolvedValueOnce(tournament.entries);
+
+      expect(await processDueTournaments(NOW)).toBe(0);
+
+      expect(mocks.tournamentUpdateMany).toHaveBeenCalledWith({
+        where: { id: TOURNAMENT_ID, status: 'REGISTRATION' },
+        data: expect.objectContaining({ status: 'CANCELLED', cancelReason: 'Not enough entrants' }),
+      });
+      expect(mocks.matchCreate).not.toHaveBeenCalled();
+      expect(mocks.processRefund).toHaveBeenCalledTimes(4);
+      expect(mocks.processRefund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          originalTransactionId: 'tx-u1',
+          idempotencyKey: 'tournament-entry-refund-entry-u1',
+        })
+      );
+    });
+  });
+
+  // ===========================================
+  // Advancement
+  // ===========================================
+
+  describe('advanceTournament', () => {
+    function inProgress(matches: unknown[], currentRound = 1) {
+      return {
+        size: 8,
+        status: 'IN_PROGRESS',
+        totalRounds: 3,
+        currentRound,
+        rounds: PAST_ROUNDS,
+        entries: seeded(8),
+        matches,
+      };
+    }
+
+    it('eliminates losers and opens the next match once both feeders are decided', async () => {
+      mocks.tournamentFindUnique.mockResolvedValueOnce(
+        inProgress(
+          firstRound({
+            2: { status: MatchStatus.active, winnerId: null },
+            3: { status: MatchStatus.active, winnerId: null },
+          })
+        )
+      );
+
+      expect(await advanceTournament(TOURNAMENT_ID, NOW)).toBe(true);
+
+      expect(mocks.entryUpdateMany).toHaveBeenCalledWith({
+        where: { tournamentId: TOURNAMENT_ID, userId: 'u8', status: 'ACTIVE' },
+        data: { status: 'ELIMINATED', eliminatedRound: 1 },
+      });
+      expect(mocks.matchCreate).toHaveBeenCalledTimes(1);
+      expect(mocks.matchCreate).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          creatorId: 'u1',
+          opponentId: 'u4',
+          status: 'matched',
+          tournamentRound: 2,
+          bracketSlot: 0,
+          slipDeadlineAt: PAST_ROUNDS[1].locksAt,
+        }),
+      });
+      expect(mocks.tournamentUpdate).toHaveBeenCalledWith({
+        where: { id: TOURNAMENT_ID },
+        data: { currentRound: 2 },
+      });
+    });
+
+    it('forfeits a match missing a slip once its round locks', async () => {
+      const lateMatch = bracketMatch(2, 0, 'u1', 'u4', {
+        status: MatchStatus.matched,
+        winnerId: null,
+        opponentSlipId: null,
+      });
+      mocks.tournamentFindUnique.mockResolvedValueOnce(
+        inProgress([...firstRound(), lateMatch], 2)
+      );
+      mocks.matchFindMany.mockResolvedValueOnce([
+        ...firstRound(),
+        { ...lateMatch, status: MatchStatus.settled, winnerId: 'u1' },
+      ]);
+
+      await advanceTournament(TOURNAMENT_ID, new Date('2026-05-02T19:00:00Z'));
+
+      expect(mocks.matchUpdateMany).toHaveBeenCalledWith({
+        where: { id: lateMatch.id, status: 'matched' },
+        data: expect.objectContaining({
+          status: 'settled',
+          winnerId: 'u1',
+          settlementMethod: 'FORFEIT',
+        }),
+      });
+      expect(mocks.slipUpdateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['slip-u1-r2'] } },
+        data: { status: 'VOID' },
+      });
+    });
+
+    it('completes the tournament and pays prizes after the final', async () => {
+      const matches = [
+        ...firstRound(),
+        bracketMatch(2, 0, 'u1', 'u4'),
+        bracketMatch(2, 1, 'u2', 'u3'),
+        bracketMatch(3, 0, 'u1', 'u2', { winnerId: 'u2' }),
+      ];
+      const placed = [
+        { id: 'entry-u1', userId: 'u1', eliminatedRound: 3 },
+        { id: 'entry-u2', userId: 'u2', eliminatedRound: null },
+        { id: 'entry-u3', userId: 'u3', eliminatedRound: 2 },
+        { id: 'entry-u4', userId: 'u4', eliminatedRound: 2 },
+        ...['u5', 'u6', 'u7', 'u8'].map((userId) => ({
+          id: `entry-${userId}`,
+          userId,
+          eliminatedRound: 1,
+        })),
+      ];
+
+      mocks.tournamentFindUnique
+        .mockResolvedValueOnce(inProgress(matches, 3))
+        .mockResolvedValueOnce({
+          prizePool: BigInt(8000),
+          rakePercentage: 5,
+          payoutStructure: [60, 30, 10],
+          totalRounds: 3,
+          entries: placed,
+        })
+        .mockResolvedValueOnce({
+          name: 'Spring Showdown',
+          status: 'COMPLETED',
+          totalRounds: 3,
+          rakeAmount: BigInt(400),
+          rakeTxId: null,
+          matches: [{ id: 'match-r3-s0', tournamentRound: 3 }],
+          entries: [
+            { id: 'entry-u2', userId: 'u2', payoutAmount: BigInt(4560), finalPosition: 1 },
+            { id: 'entry-u1', userId: 'u1', payoutAmount: BigInt(2280), finalPosition: 2 },
+          ],
+        });
+
+      expect(await advanceTournament(TOURNAMENT_ID, NOW)).toBe(true);
+
+      expect(mocks.tournamentUpdateMany).toHaveBeenCalledWith({
+        where: { id: TOURNAMENT_ID, status: 'IN_PROGRESS' },
+        data: expect.objectContaining({
+          status: 'COMPLETED',
+          championId: 'u2',
+          rakeAmount: BigInt(400),
+        }),
+      });
+      expect(mocks.entryUpdate).toHaveBeenCalledWith({
+        where: { id: 'entry-u2' },
+        data: { finalPosition: 1, payoutAmount: BigInt(4560), status: 'CHAMPION' },
+      });
+      expect(mocks.entryUpdate).toHaveBeenCalledWith({
+        where: { id: 'entry-u3' },
+        data: { finalPosition: 3, payoutAmount: BigInt(380) },
+      });
+      expect(mocks.entryUpdate).toHaveBeenCalledWith({
+        where: { id: 'entry-u5' },
+        data: { finalPosition: 5, payoutAmount: null },
+      });
+      expect(mocks.creditWallet).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'u2',
+          amount: BigInt(4560),
+          type: 'MATCH_WIN',
+          matchId: 'match-r3-s0',
+          idempotencyKey: `tournament-payout-${TOURNAMENT_ID}-u2`,
+        })
+      );
+      expect(mocks.entryUpdate).toHaveBeenCalledWith({
+        where: { id: 'entry-u2' },
+        data: { payoutTxId: 'payout-u2' },
+      });
+      expect(mocks.creditWallet).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'house-user',
+          amount: BigInt(400),
+          type: 'RAKE_FEE',
+          matchId: 'match-r3-s0',
+          idempotencyKey: `tournament-rake-${TOURNAMENT_ID}`,
+        })
+      );
+      expect(mocks.tournamentUpdate).toHaveBeenCalledWith({
+        where: { id: TOURNAMENT_ID },
+        data: { rakeTxId: 'payout-house-user' },
+      });
+    });
+
+    it('does nothing for a tournament that is not in progress', async () => {
+      mocks.tournamentFindUnique.mockResolvedValueOnce({ ...inProgress([]), status: 'COMPLETED' });
+
+      expect(await advanceTournament(TOURNAMENT_ID, NOW)).toBe(false);
+      expect(mocks.matchCreate).not.toHaveBeenCalled();
+    });
+  });
+});
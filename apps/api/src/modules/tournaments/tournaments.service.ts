@@ -0,0 +1,1776 @@
+// =====================================================
+// Tournaments Service
+// =====================================================
+// Admin-scheduled single-elimination brackets (8, 16 or 32 entrants).
+//
+// Each round has its own slice of the event slate. Players register
+// with a round 1 slip and pay the entry fee into the prize pool. When
+// registration closes the field is seeded by skill rating and round 1
+// matches are created with both slips already in; top seeds get byes
+// when the bracket isn't full. Later rounds open as soon as both feeder
+// matches are decided, and each player submits a slip for that round's
+// slate before it locks.
+//
+// Bracket matches are ordinary zero-stake matches, so they settle
+// through settleMatch like any other. Settlement calls advanceTournament,
+// which moves winners on (the better seed advances on a draw, void or
+// double forfeit), eliminates losers and, after the final, pays the
+// prize pool out by finishing tier. The tournament scheduler runs the
+// same step periodically to forfeit missed slip deadlines and to retry
+// anything a failed settlement hook left behind.
+
+import {
+  EventStatus,
+  GameMode,
+  MatchStatus,
+  Prisma,
+  SlipStatus,
+  TournamentEntryStatus,
+  TournamentStatus,
+} from '@prisma/client';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+import { prisma } from '../../lib/prisma';
+import { creditWallet, debitWallet, processRefund, HOUSE_USER_ID } from '../../lib/wallet.service';
+import { recordAdminAction, AdminActionContext } from '../../services/admin-audit.service';
+import { broadcastTournamentUpdateSync } from '../../services/live-scores/live-scores.broadcaster';
+import type { TournamentUpdateReason } from '../../socket/socket.types';
+import { logger } from '../../utils/logger';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../../utils/errors';
+import {
+  BracketPlayer,
+  CreateTournamentInput,
+  RegisterTournamentInput,
+  SubmitTournamentSlipInput,
+  TournamentBracketRound,
+  TournamentDetails,
+  TournamentListQuery,
+  TournamentMyEntry,
+  TournamentPayoutTier,
+  TournamentSummary,
+} from './tournaments.schemas';
+
+// ===========================================
+// Constants
+// ===========================================
+
+const TRANSACTION_TIMEOUT = 15000; // 15 seconds
+const MAX_TOURNAMENTS_PER_RUN = 20;
+const MAX_TOURNAMENTS_LISTED = 50;
+
+/** Registration closes this long before round 1's first event */
+export const REGISTRATION_CLOSE_LEAD_MS = 15 * 60 * 1000;
+
+/** Percent of the net pool per finishing tier (1st, 2nd, 3rd-4th, 5th-8th, 9th-16th) */
+export const DEFAULT_PAYOUT_STRUCTURES: Record<number, number[]> = {
+  8: [60, 30, 10],
+  16: [50, 25, 15, 10],
+  32: [45, 22, 14, 11, 8],
+};
+
+/** Match statuses that settle a bracket slot */
+const DECIDED_MATCH_STATUSES: MatchStatus[] = [
+  MatchStatus.settled,
+  MatchStatus.draw,
+  MatchStatus.voided,
+  MatchStatus.cancelled,
+];
+
+const OPEN_MATCH_STATUSES: MatchStatus[] = [
+  MatchStatus.matched,
+  MatchStatus.locked,
+  MatchStatus.active,
+];
+
+const TOURNAMENT_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  size: true,
+  entryFee: true,
+  rakePercentage: true,
+  entrantCount: true,
+  prizePool: true,
+  totalRounds: true,
+  currentRound: true,
+  status: true,
+  startsAt: true,
+  completedAt: true,
+  championId: true,
+} as const;
+
+type TournamentSummaryRecord = Prisma.TournamentGetPayload<{
+  select: typeof TOURNAMENT_SUMMARY_SELECT;
+}>;
+
+const BRACKET_MATCH_SELECT = {
+  id: true,
+  status: true,
+  tournamentRound: true,
+  bracketSlot: true,
+  creatorId: true,
+  opponentId: true,
+  winnerId: true,
+  creatorSlipId: true,
+  opponentSlipId: true,
+  creatorPoints: true,
+  opponentPoints: true,
+} as const;
+
+type BracketMatchRecord = Prisma.MatchGetPayload<{ select: typeof BRACKET_MATCH_SELECT }>;
+
+const TOURNAMENT_DETAILS_SELECT = {
+  ...TOURNAMENT_SUMMARY_SELECT,
+  payoutStructure: true,
+  rounds: {
+    select: { round: true, eventIds: true, locksAt: true },
+    orderBy: { round: 'asc' },
+  },
+  entries: {
+    where: { status: { not: TournamentEntryStatus.REFUNDED } },
+    select: {
+      userId: true,
+      seed: true,
+      status: true,
+      eliminatedRound: true,
+      finalPosition: true,
+      payoutAmount: true,
+      user: { select: { username: true, avatarUrl: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+  matches: { select: BRACKET_MATCH_SELECT },
+} as const;
+
+type TournamentDetailsRecord = Prisma.TournamentGetPayload<{
+  select: typeof TOURNAMENT_DETAILS_SELECT;
+}>;
+
+const REFUNDABLE_ENTRY_SELECT = {
+  id: true,
+  userId: true,
+  slipId: true,
+  entryTxId: true,
+} as const;
+
+type RefundableEntry = Prisma.TournamentEntryGetPayload<{
+  select: typeof REFUNDABLE_ENTRY_SELECT;
+}>;
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface CreateTournamentParams extends AdminActionContext, CreateTournamentInput {}
+
+export interface CancelTournamentParams extends AdminActionContext {
+  tournamentId: string;
+  reason: string;
+}
+
+/** Entrant as needed to lay out the bracket */
+export interface SeededEntrant {
+  userId: string;
+  seed: number | null;
+}
+
+/** Bracket match as needed to lay out the bracket */
+export interface BracketMatchState {
+  status: MatchStatus;
+  tournamentRound: number | null;
+  bracketSlot: number | null;
+  creatorId: string;
+  opponentId: string | null;
+  winnerId: string | null;
+}
+
+/** One position in the bracket, resolved from seeds and match results */
+export interface BracketSlot<M extends BracketMatchState = BracketMatchState> {
+  round: number;
+  slot: number;
+  /** [creator, opponent]; null while a feeder is undecided or for a bye */
+  players: [string | null, string | null];
+  match: M | null;
+  /** Player advancing from this slot, once decided */
+  winnerId: string | null;
+  /** Player knocked out in this slot, once decided */
+  loserId: string | null;
+  isBye: boolean;
+}
+
+/** Finishing tier: 0 = champion, 1 = runner-up, 2 = semifinal losers ... */
+export interface TournamentPlacement {
+  userId: string;
+  tier: number;
+}
+
+// ===========================================
+// Bracket Helpers
+// ===========================================
+
+/**
+ * Number of rounds in a single-elimination bracket.
+ */
+export function getTournamentRoundCount(size: number): number {
+  return Math.log2(size);
+}
+
+/**
+ * Display name for a round, counted back from the final.
+ */
+export function getRoundName(round: number, totalRounds: number): string {
+  const remaining = totalRounds - round;
+  if (remaining === 0) return 'Final';
+  if (remaining === 1) return 'Semifinals';
+  if (remaining === 2) return 'Quarterfinals';
+  return `Round of ${2 ** (remaining + 1)}`;
+}
+
+/**
+ * Seeds in bracket order: slot i of round 1 is seeds[2i] vs seeds[2i + 1].
+ * Built so the top two seeds can only meet in the final, the top four
+ * only from the semifinals on, and so on (size 8: 1 v 8, 4 v 5, 2 v 7, 3 v 6).
+ */
+export function buildBracketSeedOrder(size: number): number[] {
+  let order = [1];
+
+  while (order.length < size) {
+    const total = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, total - seed]);
+  }
+
+  return order;
+}
+
+/**
+ * Player advancing from a decided bracket match.
+ * The winner as settled (including determineMatchWinner's tiebreaks);
+ * when there is none - a true draw, a void or a double forfeit - the
+ * better seed advances.
+ *
+ * @returns Advancing user ID, or null while the match is undecided
+ */
+export function resolveBracketWinner(
+  match: BracketMatchState,
+  seedByUser: Map<string, number | null>
+): string | null {
+  if (!DECIDED_MATCH_STATUSES.includes(match.status)) {
+    return null;
+  }
+
+  if (match.winnerId) {
+    return match.winnerId;
+  }
+
+  if (!match.opponentId) {
+    return match.creatorId;
+  }
+
+  const creatorSeed = seedByUser.get(match.creatorId) ?? Number.MAX_SAFE_INTEGER;
+  const opponentSeed = seedByUser.get(match.opponentId) ?? Number.MAX_SAFE_INTEGER;
+  return creatorSeed <= opponentSeed ? match.creatorId : match.opponentId;
+}
+
+/**
+ * Lays out the whole bracket from entrant seeds and the matches played so far.
+ * Round 1 players come from the seed order; every later slot takes the
+ * winners of slots 2j and 2j + 1 of the previous round. A round 1 slot
+ * with only one seeded player is a bye.
+ *
+ * @returns Slots per round, round 1 first
+ */
+export function resolveBracket<M extends BracketMatchState>(
+  size: number,
+  entrants: SeededEntrant[],
+  matches: M[]
+): BracketSlot<M>[][] {
+  const totalRounds = getTournamentRoundCount(size);
+  const seedOrder = buildBracketSeedOrder(size);
+  const seedByUser = new Map(entrants.map((entrant) => [entrant.userId, entrant.seed]));
+  const userBySeed = new Map(
+    entrants
+      .filter((entrant) => entrant.seed !== null)
+      .map((entrant) => [entrant.seed as number, entrant.userId])
+  );
+  const matchBySlot = new Map(
+    matches.map((match) => [`${match.tournamentRound}:${match.bracketSlot}`, match])
+  );
+
+  const rounds: BracketSlot<M>[][] = [];
+
+  for (let round = 1; round <= totalRounds; round++) {
+    const slots: BracketSlot<M>[] = [];
+
+    for (let slot = 0; slot < size / 2 ** round; slot++) {
+      const match = matchBySlot.get(`${round}:${slot}`) ?? null;
+      let players: [string | null, string | null];
+
+      if (match) {
+        players = [match.creatorId, match.opponentId];
+      } else if (round === 1) {
+        players = [
+          userBySeed.get(seedOrder[slot * 2]) ?? null,
+          userBySeed.get(seedOrder[slot * 2 + 1]) ?? null,
+        ];
+      } else {
+        const feeders = rounds[round - 2];
+        players = [feeders[slot * 2].winnerId, feeders[slot * 2 + 1].winnerId];
+      }
+
+      const isBye = !match && round === 1 && (players[0] === null) !== (players[1] === null);
+      let winnerId: string | null = null;
+      let loserId: string | null = null;
+
+      if (match) {
+        winnerId = resolveBracketWinner(match, seedByUser);
+        if (winnerId) {
+          loserId = winnerId === match.creatorId ? match.opponentId : match.creatorId;
+        }
+      } else if (isBye) {
+        winnerId = players[0] ?? players[1];
+      }
+
+      slots.push({ round, slot, players, match, winnerId, loserId, isBye });
+    }
+
+    rounds.push(slots);
+  }
+
+  return rounds;
+}
+
+// ===========================================
+// Payout Helpers
+// ===========================================
+
+/**
+ * Finishing tier for a player knocked out in a round.
+ * Losing the final is tier 1, the semifinals tier 2, and so on.
+ */
+export function getPlacementTier(eliminatedRound: number, totalRounds: number): number {
+  return totalRounds - eliminatedRound + 1;
+}
+
+/**
+ * Best finishing position in a tier (1, 2, 3, 5, 9, 17).
+ */
+export function getTierFinishingPosition(tier: number): number {
+  return tier === 0 ? 1 : 2 ** (tier - 1) + 1;
+}
+
+/**
+ * House cut of the prize pool, rounded up like match rake.
+ */
+export function calculateTournamentRake(prizePool: bigint, rakePercentage: number): bigint {
+  const rakeMultiplier = BigInt(Math.round(rakePercentage * 100));
+  return (prizePool * rakeMultiplier + BigInt(9999)) / BigInt(10000);
+}
+
+/**
+ * Splits the net prize pool across finishing tiers.
+ * Each tier's share is divided evenly among the players actually in it
+ * (byes can leave the last tier short). Rounding remainders and the
+ * share of any empty tier go to the champion, so the whole pool is paid.
+ *
+ * @param netPool - Prize pool after rake
+ * @param payoutStructure - Percent of the pool per tier, tier 0 first
+ * @param placements - Every entrant's finishing tier
+ * @returns Payout per user ID (0 for unpaid tiers)
+ */
+export function calculateTournamentPayouts(
+  netPool: bigint,
+  payoutStructure: number[],
+  placements: TournamentPlacement[]
+): Map<string, bigint> {
+  const payouts = new Map(placements.map((placement) => [placement.userId, BigInt(0)]));
+  let distributed = BigInt(0);
+
+  payoutStructure.forEach((percent, tier) => {
+    const players = placements.filter((placement) => placement.tier === tier);
+    if (players.length === 0 || percent === 0) return;
+
+    const share = (netPool * BigInt(percent)) / BigInt(100) / BigInt(players.length);
+    for (const player of players) {
+      payouts.set(player.userId, (payouts.get(player.userId) as bigint) + share);
+      distributed += share;
+    }
+  });
+
+  const champion = placements.find((placement) => placement.tier === 0);
+  if (champion) {
+    payouts.set(
+      champion.userId,
+      (payouts.get(champion.userId) as bigint) + netPool - distributed
+    );
+  }
+
+  return payouts;
+}
+
+/**
+ * Payout tiers for display.
+ */
+export function buildPayoutTiers(payoutStructure: number[]): TournamentPayoutTier[] {
+  return payoutStructure.map((percent, tier) => ({
+    position: getTierFinishingPosition(tier),
+    players: tier === 0 ? 1 : 2 ** (tier - 1),
+    percent,
+  }));
+}
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+function transformTournamentSummary(tournament: TournamentSummaryRecord): TournamentSummary {
+  return {
+    id: tournament.id,
+    name: tournament.name,
+    size: tournament.size,
+    entryFee: Number(tournament.entryFee),
+    rakePercentage: Number(tournament.rakePercentage),
+    entrantCount: tournament.entrantCount,
+    prizePool: Number(tournament.prizePool),
+    totalRounds: tournament.totalRounds,
+    currentRound: tournament.currentRound,
+    status: tournament.status,
+    startsAt: tournament.startsAt,
+    completedAt: tournament.completedAt,
+    championId: tournament.championId,
+  };
+}
+
+function buildBracketView(tournament: TournamentDetailsRecord): TournamentBracketRound[] {
+  const entrantsById = new Map(tournament.entries.map((entry) => [entry.userId, entry]));
+
+  const toBracketPlayer = (userId: string | null): BracketPlayer | null => {
+    const entry = userId ? entrantsById.get(userId) : undefined;
+    if (!userId || !entry) return null;
+    return {
+      userId,
+      username: entry.user.username,
+      avatarUrl: entry.user.avatarUrl,
+      seed: entry.seed ?? 0,
+    };
+  };
+
+  return resolveBracket(tournament.size, tournament.entries, tournament.matches).map(
+    (slots, index) => ({
+      round: index + 1,
+      name: getRoundName(index + 1, tournament.totalRounds),
+      matches: slots.map((slot) => ({
+        round: slot.round,
+        slot: slot.slot,
+        matchId: slot.match?.id ?? null,
+        status: slot.match?.status ?? null,
+        creator: toBracketPlayer(slot.players[0]),
+        opponent: toBracketPlayer(slot.players[1]),
+        creatorPoints: slot.match ? Number(slot.match.creatorPoints) : null,
+        opponentPoints: slot.match ? Number(slot.match.opponentPoints) : null,
+        winnerId: slot.winnerId,
+        isBye: slot.isBye,
+      })),
+    })
+  );
+}
+
+function buildMyEntry(
+  tournament: TournamentDetailsRecord,
+  viewerId: string | null
+): TournamentMyEntry | null {
+  const entry = viewerId
+    ? tournament.entries.find((candidate) => candidate.userId === viewerId)
+    : undefined;
+
+  if (!entry) {
+    return null;
+  }
+
+  const openMatch = tournament.matches.find(
+    (match) =>
+      OPEN_MATCH_STATUSES.includes(match.status) &&
+      (match.creatorId === viewerId || match.opponentId === viewerId)
+  );
+  const needsSlip =
+    !!openMatch &&
+    openMatch.status === MatchStatus.matched &&
+    !(openMatch.creatorId === viewerId ? openMatch.creatorSlipId : openMatch.opponentSlipId);
+  const openRound = openMatch
+    ? tournament.rounds.find((round) => round.round === openMatch.tournamentRound)
+    : undefined;
+
+  return {
+    status: entry.status,
+    seed: entry.seed,
+    openMatchId: openMatch?.id ?? null,
+    needsSlip,
+    slipDueAt: needsSlip && openRound ? openRound.locksAt : null,
+    finalPosition: entry.finalPosition,
+    payoutAmount: entry.payoutAmount !== null ? Number(entry.payoutAmount) : null,
+  };
+}
+
+function transformTournamentDetails(
+  tournament: TournamentDetailsRecord,
+  viewerId: string | null
+): TournamentDetails {
+  return {
+    ...transformTournamentSummary(tournament),
+    rounds: tournament.rounds.map((round) => ({
+      round: round.round,
+      name: getRoundName(round.round, tournament.totalRounds),
+      eventIds: round.eventIds,
+      locksAt: round.locksAt,
+    })),
+    payouts: buildPayoutTiers(tournament.payoutStructure as number[]),
+    bracket: buildBracketView(tournament),
+    // Seed order once the bracket starts, registration order before
+    entrants: [...tournament.entries]
+      .sort((a, b) => (a.seed ?? Number.MAX_SAFE_INTEGER) - (b.seed ?? Number.MAX_SAFE_INTEGER))
+      .map((entry) => ({
+      userId: entry.userId,
+      username: entry.user.username,
+      avatarUrl: entry.user.avatarUrl,
+      seed: entry.seed,
+      status: entry.status,
+      eliminatedRound: entry.eliminatedRound,
+      finalPosition: entry.finalPosition,
+      payoutAmount: entry.payoutAmount !== null ? Number(entry.payoutAmount) : null,
+    })),
+    myEntry: buildMyEntry(tournament, viewerId),
+  };
+}
+
+/**
+ * Broadcasts the current bracket. Never throws - notification failures
+ * must not surface to the caller.
+ *
+ * @param userIds - Players to notify directly (e.g. a new match needs their slip)
+ */
+async function notifyTournamentUpdated(
+  tournamentId: string,
+  reason: TournamentUpdateReason,
+  userIds: string[] = []
+): Promise<void> {
+  try {
+    const tournament = await prisma.tournament.findUnique({
+      where: { id: tournamentId },
+      select: TOURNAMENT_DETAILS_SELECT,
+    });
+    if (!tournament) return;
+
+    broadcastTournamentUpdateSync(
+      {
+        tournamentId,
+        status: tournament.status,
+        currentRound: tournament.currentRound,
+        entrantCount: tournament.entrantCount,
+        reason,
+        bracket: buildBracketView(tournament),
+        timestamp: new Date().toISOString(),
+      },
+      userIds
+    );
+  } catch (error) {
+    logger.error(`[TournamentService] Failed to broadcast update for ${tournamentId}:`, error);
+  }
+}
+
+/**
+ * Validates a DRAFT slip for a tournament round: owned by the user,
+ * has picks, and every pick is on that round's slate.
+ *
+ * @throws {NotFoundError} Slip not found
+ * @throws {ForbiddenError} Slip is not a DRAFT
+ * @throws {BadRequestError} Empty slip or picks off the round's slate
+ */
+async function validateTournamentSlip(
+  tx: Prisma.TransactionClient,
+  slipId: string,
+  userId: string,
+  eventIds: string[]
+): Promise<void> {
+  const slip = await tx.slip.findFirst({
+    where: { id: slipId, userId },
+    select: { status: true, picks: { select: { sportsEventId: true } } },
+  });
+
+  if (!slip) {
+    throw new NotFoundError(`Slip with ID ${slipId} not found`, ERROR_CODES.SLIP_NOT_FOUND);
+  }
+
+  if (slip.status !== SlipStatus.DRAFT) {
+    throw new ForbiddenError(
+      `Slip is already locked with status '${slip.status}'`,
+      ERROR_CODES.SLIP_ALREADY_LOCKED
+    );
+  }
+
+  if (slip.picks.length === 0) {
+    throw new BadRequestError('Cannot submit a slip with no picks', ERROR_CODES.INVALID_PICK_COUNT);
+  }
+
+  const slate = new Set(eventIds);
+  if (slip.picks.some((pick) => !slate.has(pick.sportsEventId))) {
+    throw new BadRequestError(
+      "Every pick must be on this round's event slate",
+      ERROR_CODES.TOURNAMENT_SLIP_OFF_SLATE
+    );
+  }
+}
+
+/**
+ * Marks registered entries REFUNDED and returns their slips to DRAFT.
+ * Returns the entries actually released, which are owed a refund.
+ */
+async function releaseTournamentEntries(
+  tx: Prisma.TransactionClient,
+  entries: RefundableEntry[]
+): Promise<RefundableEntry[]> {
+  const released: RefundableEntry[] = [];
+
+  for (const entry of entries) {
+    const { count } = await tx.tournamentEntry.updateMany({
+      where: { id: entry.id, status: TournamentEntryStatus.REGISTERED },
+      data: { status: TournamentEntryStatus.REFUNDED },
+    });
+    if (count === 0) continue;
+
+    await tx.slip.update({
+      where: { id: entry.slipId },
+      data: { status: SlipStatus.DRAFT, lockedAt: null },
+    });
+    released.push(entry);
+  }
+
+  return released;
+}
+
+/**
+ * Refunds the entry fees of released entries.
+ * Failures are logged, not thrown - the entries are already released.
+ */
+async function refundTournamentEntries(
+  entries: RefundableEntry[],
+  description: string
+): Promise<void> {
+  for (const entry of entries) {
+    try {
+      await processRefund({
+        originalTransactionId: entry.entryTxId,
+        idempotencyKey: `tournament-entry-refund-${entry.id}`,
+        description,
+      });
+    } catch (refundError) {
+      logger.error(
+        `[TournamentService] Failed to refund tournament entry ${entry.id} for user ${entry.userId}:`,
+        refundError
+      );
+    }
+  }
+}
+
+/**
+ * Cancels a tournament still in registration and releases its entries.
+ * Refunds are left to the caller, after the transaction commits.
+ *
+ * @returns Released entries, or null if the tournament was no longer in registration
+ */
+async function cancelTournamentInTx(
+  tx: Prisma.TransactionClient,
+  tournamentId: string,
+  reason: string,
+  now: Date
+): Promise<RefundableEntry[] | null> {
+  const claimed = await tx.tournament.updateMany({
+    where: { id: tournamentId, status: TournamentStatus.REGISTRATION },
+    data: { status: TournamentStatus.CANCELLED, cancelledAt: now, cancelReason: reason },
+  });
+
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  const entries = await tx.tournamentEntry.findMany({
+    where: { tournamentId, status: TournamentEntryStatus.REGISTERED },
+    select: REFUNDABLE_ENTRY_SELECT,
+  });
+
+  return releaseTournamentEntries(tx, entries);
+}
+
+// ===========================================
+// Admin Methods
+// ===========================================
+
+/**
+ * Schedules a tournament on an event slate (admin).
+ *
+ * Each round gets its own events. Events must be scheduled and in the
+ * future, may only appear in one round, and every round must start
+ * after the previous round's last event has started. Round slips are due
+ * at the round's first event; registration closes shortly before round 1.
+ *
+ * @throws {BadRequestError} Round count, payout tiers or slate invalid
+ * @throws {NotFoundError} Event not found
+ */
+export async function createTournament(params: CreateTournamentParams): Promise<TournamentDetails> {
+  const { adminId, name, size, entryFee, rakePercentage, rounds, ipAddress, userAgent } = params;
+  const totalRounds = getTournamentRoundCount(size);
+  const payoutStructure = params.payoutStructure ?? DEFAULT_PAYOUT_STRUCTURES[size];
+  const now = new Date();
+
+  if (rounds.length !== totalRounds) {
+    throw new BadRequestError(
+      `A ${size}-player bracket needs exactly ${totalRounds} rounds of events`,
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  if (payoutStructure.length > totalRounds + 1) {
+    throw new BadRequestError(
+      `A ${size}-player bracket has at most ${totalRounds + 1} payout tiers`,
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const allEventIds = rounds.flatMap((round) => round.eventIds);
+  if (new Set(allEventIds).size !== allEventIds.length) {
+    throw new BadRequestError(
+      'An event can only be used once across all rounds',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const events = await prisma.sportsEvent.findMany({
+    where: { id: { in: allEventIds } },
+    select: { id: true, scheduledAt: true, status: true },
+  });
+  const eventsById = new Map(events.map((event) => [event.id, event]));
+
+  const roundWindows = rounds.map((round, index) => {
+    const startTimes = round.eventIds.map((eventId) => {
+      const event = eventsById.get(eventId);
+
+      if (!event) {
+        throw new NotFoundError(`Event with ID ${eventId} not found`, ERROR_CODES.EVENT_NOT_FOUND);
+      }
+
+      if (event.status !== EventStatus.SCHEDULED || event.scheduledAt <= now) {
+        throw new BadRequestError(
+          `Event ${eventId} has already started or is not scheduled`,
+          ERROR_CODES.EVENT_ALREADY_STARTED
+        );
+      }
+
+      return event.scheduledAt.getTime();
+    });
+
+    return {
+      round: index + 1,
+      eventIds: round.eventIds,
+      locksAt: new Date(Math.min(...startTimes)),
+      lastStartAt: new Date(Math.max(...startTimes)),
+    };
+  });
+
+  for (let index = 1; index < roundWindows.length; index++) {
+    if (roundWindows[index].locksAt <= roundWindows[index - 1].lastStartAt) {
+      throw new BadRequestError(
+        `Round ${index + 1} events must all start after round ${index}'s last event starts`,
+        ERROR_CODES.VALIDATION_ERROR
+      );
+    }
+  }
+
+  const startsAt = new Date(roundWindows[0].locksAt.getTime() - REGISTRATION_CLOSE_LEAD_MS);
+  if (startsAt <= now) {
+    throw new BadRequestError(
+      'Round 1 starts too soon to open registration',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const tournament = await prisma.$transaction(async (tx) => {
+    const created = await tx.tournament.create({
+      data: {
+        name,
+        size,
+        entryFee: BigInt(entryFee),
+        rakePercentage,
+        payoutStructure,
+        totalRounds,
+        startsAt,
+        createdBy: adminId,
+        rounds: {
+          create: roundWindows.map(({ round, eventIds, locksAt }) => ({ round, eventIds, locksAt })),
+        },
+      },
+      select: TOURNAMENT_DETAILS_SELECT,
+    });
+
+    await recordAdminAction(
+      {
+        adminId,
+        action: 'TOURNAMENT_CREATED',
+        targetType: 'tournament',
+        targetId: created.id,
+        newState: { name, size, entryFee, rakePercentage, payoutStructure, startsAt },
+        metadata: { rounds: roundWindows.map(({ round, eventIds }) => ({ round, eventIds })) },
+        ipAddress,
+        userAgent,
+      },
+      tx
+    );
+
+    return created;
+  });
+
+  logger.info(
+    `[TournamentService] Admin ${adminId} scheduled tournament ${tournament.id} ` +
+      `(${size} players, starts ${startsAt.toISOString()})`
+  );
+
+  return transformTournamentDetails(tournament, null);
+}
+
+/**
+ * Cancels a tournament before it starts (admin). Every entry fee is
+ * refunded and round 1 slips return to DRAFT.
+ *
+ * @throws {NotFoundError} Tournament not found
+ * @throws {BadRequestError} Tournament already started or finished
+ */
+export async function cancelTournament(params: CancelTournamentParams): Promise<TournamentDetails> {
+  const { adminId, tournamentId, reason, ipAddress, userAgent } = params;
+  const now = new Date();
+
+  const released = await prisma.$transaction(
+    async (tx) => {
+      const tournament = await tx.tournament.findUnique({
+        where: { id: tournamentId },
+        select: { status: true, entrantCount: true },
+      });
+
+      if (!tournament) {
+        throw new NotFoundError(
+          `Tournament with ID ${tournamentId} not found`,
+          ERROR_CODES.TOURNAMENT_NOT_FOUND
+        );
+      }
+
+      const entries = await cancelTournamentInTx(tx, tournamentId, reason, now);
+
+      if (!entries) {
+        throw new BadRequestError(
+          `Only tournaments in registration can be cancelled (status: ${tournament.status})`,
+          ERROR_CODES.TOURNAMENT_REGISTRATION_CLOSED
+        );
+      }
+
+      await recordAdminAction(
+        {
+          adminId,
+          action: 'TOURNAMENT_CANCELLED',
+          targetType: 'tournament',
+          targetId: tournamentId,
+          previousState: { status: tournament.status, entrantCount: tournament.entrantCount },
+          newState: { status: TournamentStatus.CANCELLED },
+          reason,
+          metadata: { refundedEntries: entries.length },
+          ipAddress,
+          userAgent,
+        },
+        tx
+      );
+
+      return entries;
+    },
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+
+  await refundTournamentEntries(released, 'Tournament cancelled - entry fee refunded');
+
+  logger.info(
+    `[TournamentService] Admin ${adminId} cancelled tournament ${tournamentId} ` +
+      `(${released.length} entries refunded)`
+  );
+
+  void notifyTournamentUpdated(tournamentId, 'cancelled');
+
+  return getTournamentDetails(tournamentId, null);
+}
+
+// ===========================================
+// Service Methods
+// ===========================================
+
+/**
+ * Lists tournaments. Without a status filter, returns those open for
+ * registration or in progress, soonest first.
+ */
+export async function listTournaments(query: TournamentListQuery): Promise<TournamentSummary[]> {
+  const finished =
+    query.status === TournamentStatus.COMPLETED || query.status === TournamentStatus.CANCELLED;
+
+  const tournaments = await prisma.tournament.findMany({
+    where: query.status
+      ? { status: query.status }
+      : { status: { in: [TournamentStatus.REGISTRATION, TournamentStatus.IN_PROGRESS] } },
+    select: TOURNAMENT_SUMMARY_SELECT,
+    orderBy: { startsAt: finished ? 'desc' : 'asc' },
+    take: MAX_TOURNAMENTS_LISTED,
+  });
+
+  return tournaments.map(transformTournamentSummary);
+}
+
+/**
+ * Gets a tournament with its bracket. Brackets are public; the viewer's
+ * own entry is included when they are registered.
+ *
+ * @throws {NotFoundError} Tournament not found
+ */
+export async function getTournamentDetails(
+  tournamentId: string,
+  viewerId: string | null
+): Promise<TournamentDetails> {
+  const tournament = await prisma.tournament.findUnique({
+    where: { id: tournamentId },
+    select: TOURNAMENT_DETAILS_SELECT,
+  });
+
+  if (!tournament) {
+    throw new NotFoundError(
+      `Tournament with ID ${tournamentId} not found`,
+      ERROR_CODES.TOURNAMENT_NOT_FOUND
+    );
+  }
+
+  return transformTournamentDetails(tournament, viewerId);
+}
+
+/**
+ * Registers a user with their round 1 slip.
+ *
+ * Flow:
+ * 1. Validate tournament is open and the user isn't entered yet
+ * 2. Atomic transaction:
+ *    a. Validate slip (DRAFT, owned by user, has picks, round 1 slate only)
+ *    b. Claim a spot (conditional increment - a full bracket rejects)
+ *    c. Debit the entry fee into the prize pool
+ *    d. Lock slip (DRAFT → PENDING)
+ *    e. Record the entry
+ *
+ * @throws {BadRequestError} Registration closed or slip off the slate
+ * @throws {ConflictError} Already entered or bracket full
+ * @throws {InsufficientBalanceError} Wallet balance too low
+ */
+export async function registerForTournament(
+  tournamentId: string,
+  userId: string,
+  data: RegisterTournamentInput
+): Promise<TournamentDetails> {
+  const { slipId } = data;
+
+  const tournament = await prisma.tournament.findUnique({
+    where: { id: tournamentId },
+    select: {
+      name: true,
+      size: true,
+      status: true,
+      entryFee: true,
+      startsAt: true,
+      rounds: { where: { round: 1 }, select: { eventIds: true } },
+      entries: { where: { userId }, select: { id: true } },
+    },
+  });
+
+  if (!tournament) {
+    throw new NotFoundError(
+      `Tournament with ID ${tournamentId} not found`,
+      ERROR_CODES.TOURNAMENT_NOT_FOUND
+    );
+  }
+
+  if (tournament.status !== TournamentStatus.REGISTRATION || tournament.startsAt <= new Date()) {
+    throw new BadRequestError(
+      'Registration for this tournament is closed',
+      ERROR_CODES.TOURNAMENT_REGISTRATION_CLOSED
+    );
+  }
+
+  if (tournament.entries.length > 0) {
+    throw new ConflictError(
+      'You are already registered for this tournament',
+      ERROR_CODES.TOURNAMENT_ALREADY_ENTERED
+    );
+  }
+
+  await prisma.$transaction(
+    async (tx) => {
+      // 1. Validate slip
+      await validateTournamentSlip(tx, slipId, userId, tournament.rounds[0]?.eventIds ?? []);
+
+      // 2. Claim a spot
+      const claimed = await tx.tournament.updateMany({
+        where: {
+          id: tournamentId,
+          status: TournamentStatus.REGISTRATION,
+          entrantCount: { lt: tournament.size },
+        },
+        data: {
+          entrantCount: { increment: 1 },
+          prizePool: { increment: tournament.entryFee },
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictError('This tournament is full', ERROR_CODES.TOURNAMENT_FULL);
+      }
+
+      // 3. Debit the entry fee
+      const entryTx = await debitWallet({
+        userId,
+        amount: tournament.entryFee,
+        type: 'MATCH_ENTRY',
+        preferBonus: true,
+        idempotencyKey: `tournament-entry-${tournamentId}-${userId}`,
+        description: `Tournament entry fee: ${tournament.name}`,
+        metadata: { tournamentId, slipId },
+      });
+
+      // 4. Lock slip
+      await tx.slip.update({
+        where: { id: slipId },
+        data: { status: SlipStatus.PENDING, lockedAt: new Date() },
+      });
+
+      // 5. Record entry
+      await tx.tournamentEntry.create({
+        data: { tournamentId, userId, slipId, entryTxId: entryTx.id },
+      });
+    },
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+
+  logger.info(`[TournamentService] User ${userId} registered for tournament ${tournamentId}`);
+
+  void notifyTournamentUpdated(tournamentId, 'registration');
+
+  return getTournamentDetails(tournamentId, userId);
+}
+
+/**
+ * Submits the user's slip for their open bracket match (rounds 2+).
+ * The slip must only use that round's events and be in before the round
+ * locks. The match locks once both players have submitted.
+ *
+ * @throws {BadRequestError} No match waiting on a slip, round locked, or slip off the slate
+ * @throws {ConflictError} Slip already submitted (concurrent request)
+ */
+export async function submitTournamentSlip(
+  tournamentId: string,
+  userId: string,
+  data: SubmitTournamentSlipInput
+): Promise<TournamentDetails> {
+  const { slipId } = data;
+  const now = new Date();
+
+  const match = await prisma.match.findFirst({
+    where: {
+      tournamentId,
+      status: MatchStatus.matched,
+      OR: [
+        { creatorId: userId, creatorSlipId: null },
+        { opponentId: userId, opponentSlipId: null },
+      ],
+    },
+    select: {
+      id: true,
+      version: true,
+      creatorId: true,
+      creatorSlipId: true,
+      opponentSlipId: true,
+      tournamentRound: true,
+    },
+  });
+
+  if (!match) {
+    throw new BadRequestError(
+      'You have no tournament match waiting on a slip',
+      ERROR_CODES.TOURNAMENT_NO_OPEN_MATCH
+    );
+  }
+
+  const round = await prisma.tournamentRound.findUnique({
+    where: {
+      tournamentId_round: { tournamentId, round: match.tournamentRound as number },
+    },
+    select: { eventIds: true, locksAt: true },
+  });
+
+  if (!round || round.locksAt <= now) {
+    throw new BadRequestError(
+      'Slips for this round are closed',
+      ERROR_CODES.TOURNAMENT_NO_OPEN_MATCH
+    );
+  }
+
+  const isCreator = match.creatorId === userId;
+  const bothSubmitted = isCreator ? !!match.opponentSlipId : !!match.creatorSlipId;
+
+  await prisma.$transaction(
+    async (tx) => {
+      // 1. Validate slip
+      await validateTournamentSlip(tx, slipId, userId, round.eventIds);
+
+      // 2. Attach it (optimistic - a concurrent submission bumps the version)
+      const updated = await tx.match.updateMany({
+        where: { id: match.id, version: match.version, status: MatchStatus.matched },
+        data: {
+          ...(isCreator
+            ? { creatorSlipId: slipId, creatorSlipSubmittedAt: now }
+            : { opponentSlipId: slipId, opponentSlipSubmittedAt: now }),
+          ...(bothSubmitted && { status: MatchStatus.locked, lockedAt: now }),
+          version: { increment: 1 },
+        },
+      });
+
+      if (updated.count === 0) {
+        throw new ConflictError(
+          'This match changed while submitting your slip - please try again',
+          ERROR_CODES.TOURNAMENT_NO_OPEN_MATCH
+        );
+      }
+
+      // 3. Lock slip into the match
+      await tx.slip.update({
+        where: { id: slipId },
+        data: { status: SlipStatus.ACTIVE, lockedAt: now, matchId: match.id },
+      });
+    },
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+
+  logger.info(
+    `[TournamentService] User ${userId} submitted slip ${slipId} for tournament ${tournamentId} ` +
+      `round ${match.tournamentRound}${bothSubmitted ? ' (match locked)' : ''}`
+  );
+
+  void notifyTournamentUpdated(tournamentId, 'slip-submitted');
+
+  return getTournamentDetails(tournamentId, userId);
+}
+
+// ===========================================
+// Bracket Progression
+// ===========================================
+
+/**
+ * Closes registration and plays out round 1.
+ *
+ * Flow (single transaction):
+ * 1. Claim the start (REGISTRATION → IN_PROGRESS); with half the bracket
+ *    or fewer registered the tournament is cancelled and refunded instead
+ * 2. Seed entrants by skill rating (earlier registration breaks ties)
+ * 3. Create round 1 matches with both slips already in (status locked);
+ *    bye players get their unused slip back
+ *
+ * @returns Whether the tournament started
+ */
+async function startTournament(tournamentId: string, now: Date): Promise<boolean> {
+  const result = await prisma.$transaction(
+    async (tx) => {
+      const tournament = await tx.tournament.findUnique({
+        where: { id: tournamentId },
+        select: {
+          size: true,
+          status: true,
+          startsAt: true,
+          entries: {
+            where: { status: TournamentEntryStatus.REGISTERED },
+            select: {
+              id: true,
+              userId: true,
+              slipId: true,
+              createdAt: true,
+              user: { select: { skillRating: true } },
+            },
+          },
+        },
+      });
+
+      if (
+        !tournament ||
+        tournament.status !== TournamentStatus.REGISTRATION ||
+        tournament.startsAt > now
+      ) {
+        return null;
+      }
+
+      // 1. Not enough players for a bracket without double byes
+      if (tournament.entries.length <= tournament.size / 2) {
+        const released = await cancelTournamentInTx(
+          tx,
+          tournamentId,
+          'Not enough entrants',
+          now
+        );
+        return released ? { started: false as const, released } : null;
+      }
+
+      const claimed = await tx.tournament.updateMany({
+        where: { id: tournamentId, status: TournamentStatus.REGISTRATION },
+        data: { status: TournamentStatus.IN_PROGRESS, currentRound: 1 },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      // 2. Seed
+      const seeded = [...tournament.entries]
+        .sort(
+          (a, b) =>
+            b.user.skillRating - a.user.skillRating ||
+            a.createdAt.getTime() - b.createdAt.getTime()
+        )
+        .map((entry, index) => ({ ...entry, seed: index + 1 }));
+      const entriesByUser = new Map(seeded.map((entry) => [entry.userId, entry]));
+
+      for (const entry of seeded) {
+        await tx.tournamentEntry.update({
+          where: { id: entry.id },
+          data: { seed: entry.seed, status: TournamentEntryStatus.ACTIVE },
+        });
+      }
+
+      // 3. Round 1
+      const [firstRound] = resolveBracket(tournament.size, seeded, []);
+      let matchesCreated = 0;
+
+      for (const slot of firstRound) {
+        const [creatorId, opponentId] = slot.players;
+
+        if (slot.isBye) {
+          const byeEntry = entriesByUser.get((creatorId ?? opponentId) as string);
+          if (byeEntry) {
+            await tx.slip.update({
+              where: { id: byeEntry.slipId },
+              data: { status: SlipStatus.DRAFT, lockedAt: null },
+            });
+          }
+          continue;
+        }
+
+        if (!creatorId || !opponentId) continue;
+
+        const creatorSlipId = (entriesByUser.get(creatorId) as (typeof seeded)[number]).slipId;
+        const opponentSlipId = (entriesByUser.get(opponentId) as (typeof seeded)[number]).slipId;
+
+        const match = await tx.match.create({
+          data: {
+            type: 'private',
+            gameMode: GameMode.TOURNAMENT,
+            stakeAmount: BigInt(0),
+            rakePercentage: 0,
+            creatorId,
+            opponentId,
+            creatorSlipId,
+            opponentSlipId,
+            creatorSlipSubmittedAt: now,
+            opponentSlipSubmittedAt: now,
+            matchAttemptKey: `tournament-${tournamentId}-r1-s${slot.slot}`,
+            status: MatchStatus.locked,
+            matchedAt: now,
+            lockedAt: now,
+            tournamentId,
+            tournamentRound: 1,
+            bracketSlot: slot.slot,
+            version: 1,
+          },
+          select: { id: true },
+        });
+
+        await tx.slip.updateMany({
+          where: { id: { in: [creatorSlipId, opponentSlipId] } },
+          data: { status: SlipStatus.ACTIVE, matchId: match.id },
+        });
+
+        matchesCreated++;
+      }
+
+      return {
+        started: true as const,
+        matchesCreated,
+        entrantIds: seeded.map((entry) => entry.userId),
+      };
+    },
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+
+  if (!result) {
+    return false;
+  }
+
+  if (!result.started) {
+    await refundTournamentEntries(
+      result.released,
+      'Tournament cancelled (not enough entrants) - entry fee refunded'
+    );
+    logger.info(
+      `[TournamentService] Tournament ${tournamentId} cancelled: only ` +
+        `${result.released.length} entrants`
+    );
+    void notifyTournamentUpdated(tournamentId, 'cancelled');
+    return false;
+  }
+
+  logger.info(
+    `[TournamentService] Tournament ${tournamentId} started: ` +
+      `${result.entrantIds.length} entrants, ${result.matchesCreated} round 1 matches`
+  );
+
+  void notifyTournamentUpdated(tournamentId, 'started', result.entrantIds);
+
+  return true;
+}
+
+/**
+ * Forfeits a bracket match whose round locked before both slips were in.
+ * The player who submitted wins; with neither slip the match is
+ * cancelled and the better seed advances.
+ */
+async function forfeitBracketMatch(
+  tx: Prisma.TransactionClient,
+  match: BracketMatchRecord,
+  now: Date
+): Promise<void> {
+  const submitted = [
+    { userId: match.creatorId, slipId: match.creatorSlipId },
+    { userId: match.opponentId, slipId: match.opponentSlipId },
+  ].filter((side) => side.slipId);
+
+  const winnerId = submitted.length === 1 ? submitted[0].userId : null;
+
+  const { count } = await tx.match.updateMany({
+    where: { id: match.id, status: MatchStatus.matched },
+    data: winnerId
+      ? {
+          status: MatchStatus.settled,
+          winnerId,
+          settledAt: now,
+          settledBy: 'SYSTEM',
+          settlementMethod: 'FORFEIT',
+          settlementReason: 'Opponent missed the slip deadline',
+        }
+      : {
+          status: MatchStatus.cancelled,
+          cancelledAt: now,
+          settlementReason: 'Neither player submitted a slip',
+        },
+  });
+
+  if (count === 0) return;
+
+  // The match will never be played, so any slip already in is void
+  const slipIds = submitted.map((side) => side.slipId as string);
+  if (slipIds.length > 0) {
+    await tx.slip.updateMany({
+      where: { id: { in: slipIds } },
+      data: { status: SlipStatus.VOID },
+    });
+  }
+
+  logger.info(
+    `[TournamentService] Bracket match ${match.id} forfeited` +
+      (winnerId ? ` - ${winnerId} advances` : ' - no slips, better seed advances')
+  );
+}
+
+/**
+ * Completes a tournament whose final is decided: places every entrant,
+ * takes the rake and records each payout. Prizes and the rake are
+ * credited separately by payTournamentPrizes.
+ *
+ * @returns Whether this call completed the tournament
+ */
+async function completeTournament(
+  tx: Prisma.TransactionClient,
+  tournamentId: string,
+  championId: string,
+  now: Date
+): Promise<boolean> {
+  const tournament = await tx.tournament.findUnique({
+    where: { id: tournamentId },
+    select: {
+      prizePool: true,
+      rakePercentage: true,
+      payoutStructure: true,
+      totalRounds: true,
+      entries: {
+        where: { status: { not: TournamentEntryStatus.REFUNDED } },
+        select: { id: true, userId: true, eliminatedRound: true },
+      },
+    },
+  });
+
+  if (!tournament) return false;
+
+  const rakeAmount = calculateTournamentRake(
+    tournament.prizePool,
+    Number(tournament.rakePercentage)
+  );
+
+  const claimed = await tx.tournament.updateMany({
+    where: { id: tournamentId, status: TournamentStatus.IN_PROGRESS },
+    data: {
+      status: TournamentStatus.COMPLETED,
+      championId,
+      completedAt: now,
+      rakeAmount,
+      currentRound: tournament.totalRounds,
+    },
+  });
+
+  if (claimed.count === 0) return false;
+
+  const placements: TournamentPlacement[] = tournament.entries
+    .filter((entry) => entry.userId === championId || entry.eliminatedRound !== null)
+    .map((entry) => ({
+      userId: entry.userId,
+      tier:
+        entry.userId === championId
+          ? 0
+          : getPlacementTier(entry.eliminatedRound as number, tournament.totalRounds),
+    }));
+
+  const payouts = calculateTournamentPayouts(
+    tournament.prizePool - rakeAmount,
+    tournament.payoutStructure as number[],
+    placements
+  );
+
+  for (const placement of placements) {
+    const entry = tournament.entries.find((candidate) => candidate.userId === placement.userId);
+    if (!entry) continue;
+
+    const payoutAmount = payouts.get(placement.userId) ?? BigInt(0);
+
+    await tx.tournamentEntry.update({
+      where: { id: entry.id },
+      data: {
+        finalPosition: getTierFinishingPosition(placement.tier),
+        payoutAmount: payoutAmount > BigInt(0) ? payoutAmount : null,
+        ...(placement.tier === 0 && { status: TournamentEntryStatus.CHAMPION }),
+      },
+    });
+  }
+
+  logger.info(
+    `[TournamentService] Tournament ${tournamentId} completed: champion ${championId}, ` +
+      `rake ${rakeAmount}`
+  );
+
+  return true;
+}
+
+/**
+ * Credits recorded tournament prizes that haven't been paid yet, then
+ * collects the rake into the house wallet.
+ * Idempotent per entrant; failures are logged and retried by the scheduler.
+ *
+ * @returns Number of prizes paid
+ */
+export async function payTournamentPrizes(tournamentId: string): Promise<number> {
+  const tournament = await prisma.tournament.findUnique({
+    where: { id: tournamentId },
+    select: {
+      name: true,
+      status: true,
+      totalRounds: true,
+      rakeAmount: true,
+      rakeTxId: true,
+      matches: {
+        where: { tournamentRound: { not: null } },
+        select: { id: true, tournamentRound: true },
+        orderBy: { tournamentRound: 'desc' },
+        take: 1,
+      },
+      entries: {
+        where: { payoutAmount: { gt: 0 }, payoutTxId: null },
+        select: { id: true, userId: true, payoutAmount: true, finalPosition: true },
+      },
+    },
+  });
+
+  const finalMatch = tournament?.matches[0];
+
+  if (!tournament || tournament.status !== TournamentStatus.COMPLETED || !finalMatch) {
+    return 0;
+  }
+
+  let paid = 0;
+
+  for (const entry of tournament.entries) {
+    try {
+      const payoutTx = await creditWallet({
+        userId: entry.userId,
+        amount: entry.payoutAmount as bigint,
+        type: 'MATCH_WIN',
+        matchId: finalMatch.id,
+        idempotencyKey: `tournament-payout-${tournamentId}-${entry.userId}`,
+        description: `Tournament prize: ${tournament.name} (position ${entry.finalPosition})`,
+        metadata: { tournamentId, finalPosition: entry.finalPosition },
+      });
+
+      await prisma.tournamentEntry.update({
+        where: { id: entry.id },
+        data: { payoutTxId: payoutTx.id },
+      });
+      paid++;
+    } catch (error) {
+      logger.error(
+        `[TournamentService] Failed to pay tournament ${tournamentId} prize to ${entry.userId}:`,
+        error
+      );
+    }
+  }
+
+  if (tournament.rakeAmount && tournament.rakeAmount > BigInt(0) && !tournament.rakeTxId) {
+    try {
+      const rakeTx = await creditWallet({
+        userId: HOUSE_USER_ID,
+        amount: tournament.rakeAmount,
+        type: 'RAKE_FEE',
+        matchId: finalMatch.id,
+        idempotencyKey: `tournament-rake-${tournamentId}`,
+        description: `Tournament rake: ${tournament.name}`,
+        metadata: { tournamentId },
+      });
+
+      await prisma.tournament.update({
+        where: { id: tournamentId },
+        data: { rakeTxId: rakeTx.id },
+      });
+    } catch (error) {
+      logger.error(`[TournamentService] Failed to collect tournament ${tournamentId} rake:`, error);
+    }
+  }
+
+  return paid;
+}
+
+/**
+ * Moves a tournament's bracket forward. Idempotent - safe to call after
+ * every settlement and from the scheduler.
+ *
+ * Flow (single transaction):
+ * 1. Rounds that have locked: forfeit matches still missing slips and
+ *    start locked matches (the live scores processor may not have yet)
+ * 2. Eliminate the loser of every decided match
+ * 3. Open each next-round match whose two feeders are decided
+ * 4. When the final is decided, complete the tournament
+ * Prizes are paid and the bracket broadcast after the transaction commits.
+ *
+ * Two settlements finishing both feeders of one slot at the same moment
+ * can both try to open it; the unique bracket slot rejects the second
+ * and the slot is picked up again on the next run.
+ *
+ * @returns Whether anything changed
+ */
+export async function advanceTournament(
+  tournamentId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const result = await prisma.$transaction(
+    async (tx) => {
+      const tournament = await tx.tournament.findUnique({
+        where: { id: tournamentId },
+        select: {
+          size: true,
+          status: true,
+          totalRounds: true,
+          currentRound: true,
+          rounds: { select: { round: true, locksAt: true } },
+          entries: {
+            where: { status: { not: TournamentEntryStatus.REFUNDED } },
+            select: { userId: true, seed: true },
+          },
+          matches: { select: BRACKET_MATCH_SELECT },
+        },
+      });
+
+      if (!tournament || tournament.status !== TournamentStatus.IN_PROGRESS) {
+        return null;
+      }
+
+      const locksAtByRound = new Map(tournament.rounds.map((round) => [round.round, round.locksAt]));
+      const notifyUserIds: string[] = [];
+      let changed = false;
+
+      // 1. Locked rounds
+      for (const match of tournament.matches) {
+        const locksAt = locksAtByRound.get(match.tournamentRound as number);
+        if (!locksAt || locksAt > now) continue;
+
+        if (match.status === MatchStatus.matched) {
+          await forfeitBracketMatch(tx, match, now);
+          changed = true;
+        } else if (match.status === MatchStatus.locked) {
+          const started = await tx.match.updateMany({
+            where: { id: match.id, status: MatchStatus.locked },
+            data: { status: MatchStatus.active, startedAt: now },
+          });
+          changed = changed || started.count > 0;
+        }
+      }
+
+      const matches = changed
+        ? await tx.match.findMany({ where: { tournamentId }, select: BRACKET_MATCH_SELECT })
+        : tournament.matches;
+      const bracket = resolveBracket(tournament.size, tournament.entries, matches);
+      let currentRound = tournament.currentRound;
+
+      for (const slots of bracket) {
+        for (const slot of slots) {
+          // 2. Eliminate the loser
+          if (slot.loserId) {
+            const eliminated = await tx.tournamentEntry.updateMany({
+              where: { tournamentId, userId: slot.loserId, status: TournamentEntryStatus.ACTIVE },
+              data: { status: TournamentEntryStatus.ELIMINATED, eliminatedRound: slot.round },
+            });
+            changed = changed || eliminated.count > 0;
+          }
+
+          // 3. Open the next-round match
+          const [creatorId, opponentId] = slot.players;
+          if (slot.round === 1 || slot.match || !creatorId || !opponentId) continue;
+
+          await tx.match.create({
+            data: {
+              type: 'private',
+              gameMode: GameMode.TOURNAMENT,
+              stakeAmount: BigInt(0),
+              rakePercentage: 0,
+              creatorId,
+              opponentId,
+              matchAttemptKey: `tournament-${tournamentId}-r${slot.round}-s${slot.slot}`,
+              status: MatchStatus.matched,
+              matchedAt: now,
+              slipDeadlineAt: locksAtByRound.get(slot.round),
+              tournamentId,
+              tournamentRound: slot.round,
+              bracketSlot: slot.slot,
+              version: 1,
+            },
+          });
+
+          notifyUserIds.push(creatorId, opponentId);
+          currentRound = Math.max(currentRound, slot.round);
+          changed = true;
+        }
+      }
+
+      if (currentRound !== tournament.currentRound) {
+        await tx.tournament.update({ where: { id: tournamentId }, data: { currentRound } });
+      }
+
+      // 4. Final decided
+      const championId = bracket[bracket.length - 1][0].winnerId;
+      const completed = championId
+        ? await completeTournament(tx, tournamentId, championId, now)
+        : false;
+
+      return { changed: changed || completed, completed, notifyUserIds };
+    },
+    { timeout: TRANSACTION_TIMEOUT }
+  );
+
+  if (!result) {
+    return false;
+  }
+
+  if (result.completed) {
+    await payTournamentPrizes(tournamentId);
+  }
+
+  if (result.changed) {
+    void notifyTournamentUpdated(
+      tournamentId,
+      result.completed ? 'completed' : 'bracket-advanced',
+      result.notifyUserIds
+    );
+  }
+
+  return result.changed;
+}
+
+/**
+ * Runs every tournament step that is due: starts tournaments whose
+ * registration has closed, advances brackets in progress (slip deadline
+ * forfeits, missed settlement hooks) and retries unpaid prizes and rake.
+ * Called by the tournament scheduler. A failing tournament is logged
+ * and retried on the next run without blocking the others.
+ *
+ * @returns Number of tournaments started or advanced
+ */
+export async function processDueTournaments(now: Date = new Date()): Promise<number> {
+  const [dueToStart, inProgress, unpaid] = await Promise.all([
+    prisma.tournament.findMany({
+      where: { status: TournamentStatus.REGISTRATION, startsAt: { lte: now } },
+      select: { id: true },
+      orderBy: { startsAt: 'asc' },
+      take: MAX_TOURNAMENTS_PER_RUN,
+    }),
+    prisma.tournament.findMany({
+      where: { status: TournamentStatus.IN_PROGRESS },
+      select: { id: true },
+      orderBy: { startsAt: 'asc' },
+      take: MAX_TOURNAMENTS_PER_RUN,
+    }),
+    prisma.tournament.findMany({
+      where: {
+        status: TournamentStatus.COMPLETED,
+        OR: [
+          { entries: { some: { payoutAmount: { gt: 0 }, payoutTxId: null } } },
+          { rakeAmount: { gt: 0 }, rakeTxId: null },
+        ],
+      },
+      select: { id: true },
+      take: MAX_TOURNAMENTS_PER_RUN,
+    }),
+  ]);
+
+  let processed = 0;
+
+  for (const tournament of dueToStart) {
+    try {
+      if (await startTournament(tournament.id, now)) processed++;
+    } catch (error) {
+      logger.error(`[TournamentService] Failed to start tournament ${tournament.id}:`, error);
+    }
+  }
+
+  for (const tournament of inProgress) {
+    try {
+      if (await advanceTournament(tournament.id, now)) processed++;
+    } catch (error) {
+      logger.error(`[TournamentService] Failed to advance tournament ${tournament.id}:`, error);
+    }
+  }
+
+  for (const tournament of unpaid) {
+    try {
+      await payTournamentPrizes(tournament.id);
+    } catch (error) {
+      logger.error(`[TournamentService] Failed to pay tournament ${tournament.id} prizes:`, error);
+    }
+  }
+
+  return processed;
+}
@@ -5,7 +5,7 @@
 // All business logic is delegated to users.service.ts
 
 import { Router, Request, Response, NextFunction } from 'express';
-import { ApiResponse, ERROR_CODES } from '@pick-rivals/shared-types';
+import { ApiResponse, ERROR_CODES, HeadToHeadSummary, ReferralSummary } from '@pick-rivals/shared-types';
 import {
   updateProfileSchema,
   userIdParamSchema,
@@ -14,9 +14,11 @@ import {
 import {
   getMyProfile,
   getPublicProfile,
+  getHeadToHead,
   updateProfile,
   UserProfile,
 } from './users.service';
+import { getReferralSummary } from '../../lib/referral.service';
 import { requireAuth, optionalAuth, getAuthenticatedUser } from '../../middleware';
 import { BadRequestError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
@@ -77,6 +79,38 @@ router.get(
   }
 );
 
+// ===========================================
+// GET /me/referrals
+// ===========================================
+// Returns the authenticated user's referral code and referral status.
+// Requires: Bearer token authentication
+// Response: Referral summary with most recent referred users
+
+router.get(
+  '/me/referrals',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+
+      const summary = await getReferralSummary(user.id);
+
+      const response: ApiResponse<ReferralSummary> = {
+        success: true,
+        data: summary,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // ===========================================
 // GET /:id
 // ===========================================
@@ -130,6 +164,48 @@ router.get(
   }
 );
 
+// ===========================================
+// GET /:id/head-to-head
+// ===========================================
+// Returns the authenticated user's record against another user.
+// Requires: Bearer token authentication
+// Response: Wins/losses/draws, net coins, points and last five results
+// Error: 400 for your own ID, 404 if user not found
+
+router.get(
+  '/:id/head-to-head',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+
+      const parsed = userIdParamSchema.safeParse(req.params);
+
+      if (!parsed.success) {
+        throw new BadRequestError(
+          'Invalid user ID format',
+          ERROR_CODES.VALIDATION_ERROR
+        );
+      }
+
+      const summary = await getHeadToHead(user.id, parsed.data.id);
+
+      const response: ApiResponse<HeadToHeadSummary> = {
+        success: true,
+        data: summary,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // ===========================================
 // PATCH /me
 // ===========================================
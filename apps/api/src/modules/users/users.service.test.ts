@@ -0,0 +1,169 @@
+// =====================================================
+// Users Service Tests
+// =====================================================
+// Covers the head-to-head rivalry record: outcomes from either side of
+// the match, net coins, points margin and the recent results window.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MatchStatus, Prisma } from '@prisma/client';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  userFindUnique: vi.fn(),
+  matchFindMany: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: mocks.userFindUnique },
+    match: { findMany: mocks.matchFindMany },
+  },
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { getHeadToHead } from './users.service';
+import { BadRequestError, NotFoundError } from '../../utils/errors';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const ME = 'user-me';
+const RIVAL = 'user-rival';
+
+function createMatch(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'match-1',
+    creatorId: ME,
+    winnerId: ME,
+    status: MatchStatus.settled,
+    isDraw: false,
+    stakeAmount: BigInt(1000),
+    winnerPayout: BigInt(1900),
+    creatorPoints: new Prisma.Decimal(42.5),
+    opponentPoints: new Prisma.Decimal(30),
+    settledAt: new Date('2026-03-01T12:00:00Z'),
+    createdAt: new Date('2026-03-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.userFindUnique.mockResolvedValue({ id: RIVAL });
+  mocks.matchFindMany.mockResolvedValue([]);
+});
+
+// ===========================================
+// Test: getHeadToHead()
+// ===========================================
+
+describe('getHeadToHead', () => {
+  it('only counts settled and drawn matches between the two users', async () => {
+    await getHeadToHead(ME, RIVAL);
+
+    expect(mocks.matchFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: { in: [MatchStatus.settled, MatchStatus.draw] },
+          OR: [
+            { creatorId: ME, opponentId: RIVAL },
+            { creatorId: RIVAL, opponentId: ME },
+          ],
+        },
+      })
+    );
+  });
+
+  it('scores results from the viewer side of each match', async () => {
+    mocks.matchFindMany.mockResolvedValue([
+      createMatch({ id: 'won-as-creator' }),
+      createMatch({
+        id: 'lost-as-opponent',
+        creatorId: RIVAL,
+        winnerId: RIVAL,
+        creatorPoints: new Prisma.Decimal(50),
+        opponentPoints: new Prisma.Decimal(20),
+      }),
+      createMatch({
+        id: 'draw',
+        status: MatchStatus.draw,
+        isDraw: true,
+        winnerId: null,
+        winnerPayout: null,
+        creatorPoints: new Prisma.Decimal(25),
+        opponentPoints: new Prisma.Decimal(25),
+      }),
+    ]);
+
+    const summary = await getHeadToHead(ME, RIVAL);
+
+    expect(summary).toMatchObject({
+      matchesPlayed: 3,
+      wins: 1,
+      losses: 1,
+      draws: 1,
+      netCoins: 900 - 1000,
+      pointsFor: 42.5 + 20 + 25,
+      pointsAgainst: 30 + 50 + 25,
+      averageMargin: -5.83,
+    });
+    expect(summary.lastFive.map((r) => [r.matchId, r.result, r.points, r.netCoins])).toEqual([
+      ['won-as-creator', 'win', 42.5, 900],
+      ['lost-as-opponent', 'loss', 20, -1000],
+      ['draw', 'draw', 25, 0],
+    ]);
+  });
+
+  it('keeps only the five most recent results', async () => {
+    mocks.matchFindMany.mockResolvedValue(
+      Array.from({ length: 7 }, (_, i) => createMatch({ id: `match-${i}` }))
+    );
+
+    const summary = await getHeadToHead(ME, RIVAL);
+
+    expect(summary.matchesPlayed).toBe(7);
+    expect(summary.lastFive.map((r) => r.matchId)).toEqual([
+      'match-0',
+      'match-1',
+      'match-2',
+      'match-3',
+      'match-4',
+    ]);
+  });
+
+  it('returns an empty record for users who have never played', async () => {
+    const summary = await getHeadToHead(ME, RIVAL);
+
+    expect(summary).toEqual({
+      userId: ME,
+      opponentId: RIVAL,
+      matchesPlayed: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      netCoins: 0,
+      pointsFor: 0,
+      pointsAgainst: 0,
+      averageMargin: 0,
+      lastFive: [],
+    });
+  });
+
+  it('rejects a head-to-head against yourself', async () => {
+    await expect(getHeadToHead(ME, ME)).rejects.toBeInstanceOf(BadRequestError);
+    expect(mocks.matchFindMany).not.toHaveBeenCalled();
+  });
+
+  it('throws when the other user does not exist', async () => {
+    mocks.userFindUnique.mockResolvedValue(null);
+
+    await expect(getHeadToHead(ME, RIVAL)).rejects.toBeInstanceOf(NotFoundError);
+  });
+});
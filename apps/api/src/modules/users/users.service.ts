@@ -5,9 +5,15 @@
 // CRITICAL: All user data must be validated at boundaries.
 // Stats calculations must be accurate and never expose invalid data.
 
+import { MatchStatus } from '@prisma/client';
 import { prisma } from '../../lib/prisma';
-import { NotFoundError } from '../../utils/errors';
-import { ERROR_CODES } from '@pick-rivals/shared-types';
+import { NotFoundError, BadRequestError } from '../../utils/errors';
+import {
+  ERROR_CODES,
+  HeadToHeadMatchResult,
+  HeadToHeadOutcome,
+  HeadToHeadSummary,
+} from '@pick-rivals/shared-types';
 import { logger } from '../../utils/logger';
 import { UpdateProfileInput } from './users.schemas';
 import { calculateTierFromStats, TIER_RANK } from '../../lib/tier.service';
@@ -40,6 +46,13 @@ export interface UserProfile {
   totalCoinsEarned: number;
 }
 
+// ===========================================
+// Constants
+// ===========================================
+
+/** Number of recent results included in a head-to-head summary */
+const HEAD_TO_HEAD_RECENT_RESULTS = 5;
+
 // ===========================================
 // Service Functions
 // ===========================================
@@ -247,3 +260,115 @@ export async function updateProfile(
     totalCoinsEarned,
   };
 }
+
+/**
+ * Round to 2 decimal places (points are stored as Decimal(10, 2)).
+ */
+function roundPoints(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Get the rivalry record between two users.
+ * Aggregates every settled (or drawn) match they have played against each
+ * other, from the viewer's side.
+ *
+ * @param userId - The viewing user's ID
+ * @param opponentId - The other user's ID
+ * @returns Head-to-head summary
+ * @throws BadRequestError if both IDs are the same user
+ * @throws NotFoundError if the other user doesn't exist
+ */
+export async function getHeadToHead(
+  userId: string,
+  opponentId: string
+): Promise<HeadToHeadSummary> {
+  if (userId === opponentId) {
+    throw new BadRequestError(
+      'Cannot view head-to-head record against yourself',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const opponent = await prisma.user.findUnique({
+    where: { id: opponentId },
+    select: { id: true },
+  });
+
+  if (!opponent) {
+    throw new NotFoundError(
+      'User not found',
+      ERROR_CODES.USER_NOT_FOUND
+    );
+  }
+
+  const matches = await prisma.match.findMany({
+    where: {
+      status: { in: [MatchStatus.settled, MatchStatus.draw] },
+      OR: [
+        { creatorId: userId, opponentId },
+        { creatorId: opponentId, opponentId: userId },
+      ],
+    },
+    select: {
+      id: true,
+      creatorId: true,
+      winnerId: true,
+      status: true,
+      isDraw: true,
+      stakeAmount: true,
+      winnerPayout: true,
+      creatorPoints: true,
+      opponentPoints: true,
+      settledAt: true,
+      createdAt: true,
+    },
+    orderBy: [{ settledAt: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  const results: HeadToHeadMatchResult[] = matches.map((match) => {
+    const isCreator = match.creatorId === userId;
+    const points = (isCreator ? match.creatorPoints : match.opponentPoints).toNumber();
+    const opponentPoints = (isCreator ? match.opponentPoints : match.creatorPoints).toNumber();
+
+    let result: HeadToHeadOutcome;
+    let netCoins: bigint;
+    if (match.status === MatchStatus.draw || match.isDraw || !match.winnerId) {
+      // Draws refund both stakes
+      result = 'draw';
+      netCoins = BigInt(0);
+    } else if (match.winnerId === userId) {
+      result = 'win';
+      netCoins = (match.winnerPayout ?? match.stakeAmount) - match.stakeAmount;
+    } else {
+      result = 'loss';
+      netCoins = -match.stakeAmount;
+    }
+
+    return {
+      matchId: match.id,
+      result,
+      points,
+      opponentPoints,
+      netCoins: bigIntToNumber(netCoins),
+      settledAt: (match.settledAt ?? match.createdAt).toISOString(),
+    };
+  });
+
+  const pointsFor = results.reduce((sum, r) => sum + r.points, 0);
+  const pointsAgainst = results.reduce((sum, r) => sum + r.opponentPoints, 0);
+
+  return {
+    userId,
+    opponentId,
+    matchesPlayed: results.length,
+    wins: results.filter((r) => r.result === 'win').length,
+    losses: results.filter((r) => r.result === 'loss').length,
+    draws: results.filter((r) => r.result === 'draw').length,
+    netCoins: results.reduce((sum, r) => sum + r.netCoins, 0),
+    pointsFor: roundPoints(pointsFor),
+    pointsAgainst: roundPoints(pointsAgainst),
+    averageMargin: results.length > 0 ? roundPoints((pointsFor - pointsAgainst) / results.length) : 0,
+    lastFive: results.slice(0, HEAD_TO_HEAD_RECENT_RESULTS),
+  };
+}
@@ -0,0 +1,67 @@
+// =====================================================
+// IAP Webhook Controller
+// =====================================================
+// Store server notifications (refunds, chargebacks).
+// No JWT auth - authenticity is verified by the ReceiptValidator.
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { ApiResponse, ERROR_CODES } from '@pick-rivals/shared-types';
+import { storePlatformParamSchema } from './wallet.schemas';
+import { handleStoreNotification, type PurchaseReversalResult } from '../../services/iap';
+import { BadRequestError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+
+const router: Router = Router();
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+function generateRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+// ===========================================
+// POST /webhooks/iap/:platform
+// ===========================================
+// Receives App Store / Google Play server notifications.
+// Refund and chargeback notifications reverse the purchase credit;
+// all other notification types are acknowledged and ignored.
+
+router.post(
+  '/:platform',
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const parsed = storePlatformParamSchema.safeParse(req.params);
+
+      if (!parsed.success) {
+        throw new BadRequestError('Unknown store platform', ERROR_CODES.VALIDATION_ERROR);
+      }
+
+      const signature = req.headers['x-webhook-signature'] as string | undefined;
+      const result = await handleStoreNotification(parsed.data.platform, req.body, signature);
+
+      if (result) {
+        logger.info(`[IAP] Store notification processed`, {
+          platform: parsed.data.platform,
+          ...result,
+        });
+      }
+
+      const response: ApiResponse<{ processed: boolean; reversal: PurchaseReversalResult | null }> = {
+        success: true,
+        data: { processed: result !== null, reversal: result },
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
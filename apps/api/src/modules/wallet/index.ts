@@ -3,4 +3,5 @@
 // =====================================================
 
 export { default as walletRoutes } from './wallet.controller';
+export { default as iapWebhookRoutes } from './iap-webhook.controller';
 export * from './wallet.schemas';
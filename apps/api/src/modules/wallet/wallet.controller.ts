@@ -9,6 +9,8 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { ApiResponse, PaginationMeta, ERROR_CODES } from '@pick-rivals/shared-types';
 import {
   transactionHistoryQuerySchema,
+  purchaseSchema,
+  validateInput,
   AllowanceCheckResponse,
   AllowanceClaimResponse,
   ValidTransactionType,
@@ -23,9 +25,21 @@ import {
   creditAllowance,
   formatTimeUntilNextAllowance,
 } from '../../lib/allowance.service';
+import {
+  purchaseCoins,
+  COIN_PRODUCTS,
+  type CoinProduct,
+  type PurchaseInput,
+  type PurchaseResult,
+} from '../../services/iap';
 import { prisma } from '../../lib/prisma';
 import { config } from '../../config';
-import { requireAuth, getAuthenticatedUser, allowanceClaimRateLimiter } from '../../middleware';
+import {
+  requireAuth,
+  getAuthenticatedUser,
+  allowanceClaimRateLimiter,
+  creationRateLimiter,
+} from '../../middleware';
 import { NotFoundError, BadRequestError } from '../../utils/errors';
 import { logger } from '../../utils/logger';
 
@@ -338,4 +352,86 @@ router.post(
   }
 );
 
+// ===========================================
+// GET /wallet/products
+// ===========================================
+// List coin packs available for purchase.
+// Prices are localized by the store client-side; only coin amounts are returned.
+
+router.get(
+  '/products',
+  requireAuth,
+  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const response: ApiResponse<{ products: CoinProduct[] }> = {
+        success: true,
+        data: { products: [...COIN_PRODUCTS] },
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(200).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// ===========================================
+// POST /wallet/purchase
+// ===========================================
+// Redeem a store receipt for coins.
+// CRITICAL: This endpoint is protected by:
+// 1. Authentication (requireAuth)
+// 2. Rate limiting (creationRateLimiter)
+// 3. Server-side receipt verification (pluggable ReceiptValidator)
+// 4. Idempotency keyed on the store transaction ID
+//
+// Input: { platform: 'apple' | 'google', productId, receipt }
+// Response: Credited coins and new balance. Re-submitting a receipt
+// returns the original credit with alreadyProcessed = true.
+
+router.post(
+  '/purchase',
+  requireAuth,
+  creationRateLimiter,
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = getAuthenticatedUser(req);
+
+      const validation = validateInput(purchaseSchema, req.body);
+
+      if (!validation.success || !validation.data) {
+        throw new BadRequestError(
+          'Invalid purchase request: ' +
+            (validation.errors || []).map((e) => e.message).join(', '),
+          ERROR_CODES.VALIDATION_ERROR
+        );
+      }
+
+      logger.info(`Coin purchase attempt for user: ${user.id}`, {
+        platform: validation.data.platform,
+        productId: validation.data.productId,
+      });
+
+      const result = await purchaseCoins(user.id, validation.data as PurchaseInput);
+
+      const response: ApiResponse<PurchaseResult> = {
+        success: true,
+        data: result,
+        meta: {
+          timestamp: new Date().toISOString(),
+          requestId: generateRequestId(),
+        },
+      };
+
+      res.status(result.alreadyProcessed ? 200 : 201).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
@@ -5,6 +5,7 @@
 // These schemas enforce strict type safety and business rules.
 
 import { z } from 'zod';
+import { STORE_PLATFORMS, StorePlatform } from '../../services/iap/iap.types';
 
 // ===========================================
 // Constants
@@ -28,6 +29,7 @@ const VALID_TRANSACTION_TYPES = [
   'BONUS',
   'WEEKLY_ALLOWANCE',
   'ADMIN_ADJUSTMENT',
+  'PURCHASE_REVERSAL',
 ] as const;
 
 export type ValidTransactionType = typeof VALID_TRANSACTION_TYPES[number];
@@ -115,6 +117,34 @@ export const processTransactionSchema = z.object({
 
 export type ProcessTransactionInput = z.infer<typeof processTransactionSchema>;
 
+// ===========================================
+// Coin Purchase Schema
+// ===========================================
+
+// StoreKit 2 signed transactions are ~4KB; keeps well inside the 10kb JSON body limit
+const MAX_RECEIPT_LENGTH = 8000;
+
+export const purchaseSchema = z.object({
+  platform: z.enum(STORE_PLATFORMS as [StorePlatform, ...StorePlatform[]]),
+
+  productId: z
+    .string()
+    .trim()
+    .min(1, 'Product ID is required')
+    .max(100, 'Product ID too long'),
+
+  receipt: z
+    .string()
+    .min(1, 'Receipt is required')
+    .max(MAX_RECEIPT_LENGTH, 'Receipt too large'),
+});
+
+export type PurchaseRequest = z.infer<typeof purchaseSchema>;
+
+export const storePlatformParamSchema = z.object({
+  platform: z.enum(STORE_PLATFORMS as [StorePlatform, ...StorePlatform[]]),
+});
+
 // ===========================================
 // Allowance Response Schemas
 // ===========================================
@@ -24,14 +24,15 @@ export type GameSettlementJobType =
   | 'check-match-settlement'
   | 'settle-match'
   | 'void-match'
-  | 'check-postponed-matches';
+  | 'check-postponed-matches'
+  | 'check-overdue-box-scores';
 
 export interface GameSettlementJobData {
   type: GameSettlementJobType;
-  matchId?: string; // Optional for check-postponed-matches (checks all)
+  matchId?: string; // Optional for check-postponed-matches / check-overdue-box-scores (checks all)
   /** Optional: The event that triggered this check */
   eventId?: string;
-  triggeredBy: 'event-completed' | 'manual' | 'retry' | 'scheduled' | 'event-cancelled' | 'postponement-timeout' | 'admin-void';
+  triggeredBy: 'event-completed' | 'box-score-ingested' | 'manual' | 'retry' | 'scheduled' | 'event-cancelled' | 'postponement-timeout' | 'admin-void';
   receivedAt: string;
   /** For void-match jobs: the reason for voiding */
   voidReason?: string;
@@ -266,9 +267,10 @@ async function processGameSettlementJob(
             logger.error('[GameSettlement] Failed to queue leaderboard cache update:', cacheError);
           }
 
-          // Update ranked progression for both players (fire-and-forget)
+          // Update skill ratings and ranked progression for both players (fire-and-forget)
           try {
             const { updateRankPoints } = await import('../services/ranked.service');
+            const { applyMatchRatings } = await import('../services/skill-rating.service');
             const { prisma: prismaForRanked } = await import('../lib/prisma');
 
             const matchForRanked = await prismaForRanked.match.findUnique({
@@ -277,6 +279,15 @@ async function processGameSettlementJob(
             });
 
             if (matchForRanked?.seasonId && matchForRanked.opponentId) {
+              // Rank points are weighted by the pre-match ratings; without them
+              // both players are treated as evenly matched
+              let rating: Awaited<ReturnType<typeof applyMatchRatings>> | null = null;
+              try {
+                rating = await applyMatchRatings(matchId);
+              } catch (ratingError) {
+                logger.error('[GameSettlement] Skill rating update failed:', ratingError);
+              }
+
               const matchResultForRP = {
                 matchId,
                 seasonId: matchForRanked.seasonId,
@@ -285,6 +296,8 @@ async function processGameSettlementJob(
                   (result.winnerId === matchForRanked.creatorId ? matchForRanked.opponentId : matchForRanked.creatorId),
                 isDraw: result.isDraw,
                 settledAt: result.settledAt.toISOString(),
+                skillRatings: rating?.ratingsBefore,
+                margin: rating?.margin,
               };
 
               // Update both players
@@ -306,6 +319,26 @@ async function processGameSettlementJob(
             // Don't fail settlement - ranked is auxiliary
           }
 
+          // Pay referral bonuses for referred players' first settled match (fire-and-forget)
+          try {
+            const { processReferralRewardsForMatch } = await import('../lib/referral.service');
+            const { prisma: prismaForReferral } = await import('../lib/prisma');
+
+            const matchForReferral = await prismaForReferral.match.findUnique({
+              where: { id: matchId },
+              select: { creatorId: true, opponentId: true },
+            });
+
+            if (matchForReferral?.opponentId) {
+              await processReferralRewardsForMatch(matchId, [
+                matchForReferral.creatorId,
+                matchForReferral.opponentId,
+              ]);
+            }
+          } catch (referralError) {
+            logger.error('[GameSettlement] Referral reward processing failed:', referralError);
+          }
+
           logger.info(`[GameSettlement] Match ${matchId} settled successfully`, {
             winnerId: result.winnerId,
             isDraw: result.isDraw,
@@ -510,6 +543,24 @@ async function processGameSettlementJob(
         };
       }
 
+      case 'check-overdue-box-scores': {
+        // Re-check matches whose prop picks passed the box score deadline
+        const { queueOverdueBoxScoreSettlementChecks } = await import(
+          '../services/live-scores/box-score.service'
+        );
+
+        const queued = await queueOverdueBoxScoreSettlementChecks();
+
+        return {
+          success: true,
+          type,
+          settled: false,
+          message: `Queued ${queued} settlement checks for overdue box scores`,
+          matchesProcessed: queued,
+          durationMs: Date.now() - startTime,
+        };
+      }
+
       default:
         throw new Error(`Unknown job type: ${type}`);
     }
@@ -614,12 +665,13 @@ export async function stopGameSettlementWorker(): Promise<void> {
 export async function queueSettlementCheck(
   matchId: string,
   eventId: string | undefined,
-  triggeredBy: 'event-completed' | 'manual' | 'scheduled'
+  triggeredBy: 'event-completed' | 'box-score-ingested' | 'manual' | 'scheduled'
 ): Promise<Job<GameSettlementJobData, GameSettlementJobResult>> {
   const queue = getGameSettlementQueue();
 
   // Use matchId + eventId for job deduplication (same event won't trigger multiple checks)
-  const jobId = eventId
+  // Box score ingestion always re-checks: it may arrive (or be corrected) after the event completed
+  const jobId = eventId && triggeredBy !== 'box-score-ingested'
     ? `check-${matchId}-${eventId}`
     : `check-${matchId}-${Date.now()}`;
 
@@ -830,3 +882,38 @@ export async function schedulePostponedMatchesCheck(): Promise<void> {
 
   logger.info('[GameSettlement] Scheduled hourly postponed matches check');
 }
+
+/**
+ * Set up the recurring overdue box score sweep (every hour).
+ * Call this once during application startup.
+ */
+export async function scheduleOverdueBoxScoreChecks(): Promise<void> {
+  const queue = getGameSettlementQueue();
+
+  // Remove any existing repeatable job
+  const existingJobs = await queue.getRepeatableJobs();
+  for (const repeatJob of existingJobs) {
+    if (repeatJob.name === 'check-overdue-box-scores') {
+      await queue.removeRepeatableByKey(repeatJob.key);
+    }
+  }
+
+  // Add hourly recurring job
+  await queue.add(
+    'check-overdue-box-scores',
+    {
+      type: 'check-overdue-box-scores',
+      triggeredBy: 'scheduled',
+      receivedAt: new Date().toISOString(),
+    },
+    {
+      repeat: {
+        pattern: '30 * * * *', // Every hour at minute 30
+      },
+      jobId: 'scheduled-overdue-box-score-check',
+      priority: 3, // Lower priority than settlements
+    }
+  );
+
+  logger.info('[GameSettlement] Scheduled hourly overdue box score check');
+}
@@ -12,3 +12,6 @@ export * from './leaderboard.queue';
 export * from './player-tier-sync.queue';
 export * from './matchmaking.queue';
 export * from './season.queue';
+export * from './league.queue';
+export * from './tournament.queue';
+export * from './wallet-reconciliation.queue';
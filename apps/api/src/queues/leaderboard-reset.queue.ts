@@ -1,23 +1,27 @@
 // =====================================================
-// Leaderboard Weekly Reset Queue
+// Leaderboard Reset Queue
 // =====================================================
-// Handles the weekly leaderboard reset process:
-// 1. Snapshot current ranks as previousRank
-// 2. Archive the old weekly leaderboard
-// 3. Create new weekly leaderboard
+// Handles period rollover for WEEKLY, MONTHLY and SEASONAL leaderboards:
+// 1. Snapshot final ranks on the ended period's boards (all sports)
+// 2. Archive the ended boards
+// 3. Create the new all-sports board (per-sport boards are created on demand)
 //
-// Runs every Monday at 00:00 UTC.
+// Weekly reset also snapshots global previousRank values.
+//
+// Schedules:
+// - Weekly: every Monday at 00:00 UTC
+// - Monthly: the 1st of each month at 00:00 UTC
+// - Seasonal: hourly check for a change of current season
 
 import { Queue, Worker, Job, QueueEvents } from 'bullmq';
+import { LeaderboardTimeframe } from '@prisma/client';
 import { getRedisConnection, getSubscriberConnection } from './connection';
-import { prisma } from '../lib/prisma';
+import { prisma, PrismaTransactionClient } from '../lib/prisma';
 import { logger } from '../utils/logger';
 import {
-  getWeekStart,
-  getWeekEnd,
-  getISOWeekNumber,
-  generateWeeklySlug,
   GLOBAL_LEADERBOARD_SLUG,
+  resolveLeaderboardPeriod,
+  findOrCreateLeaderboard,
 } from '../modules/leaderboard/leaderboard.service';
 
 // ===========================================
@@ -30,14 +34,16 @@ export const LEADERBOARD_RESET_QUEUE_NAME = 'leaderboard-reset-queue';
 // Job Types
 // ===========================================
 
+export type LeaderboardResetJobType = 'weekly-reset' | 'monthly-reset' | 'season-reset';
+
 export interface LeaderboardResetJobData {
-  type: 'weekly-reset';
+  type: LeaderboardResetJobType;
   triggeredBy: 'scheduled' | 'manual';
 }
 
 export interface LeaderboardResetJobResult {
   success: boolean;
-  archivedLeaderboard: string | null;
+  archivedLeaderboards: string[];
   newLeaderboard: string | null;
   globalRanksUpdated: number;
   message: string;
@@ -88,8 +94,14 @@ export function getLeaderboardResetQueue(): Queue<LeaderboardResetJobData, Leade
 // Job Processor
 // ===========================================
 
+const RESET_TIMEFRAMES: Record<LeaderboardResetJobType, LeaderboardTimeframe> = {
+  'weekly-reset': 'WEEKLY',
+  'monthly-reset': 'MONTHLY',
+  'season-reset': 'SEASONAL',
+};
+
 /**
- * Process leaderboard weekly reset jobs.
+ * Process leaderboard reset jobs.
  */
 async function processLeaderboardResetJob(
   job: Job<LeaderboardResetJobData, LeaderboardResetJobResult>
@@ -99,13 +111,15 @@ async function processLeaderboardResetJob(
   logger.info(`Processing leaderboard reset job: ${job.id}`, { type, triggeredBy });
 
   try {
-    if (type === 'weekly-reset') {
-      const result = await executeWeeklyReset();
-      logger.info(`Leaderboard reset job ${job.id} completed:`, result);
-      return result;
+    const timeframe = RESET_TIMEFRAMES[type];
+
+    if (!timeframe) {
+      throw new Error(`Unknown job type: ${type}`);
     }
 
-    throw new Error(`Unknown job type: ${type}`);
+    const result = await executePeriodReset(type, timeframe);
+    logger.info(`Leaderboard reset job ${job.id} completed:`, result);
+    return result;
   } catch (error) {
     logger.error(`Leaderboard reset job ${job.id} failed:`, error);
     throw error; // Let BullMQ handle retry
@@ -113,137 +127,175 @@ async function processLeaderboardResetJob(
 }
 
 /**
- * Execute the weekly leaderboard reset.
+ * Snapshot final ranks and archive every active board of a timeframe
+ * that doesn't belong to the current period.
  */
-async function executeWeeklyReset(): Promise<LeaderboardResetJobResult> {
-  logger.info('[LeaderboardReset] Starting weekly reset...');
-
-  const now = new Date();
-  const currentWeekStart = getWeekStart(now);
-  const currentWeeklySlug = generateWeeklySlug(currentWeekStart);
+async function archiveEndedLeaderboards(
+  tx: PrismaTransactionClient,
+  timeframe: LeaderboardTimeframe,
+  currentBaseSlug: string | null,
+  now: Date
+): Promise<string[]> {
+  const activeBoards = await tx.leaderboard.findMany({
+    where: { timeframe, status: 'active' },
+    select: { id: true, slug: true },
+  });
 
-  // Get the previous week's dates
-  const prevWeekStart = new Date(currentWeekStart);
-  prevWeekStart.setUTCDate(prevWeekStart.getUTCDate() - 7);
-  const prevWeeklySlug = generateWeeklySlug(prevWeekStart);
+  // Per-sport boards share the all-sports slug as a prefix
+  const ended = activeBoards.filter(
+    (board) =>
+      !currentBaseSlug ||
+      (board.slug !== currentBaseSlug && !board.slug.startsWith(`${currentBaseSlug}-`))
+  );
 
-  let archivedLeaderboard: string | null = null;
-  let newLeaderboard: string | null = null;
-  let globalRanksUpdated = 0;
+  for (const board of ended) {
+    // Snapshot ranks before archiving using raw query with ROW_NUMBER
+    const entries = await tx.$queryRaw<Array<{ id: string; rank: bigint }>>`
+      SELECT
+        id,
+        ROW_NUMBER() OVER (
+          ORDER BY score DESC, win_rate DESC, matches_played DESC
+        ) as rank
+      FROM leaderboard_entries
+      WHERE leaderboard_id = ${board.id}
+    `;
+
+    // Update stored ranks
+    for (const entry of entries) {
+      await tx.leaderboardEntry.update({
+        where: { id: entry.id },
+        data: { rank: Number(entry.rank) },
+      });
+    }
 
-  await prisma.$transaction(async (tx) => {
-    // 1. Archive previous week's leaderboard
-    const prevWeekly = await tx.leaderboard.findUnique({
-      where: { slug: prevWeeklySlug },
+    await tx.leaderboard.update({
+      where: { id: board.id },
+      data: {
+        status: 'archived',
+        archivedAt: now,
+      },
     });
 
-    if (prevWeekly && prevWeekly.status === 'active') {
-      // Snapshot ranks before archiving using raw query with ROW_NUMBER
-      const entries = await tx.$queryRaw<Array<{ id: string; rank: bigint }>>`
-        SELECT
-          id,
-          ROW_NUMBER() OVER (
-            ORDER BY score DESC, win_rate DESC, matches_played DESC
-          ) as rank
-        FROM leaderboard_entries
-        WHERE leaderboard_id = ${prevWeekly.id}
-      `;
-
-      // Update stored ranks
-      for (const entry of entries) {
-        await tx.leaderboardEntry.update({
-          where: { id: entry.id },
-          data: { rank: Number(entry.rank) },
-        });
-      }
+    logger.info(`[LeaderboardReset] Archived leaderboard: ${board.slug}`);
+  }
 
-      // Archive the leaderboard
-      await tx.leaderboard.update({
-        where: { id: prevWeekly.id },
-        data: {
-          status: 'archived',
-          archivedAt: now,
-        },
-      });
+  return ended.map((board) => board.slug);
+}
 
-      archivedLeaderboard = prevWeeklySlug;
-      logger.info(`[LeaderboardReset] Archived leaderboard: ${prevWeeklySlug}`);
-    }
+/**
+ * Snapshot global previousRank values so rank changes are shown week over week.
+ */
+async function snapshotGlobalRanks(tx: PrismaTransactionClient): Promise<number> {
+  const globalLeaderboard = await tx.leaderboard.findUnique({
+    where: { slug: GLOBAL_LEADERBOARD_SLUG },
+  });
 
-    // 2. Update global leaderboard previousRank values
-    const globalLeaderboard = await tx.leaderboard.findUnique({
-      where: { slug: GLOBAL_LEADERBOARD_SLUG },
+  if (!globalLeaderboard) {
+    return 0;
+  }
+
+  const globalEntries = await tx.$queryRaw<Array<{ id: string; rank: bigint }>>`
+    SELECT
+      id,
+      ROW_NUMBER() OVER (
+        ORDER BY score DESC, win_rate DESC, matches_played DESC
+      ) as rank
+    FROM leaderboard_entries
+    WHERE leaderboard_id = ${globalLeaderboard.id}
+  `;
+
+  for (const entry of globalEntries) {
+    await tx.leaderboardEntry.update({
+      where: { id: entry.id },
+      data: {
+        previousRank: Number(entry.rank),
+        rank: Number(entry.rank),
+      },
     });
+  }
 
-    if (globalLeaderboard) {
-      const globalEntries = await tx.$queryRaw<Array<{ id: string; rank: bigint }>>`
-        SELECT
-          id,
-          ROW_NUMBER() OVER (
-            ORDER BY score DESC, win_rate DESC, matches_played DESC
-          ) as rank
-        FROM leaderboard_entries
-        WHERE leaderboard_id = ${globalLeaderboard.id}
-      `;
-
-      for (const entry of globalEntries) {
-        await tx.leaderboardEntry.update({
-          where: { id: entry.id },
-          data: {
-            previousRank: Number(entry.rank),
-            rank: Number(entry.rank),
-          },
-        });
-      }
+  logger.info(`[LeaderboardReset] Updated ${globalEntries.length} global previousRank values`);
+  return globalEntries.length;
+}
 
-      globalRanksUpdated = globalEntries.length;
-      logger.info(`[LeaderboardReset] Updated ${globalRanksUpdated} global previousRank values`);
-    }
+/**
+ * Execute a period reset for one timeframe.
+ */
+async function executePeriodReset(
+  type: LeaderboardResetJobType,
+  timeframe: LeaderboardTimeframe
+): Promise<LeaderboardResetJobResult> {
+  logger.info(`[LeaderboardReset] Starting ${type}...`);
 
-    // 3. Create new weekly leaderboard (if doesn't exist)
-    const existingCurrent = await tx.leaderboard.findUnique({
-      where: { slug: currentWeeklySlug },
-    });
+  const now = new Date();
 
-    if (!existingCurrent) {
-      const weekEnd = getWeekEnd(currentWeekStart);
-      const weekNum = getISOWeekNumber(currentWeekStart);
-
-      await tx.leaderboard.create({
-        data: {
-          name: `Weekly Leaderboard - Week ${weekNum}, ${currentWeekStart.getUTCFullYear()}`,
-          slug: currentWeeklySlug,
-          timeframe: 'WEEKLY',
-          status: 'active',
-          periodStart: currentWeekStart,
-          periodEnd: weekEnd,
-          displayOrder: 1,
-        },
+  let archivedLeaderboards: string[] = [];
+  let newLeaderboard: string | null = null;
+  let globalRanksUpdated = 0;
+
+  await prisma.$transaction(async (tx) => {
+    // null for SEASONAL when no season is current - every seasonal board is archived
+    const currentPeriod = await resolveLeaderboardPeriod(tx, timeframe, null, { date: now });
+
+    // 1. Archive boards from ended periods
+    archivedLeaderboards = await archiveEndedLeaderboards(
+      tx,
+      timeframe,
+      currentPeriod?.slug ?? null,
+      now
+    );
+
+    // 2. Update global leaderboard previousRank values
+    if (type === 'weekly-reset') {
+      globalRanksUpdated = await snapshotGlobalRanks(tx);
+    }
+
+    // 3. Create new all-sports leaderboard (if doesn't exist)
+    if (currentPeriod) {
+      const existingCurrent = await tx.leaderboard.findUnique({
+        where: { slug: currentPeriod.slug },
       });
 
-      newLeaderboard = currentWeeklySlug;
-      logger.info(`[LeaderboardReset] Created new weekly leaderboard: ${currentWeeklySlug}`);
+      if (!existingCurrent) {
+        await findOrCreateLeaderboard(tx, currentPeriod);
+        newLeaderboard = currentPeriod.slug;
+        logger.info(`[LeaderboardReset] Created new leaderboard: ${currentPeriod.slug}`);
+      }
     }
   });
 
-  // Trigger full cache rebuild after weekly reset
+  // Nothing rolled over (e.g. hourly season check with an unchanged season)
+  if (archivedLeaderboards.length === 0 && !newLeaderboard && globalRanksUpdated === 0) {
+    return {
+      success: true,
+      archivedLeaderboards,
+      newLeaderboard,
+      globalRanksUpdated,
+      message: `No ${timeframe.toLowerCase()} rollover needed`,
+      timestamp: now.toISOString(),
+    };
+  }
+
+  // Trigger full cache rebuild after reset
   try {
     const { queueFullCacheRebuild } = await import('./leaderboard.queue');
-    await queueFullCacheRebuild('weekly-reset');
-    logger.info('[LeaderboardReset] Queued cache rebuild after weekly reset');
+    await queueFullCacheRebuild(type);
+    logger.info(`[LeaderboardReset] Queued cache rebuild after ${type}`);
   } catch (cacheError) {
     // Cache rebuild failure should not fail the reset
     logger.error('[LeaderboardReset] Failed to queue cache rebuild:', cacheError);
   }
 
-  logger.info('[LeaderboardReset] Weekly reset complete');
+  logger.info(`[LeaderboardReset] ${type} complete`);
 
   return {
     success: true,
-    archivedLeaderboard,
+    archivedLeaderboards,
     newLeaderboard,
     globalRanksUpdated,
-    message: `Weekly reset completed. Archived: ${archivedLeaderboard ?? 'none'}, Created: ${newLeaderboard ?? 'none'}`,
+    message:
+      `${timeframe} reset completed. Archived: ${archivedLeaderboards.join(', ') || 'none'}, ` +
+      `Created: ${newLeaderboard ?? 'none'}`,
     timestamp: now.toISOString(),
   };
 }
@@ -313,55 +365,64 @@ export async function stopLeaderboardResetWorker(): Promise<void> {
 // Job Scheduling
 // ===========================================
 
+const RESET_SCHEDULES: Array<{ name: string; type: LeaderboardResetJobType; pattern: string }> = [
+  { name: 'weekly-leaderboard-reset', type: 'weekly-reset', pattern: '0 0 * * 1' }, // At 00:00 on Monday
+  { name: 'monthly-leaderboard-reset', type: 'monthly-reset', pattern: '0 0 1 * *' }, // At 00:00 on the 1st
+  { name: 'season-leaderboard-reset', type: 'season-reset', pattern: '10 * * * *' }, // Every hour at :10
+];
+
 /**
- * Schedule the recurring weekly leaderboard reset job.
- * Runs every Monday at 00:00 UTC.
+ * Schedule the recurring weekly, monthly and seasonal leaderboard resets.
  */
-export async function scheduleWeeklyLeaderboardReset(): Promise<void> {
+export async function scheduleLeaderboardResets(): Promise<void> {
   const queue = getLeaderboardResetQueue();
+  const scheduleNames = new Set(RESET_SCHEDULES.map((schedule) => schedule.name));
 
   // Remove any existing scheduled jobs
   const repeatableJobs = await queue.getRepeatableJobs();
   for (const job of repeatableJobs) {
-    if (job.name === 'weekly-leaderboard-reset') {
+    if (scheduleNames.has(job.name)) {
       await queue.removeRepeatableByKey(job.key);
     }
   }
 
-  // Schedule new recurring job (every Monday at 00:00 UTC)
-  await queue.add(
-    'weekly-leaderboard-reset',
-    {
-      type: 'weekly-reset',
-      triggeredBy: 'scheduled',
-    },
-    {
-      repeat: {
-        pattern: '0 0 * * 1', // At 00:00 on Monday
-        tz: 'UTC',
+  for (const schedule of RESET_SCHEDULES) {
+    await queue.add(
+      schedule.name,
+      {
+        type: schedule.type,
+        triggeredBy: 'scheduled',
       },
-      jobId: 'leaderboard-weekly-reset',
-    }
-  );
+      {
+        repeat: {
+          pattern: schedule.pattern,
+          tz: 'UTC',
+        },
+        jobId: `leaderboard-${schedule.type}`,
+      }
+    );
+  }
 
-  logger.info('Leaderboard weekly reset scheduled to run every Monday at 00:00 UTC');
+  logger.info(
+    'Leaderboard resets scheduled: weekly (Mondays 00:00 UTC), monthly (1st 00:00 UTC), seasonal (hourly check)'
+  );
 }
 
 /**
- * Queue an immediate weekly reset (for manual triggers or testing).
+ * Queue an immediate leaderboard reset (for manual triggers or testing).
  * Returns the job for tracking.
  */
-export async function queueImmediateLeaderboardReset(): Promise<
-  Job<LeaderboardResetJobData, LeaderboardResetJobResult>
-> {
+export async function queueImmediateLeaderboardReset(
+  type: LeaderboardResetJobType = 'weekly-reset'
+): Promise<Job<LeaderboardResetJobData, LeaderboardResetJobResult>> {
   const queue = getLeaderboardResetQueue();
 
-  const jobId = `leaderboard-reset-${Date.now()}`;
+  const jobId = `leaderboard-${type}-${Date.now()}`;
 
   const job = await queue.add(
-    'weekly-leaderboard-reset-immediate',
+    `${type}-immediate`,
     {
-      type: 'weekly-reset',
+      type,
       triggeredBy: 'manual',
     },
     {
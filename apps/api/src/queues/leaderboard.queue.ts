@@ -8,6 +8,7 @@
 import { Queue, Worker, Job } from 'bullmq';
 import { getRedisConnection, getSubscriberConnection } from './connection';
 import { logger } from '../utils/logger';
+import type { LeaderboardResetJobType } from './leaderboard-reset.queue';
 
 // ===========================================
 // Queue Name Constants
@@ -38,7 +39,7 @@ export interface LeaderboardUpdateJobData {
   /** Current weekly leaderboard slug */
   weeklySlug?: string;
   /** What triggered this job */
-  triggeredBy: 'settlement' | 'weekly-reset' | 'manual' | 'startup';
+  triggeredBy: 'settlement' | LeaderboardResetJobType | 'manual' | 'startup';
   /** ISO timestamp when job was received */
   receivedAt: string;
 }
@@ -117,9 +118,9 @@ async function processLeaderboardUpdateJob(
     // Lazy imports to avoid circular dependencies
     const {
       rebuildLeaderboardCaches,
-      updateGlobalLeaderboardCache,
-      updateWeeklyLeaderboardCache,
+      updateLeaderboardCachesForSports,
     } = await import('../modules/leaderboard/leaderboard-cache.service');
+    const { getMatchSport } = await import('../modules/leaderboard/leaderboard.service');
 
     switch (type) {
       case 'update-after-settlement': {
@@ -131,16 +132,20 @@ async function processLeaderboardUpdateJob(
         // For settlement updates, we do a full cache rebuild to ensure accuracy
         // This is more reliable than incremental updates which may miss edge cases
         // (e.g., users moving in/out of top 100)
-        const globalCount = await updateGlobalLeaderboardCache();
-        const weeklyCount = await updateWeeklyLeaderboardCache();
+        // Single-sport matches also moved that sport's boards
+        const sport = matchId ? await getMatchSport(matchId) : null;
+        const { globalEntries: globalCount, weeklyEntries: weeklyCount, boardsUpdated } =
+          await updateLeaderboardCachesForSports(sport ? [null, sport] : [null]);
 
         logger.info(`[LeaderboardUpdate] Settlement cache update for match ${matchId}`, {
           creatorId,
           opponentId,
           creatorScore,
           opponentScore,
+          sport,
           globalCount,
           weeklyCount,
+          boardsUpdated,
         });
 
         return {
@@ -155,7 +160,7 @@ async function processLeaderboardUpdateJob(
       }
 
       case 'full-cache-rebuild': {
-        // Full cache rebuild (startup, weekly reset, manual trigger)
+        // Full cache rebuild (startup, period reset, manual trigger)
         const result = await rebuildLeaderboardCaches();
 
         logger.info(`[LeaderboardUpdate] Full cache rebuild complete`, {
@@ -311,12 +316,12 @@ export async function queueLeaderboardUpdateAfterSettlement(
 
 /**
  * Queue a full cache rebuild.
- * Used on startup, weekly reset, or admin trigger.
+ * Used on startup, period reset, or admin trigger.
  *
  * @param triggeredBy - What triggered this rebuild
  */
 export async function queueFullCacheRebuild(
-  triggeredBy: 'weekly-reset' | 'manual' | 'startup'
+  triggeredBy: LeaderboardResetJobType | 'manual' | 'startup'
 ): Promise<Job<LeaderboardUpdateJobData, LeaderboardUpdateJobResult>> {
   const queue = getLeaderboardUpdateQueue();
 
@@ -0,0 +1,199 @@
+// =====================================================
+// League Round Queue - Scheduled League Pairing
+// =====================================================
+// Starts private league rounds once they fall due: pairs members
+// round robin into matches and returns unpaired slips.
+// CRITICAL: Rounds are claimed with optimistic locking in the service
+// layer, so overlapping runs never start a round twice.
+
+import { Queue, Worker, Job } from 'bullmq';
+import { getRedisConnection, getSubscriberConnection } from './connection';
+import { logger } from '../utils/logger';
+import { processDueLeagueRounds } from '../modules/leagues/leagues.service';
+
+// ===========================================
+// Queue Name Constants
+// ===========================================
+
+export const LEAGUE_ROUND_QUEUE_NAME = 'league-round-queue';
+
+// ===========================================
+// Job Types
+// ===========================================
+
+export interface LeagueRoundJobData {
+  type: 'start-due-rounds';
+  triggeredBy: 'scheduled' | 'manual';
+}
+
+export interface LeagueRoundJobResult {
+  success: boolean;
+  matchesCreated: number;
+  message: string;
+  timestamp: string;
+}
+
+// ===========================================
+// Queue Instance (Singleton)
+// ===========================================
+
+let leagueRoundQueue: Queue<LeagueRoundJobData, LeagueRoundJobResult> | null = null;
+let leagueRoundWorker: Worker<LeagueRoundJobData, LeagueRoundJobResult> | null = null;
+
+/**
+ * Get or create the league round queue instance.
+ */
+export function getLeagueRoundQueue(): Queue<LeagueRoundJobData, LeagueRoundJobResult> {
+  if (!leagueRoundQueue) {
+    leagueRoundQueue = new Queue<LeagueRoundJobData, LeagueRoundJobResult>(
+      LEAGUE_ROUND_QUEUE_NAME,
+      {
+        connection: getRedisConnection(),
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: {
+            age: 24 * 60 * 60, // Keep completed jobs for 24 hours
+            count: 200,
+          },
+          removeOnFail: {
+            age: 7 * 24 * 60 * 60, // Keep failed jobs for 7 days
+          },
+        },
+      }
+    );
+
+    logger.info(`League round queue initialized: ${LEAGUE_ROUND_QUEUE_NAME}`);
+  }
+
+  return leagueRoundQueue;
+}
+
+// ===========================================
+// Job Processor
+// ===========================================
+
+/**
+ * Process league round jobs.
+ */
+async function processLeagueRoundJob(
+  job: Job<LeagueRoundJobData, LeagueRoundJobResult>
+): Promise<LeagueRoundJobResult> {
+  const { type, triggeredBy } = job.data;
+
+  logger.info(`Processing league round job: ${job.id}`, { type, triggeredBy });
+
+  try {
+    if (type === 'start-due-rounds') {
+      const matchesCreated = await processDueLeagueRounds();
+
+      return {
+        success: true,
+        matchesCreated,
+        message: `Created ${matchesCreated} league matches`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    throw new Error(`Unknown job type: ${type}`);
+  } catch (error) {
+    logger.error(`League round job ${job.id} failed:`, error);
+    throw error; // Let BullMQ handle retry
+  }
+}
+
+// ===========================================
+// Worker Management
+// ===========================================
+
+/**
+ * Start the league round worker.
+ * Should be called once during application startup.
+ */
+export function startLeagueRoundWorker(): Worker<LeagueRoundJobData, LeagueRoundJobResult> {
+  if (leagueRoundWorker) {
+    logger.warn('League round worker already running');
+    return leagueRoundWorker;
+  }
+
+  leagueRoundWorker = new Worker<LeagueRoundJobData, LeagueRoundJobResult>(
+    LEAGUE_ROUND_QUEUE_NAME,
+    processLeagueRoundJob,
+    {
+      connection: getSubscriberConnection(),
+      concurrency: 1, // Rounds are processed sequentially
+    }
+  );
+
+  leagueRoundWorker.on('completed', (job, result) => {
+    logger.info(`League round job ${job.id} completed:`, result);
+  });
+
+  leagueRoundWorker.on('failed', (job, error) => {
+    logger.error(`League round job ${job?.id} failed:`, error);
+  });
+
+  leagueRoundWorker.on('error', (error) => {
+    logger.error('League round worker error:', error);
+  });
+
+  logger.info('League round worker started');
+  return leagueRoundWorker;
+}
+
+/**
+ * Stop the league round worker gracefully.
+ * Should be called during application shutdown.
+ */
+export async function stopLeagueRoundWorker(): Promise<void> {
+  if (leagueRoundWorker) {
+    await leagueRoundWorker.close();
+    leagueRoundWorker = null;
+    logger.info('League round worker stopped');
+  }
+
+  if (leagueRoundQueue) {
+    await leagueRoundQueue.close();
+    leagueRoundQueue = null;
+  }
+}
+
+// ===========================================
+// Job Scheduling
+// ===========================================
+
+/**
+ * Schedule the recurring due-round check.
+ * Rounds start on the hour, so checking every 15 minutes starts them
+ * promptly and catches up after downtime.
+ */
+export async function scheduleLeagueRounds(): Promise<void> {
+  const queue = getLeagueRoundQueue();
+
+  // Remove any existing scheduled jobs
+  const repeatableJobs = await queue.getRepeatableJobs();
+  for (const job of repeatableJobs) {
+    if (job.name === 'start-due-league-rounds') {
+      await queue.removeRepeatableByKey(job.key);
+    }
+  }
+
+  await queue.add(
+    'start-due-league-rounds',
+    {
+      type: 'start-due-rounds',
+      triggeredBy: 'scheduled',
+    },
+    {
+      repeat: {
+        pattern: '*/15 * * * *', // Every 15 minutes
+      },
+      jobId: 'league-round-check',
+    }
+  );
+
+  logger.info('League round checks scheduled to run every 15 minutes');
+}
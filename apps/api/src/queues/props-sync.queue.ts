@@ -14,6 +14,7 @@ import { SportType, OddsData, PlayerPropData } from '../services/events/types';
 import { NBAFetcher } from '../services/events/fetchers/nba.fetcher';
 import { NFLFetcher } from '../services/events/fetchers/nfl.fetcher';
 import { BaseSportsFetcher } from '../services/events/fetchers/base.fetcher';
+import { recordOddsSnapshots } from '../services/events/odds-history.service';
 
 // ===========================================
 // Queue Name Constants
@@ -139,6 +140,8 @@ async function updateEventProps(eventId: string, props: PlayerPropData[]): Promi
       oddsUpdatedAt: new Date(),
     },
   });
+
+  await recordOddsSnapshots(eventId, updatedOdds, { source: 'props-sync', markets: ['prop'] });
 }
 
 // ===========================================
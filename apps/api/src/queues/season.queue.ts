@@ -6,6 +6,7 @@
 // 2. Season end transition (ACTIVE -> ENDED)
 // 3. Ranking finalization after grace period
 // 4. Season reward distribution
+// 5. Activation of scheduled seasons once their start date passes
 //
 // CRITICAL: Uses distributed locks to prevent concurrent processing.
 
@@ -19,6 +20,7 @@ import {
   SEASON_WORKER_CONFIG,
 } from '@pick-rivals/shared-types';
 import { calculateNewRank, distributeSeasonRewards } from '../services/ranked.service';
+import { activateSeason } from '../services/season.service';
 
 // ===========================================
 // Queue Name Constants
@@ -35,7 +37,9 @@ export type SeasonJobType =
   | 'check-season-end'
   | 'end-season'
   | 'finalize-rankings'
-  | 'distribute-rewards';
+  | 'distribute-rewards'
+  | 'check-season-start'
+  | 'activate-season';
 
 export interface SeasonJobData {
   type: SeasonJobType;
@@ -54,6 +58,8 @@ export interface SeasonJobResult {
     entriesFinalized?: number;
     rewardsClaimed?: number;
     totalCoinsDistributed?: number;
+    seasonsActivated?: number;
+    entriesCarriedOver?: number;
     errors?: string[];
   };
 }
@@ -132,6 +138,13 @@ async function processSeasonJob(
           throw new Error('seasonId is required for distribute-rewards job');
         }
         return await processRewardDistribution(seasonId);
+      case 'check-season-start':
+        return await processSeasonStartCheck();
+      case 'activate-season':
+        if (!seasonId) {
+          throw new Error('seasonId is required for activate-season job');
+        }
+        return await processSeasonActivation(seasonId);
       default:
         throw new Error(`Unknown job type: ${type}`);
     }
@@ -621,6 +634,118 @@ async function processRewardDistribution(seasonId: string): Promise<SeasonJobRes
   }
 }
 
+/**
+ * Check if a scheduled season is due to start.
+ * Activates one season at a time, and only once no season is ACTIVE -
+ * the previous season must end first.
+ */
+async function processSeasonStartCheck(): Promise<SeasonJobResult> {
+  logger.info('[Season] Checking for seasons ready to start');
+
+  const now = new Date();
+
+  const activeSeason = await prisma.season.findFirst({
+    where: { status: SeasonStatus.ACTIVE },
+    select: { id: true, name: true },
+  });
+
+  if (activeSeason) {
+    logger.info(`[Season] ${activeSeason.name} (${activeSeason.id}) still active, not starting another`);
+    return {
+      success: true,
+      message: 'A season is still active',
+      timestamp: now.toISOString(),
+      stats: { seasonsActivated: 0 },
+    };
+  }
+
+  const nextSeason = await prisma.season.findFirst({
+    where: {
+      status: SeasonStatus.SCHEDULED,
+      startDate: { lte: now },
+      endDate: { gt: now },
+    },
+    orderBy: { startDate: 'asc' },
+    select: { id: true, name: true },
+  });
+
+  if (!nextSeason) {
+    logger.info('[Season] No seasons ready to start');
+    return {
+      success: true,
+      message: 'No seasons to start',
+      timestamp: now.toISOString(),
+      stats: { seasonsActivated: 0 },
+    };
+  }
+
+  const queue = getSeasonQueue();
+  await queue.add(
+    'activate-season',
+    {
+      type: 'activate-season',
+      seasonId: nextSeason.id,
+      triggeredBy: 'scheduled',
+    },
+    {
+      jobId: `season-activate-${nextSeason.id}`,
+      priority: 1, // High priority for season transitions
+    }
+  );
+
+  logger.info(`[Season] Queued activate-season job for: ${nextSeason.name} (${nextSeason.id})`);
+
+  return {
+    success: true,
+    message: `Queued ${nextSeason.name} for activation`,
+    timestamp: now.toISOString(),
+    stats: { seasonsActivated: 1 },
+  };
+}
+
+/**
+ * Activate a scheduled season and soft-reset returning players.
+ * Idempotent - safe to call multiple times.
+ */
+async function processSeasonActivation(seasonId: string): Promise<SeasonJobResult> {
+  logger.info(`[Season] Activating season: ${seasonId}`);
+
+  const now = new Date();
+
+  // Distributed lock to prevent concurrent activation
+  const redis = getRedisConnection();
+  const lockKey = `season:activate:${seasonId}:lock`;
+  const lockResult = await redis.set(lockKey, 'worker', 'EX', SEASON_WORKER_CONFIG.LOCK_TTL_SECONDS, 'NX');
+
+  if (lockResult !== 'OK') {
+    logger.info(`[Season] Lock held by another worker for season activation ${seasonId}`);
+    return {
+      success: true,
+      message: `Season ${seasonId} activation in progress by another worker`,
+      timestamp: now.toISOString(),
+    };
+  }
+
+  try {
+    const result = await activateSeason(seasonId, { now });
+
+    return {
+      success: true,
+      message: result.activated
+        ? `Season ${seasonId} activated`
+        : `Season ${seasonId} already active`,
+      timestamp: now.toISOString(),
+      stats: {
+        seasonsActivated: result.activated ? 1 : 0,
+        entriesCarriedOver: result.carriedOver,
+      },
+    };
+  } finally {
+    // Release distributed lock
+    await redis.del(lockKey);
+  }
+}
+
 // ===========================================
 // Worker Management
 // ===========================================
@@ -686,6 +811,7 @@ export async function stopSeasonWorker(): Promise<void> {
  * Runs:
  * - Daily decay: Every day at 2:00 AM UTC
  * - Season end check: Every hour at :05
+ * - Season start check: Every hour at :10
  */
 export async function scheduleSeasonJobs(): Promise<void> {
   const queue = getSeasonQueue();
@@ -693,7 +819,11 @@ export async function scheduleSeasonJobs(): Promise<void> {
   // Remove existing scheduled jobs
   const repeatableJobs = await queue.getRepeatableJobs();
   for (const job of repeatableJobs) {
-    if (job.name === 'season-daily-decay' || job.name === 'season-end-check') {
+    if (
+      job.name === 'season-daily-decay' ||
+      job.name === 'season-end-check' ||
+      job.name === 'season-start-check'
+    ) {
       await queue.removeRepeatableByKey(job.key);
     }
   }
@@ -733,6 +863,24 @@ export async function scheduleSeasonJobs(): Promise<void> {
   );
 
   logger.info(`Season end check scheduled: ${SEASON_WORKER_CONFIG.SEASON_CHECK_CRON}`);
+
+  // Schedule season start check job
+  await queue.add(
+    'season-start-check',
+    {
+      type: 'check-season-start',
+      triggeredBy: 'scheduled',
+    },
+    {
+      repeat: {
+        pattern: SEASON_WORKER_CONFIG.SEASON_START_CHECK_CRON, // '10 * * * *' - Every hour at :10
+        tz: 'UTC',
+      },
+      jobId: 'season-start-check-scheduled',
+    }
+  );
+
+  logger.info(`Season start check scheduled: ${SEASON_WORKER_CONFIG.SEASON_START_CHECK_CRON}`);
 }
 
 // ===========================================
@@ -0,0 +1,200 @@
+// =====================================================
+// Tournament Queue - Bracket Scheduling
+// =====================================================
+// Starts tournaments when registration closes, forfeits bracket
+// matches whose slip deadline passed, and retries bracket advancement
+// and prize payouts that a settlement hook left unfinished.
+// CRITICAL: Every step is claimed with conditional updates in the
+// service layer, so overlapping runs never start or pay out twice.
+
+import { Queue, Worker, Job } from 'bullmq';
+import { getRedisConnection, getSubscriberConnection } from './connection';
+import { logger } from '../utils/logger';
+import { processDueTournaments } from '../modules/tournaments/tournaments.service';
+
+// ===========================================
+// Queue Name Constants
+// ===========================================
+
+export const TOURNAMENT_QUEUE_NAME = 'tournament-queue';
+
+// ===========================================
+// Job Types
+// ===========================================
+
+export interface TournamentJobData {
+  type: 'process-due-tournaments';
+  triggeredBy: 'scheduled' | 'manual';
+}
+
+export interface TournamentJobResult {
+  success: boolean;
+  tournamentsProcessed: number;
+  message: string;
+  timestamp: string;
+}
+
+// ===========================================
+// Queue Instance (Singleton)
+// ===========================================
+
+let tournamentQueue: Queue<TournamentJobData, TournamentJobResult> | null = null;
+let tournamentWorker: Worker<TournamentJobData, TournamentJobResult> | null = null;
+
+/**
+ * Get or create the tournament queue instance.
+ */
+export function getTournamentQueue(): Queue<TournamentJobData, TournamentJobResult> {
+  if (!tournamentQueue) {
+    tournamentQueue = new Queue<TournamentJobData, TournamentJobResult>(
+      TOURNAMENT_QUEUE_NAME,
+      {
+        connection: getRedisConnection(),
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: {
+            age: 24 * 60 * 60, // Keep completed jobs for 24 hours
+            count: 200,
+          },
+          removeOnFail: {
+            age: 7 * 24 * 60 * 60, // Keep failed jobs for 7 days
+          },
+        },
+      }
+    );
+
+    logger.info(`Tournament queue initialized: ${TOURNAMENT_QUEUE_NAME}`);
+  }
+
+  return tournamentQueue;
+}
+
+// ===========================================
+// Job Processor
+// ===========================================
+
+/**
+ * Process tournament jobs.
+ */
+async function processTournamentJob(
+  job: Job<TournamentJobData, TournamentJobResult>
+): Promise<TournamentJobResult> {
+  const { type, triggeredBy } = job.data;
+
+  logger.info(`Processing tournament job: ${job.id}`, { type, triggeredBy });
+
+  try {
+    if (type === 'process-due-tournaments') {
+      const tournamentsProcessed = await processDueTournaments();
+
+      return {
+        success: true,
+        tournamentsProcessed,
+        message: `Started or advanced ${tournamentsProcessed} tournaments`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    throw new Error(`Unknown job type: ${type}`);
+  } catch (error) {
+    logger.error(`Tournament job ${job.id} failed:`, error);
+    throw error; // Let BullMQ handle retry
+  }
+}
+
+// ===========================================
+// Worker Management
+// ===========================================
+
+/**
+ * Start the tournament worker.
+ * Should be called once during application startup.
+ */
+export function startTournamentWorker(): Worker<TournamentJobData, TournamentJobResult> {
+  if (tournamentWorker) {
+    logger.warn('Tournament worker already running');
+    return tournamentWorker;
+  }
+
+  tournamentWorker = new Worker<TournamentJobData, TournamentJobResult>(
+    TOURNAMENT_QUEUE_NAME,
+    processTournamentJob,
+    {
+      connection: getSubscriberConnection(),
+      concurrency: 1, // Tournaments are processed sequentially
+    }
+  );
+
+  tournamentWorker.on('completed', (job, result) => {
+    logger.info(`Tournament job ${job.id} completed:`, result);
+  });
+
+  tournamentWorker.on('failed', (job, error) => {
+    logger.error(`Tournament job ${job?.id} failed:`, error);
+  });
+
+  tournamentWorker.on('error', (error) => {
+    logger.error('Tournament worker error:', error);
+  });
+
+  logger.info('Tournament worker started');
+  return tournamentWorker;
+}
+
+/**
+ * Stop the tournament worker gracefully.
+ * Should be called during application shutdown.
+ */
+export async function stopTournamentWorker(): Promise<void> {
+  if (tournamentWorker) {
+    await tournamentWorker.close();
+    tournamentWorker = null;
+    logger.info('Tournament worker stopped');
+  }
+
+  if (tournamentQueue) {
+    await tournamentQueue.close();
+    tournamentQueue = null;
+  }
+}
+
+// ===========================================
+// Job Scheduling
+// ===========================================
+
+/**
+ * Schedule the recurring tournament check.
+ * Bracket rounds normally advance as soon as a match settles; this
+ * check handles registration closing, slip deadlines and retries.
+ */
+export async function scheduleTournamentProcessing(): Promise<void> {
+  const queue = getTournamentQueue();
+
+  // Remove any existing scheduled jobs
+  const repeatableJobs = await queue.getRepeatableJobs();
+  for (const job of repeatableJobs) {
+    if (job.name === 'process-due-tournaments') {
+      await queue.removeRepeatableByKey(job.key);
+    }
+  }
+
+  await queue.add(
+    'process-due-tournaments',
+    {
+      type: 'process-due-tournaments',
+      triggeredBy: 'scheduled',
+    },
+    {
+      repeat: {
+        pattern: '*/5 * * * *', // Every 5 minutes
+      },
+      jobId: 'tournament-check',
+    }
+  );
+
+  logger.info('Tournament checks scheduled to run every 5 minutes');
+}
@@ -0,0 +1,234 @@
+// =====================================================
+// Wallet Reconciliation Queue
+// =====================================================
+// Nightly replay of every wallet ledger against its stored balances
+// and counters (see wallet-reconciliation.service). Admins can also
+// queue a run after fixing drift to confirm it's gone.
+// Runs one at a time: a second run queued mid-run waits its turn.
+
+import { Queue, Worker, Job } from 'bullmq';
+import { getRedisConnection, getSubscriberConnection } from './connection';
+import { logger } from '../utils/logger';
+import {
+  runWalletReconciliation,
+  ReconciliationRunResult,
+} from '../services/wallet-reconciliation.service';
+
+// ===========================================
+// Queue Name Constants
+// ===========================================
+
+export const WALLET_RECONCILIATION_QUEUE_NAME = 'wallet-reconciliation-queue';
+
+// ===========================================
+// Job Types
+// ===========================================
+
+export interface WalletReconciliationJobData {
+  type: 'reconcile-wallets';
+  triggeredBy: 'scheduled' | 'manual';
+}
+
+export interface WalletReconciliationJobResult extends ReconciliationRunResult {
+  success: boolean;
+  timestamp: string;
+}
+
+// ===========================================
+// Queue Instance (Singleton)
+// ===========================================
+
+let walletReconciliationQueue: Queue<
+  WalletReconciliationJobData,
+  WalletReconciliationJobResult
+> | null = null;
+let walletReconciliationWorker: Worker<
+  WalletReconciliationJobData,
+  WalletReconciliationJobResult
+> | null = null;
+
+/**
+ * Get or create the wallet reconciliation queue instance.
+ */
+export function getWalletReconciliationQueue(): Queue<
+  WalletReconciliationJobData,
+  WalletReconciliationJobResult
+> {
+  if (!walletReconciliationQueue) {
+    walletReconciliationQueue = new Queue<WalletReconciliationJobData, WalletReconciliationJobResult>(
+      WALLET_RECONCILIATION_QUEUE_NAME,
+      {
+        connection: getRedisConnection(),
+        defaultJobOptions: {
+          attempts: 2,
+          backoff: {
+            type: 'exponential',
+            delay: 60000,
+          },
+          removeOnComplete: {
+            age: 30 * 24 * 60 * 60, // Keep run summaries for 30 days
+            count: 100,
+          },
+          removeOnFail: {
+            age: 30 * 24 * 60 * 60,
+          },
+        },
+      }
+    );
+
+    logger.info(`Wallet reconciliation queue initialized: ${WALLET_RECONCILIATION_QUEUE_NAME}`);
+  }
+
+  return walletReconciliationQueue;
+}
+
+// ===========================================
+// Job Processor
+// ===========================================
+
+/**
+ * Process wallet reconciliation jobs.
+ */
+async function processWalletReconciliationJob(
+  job: Job<WalletReconciliationJobData, WalletReconciliationJobResult>
+): Promise<WalletReconciliationJobResult> {
+  const { type, triggeredBy } = job.data;
+
+  logger.info(`Processing wallet reconciliation job: ${job.id}`, { type, triggeredBy });
+
+  try {
+    if (type === 'reconcile-wallets') {
+      const result = await runWalletReconciliation();
+
+      return {
+        success: true,
+        ...result,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    throw new Error(`Unknown job type: ${type}`);
+  } catch (error) {
+    logger.error(`Wallet reconciliation job ${job.id} failed:`, error);
+    throw error; // Let BullMQ handle retry
+  }
+}
+
+// ===========================================
+// Worker Management
+// ===========================================
+
+/**
+ * Start the wallet reconciliation worker.
+ * Should be called once during application startup.
+ */
+export function startWalletReconciliationWorker(): Worker<
+  WalletReconciliationJobData,
+  WalletReconciliationJobResult
+> {
+  if (walletReconciliationWorker) {
+    logger.warn('Wallet reconciliation worker already running');
+    return walletReconciliationWorker;
+  }
+
+  walletReconciliationWorker = new Worker<WalletReconciliationJobData, WalletReconciliationJobResult>(
+    WALLET_RECONCILIATION_QUEUE_NAME,
+    processWalletReconciliationJob,
+    {
+      connection: getSubscriberConnection(),
+      concurrency: 1, // One run at a time
+    }
+  );
+
+  walletReconciliationWorker.on('completed', (job, result) => {
+    logger.info(`Wallet reconciliation job ${job.id} completed:`, result);
+  });
+
+  walletReconciliationWorker.on('failed', (job, error) => {
+    logger.error(`Wallet reconciliation job ${job?.id} failed:`, error);
+  });
+
+  walletReconciliationWorker.on('error', (error) => {
+    logger.error('Wallet reconciliation worker error:', error);
+  });
+
+  logger.info('Wallet reconciliation worker started');
+  return walletReconciliationWorker;
+}
+
+/**
+ * Stop the wallet reconciliation worker gracefully.
+ * Should be called during application shutdown.
+ */
+export async function stopWalletReconciliationWorker(): Promise<void> {
+  if (walletReconciliationWorker) {
+    await walletReconciliationWorker.close();
+    walletReconciliationWorker = null;
+    logger.info('Wallet reconciliation worker stopped');
+  }
+
+  if (walletReconciliationQueue) {
+    await walletReconciliationQueue.close();
+    walletReconciliationQueue = null;
+  }
+}
+
+// ===========================================
+// Job Scheduling
+// ===========================================
+
+/**
+ * Schedule the nightly reconciliation run (3:30 AM UTC, after the
+ * 2 AM rank decay and before the 4 AM tier sync).
+ */
+export async function scheduleWalletReconciliation(): Promise<void> {
+  const queue = getWalletReconciliationQueue();
+
+  // Remove any existing scheduled jobs
+  const repeatableJobs = await queue.getRepeatableJobs();
+  for (const job of repeatableJobs) {
+    if (job.name === 'reconcile-wallets') {
+      await queue.removeRepeatableByKey(job.key);
+    }
+  }
+
+  await queue.add(
+    'reconcile-wallets',
+    {
+      type: 'reconcile-wallets',
+      triggeredBy: 'scheduled',
+    },
+    {
+      repeat: {
+        pattern: '30 3 * * *', // Daily at 3:30 AM UTC
+      },
+      jobId: 'wallet-reconciliation-nightly',
+    }
+  );
+
+  logger.info('Wallet reconciliation scheduled daily at 3:30 AM UTC');
+}
+
+/**
+ * Queue a reconciliation run now (admin trigger).
+ */
+export async function queueWalletReconciliation(): Promise<
+  Job<WalletReconciliationJobData, WalletReconciliationJobResult>
+> {
+  const queue = getWalletReconciliationQueue();
+
+  const job = await queue.add(
+    'reconcile-wallets',
+    {
+      type: 'reconcile-wallets',
+      triggeredBy: 'manual',
+    },
+    {
+      jobId: `wallet-reconciliation-manual-${Date.now()}`,
+    }
+  );
+
+  logger.info(`[WalletReconciliation] Queued manual run: ${job.id}`);
+
+  return job;
+}
@@ -0,0 +1,221 @@
+// =====================================================
+// Admin Audit Service Tests
+// =====================================================
+// Covers recording (actor role lookup, transaction client), filtered
+// queries and CSV export (escaping, formula injection, truncation).
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  userFindUnique: vi.fn(),
+  auditCreate: vi.fn(),
+  auditFindMany: vi.fn(),
+  auditCount: vi.fn(),
+}));
+
+vi.mock('../lib/prisma', () => ({
+  prisma: {
+    user: { findUnique: mocks.userFindUnique },
+    adminAuditLog: {
+      create: mocks.auditCreate,
+      findMany: mocks.auditFindMany,
+      count: mocks.auditCount,
+    },
+  },
+}));
+
+vi.mock('../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  recordAdminAction,
+  queryAdminAuditLog,
+  formatAdminAuditCsv,
+  exportAdminAuditLogCsv,
+  ADMIN_AUDIT_CSV_MAX_ROWS,
+} from './admin-audit.service';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+function createLog(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'log-1',
+    createdAt: new Date('2026-03-01T12:00:00Z'),
+    actorId: 'admin-1',
+    actorRole: 'SETTLEMENT_ADMIN',
+    action: 'SCORE_OVERRIDE',
+    targetType: 'event',
+    targetId: 'event-1',
+    reason: 'Provider feed stuck at halftime',
+    previousState: { homeScore: 14, awayScore: 10 },
+    newState: { homeScore: 21, awayScore: 10 },
+    metadata: {},
+    ipAddress: '10.0.0.1',
+    userAgent: 'curl/8.0',
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.userFindUnique.mockResolvedValue({ adminRole: 'SETTLEMENT_ADMIN' });
+  mocks.auditCreate.mockResolvedValue({ id: 'log-1' });
+  mocks.auditFindMany.mockResolvedValue([]);
+  mocks.auditCount.mockResolvedValue(0);
+});
+
+// ===========================================
+// Test: Recording
+// ===========================================
+
+describe('recordAdminAction', () => {
+  it('records the actor with the role they hold', async () => {
+    const id = await recordAdminAction({
+      adminId: 'admin-1',
+      action: 'SCORE_OVERRIDE',
+      targetType: 'event',
+      targetId: 'event-1',
+      previousState: { homeScore: 14 },
+      newState: { homeScore: 21 },
+      reason: 'Provider feed stuck at halftime',
+      ipAddress: '10.0.0.1',
+      userAgent: 'curl/8.0',
+    });
+
+    expect(id).toBe('log-1');
+    expect(mocks.auditCreate).toHaveBeenCalledWith({
+      data: {
+        actorId: 'admin-1',
+        actorRole: 'SETTLEMENT_ADMIN',
+        action: 'SCORE_OVERRIDE',
+        targetType: 'event',
+        targetId: 'event-1',
+        previousState: { homeScore: 14 },
+        newState: { homeScore: 21 },
+        reason: 'Provider feed stuck at halftime',
+        metadata: {},
+        ipAddress: '10.0.0.1',
+        userAgent: 'curl/8.0',
+      },
+      select: { id: true },
+    });
+  });
+
+  it('skips the role lookup when the role is supplied', async () => {
+    await recordAdminAction({
+      adminId: 'admin-1',
+      actorRole: 'SUPER_ADMIN',
+      action: 'LEADERBOARD_CACHE_REBUILD',
+      targetType: 'leaderboard',
+    });
+
+    expect(mocks.userFindUnique).not.toHaveBeenCalled();
+    expect(mocks.auditCreate.mock.calls[0][0].data).toMatchObject({
+      actorRole: 'SUPER_ADMIN',
+      targetId: null,
+      previousState: Prisma.DbNull,
+      newState: Prisma.DbNull,
+    });
+  });
+
+  it('writes through the transaction client when given one', async () => {
+    const tx = {
+      user: { findUnique: vi.fn().mockResolvedValue({ adminRole: 'SUPER_ADMIN' }) },
+      adminAuditLog: { create: vi.fn().mockResolvedValue({ id: 'log-tx' }) },
+    };
+
+    const id = await recordAdminAction(
+      { adminId: 'admin-1', action: 'ADMIN_ROLE_GRANTED', targetType: 'user', targetId: 'user-1' },
+      tx as unknown as Prisma.TransactionClient
+    );
+
+    expect(id).toBe('log-tx');
+    expect(mocks.auditCreate).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// Test: Querying
+// ===========================================
+
+describe('queryAdminAuditLog', () => {
+  it('filters by actor, target and date range', async () => {
+    const from = new Date('2026-03-01T00:00:00Z');
+    const to = new Date('2026-03-02T00:00:00Z');
+
+    await queryAdminAuditLog({
+      actorId: 'admin-1',
+      targetType: 'event',
+      targetId: 'event-1',
+      from,
+      to,
+      page: 2,
+      limit: 50,
+    });
+
+    expect(mocks.auditFindMany).toHaveBeenCalledWith({
+      where: {
+        actorId: 'admin-1',
+        targetType: 'event',
+        targetId: 'event-1',
+        createdAt: { gte: from, lte: to },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: 50,
+      take: 50,
+    });
+  });
+});
+
+// ===========================================
+// Test: CSV Export
+// ===========================================
+
+describe('formatAdminAuditCsv', () => {
+  it('writes a header and one row per entry', () => {
+    const csv = formatAdminAuditCsv([createLog()]);
+    const [header, row] = csv.trimEnd().split('\r\n');
+
+    expect(header).toBe(
+      'createdAt,actorId,actorRole,action,targetType,targetId,reason,previousState,newState,metadata,ipAddress,userAgent'
+    );
+    expect(row).toBe(
+      '2026-03-01T12:00:00.000Z,admin-1,SETTLEMENT_ADMIN,SCORE_OVERRIDE,event,event-1,' +
+        'Provider feed stuck at halftime,' +
+        '"{""homeScore"":14,""awayScore"":10}","{""homeScore"":21,""awayScore"":10}",{},10.0.0.1,curl/8.0'
+    );
+  });
+
+  it('quotes commas and newlines and neutralises formulas', () => {
+    const csv = formatAdminAuditCsv([
+      createLog({ reason: 'Score wrong, see ticket\nline two', userAgent: '=HYPERLINK("x")' }),
+    ]);
+
+    expect(csv).toContain('"Score wrong, see ticket\nline two"');
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
+
+describe('exportAdminAuditLogCsv', () => {
+  it('flags exports that hit the row cap', async () => {
+    mocks.auditFindMany.mockResolvedValue(
+      Array.from({ length: ADMIN_AUDIT_CSV_MAX_ROWS + 1 }, () => createLog())
+    );
+
+    const result = await exportAdminAuditLogCsv({ action: 'SCORE_OVERRIDE' });
+
+    expect(mocks.auditFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { action: 'SCORE_OVERRIDE' }, take: ADMIN_AUDIT_CSV_MAX_ROWS + 1 })
+    );
+    expect(result.truncated).toBe(true);
+    expect(result.rowCount).toBe(ADMIN_AUDIT_CSV_MAX_ROWS);
+  });
+});
@@ -0,0 +1,237 @@
+// =====================================================
+// Admin Audit Service
+// =====================================================
+// System-wide trail of privileged admin actions: who (and with which
+// role) did what to which target, with before/after state and the
+// request's IP and user agent.
+//
+// Domain logs (MatchAuditLog, UserAuditLog) are still written where
+// they exist - this log is the single place to answer "who changed X".
+// CRITICAL: Pass the transaction client when the action itself is
+// transactional, so the entry commits (or rolls back) with it.
+
+import { AdminRole, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../utils/logger';
+
+// ===========================================
+// Types
+// ===========================================
+
+export type AdminAuditTargetType =
+  | 'match'
+  | 'event'
+  | 'dispute'
+  | 'user'
+  | 'wallet'
+  | 'leaderboard'
+  | 'tournament'
+  | 'season';
+
+/**
+ * Request details captured with every admin action.
+ */
+export interface AdminActionContext {
+  adminId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AdminAuditEntry extends AdminActionContext {
+  action: string;
+  targetType: AdminAuditTargetType;
+  targetId?: string | null;
+  previousState?: Record<string, unknown> | null;
+  newState?: Record<string, unknown> | null;
+  reason?: string | null;
+  metadata?: Record<string, unknown>;
+  /** Looked up from the admin's account when omitted */
+  actorRole?: AdminRole | null;
+}
+
+export interface AdminAuditQuery {
+  actorId?: string;
+  action?: string;
+  targetType?: AdminAuditTargetType;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+type AuditClient = Prisma.TransactionClient | typeof prisma;
+
+// ===========================================
+// Constants
+// ===========================================
+
+/** Upper bound on rows in a single CSV export */
+export const ADMIN_AUDIT_CSV_MAX_ROWS = 10000;
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'actorId',
+  'actorRole',
+  'action',
+  'targetType',
+  'targetId',
+  'reason',
+  'previousState',
+  'newState',
+  'metadata',
+  'ipAddress',
+  'userAgent',
+] as const;
+
+// ===========================================
+// Recording
+// ===========================================
+
+function toJson(
+  value: Record<string, unknown> | null | undefined
+): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  return value ? (value as Prisma.InputJsonValue) : Prisma.DbNull;
+}
+
+/**
+ * Records a privileged admin action.
+ *
+ * @param entry - Actor, action, target and state change
+ * @param client - Transaction client when recording inside a transaction
+ * @returns Created audit log ID
+ */
+export async function recordAdminAction(
+  entry: AdminAuditEntry,
+  client: AuditClient = prisma
+): Promise<string> {
+  let actorRole = entry.actorRole;
+
+  if (actorRole === undefined) {
+    const actor = await client.user.findUnique({
+      where: { id: entry.adminId },
+      select: { adminRole: true },
+    });
+    actorRole = actor?.adminRole ?? null;
+  }
+
+  const log = await client.adminAuditLog.create({
+    data: {
+      actorId: entry.adminId,
+      actorRole,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId ?? null,
+      previousState: toJson(entry.previousState),
+      newState: toJson(entry.newState),
+      reason: entry.reason ?? null,
+      metadata: (entry.metadata ?? {}) as Prisma.InputJsonValue,
+      ipAddress: entry.ipAddress,
+      userAgent: entry.userAgent,
+    },
+    select: { id: true },
+  });
+
+  logger.info(
+    `[AdminAudit] ${entry.action} on ${entry.targetType}${entry.targetId ? ` ${entry.targetId}` : ''} by ${entry.adminId}`
+  );
+
+  return log.id;
+}
+
+// ===========================================
+// Querying
+// ===========================================
+
+function buildWhere(query: Omit<AdminAuditQuery, 'page' | 'limit'>): Prisma.AdminAuditLogWhereInput {
+  const where: Prisma.AdminAuditLogWhereInput = {};
+
+  if (query.actorId) where.actorId = query.actorId;
+  if (query.action) where.action = query.action;
+  if (query.targetType) where.targetType = query.targetType;
+  if (query.targetId) where.targetId = query.targetId;
+
+  if (query.from || query.to) {
+    where.createdAt = {
+      ...(query.from && { gte: query.from }),
+      ...(query.to && { lte: query.to }),
+    };
+  }
+
+  return where;
+}
+
+/**
+ * Get admin audit entries matching the filters, newest first.
+ */
+export async function queryAdminAuditLog(query: AdminAuditQuery) {
+  const where = buildWhere(query);
+
+  const [logs, total] = await Promise.all([
+    prisma.adminAuditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    }),
+    prisma.adminAuditLog.count({ where }),
+  ]);
+
+  return { logs, total };
+}
+
+// ===========================================
+// CSV Export
+// ===========================================
+
+/**
+ * Quotes a CSV field when needed (RFC 4180). Fields that a spreadsheet
+ * would evaluate as a formula are prefixed with a quote.
+ */
+function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders audit entries as CSV with a header row.
+ */
+export function formatAdminAuditCsv(
+  logs: Array<Record<(typeof CSV_COLUMNS)[number], unknown>>
+): string {
+  const rows = logs.map((log) => CSV_COLUMNS.map((column) => escapeCsvField(log[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * Exports admin audit entries matching the filters as CSV, newest first.
+ * Capped at ADMIN_AUDIT_CSV_MAX_ROWS - narrow the date range for more.
+ *
+ * @returns CSV text and whether the export was truncated
+ */
+export async function exportAdminAuditLogCsv(
+  query: Omit<AdminAuditQuery, 'page' | 'limit'>
+): Promise<{ csv: string; rowCount: number; truncated: boolean }> {
+  const logs = await prisma.adminAuditLog.findMany({
+    where: buildWhere(query),
+    orderBy: { createdAt: 'desc' },
+    take: ADMIN_AUDIT_CSV_MAX_ROWS + 1,
+  });
+
+  const truncated = logs.length > ADMIN_AUDIT_CSV_MAX_ROWS;
+  const rows = truncated ? logs.slice(0, ADMIN_AUDIT_CSV_MAX_ROWS) : logs;
+
+  return { csv: formatAdminAuditCsv(rows), rowCount: rows.length, truncated };
+}
@@ -6,15 +6,25 @@
 
 import { prisma } from '../../lib/prisma';
 import { logger } from '../../utils/logger';
-import { NFLFetcher, NBAFetcher } from './fetchers';
+import {
+  NFLFetcher,
+  NBAFetcher,
+  MLBFetcher,
+  NHLFetcher,
+  SoccerFetcher,
+  NCAAFFetcher,
+  NCAABFetcher,
+} from './fetchers';
 import {
   SportType,
+  EventStatus,
   SportsFetcher,
   NormalizedEvent,
   SportSyncResult,
   FullSyncResult,
   OddsData,
 } from './types';
+import { recordOddsSnapshots, RecordOddsSnapshotsOptions } from './odds-history.service';
 
 // ===========================================
 // Fetcher Registry
@@ -29,6 +39,16 @@ function createFetcher(sport: SportType): SportsFetcher | undefined {
       return new NFLFetcher();
     case SportType.NBA:
       return new NBAFetcher();
+    case SportType.MLB:
+      return new MLBFetcher();
+    case SportType.NHL:
+      return new NHLFetcher();
+    case SportType.SOCCER:
+      return new SoccerFetcher();
+    case SportType.NCAAF:
+      return new NCAAFFetcher();
+    case SportType.NCAAB:
+      return new NCAABFetcher();
     default:
       return undefined;
   }
@@ -38,7 +58,23 @@ function createFetcher(sport: SportType): SportsFetcher | undefined {
  * Sports that are currently enabled for syncing.
  * Add more sports here as they become available.
  */
-const ENABLED_SPORTS: SportType[] = [SportType.NFL, SportType.NBA];
+const ENABLED_SPORTS: SportType[] = [
+  SportType.NFL,
+  SportType.NBA,
+  SportType.MLB,
+  SportType.NHL,
+  SportType.SOCCER,
+  SportType.NCAAF,
+  SportType.NCAAB,
+];
+
+/**
+ * Markets owned by the events sync (props come from the props sync).
+ */
+const GAME_LINE_HISTORY: RecordOddsSnapshotsOptions = {
+  source: 'events-sync',
+  markets: ['moneyline', 'spread', 'total'],
+};
 
 /**
  * Convert OddsData to a Prisma-compatible JSON value.
@@ -228,18 +264,24 @@ export class EventsSyncService {
   /**
    * Upsert a single event to the database.
    * Uses externalId as the unique identifier.
+   * Game-line movement is appended to the odds history. Live odds written
+   * by the live-scores pipeline are kept while the event is in progress.
    * @returns 'created' or 'updated' depending on the operation
    */
   private async upsertEvent(event: NormalizedEvent): Promise<'created' | 'updated'> {
     // Check if event exists
     const existing = await prisma.sportsEvent.findUnique({
       where: { externalId: event.externalId },
-      select: { id: true },
+      select: { id: true, status: true, oddsData: true },
     });
 
     const now = new Date();
 
     if (existing) {
+      const keepLiveOdds =
+        existing.status === EventStatus.LIVE &&
+        Boolean((existing.oddsData as unknown as OddsData | null)?.liveUpdatedAt);
+
       // Update existing event
       await prisma.sportsEvent.update({
         where: { externalId: event.externalId },
@@ -249,8 +291,7 @@ export class EventsSyncService {
           status: event.status,
           homeScore: event.homeScore,
           awayScore: event.awayScore,
-          oddsData: toJsonValue(event.oddsData),
-          oddsUpdatedAt: now,
+          ...(!keepLiveOdds && { oddsData: toJsonValue(event.oddsData), oddsUpdatedAt: now }),
           // Team names might get corrected
           homeTeamName: event.homeTeamName,
           homeTeamAbbr: event.homeTeamAbbr,
@@ -259,11 +300,15 @@ export class EventsSyncService {
         },
       });
 
+      if (!keepLiveOdds) {
+        await recordOddsSnapshots(existing.id, event.oddsData, GAME_LINE_HISTORY);
+      }
+
       logger.debug(`[EventsSyncService] Updated event: ${event.externalId}`);
       return 'updated';
     } else {
       // Create new event
-      await prisma.sportsEvent.create({
+      const created = await prisma.sportsEvent.create({
         data: {
           externalId: event.externalId,
           sport: event.sport,
@@ -283,8 +328,11 @@ export class EventsSyncService {
           oddsData: toJsonValue(event.oddsData),
           oddsUpdatedAt: now,
         },
+        select: { id: true },
       });
 
+      await recordOddsSnapshots(created.id, event.oddsData, GAME_LINE_HISTORY);
+
       logger.debug(`[EventsSyncService] Created event: ${event.externalId}`);
       return 'created';
     }
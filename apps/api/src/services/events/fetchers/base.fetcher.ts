@@ -7,7 +7,16 @@
 import { config } from '../../../config';
 import { logger } from '../../../utils/logger';
 import { OddsApiClient } from '../../odds/odds-api.client';
-import { SportingEvent, Bookmaker, Market, Sport, PlayerPropMarket, NormalizedPlayerProp } from '../../odds/types';
+import {
+  SportingEvent,
+  Bookmaker,
+  Market,
+  Outcome,
+  Sport,
+  PlayerPropMarket,
+  NormalizedPlayerProp,
+  DRAW_OUTCOME_NAME,
+} from '../../odds/types';
 import {
   SportsFetcher,
   NormalizedEvent,
@@ -18,6 +27,11 @@ import {
   SPORT_TYPE_TO_KEY,
 } from '../types';
 
+/**
+ * Home/away team names used to match market outcomes.
+ */
+type EventTeams = Pick<SportingEvent, 'homeTeam' | 'awayTeam'>;
+
 /**
  * Abstract base fetcher that handles common transformation logic.
  * Subclasses only need to implement sport-specific details.
@@ -158,7 +172,7 @@ export abstract class BaseSportsFetcher implements SportsFetcher {
    * Transform a raw API event to normalized format
    */
   protected transformEvent(event: SportingEvent): NormalizedEvent {
-    const odds = this.extractBestOdds(event.bookmakers);
+    const odds = this.extractBestOdds(event.bookmakers, event);
 
     return {
       externalId: event.id,
@@ -179,8 +193,9 @@ export abstract class BaseSportsFetcher implements SportsFetcher {
   /**
    * Extract the best odds from available bookmakers.
    * Prefers FanDuel, then DraftKings, then first available.
+   * When the event's teams are given, outcomes are matched to home/away by name.
    */
-  protected extractBestOdds(bookmakers: Bookmaker[]): OddsData {
+  protected extractBestOdds(bookmakers: Bookmaker[], teams?: EventTeams): OddsData {
     const now = new Date().toISOString();
 
     if (bookmakers.length === 0) {
@@ -215,10 +230,10 @@ export abstract class BaseSportsFetcher implements SportsFetcher {
     for (const market of selectedBook.markets) {
       switch (market.key) {
         case 'h2h':
-          odds.markets.moneyline = this.extractMoneyline(market);
+          odds.markets.moneyline = this.extractMoneyline(market, teams);
           break;
         case 'spreads':
-          odds.markets.spread = this.extractSpread(market);
+          odds.markets.spread = this.extractSpread(market, teams);
           break;
         case 'totals':
           odds.markets.totals = this.extractTotals(market);
@@ -232,12 +247,15 @@ export abstract class BaseSportsFetcher implements SportsFetcher {
   /**
    * Extract moneyline odds from a market
    */
-  protected extractMoneyline(market: Market): { home: number; away: number } | undefined {
+  protected extractMoneyline(
+    market: Market,
+    teams?: EventTeams
+  ): { home: number; away: number; draw?: number } | undefined {
     if (market.outcomes.length < 2) return undefined;
 
-    const homeOutcome = market.outcomes.find((o) => o.name !== 'Draw');
-    const awayOutcome = market.outcomes.find(
-      (o) => o.name !== 'Draw' && o !== homeOutcome
+    const { homeOutcome, awayOutcome } = this.findTeamOutcomes(
+      market.outcomes.filter((o) => o.name !== DRAW_OUTCOME_NAME),
+      teams
     );
 
     if (!homeOutcome || !awayOutcome) return undefined;
@@ -252,12 +270,12 @@ export abstract class BaseSportsFetcher implements SportsFetcher {
    * Extract spread odds from a market
    */
   protected extractSpread(
-    market: Market
+    market: Market,
+    teams?: EventTeams
   ): { home: number; away: number; homeOdds: number; awayOdds: number } | undefined {
     if (market.outcomes.length < 2) return undefined;
 
-    const homeOutcome = market.outcomes[0];
-    const awayOutcome = market.outcomes[1];
+    const { homeOutcome, awayOutcome } = this.findTeamOutcomes(market.outcomes, teams);
 
     if (homeOutcome?.point === undefined || awayOutcome?.point === undefined) {
       return undefined;
@@ -289,6 +307,24 @@ export abstract class BaseSportsFetcher implements SportsFetcher {
     };
   }
 
+  /**
+   * Match outcomes to the home and away teams by name.
+   * Falls back to provider order when names don't match (or teams are unknown).
+   */
+  protected findTeamOutcomes(
+    outcomes: Outcome[],
+    teams?: EventTeams
+  ): { homeOutcome: Outcome | undefined; awayOutcome: Outcome | undefined } {
+    const homeOutcome = teams && outcomes.find((o) => o.name === teams.homeTeam);
+    const awayOutcome = teams && outcomes.find((o) => o.name === teams.awayTeam);
+
+    if (homeOutcome && awayOutcome) {
+      return { homeOutcome, awayOutcome };
+    }
+
+    return { homeOutcome: outcomes[0], awayOutcome: outcomes[1] };
+  }
+
   /**
    * Determine event status based on scheduled time.
    * More sophisticated status tracking would require live score data.
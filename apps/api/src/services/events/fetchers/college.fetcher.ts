@@ -0,0 +1,216 @@
+// =====================================================
+// College Sports Fetcher
+// =====================================================
+// Shared team naming for NCAAF and NCAAB fetchers.
+// The Odds API names college teams "<School> <Mascot>"
+// (e.g. "Ohio State Buckeyes", "Miami (OH) RedHawks",
+// "San José State Spartans"), with far too many programs
+// for a full lookup table.
+
+import { BaseSportsFetcher } from './base.fetcher';
+import { PlayerPropData } from '../types';
+import { PlayerPropMarket } from '../../odds/types';
+
+/**
+ * Mascots that span two words. Everything else is assumed to be a
+ * single trailing word.
+ */
+const TWO_WORD_MASCOTS = [
+  'Black Bears',
+  'Black Knights',
+  'Blue Demons',
+  'Blue Devils',
+  'Blue Hens',
+  'Blue Raiders',
+  'Crimson Tide',
+  'Demon Deacons',
+  'Fighting Illini',
+  'Fighting Irish',
+  'Golden Bears',
+  'Golden Eagles',
+  'Golden Flashes',
+  'Golden Gophers',
+  'Golden Hurricane',
+  'Horned Frogs',
+  'Mean Green',
+  'Nittany Lions',
+  'Rainbow Warriors',
+  'Red Raiders',
+  'Red Storm',
+  'Red Wolves',
+  'Scarlet Knights',
+  'Sun Devils',
+  'Tar Heels',
+  'Thundering Herd',
+  'Wolf Pack',
+  'Yellow Jackets',
+];
+
+/**
+ * Abbreviations for major programs, keyed by school name (mascot removed).
+ * Shared by football and basketball.
+ */
+const COLLEGE_SCHOOL_ABBR: Record<string, string> = {
+  'Alabama': 'ALA',
+  'Arizona': 'ARIZ',
+  'Arizona State': 'ASU',
+  'Arkansas': 'ARK',
+  'Auburn': 'AUB',
+  'Baylor': 'BAY',
+  'Boise State': 'BSU',
+  'Boston College': 'BC',
+  'BYU': 'BYU',
+  'California': 'CAL',
+  'Clemson': 'CLEM',
+  'Colorado': 'COLO',
+  'Connecticut': 'UCONN',
+  'UConn': 'UCONN',
+  'Creighton': 'CREI',
+  'Duke': 'DUKE',
+  'Florida': 'FLA',
+  'Florida State': 'FSU',
+  'Georgia': 'UGA',
+  'Georgia Tech': 'GT',
+  'Gonzaga': 'GONZ',
+  'Houston': 'HOU',
+  'Illinois': 'ILL',
+  'Indiana': 'IND',
+  'Iowa': 'IOWA',
+  'Iowa State': 'ISU',
+  'Kansas': 'KU',
+  'Kansas State': 'KSU',
+  'Kentucky': 'UK',
+  'LSU': 'LSU',
+  'Louisville': 'LOU',
+  'Marquette': 'MARQ',
+  'Maryland': 'MD',
+  'Miami': 'MIA',
+  'Miami (FL)': 'MIA',
+  'Miami (OH)': 'M-OH',
+  'Michigan': 'MICH',
+  'Michigan State': 'MSU',
+  'Minnesota': 'MINN',
+  'Mississippi State': 'MSST',
+  'Missouri': 'MIZ',
+  'NC State': 'NCST',
+  'Nebraska': 'NEB',
+  'North Carolina': 'UNC',
+  'Northwestern': 'NW',
+  'Notre Dame': 'ND',
+  'Ohio State': 'OSU',
+  'Oklahoma': 'OU',
+  'Oklahoma State': 'OKST',
+  'Ole Miss': 'MISS',
+  'Oregon': 'ORE',
+  'Oregon State': 'ORST',
+  'Penn State': 'PSU',
+  'Pittsburgh': 'PITT',
+  'Purdue': 'PUR',
+  'Rutgers': 'RUTG',
+  'SMU': 'SMU',
+  'South Carolina': 'SC',
+  "St. John's": 'SJU',
+  'Stanford': 'STAN',
+  'Syracuse': 'SYR',
+  'TCU': 'TCU',
+  'Tennessee': 'TENN',
+  'Texas': 'TEX',
+  'Texas A&M': 'TAMU',
+  'Texas Tech': 'TTU',
+  'UCF': 'UCF',
+  'UCLA': 'UCLA',
+  'USC': 'USC',
+  'Utah': 'UTAH',
+  'Vanderbilt': 'VAN',
+  'Villanova': 'NOVA',
+  'Virginia': 'UVA',
+  'Virginia Tech': 'VT',
+  'Wake Forest': 'WAKE',
+  'Washington': 'WASH',
+  'West Virginia': 'WVU',
+  'Wisconsin': 'WIS',
+};
+
+/**
+ * Strips diacritics and apostrophes so "San José State" and
+ * "San Jose State", or "Hawai'i" and "Hawaii", resolve the same.
+ */
+function normalizeCollegeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['\u2018\u2019]/g, '');
+}
+
+/**
+ * Base fetcher for college sports.
+ * Handles school/mascot splitting and abbreviations for programs
+ * outside the lookup table.
+ */
+export abstract class CollegeSportsFetcher extends BaseSportsFetcher {
+  /**
+   * Extract the school name from a full team name.
+   * "Texas A&M Aggies" -> "Texas A&M", "Duke Blue Devils" -> "Duke"
+   */
+  protected getSchoolName(teamName: string): string {
+    const name = teamName.trim();
+
+    const twoWordMascot = TWO_WORD_MASCOTS.find((mascot) => name.endsWith(` ${mascot}`));
+    if (twoWordMascot) {
+      return name.slice(0, -(twoWordMascot.length + 1));
+    }
+
+    const parts = name.split(/\s+/);
+    return parts.length > 1 ? parts.slice(0, -1).join(' ') : name;
+  }
+
+  /**
+   * Abbreviate a college team.
+   * Lookup first, then short all-caps names as-is ("UCF"), then
+   * initials for multi-word schools ("Boise State" -> "BST"),
+   * then the first four letters.
+   */
+  protected abbreviateTeamName(teamName: string): string {
+    const school = this.getSchoolName(teamName);
+    const known =
+      COLLEGE_SCHOOL_ABBR[school] ?? COLLEGE_SCHOOL_ABBR[normalizeCollegeName(school)];
+    if (known) {
+      return known;
+    }
+
+    const normalized = normalizeCollegeName(school).replace(/[().]/g, '');
+    if (/^[A-Z&]{2,5}$/.test(normalized)) {
+      return normalized;
+    }
+
+    const words = normalized.split(/\s+/).filter((word) => word.length > 0);
+    if (words.length > 1) {
+      return words
+        .map((word) => (word === 'State' ? 'ST' : word[0]))
+        .join('')
+        .toUpperCase()
+        .substring(0, 5);
+    }
+
+    return normalized.substring(0, 4).toUpperCase();
+  }
+
+  /**
+   * Team IDs ignore accents and apostrophes so provider spelling
+   * changes don't create duplicate teams.
+   */
+  protected generateTeamId(teamName: string): string {
+    return super.generateTeamId(normalizeCollegeName(teamName));
+  }
+
+  /**
+   * Player props are not offered for college events.
+   */
+  protected getPropMarkets(): PlayerPropMarket[] {
+    return [];
+  }
+
+  protected generateMockProps(_eventId: string): PlayerPropData[] {
+    return [];
+  }
+}
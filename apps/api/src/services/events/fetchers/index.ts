@@ -3,5 +3,11 @@
 // =====================================================
 
 export { BaseSportsFetcher } from './base.fetcher';
+export { CollegeSportsFetcher } from './college.fetcher';
 export { NFLFetcher } from './nfl.fetcher';
 export { NBAFetcher } from './nba.fetcher';
+export { MLBFetcher } from './mlb.fetcher';
+export { NHLFetcher } from './nhl.fetcher';
+export { SoccerFetcher } from './soccer.fetcher';
+export { NCAAFFetcher } from './ncaaf.fetcher';
+export { NCAABFetcher } from './ncaab.fetcher';
@@ -0,0 +1,158 @@
+// =====================================================
+// MLB Events Fetcher
+// =====================================================
+// Fetches MLB game data and odds from The Odds API.
+// Spreads in baseball are run lines, fixed at +/-1.5 runs.
+
+import { BaseSportsFetcher } from './base.fetcher';
+import { SportType, NormalizedEvent, EventStatus, PlayerPropData } from '../types';
+import { Market, PlayerPropMarket, SportingEvent } from '../../odds/types';
+
+/**
+ * Standard MLB run line. Books price the run line at a fixed 1.5 runs
+ * and move the odds instead of the line.
+ */
+const RUN_LINE = 1.5;
+
+/**
+ * MLB team abbreviations lookup
+ */
+const MLB_TEAM_ABBR: Record<string, string> = {
+  'Arizona Diamondbacks': 'ARI',
+  'Athletics': 'ATH',
+  'Oakland Athletics': 'OAK',
+  'Atlanta Braves': 'ATL',
+  'Baltimore Orioles': 'BAL',
+  'Boston Red Sox': 'BOS',
+  'Chicago Cubs': 'CHC',
+  'Chicago White Sox': 'CWS',
+  'Cincinnati Reds': 'CIN',
+  'Cleveland Guardians': 'CLE',
+  'Colorado Rockies': 'COL',
+  'Detroit Tigers': 'DET',
+  'Houston Astros': 'HOU',
+  'Kansas City Royals': 'KC',
+  'Los Angeles Angels': 'LAA',
+  'Los Angeles Dodgers': 'LAD',
+  'Miami Marlins': 'MIA',
+  'Milwaukee Brewers': 'MIL',
+  'Minnesota Twins': 'MIN',
+  'New York Mets': 'NYM',
+  'New York Yankees': 'NYY',
+  'Philadelphia Phillies': 'PHI',
+  'Pittsburgh Pirates': 'PIT',
+  'San Diego Padres': 'SD',
+  'San Francisco Giants': 'SF',
+  'Seattle Mariners': 'SEA',
+  'St. Louis Cardinals': 'STL',
+  'St Louis Cardinals': 'STL',
+  'Tampa Bay Rays': 'TB',
+  'Texas Rangers': 'TEX',
+  'Toronto Blue Jays': 'TOR',
+  'Washington Nationals': 'WSH',
+};
+
+/**
+ * MLB-specific event fetcher
+ */
+export class MLBFetcher extends BaseSportsFetcher {
+  readonly sportType = SportType.MLB;
+  readonly name = 'MLBFetcher';
+
+  protected getLeagueName(): string {
+    return 'MLB';
+  }
+
+  protected abbreviateTeamName(teamName: string): string {
+    return MLB_TEAM_ABBR[teamName] || super.abbreviateTeamName(teamName);
+  }
+
+  /**
+   * Only keep the standard +/-1.5 run line.
+   * Alternate run lines occasionally come through as the main spread
+   * and would be mispriced against our run line odds.
+   */
+  protected extractSpread(
+    market: Market,
+    teams?: Pick<SportingEvent, 'homeTeam' | 'awayTeam'>
+  ): { home: number; away: number; homeOdds: number; awayOdds: number } | undefined {
+    const spread = super.extractSpread(market, teams);
+    if (!spread || Math.abs(spread.home) !== RUN_LINE || spread.home !== -spread.away) {
+      return undefined;
+    }
+    return spread;
+  }
+
+  /**
+   * Prop grading only covers NBA/NFL box score stats, so MLB props
+   * are not offered yet.
+   */
+  protected getPropMarkets(): PlayerPropMarket[] {
+    return [];
+  }
+
+  protected generateMockProps(_eventId: string): PlayerPropData[] {
+    return [];
+  }
+
+  /**
+   * Generate mock MLB events when API is not configured
+   */
+  protected generateMockEvents(): NormalizedEvent[] {
+    const now = new Date();
+    const mockGames: Array<{
+      home: string;
+      away: string;
+      daysFromNow: number;
+      hour: number;
+    }> = [
+      { home: 'New York Yankees', away: 'Boston Red Sox', daysFromNow: 0, hour: 19 },
+      { home: 'Los Angeles Dodgers', away: 'San Francisco Giants', daysFromNow: 0, hour: 22 },
+      { home: 'Chicago Cubs', away: 'St. Louis Cardinals', daysFromNow: 1, hour: 14 },
+      { home: 'Houston Astros', away: 'Texas Rangers', daysFromNow: 1, hour: 20 },
+      { home: 'Atlanta Braves', away: 'Philadelphia Phillies', daysFromNow: 2, hour: 19 },
+      { home: 'Seattle Mariners', away: 'San Diego Padres', daysFromNow: 2, hour: 22 },
+    ];
+
+    return mockGames.map((game, index) => {
+      const scheduledAt = new Date(now);
+      scheduledAt.setDate(scheduledAt.getDate() + game.daysFromNow);
+      scheduledAt.setHours(game.hour, 0, 0, 0);
+
+      return {
+        externalId: `mock_mlb_${index + 1}`,
+        sport: SportType.MLB,
+        league: 'MLB',
+        homeTeamId: this.generateTeamId(game.home),
+        homeTeamName: game.home,
+        homeTeamAbbr: MLB_TEAM_ABBR[game.home] || 'UNK',
+        awayTeamId: this.generateTeamId(game.away),
+        awayTeamName: game.away,
+        awayTeamAbbr: MLB_TEAM_ABBR[game.away] || 'UNK',
+        scheduledAt,
+        status: EventStatus.SCHEDULED,
+        oddsData: {
+          provider: 'Mock Sportsbook',
+          lastUpdated: new Date().toISOString(),
+          markets: {
+            moneyline: {
+              home: 1.75 + Math.random() * 0.3,
+              away: 2.00 + Math.random() * 0.3,
+            },
+            spread: {
+              home: -RUN_LINE,
+              away: RUN_LINE,
+              homeOdds: 2.30 + Math.random() * 0.2,
+              awayOdds: 1.60 + Math.random() * 0.1,
+            },
+            totals: {
+              value: 7.5 + Math.floor(Math.random() * 3),
+              overOdds: 1.91,
+              underOdds: 1.91,
+            },
+          },
+        },
+      };
+    });
+  }
+}
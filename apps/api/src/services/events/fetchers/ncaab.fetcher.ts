@@ -0,0 +1,79 @@
+// =====================================================
+// NCAAB Events Fetcher
+// =====================================================
+// Fetches college basketball game data and odds from The Odds API.
+
+import { CollegeSportsFetcher } from './college.fetcher';
+import { SportType, NormalizedEvent, EventStatus } from '../types';
+
+/**
+ * NCAAB-specific event fetcher
+ */
+export class NCAABFetcher extends CollegeSportsFetcher {
+  readonly sportType = SportType.NCAAB;
+  readonly name = 'NCAABFetcher';
+
+  protected getLeagueName(): string {
+    return 'NCAAB';
+  }
+
+  /**
+   * Generate mock NCAAB events when API is not configured
+   */
+  protected generateMockEvents(): NormalizedEvent[] {
+    const now = new Date();
+    const mockGames: Array<{
+      home: string;
+      away: string;
+      daysFromNow: number;
+      hour: number;
+    }> = [
+      { home: 'Duke Blue Devils', away: 'North Carolina Tar Heels', daysFromNow: 0, hour: 19 },
+      { home: 'Kansas Jayhawks', away: 'Kentucky Wildcats', daysFromNow: 0, hour: 21 },
+      { home: 'UConn Huskies', away: "St. John's Red Storm", daysFromNow: 1, hour: 19 },
+      { home: 'Gonzaga Bulldogs', away: "Saint Mary's Gaels", daysFromNow: 1, hour: 23 },
+      { home: 'Houston Cougars', away: 'Iowa State Cyclones', daysFromNow: 2, hour: 20 },
+    ];
+
+    return mockGames.map((game, index) => {
+      const scheduledAt = new Date(now);
+      scheduledAt.setDate(scheduledAt.getDate() + game.daysFromNow);
+      scheduledAt.setHours(game.hour, 0, 0, 0);
+
+      return {
+        externalId: `mock_ncaab_${index + 1}`,
+        sport: SportType.NCAAB,
+        league: 'NCAAB',
+        homeTeamId: this.generateTeamId(game.home),
+        homeTeamName: game.home,
+        homeTeamAbbr: this.abbreviateTeamName(game.home),
+        awayTeamId: this.generateTeamId(game.away),
+        awayTeamName: game.away,
+        awayTeamAbbr: this.abbreviateTeamName(game.away),
+        scheduledAt,
+        status: EventStatus.SCHEDULED,
+        oddsData: {
+          provider: 'Mock Sportsbook',
+          lastUpdated: new Date().toISOString(),
+          markets: {
+            moneyline: {
+              home: 1.60 + Math.random() * 0.3,
+              away: 2.20 + Math.random() * 0.4,
+            },
+            spread: {
+              home: -4.5,
+              away: 4.5,
+              homeOdds: 1.91,
+              awayOdds: 1.91,
+            },
+            totals: {
+              value: 138.5 + Math.floor(Math.random() * 10),
+              overOdds: 1.91,
+              underOdds: 1.91,
+            },
+          },
+        },
+      };
+    });
+  }
+}
@@ -0,0 +1,79 @@
+// =====================================================
+// NCAAF Events Fetcher
+// =====================================================
+// Fetches college football game data and odds from The Odds API.
+
+import { CollegeSportsFetcher } from './college.fetcher';
+import { SportType, NormalizedEvent, EventStatus } from '../types';
+
+/**
+ * NCAAF-specific event fetcher
+ */
+export class NCAAFFetcher extends CollegeSportsFetcher {
+  readonly sportType = SportType.NCAAF;
+  readonly name = 'NCAAFFetcher';
+
+  protected getLeagueName(): string {
+    return 'NCAAF';
+  }
+
+  /**
+   * Generate mock NCAAF events when API is not configured
+   */
+  protected generateMockEvents(): NormalizedEvent[] {
+    const now = new Date();
+    const mockGames: Array<{
+      home: string;
+      away: string;
+      daysFromNow: number;
+      hour: number;
+    }> = [
+      { home: 'Georgia Bulldogs', away: 'Alabama Crimson Tide', daysFromNow: 2, hour: 15 },
+      { home: 'Ohio State Buckeyes', away: 'Michigan Wolverines', daysFromNow: 2, hour: 12 },
+      { home: 'Texas Longhorns', away: 'Texas A&M Aggies', daysFromNow: 2, hour: 19 },
+      { home: 'Notre Dame Fighting Irish', away: 'USC Trojans', daysFromNow: 9, hour: 19 },
+      { home: 'Oregon Ducks', away: 'Washington Huskies', daysFromNow: 9, hour: 22 },
+    ];
+
+    return mockGames.map((game, index) => {
+      const scheduledAt = new Date(now);
+      scheduledAt.setDate(scheduledAt.getDate() + game.daysFromNow);
+      scheduledAt.setHours(game.hour, 0, 0, 0);
+
+      return {
+        externalId: `mock_ncaaf_${index + 1}`,
+        sport: SportType.NCAAF,
+        league: 'NCAAF',
+        homeTeamId: this.generateTeamId(game.home),
+        homeTeamName: game.home,
+        homeTeamAbbr: this.abbreviateTeamName(game.home),
+        awayTeamId: this.generateTeamId(game.away),
+        awayTeamName: game.away,
+        awayTeamAbbr: this.abbreviateTeamName(game.away),
+        scheduledAt,
+        status: EventStatus.SCHEDULED,
+        oddsData: {
+          provider: 'Mock Sportsbook',
+          lastUpdated: new Date().toISOString(),
+          markets: {
+            moneyline: {
+              home: 1.55 + Math.random() * 0.3,
+              away: 2.40 + Math.random() * 0.4,
+            },
+            spread: {
+              home: -6.5,
+              away: 6.5,
+              homeOdds: 1.91,
+              awayOdds: 1.91,
+            },
+            totals: {
+              value: 49.5 + Math.floor(Math.random() * 8),
+              overOdds: 1.91,
+              underOdds: 1.91,
+            },
+          },
+        },
+      };
+    });
+  }
+}
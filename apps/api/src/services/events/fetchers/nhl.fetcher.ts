@@ -0,0 +1,160 @@
+// =====================================================
+// NHL Events Fetcher
+// =====================================================
+// Fetches NHL game data and odds from The Odds API.
+// Spreads in hockey are puck lines, fixed at +/-1.5 goals.
+// Moneylines include overtime and shootout.
+
+import { BaseSportsFetcher } from './base.fetcher';
+import { SportType, NormalizedEvent, EventStatus, PlayerPropData } from '../types';
+import { Market, PlayerPropMarket, SportingEvent } from '../../odds/types';
+
+/**
+ * Standard NHL puck line. Books price the puck line at a fixed 1.5 goals
+ * and move the odds instead of the line.
+ */
+const PUCK_LINE = 1.5;
+
+/**
+ * NHL team abbreviations lookup
+ */
+const NHL_TEAM_ABBR: Record<string, string> = {
+  'Anaheim Ducks': 'ANA',
+  'Boston Bruins': 'BOS',
+  'Buffalo Sabres': 'BUF',
+  'Calgary Flames': 'CGY',
+  'Carolina Hurricanes': 'CAR',
+  'Chicago Blackhawks': 'CHI',
+  'Colorado Avalanche': 'COL',
+  'Columbus Blue Jackets': 'CBJ',
+  'Dallas Stars': 'DAL',
+  'Detroit Red Wings': 'DET',
+  'Edmonton Oilers': 'EDM',
+  'Florida Panthers': 'FLA',
+  'Los Angeles Kings': 'LAK',
+  'Minnesota Wild': 'MIN',
+  'Montréal Canadiens': 'MTL',
+  'Montreal Canadiens': 'MTL',
+  'Nashville Predators': 'NSH',
+  'New Jersey Devils': 'NJD',
+  'New York Islanders': 'NYI',
+  'New York Rangers': 'NYR',
+  'Ottawa Senators': 'OTT',
+  'Philadelphia Flyers': 'PHI',
+  'Pittsburgh Penguins': 'PIT',
+  'San Jose Sharks': 'SJS',
+  'Seattle Kraken': 'SEA',
+  'St Louis Blues': 'STL',
+  'St. Louis Blues': 'STL',
+  'Tampa Bay Lightning': 'TBL',
+  'Toronto Maple Leafs': 'TOR',
+  'Utah Hockey Club': 'UTA',
+  'Utah Mammoth': 'UTA',
+  'Vancouver Canucks': 'VAN',
+  'Vegas Golden Knights': 'VGK',
+  'Washington Capitals': 'WSH',
+  'Winnipeg Jets': 'WPG',
+};
+
+/**
+ * NHL-specific event fetcher
+ */
+export class NHLFetcher extends BaseSportsFetcher {
+  readonly sportType = SportType.NHL;
+  readonly name = 'NHLFetcher';
+
+  protected getLeagueName(): string {
+    return 'NHL';
+  }
+
+  protected abbreviateTeamName(teamName: string): string {
+    return NHL_TEAM_ABBR[teamName] || super.abbreviateTeamName(teamName);
+  }
+
+  /**
+   * Only keep the standard +/-1.5 puck line.
+   * Alternate puck lines occasionally come through as the main spread.
+   */
+  protected extractSpread(
+    market: Market,
+    teams?: Pick<SportingEvent, 'homeTeam' | 'awayTeam'>
+  ): { home: number; away: number; homeOdds: number; awayOdds: number } | undefined {
+    const spread = super.extractSpread(market, teams);
+    if (!spread || Math.abs(spread.home) !== PUCK_LINE || spread.home !== -spread.away) {
+      return undefined;
+    }
+    return spread;
+  }
+
+  /**
+   * Prop grading only covers NBA/NFL box score stats, so NHL props
+   * are not offered yet.
+   */
+  protected getPropMarkets(): PlayerPropMarket[] {
+    return [];
+  }
+
+  protected generateMockProps(_eventId: string): PlayerPropData[] {
+    return [];
+  }
+
+  /**
+   * Generate mock NHL events when API is not configured
+   */
+  protected generateMockEvents(): NormalizedEvent[] {
+    const now = new Date();
+    const mockGames: Array<{
+      home: string;
+      away: string;
+      daysFromNow: number;
+      hour: number;
+    }> = [
+      { home: 'Toronto Maple Leafs', away: 'Montreal Canadiens', daysFromNow: 0, hour: 19 },
+      { home: 'Edmonton Oilers', away: 'Calgary Flames', daysFromNow: 0, hour: 21 },
+      { home: 'New York Rangers', away: 'New Jersey Devils', daysFromNow: 1, hour: 19 },
+      { home: 'Colorado Avalanche', away: 'Vegas Golden Knights', daysFromNow: 1, hour: 21 },
+      { home: 'Boston Bruins', away: 'Florida Panthers', daysFromNow: 2, hour: 19 },
+    ];
+
+    return mockGames.map((game, index) => {
+      const scheduledAt = new Date(now);
+      scheduledAt.setDate(scheduledAt.getDate() + game.daysFromNow);
+      scheduledAt.setHours(game.hour, 0, 0, 0);
+
+      return {
+        externalId: `mock_nhl_${index + 1}`,
+        sport: SportType.NHL,
+        league: 'NHL',
+        homeTeamId: this.generateTeamId(game.home),
+        homeTeamName: game.home,
+        homeTeamAbbr: NHL_TEAM_ABBR[game.home] || 'UNK',
+        awayTeamId: this.generateTeamId(game.away),
+        awayTeamName: game.away,
+        awayTeamAbbr: NHL_TEAM_ABBR[game.away] || 'UNK',
+        scheduledAt,
+        status: EventStatus.SCHEDULED,
+        oddsData: {
+          provider: 'Mock Sportsbook',
+          lastUpdated: new Date().toISOString(),
+          markets: {
+            moneyline: {
+              home: 1.80 + Math.random() * 0.3,
+              away: 1.95 + Math.random() * 0.3,
+            },
+            spread: {
+              home: -PUCK_LINE,
+              away: PUCK_LINE,
+              homeOdds: 2.50 + Math.random() * 0.3,
+              awayOdds: 1.50 + Math.random() * 0.1,
+            },
+            totals: {
+              value: 5.5 + Math.floor(Math.random() * 2),
+              overOdds: 1.91,
+              underOdds: 1.91,
+            },
+          },
+        },
+      };
+    });
+  }
+}
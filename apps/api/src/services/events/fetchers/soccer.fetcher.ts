@@ -0,0 +1,171 @@
+// =====================================================
+// Soccer Events Fetcher
+// =====================================================
+// Fetches MLS match data and odds from The Odds API.
+// Soccer moneylines are three-way (home / draw / away) and
+// spreads are Asian handicaps, which can use quarter-goal lines.
+
+import { BaseSportsFetcher } from './base.fetcher';
+import { SportType, NormalizedEvent, EventStatus, PlayerPropData } from '../types';
+import { Market, PlayerPropMarket, SportingEvent, DRAW_OUTCOME_NAME } from '../../odds/types';
+
+/**
+ * MLS team abbreviations lookup
+ */
+const MLS_TEAM_ABBR: Record<string, string> = {
+  'Atlanta United FC': 'ATL',
+  'Austin FC': 'ATX',
+  'CF Montréal': 'MTL',
+  'CF Montreal': 'MTL',
+  'Charlotte FC': 'CLT',
+  'Chicago Fire': 'CHI',
+  'Colorado Rapids': 'COL',
+  'Columbus Crew SC': 'CLB',
+  'Columbus Crew': 'CLB',
+  'D.C. United': 'DC',
+  'DC United': 'DC',
+  'FC Cincinnati': 'CIN',
+  'FC Dallas': 'DAL',
+  'Houston Dynamo': 'HOU',
+  'Inter Miami CF': 'MIA',
+  'Los Angeles FC': 'LAFC',
+  'Los Angeles Galaxy': 'LA',
+  'LA Galaxy': 'LA',
+  'Minnesota United FC': 'MIN',
+  'Nashville SC': 'NSH',
+  'New England Revolution': 'NE',
+  'New York City FC': 'NYC',
+  'New York Red Bulls': 'RBNY',
+  'Orlando City SC': 'ORL',
+  'Philadelphia Union': 'PHI',
+  'Portland Timbers': 'POR',
+  'Real Salt Lake': 'RSL',
+  'San Diego FC': 'SD',
+  'San Jose Earthquakes': 'SJ',
+  'Seattle Sounders FC': 'SEA',
+  'Sporting Kansas City': 'SKC',
+  'St. Louis City SC': 'STL',
+  'St Louis City SC': 'STL',
+  'Toronto FC': 'TOR',
+  'Vancouver Whitecaps FC': 'VAN',
+};
+
+/**
+ * Soccer-specific event fetcher
+ */
+export class SoccerFetcher extends BaseSportsFetcher {
+  readonly sportType = SportType.SOCCER;
+  readonly name = 'SoccerFetcher';
+
+  protected getLeagueName(): string {
+    return 'MLS';
+  }
+
+  protected abbreviateTeamName(teamName: string): string {
+    return MLS_TEAM_ABBR[teamName] || super.abbreviateTeamName(teamName);
+  }
+
+  /**
+   * Three-way moneyline: keep the draw price alongside home and away.
+   */
+  protected extractMoneyline(
+    market: Market,
+    teams?: Pick<SportingEvent, 'homeTeam' | 'awayTeam'>
+  ): { home: number; away: number; draw?: number } | undefined {
+    const moneyline = super.extractMoneyline(market, teams);
+    if (!moneyline) return undefined;
+
+    const drawOutcome = market.outcomes.find((o) => o.name === DRAW_OUTCOME_NAME);
+
+    return drawOutcome ? { ...moneyline, draw: drawOutcome.price } : moneyline;
+  }
+
+  /**
+   * Drop quarter-goal Asian handicaps (e.g. -0.25, -0.75).
+   * Those split the stake across two lines, which pick grading
+   * can't represent - only whole and half-goal lines are kept.
+   */
+  protected extractSpread(
+    market: Market,
+    teams?: Pick<SportingEvent, 'homeTeam' | 'awayTeam'>
+  ): { home: number; away: number; homeOdds: number; awayOdds: number } | undefined {
+    const spread = super.extractSpread(market, teams);
+    if (!spread || !Number.isInteger(spread.home * 2)) {
+      return undefined;
+    }
+    return spread;
+  }
+
+  /**
+   * Prop grading only covers NBA/NFL box score stats, so soccer props
+   * are not offered yet.
+   */
+  protected getPropMarkets(): PlayerPropMarket[] {
+    return [];
+  }
+
+  protected generateMockProps(_eventId: string): PlayerPropData[] {
+    return [];
+  }
+
+  /**
+   * Generate mock MLS events when API is not configured
+   */
+  protected generateMockEvents(): NormalizedEvent[] {
+    const now = new Date();
+    const mockGames: Array<{
+      home: string;
+      away: string;
+      daysFromNow: number;
+      hour: number;
+    }> = [
+      { home: 'Inter Miami CF', away: 'Orlando City SC', daysFromNow: 1, hour: 19 },
+      { home: 'Los Angeles FC', away: 'LA Galaxy', daysFromNow: 1, hour: 22 },
+      { home: 'Seattle Sounders FC', away: 'Portland Timbers', daysFromNow: 2, hour: 21 },
+      { home: 'Atlanta United FC', away: 'Charlotte FC', daysFromNow: 6, hour: 19 },
+      { home: 'Columbus Crew', away: 'FC Cincinnati', daysFromNow: 6, hour: 19 },
+    ];
+
+    return mockGames.map((game, index) => {
+      const scheduledAt = new Date(now);
+      scheduledAt.setDate(scheduledAt.getDate() + game.daysFromNow);
+      scheduledAt.setHours(game.hour, 30, 0, 0);
+
+      return {
+        externalId: `mock_soccer_${index + 1}`,
+        sport: SportType.SOCCER,
+        league: 'MLS',
+        homeTeamId: this.generateTeamId(game.home),
+        homeTeamName: game.home,
+        homeTeamAbbr: MLS_TEAM_ABBR[game.home] || 'UNK',
+        awayTeamId: this.generateTeamId(game.away),
+        awayTeamName: game.away,
+        awayTeamAbbr: MLS_TEAM_ABBR[game.away] || 'UNK',
+        scheduledAt,
+        status: EventStatus.SCHEDULED,
+        oddsData: {
+          provider: 'Mock Sportsbook',
+          lastUpdated: new Date().toISOString(),
+          markets: {
+            moneyline: {
+              home: 2.00 + Math.random() * 0.4,
+              away: 3.20 + Math.random() * 0.6,
+              draw: 3.40 + Math.random() * 0.3,
+            },
+            spread: {
+              home: -0.5,
+              away: 0.5,
+              homeOdds: 2.00 + Math.random() * 0.4,
+              awayOdds: 1.80 + Math.random() * 0.1,
+            },
+            totals: {
+              value: 2.5 + Math.floor(Math.random() * 2),
+              overOdds: 1.91,
+              underOdds: 1.91,
+            },
+          },
+        },
+      };
+    });
+  }
+}
@@ -4,4 +4,5 @@
 
 export * from './types';
 export * from './events-sync.service';
+export * from './odds-history.service';
 export * from './fetchers';
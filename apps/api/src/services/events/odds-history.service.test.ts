@@ -0,0 +1,212 @@
+// =====================================================
+// Odds History Service Tests
+// =====================================================
+// Covers market extraction, diffing and append-only recording of
+// line movement.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  snapshotFindMany: vi.fn(),
+  snapshotCreateMany: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => ({
+  prisma: {
+    oddsSnapshot: {
+      findMany: mocks.snapshotFindMany,
+      createMany: mocks.snapshotCreateMany,
+    },
+  },
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  extractMarketSnapshots,
+  diffMarketSnapshot,
+  recordOddsSnapshots,
+  RecordOddsSnapshotsOptions,
+} from './odds-history.service';
+import type { OddsData } from './types';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const CAPTURED_AT = new Date('2026-03-01T12:00:00Z');
+
+function createOddsData(overrides: Partial<OddsData['markets']> = {}): OddsData {
+  return {
+    provider: 'FanDuel',
+    lastUpdated: '2026-03-01T11:59:00Z',
+    markets: {
+      moneyline: { home: 1.5, away: 2.6 },
+      spread: { home: -3.5, away: 3.5, homeOdds: 1.91, awayOdds: 1.91 },
+      totals: { value: 45.5, overOdds: 1.87, underOdds: 1.95 },
+      props: {
+        lastUpdated: '2026-03-01T11:50:00Z',
+        players: [
+          {
+            playerId: 'player-1',
+            playerName: 'Patrick Mahomes',
+            propType: 'player_pass_yds',
+            line: 280.5,
+            overOdds: 1.91,
+            underOdds: 1.91,
+          },
+        ],
+      },
+      ...overrides,
+    },
+  };
+}
+
+function storedSnapshot(marketKey: string, line: number | null, prices: Record<string, number>) {
+  return { marketKey, line: line === null ? null : new Prisma.Decimal(line), prices };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.snapshotFindMany.mockResolvedValue([]);
+  mocks.snapshotCreateMany.mockResolvedValue({ count: 0 });
+});
+
+// ===========================================
+// Test: Extraction
+// ===========================================
+
+describe('extractMarketSnapshots', () => {
+  it('splits game lines into one snapshot per market', () => {
+    const snapshots = extractMarketSnapshots(createOddsData(), ['moneyline', 'spread', 'total']);
+
+    expect(snapshots).toEqual([
+      { market: 'moneyline', marketKey: 'moneyline', line: null, prices: { home: 1.5, away: 2.6 } },
+      { market: 'spread', marketKey: 'spread', line: -3.5, prices: { home: 1.91, away: 1.91 } },
+      { market: 'total', marketKey: 'total', line: 45.5, prices: { over: 1.87, under: 1.95 } },
+    ]);
+  });
+
+  it('keys props by prop type and player', () => {
+    const [snapshot] = extractMarketSnapshots(createOddsData(), ['prop']);
+
+    expect(snapshot).toMatchObject({
+      market: 'prop',
+      marketKey: 'prop:player_pass_yds:player-1',
+      line: 280.5,
+      playerName: 'Patrick Mahomes',
+    });
+  });
+
+  it('includes the draw on three-way moneylines', () => {
+    const [snapshot] = extractMarketSnapshots(
+      createOddsData({ moneyline: { home: 2.1, away: 3.4, draw: 3.2 } }),
+      ['moneyline']
+    );
+
+    expect(snapshot.prices).toEqual({ home: 2.1, away: 3.4, draw: 3.2 });
+  });
+
+  it('returns nothing for empty odds', () => {
+    expect(extractMarketSnapshots(null, ['moneyline'])).toEqual([]);
+  });
+});
+
+// ===========================================
+// Test: Diffing
+// ===========================================
+
+describe('diffMarketSnapshot', () => {
+  it('records only the fields that moved', () => {
+    const changes = diffMarketSnapshot(
+      { line: -3.5, prices: { home: 1.91, away: 1.91 } },
+      { line: -4.5, prices: { home: 1.91, away: 1.87 } }
+    );
+
+    expect(changes).toEqual({ line: [-3.5, -4.5], away: [1.91, 1.87] });
+  });
+
+  it('returns an empty diff when nothing moved', () => {
+    const state = { line: 45.5, prices: { over: 1.87, under: 1.95 } };
+
+    expect(diffMarketSnapshot(state, { ...state })).toEqual({});
+  });
+});
+
+// ===========================================
+// Test: Recording
+// ===========================================
+
+describe('recordOddsSnapshots', () => {
+  const options: RecordOddsSnapshotsOptions = {
+    source: 'events-sync',
+    markets: ['moneyline', 'spread', 'total'],
+    capturedAt: CAPTURED_AT,
+  };
+
+  it('records the opening snapshot of every market', async () => {
+    const count = await recordOddsSnapshots('event-1', createOddsData(), options);
+
+    expect(count).toBe(3);
+    const { data } = mocks.snapshotCreateMany.mock.calls[0][0];
+    expect(data).toHaveLength(3);
+    expect(data[0]).toMatchObject({
+      eventId: 'event-1',
+      market: 'moneyline',
+      changes: Prisma.DbNull,
+      provider: 'FanDuel',
+      source: 'events-sync',
+      capturedAt: CAPTURED_AT,
+    });
+  });
+
+  it('only appends markets that moved, with a diff', async () => {
+    mocks.snapshotFindMany.mockResolvedValue([
+      storedSnapshot('moneyline', null, { home: 1.5, away: 2.6 }),
+      storedSnapshot('spread', -2.5, { home: 1.91, away: 1.91 }),
+      storedSnapshot('total', 45.5, { over: 1.87, under: 1.95 }),
+    ]);
+
+    const count = await recordOddsSnapshots('event-1', createOddsData(), options);
+
+    expect(count).toBe(1);
+    expect(mocks.snapshotCreateMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          marketKey: 'spread',
+          line: -3.5,
+          changes: { line: [-2.5, -3.5] },
+        }),
+      ],
+    });
+  });
+
+  it('writes nothing when no market moved', async () => {
+    mocks.snapshotFindMany.mockResolvedValue([
+      storedSnapshot('prop:player_pass_yds:player-1', 280.5, { over: 1.91, under: 1.91 }),
+    ]);
+
+    const count = await recordOddsSnapshots('event-1', createOddsData(), {
+      source: 'props-sync',
+      markets: ['prop'],
+    });
+
+    expect(count).toBe(0);
+    expect(mocks.snapshotCreateMany).not.toHaveBeenCalled();
+  });
+
+  it('swallows storage errors so the sync carries on', async () => {
+    mocks.snapshotFindMany.mockRejectedValue(new Error('connection lost'));
+
+    await expect(
+      recordOddsSnapshots('event-1', createOddsData(), { ...options, markets: ['moneyline'] })
+    ).resolves.toBe(0);
+  });
+});
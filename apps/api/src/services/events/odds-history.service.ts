@@ -0,0 +1,213 @@
+// =====================================================
+// Odds History Service
+// =====================================================
+// Append-only line-movement store. SportsEvent.oddsData only holds the
+// latest market, so each sync also records a snapshot for every market
+// that moved since the last one, with a compact diff against it.
+
+import { Prisma } from '@prisma/client';
+import type { OddsHistoryMarket, OddsHistoryChanges } from '@pick-rivals/shared-types';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import { OddsData } from './types';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * One market's state at a point in time (decimal odds).
+ */
+export interface MarketSnapshot {
+  market: OddsHistoryMarket;
+  marketKey: string;
+  line: number | null;
+  prices: Record<string, number>;
+  propType?: string;
+  playerId?: string;
+  playerName?: string;
+}
+
+export interface RecordOddsSnapshotsOptions {
+  /** Which job wrote the odds (events-sync, props-sync) */
+  source: string;
+  /** Markets this source owns - others in oddsData are left alone */
+  markets: OddsHistoryMarket[];
+  capturedAt?: Date;
+}
+
+// ===========================================
+// Snapshot Extraction
+// ===========================================
+
+/**
+ * Builds the history key for a prop market.
+ */
+export function buildPropMarketKey(propType: string, playerId: string): string {
+  return `prop:${propType}:${playerId}`;
+}
+
+/**
+ * Splits stored oddsData into one snapshot per market.
+ *
+ * @param oddsData - Odds as stored on SportsEvent
+ * @param markets - Markets to extract
+ */
+export function extractMarketSnapshots(
+  oddsData: OddsData | null | undefined,
+  markets: OddsHistoryMarket[]
+): MarketSnapshot[] {
+  const data = oddsData?.markets;
+  if (!data) return [];
+
+  const snapshots: MarketSnapshot[] = [];
+
+  if (markets.includes('moneyline') && data.moneyline) {
+    const { home, away, draw } = data.moneyline;
+    snapshots.push({
+      market: 'moneyline',
+      marketKey: 'moneyline',
+      line: null,
+      prices: draw !== undefined ? { home, away, draw } : { home, away },
+    });
+  }
+
+  if (markets.includes('spread') && data.spread) {
+    snapshots.push({
+      market: 'spread',
+      marketKey: 'spread',
+      line: data.spread.home,
+      prices: { home: data.spread.homeOdds, away: data.spread.awayOdds },
+    });
+  }
+
+  if (markets.includes('total') && data.totals) {
+    snapshots.push({
+      market: 'total',
+      marketKey: 'total',
+      line: data.totals.value,
+      prices: { over: data.totals.overOdds, under: data.totals.underOdds },
+    });
+  }
+
+  if (markets.includes('prop')) {
+    for (const prop of data.props?.players ?? []) {
+      snapshots.push({
+        market: 'prop',
+        marketKey: buildPropMarketKey(prop.propType, prop.playerId),
+        line: prop.line,
+        prices: { over: prop.overOdds, under: prop.underOdds },
+        propType: prop.propType,
+        playerId: prop.playerId,
+        playerName: prop.playerName,
+      });
+    }
+  }
+
+  return snapshots;
+}
+
+/**
+ * Diffs two states of the same market.
+ * Returns an empty object when nothing moved.
+ */
+export function diffMarketSnapshot(
+  previous: Pick<MarketSnapshot, 'line' | 'prices'>,
+  next: Pick<MarketSnapshot, 'line' | 'prices'>
+): OddsHistoryChanges {
+  const changes: OddsHistoryChanges = {};
+
+  if (previous.line !== next.line) {
+    changes.line = [previous.line, next.line];
+  }
+
+  const outcomes = new Set([...Object.keys(previous.prices), ...Object.keys(next.prices)]);
+  for (const outcome of outcomes) {
+    const from = previous.prices[outcome] ?? null;
+    const to = next.prices[outcome] ?? null;
+    if (from !== to) {
+      changes[outcome] = [from, to];
+    }
+  }
+
+  return changes;
+}
+
+// ===========================================
+// Recording
+// ===========================================
+
+/**
+ * Appends a snapshot for each market that moved since its last snapshot.
+ * Never throws - history must not break an odds sync.
+ *
+ * @param eventId - SportsEvent ID
+ * @param oddsData - Odds as just written to the event
+ * @param options - Source and markets to record
+ * @returns Number of snapshots written
+ */
+export async function recordOddsSnapshots(
+  eventId: string,
+  oddsData: OddsData | null | undefined,
+  options: RecordOddsSnapshotsOptions
+): Promise<number> {
+  const snapshots = extractMarketSnapshots(oddsData, options.markets);
+  if (snapshots.length === 0) return 0;
+
+  try {
+    const latest = await prisma.oddsSnapshot.findMany({
+      where: { eventId, marketKey: { in: snapshots.map((s) => s.marketKey) } },
+      orderBy: { capturedAt: 'desc' },
+      distinct: ['marketKey'],
+      select: { marketKey: true, line: true, prices: true },
+    });
+
+    const previousByKey = new Map(
+      latest.map((row) => [
+        row.marketKey,
+        {
+          line: row.line?.toNumber() ?? null,
+          prices: row.prices as Record<string, number>,
+        },
+      ])
+    );
+
+    const capturedAt = options.capturedAt ?? new Date();
+    const rows: Prisma.OddsSnapshotCreateManyInput[] = [];
+
+    for (const snapshot of snapshots) {
+      const previous = previousByKey.get(snapshot.marketKey);
+      const changes = previous ? diffMarketSnapshot(previous, snapshot) : null;
+
+      // Unchanged markets aren't re-recorded
+      if (changes && Object.keys(changes).length === 0) continue;
+
+      rows.push({
+        eventId,
+        market: snapshot.market,
+        marketKey: snapshot.marketKey,
+        propType: snapshot.propType,
+        playerId: snapshot.playerId,
+        playerName: snapshot.playerName,
+        line: snapshot.line,
+        prices: snapshot.prices,
+        changes: changes ?? Prisma.DbNull,
+        provider: oddsData?.provider,
+        source: options.source,
+        capturedAt,
+      });
+    }
+
+    if (rows.length > 0) {
+      await prisma.oddsSnapshot.createMany({ data: rows });
+      logger.debug(
+        `[OddsHistory] Recorded ${rows.length}/${snapshots.length} market snapshots for event ${eventId}`
+      );
+    }
+
+    return rows.length;
+  } catch (error) {
+    logger.error(`[OddsHistory] Failed to record snapshots for event ${eventId}:`, error);
+    return 0;
+  }
+}
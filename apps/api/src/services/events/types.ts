@@ -18,6 +18,7 @@ export const SPORT_KEY_MAP: Record<string, SportType> = {
   icehockey_nhl: SportType.NHL,
   americanfootball_ncaaf: SportType.NCAAF,
   basketball_ncaab: SportType.NCAAB,
+  soccer_usa_mls: SportType.SOCCER,
 };
 
 /**
@@ -74,10 +75,12 @@ export interface PlayerPropData {
 export interface OddsData {
   provider: string;
   lastUpdated: string;
+  liveUpdatedAt?: string; // Set by the live-scores pipeline; live picks require it to be fresh
   markets: {
     moneyline?: {
       home: number;
       away: number;
+      draw?: number;     // Three-way markets only (soccer)
     };
     spread?: {
       home: number;      // Spread line (e.g., -3.5)
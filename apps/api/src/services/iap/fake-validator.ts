@@ -0,0 +1,102 @@
+// =====================================================
+// Fake Receipt Validator
+// =====================================================
+// Local development and test validator. Receipts are JSON strings:
+//   {"transactionId":"tx-1","productId":"pointlock.coins.500"}
+// with an optional "status":"refunded". Notifications are
+//   {"transactionId":"tx-1","type":"refund" | "chargeback"}
+// and must carry an HMAC-SHA256 signature when IAP_WEBHOOK_SECRET is set.
+//
+// SECURITY: Never used in production - see getReceiptValidator().
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import { InvalidReceiptError } from '../../utils/errors';
+import type {
+  ReceiptValidator,
+  StorePlatform,
+  StoreRefundNotification,
+  ValidatedReceipt,
+} from './iap.types';
+
+const fakeReceiptSchema = z.object({
+  transactionId: z.string().min(1),
+  productId: z.string().min(1),
+  purchasedAt: z.string().datetime().optional(),
+  status: z.enum(['purchased', 'refunded']).optional(),
+});
+
+const fakeNotificationSchema = z.object({
+  transactionId: z.string().min(1),
+  type: z.string(),
+});
+
+export class FakeReceiptValidator implements ReceiptValidator {
+  readonly name = 'fake';
+
+  constructor(private readonly webhookSecret: string = '') {}
+
+  async validateReceipt(platform: StorePlatform, receipt: string): Promise<ValidatedReceipt> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(receipt);
+    } catch {
+      throw new InvalidReceiptError('Receipt is not valid JSON');
+    }
+
+    const result = fakeReceiptSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new InvalidReceiptError('Receipt is missing transactionId or productId');
+    }
+
+    return {
+      platform,
+      transactionId: result.data.transactionId,
+      productId: result.data.productId,
+      purchasedAt: result.data.purchasedAt ? new Date(result.data.purchasedAt) : new Date(),
+      status: result.data.status ?? 'purchased',
+    };
+  }
+
+  async parseNotification(
+    platform: StorePlatform,
+    payload: unknown,
+    signature: string | undefined
+  ): Promise<StoreRefundNotification | null> {
+    if (this.webhookSecret && !this.verifySignature(payload, signature)) {
+      throw new InvalidReceiptError('Invalid notification signature');
+    }
+
+    const result = fakeNotificationSchema.safeParse(payload);
+    if (!result.success) {
+      throw new InvalidReceiptError('Notification is missing transactionId or type');
+    }
+
+    if (result.data.type !== 'refund' && result.data.type !== 'chargeback') {
+      return null;
+    }
+
+    return {
+      platform,
+      transactionId: result.data.transactionId,
+      reason: result.data.type,
+    };
+  }
+
+  private verifySignature(payload: unknown, signature: string | undefined): boolean {
+    if (!signature) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', this.webhookSecret)
+      .update(JSON.stringify(payload))
+      .digest('hex');
+
+    try {
+      return crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+    } catch {
+      return false;
+    }
+  }
+}
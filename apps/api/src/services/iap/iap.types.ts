@@ -0,0 +1,60 @@
+// =====================================================
+// In-App Purchase Types
+// =====================================================
+
+export type StorePlatform = 'apple' | 'google';
+
+export const STORE_PLATFORMS: readonly StorePlatform[] = ['apple', 'google'] as const;
+
+/**
+ * A store receipt after server-side verification.
+ */
+export interface ValidatedReceipt {
+  platform: StorePlatform;
+  /** Store's unique transaction ID (Apple transactionId / Google orderId) */
+  transactionId: string;
+  productId: string;
+  purchasedAt: Date;
+  /** 'refunded' covers refunds, revocations and chargebacks reported by the store */
+  status: 'purchased' | 'refunded';
+}
+
+/**
+ * A refund or chargeback reported by a store server notification.
+ */
+export interface StoreRefundNotification {
+  platform: StorePlatform;
+  transactionId: string;
+  reason: 'refund' | 'chargeback';
+}
+
+/**
+ * Pluggable receipt validator.
+ * Implementations talk to the store (App Store Server API, Google Play
+ * Developer API) and must throw InvalidReceiptError for any receipt
+ * that cannot be verified.
+ */
+export interface ReceiptValidator {
+  readonly name: string;
+
+  validateReceipt(platform: StorePlatform, receipt: string): Promise<ValidatedReceipt>;
+
+  /**
+   * Verify and parse a store server notification.
+   * @returns The refund notification, or null for notification types we ignore
+   * @throws InvalidReceiptError if the notification cannot be authenticated
+   */
+  parseNotification(
+    platform: StorePlatform,
+    payload: unknown,
+    signature: string | undefined
+  ): Promise<StoreRefundNotification | null>;
+}
+
+/**
+ * Coin pack sold through the stores.
+ */
+export interface CoinProduct {
+  productId: string;
+  coins: number;
+}
@@ -0,0 +1,23 @@
+// =====================================================
+// In-App Purchase Service Exports
+// =====================================================
+
+export type {
+  StorePlatform,
+  ValidatedReceipt,
+  StoreRefundNotification,
+  ReceiptValidator,
+  CoinProduct,
+} from './iap.types';
+export { STORE_PLATFORMS } from './iap.types';
+export { COIN_PRODUCTS, getCoinProduct } from './products';
+export { FakeReceiptValidator } from './fake-validator';
+export { getReceiptValidator, setReceiptValidator } from './validator';
+export {
+  purchaseCoins,
+  reversePurchase,
+  handleStoreNotification,
+  type PurchaseInput,
+  type PurchaseResult,
+  type PurchaseReversalResult,
+} from './purchase.service';
@@ -0,0 +1,21 @@
+// =====================================================
+// Coin Product Catalog
+// =====================================================
+// Product IDs must match the App Store Connect and Google Play
+// Console configuration. Coins are credited to paidBalance.
+
+import type { CoinProduct } from './iap.types';
+
+export const COIN_PRODUCTS: readonly CoinProduct[] = [
+  { productId: 'pointlock.coins.500', coins: 500 },
+  { productId: 'pointlock.coins.1200', coins: 1200 },
+  { productId: 'pointlock.coins.2500', coins: 2500 },
+  { productId: 'pointlock.coins.6500', coins: 6500 },
+] as const;
+
+/**
+ * Look up a coin product by store product ID.
+ */
+export function getCoinProduct(productId: string): CoinProduct | undefined {
+  return COIN_PRODUCTS.find((product) => product.productId === productId);
+}
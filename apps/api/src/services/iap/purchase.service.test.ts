@@ -0,0 +1,254 @@
+// =====================================================
+// Coin Purchase Service Tests
+// =====================================================
+// Covers receipt verification, idempotent crediting and
+// refund/chargeback reversal using the fake receipt validator.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  transactionFindUnique: vi.fn(),
+  transactionUpdate: vi.fn(),
+  creditWallet: vi.fn(),
+  debitWallet: vi.fn(),
+  getWalletByUserId: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => ({
+  prisma: {
+    transaction: {
+      findUnique: mocks.transactionFindUnique,
+      update: mocks.transactionUpdate,
+    },
+  },
+}));
+
+vi.mock('../../lib/wallet.service', () => ({
+  creditWallet: mocks.creditWallet,
+  debitWallet: mocks.debitWallet,
+  getWalletByUserId: mocks.getWalletByUserId,
+  bigIntToNumber: (value: bigint) => Number(value),
+}));
+
+import { purchaseCoins, reversePurchase, handleStoreNotification } from './purchase.service';
+import { setReceiptValidator } from './validator';
+import { FakeReceiptValidator } from './fake-validator';
+
+// ===========================================
+// Test Helpers
+// ===========================================
+
+function fakeReceipt(overrides: Record<string, string> = {}): string {
+  return JSON.stringify({
+    transactionId: 'apple-tx-1',
+    productId: 'pointlock.coins.500',
+    ...overrides,
+  });
+}
+
+function createDeposit(overrides = {}) {
+  return {
+    id: 'tx-deposit',
+    userId: 'user-1',
+    type: 'DEPOSIT',
+    status: 'completed',
+    amount: BigInt(500),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  setReceiptValidator(new FakeReceiptValidator());
+  mocks.creditWallet.mockResolvedValue({ id: 'tx-deposit', balanceAfter: 1250 });
+  mocks.getWalletByUserId.mockResolvedValue({ totalBalance: 1250 });
+});
+
+// ===========================================
+// Test: Purchase
+// ===========================================
+
+describe('purchaseCoins', () => {
+  it('credits the product coins to paid balance keyed on the store transaction', async () => {
+    mocks.transactionFindUnique.mockResolvedValue(null);
+
+    const result = await purchaseCoins('user-1', {
+      platform: 'apple',
+      productId: 'pointlock.coins.500',
+      receipt: fakeReceipt(),
+    });
+
+    expect(mocks.creditWallet).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        amount: BigInt(500),
+        type: 'DEPOSIT',
+        useBonus: false,
+        iapReceiptId: 'apple-tx-1',
+        idempotencyKey: 'IAP_PURCHASE-apple-apple-tx-1',
+      })
+    );
+    expect(result.coins).toBe(500);
+    expect(result.alreadyProcessed).toBe(false);
+  });
+
+  it('reports a resubmitted receipt as already processed', async () => {
+    mocks.transactionFindUnique.mockResolvedValue({ userId: 'user-1' });
+
+    const result = await purchaseCoins('user-1', {
+      platform: 'apple',
+      productId: 'pointlock.coins.500',
+      receipt: fakeReceipt(),
+    });
+
+    expect(result.alreadyProcessed).toBe(true);
+  });
+
+  it('rejects a receipt already redeemed by another user', async () => {
+    mocks.transactionFindUnique.mockResolvedValue({ userId: 'user-2' });
+
+    await expect(
+      purchaseCoins('user-1', {
+        platform: 'apple',
+        productId: 'pointlock.coins.500',
+        receipt: fakeReceipt(),
+      })
+    ).rejects.toMatchObject({ code: ERROR_CODES.RECEIPT_ALREADY_REDEEMED });
+    expect(mocks.creditWallet).not.toHaveBeenCalled();
+  });
+
+  it('rejects a receipt for a different product', async () => {
+    await expect(
+      purchaseCoins('user-1', {
+        platform: 'apple',
+        productId: 'pointlock.coins.6500',
+        receipt: fakeReceipt(),
+      })
+    ).rejects.toMatchObject({ code: ERROR_CODES.INVALID_RECEIPT });
+  });
+
+  it('rejects a refunded receipt', async () => {
+    await expect(
+      purchaseCoins('user-1', {
+        platform: 'google',
+        productId: 'pointlock.coins.500',
+        receipt: fakeReceipt({ status: 'refunded' }),
+      })
+    ).rejects.toMatchObject({ code: ERROR_CODES.INVALID_RECEIPT });
+  });
+
+  it('rejects a malformed receipt', async () => {
+    await expect(
+      purchaseCoins('user-1', {
+        platform: 'apple',
+        productId: 'pointlock.coins.500',
+        receipt: 'not-a-receipt',
+      })
+    ).rejects.toMatchObject({ code: ERROR_CODES.INVALID_RECEIPT });
+  });
+});
+
+// ===========================================
+// Test: Reversal
+// ===========================================
+
+describe('reversePurchase', () => {
+  it('debits the full purchase when the user still holds the coins', async () => {
+    mocks.transactionFindUnique.mockResolvedValue(createDeposit());
+    mocks.getWalletByUserId.mockResolvedValue({ totalBalance: 2000 });
+
+    const result = await reversePurchase({
+      platform: 'apple',
+      transactionId: 'apple-tx-1',
+      reason: 'refund',
+    });
+
+    expect(mocks.debitWallet).toHaveBeenCalledWith(
+      expect.objectContaining({
+        amount: BigInt(500),
+        type: 'PURCHASE_REVERSAL',
+        preferBonus: false,
+        idempotencyKey: 'IAP_REVERSAL-apple-apple-tx-1',
+      })
+    );
+    expect(mocks.transactionUpdate).toHaveBeenCalledWith({
+      where: { id: 'tx-deposit' },
+      data: { status: 'reversed' },
+    });
+    expect(result).toMatchObject({ reversed: true, coinsReversed: 500, shortfall: 0 });
+  });
+
+  it('claws back what remains and records the shortfall', async () => {
+    mocks.transactionFindUnique.mockResolvedValue(createDeposit());
+    mocks.getWalletByUserId.mockResolvedValue({ totalBalance: 200 });
+
+    const result = await reversePurchase({
+      platform: 'apple',
+      transactionId: 'apple-tx-1',
+      reason: 'chargeback',
+    });
+
+    expect(mocks.debitWallet).toHaveBeenCalledWith(
+      expect.objectContaining({ amount: BigInt(200) })
+    );
+    expect(result).toMatchObject({ reversed: true, coinsReversed: 200, shortfall: 300 });
+  });
+
+  it('skips the debit when the balance is empty', async () => {
+    mocks.transactionFindUnique.mockResolvedValue(createDeposit());
+    mocks.getWalletByUserId.mockResolvedValue({ totalBalance: 0 });
+
+    const result = await reversePurchase({
+      platform: 'apple',
+      transactionId: 'apple-tx-1',
+      reason: 'chargeback',
+    });
+
+    expect(mocks.debitWallet).not.toHaveBeenCalled();
+    expect(mocks.transactionUpdate).toHaveBeenCalled();
+    expect(result.shortfall).toBe(500);
+  });
+
+  it('is a no-op for an already reversed purchase', async () => {
+    mocks.transactionFindUnique.mockResolvedValue(createDeposit({ status: 'reversed' }));
+
+    const result = await reversePurchase({
+      platform: 'apple',
+      transactionId: 'apple-tx-1',
+      reason: 'refund',
+    });
+
+    expect(result.reversed).toBe(false);
+    expect(mocks.debitWallet).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// Test: Store Notifications
+// ===========================================
+
+describe('handleStoreNotification', () => {
+  it('ignores notification types other than refunds and chargebacks', async () => {
+    const result = await handleStoreNotification(
+      'google',
+      { transactionId: 'gpa-1', type: 'renewal' },
+      undefined
+    );
+
+    expect(result).toBeNull();
+    expect(mocks.transactionFindUnique).not.toHaveBeenCalled();
+  });
+
+  it('rejects unsigned notifications when a webhook secret is configured', async () => {
+    setReceiptValidator(new FakeReceiptValidator('test-secret'));
+
+    await expect(
+      handleStoreNotification('google', { transactionId: 'gpa-1', type: 'refund' }, undefined)
+    ).rejects.toMatchObject({ code: ERROR_CODES.INVALID_RECEIPT });
+  });
+});
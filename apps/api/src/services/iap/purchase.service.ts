@@ -0,0 +1,234 @@
+// =====================================================
+// Coin Purchase Service
+// =====================================================
+// Verifies store receipts and credits purchased coins to paidBalance.
+//
+// CRITICAL: Crediting is idempotent per store transaction ID - the same
+// receipt can be submitted any number of times and credits exactly once.
+// A receipt redeemed by one user can never be redeemed by another.
+//
+// Refunds and chargebacks reverse the credit with a PURCHASE_REVERSAL
+// debit. Coins already spent cannot be clawed back; the shortfall is
+// recorded on the reversal for support follow-up.
+
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import { BadRequestError, ConflictError, InvalidReceiptError } from '../../utils/errors';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+import {
+  creditWallet,
+  debitWallet,
+  getWalletByUserId,
+  bigIntToNumber,
+} from '../../lib/wallet.service';
+import { getReceiptValidator } from './validator';
+import { getCoinProduct } from './products';
+import type { StorePlatform, StoreRefundNotification } from './iap.types';
+
+// ===========================================
+// Types
+// ===========================================
+
+export interface PurchaseInput {
+  platform: StorePlatform;
+  productId: string;
+  receipt: string;
+}
+
+export interface PurchaseResult {
+  transactionId: string;
+  storeTransactionId: string;
+  productId: string;
+  coins: number;
+  newBalance: number;
+  /** True if this receipt had already been credited by an earlier request */
+  alreadyProcessed: boolean;
+}
+
+export interface PurchaseReversalResult {
+  reversed: boolean;
+  reason: string;
+  coinsReversed: number;
+  shortfall: number;
+}
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+function purchaseIdempotencyKey(platform: StorePlatform, storeTransactionId: string): string {
+  return `IAP_PURCHASE-${platform}-${storeTransactionId}`;
+}
+
+function reversalIdempotencyKey(platform: StorePlatform, storeTransactionId: string): string {
+  return `IAP_REVERSAL-${platform}-${storeTransactionId}`;
+}
+
+// ===========================================
+// Purchase
+// ===========================================
+
+/**
+ * Verify a store receipt and credit the purchased coins.
+ *
+ * @throws InvalidReceiptError if the receipt fails verification, was refunded,
+ *         or does not match the requested product
+ * @throws ConflictError if the receipt was already redeemed by another user
+ */
+export async function purchaseCoins(userId: string, input: PurchaseInput): Promise<PurchaseResult> {
+  const validated = await getReceiptValidator().validateReceipt(input.platform, input.receipt);
+
+  if (validated.productId !== input.productId) {
+    throw new InvalidReceiptError('Receipt does not match the requested product');
+  }
+
+  if (validated.status === 'refunded') {
+    throw new InvalidReceiptError('Purchase has been refunded');
+  }
+
+  const product = getCoinProduct(validated.productId);
+  if (!product) {
+    throw new BadRequestError(`Unknown product: ${validated.productId}`, ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  const idempotencyKey = purchaseIdempotencyKey(validated.platform, validated.transactionId);
+
+  // creditWallet returns the existing transaction for a repeated key regardless
+  // of user - check ownership first so a shared receipt can't be replayed
+  const existing = await prisma.transaction.findUnique({
+    where: { idempotencyKey },
+    select: { userId: true },
+  });
+
+  if (existing && existing.userId !== userId) {
+    logger.warn(
+      `[IAP] Receipt ${validated.transactionId} already redeemed by another user - rejected for ${userId}`
+    );
+    throw new ConflictError('Receipt has already been redeemed', ERROR_CODES.RECEIPT_ALREADY_REDEEMED);
+  }
+
+  const transaction = await creditWallet({
+    userId,
+    amount: BigInt(product.coins),
+    type: 'DEPOSIT',
+    useBonus: false,
+    iapReceiptId: validated.transactionId,
+    idempotencyKey,
+    description: `Coin purchase: ${product.coins} coins`,
+    metadata: {
+      platform: validated.platform,
+      productId: product.productId,
+      purchasedAt: validated.purchasedAt.toISOString(),
+    },
+  });
+
+  const wallet = await getWalletByUserId(userId);
+
+  if (!existing) {
+    logger.info(
+      `[IAP] Credited ${product.coins} coins to ${userId} for ${validated.platform} ` +
+        `transaction ${validated.transactionId}`
+    );
+  }
+
+  return {
+    transactionId: transaction.id,
+    storeTransactionId: validated.transactionId,
+    productId: product.productId,
+    coins: product.coins,
+    newBalance: wallet?.totalBalance ?? transaction.balanceAfter,
+    alreadyProcessed: existing !== null,
+  };
+}
+
+// ===========================================
+// Refunds and Chargebacks
+// ===========================================
+
+/**
+ * Reverse a purchase after a store refund or chargeback.
+ * Idempotent per store transaction ID.
+ */
+export async function reversePurchase(
+  notification: StoreRefundNotification
+): Promise<PurchaseReversalResult> {
+  const { platform, transactionId, reason } = notification;
+
+  const deposit = await prisma.transaction.findUnique({
+    where: { idempotencyKey: purchaseIdempotencyKey(platform, transactionId) },
+  });
+
+  if (!deposit) {
+    logger.warn(`[IAP] ${reason} received for unknown ${platform} transaction ${transactionId}`);
+    return { reversed: false, reason: 'Purchase not found', coinsReversed: 0, shortfall: 0 };
+  }
+
+  if (deposit.status === 'reversed') {
+    return { reversed: false, reason: 'Purchase already reversed', coinsReversed: 0, shortfall: 0 };
+  }
+
+  const wallet = await getWalletByUserId(deposit.userId);
+  const purchasedCoins = deposit.amount;
+  const available = BigInt(wallet?.totalBalance ?? 0);
+
+  // Claw back as much as the user still holds - paid coins first
+  const clawback = available < purchasedCoins ? available : purchasedCoins;
+  const shortfall = purchasedCoins - clawback;
+
+  if (clawback > BigInt(0)) {
+    await debitWallet({
+      userId: deposit.userId,
+      amount: clawback,
+      type: 'PURCHASE_REVERSAL',
+      preferBonus: false,
+      iapReceiptId: transactionId,
+      idempotencyKey: reversalIdempotencyKey(platform, transactionId),
+      description: `Coin purchase ${reason}`,
+      metadata: {
+        platform,
+        reason,
+        originalTransactionId: deposit.id,
+        shortfall: bigIntToNumber(shortfall),
+      },
+    });
+  }
+
+  await prisma.transaction.update({
+    where: { id: deposit.id },
+    data: { status: 'reversed' },
+  });
+
+  if (shortfall > BigInt(0)) {
+    logger.warn(
+      `[IAP] ${reason} for ${transactionId}: user ${deposit.userId} had already spent ` +
+        `${bigIntToNumber(shortfall)} of ${bigIntToNumber(purchasedCoins)} coins`
+    );
+  } else {
+    logger.info(`[IAP] Reversed ${bigIntToNumber(clawback)} coins for ${reason} of ${transactionId}`);
+  }
+
+  return {
+    reversed: true,
+    reason,
+    coinsReversed: bigIntToNumber(clawback),
+    shortfall: bigIntToNumber(shortfall),
+  };
+}
+
+/**
+ * Handle a store server notification.
+ * Non-refund notification types are acknowledged and ignored.
+ */
+export async function handleStoreNotification(
+  platform: StorePlatform,
+  payload: unknown,
+  signature: string | undefined
+): Promise<PurchaseReversalResult | null> {
+  const notification = await getReceiptValidator().parseNotification(platform, payload, signature);
+
+  if (!notification) {
+    return null;
+  }
+
+  return reversePurchase(notification);
+}
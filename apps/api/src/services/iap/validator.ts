@@ -0,0 +1,38 @@
+// =====================================================
+// Receipt Validator Registry
+// =====================================================
+
+import { config } from '../../config';
+import { FakeReceiptValidator } from './fake-validator';
+import type { ReceiptValidator } from './iap.types';
+
+let validatorInstance: ReceiptValidator | null = null;
+
+function createValidator(): ReceiptValidator {
+  switch (config.iap.validator) {
+    case 'fake':
+    default:
+      // SECURITY: the fake validator accepts self-made receipts
+      if (config.nodeEnv === 'production') {
+        throw new Error('Fake receipt validator cannot be used in production');
+      }
+      return new FakeReceiptValidator(config.iap.webhookSecret);
+  }
+}
+
+/**
+ * Get the configured ReceiptValidator instance.
+ */
+export function getReceiptValidator(): ReceiptValidator {
+  if (!validatorInstance) {
+    validatorInstance = createValidator();
+  }
+  return validatorInstance;
+}
+
+/**
+ * Replace the active ReceiptValidator (store-backed validator or tests).
+ */
+export function setReceiptValidator(validator: ReceiptValidator): void {
+  validatorInstance = validator;
+}
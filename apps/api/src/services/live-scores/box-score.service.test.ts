@@ -0,0 +1,89 @@
+// =====================================================
+// Box Score Service Tests
+// =====================================================
+// Covers the overdue box score sweep: matches with prop picks still
+// missing a box score past the deadline are re-queued for settlement.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  matchFindMany: vi.fn(),
+  queueSettlementCheck: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => ({
+  prisma: { match: { findMany: mocks.matchFindMany } },
+}));
+
+vi.mock('../../queues/game-settlement.queue', () => ({
+  queueSettlementCheck: mocks.queueSettlementCheck,
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { queueOverdueBoxScoreSettlementChecks } from './box-score.service';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const NOW = new Date('2026-03-01T12:00:00.000Z');
+const CUTOFF = new Date('2026-03-01T06:00:00.000Z');
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.matchFindMany.mockResolvedValue([{ id: 'match-1' }, { id: 'match-2' }]);
+  mocks.queueSettlementCheck.mockResolvedValue({ id: 'job-1' });
+});
+
+// ===========================================
+// queueOverdueBoxScoreSettlementChecks
+// ===========================================
+
+describe('queueOverdueBoxScoreSettlementChecks', () => {
+  it('finds active matches with prop picks past the box score deadline', async () => {
+    await queueOverdueBoxScoreSettlementChecks(NOW);
+
+    const overduePropPick = {
+      pickType: 'prop',
+      event: {
+        status: 'COMPLETED',
+        playerStats: { none: {} },
+        OR: [{ endedAt: { lte: CUTOFF } }, { endedAt: null, scheduledAt: { lte: CUTOFF } }],
+      },
+    };
+    expect(mocks.matchFindMany).toHaveBeenCalledWith({
+      where: {
+        status: 'active',
+        OR: [
+          { creatorSlip: { picks: { some: overduePropPick } } },
+          { opponentSlip: { picks: { some: overduePropPick } } },
+        ],
+      },
+      select: { id: true },
+    });
+  });
+
+  it('queues a settlement check for each overdue match', async () => {
+    const queued = await queueOverdueBoxScoreSettlementChecks(NOW);
+
+    expect(queued).toBe(2);
+    expect(mocks.queueSettlementCheck).toHaveBeenCalledWith('match-1', undefined, 'scheduled');
+    expect(mocks.queueSettlementCheck).toHaveBeenCalledWith('match-2', undefined, 'scheduled');
+  });
+
+  it('keeps going when one check fails to queue', async () => {
+    mocks.queueSettlementCheck.mockRejectedValueOnce(new Error('redis down'));
+
+    const queued = await queueOverdueBoxScoreSettlementChecks(NOW);
+
+    expect(queued).toBe(1);
+    expect(mocks.queueSettlementCheck).toHaveBeenCalledTimes(2);
+  });
+});
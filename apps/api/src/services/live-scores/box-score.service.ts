@@ -0,0 +1,228 @@
+// =====================================================
+// Box Score Ingestion Service
+// =====================================================
+// Stores per-player stat lines for completed events so player
+// prop picks can be graded at settlement.
+//
+// CRITICAL: Ingestion is idempotent per (eventId, playerId) via upsert.
+// Re-ingesting a corrected box score overwrites the previous stat line
+// and re-queues settlement checks for matches still awaiting settlement.
+// Box scores that never arrive are swept hourly: once BOX_SCORE_DEADLINE_MS
+// passes, the match is re-checked and its ungraded props settle as VOID.
+
+import { MatchStatus, Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import { NotFoundError } from '../../utils/errors';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+import { queueSettlementCheck } from '../../queues/game-settlement.queue';
+import { BOX_SCORE_DEADLINE_MS } from '../settlement/settlement.types';
+import type { PlayerBoxScoreStats } from '../settlement/settlement.types';
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * A single player's stat line as received from a provider or admin.
+ */
+export interface BoxScorePlayerInput {
+  playerId: string;
+  playerName: string;
+  team?: string;
+  didPlay?: boolean;
+  stats: PlayerBoxScoreStats;
+}
+
+/**
+ * Box score for one event. Either the internal event ID or the
+ * provider's external event ID must be supplied.
+ */
+export interface BoxScoreInput {
+  eventId?: string;
+  externalEventId?: string;
+  players: BoxScorePlayerInput[];
+  source: string;
+}
+
+export interface BoxScoreIngestResult {
+  eventId: string;
+  playersIngested: number;
+  settlementChecksQueued: number;
+}
+
+// ===========================================
+// Main Functions
+// ===========================================
+
+/**
+ * Ingest a box score for an event.
+ *
+ * @param input - Event reference, player stat lines and source
+ * @returns Count of stored stat lines and queued settlement checks
+ * @throws NotFoundError if the event does not exist
+ */
+export async function ingestBoxScore(input: BoxScoreInput): Promise<BoxScoreIngestResult> {
+  const event = await prisma.sportsEvent.findUnique({
+    where: input.eventId ? { id: input.eventId } : { externalId: input.externalEventId! },
+    select: { id: true, status: true },
+  });
+
+  if (!event) {
+    throw new NotFoundError(
+      `Event not found: ${input.eventId ?? input.externalEventId}`,
+      ERROR_CODES.EVENT_NOT_FOUND
+    );
+  }
+
+  await prisma.$transaction(
+    input.players.map((player) =>
+      prisma.playerGameStat.upsert({
+        where: {
+          eventId_playerId: { eventId: event.id, playerId: player.playerId },
+        },
+        create: {
+          eventId: event.id,
+          playerId: player.playerId,
+          playerName: player.playerName,
+          team: player.team,
+          didPlay: player.didPlay ?? true,
+          stats: player.stats as Prisma.InputJsonValue,
+          source: input.source,
+        },
+        update: {
+          playerName: player.playerName,
+          team: player.team,
+          didPlay: player.didPlay ?? true,
+          stats: player.stats as Prisma.InputJsonValue,
+          source: input.source,
+        },
+      })
+    )
+  );
+
+  logger.info(`[BoxScore] Ingested ${input.players.length} stat lines for event ${event.id}`, {
+    source: input.source,
+    eventStatus: event.status,
+  });
+
+  const settlementChecksQueued = await queueSettlementChecksForPropMatches(event.id);
+
+  return {
+    eventId: event.id,
+    playersIngested: input.players.length,
+    settlementChecksQueued,
+  };
+}
+
+/**
+ * Get the stored box score for an event.
+ */
+export async function getEventBoxScore(eventId: string) {
+  return prisma.playerGameStat.findMany({
+    where: { eventId },
+    orderBy: { playerName: 'asc' },
+    select: {
+      playerId: true,
+      playerName: true,
+      team: true,
+      didPlay: true,
+      stats: true,
+      source: true,
+      updatedAt: true,
+    },
+  });
+}
+
+/**
+ * Queue settlement checks for active matches whose prop picks are still
+ * waiting on a box score past the deadline. Settlement voids those props.
+ *
+ * @param now - Reference time (defaults to now)
+ * @returns Number of checks queued
+ */
+export async function queueOverdueBoxScoreSettlementChecks(
+  now: Date = new Date()
+): Promise<number> {
+  const cutoff = new Date(now.getTime() - BOX_SCORE_DEADLINE_MS);
+  const overduePropPick: Prisma.SlipPickWhereInput = {
+    pickType: 'prop',
+    event: {
+      status: 'COMPLETED',
+      playerStats: { none: {} },
+      OR: [{ endedAt: { lte: cutoff } }, { endedAt: null, scheduledAt: { lte: cutoff } }],
+    },
+  };
+
+  const matches = await prisma.match.findMany({
+    where: {
+      status: MatchStatus.active,
+      OR: [
+        { creatorSlip: { picks: { some: overduePropPick } } },
+        { opponentSlip: { picks: { some: overduePropPick } } },
+      ],
+    },
+    select: { id: true },
+  });
+
+  let queued = 0;
+  for (const match of matches) {
+    try {
+      // No eventId - the event-completed check for the same event is already deduplicated
+      await queueSettlementCheck(match.id, undefined, 'scheduled');
+      queued++;
+    } catch (error) {
+      logger.error(`[BoxScore] Failed to queue overdue settlement check for match ${match.id}:`, error);
+    }
+  }
+
+  if (matches.length > 0) {
+    logger.warn(`[BoxScore] ${matches.length} matches past the box score deadline`, { queued });
+  }
+
+  return queued;
+}
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+/**
+ * Queue settlement checks for active matches with prop picks on the event.
+ * Failures are logged and swallowed - the box score is already stored.
+ *
+ * @returns Number of checks queued
+ */
+async function queueSettlementChecksForPropMatches(eventId: string): Promise<number> {
+  try {
+    const matches = await prisma.match.findMany({
+      where: {
+        status: MatchStatus.active,
+        OR: [
+          { creatorSlip: { picks: { some: { sportsEventId: eventId, pickType: 'prop' } } } },
+          { opponentSlip: { picks: { some: { sportsEventId: eventId, pickType: 'prop' } } } },
+        ],
+      },
+      select: { id: true },
+    });
+
+    let queued = 0;
+    for (const match of matches) {
+      try {
+        await queueSettlementCheck(match.id, eventId, 'box-score-ingested');
+        queued++;
+      } catch (error) {
+        logger.error(`[BoxScore] Failed to queue settlement check for match ${match.id}:`, error);
+      }
+    }
+
+    if (queued > 0) {
+      logger.info(`[BoxScore] Queued settlement checks for ${queued} matches`, { eventId });
+    }
+
+    return queued;
+  } catch (error) {
+    logger.error('[BoxScore] Failed to queue settlement checks:', error);
+    return 0;
+  }
+}
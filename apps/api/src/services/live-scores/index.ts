@@ -15,6 +15,14 @@ export {
   getLiveEvents,
 } from './live-scores.processor';
 
+// Box scores (prop settlement)
+export { ingestBoxScore, getEventBoxScore } from './box-score.service';
+export type {
+  BoxScoreInput,
+  BoxScorePlayerInput,
+  BoxScoreIngestResult,
+} from './box-score.service';
+
 // Broadcaster
 export {
   broadcastScoreUpdate,
@@ -9,11 +9,17 @@ import {
   getMatchRoomId,
   getEventRoomId,
   getUserRoomId,
+  getTournamentRoomId,
   EventScorePayload,
   EventStatusPayload,
   MatchSettledPayload,
   MatchCreatedPayload,
   QueueExpiredPayload,
+  MatchCancelRequestedPayload,
+  MatchCancelledPayload,
+  MatchRematchRequestedPayload,
+  MatchRematchStartedPayload,
+  TournamentUpdatedPayload,
 } from '../../socket/socket.types';
 import { getRedisConnection } from '../../queues/connection';
 
@@ -489,5 +495,247 @@ export function broadcastQueueExpiredSync(
   });
 }
 
+// ===========================================
+// Match Cancellation Broadcasting
+// ===========================================
+
+/**
+ * Broadcast a cancellation event to a single participant via their user room.
+ * Only the other participant is notified - the caller already has the HTTP response.
+ *
+ * @param userId - User ID to notify
+ * @param event - match:cancel-requested or match:cancelled
+ * @param payload - Cancellation details
+ */
+export async function broadcastMatchCancellation(
+  userId: string,
+  event: 'match:cancel-requested',
+  payload: MatchCancelRequestedPayload
+): Promise<void>;
+export async function broadcastMatchCancellation(
+  userId: string,
+  event: 'match:cancelled',
+  payload: MatchCancelledPayload
+): Promise<void>;
+export async function broadcastMatchCancellation(
+  userId: string,
+  event: 'match:cancel-requested' | 'match:cancelled',
+  payload: MatchCancelRequestedPayload | MatchCancelledPayload
+): Promise<void> {
+  const io = await getIo();
+
+  if (!io) {
+    logger.warn(`[LiveScoresBroadcaster] Cannot broadcast ${event}: Socket server not available`);
+    return;
+  }
+
+  const userRoomId = getUserRoomId(userId);
+
+  if (event === 'match:cancel-requested') {
+    io.to(userRoomId).emit(event, payload as MatchCancelRequestedPayload);
+  } else {
+    io.to(userRoomId).emit(event, payload as MatchCancelledPayload);
+  }
+
+  logger.info(`[LiveScoresBroadcaster] ${event} sent to ${userRoomId}`, {
+    matchId: payload.matchId,
+  });
+}
+
+/**
+ * Synchronous fire-and-forget version for use in match service.
+ * Cancellation should NEVER fail due to notification errors.
+ */
+export function broadcastMatchCancellationSync(
+  userId: string,
+  event: 'match:cancel-requested',
+  payload: MatchCancelRequestedPayload
+): void;
+export function broadcastMatchCancellationSync(
+  userId: string,
+  event: 'match:cancelled',
+  payload: MatchCancelledPayload
+): void;
+export function broadcastMatchCancellationSync(
+  userId: string,
+  event: 'match:cancel-requested' | 'match:cancelled',
+  payload: MatchCancelRequestedPayload | MatchCancelledPayload
+): void {
+  const promise =
+    event === 'match:cancel-requested'
+      ? broadcastMatchCancellation(userId, event, payload as MatchCancelRequestedPayload)
+      : broadcastMatchCancellation(userId, event, payload as MatchCancelledPayload);
+
+  promise.catch((error) => {
+    logger.error(`[LiveScoresBroadcaster] Failed to broadcast ${event}:`, error);
+  });
+}
+
+// ===========================================
+// Rematch Broadcasting
+// ===========================================
+
+/**
+ * Broadcast a rematch event to the other player via their user room.
+ *
+ * @param userId - User ID to notify
+ * @param event - match:rematch-requested or match:rematch-started
+ * @param payload - Rematch details
+ */
+export async function broadcastRematch(
+  userId: string,
+  event: 'match:rematch-requested',
+  payload: MatchRematchRequestedPayload
+): Promise<void>;
+export async function broadcastRematch(
+  userId: string,
+  event: 'match:rematch-started',
+  payload: MatchRematchStartedPayload
+): Promise<void>;
+export async function broadcastRematch(
+  userId: string,
+  event: 'match:rematch-requested' | 'match:rematch-started',
+  payload: MatchRematchRequestedPayload | MatchRematchStartedPayload
+): Promise<void> {
+  const io = await getIo();
+
+  if (!io) {
+    logger.warn(`[LiveScoresBroadcaster] Cannot broadcast ${event}: Socket server not available`);
+    return;
+  }
+
+  const userRoomId = getUserRoomId(userId);
+
+  if (event === 'match:rematch-requested') {
+    io.to(userRoomId).emit(event, payload as MatchRematchRequestedPayload);
+  } else {
+    io.to(userRoomId).emit(event, payload as MatchRematchStartedPayload);
+  }
+
+  logger.info(`[LiveScoresBroadcaster] ${event} sent to ${userRoomId}`, {
+    matchId: payload.matchId,
+  });
+}
+
+/**
+ * Synchronous fire-and-forget version for use in match service.
+ * A rematch should NEVER fail due to notification errors.
+ */
+export function broadcastRematchSync(
+  userId: string,
+  event: 'match:rematch-requested',
+  payload: MatchRematchRequestedPayload
+): void;
+export function broadcastRematchSync(
+  userId: string,
+  event: 'match:rematch-started',
+  payload: MatchRematchStartedPayload
+): void;
+export function broadcastRematchSync(
+  userId: string,
+  event: 'match:rematch-requested' | 'match:rematch-started',
+  payload: MatchRematchRequestedPayload | MatchRematchStartedPayload
+): void {
+  const promise =
+    event === 'match:rematch-requested'
+      ? broadcastRematch(userId, event, payload as MatchRematchRequestedPayload)
+      : broadcastRematch(userId, event, payload as MatchRematchStartedPayload);
+
+  promise.catch((error) => {
+    logger.error(`[LiveScoresBroadcaster] Failed to broadcast ${event}:`, error);
+  });
+}
+
+// ===========================================
+// Tournament Broadcasting
+// ===========================================
+
+/**
+ * Broadcast a bracket update to the tournament room and, optionally,
+ * to players who need to act on it (e.g. a new match awaiting their slip)
+ * but may not be watching the bracket.
+ *
+ * @param payload - Tournament state and full bracket
+ * @param userIds - Players to notify via their user rooms
+ */
+export async function broadcastTournamentUpdate(
+  payload: TournamentUpdatedPayload,
+  userIds: string[] = []
+): Promise<void> {
+  const io = await getIo();
+
+  if (!io) {
+    logger.warn('[LiveScoresBroadcaster] Cannot broadcast tournament:updated: Socket server not available');
+    return;
+  }
+
+  // A socket in several of these rooms still receives the event once
+  const rooms = [getTournamentRoomId(payload.tournamentId), ...userIds.map(getUserRoomId)];
+  io.to(rooms).emit('tournament:updated', payload);
+
+  logger.info(`[LiveScoresBroadcaster] tournament:updated sent for ${payload.tournamentId}`, {
+    reason: payload.reason,
+    notifiedUsers: userIds.length,
+  });
+}
+
+/**
+ * Synchronous fire-and-forget version for use in tournament service.
+ * Bracket progression should NEVER fail due to notification errors.
+ */
+export function broadcastTournamentUpdateSync(
+  payload: TournamentUpdatedPayload,
+  userIds: string[] = []
+): void {
+  broadcastTournamentUpdate(payload, userIds).catch((error) => {
+    logger.error('[LiveScoresBroadcaster] Failed to broadcast tournament:updated:', error);
+  });
+}
+
+// ===========================================
+// Account Restriction
+// ===========================================
+
+/**
+ * Disconnect every socket a user has open. Used when an account is
+ * suspended or banned - reconnects are rejected by the socket auth middleware.
+ *
+ * @param userId - User whose sockets should be closed
+ */
+export async function disconnectUserSockets(userId: string): Promise<void> {
+  const io = await getIo();
+
+  if (!io) {
+    logger.warn('[LiveScoresBroadcaster] Cannot disconnect user sockets: Socket server not available');
+    return;
+  }
+
+  const userRoomId = getUserRoomId(userId);
+  io.in(userRoomId).disconnectSockets(true);
+
+  logger.info(`[LiveScoresBroadcaster] Disconnected sockets in ${userRoomId}`);
+}
+
+/**
+ * Synchronous fire-and-forget version for use in admin user management.
+ * A status change should NEVER fail due to socket errors.
+ */
+export function disconnectUserSocketsSync(userId: string): void {
+  disconnectUserSockets(userId).catch((error) => {
+    logger.error('[LiveScoresBroadcaster] Failed to disconnect user sockets:', error);
+  });
+}
+
 // Re-export payload types for convenience
-export type { EventScorePayload, EventStatusPayload, MatchSettledPayload, MatchCreatedPayload, QueueExpiredPayload };
+export type {
+  EventScorePayload,
+  EventStatusPayload,
+  MatchSettledPayload,
+  MatchCreatedPayload,
+  QueueExpiredPayload,
+  MatchCancelRequestedPayload,
+  MatchCancelledPayload,
+  MatchRematchRequestedPayload,
+  MatchRematchStartedPayload,
+  TournamentUpdatedPayload,
+};
@@ -0,0 +1,159 @@
+// =====================================================
+// Live Scores Processor Tests
+// =====================================================
+// Covers live market suspension on score changes, including an update
+// that carries a score change and fresh odds together.
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventStatus, SportType } from '@prisma/client';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  eventFindUnique: vi.fn(),
+  eventUpdate: vi.fn(),
+}));
+
+vi.mock('../../config', () => ({
+  config: {
+    livePicks: {
+      acceptanceDelayMs: 5000,
+      maxOddsAgeMs: 60000,
+      scoreChangeSuspensionMs: 15000,
+    },
+  },
+}));
+
+vi.mock('../../lib/prisma', () => ({
+  prisma: {
+    sportsEvent: { findUnique: mocks.eventFindUnique, update: mocks.eventUpdate },
+    slipPick: { findMany: vi.fn().mockResolvedValue([]) },
+    match: { findMany: vi.fn().mockResolvedValue([]), updateMany: vi.fn() },
+  },
+}));
+
+vi.mock('./live-scores.broadcaster', () => ({
+  broadcastScoreUpdate: vi.fn(),
+  broadcastStatusChange: vi.fn(),
+}));
+
+vi.mock('../../queues/game-settlement.queue', () => ({
+  queueSettlementCheck: vi.fn(),
+}));
+
+vi.mock('../events/odds-history.service', () => ({
+  recordOddsSnapshots: vi.fn(),
+}));
+
+vi.mock('../../services/odds', () => ({
+  getOddsService: vi.fn(),
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { processScoreUpdate } from './live-scores.processor';
+import { assertLiveMarketOpen } from '../../modules/slips/pick-pricing.service';
+import type { NormalizedScoreUpdate } from './types';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const NOW = new Date('2026-03-01T20:00:00.000Z');
+
+let updateCount = 0;
+
+function createUpdate(overrides: Partial<NormalizedScoreUpdate> = {}): NormalizedScoreUpdate {
+  updateCount++;
+  return {
+    externalEventId: 'ext-1',
+    sport: SportType.NBA,
+    homeScore: 52,
+    awayScore: 48,
+    status: EventStatus.LIVE,
+    timestamp: NOW,
+    idempotencyKey: `update-${updateCount}`,
+    provider: 'test',
+    ...overrides,
+  };
+}
+
+/**
+ * The event as stored after the processor's update.
+ */
+function storedEvent() {
+  const { data } = mocks.eventUpdate.mock.calls[0][0];
+  return {
+    id: 'event-1',
+    sport: SportType.NBA,
+    externalId: 'ext-1',
+    status: EventStatus.LIVE,
+    oddsData: data.oddsData ?? null,
+    liveMarketsSuspendedAt: data.liveMarketsSuspendedAt ?? null,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+  mocks.eventFindUnique.mockResolvedValue({
+    id: 'event-1',
+    sport: SportType.NBA,
+    homeScore: 50,
+    awayScore: 48,
+    status: EventStatus.LIVE,
+    externalId: 'ext-1',
+    oddsData: null,
+  });
+  mocks.eventUpdate.mockResolvedValue({});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ===========================================
+// Live Market Suspension
+// ===========================================
+
+describe('processScoreUpdate - live market suspension', () => {
+  it('suspends markets on a score change without odds', async () => {
+    await processScoreUpdate(createUpdate());
+
+    const event = storedEvent();
+    expect(event.liveMarketsSuspendedAt).toEqual(NOW);
+
+    // Even after the minimum wait, markets stay closed until fresh odds arrive
+    const later = new Date(NOW.getTime() + 20000);
+    expect(() => assertLiveMarketOpen(event, later)).toThrow('suspended');
+  });
+
+  it('stamps the suspension before odds sent with the score change', async () => {
+    await processScoreUpdate(
+      createUpdate({ odds: { moneyline: { home: 1.5, away: 2.6 } } })
+    );
+
+    const event = storedEvent();
+    const oddsAt = new Date(event.oddsData.liveUpdatedAt).getTime();
+    expect(event.liveMarketsSuspendedAt.getTime()).toBeLessThan(oddsAt);
+
+    // Closed for the minimum suspension, then reopened by the odds it came with
+    expect(() => assertLiveMarketOpen(event, new Date(NOW.getTime() + 5000))).toThrow(
+      'suspended'
+    );
+    expect(() => assertLiveMarketOpen(event, new Date(NOW.getTime() + 20000))).not.toThrow();
+  });
+
+  it('leaves markets open for an odds-only update', async () => {
+    await processScoreUpdate(
+      createUpdate({ homeScore: 50, odds: { moneyline: { home: 1.5, away: 2.6 } } })
+    );
+
+    expect(storedEvent().liveMarketsSuspendedAt).toBeNull();
+  });
+});
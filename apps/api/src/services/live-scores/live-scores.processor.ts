@@ -3,11 +3,14 @@
 // =====================================================
 // Core business logic for processing live score updates.
 // Validates scores, updates database, and triggers broadcasts.
+// In-game odds sent with an update become the event's live market, and
+// every score change suspends live markets until fresher odds arrive.
 
 import { prisma } from '../../lib/prisma';
 import { logger } from '../../utils/logger';
-import { EventStatus, MatchStatus } from '@prisma/client';
+import { EventStatus, MatchStatus, Prisma } from '@prisma/client';
 import {
+  LiveOdds,
   NormalizedScoreUpdate,
   ScoreValidationResult,
   ScoreProcessingResult,
@@ -16,6 +19,8 @@ import {
 } from './types';
 import { broadcastScoreUpdate, broadcastStatusChange } from './live-scores.broadcaster';
 import { queueSettlementCheck } from '../../queues/game-settlement.queue';
+import { OddsData } from '../events/types';
+import { recordOddsSnapshots } from '../events/odds-history.service';
 
 // ===========================================
 // Idempotency Cache (In-Memory)
@@ -161,6 +166,33 @@ export function validateScoreChange(
 // Core Processing Logic
 // ===========================================
 
+/**
+ * Merges in-game odds into an event's stored oddsData.
+ * Markets the update doesn't carry (and props) are kept; liveUpdatedAt
+ * marks the game lines as live prices.
+ */
+export function mergeLiveOdds(
+  existing: Prisma.JsonValue | null,
+  odds: LiveOdds,
+  provider: string,
+  now: Date
+): OddsData {
+  const current = (existing as unknown as OddsData | null) ?? null;
+  const timestamp = now.toISOString();
+
+  return {
+    provider: current?.provider ?? provider,
+    lastUpdated: timestamp,
+    liveUpdatedAt: timestamp,
+    markets: {
+      ...current?.markets,
+      ...(odds.moneyline && { moneyline: odds.moneyline }),
+      ...(odds.spread && { spread: odds.spread }),
+      ...(odds.totals && { totals: odds.totals }),
+    },
+  };
+}
+
 /**
  * Process a single score update.
  * This is the main entry point for score processing.
@@ -195,6 +227,7 @@ export async function processScoreUpdate(
         awayScore: true,
         status: true,
         externalId: true,
+        oddsData: true,
       },
     });
 
@@ -243,8 +276,9 @@ export async function processScoreUpdate(
     const scoreChanged =
       event.homeScore !== update.homeScore || event.awayScore !== update.awayScore;
     const statusChanged = event.status !== update.status;
+    const oddsChanged = update.odds !== undefined && update.status === EventStatus.LIVE;
 
-    if (!scoreChanged && !statusChanged) {
+    if (!scoreChanged && !statusChanged && !oddsChanged) {
       // No change, mark as processed and skip
       markAsProcessed(idempotencyKey);
       return {
@@ -277,11 +311,33 @@ export async function processScoreUpdate(
       updateData.endedAt = now;
     }
 
+    let liveOddsData: OddsData | undefined;
+    if (oddsChanged && update.odds) {
+      liveOddsData = mergeLiveOdds(event.oddsData, update.odds, update.provider, now);
+      updateData.oddsData = liveOddsData as unknown as Prisma.InputJsonValue;
+      updateData.oddsUpdatedAt = now;
+    }
+
+    // Suspend live markets - prices from before the score change are stale.
+    // Odds sent with the score change already reflect it, so the suspension is
+    // stamped just before them and they reopen markets after the minimum wait.
+    if (scoreChanged && update.status === EventStatus.LIVE) {
+      updateData.liveMarketsSuspendedAt = liveOddsData ? new Date(now.getTime() - 1) : now;
+    }
+
     await prisma.sportsEvent.update({
       where: { id: event.id },
       data: updateData,
     });
 
+    if (liveOddsData) {
+      await recordOddsSnapshots(event.id, liveOddsData, {
+        source: 'live-scores',
+        markets: ['moneyline', 'spread', 'total'],
+        capturedAt: now,
+      });
+    }
+
     // 6. Find affected matches (through picks -> slips -> matches)
     const affectedMatchIds = await findAffectedMatches(event.id);
 
@@ -330,6 +386,7 @@ export async function processScoreUpdate(
     logger.info(`[LiveScores] Processed update for ${externalEventId}`, {
       scoreChanged,
       statusChanged,
+      oddsChanged,
       affectedMatches: affectedMatchIds.length,
     });
 
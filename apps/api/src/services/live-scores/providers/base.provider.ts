@@ -47,6 +47,7 @@ export abstract class BaseLiveScoreProvider implements LiveScoreProvider {
       status: normalizeStatus(raw.status),
       gameTime: raw.gameTime ? parseGameTime(raw.gameTime) : undefined,
       timestamp: new Date(raw.timestamp),
+      odds: raw.odds,
       idempotencyKey: this.generateIdempotencyKey(raw),
       provider: this.providerId,
     };
@@ -54,7 +55,8 @@ export abstract class BaseLiveScoreProvider implements LiveScoreProvider {
 
   /**
    * Generate an idempotency key for a score update.
-   * Uses event ID + score + status + timestamp (truncated to minute).
+   * Uses event ID + score + status + timestamp (truncated to minute),
+   * plus the odds when present so in-game line moves aren't dropped.
    */
   protected generateIdempotencyKey(raw: RawScoreUpdate): string {
     // Truncate timestamp to minute to handle slight timing variations
@@ -67,6 +69,7 @@ export abstract class BaseLiveScoreProvider implements LiveScoreProvider {
       raw.awayScore,
       raw.status,
       timestampMinute.toISOString(),
+      ...(raw.odds ? [JSON.stringify(raw.odds)] : []),
     ].join(':');
 
     return crypto.createHash('sha256').update(data).digest('hex').substring(0, 32);
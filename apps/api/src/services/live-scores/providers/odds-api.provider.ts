@@ -205,6 +205,7 @@ export class OddsApiLiveScoreProvider extends BaseLiveScoreProvider {
       status: normalizeStatus(raw.status),
       gameTime: raw.gameTime ? parseGameTime(raw.gameTime) : undefined,
       timestamp: new Date(raw.timestamp),
+      odds: raw.odds,
       idempotencyKey: this.generateIdempotencyKey(raw),
       provider: this.providerId,
     };
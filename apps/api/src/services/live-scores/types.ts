@@ -4,6 +4,7 @@
 // Type definitions for live score ingestion and processing
 
 import { SportType, EventStatus } from '@prisma/client';
+import type { OddsData } from '../events/types';
 
 // Re-export for convenience
 export { EventStatus, SportType };
@@ -12,6 +13,12 @@ export { EventStatus, SportType };
 // RAW DATA FROM PROVIDERS
 // =====================================================
 
+/**
+ * In-game odds delivered alongside a score update.
+ * Same market format as SportsEvent.oddsData; used to price live picks.
+ */
+export type LiveOdds = Pick<OddsData['markets'], 'moneyline' | 'spread' | 'totals'>;
+
 /**
  * Raw score update from any provider (webhook or polling)
  * This is the unprocessed data as received from external sources
@@ -29,6 +36,8 @@ export interface RawScoreUpdate {
   gameTime?: string;
   /** ISO timestamp from provider */
   timestamp: string;
+  /** Current in-game odds, if the provider sends them */
+  odds?: LiveOdds;
   /** Additional provider-specific metadata */
   providerMetadata?: Record<string, unknown>;
 }
@@ -78,6 +87,8 @@ export interface NormalizedScoreUpdate {
   gameTime?: GameTime;
   /** When the update was recorded by the provider */
   timestamp: Date;
+  /** Current in-game odds, if the provider sends them */
+  odds?: LiveOdds;
   /** Unique key for idempotency (prevents double-processing) */
   idempotencyKey: string;
   /** Source provider identifier */
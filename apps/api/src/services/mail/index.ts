@@ -0,0 +1,44 @@
+// =====================================================
+// Mail Service Exports
+// =====================================================
+
+import { config } from '../../config';
+import { ConsoleMailer, FileMailer } from './transports';
+import type { Mailer } from './mail.types';
+
+export type { Mailer, MailMessage, MailTransportType } from './mail.types';
+export { ConsoleMailer, FileMailer } from './transports';
+export { buildVerificationEmail, buildPasswordResetEmail } from './templates';
+
+// ===========================================
+// Singleton Instance
+// ===========================================
+
+let mailerInstance: Mailer | null = null;
+
+function createMailer(): Mailer {
+  switch (config.mail.transport) {
+    case 'file':
+      return new FileMailer(config.mail.from, config.mail.outboxDir);
+    case 'console':
+    default:
+      return new ConsoleMailer(config.mail.from);
+  }
+}
+
+/**
+ * Get the configured Mailer instance.
+ */
+export function getMailer(): Mailer {
+  if (!mailerInstance) {
+    mailerInstance = createMailer();
+  }
+  return mailerInstance;
+}
+
+/**
+ * Replace the active Mailer (provider-backed transport or tests).
+ */
+export function setMailer(mailer: Mailer): void {
+  mailerInstance = mailer;
+}
@@ -0,0 +1,24 @@
+// =====================================================
+// Mail Types
+// =====================================================
+
+/**
+ * A rendered outbound email.
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Pluggable mail transport.
+ * Implementations deliver a single message and throw on failure.
+ */
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export type MailTransportType = 'console' | 'file';
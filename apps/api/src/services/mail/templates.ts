@@ -0,0 +1,51 @@
+// =====================================================
+// Mail Templates
+// =====================================================
+
+import { config } from '../../config';
+import type { MailMessage } from './mail.types';
+
+function buildAppLink(route: string, token: string): string {
+  return `${config.mail.appUrl}${route}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Email asking a newly registered user to confirm their address.
+ */
+export function buildVerificationEmail(
+  to: string,
+  username: string,
+  token: string
+): MailMessage {
+  const link = buildAppLink('verify-email', token);
+
+  return {
+    to,
+    subject: 'Verify your POINTLOCK email',
+    text:
+      `Hi ${username},\n\n` +
+      `Confirm your email address by opening this link:\n${link}\n\n` +
+      `The link expires in ${config.emailTokens.verificationExpiresIn}.`,
+  };
+}
+
+/**
+ * Email containing a single-use password reset link.
+ */
+export function buildPasswordResetEmail(
+  to: string,
+  username: string,
+  token: string
+): MailMessage {
+  const link = buildAppLink('reset-password', token);
+
+  return {
+    to,
+    subject: 'Reset your POINTLOCK password',
+    text:
+      `Hi ${username},\n\n` +
+      `Someone requested a password reset for your account. To choose a new password, open:\n${link}\n\n` +
+      `The link expires in ${config.emailTokens.passwordResetExpiresIn}. ` +
+      `If you did not request this, you can ignore this email.`,
+  };
+}
@@ -0,0 +1,58 @@
+// =====================================================
+// Mail Transports
+// =====================================================
+// Local development transports. Production deployments plug in
+// a provider-backed Mailer via setMailer().
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../../utils/logger';
+import type { Mailer, MailMessage } from './mail.types';
+
+// ===========================================
+// Console Transport
+// ===========================================
+
+/**
+ * Logs each message instead of delivering it.
+ */
+export class ConsoleMailer implements Mailer {
+  readonly name = 'console';
+
+  constructor(private readonly from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`[Mail] ${this.from} -> ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// ===========================================
+// File Transport
+// ===========================================
+
+/**
+ * Writes each message as a JSON file to an outbox directory.
+ */
+export class FileMailer implements Mailer {
+  readonly name = 'file';
+
+  constructor(
+    private readonly from: string,
+    private readonly outboxDir: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.outboxDir, { recursive: true });
+
+    const sentAt = new Date();
+    const recipient = message.to.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const filePath = path.join(this.outboxDir, `${sentAt.getTime()}-${recipient}.json`);
+
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({ from: this.from, sentAt: sentAt.toISOString(), ...message }, null, 2)
+    );
+
+    logger.info(`[Mail] Wrote "${message.subject}" for ${message.to} to ${filePath}`);
+  }
+}
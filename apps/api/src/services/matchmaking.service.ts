@@ -205,6 +205,10 @@ export function calculateDynamicMmrRange(enqueuedAt: Date, seed: number): number
  * - Rematch prevention check (REQUIRED)
  * - FIFO preference (bonus points for older entries)
  *
+ * Rematch prevention only applies to queue matchmaking. Players who want
+ * to play again ask for it directly (POST /matches/:id/rematch), which
+ * never goes through this scoring.
+ *
  * @param entry1 - First queue entry
  * @param entry2 - Second queue entry
  * @param recentMatchesMap - Map of userId -> recent opponent IDs (for rematch prevention)
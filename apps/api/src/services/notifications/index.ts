@@ -5,4 +5,5 @@
 export {
   sendSettlementNotification,
   sendMatchSettlementNotifications,
+  sendRematchRequestNotification,
 } from './push-notification.service';
@@ -9,7 +9,7 @@
 // - Idempotency via in-memory deduplication cache
 //
 // ARCHITECTURE:
-// - Fire-and-forget pattern (failures don't block settlement)
+// - Fire-and-forget pattern (failures don't block settlement or rematches)
 // - Graceful degradation if service unavailable
 
 import { prisma } from '../../lib/prisma';
@@ -336,3 +336,65 @@ export async function sendMatchSettlementNotifications(
     }
   });
 }
+
+/**
+ * Send a rematch request notification to the original opponent.
+ * Tapping it opens the settled match, where the rematch can be accepted.
+ *
+ * CRITICAL: Only call this AFTER the rematch transaction has committed.
+ *
+ * @param userId - The user to notify
+ * @param matchId - The pending rematch ID
+ * @param originalMatchId - The settled match being replayed
+ * @param requesterUsername - Display name of the requester
+ */
+export async function sendRematchRequestNotification(
+  userId: string,
+  matchId: string,
+  originalMatchId: string,
+  requesterUsername: string
+): Promise<void> {
+  // Idempotency check
+  if (wasNotificationSent(matchId, userId)) {
+    logger.debug(`[PushNotification] Skipping duplicate for ${matchId}:${userId}`);
+    return;
+  }
+
+  const pushToken = await getUserPushToken(userId);
+  if (!pushToken) {
+    logger.debug(`[PushNotification] No push token for user ${userId}`);
+    return;
+  }
+
+  if (!pushToken.startsWith(EXPO_TOKEN_PREFIX)) {
+    logger.warn(`[PushNotification] Invalid token format for user ${userId}`);
+    return;
+  }
+
+  const message: ExpoPushMessage = {
+    to: pushToken,
+    title: 'Rematch?',
+    body: `${requesterUsername} wants to run it back. Ask back to start the match!`,
+    data: {
+      type: 'REMATCH_REQUESTED',
+      matchId,
+      originalMatchId,
+      requesterUsername,
+      screen: 'match',
+      params: { id: originalMatchId },
+    },
+    sound: 'default',
+    priority: 'high',
+  };
+
+  const success = await sendExpoPushNotification(message);
+
+  if (success) {
+    markNotificationSent(matchId, userId);
+    logger.info('[PushNotification] Sent rematch notification', {
+      userId,
+      matchId,
+      originalMatchId,
+    });
+  }
+}
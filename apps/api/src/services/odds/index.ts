@@ -14,6 +14,9 @@ export type {
   EventOddsResponse,
   FetchOddsOptions,
   SportsDataProvider,
+  PlayerPropMarket,
+  NormalizedPlayerProp,
+  EventPlayerPropsResponse,
 } from './types';
 
 // Errors
@@ -30,6 +30,7 @@ import {
   NormalizedPlayerProp,
   EventPlayerPropsResponse,
   PLAYER_PROP_MARKETS,
+  DRAW_OUTCOME_NAME,
 } from './types';
 
 // ===========================================
@@ -103,6 +104,19 @@ function calculateBackoffDelay(attempt: number, config: RetryConfig): number {
   return Math.min(exponentialDelay + jitter, config.maxDelayMs);
 }
 
+/**
+ * Outcome names bookmakers use for the draw in three-way markets.
+ */
+const DRAW_OUTCOME_ALIASES = ['draw', 'tie', 'x'];
+
+/**
+ * Normalize an outcome name.
+ * Draw outcomes are canonicalized so downstream code can match a single name.
+ */
+function normalizeOutcomeName(name: string): string {
+  return DRAW_OUTCOME_ALIASES.includes(name.trim().toLowerCase()) ? DRAW_OUTCOME_NAME : name;
+}
+
 /**
  * Transform raw API response to our domain types
  */
@@ -122,7 +136,7 @@ function transformEvent(raw: OddsApiEvent): SportingEvent {
         key: m.key as MarketType,
         lastUpdate: m.last_update,
         outcomes: m.outcomes.map((o) => ({
-          name: o.name,
+          name: m.key === 'h2h' ? normalizeOutcomeName(o.name) : o.name,
           price: o.price,
           point: o.point,
         })),
@@ -0,0 +1,110 @@
+// =====================================================
+// Odds Service Tests
+// =====================================================
+// Covers player prop caching: each prop market set is cached under its
+// own key so one market is never served for another.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Redis } from 'ioredis';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+vi.mock('../../config', () => ({
+  config: { oddsApi: { cacheTtlSeconds: 60 } },
+}));
+
+vi.mock('../../queues/connection', () => ({
+  getRedisConnection: vi.fn(),
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { OddsService } from './odds.service';
+import type { PlayerPropMarket, SportsDataProvider } from './types';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+function createRedis() {
+  const store = new Map<string, string>();
+  return {
+    store,
+    get: vi.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    setex: vi.fn((key: string, _ttl: number, value: string) => {
+      store.set(key, value);
+      return Promise.resolve('OK');
+    }),
+  };
+}
+
+function createProvider() {
+  return {
+    providerName: 'test',
+    getEventPlayerProps: vi.fn((_sport: string, eventId: string, markets: PlayerPropMarket[]) =>
+      Promise.resolve({
+        eventId,
+        playerProps: markets.map((market) => ({ market })),
+        remainingRequests: null,
+        usedRequests: null,
+      })
+    ),
+  };
+}
+
+let redis: ReturnType<typeof createRedis>;
+let provider: ReturnType<typeof createProvider>;
+let service: OddsService;
+
+beforeEach(() => {
+  redis = createRedis();
+  provider = createProvider();
+  service = new OddsService(
+    provider as unknown as SportsDataProvider,
+    redis as unknown as Redis
+  );
+});
+
+// ===========================================
+// getEventPlayerProps
+// ===========================================
+
+describe('getEventPlayerProps', () => {
+  it('caches each prop market separately for the same event', async () => {
+    const points = await service.getEventPlayerProps('basketball_nba', 'event-1', [
+      'player_points',
+    ]);
+    await Promise.resolve(); // let the fire-and-forget cache write land
+    const rebounds = await service.getEventPlayerProps('basketball_nba', 'event-1', [
+      'player_rebounds',
+    ]);
+
+    expect(points.playerProps).toEqual([{ market: 'player_points' }]);
+    expect(rebounds.playerProps).toEqual([{ market: 'player_rebounds' }]);
+    expect(rebounds.fromCache).toBe(false);
+    expect(provider.getEventPlayerProps).toHaveBeenCalledTimes(2);
+    expect(redis.store.size).toBe(2);
+  });
+
+  it('serves a repeat request for the same markets from cache in any order', async () => {
+    await service.getEventPlayerProps('basketball_nba', 'event-1', [
+      'player_rebounds',
+      'player_points',
+    ]);
+    await Promise.resolve();
+    const repeat = await service.getEventPlayerProps('basketball_nba', 'event-1', [
+      'player_points',
+      'player_rebounds',
+    ]);
+
+    expect(repeat.fromCache).toBe(true);
+    expect(provider.getEventPlayerProps).toHaveBeenCalledTimes(1);
+    expect([...redis.store.keys()]).toEqual([
+      'odds:props:basketball_nba:event-1:player_points-player_rebounds',
+    ]);
+  });
+});
@@ -9,9 +9,12 @@ import { config } from '../../config';
 import { logger } from '../../utils/logger';
 import { getRedisConnection } from '../../queues/connection';
 import { OddsApiClient } from './odds-api.client';
+import { SportsDataUnavailableError } from './errors';
 import {
   Sport,
   MarketType,
+  PlayerPropMarket,
+  EventPlayerPropsResponse,
   SportsDataProvider,
   EventsResponse,
   EventOddsResponse,
@@ -32,6 +35,14 @@ function buildEventOddsKey(sport: Sport, eventId: string): string {
   return `${CACHE_PREFIX}:${sport}:${eventId}`;
 }
 
+function buildEventPropsKey(
+  sport: Sport,
+  eventId: string,
+  propMarkets: PlayerPropMarket[]
+): string {
+  return `${CACHE_PREFIX}:props:${sport}:${eventId}:${[...propMarkets].sort().join('-')}`;
+}
+
 function buildOddsKey(options: FetchOddsOptions): string {
   const parts = [
     CACHE_PREFIX,
@@ -160,6 +171,30 @@ export class OddsService {
     return { ...data, fromCache };
   }
 
+  /**
+   * Get player props for a specific event
+   * @throws SportsDataUnavailableError if the provider doesn't offer props
+   */
+  async getEventPlayerProps(
+    sport: Sport,
+    eventId: string,
+    propMarkets: PlayerPropMarket[]
+  ): Promise<EventPlayerPropsResponse & { fromCache: boolean }> {
+    const provider = this.provider;
+    if (!provider.getEventPlayerProps) {
+      throw new SportsDataUnavailableError(provider.providerName);
+    }
+
+    const cacheKey = buildEventPropsKey(sport, eventId, propMarkets);
+
+    const { data, fromCache } = await this.getOrFetch(
+      cacheKey,
+      () => provider.getEventPlayerProps!(sport, eventId, propMarkets)
+    );
+
+    return { ...data, fromCache };
+  }
+
   /**
    * Force refresh cache for a specific event
    */
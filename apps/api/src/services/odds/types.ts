@@ -84,6 +84,12 @@ export const NFL_PROP_MARKETS: PlayerPropMarket[] = [
   'player_anytime_td',
 ];
 
+/**
+ * Canonical outcome name for the draw in three-way (soccer) h2h markets.
+ * Bookmakers variously send "Draw", "Tie" or "X"; the client normalizes to this.
+ */
+export const DRAW_OUTCOME_NAME = 'Draw';
+
 /**
  * Individual outcome within a market
  */
@@ -218,6 +224,16 @@ export interface SportsDataProvider {
    */
   getOdds(options: FetchOddsOptions): Promise<EventsResponse>;
 
+  /**
+   * Fetch player props for a specific event.
+   * Optional - not every provider offers props.
+   */
+  getEventPlayerProps?(
+    sport: Sport,
+    eventId: string,
+    propMarkets: PlayerPropMarket[]
+  ): Promise<EventPlayerPropsResponse>;
+
   /**
    * Check if the provider is healthy/reachable
    */
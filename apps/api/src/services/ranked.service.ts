@@ -11,12 +11,12 @@ import { logger } from '../utils/logger';
 import { creditWallet, numberToBigInt } from '../lib/wallet.service';
 import { BadRequestError, NotFoundError } from '../utils/errors';
 import {
-  RANK_POINTS,
   PLACEMENT_MATCHES_REQUIRED,
   MatchResultForRP,
   RankUpdateResult,
   SeasonRewardDistributionResult,
 } from '@pick-rivals/shared-types';
+import { calculateRankPointChange } from './skill-rating.service';
 
 // ===========================================
 // Constants
@@ -48,7 +48,7 @@ const RANK_THRESHOLDS: Record<Rank, number> = {
  * Canonical rank order array - used for rank comparisons.
  * Extract as constant to avoid duplication (Fix M2).
  */
-const RANK_ORDER = [
+export const RANK_ORDER = [
   Rank.BRONZE_1, Rank.BRONZE_2, Rank.BRONZE_3,
   Rank.SILVER_1, Rank.SILVER_2, Rank.SILVER_3,
   Rank.GOLD_1, Rank.GOLD_2, Rank.GOLD_3,
@@ -220,6 +220,27 @@ export function calculateNewRank(rpValue: number): Rank {
   return Rank.BRONZE_1;
 }
 
+/**
+ * Find the reward bracket covering a rank (minRank and maxRank inclusive).
+ * Pure function with no side effects.
+ *
+ * @param rank - The player's rank
+ * @param rewards - The season's reward brackets
+ * @returns The first bracket covering the rank, or undefined
+ */
+export function findSeasonRewardForRank<T extends { minRank: Rank; maxRank: Rank }>(
+  rank: Rank,
+  rewards: T[]
+): T | undefined {
+  const rankIndex = RANK_ORDER.indexOf(rank);
+
+  return rewards.find((r) => {
+    const minRankIndex = RANK_ORDER.indexOf(r.minRank);
+    const maxRankIndex = RANK_ORDER.indexOf(r.maxRank);
+    return rankIndex >= minRankIndex && rankIndex <= maxRankIndex;
+  });
+}
+
 // ===========================================
 // Rank Point Updates
 // ===========================================
@@ -237,7 +258,8 @@ export function calculateNewRank(rpValue: number): Rank {
  * - Sets rankPoints to RANK_THRESHOLDS[initialRank]
  *
  * POST-PLACEMENT:
- * - Applies +25 win / -20 loss
+ * - Applies rating-weighted RP (+25 win / -20 loss against an equally
+ *   rated opponent, see calculateRankPointChange), clamped to tier caps
  * - Floors RP at 0 (no negative RP)
  * - Recalculates rank via calculateNewRank()
  * - Tracks highest rank achieved
@@ -290,7 +312,8 @@ export async function updateRankPoints(
   userId: string,
   matchResult: MatchResultForRP
 ): Promise<RankUpdateResult> {
-  const { matchId, seasonId, winnerId, loserId, isDraw, settledAt } = matchResult;
+  const { matchId, seasonId, winnerId, loserId, isDraw, settledAt, skillRatings, margin } =
+    matchResult;
 
   // FIX M1: Input validation
   if (!matchId || !seasonId) {
@@ -470,16 +493,23 @@ export async function updateRankPoints(
       // ========================================
       else {
         if (outcome === 'WIN') {
-          rpChange = RANK_POINTS.WIN;
           newWins += 1;
         } else if (outcome === 'LOSS') {
-          rpChange = RANK_POINTS.LOSS;
           newLosses += 1;
         } else {
-          rpChange = 0; // Draws grant no RP
           newDraws += 1;
         }
 
+        // Weight by the opponent's pre-match rating (even match if unknown)
+        const opponentId = Object.keys(skillRatings ?? {}).find((id) => id !== userId);
+        rpChange = calculateRankPointChange({
+          outcome,
+          rank: rankBefore ?? calculateNewRank(rpBefore),
+          rating: skillRatings?.[userId],
+          opponentRating: opponentId ? skillRatings[opponentId] : undefined,
+          margin,
+        }).rpChange;
+
         // Apply RP change with floor at 0
         rpAfter = Math.max(0, rpBefore + rpChange);
 
@@ -785,7 +815,6 @@ export async function distributeSeasonRewards(
 
   logger.info(`[Ranked] Starting reward distribution for ${totalEntries} entries`);
 
-  // FIX M2: Use extracted RANK_ORDER constant
   for (let i = 0; i < entries.length; i += BATCH_SIZE) {
     const batch = entries.slice(i, i + BATCH_SIZE);
 
@@ -796,13 +825,7 @@ export async function distributeSeasonRewards(
       }
 
       // Find matching reward based on final rank
-      const currentRankIndex = RANK_ORDER.indexOf(entry.currentRank);
-
-      const matchingReward = rewards.find((r) => {
-        const minRankIndex = RANK_ORDER.indexOf(r.minRank);
-        const maxRankIndex = RANK_ORDER.indexOf(r.maxRank);
-        return currentRankIndex >= minRankIndex && currentRankIndex <= maxRankIndex;
-      });
+      const matchingReward = findSeasonRewardForRank(entry.currentRank, rewards);
 
       if (!matchingReward) {
         errors.push(
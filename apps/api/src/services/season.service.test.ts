@@ -0,0 +1,299 @@
+// =====================================================
+// Season Lifecycle Service Tests
+// =====================================================
+// Covers the soft reset curve, reward bracket validation, season
+// overlap checks and activation (carry-over written before the season
+// turns ACTIVE, one active season at a time).
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  seasonFindUnique: vi.fn(),
+  seasonFindFirst: vi.fn(),
+  seasonUpdateMany: vi.fn(),
+  entryFindMany: vi.fn(),
+  entryCreateMany: vi.fn(),
+  calls: [] as string[],
+}));
+
+vi.mock('../lib/prisma', () => {
+  const tx = {
+    season: {
+      findUnique: mocks.seasonFindUnique,
+      findFirst: mocks.seasonFindFirst,
+      updateMany: mocks.seasonUpdateMany,
+    },
+    seasonEntry: {
+      findMany: mocks.entryFindMany,
+      createMany: mocks.entryCreateMany,
+    },
+  };
+
+  return {
+    prisma: {
+      ...tx,
+      $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../lib/wallet.service', () => ({
+  creditWallet: vi.fn(),
+  numberToBigInt: (value: number) => BigInt(value),
+}));
+
+import {
+  activateSeason,
+  assertNoSeasonOverlap,
+  calculateSoftResetRankPoints,
+  validateRewardBrackets,
+} from './season.service';
+import { prisma } from '../lib/prisma';
+import { BadRequestError, ConflictError } from '../utils/errors';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const NOW = new Date('2026-04-01T00:10:00.000Z');
+
+function createSeason(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'season-2',
+    name: 'Season 2',
+    status: 'SCHEDULED',
+    startDate: new Date('2026-04-01T00:00:00.000Z'),
+    endDate: new Date('2026-07-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+/**
+ * findFirst is used for the still-active check, then the previous season.
+ */
+function mockSeasonLookups(active: unknown, previous: unknown) {
+  mocks.seasonFindFirst.mockImplementation(({ where }) => {
+    if (where.status === 'ACTIVE') return Promise.resolve(active);
+    if (where.startDate) return Promise.resolve(null); // overlap check
+    return Promise.resolve(previous);
+  });
+}
+
+async function expectError(promise: Promise<unknown>, errorClass: unknown, code?: string) {
+  const error = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(errorClass);
+  if (code) expect(error.code).toBe(code);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.calls = [];
+  mocks.seasonFindUnique.mockResolvedValue(createSeason());
+  mockSeasonLookups(null, { id: 'season-1' });
+  mocks.seasonUpdateMany.mockImplementation(() => {
+    mocks.calls.push('season.updateMany');
+    return Promise.resolve({ count: 1 });
+  });
+  mocks.entryFindMany.mockResolvedValue([]);
+  mocks.entryCreateMany.mockImplementation(({ data }) => {
+    mocks.calls.push('seasonEntry.createMany');
+    return Promise.resolve({ count: data.length });
+  });
+});
+
+// ===========================================
+// calculateSoftResetRankPoints
+// ===========================================
+
+describe('calculateSoftResetRankPoints', () => {
+  it('halves rank points above the GOLD_1 baseline', () => {
+    expect(calculateSoftResetRankPoints(1600)).toBe(1100);
+    expect(calculateSoftResetRankPoints(901)).toBe(750);
+  });
+
+  it('carries rank points at or below the baseline over unchanged', () => {
+    expect(calculateSoftResetRankPoints(600)).toBe(600);
+    expect(calculateSoftResetRankPoints(250)).toBe(250);
+    expect(calculateSoftResetRankPoints(0)).toBe(0);
+  });
+});
+
+// ===========================================
+// validateRewardBrackets
+// ===========================================
+
+describe('validateRewardBrackets', () => {
+  it('returns brackets sorted from lowest rank', () => {
+    const sorted = validateRewardBrackets([
+      { minRank: 'GOLD_1', maxRank: 'DIAMOND_3', coinReward: 2000 },
+      { minRank: 'BRONZE_1', maxRank: 'SILVER_3', coinReward: 500 },
+    ]);
+
+    expect(sorted.map((b) => b.minRank)).toEqual(['BRONZE_1', 'GOLD_1']);
+  });
+
+  it('rejects a bracket whose minRank is above its maxRank', () => {
+    expect(() =>
+      validateRewardBrackets([{ minRank: 'GOLD_2', maxRank: 'GOLD_1', coinReward: 100 }])
+    ).toThrow('minRank is above maxRank');
+  });
+
+  it('rejects overlapping brackets', () => {
+    expect(() =>
+      validateRewardBrackets([
+        { minRank: 'BRONZE_1', maxRank: 'GOLD_1', coinReward: 500 },
+        { minRank: 'GOLD_1', maxRank: 'DIAMOND_3', coinReward: 2000 },
+      ])
+    ).toThrow('overlap');
+  });
+});
+
+// ===========================================
+// assertNoSeasonOverlap
+// ===========================================
+
+describe('assertNoSeasonOverlap', () => {
+  const window = {
+    startDate: new Date('2026-07-01T00:00:00.000Z'),
+    endDate: new Date('2026-10-01T00:00:00.000Z'),
+  };
+
+  it('queries for any season intersecting the half-open window', async () => {
+    mocks.seasonFindFirst.mockResolvedValue(null);
+
+    await assertNoSeasonOverlap(prisma, window, 'season-3');
+
+    expect(mocks.seasonFindFirst).toHaveBeenCalledWith({
+      where: {
+        id: { not: 'season-3' },
+        startDate: { lt: window.endDate },
+        endDate: { gt: window.startDate },
+      },
+      select: { id: true, name: true },
+    });
+  });
+
+  it('rejects an overlapping window', async () => {
+    mocks.seasonFindFirst.mockResolvedValue({ id: 'season-2', name: 'Season 2' });
+
+    await expectError(assertNoSeasonOverlap(prisma, window), ConflictError, ERROR_CODES.SEASON_OVERLAP);
+  });
+
+  it('rejects an end date that is not after the start date', async () => {
+    await expectError(
+      assertNoSeasonOverlap(prisma, { startDate: window.endDate, endDate: window.startDate }),
+      BadRequestError
+    );
+    expect(mocks.seasonFindFirst).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// activateSeason
+// ===========================================
+
+describe('activateSeason', () => {
+  it('carries soft-reset players over before activating', async () => {
+    mocks.entryFindMany
+      .mockResolvedValueOnce([
+        { id: 'entry-a', userId: 'user-a', rankPoints: 1500, finalRankPoints: 1600 },
+        { id: 'entry-b', userId: 'user-b', rankPoints: 350, finalRankPoints: null },
+      ])
+      .mockResolvedValueOnce([]);
+
+    const result = await activateSeason('season-2', { now: NOW });
+
+    expect(result).toEqual({
+      seasonId: 'season-2',
+      activated: true,
+      startDate: createSeason().startDate,
+      previousSeasonId: 'season-1',
+      carriedOver: 2,
+    });
+    expect(mocks.entryFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { seasonId: 'season-1', currentRank: { not: null } } })
+    );
+    expect(mocks.entryCreateMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({
+          userId: 'user-a',
+          seasonId: 'season-2',
+          rankPoints: 1100,
+          currentRank: 'PLATINUM_3',
+          placementMatchesPlayed: 10,
+          isPlaced: true,
+        }),
+        expect.objectContaining({ userId: 'user-b', rankPoints: 350, currentRank: 'SILVER_1' }),
+      ],
+      skipDuplicates: true,
+    });
+    expect(mocks.calls).toEqual([
+      'seasonEntry.createMany',
+      'season.updateMany', // SCHEDULED -> ACTIVE
+      'season.updateMany', // clear the old current season
+    ]);
+    expect(mocks.seasonUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'season-2', status: 'SCHEDULED' },
+      data: { status: 'ACTIVE', isCurrent: true, startDate: createSeason().startDate },
+    });
+  });
+
+  it('does nothing for a season that is already active', async () => {
+    mocks.seasonFindUnique.mockResolvedValue(createSeason({ status: 'ACTIVE' }));
+
+    const result = await activateSeason('season-2', { now: NOW });
+
+    expect(result.activated).toBe(false);
+    expect(mocks.seasonUpdateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses while another season is still active', async () => {
+    mockSeasonLookups({ name: 'Season 1' }, null);
+
+    await expectError(
+      activateSeason('season-2', { now: NOW }),
+      BadRequestError,
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+    expect(mocks.entryCreateMany).not.toHaveBeenCalled();
+  });
+
+  it('refuses a season before its start date unless starting now', async () => {
+    const early = new Date('2026-03-25T00:00:00.000Z');
+
+    await expectError(activateSeason('season-2', { now: early }), BadRequestError);
+
+    const result = await activateSeason('season-2', { now: early, startNow: true });
+
+    expect(result.startDate).toEqual(early);
+    expect(mocks.seasonFindFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ startDate: { lt: createSeason().endDate } }),
+      })
+    );
+  });
+
+  it('starts fresh when there is no previous season', async () => {
+    mockSeasonLookups(null, null);
+
+    const result = await activateSeason('season-2', { now: NOW });
+
+    expect(result.carriedOver).toBe(0);
+    expect(mocks.entryFindMany).not.toHaveBeenCalled();
+  });
+
+  it('fails with a conflict when the season changed underneath', async () => {
+    mocks.seasonUpdateMany.mockResolvedValue({ count: 0 });
+
+    await expectError(activateSeason('season-2', { now: NOW }), ConflictError);
+  });
+});
@@ -0,0 +1,328 @@
+// =====================================================
+// Season Lifecycle Service
+// =====================================================
+// Scheduling rules and activation for ranked seasons:
+// 1. Season windows may not overlap
+// 2. Reward brackets are contiguous rank ranges that may not overlap
+// 3. Activating a season soft-resets returning players' rank points
+//
+// The season queue activates SCHEDULED seasons once their start date
+// passes; admins can also activate one early.
+//
+// CRITICAL: Carry-over entries are written BEFORE the season turns
+// ACTIVE, so a player's first ranked match can't create a fresh entry
+// that would skip their soft reset.
+
+import { Prisma, Rank, SeasonStatus } from '@prisma/client';
+import {
+  ERROR_CODES,
+  PLACEMENT_MATCHES_REQUIRED,
+  SEASON_SOFT_RESET,
+  SEASON_WORKER_CONFIG,
+} from '@pick-rivals/shared-types';
+import { prisma } from '../lib/prisma';
+import { logger } from '../utils/logger';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { calculateNewRank, RANK_ORDER } from './ranked.service';
+
+// ===========================================
+// Types
+// ===========================================
+
+type SeasonClient = Prisma.TransactionClient | typeof prisma;
+
+export interface SeasonWindow {
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface RewardBracketInput {
+  minRank: Rank;
+  maxRank: Rank;
+  coinReward: number;
+  description?: string | null;
+}
+
+export interface ActivateSeasonOptions {
+  /** Start now even if the scheduled start date is still ahead (admin) */
+  startNow?: boolean;
+  now?: Date;
+}
+
+export interface SeasonActivationResult {
+  seasonId: string;
+  /** False when the season was already active */
+  activated: boolean;
+  startDate: Date;
+  previousSeasonId: string | null;
+  /** Returning players whose rank points carried over */
+  carriedOver: number;
+}
+
+// ===========================================
+// Validation
+// ===========================================
+
+/**
+ * Reject a season window that overlaps another season.
+ * Windows are half-open: one season may end exactly when the next starts.
+ *
+ * @throws {BadRequestError} End date not after start date
+ * @throws {ConflictError} Window overlaps another season
+ */
+export async function assertNoSeasonOverlap(
+  client: SeasonClient,
+  window: SeasonWindow,
+  excludeSeasonId?: string
+): Promise<void> {
+  if (window.endDate <= window.startDate) {
+    throw new BadRequestError('endDate must be after startDate', ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  const overlapping = await client.season.findFirst({
+    where: {
+      ...(excludeSeasonId && { id: { not: excludeSeasonId } }),
+      startDate: { lt: window.endDate },
+      endDate: { gt: window.startDate },
+    },
+    select: { id: true, name: true },
+  });
+
+  if (overlapping) {
+    throw new ConflictError(
+      `Season dates overlap with ${overlapping.name}`,
+      ERROR_CODES.SEASON_OVERLAP
+    );
+  }
+}
+
+/**
+ * Validate a reward table: each bracket's minRank must not be above its
+ * maxRank, and no rank may fall in two brackets.
+ *
+ * @returns The brackets sorted from lowest to highest rank
+ * @throws {BadRequestError} Inverted or overlapping brackets
+ */
+export function validateRewardBrackets(brackets: RewardBracketInput[]): RewardBracketInput[] {
+  const sorted = [...brackets].sort(
+    (a, b) => RANK_ORDER.indexOf(a.minRank) - RANK_ORDER.indexOf(b.minRank)
+  );
+
+  sorted.forEach((bracket, index) => {
+    if (RANK_ORDER.indexOf(bracket.minRank) > RANK_ORDER.indexOf(bracket.maxRank)) {
+      throw new BadRequestError(
+        `Reward bracket ${bracket.minRank}-${bracket.maxRank}: minRank is above maxRank`,
+        ERROR_CODES.VALIDATION_ERROR
+      );
+    }
+
+    const previous = sorted[index - 1];
+    if (previous && RANK_ORDER.indexOf(bracket.minRank) <= RANK_ORDER.indexOf(previous.maxRank)) {
+      throw new BadRequestError(
+        `Reward brackets ${previous.minRank}-${previous.maxRank} and ` +
+          `${bracket.minRank}-${bracket.maxRank} overlap`,
+        ERROR_CODES.VALIDATION_ERROR
+      );
+    }
+  });
+
+  return sorted;
+}
+
+// ===========================================
+// Soft Reset
+// ===========================================
+
+/**
+ * Rank points a returning player starts the new season with.
+ * Pure function with no side effects.
+ *
+ * @example
+ * calculateSoftResetRankPoints(1600) // 1100 (600 + half of 1000)
+ * calculateSoftResetRankPoints(450)  // 450 (at or below the baseline)
+ */
+export function calculateSoftResetRankPoints(rankPoints: number): number {
+  const { BASELINE_RP, RETAIN_FRACTION } = SEASON_SOFT_RESET;
+
+  if (rankPoints <= BASELINE_RP) {
+    return Math.max(0, rankPoints);
+  }
+
+  return BASELINE_RP + Math.floor((rankPoints - BASELINE_RP) * RETAIN_FRACTION);
+}
+
+/**
+ * Seed the new season with soft-reset entries for every player ranked
+ * in the previous season. Returning players skip placement.
+ * Idempotent - existing entries are left alone.
+ *
+ * @returns Number of entries created
+ */
+async function carryOverRankPoints(
+  previousSeasonId: string,
+  seasonId: string,
+  now: Date
+): Promise<number> {
+  let created = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const entries = await prisma.seasonEntry.findMany({
+      where: { seasonId: previousSeasonId, currentRank: { not: null } },
+      orderBy: { id: 'asc' },
+      take: SEASON_WORKER_CONFIG.BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      select: { id: true, userId: true, rankPoints: true, finalRankPoints: true },
+    });
+
+    if (entries.length === 0) {
+      break;
+    }
+
+    const { count } = await prisma.seasonEntry.createMany({
+      data: entries.map((entry) => {
+        const rankPoints = calculateSoftResetRankPoints(entry.finalRankPoints ?? entry.rankPoints);
+        const rank = calculateNewRank(rankPoints);
+
+        return {
+          userId: entry.userId,
+          seasonId,
+          rankPoints,
+          currentRank: rank,
+          highestRank: rank,
+          initialRank: rank,
+          placementMatchesPlayed: PLACEMENT_MATCHES_REQUIRED,
+          isPlaced: true,
+          placedAt: now,
+        };
+      }),
+      skipDuplicates: true,
+    });
+
+    created += count;
+    cursor = entries[entries.length - 1].id;
+  }
+
+  return created;
+}
+
+// ===========================================
+// Activation
+// ===========================================
+
+/**
+ * Activate a SCHEDULED season and make it the current season.
+ * Players ranked in the most recent ended season carry over soft-reset
+ * rank points. Idempotent - an already ACTIVE season is left alone.
+ *
+ * @throws {NotFoundError} Season not found
+ * @throws {BadRequestError} Season not SCHEDULED, not yet due, already
+ *   past its end date, or another season is still ACTIVE
+ * @throws {ConflictError} Moving the start date would overlap another season
+ */
+export async function activateSeason(
+  seasonId: string,
+  options: ActivateSeasonOptions = {}
+): Promise<SeasonActivationResult> {
+  const now = options.now ?? new Date();
+
+  const season = await prisma.season.findUnique({
+    where: { id: seasonId },
+    select: { id: true, name: true, status: true, startDate: true, endDate: true },
+  });
+
+  if (!season) {
+    throw new NotFoundError('Season not found', ERROR_CODES.SEASON_NOT_FOUND);
+  }
+
+  if (season.status === SeasonStatus.ACTIVE) {
+    return {
+      seasonId,
+      activated: false,
+      startDate: season.startDate,
+      previousSeasonId: null,
+      carriedOver: 0,
+    };
+  }
+
+  if (season.status !== SeasonStatus.SCHEDULED) {
+    throw new BadRequestError(
+      `Only scheduled seasons can be activated (status: ${season.status})`,
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+  }
+
+  if (season.endDate <= now) {
+    throw new BadRequestError(
+      'Season end date has already passed',
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+  }
+
+  if (season.startDate > now && !options.startNow) {
+    throw new BadRequestError(
+      `Season does not start until ${season.startDate.toISOString()}`,
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+  }
+
+  const stillActive = await prisma.season.findFirst({
+    where: { status: SeasonStatus.ACTIVE, id: { not: seasonId } },
+    select: { name: true },
+  });
+
+  if (stillActive) {
+    throw new BadRequestError(
+      `${stillActive.name} is still active. End it before activating the next season.`,
+      ERROR_CODES.SEASON_INVALID_STATE
+    );
+  }
+
+  const startDate = season.startDate > now ? now : season.startDate;
+  if (startDate !== season.startDate) {
+    await assertNoSeasonOverlap(prisma, { startDate, endDate: season.endDate }, seasonId);
+  }
+
+  const previous = await prisma.season.findFirst({
+    where: {
+      id: { not: seasonId },
+      status: { in: [SeasonStatus.ENDED, SeasonStatus.ARCHIVED] },
+    },
+    orderBy: { endDate: 'desc' },
+    select: { id: true },
+  });
+
+  const carriedOver = previous ? await carryOverRankPoints(previous.id, seasonId, now) : 0;
+
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.season.updateMany({
+      where: { id: seasonId, status: SeasonStatus.SCHEDULED },
+      data: { status: SeasonStatus.ACTIVE, isCurrent: true, startDate },
+    });
+
+    if (count === 0) {
+      throw new ConflictError(
+        'Season was modified concurrently. Please retry.',
+        ERROR_CODES.INTERNAL_ERROR
+      );
+    }
+
+    await tx.season.updateMany({
+      where: { id: { not: seasonId }, isCurrent: true },
+      data: { isCurrent: false },
+    });
+  });
+
+  logger.info(
+    `[Season] Activated ${season.name} (${seasonId}); ${carriedOver} players carried over` +
+      (previous ? ` from season ${previous.id}` : '')
+  );
+
+  return {
+    seasonId,
+    activated: true,
+    startDate,
+    previousSeasonId: previous?.id ?? null,
+    carriedOver,
+  };
+}
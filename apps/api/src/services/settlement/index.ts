@@ -16,8 +16,24 @@ export {
   manualSettleMatch,
 } from './settlement-edge-cases.service';
 
+// Match disputes
+export {
+  fileDispute,
+  getMatchDisputes,
+  listDisputes,
+  getDisputeForReview,
+  assignDispute,
+  resolveDispute,
+} from './match-dispute.service';
+
 // Pure referee functions (for testing and direct use)
 export { determinePickResult, determinePickResults } from './pick-result';
+export {
+  evaluatePlayerProp,
+  findPlayerStatLine,
+  getPropStatValue,
+  PROP_MARKET_STAT_KEYS,
+} from './prop-result';
 export { calculateSlipScore, calculateSlipScores, summarizePickResults } from './slip-scorer';
 export {
   determineMatchWinner,
@@ -37,6 +53,8 @@ export type {
   SlipForSettlement,
   PickForSettlement,
   PickWithEvent,
+  PlayerBoxScoreStats,
+  PlayerStatLine,
 } from './settlement.types';
 
 // Constants
@@ -45,8 +63,12 @@ export {
   VOID_EVENT_STATUSES,
   HOME_SELECTIONS,
   AWAY_SELECTIONS,
+  DRAW_SELECTIONS,
+  THREE_WAY_MONEYLINE_SPORTS,
   OVER_SELECTIONS,
   UNDER_SELECTIONS,
+  YES_SELECTIONS,
+  NO_SELECTIONS,
 } from './settlement.types';
 
 // Edge case types (Task 8.5)
@@ -59,6 +81,14 @@ export type {
   SettlementEligibility,
   VoidSettlementJobData,
   PostponedCheckJobData,
+  DisputeType,
+  DisputeStatus,
+  DisputeResolutionType,
+  DisputeEvidenceItem,
+  FileDisputeParams,
+  AssignDisputeParams,
+  ResolveDisputeParams,
+  ResolveDisputeResult,
 } from './settlement-edge-cases.types';
 
 export {
@@ -66,5 +96,8 @@ export {
   generateVoidMatchRefundKey,
   generateCancellationRefundKey,
   generateManualPayoutKey,
+  generateManualRakeKey,
   generateManualRefundKey,
+  generateDisputeHoldKey,
+  generateDisputeReleaseKey,
 } from './settlement-edge-cases.types';
@@ -0,0 +1,256 @@
+// =====================================================
+// Match Dispute Service Tests
+// =====================================================
+// Covers payout holds: the shortfall when a winner already spent their
+// payout, collecting it before a dispute is upheld, and releasing every
+// hold on rejection.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  matchFindUnique: vi.fn(),
+  matchUpdateMany: vi.fn(),
+  disputeFindFirst: vi.fn(),
+  disputeFindUnique: vi.fn(),
+  disputeCreate: vi.fn(),
+  disputeUpdate: vi.fn(),
+  auditLogCreate: vi.fn(),
+  transactionGroupBy: vi.fn(),
+  transactionFindMany: vi.fn(),
+  creditWallet: vi.fn(),
+  debitWallet: vi.fn(),
+  getWalletByUserId: vi.fn(),
+  manualSettleMatch: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => {
+  const tx = {
+    match: { findUnique: mocks.matchFindUnique, updateMany: mocks.matchUpdateMany },
+    matchDispute: {
+      findFirst: mocks.disputeFindFirst,
+      findUnique: mocks.disputeFindUnique,
+      create: mocks.disputeCreate,
+      update: mocks.disputeUpdate,
+    },
+    matchAuditLog: { create: mocks.auditLogCreate },
+    transaction: { groupBy: mocks.transactionGroupBy, findMany: mocks.transactionFindMany },
+  };
+
+  return {
+    prisma: {
+      ...tx,
+      $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../../lib/wallet.service', () => ({
+  creditWallet: mocks.creditWallet,
+  debitWallet: mocks.debitWallet,
+  getWalletByUserId: mocks.getWalletByUserId,
+}));
+
+vi.mock('./settlement-edge-cases.service', () => ({
+  validateAdminPermission: vi.fn(),
+  manualSettleMatch: mocks.manualSettleMatch,
+}));
+
+vi.mock('../admin-audit.service', () => ({
+  recordAdminAction: vi.fn(),
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { fileDispute, resolveDispute } from './match-dispute.service';
+import { BadRequestError } from '../../utils/errors';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+function createMatch(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'match-1',
+    status: 'settled',
+    creatorId: 'winner',
+    opponentId: 'loser',
+    winnerId: 'winner',
+    isDraw: false,
+    stakeAmount: BigInt(100),
+    settledAt: new Date(),
+    isManuallySettled: false,
+    version: 1,
+    ...overrides,
+  };
+}
+
+function createDispute(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'dispute-1',
+    matchId: 'match-1',
+    status: 'reviewing',
+    payoutShortfall: BigInt(0),
+    match: createMatch({ status: 'disputed' }),
+    ...overrides,
+  };
+}
+
+const RESOLVE_PARAMS = {
+  disputeId: 'dispute-1',
+  adminId: 'admin-1',
+  resolutionType: 'upheld' as const,
+  winnerId: 'loser',
+  resolution: 'Scoring feed graded the wrong game for pick 3',
+};
+
+/**
+ * Net settlement proceeds per user, as the ledger groupBy returns them.
+ */
+function mockProceeds(rows: Array<[string, number]>) {
+  mocks.transactionGroupBy.mockResolvedValue(
+    rows.map(([userId, amount]) => ({ userId, _sum: { amount: BigInt(amount) } }))
+  );
+}
+
+async function expectError(promise: Promise<unknown>, errorClass: unknown, code?: string) {
+  const error = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(errorClass);
+  if (code) expect(error.code).toBe(code);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.matchFindUnique.mockResolvedValue(createMatch());
+  mocks.matchUpdateMany.mockResolvedValue({ count: 1 });
+  mocks.disputeFindFirst.mockResolvedValue(null);
+  mocks.disputeCreate.mockResolvedValue({ id: 'dispute-1', matchId: 'match-1' });
+  mocks.disputeFindUnique.mockResolvedValue(createDispute());
+  mocks.getWalletByUserId.mockResolvedValue({ totalBalance: 1000 });
+  mocks.debitWallet.mockImplementation(({ idempotencyKey }) =>
+    Promise.resolve({ id: `tx:${idempotencyKey}` })
+  );
+  mocks.creditWallet.mockResolvedValue({ id: 'release-tx' });
+  mocks.manualSettleMatch.mockResolvedValue({
+    status: 'settled',
+    winnerId: 'loser',
+    auditLogId: 'audit-1',
+  });
+});
+
+// ===========================================
+// fileDispute
+// ===========================================
+
+describe('fileDispute', () => {
+  const params = {
+    matchId: 'match-1',
+    userId: 'loser',
+    disputeType: 'scoring' as const,
+    description: 'My pick was graded as a miss',
+  };
+
+  it('records the part of the payout the winner already spent', async () => {
+    mockProceeds([['winner', 190]]);
+    mocks.getWalletByUserId.mockResolvedValue({ totalBalance: 50 });
+
+    const dispute = await fileDispute(params);
+
+    expect(mocks.debitWallet).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'winner', amount: BigInt(50), type: 'DISPUTE_HOLD' })
+    );
+    expect(mocks.disputeUpdate).toHaveBeenCalledWith({
+      where: { id: 'dispute-1' },
+      data: { payoutShortfall: BigInt(140) },
+    });
+    expect(dispute.payoutShortfall).toBe(140);
+  });
+
+  it('records no shortfall when the whole payout is held', async () => {
+    mockProceeds([['winner', 190]]);
+
+    const dispute = await fileDispute(params);
+
+    expect(mocks.disputeUpdate).not.toHaveBeenCalled();
+    expect(dispute.payoutShortfall).toBe(0);
+  });
+});
+
+// ===========================================
+// resolveDispute
+// ===========================================
+
+describe('resolveDispute', () => {
+  it('blocks upholding while part of the original payout is uncollected', async () => {
+    mocks.disputeFindUnique.mockResolvedValue(createDispute({ payoutShortfall: BigInt(140) }));
+    mockProceeds([['winner', 140]]);
+    mocks.getWalletByUserId.mockResolvedValue({ totalBalance: 40 });
+
+    await expectError(resolveDispute(RESOLVE_PARAMS), BadRequestError, ERROR_CODES.INSUFFICIENT_BALANCE);
+
+    // Whatever the winner has now is collected, the rest stays on the dispute
+    expect(mocks.debitWallet).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'winner',
+        amount: BigInt(40),
+        idempotencyKey: 'dispute:dispute-1:hold:winner:shortfall:140',
+      })
+    );
+    expect(mocks.disputeUpdate).toHaveBeenCalledWith({
+      where: { id: 'dispute-1' },
+      data: { payoutShortfall: BigInt(100) },
+    });
+    expect(mocks.manualSettleMatch).not.toHaveBeenCalled();
+  });
+
+  it('upholds once the shortfall is covered', async () => {
+    mocks.disputeFindUnique.mockResolvedValue(createDispute({ payoutShortfall: BigInt(140) }));
+    mockProceeds([['winner', 140]]);
+
+    const result = await resolveDispute(RESOLVE_PARAMS);
+
+    expect(mocks.disputeUpdate).toHaveBeenCalledWith({
+      where: { id: 'dispute-1' },
+      data: { payoutShortfall: BigInt(0) },
+    });
+    expect(mocks.manualSettleMatch).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'resolve_dispute', winnerId: 'loser' })
+    );
+    expect(result.status).toBe('resolved');
+  });
+
+  it('upholds without extra holds when everything was held at filing', async () => {
+    mockProceeds([['winner', 0]]);
+
+    await resolveDispute(RESOLVE_PARAMS);
+
+    expect(mocks.debitWallet).not.toHaveBeenCalled();
+    expect(mocks.manualSettleMatch).toHaveBeenCalled();
+  });
+
+  it('releases every hold for a user as one credit on rejection', async () => {
+    mocks.transactionFindMany.mockResolvedValue([
+      { userId: 'winner', amount: BigInt(-50) },
+      { userId: 'winner', amount: BigInt(-40) },
+    ]);
+
+    const result = await resolveDispute({ ...RESOLVE_PARAMS, resolutionType: 'rejected' });
+
+    expect(mocks.creditWallet).toHaveBeenCalledTimes(1);
+    expect(mocks.creditWallet).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'winner',
+        amount: BigInt(90),
+        type: 'DISPUTE_RELEASE',
+        idempotencyKey: 'dispute:dispute-1:release:winner',
+      })
+    );
+    expect(result.releaseTransactionIds).toEqual(['release-tx']);
+  });
+});
@@ -0,0 +1,872 @@
+// =====================================================
+// Match Dispute Service
+// =====================================================
+//
+// Handles participant disputes on settled matches:
+// 1. Filing (within the dispute window) moves the match to 'disputed'
+//    and holds the settlement payouts
+// 2. Admin queue / assignment
+// 3. Resolution via manualSettleMatch('resolve_dispute') or rejection
+//
+// PAYOUT HOLDS:
+// Settlement credits (MATCH_WIN / MATCH_REFUND) are debited back as
+// DISPUTE_HOLD when a dispute is filed.
+// - Rejected: holds are released (DISPUTE_RELEASE), original result stands
+// - Upheld/partial with winnerId: force settle pays the (new) winner
+// - Upheld/partial without winnerId: match voided, both stakes refunded
+// Holds only cover net payouts, so re-settling first reverses the rake
+// the house kept from the original settlement (see manualSettleMatch).
+// A hold is capped at the user's balance; the uncollected remainder is the
+// dispute's payoutShortfall. Upholding re-pays the full pot, so it first
+// retries collecting the shortfall and is blocked until nothing is left.
+//
+// CRITICAL: All financial operations use idempotency keys.
+// Every step writes a MatchAuditLog entry.
+
+import { Prisma, AdminRole, MatchStatus } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { logger } from '../../utils/logger';
+import {
+  creditWallet,
+  debitWallet,
+  getWalletByUserId,
+} from '../../lib/wallet.service';
+import {
+  BadRequestError,
+  NotFoundError,
+  ConflictError,
+  ForbiddenError,
+} from '../../utils/errors';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
+
+import { recordAdminAction } from '../admin-audit.service';
+import { validateAdminPermission, manualSettleMatch } from './settlement-edge-cases.service';
+import {
+  FileDisputeParams,
+  AssignDisputeParams,
+  ResolveDisputeParams,
+  ResolveDisputeResult,
+  DisputePayoutHold,
+  DisputeStatus,
+  SETTLEMENT_EDGE_CASE_CONSTANTS,
+  generateDisputeHoldKey,
+  generateDisputeShortfallHoldKey,
+  generateDisputeReleaseKey,
+} from './settlement-edge-cases.types';
+
+// ===========================================
+// Constants
+// ===========================================
+
+const {
+  TRANSACTION_TIMEOUT_MS,
+  MIN_JUSTIFICATION_LENGTH,
+  HIGH_VALUE_MATCH_THRESHOLD,
+  DISPUTE_WINDOW_MS,
+} = SETTLEMENT_EDGE_CASE_CONSTANTS;
+
+/**
+ * Match statuses a dispute can be filed against.
+ */
+const DISPUTABLE_MATCH_STATUSES: MatchStatus[] = [MatchStatus.settled, MatchStatus.draw];
+
+/**
+ * Dispute statuses that still need admin action.
+ */
+const OPEN_DISPUTE_STATUSES: DisputeStatus[] = ['pending', 'reviewing'];
+
+/**
+ * Transaction types that make up a participant's settlement proceeds.
+ * Summed per user to get the amount currently held/paid for a match.
+ */
+const SETTLEMENT_PROCEEDS_TYPES = [
+  'MATCH_WIN',
+  'MATCH_REFUND',
+  'DISPUTE_HOLD',
+  'DISPUTE_RELEASE',
+] as const;
+
+/**
+ * Minimum admin role that can be assigned disputes.
+ */
+const DISPUTE_ASSIGNEE_ROLES: AdminRole[] = ['SUPPORT_ADMIN', 'SETTLEMENT_ADMIN', 'SUPER_ADMIN'];
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+/**
+ * Derives dispute priority: fraud is urgent, high-value matches are high.
+ */
+function getDisputePriority(disputeType: string, stakeAmount: bigint): number {
+  if (disputeType === 'fraud') return 2;
+  if (stakeAmount >= BigInt(HIGH_VALUE_MATCH_THRESHOLD)) return 1;
+  return 0;
+}
+
+/**
+ * Loads a dispute or throws NotFoundError.
+ */
+async function getDisputeOrThrow(disputeId: string) {
+  const dispute = await prisma.matchDispute.findUnique({
+    where: { id: disputeId },
+    include: {
+      match: {
+        select: {
+          id: true,
+          status: true,
+          isDraw: true,
+          winnerId: true,
+          creatorId: true,
+          opponentId: true,
+          version: true,
+        },
+      },
+    },
+  });
+
+  if (!dispute) {
+    throw new NotFoundError('Dispute not found', ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  return dispute;
+}
+
+/**
+ * Holds each participant's net settlement proceeds for a match.
+ * Holds at most the user's current balance; any shortfall is recorded.
+ * Net proceeds already count earlier holds, so calling this again with
+ * collectShortfall only debits what is still outstanding.
+ */
+async function holdSettlementPayouts(
+  matchId: string,
+  disputeId: string,
+  collectShortfall = false
+): Promise<DisputePayoutHold[]> {
+  const proceeds = await prisma.transaction.groupBy({
+    by: ['userId'],
+    where: {
+      matchId,
+      status: 'completed',
+      type: { in: [...SETTLEMENT_PROCEEDS_TYPES] },
+    },
+    _sum: { amount: true },
+  });
+
+  const holds: DisputePayoutHold[] = [];
+
+  for (const row of proceeds) {
+    const requestedAmount = row._sum.amount ?? BigInt(0);
+    if (requestedAmount <= BigInt(0)) continue;
+
+    const wallet = await getWalletByUserId(row.userId);
+    const available = wallet ? BigInt(wallet.totalBalance) : BigInt(0);
+    const heldAmount = requestedAmount < available ? requestedAmount : available;
+
+    if (heldAmount <= BigInt(0)) {
+      logger.warn(`[Disputes] Nothing to hold for user ${row.userId} on match ${matchId}`);
+      holds.push({ userId: row.userId, transactionId: null, requestedAmount, heldAmount });
+      continue;
+    }
+
+    const holdTx = await debitWallet({
+      userId: row.userId,
+      amount: heldAmount,
+      type: 'DISPUTE_HOLD',
+      preferBonus: false, // Payouts are credited to paid balance
+      matchId,
+      idempotencyKey: collectShortfall
+        ? generateDisputeShortfallHoldKey(disputeId, row.userId, requestedAmount)
+        : generateDisputeHoldKey(disputeId, row.userId),
+      description: `Payout held pending dispute review: Match ${matchId}`,
+      metadata: { disputeId, requestedAmount: requestedAmount.toString() },
+    });
+
+    if (heldAmount < requestedAmount) {
+      logger.warn(
+        `[Disputes] Partial hold for user ${row.userId} on match ${matchId}: ` +
+          `${heldAmount} of ${requestedAmount}`
+      );
+    }
+
+    holds.push({ userId: row.userId, transactionId: holdTx.id, requestedAmount, heldAmount });
+  }
+
+  return holds;
+}
+
+/**
+ * Releases all holds placed for a dispute back to the original recipients.
+ */
+async function releaseSettlementPayouts(
+  matchId: string,
+  disputeId: string
+): Promise<string[]> {
+  const holdTxs = await prisma.transaction.findMany({
+    where: {
+      matchId,
+      type: 'DISPUTE_HOLD',
+      status: 'completed',
+      idempotencyKey: { startsWith: `dispute:${disputeId}:hold:` },
+    },
+    select: { userId: true, amount: true },
+  });
+
+  // A user may have several holds (shortfall collections) - release them as one credit
+  const heldByUser = new Map<string, bigint>();
+  for (const hold of holdTxs) {
+    const held = heldByUser.get(hold.userId) ?? BigInt(0);
+    heldByUser.set(hold.userId, held - hold.amount); // Hold amounts are stored negative
+  }
+
+  const releaseTxIds: string[] = [];
+
+  for (const [userId, amount] of heldByUser) {
+    const releaseTx = await creditWallet({
+      userId,
+      amount,
+      type: 'DISPUTE_RELEASE',
+      matchId,
+      idempotencyKey: generateDisputeReleaseKey(disputeId, userId),
+      description: `Dispute rejected, payout released: Match ${matchId}`,
+      metadata: { disputeId },
+    });
+    releaseTxIds.push(releaseTx.id);
+  }
+
+  return releaseTxIds;
+}
+
+/**
+ * Total proceeds a set of holds failed to collect.
+ */
+function sumShortfall(holds: DisputePayoutHold[]): bigint {
+  return holds.reduce((sum, h) => sum + (h.requestedAmount - h.heldAmount), BigInt(0));
+}
+
+/**
+ * Serializes hold records for JSON audit logs.
+ */
+function serializeHolds(holds: DisputePayoutHold[]) {
+  return holds.map((h) => ({
+    userId: h.userId,
+    transactionId: h.transactionId,
+    requestedAmount: h.requestedAmount.toString(),
+    heldAmount: h.heldAmount.toString(),
+  }));
+}
+
+// ===========================================
+// Participant Functions
+// ===========================================
+
+/**
+ * Files a dispute on a settled match.
+ *
+ * Flow:
+ * 1. Validate participant, match status, dispute window
+ * 2. Atomically move match to 'disputed' and create the dispute
+ * 3. Hold settlement payouts (outside transaction, idempotent)
+ *
+ * @throws ForbiddenError if user is not a participant
+ * @throws BadRequestError if match is not disputable or window has closed
+ * @throws ConflictError if a dispute is already open
+ */
+export async function fileDispute(params: FileDisputeParams) {
+  const { matchId, userId, disputeType, description, evidence = [], ipAddress, userAgent } =
+    params;
+
+  const match = await prisma.match.findUnique({
+    where: { id: matchId },
+    select: {
+      id: true,
+      status: true,
+      creatorId: true,
+      opponentId: true,
+      stakeAmount: true,
+      settledAt: true,
+      isManuallySettled: true,
+      version: true,
+    },
+  });
+
+  if (!match) {
+    throw new NotFoundError('Match not found', ERROR_CODES.MATCH_NOT_FOUND);
+  }
+
+  if (match.creatorId !== userId && match.opponentId !== userId) {
+    throw new ForbiddenError('Only match participants can file a dispute', ERROR_CODES.FORBIDDEN);
+  }
+
+  if (!DISPUTABLE_MATCH_STATUSES.includes(match.status)) {
+    throw new BadRequestError(
+      `Only settled matches can be disputed (status: ${match.status})`,
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  if (match.isManuallySettled) {
+    throw new BadRequestError(
+      'This match was settled by an admin and cannot be disputed again',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  if (!match.settledAt || Date.now() - match.settledAt.getTime() > DISPUTE_WINDOW_MS) {
+    throw new BadRequestError(
+      `Disputes must be filed within ${DISPUTE_WINDOW_MS / (60 * 60 * 1000)} hours of settlement`,
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const existing = await prisma.matchDispute.findFirst({
+    where: {
+      matchId,
+      OR: [{ status: { in: OPEN_DISPUTE_STATUSES } }, { filedBy: userId }],
+    },
+    select: { id: true, status: true },
+  });
+
+  if (existing) {
+    throw new ConflictError(
+      OPEN_DISPUTE_STATUSES.includes(existing.status as DisputeStatus)
+        ? 'A dispute is already open for this match'
+        : 'You have already filed a dispute for this match',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const priority = getDisputePriority(disputeType, match.stakeAmount);
+
+  const dispute = await prisma.$transaction(
+    async (tx) => {
+      const updateResult = await tx.match.updateMany({
+        where: { id: matchId, version: match.version },
+        data: {
+          status: 'disputed',
+          version: { increment: 1 },
+        },
+      });
+
+      if (updateResult.count === 0) {
+        throw new ConflictError(
+          'Match was modified while filing dispute. Please retry.',
+          ERROR_CODES.INTERNAL_ERROR
+        );
+      }
+
+      const created = await tx.matchDispute.create({
+        data: {
+          matchId,
+          filedBy: userId,
+          disputeType,
+          description,
+          priority,
+          evidence: evidence as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      await tx.matchAuditLog.create({
+        data: {
+          matchId,
+          action: 'DISPUTE_FILED',
+          performedBy: userId,
+          ipAddress,
+          userAgent,
+          previousState: { status: match.status } as Prisma.InputJsonValue,
+          newState: { status: 'disputed', disputeId: created.id } as Prisma.InputJsonValue,
+          metadata: { disputeType, priority } as Prisma.InputJsonValue,
+        },
+      });
+
+      return created;
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+
+  // Hold payouts (outside transaction, idempotent)
+  let holds: DisputePayoutHold[] = [];
+  try {
+    holds = await holdSettlementPayouts(matchId, dispute.id);
+  } catch (error) {
+    // Dispute stays open - admins see the failed hold in the audit log
+    logger.error(`[Disputes] Failed to hold payouts for match ${matchId}:`, error);
+  }
+
+  const payoutShortfall = sumShortfall(holds);
+  if (payoutShortfall > BigInt(0)) {
+    await prisma.matchDispute.update({
+      where: { id: dispute.id },
+      data: { payoutShortfall },
+    });
+  }
+
+  await prisma.matchAuditLog.create({
+    data: {
+      matchId,
+      action: 'DISPUTE_PAYOUT_HELD',
+      performedBy: 'SYSTEM',
+      previousState: {} as Prisma.InputJsonValue,
+      newState: {
+        holds: serializeHolds(holds),
+        payoutShortfall: payoutShortfall.toString(),
+      } as Prisma.InputJsonValue,
+      metadata: { disputeId: dispute.id } as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.warn(`[Disputes] Dispute ${dispute.id} filed by ${userId} on match ${matchId}`, {
+    disputeType,
+    priority,
+  });
+
+  return { ...dispute, payoutShortfall: Number(payoutShortfall) };
+}
+
+/**
+ * Lists disputes on a match for a participant.
+ */
+export async function getMatchDisputes(matchId: string, userId: string) {
+  const match = await prisma.match.findUnique({
+    where: { id: matchId },
+    select: { creatorId: true, opponentId: true },
+  });
+
+  if (!match || (match.creatorId !== userId && match.opponentId !== userId)) {
+    throw new NotFoundError(
+      'Match not found or you are not a participant',
+      ERROR_CODES.MATCH_NOT_FOUND
+    );
+  }
+
+  return prisma.matchDispute.findMany({
+    where: { matchId },
+    orderBy: { filedAt: 'desc' },
+    select: {
+      id: true,
+      disputeType: true,
+      description: true,
+      status: true,
+      filedBy: true,
+      filedAt: true,
+      resolution: true,
+      resolutionType: true,
+      resolvedAt: true,
+    },
+  });
+}
+
+// ===========================================
+// Admin Functions
+// ===========================================
+
+/**
+ * Lists disputes for the admin queue.
+ * Ordered by priority (urgent first), then oldest first.
+ */
+export async function listDisputes(params: {
+  status?: DisputeStatus;
+  priority?: number;
+  assignedTo?: string;
+  page: number;
+  limit: number;
+}) {
+  const { status, priority, assignedTo, page, limit } = params;
+
+  const where: Prisma.MatchDisputeWhereInput = {
+    ...(status ? { status } : { status: { in: OPEN_DISPUTE_STATUSES } }),
+    ...(priority !== undefined && { priority }),
+    ...(assignedTo && { assignedTo }),
+  };
+
+  const [disputes, total] = await Promise.all([
+    prisma.matchDispute.findMany({
+      where,
+      orderBy: [{ priority: 'desc' }, { filedAt: 'asc' }],
+      skip: (page - 1) * limit,
+      take: limit,
+      include: {
+        filer: { select: { id: true, username: true } },
+        assignee: { select: { id: true, username: true } },
+        match: {
+          select: {
+            id: true,
+            status: true,
+            stakeAmount: true,
+            winnerId: true,
+            settledAt: true,
+          },
+        },
+      },
+    }),
+    prisma.matchDispute.count({ where }),
+  ]);
+
+  return {
+    disputes: disputes.map((d) => ({
+      ...d,
+      payoutShortfall: Number(d.payoutShortfall),
+      match: { ...d.match, stakeAmount: Number(d.match.stakeAmount) },
+    })),
+    total,
+  };
+}
+
+/**
+ * Gets a dispute with the match context an admin needs to review it.
+ */
+export async function getDisputeForReview(disputeId: string) {
+  const dispute = await prisma.matchDispute.findUnique({
+    where: { id: disputeId },
+    include: {
+      filer: { select: { id: true, username: true } },
+      assignee: { select: { id: true, username: true } },
+      resolver: { select: { id: true, username: true } },
+      match: {
+        select: {
+          id: true,
+          status: true,
+          stakeAmount: true,
+          creatorId: true,
+          opponentId: true,
+          winnerId: true,
+          isDraw: true,
+          creatorPoints: true,
+          opponentPoints: true,
+          settledAt: true,
+          settlementReason: true,
+          creatorSlip: { include: { picks: true } },
+          opponentSlip: { include: { picks: true } },
+        },
+      },
+    },
+  });
+
+  if (!dispute) {
+    throw new NotFoundError('Dispute not found', ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  return {
+    ...dispute,
+    payoutShortfall: Number(dispute.payoutShortfall),
+    match: {
+      ...dispute.match,
+      stakeAmount: Number(dispute.match.stakeAmount),
+      creatorPoints: Number(dispute.match.creatorPoints),
+      opponentPoints: Number(dispute.match.opponentPoints),
+    },
+  };
+}
+
+/**
+ * Assigns a dispute to an admin for review.
+ * Moves pending disputes to 'reviewing'.
+ */
+export async function assignDispute(params: AssignDisputeParams) {
+  const { disputeId, adminId, assigneeId, ipAddress, userAgent } = params;
+
+  await validateAdminPermission(adminId, 'SUPPORT_ADMIN');
+
+  const assignee = await prisma.user.findUnique({
+    where: { id: assigneeId },
+    select: { adminRole: true },
+  });
+
+  if (!assignee?.adminRole || !DISPUTE_ASSIGNEE_ROLES.includes(assignee.adminRole)) {
+    throw new BadRequestError(
+      'Disputes can only be assigned to support or settlement admins',
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const dispute = await getDisputeOrThrow(disputeId);
+
+  if (!OPEN_DISPUTE_STATUSES.includes(dispute.status as DisputeStatus)) {
+    throw new BadRequestError(`Dispute is already ${dispute.status}`, ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  return prisma.$transaction(
+    async (tx) => {
+      const updated = await tx.matchDispute.update({
+        where: { id: disputeId },
+        data: {
+          assignedTo: assigneeId,
+          assignedAt: new Date(),
+          status: 'reviewing',
+        },
+      });
+
+      await tx.matchAuditLog.create({
+        data: {
+          matchId: dispute.matchId,
+          action: 'DISPUTE_ASSIGNED',
+          performedBy: adminId,
+          ipAddress,
+          userAgent,
+          previousState: {
+            disputeStatus: dispute.status,
+            assignedTo: dispute.assignedTo,
+          } as Prisma.InputJsonValue,
+          newState: {
+            disputeStatus: 'reviewing',
+            assignedTo: assigneeId,
+          } as Prisma.InputJsonValue,
+          metadata: { disputeId } as Prisma.InputJsonValue,
+        },
+      });
+
+      await recordAdminAction(
+        {
+          adminId,
+          action: 'DISPUTE_ASSIGNED',
+          targetType: 'dispute',
+          targetId: disputeId,
+          previousState: { status: dispute.status, assignedTo: dispute.assignedTo },
+          newState: { status: 'reviewing', assignedTo: assigneeId },
+          metadata: { matchId: dispute.matchId },
+          ipAddress,
+          userAgent,
+        },
+        tx
+      );
+
+      return updated;
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+}
+
+/**
+ * Resolves a dispute.
+ *
+ * - rejected: held payouts released, match restored to its settled status
+ * - upheld/partial: delegated to manualSettleMatch('resolve_dispute'),
+ *   which force settles to winnerId or voids and refunds both players
+ *
+ * @throws BadRequestError if the dispute is already closed
+ */
+export async function resolveDispute(params: ResolveDisputeParams): Promise<ResolveDisputeResult> {
+  const { disputeId, adminId, resolutionType, winnerId, resolution, ipAddress, userAgent } =
+    params;
+
+  await validateAdminPermission(adminId, 'SETTLEMENT_ADMIN');
+
+  if (resolution.length < MIN_JUSTIFICATION_LENGTH) {
+    throw new BadRequestError(
+      `Resolution must be at least ${MIN_JUSTIFICATION_LENGTH} characters`,
+      ERROR_CODES.VALIDATION_ERROR
+    );
+  }
+
+  const dispute = await getDisputeOrThrow(disputeId);
+  const match = dispute.match;
+
+  if (!OPEN_DISPUTE_STATUSES.includes(dispute.status as DisputeStatus)) {
+    throw new BadRequestError(`Dispute is already ${dispute.status}`, ERROR_CODES.VALIDATION_ERROR);
+  }
+
+  if (match.status !== 'disputed') {
+    throw new BadRequestError(
+      `Match is not in disputed status (status: ${match.status})`,
+      ERROR_CODES.INTERNAL_ERROR
+    );
+  }
+
+  if (resolutionType === 'rejected') {
+    const restoredStatus = match.isDraw ? 'draw' : 'settled';
+
+    await prisma.$transaction(
+      async (tx) => {
+        const updateResult = await tx.match.updateMany({
+          where: { id: match.id, version: match.version },
+          data: {
+            status: restoredStatus,
+            version: { increment: 1 },
+          },
+        });
+
+        if (updateResult.count === 0) {
+          throw new ConflictError(
+            'Match was modified during dispute resolution',
+            ERROR_CODES.INTERNAL_ERROR
+          );
+        }
+
+        await tx.matchDispute.update({
+          where: { id: disputeId },
+          data: {
+            status: 'rejected',
+            resolutionType,
+            resolution,
+            resolvedBy: adminId,
+            resolvedAt: new Date(),
+          },
+        });
+
+        await tx.matchAuditLog.create({
+          data: {
+            matchId: match.id,
+            action: 'DISPUTE_REJECTED',
+            performedBy: adminId,
+            ipAddress,
+            userAgent,
+            previousState: { status: 'disputed', disputeStatus: dispute.status } as Prisma.InputJsonValue,
+            newState: { status: restoredStatus, disputeStatus: 'rejected' } as Prisma.InputJsonValue,
+            metadata: { disputeId, resolution } as Prisma.InputJsonValue,
+          },
+        });
+
+        await recordAdminAction(
+          {
+            adminId,
+            action: 'DISPUTE_REJECTED',
+            targetType: 'dispute',
+            targetId: disputeId,
+            previousState: { status: dispute.status, matchStatus: 'disputed' },
+            newState: { status: 'rejected', matchStatus: restoredStatus },
+            reason: resolution,
+            metadata: { matchId: match.id },
+            ipAddress,
+            userAgent,
+          },
+          tx
+        );
+      },
+      { timeout: TRANSACTION_TIMEOUT_MS }
+    );
+
+    // Release holds (outside transaction, idempotent)
+    const releaseTransactionIds = await releaseSettlementPayouts(match.id, disputeId);
+
+    await prisma.matchAuditLog.create({
+      data: {
+        matchId: match.id,
+        action: 'DISPUTE_PAYOUT_RELEASED',
+        performedBy: adminId,
+        previousState: {} as Prisma.InputJsonValue,
+        newState: { releaseTransactionIds } as Prisma.InputJsonValue,
+        metadata: { disputeId } as Prisma.InputJsonValue,
+      },
+    });
+
+    logger.warn(`[Disputes] Dispute ${disputeId} rejected by ${adminId}`);
+
+    return {
+      disputeId,
+      matchId: match.id,
+      status: 'rejected',
+      resolutionType,
+      matchStatus: restoredStatus,
+      settlement: null,
+      releaseTransactionIds,
+    };
+  }
+
+  // Upheld / partial re-pays the full pot. Anything the filing hold could not
+  // take back (spent winnings, a failed hold) must be collected first, or the
+  // re-settlement would pay it out a second time.
+  const shortfallHolds = await holdSettlementPayouts(match.id, disputeId, true);
+  const payoutShortfall = sumShortfall(shortfallHolds);
+
+  if (payoutShortfall !== dispute.payoutShortfall) {
+    await prisma.matchDispute.update({
+      where: { id: disputeId },
+      data: { payoutShortfall },
+    });
+  }
+
+  if (payoutShortfall > BigInt(0)) {
+    logger.warn(
+      `[Disputes] Dispute ${disputeId} cannot be upheld: ${payoutShortfall} of the original payout is uncollected`,
+      { holds: serializeHolds(shortfallHolds) }
+    );
+    throw new BadRequestError(
+      `${payoutShortfall} coins of the original payout could not be held back. ` +
+        'The dispute can be upheld once they are covered, or rejected.',
+      ERROR_CODES.INSUFFICIENT_BALANCE
+    );
+  }
+
+  // Upheld / partial: re-settle through the manual settlement path
+  const settlement = await manualSettleMatch({
+    matchId: match.id,
+    adminId,
+    action: 'resolve_dispute',
+    winnerId: winnerId ?? null,
+    reason: resolution,
+    metadata: { disputeId, resolutionType, originalWinnerId: match.winnerId },
+    ipAddress,
+    userAgent,
+  });
+
+  await prisma.$transaction(
+    async (tx) => {
+      await tx.matchDispute.update({
+        where: { id: disputeId },
+        data: {
+          status: 'resolved',
+          resolutionType,
+          resolution,
+          resolvedBy: adminId,
+          resolvedAt: new Date(),
+        },
+      });
+
+      await tx.matchAuditLog.create({
+        data: {
+          matchId: match.id,
+          action: 'DISPUTE_RESOLVED',
+          performedBy: adminId,
+          ipAddress,
+          userAgent,
+          previousState: {
+            disputeStatus: dispute.status,
+            winnerId: match.winnerId,
+          } as Prisma.InputJsonValue,
+          newState: {
+            disputeStatus: 'resolved',
+            status: settlement.status,
+            winnerId: settlement.winnerId,
+          } as Prisma.InputJsonValue,
+          metadata: {
+            disputeId,
+            resolutionType,
+            settlementAuditLogId: settlement.auditLogId,
+          } as Prisma.InputJsonValue,
+        },
+      });
+
+      await recordAdminAction(
+        {
+          adminId,
+          action: 'DISPUTE_RESOLVED',
+          targetType: 'dispute',
+          targetId: disputeId,
+          previousState: { status: dispute.status, winnerId: match.winnerId },
+          newState: { status: 'resolved', matchStatus: settlement.status, winnerId: settlement.winnerId },
+          reason: resolution,
+          metadata: { matchId: match.id, resolutionType },
+          ipAddress,
+          userAgent,
+        },
+        tx
+      );
+    },
+    { timeout: TRANSACTION_TIMEOUT_MS }
+  );
+
+  logger.warn(`[Disputes] Dispute ${disputeId} resolved (${resolutionType}) by ${adminId}`, {
+    matchStatus: settlement.status,
+    winnerId: settlement.winnerId,
+  });
+
+  return {
+    disputeId,
+    matchId: match.id,
+    status: 'resolved',
+    resolutionType,
+    matchStatus: settlement.status,
+    settlement,
+    releaseTransactionIds: [],
+  };
+}
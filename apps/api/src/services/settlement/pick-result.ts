@@ -6,8 +6,11 @@
 //
 // RULES:
 // - Moneyline: Home wins if homeScore > awayScore, Away wins if awayScore > homeScore
+//   Two-way (most sports): a tie is a PUSH; 'draw' selections are VOID
+//   Three-way (soccer): 'draw' HITs on a level score; home/away MISS
 // - Spread: Home covers if (homeScore + spread) > awayScore; PUSH on exact tie
 // - Total: Over if (homeScore + awayScore) > line; Under if below; PUSH on exact
+// - Prop: Player stat from the box score vs line (see prop-result.ts)
 // - VOID: Event cancelled, postponed, or scores unavailable
 
 import { PickStatus } from '@prisma/client';
@@ -19,9 +22,12 @@ import {
   VOID_EVENT_STATUSES,
   HOME_SELECTIONS,
   AWAY_SELECTIONS,
+  DRAW_SELECTIONS,
   OVER_SELECTIONS,
   UNDER_SELECTIONS,
+  THREE_WAY_MONEYLINE_SPORTS,
 } from './settlement.types';
+import { evaluatePlayerProp } from './prop-result';
 
 // ===========================================
 // Constants
@@ -46,6 +52,10 @@ function isApproximatelyEqual(a: number, b: number): boolean {
   return Math.abs(a - b) < EPSILON;
 }
 
+function matchesSelection(selection: string, values: readonly string[]): boolean {
+  return values.includes(selection.trim().toLowerCase());
+}
+
 /**
  * Checks if a selection represents the home team.
  * Trims whitespace and normalizes to lowercase.
@@ -64,6 +74,22 @@ function isAwaySelection(selection: string): boolean {
   return AWAY_SELECTIONS.includes(normalized as any);
 }
 
+/**
+ * Checks if a selection represents a draw.
+ * Trims whitespace and normalizes to lowercase.
+ */
+export function isDrawSelection(selection: string): boolean {
+  return matchesSelection(selection, DRAW_SELECTIONS);
+}
+
+/**
+ * Checks if the event's sport uses a three-way moneyline.
+ */
+function hasThreeWayMoneyline(sport: string | undefined): boolean {
+  const threeWaySports: readonly string[] = THREE_WAY_MONEYLINE_SPORTS;
+  return !!sport && threeWaySports.includes(sport.toUpperCase());
+}
+
 /**
  * Checks if a selection represents over.
  * Trims whitespace and normalizes to lowercase.
@@ -103,29 +129,55 @@ function shouldVoidEvent(status: string): boolean {
 /**
  * Evaluates a moneyline pick.
  *
- * @param selection - 'home' or 'away'
+ * @param selection - 'home', 'away', or 'draw' (three-way only)
  * @param homeScore - Final home team score
  * @param awayScore - Final away team score
+ * @param isThreeWay - Whether the market offered a draw
  * @returns PickStatus and reason
  */
 function evaluateMoneyline(
   selection: string,
   homeScore: number,
-  awayScore: number
+  awayScore: number,
+  isThreeWay: boolean = false
 ): { status: PickStatus; reason: string } {
   const isHome = isHomeSelection(selection);
   const isAway = isAwaySelection(selection);
+  const isDraw = isDrawSelection(selection);
 
-  if (!isHome && !isAway) {
+  if (!isHome && !isAway && !isDraw) {
     return {
       status: 'VOID',
       reason: `Invalid moneyline selection: ${selection}`,
     };
   }
 
-  // Handle tie game (rare in most sports, but possible)
+  if (isDraw && !isThreeWay) {
+    return {
+      status: 'VOID',
+      reason: 'Draw selection on a two-way moneyline',
+    };
+  }
+
   // Use epsilon comparison for floating-point safety
-  if (isApproximatelyEqual(homeScore, awayScore)) {
+  const isLevel = isApproximatelyEqual(homeScore, awayScore);
+
+  if (isDraw) {
+    return isLevel
+      ? { status: 'HIT', reason: `Match drawn ${homeScore}-${awayScore}` }
+      : { status: 'MISS', reason: `Match not drawn: ${homeScore}-${awayScore}` };
+  }
+
+  if (isLevel) {
+    // Three-way: the draw was its own outcome, so both sides lose
+    if (isThreeWay) {
+      return {
+        status: 'MISS',
+        reason: `Match drawn ${homeScore}-${awayScore}`,
+      };
+    }
+
+    // Two-way: tie game (rare in most sports, but possible)
     return {
       status: 'PUSH',
       reason: `Game ended in tie: ${homeScore}-${awayScore}`,
@@ -312,7 +364,12 @@ export function determinePickResult(
   // Evaluate based on pick type
   switch (pick.pickType) {
     case 'moneyline': {
-      const result = evaluateMoneyline(pick.selection, homeScore, awayScore);
+      const result = evaluateMoneyline(
+        pick.selection,
+        homeScore,
+        awayScore,
+        hasThreeWayMoneyline(event.sport)
+      );
       return {
         ...baseResult,
         ...result,
@@ -353,12 +410,10 @@ export function determinePickResult(
     }
 
     case 'prop': {
-      // Prop bets require special handling based on propType
-      // For now, mark as VOID until prop settlement is implemented
+      const result = evaluatePlayerProp(pick, event.playerStats, event.boxScoreOverdue);
       return {
         ...baseResult,
-        status: 'VOID',
-        reason: 'Prop bet settlement not yet implemented',
+        ...result, // resultValue is the player's graded stat
       };
     }
 
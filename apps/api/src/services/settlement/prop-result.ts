@@ -0,0 +1,253 @@
+// =====================================================
+// Player Prop Result Determination
+// =====================================================
+// Pure functions for grading player prop picks against an
+// ingested box score. Mirrors the over/under logic in
+// pick-result.ts, with the stat value taken from the player's
+// stat line instead of the event score.
+//
+// RULES:
+// - Over: HIT if stat > line; Under: HIT if stat < line; PUSH on exact
+// - Yes/No props (anytime TD) grade as over/under a 0.5 line by default
+// - Player listed as did-not-play: VOID
+// - Box score ingested but player absent: VOID (treated as inactive)
+// - No box score ingested yet: PENDING (settlement waits)
+// - No box score BOX_SCORE_DEADLINE_MS after the event ended: VOID
+// - Stat columns missing for a player who played count as 0
+
+import { PickStatus } from '@prisma/client';
+import {
+  PickResultInput,
+  PlayerBoxScoreStats,
+  PlayerStatLine,
+  OVER_SELECTIONS,
+  UNDER_SELECTIONS,
+  YES_SELECTIONS,
+  NO_SELECTIONS,
+  DEFAULT_YES_NO_PROP_LINE,
+  BOX_SCORE_DEADLINE_MS,
+} from './settlement.types';
+
+// ===========================================
+// Constants
+// ===========================================
+
+/**
+ * Epsilon for floating-point comparisons (matches pick-result.ts).
+ */
+const EPSILON = 0.0001;
+
+/**
+ * Stat columns summed for each prop market we sell.
+ * Keys must stay in sync with PLAYER_PROP_MARKETS in services/odds/types.ts.
+ */
+export const PROP_MARKET_STAT_KEYS: Record<string, Array<keyof PlayerBoxScoreStats>> = {
+  player_points: ['points'],
+  player_rebounds: ['rebounds'],
+  player_assists: ['assists'],
+  player_threes: ['threePointersMade'],
+  player_points_rebounds_assists: ['points', 'rebounds', 'assists'],
+  player_pass_tds: ['passingTouchdowns'],
+  player_pass_yds: ['passingYards'],
+  player_rush_yds: ['rushingYards'],
+  player_receptions: ['receptions'],
+  player_reception_yds: ['receivingYards'],
+  player_anytime_td: ['rushingTouchdowns', 'receivingTouchdowns', 'otherTouchdowns'],
+};
+
+/**
+ * Prop markets settled as yes/no rather than over/under a posted line.
+ */
+const YES_NO_PROP_MARKETS = ['player_anytime_td'];
+
+// ===========================================
+// Helper Functions
+// ===========================================
+
+/**
+ * Normalizes a player name or ID for matching.
+ * "LeBron James", "lebron_james" and "LeBron James." all map to "lebronjames".
+ */
+export function normalizePlayerKey(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Finds the stat line for the pick's player.
+ * Matches on external player ID first, then falls back to normalized name
+ * (prop feeds and box score feeds don't always share player IDs).
+ */
+export function findPlayerStatLine(
+  pick: Pick<PickResultInput, 'propPlayerId' | 'propPlayerName'>,
+  playerStats: PlayerStatLine[]
+): PlayerStatLine | null {
+  if (pick.propPlayerId) {
+    const byId = playerStats.find((line) => line.playerId === pick.propPlayerId);
+    if (byId) return byId;
+  }
+
+  const candidates = [pick.propPlayerName, pick.propPlayerId]
+    .filter((value): value is string => !!value)
+    .map(normalizePlayerKey)
+    .filter((key) => key.length > 0);
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  return (
+    playerStats.find((line) => {
+      const lineKeys = [normalizePlayerKey(line.playerName), normalizePlayerKey(line.playerId)];
+      return candidates.some((key) => lineKeys.includes(key));
+    }) ?? null
+  );
+}
+
+/**
+ * Computes the stat value a prop market is graded on.
+ * Returns null for markets we don't know how to grade.
+ */
+export function getPropStatValue(
+  propType: string,
+  stats: PlayerBoxScoreStats
+): number | null {
+  const keys = PROP_MARKET_STAT_KEYS[propType];
+  if (!keys) {
+    return null;
+  }
+
+  return keys.reduce((sum, key) => {
+    const value = stats[key];
+    return sum + (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+  }, 0);
+}
+
+/**
+ * Whether an event's box score deadline has passed.
+ * Events without an end time are measured from their scheduled start.
+ */
+export function isBoxScoreOverdue(
+  event: { endedAt: Date | null; scheduledAt: Date },
+  now: Date = new Date()
+): boolean {
+  const endedAt = event.endedAt ?? event.scheduledAt;
+  return now.getTime() - endedAt.getTime() > BOX_SCORE_DEADLINE_MS;
+}
+
+function matchesSelection(selection: string, values: readonly string[]): boolean {
+  return values.includes(selection.trim().toLowerCase());
+}
+
+/**
+ * Maps a prop selection to a direction.
+ * Yes/No selections are accepted alongside over/under.
+ */
+function getPropDirection(selection: string): 'over' | 'under' | null {
+  if (matchesSelection(selection, OVER_SELECTIONS) || matchesSelection(selection, YES_SELECTIONS)) {
+    return 'over';
+  }
+  if (matchesSelection(selection, UNDER_SELECTIONS) || matchesSelection(selection, NO_SELECTIONS)) {
+    return 'under';
+  }
+  return null;
+}
+
+// ===========================================
+// Main Export Function
+// ===========================================
+
+/**
+ * Evaluates a player prop pick against the event's box score.
+ *
+ * @param pick - The prop pick (propType, player and line required)
+ * @param playerStats - Ingested stat lines for the event, undefined if none yet
+ * @param boxScoreOverdue - Box score deadline passed: void instead of waiting
+ * @returns PickStatus, the graded stat value and reason
+ */
+export function evaluatePlayerProp(
+  pick: PickResultInput,
+  playerStats: PlayerStatLine[] | undefined,
+  boxScoreOverdue = false
+): { status: PickStatus; resultValue: number | null; reason: string } {
+  const propType = pick.propType ?? null;
+
+  if (!propType) {
+    return { status: 'VOID', resultValue: null, reason: 'Prop pick missing prop type' };
+  }
+
+  if (!PROP_MARKET_STAT_KEYS[propType]) {
+    return { status: 'VOID', resultValue: null, reason: `Unsupported prop type: ${propType}` };
+  }
+
+  if (!pick.propPlayerId && !pick.propPlayerName) {
+    return { status: 'VOID', resultValue: null, reason: 'Prop pick missing player' };
+  }
+
+  const direction = getPropDirection(pick.selection);
+  if (!direction) {
+    return { status: 'VOID', resultValue: null, reason: `Invalid prop selection: ${pick.selection}` };
+  }
+
+  const line =
+    pick.line ?? (YES_NO_PROP_MARKETS.includes(propType) ? DEFAULT_YES_NO_PROP_LINE : null);
+  if (line === null) {
+    return { status: 'VOID', resultValue: null, reason: 'Prop pick missing line value' };
+  }
+
+  // Box score not ingested yet - settlement waits for it until the deadline
+  if (!playerStats || playerStats.length === 0) {
+    if (boxScoreOverdue) {
+      return {
+        status: 'VOID',
+        resultValue: null,
+        reason: 'No box score received by the deadline: prop voided',
+      };
+    }
+    return { status: 'PENDING', resultValue: null, reason: 'Awaiting box score for prop settlement' };
+  }
+
+  const playerLabel = pick.propPlayerName ?? pick.propPlayerId;
+  const statLine = findPlayerStatLine(pick, playerStats);
+
+  if (!statLine) {
+    return {
+      status: 'VOID',
+      resultValue: null,
+      reason: `${playerLabel} not found in box score: prop voided`,
+    };
+  }
+
+  if (!statLine.didPlay) {
+    return {
+      status: 'VOID',
+      resultValue: null,
+      reason: `${playerLabel} did not play: prop voided`,
+    };
+  }
+
+  const value = getPropStatValue(propType, statLine.stats)!;
+
+  if (Math.abs(value - line) < EPSILON) {
+    return {
+      status: 'PUSH',
+      resultValue: value,
+      reason: `Prop push: ${playerLabel} ${propType} ${value} = ${line}`,
+    };
+  }
+
+  const wentOver = value > line + EPSILON;
+  const hit = direction === 'over' ? wentOver : !wentOver;
+  const comparison = wentOver ? '>' : '<';
+
+  return {
+    status: hit ? 'HIT' : 'MISS',
+    resultValue: value,
+    reason:
+      `${direction === 'over' ? 'Over' : 'Under'} ${hit ? 'hit' : 'missed'}: ` +
+      `${playerLabel} ${propType} ${value} ${comparison} ${line}`,
+  };
+}
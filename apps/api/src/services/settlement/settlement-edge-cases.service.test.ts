@@ -0,0 +1,204 @@
+// =====================================================
+// Settlement Edge Cases Service Tests
+// =====================================================
+// Covers re-settling a match after an upheld dispute: the rake the house
+// kept from the original settlement is reversed, so house and player
+// balances still net to zero whether the match is given to the other
+// player or voided and refunded.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const HOUSE = 'house';
+
+const mocks = vi.hoisted(() => ({
+  userFindUnique: vi.fn(),
+  matchFindUnique: vi.fn(),
+  matchUpdate: vi.fn(),
+  matchUpdateMany: vi.fn(),
+  slipUpdate: vi.fn(),
+  auditLogCreate: vi.fn(),
+  transactionAggregate: vi.fn(),
+  creditWallet: vi.fn(),
+  postHouseEntry: vi.fn(),
+}));
+
+vi.mock('../../lib/prisma', () => {
+  const tx = {
+    match: {
+      findUnique: mocks.matchFindUnique,
+      update: mocks.matchUpdate,
+      updateMany: mocks.matchUpdateMany,
+    },
+    slip: { update: mocks.slipUpdate },
+    matchAuditLog: { create: mocks.auditLogCreate },
+    transaction: { aggregate: mocks.transactionAggregate },
+    user: { findUnique: mocks.userFindUnique },
+  };
+
+  return {
+    prisma: {
+      ...tx,
+      $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../../lib/wallet.service', () => ({
+  HOUSE_USER_ID: 'house',
+  creditWallet: mocks.creditWallet,
+  postHouseEntry: mocks.postHouseEntry,
+}));
+
+vi.mock('../admin-audit.service', () => ({
+  recordAdminAction: vi.fn(),
+}));
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import { manualSettleMatch } from './settlement-edge-cases.service';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+const STAKE = BigInt(1000);
+const RAKE = BigInt(100); // 5% of the 2000 pot
+const PAYOUT = BigInt(1900);
+
+interface LedgerEntry {
+  userId: string;
+  type: string;
+  amount: bigint;
+}
+
+let ledger: LedgerEntry[];
+
+function post(userId: string, type: string, amount: bigint) {
+  ledger.push({ userId, type, amount });
+  return { id: `tx-${ledger.length}` };
+}
+
+function balanceOf(userId: string): bigint {
+  return ledger
+    .filter((entry) => entry.userId === userId)
+    .reduce((sum, entry) => sum + entry.amount, BigInt(0));
+}
+
+/**
+ * The ledger of a match the creator won, with the whole payout held
+ * back when the opponent filed a dispute.
+ */
+function seedDisputedSettlement() {
+  post('creator', 'MATCH_ENTRY', -STAKE);
+  post('opponent', 'MATCH_ENTRY', -STAKE);
+  post('creator', 'MATCH_WIN', PAYOUT);
+  post(HOUSE, 'RAKE_FEE', RAKE);
+  post('creator', 'DISPUTE_HOLD', -PAYOUT);
+}
+
+function createMatch(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'match-1',
+    status: 'disputed',
+    version: 3,
+    creatorId: 'creator',
+    opponentId: 'opponent',
+    winnerId: 'creator',
+    stakeAmount: STAKE,
+    rakePercentage: 5,
+    creatorSlip: { id: 'slip-creator' },
+    opponentSlip: { id: 'slip-opponent' },
+    ...overrides,
+  };
+}
+
+const PARAMS = {
+  matchId: 'match-1',
+  adminId: 'admin-1',
+  action: 'resolve_dispute' as const,
+  reason: 'Scoring feed graded the wrong game for pick 3',
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  ledger = [];
+  mocks.userFindUnique.mockResolvedValue({ adminRole: 'SETTLEMENT_ADMIN' });
+  mocks.matchFindUnique.mockResolvedValue(createMatch());
+  mocks.matchUpdateMany.mockResolvedValue({ count: 1 });
+  mocks.auditLogCreate.mockResolvedValue({ id: 'audit-1' });
+  mocks.transactionAggregate.mockImplementation(({ where }) =>
+    Promise.resolve({
+      _sum: {
+        amount: ledger
+          .filter((entry) => entry.userId === where.userId && entry.type === where.type)
+          .reduce((sum, entry) => sum + entry.amount, BigInt(0)),
+      },
+    })
+  );
+  mocks.creditWallet.mockImplementation(({ userId, type, amount }) =>
+    Promise.resolve(post(userId, type, amount))
+  );
+  mocks.postHouseEntry.mockImplementation((_tx, { direction, type, amount }) =>
+    Promise.resolve(post(HOUSE, type, direction === 'credit' ? amount : -amount))
+  );
+});
+
+// ===========================================
+// Upheld Disputes
+// ===========================================
+
+describe('manualSettleMatch - upheld dispute', () => {
+  it('collects the rake once when the match goes to the other player', async () => {
+    seedDisputedSettlement();
+
+    await manualSettleMatch({ ...PARAMS, winnerId: 'opponent' });
+
+    expect(mocks.postHouseEntry).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        amount: RAKE,
+        direction: 'debit',
+        type: 'RAKE_FEE',
+        idempotencyKey: 'manual:match-1:rake-reversal:3',
+      })
+    );
+    expect(balanceOf('opponent')).toBe(PAYOUT - STAKE);
+    expect(balanceOf('creator')).toBe(-STAKE);
+    expect(balanceOf(HOUSE)).toBe(RAKE);
+    expect(balanceOf('creator') + balanceOf('opponent') + balanceOf(HOUSE)).toBe(BigInt(0));
+  });
+
+  it('returns the rake when the match is voided and both stakes refunded', async () => {
+    seedDisputedSettlement();
+
+    await manualSettleMatch(PARAMS);
+
+    expect(balanceOf('creator')).toBe(BigInt(0));
+    expect(balanceOf('opponent')).toBe(BigInt(0));
+    expect(balanceOf(HOUSE)).toBe(BigInt(0));
+  });
+});
+
+// ===========================================
+// First-Time Manual Settlement
+// ===========================================
+
+describe('manualSettleMatch - unsettled match', () => {
+  it('reverses nothing when no rake was collected yet', async () => {
+    mocks.matchFindUnique.mockResolvedValue(createMatch({ status: 'active', winnerId: null }));
+    post('creator', 'MATCH_ENTRY', -STAKE);
+    post('opponent', 'MATCH_ENTRY', -STAKE);
+
+    await manualSettleMatch({ ...PARAMS, action: 'force_settle', winnerId: 'creator' });
+
+    expect(mocks.postHouseEntry).not.toHaveBeenCalled();
+    expect(balanceOf('creator')).toBe(PAYOUT - STAKE);
+    expect(balanceOf(HOUSE)).toBe(RAKE);
+  });
+});
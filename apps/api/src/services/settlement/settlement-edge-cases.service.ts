@@ -15,7 +15,8 @@
 import { Prisma, AdminRole, MatchStatus } from '@prisma/client';
 import { prisma } from '../../lib/prisma';
 import { logger } from '../../utils/logger';
-import { creditWallet } from '../../lib/wallet.service';
+import { creditWallet, postHouseEntry, HOUSE_USER_ID } from '../../lib/wallet.service';
+import { recordAdminAction, AdminActionContext } from '../admin-audit.service';
 import {
   BadRequestError,
   NotFoundError,
@@ -36,7 +37,9 @@ import {
   SETTLEMENT_EDGE_CASE_CONSTANTS,
   generateVoidMatchRefundKey,
   generateManualPayoutKey,
+  generateManualRakeKey,
   generateManualRefundKey,
+  generateRakeReversalKey,
 } from './settlement-edge-cases.types';
 
 // ===========================================
@@ -69,11 +72,13 @@ const {
  *
  * @param eventId - The cancelled event ID
  * @param reason - Cancellation reason
+ * @param admin - Requesting admin, when cancelled manually (audited)
  * @returns Array of affected match results
  */
 export async function handleCancelledEvent(
   eventId: string,
-  reason: string
+  reason: string,
+  admin?: AdminActionContext
 ): Promise<CancelledGameResult[]> {
   logger.info(`[EdgeCases] Handling cancelled event ${eventId}: ${reason}`);
 
@@ -106,6 +111,21 @@ export async function handleCancelledEvent(
         },
       });
 
+      if (admin) {
+        await recordAdminAction(
+          {
+            ...admin,
+            action: 'EVENT_CANCELLED',
+            targetType: 'event',
+            targetId: eventId,
+            previousState: { status: event.status },
+            newState: { status: 'CANCELED' },
+            reason,
+          },
+          tx
+        );
+      }
+
       // Find all picks for this event that aren't already settled
       const affectedPicks = await tx.slipPick.findMany({
         where: {
@@ -838,6 +858,11 @@ export async function manualSettleMatch(
     reason,
   });
 
+  const previousMatch = await prisma.match.findUnique({
+    where: { id: matchId },
+    select: { status: true, winnerId: true },
+  });
+
   let auditLogId: string;
   let refunded = false;
   let finalStatus: string;
@@ -862,7 +887,7 @@ export async function manualSettleMatch(
         userAgent
       );
       auditLogId = result.auditLogId;
-      transactionIds = [result.payoutTxId];
+      transactionIds = [result.payoutTxId, ...(result.rakeTxId ? [result.rakeTxId] : [])];
       finalStatus = 'settled';
       break;
     }
@@ -896,7 +921,7 @@ export async function manualSettleMatch(
           userAgent
         );
         auditLogId = result.auditLogId;
-        transactionIds = [result.payoutTxId];
+        transactionIds = [result.payoutTxId, ...(result.rakeTxId ? [result.rakeTxId] : [])];
         finalStatus = 'settled';
       } else {
         const result = await voidAndRefundMatch(
@@ -923,6 +948,19 @@ export async function manualSettleMatch(
     }
   }
 
+  await recordAdminAction({
+    adminId,
+    action: 'MANUAL_SETTLEMENT',
+    targetType: 'match',
+    targetId: matchId,
+    previousState: previousMatch ? { ...previousMatch } : null,
+    newState: { status: finalStatus, winnerId: winnerId || null, refunded },
+    reason,
+    metadata: { settlementAction: action, matchAuditLogId: auditLogId, transactionIds, ...metadata },
+    ipAddress,
+    userAgent,
+  });
+
   return {
     matchId,
     action,
@@ -936,6 +974,41 @@ export async function manualSettleMatch(
   };
 }
 
+/**
+ * Internal: Reverse the rake the house already collected for a match
+ * that is being re-settled (e.g. an upheld dispute). Dispute holds only
+ * take back the net payout, so without this the house would keep the
+ * original rake on top of whatever the new settlement pays out.
+ * A no-op for matches that never paid rake.
+ */
+async function reverseCollectedRake(
+  tx: Prisma.TransactionClient,
+  matchId: string,
+  version: number,
+  reason: string
+): Promise<void> {
+  const collected = await tx.transaction.aggregate({
+    where: { userId: HOUSE_USER_ID, matchId, type: 'RAKE_FEE', status: 'completed' },
+    _sum: { amount: true },
+  });
+  const rakeAmount = collected._sum.amount ?? BigInt(0);
+
+  if (rakeAmount <= BigInt(0)) {
+    return;
+  }
+
+  await postHouseEntry(tx, {
+    amount: rakeAmount,
+    direction: 'debit',
+    type: 'RAKE_FEE',
+    idempotencyKey: generateRakeReversalKey(matchId, version),
+    matchId,
+    description: `Manual settlement: Match ${matchId} rake reversed - ${reason}`,
+  });
+
+  logger.warn(`[EdgeCases] Reversed ${rakeAmount} rake on match ${matchId} before re-settling`);
+}
+
 /**
  * Internal: Force settle with specific winner.
  */
@@ -1014,6 +1087,9 @@ async function forceSettleMatch(
         );
       }
 
+      // The rake below is collected again on the new settlement
+      await reverseCollectedRake(tx, matchId, match.version, reason);
+
       // Update slips
       if (match.creatorSlip) {
         await tx.slip.update({
@@ -1077,11 +1153,31 @@ async function forceSettleMatch(
     description: `Manual settlement: Match ${matchId} - ${reason}`,
   });
 
+  // Collect the rake into the house wallet
+  let rakeTxId: string | null = null;
+  if (rakeAmount > BigInt(0)) {
+    const rakeTx = await creditWallet({
+      userId: HOUSE_USER_ID,
+      amount: rakeAmount,
+      type: 'RAKE_FEE',
+      matchId,
+      idempotencyKey: generateManualRakeKey(matchId),
+      description: `Manual settlement: Match ${matchId} rake`,
+    });
+    rakeTxId = rakeTx.id;
+
+    await prisma.match.update({
+      where: { id: matchId },
+      data: { rakeTxId },
+    });
+  }
+
   logger.warn(`[EdgeCases] Force settled match ${matchId} with winner ${winnerId}`);
 
   return {
     auditLogId,
     payoutTxId: payoutTx.id,
+    rakeTxId,
     winnerPayout,
     rakeAmount,
   };
@@ -1141,6 +1237,9 @@ async function voidAndRefundMatch(
         );
       }
 
+      // Both full stakes are refunded below, so the house gives its rake back
+      await reverseCollectedRake(tx, matchId, match.version, reason);
+
       // Create audit log
       const auditLog = await tx.matchAuditLog.create({
         data: {
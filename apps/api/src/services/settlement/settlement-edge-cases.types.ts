@@ -77,6 +77,7 @@ export interface ManualSettlementResult {
 export interface ForceSettleResult {
   auditLogId: string;
   payoutTxId: string;
+  rakeTxId: string | null;
   winnerPayout: bigint;
   rakeAmount: bigint;
 }
@@ -87,6 +88,72 @@ export interface VoidAndRefundResult {
   totalRefunded: bigint;
 }
 
+// =====================================================
+// Dispute Types
+// =====================================================
+
+export type DisputeType = 'scoring' | 'timing' | 'fraud' | 'other';
+
+export type DisputeStatus = 'pending' | 'reviewing' | 'resolved' | 'rejected';
+
+/**
+ * upheld  - filer was right; match re-settled (winnerId) or voided
+ * partial - grading corrected but outcome handled the same as upheld
+ * rejected - original result stands; held payouts are released
+ */
+export type DisputeResolutionType = 'upheld' | 'rejected' | 'partial';
+
+export interface DisputeEvidenceItem {
+  type: 'text' | 'url' | 'screenshot';
+  value: string;
+  description?: string;
+}
+
+export interface FileDisputeParams {
+  matchId: string;
+  userId: string;
+  disputeType: DisputeType;
+  description: string;
+  evidence?: DisputeEvidenceItem[];
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AssignDisputeParams {
+  disputeId: string;
+  adminId: string;
+  assigneeId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ResolveDisputeParams {
+  disputeId: string;
+  adminId: string;
+  resolutionType: DisputeResolutionType;
+  winnerId?: string | null;
+  resolution: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface DisputePayoutHold {
+  userId: string;
+  transactionId: string | null;
+  requestedAmount: bigint;
+  heldAmount: bigint;
+}
+
+export interface ResolveDisputeResult {
+  disputeId: string;
+  matchId: string;
+  status: DisputeStatus;
+  resolutionType: DisputeResolutionType;
+  matchStatus: string;
+  settlement: ManualSettlementResult | null;
+  releaseTransactionIds: string[];
+}
+
 // =====================================================
 // Settlement Eligibility Types
 // =====================================================
@@ -131,7 +198,9 @@ export type IdempotencyKeyType =
   | 'manual_payout'
   | 'manual_refund'
   | 'draw_refund'
-  | 'settlement_payout';
+  | 'settlement_payout'
+  | 'dispute_hold'
+  | 'dispute_release';
 
 // =====================================================
 // Admin Permission Types
@@ -206,6 +275,18 @@ export const SETTLEMENT_EDGE_CASE_CONSTANTS = {
 
   // High-value match threshold in cents ($1000)
   HIGH_VALUE_MATCH_THRESHOLD: 100000,
+
+  // Window after settlement during which participants can file a dispute (48 hours)
+  DISPUTE_WINDOW_MS: 48 * 60 * 60 * 1000,
+
+  // Minimum description length for a filed dispute
+  MIN_DISPUTE_DESCRIPTION_LENGTH: 10,
+
+  // Maximum description length for a filed dispute
+  MAX_DISPUTE_DESCRIPTION_LENGTH: 2000,
+
+  // Maximum evidence items per dispute
+  MAX_DISPUTE_EVIDENCE_ITEMS: 10,
 } as const;
 
 // =====================================================
@@ -236,6 +317,25 @@ export function generateManualPayoutKey(matchId: string, userId: string): string
   return `manual:${matchId}:payout:${userId}`;
 }
 
+/**
+ * Generates deterministic idempotency key for the house rake credit of a
+ * manual settlement.
+ * Format: manual:{matchId}:rake
+ */
+export function generateManualRakeKey(matchId: string): string {
+  return `manual:${matchId}:rake`;
+}
+
+/**
+ * Generates deterministic idempotency key for reversing the rake already
+ * collected on a match that is being re-settled. The match version keeps
+ * each re-settlement's reversal distinct.
+ * Format: manual:{matchId}:rake-reversal:{version}
+ */
+export function generateRakeReversalKey(matchId: string, version: number): string {
+  return `manual:${matchId}:rake-reversal:${version}`;
+}
+
 /**
  * Generates deterministic idempotency key for manual refunds.
  * Format: manual:{matchId}:refund:{userId}
@@ -243,3 +343,33 @@ export function generateManualPayoutKey(matchId: string, userId: string): string
 export function generateManualRefundKey(matchId: string, userId: string): string {
   return `manual:${matchId}:refund:${userId}`;
 }
+
+/**
+ * Generates deterministic idempotency key for dispute payout holds.
+ * Format: dispute:{disputeId}:hold:{userId}
+ */
+export function generateDisputeHoldKey(disputeId: string, userId: string): string {
+  return `dispute:${disputeId}:hold:${userId}`;
+}
+
+/**
+ * Generates idempotency key for re-holding proceeds the first hold missed.
+ * Keyed by the outstanding amount, so each collection attempt is distinct
+ * but a retried attempt is not. Shares the hold prefix so rejection releases it.
+ * Format: dispute:{disputeId}:hold:{userId}:shortfall:{outstanding}
+ */
+export function generateDisputeShortfallHoldKey(
+  disputeId: string,
+  userId: string,
+  outstanding: bigint
+): string {
+  return `${generateDisputeHoldKey(disputeId, userId)}:shortfall:${outstanding}`;
+}
+
+/**
+ * Generates deterministic idempotency key for releasing a dispute hold.
+ * Format: dispute:{disputeId}:release:{userId}
+ */
+export function generateDisputeReleaseKey(disputeId: string, userId: string): string {
+  return `dispute:${disputeId}:release:${userId}`;
+}
@@ -22,10 +22,11 @@ import {
   ConflictError,
 } from '../../utils/errors';
 import { ERROR_CODES } from '@pick-rivals/shared-types';
-import { creditWallet, bigIntToNumber } from '../../lib/wallet.service';
+import { creditWallet, bigIntToNumber, HOUSE_USER_ID } from '../../lib/wallet.service';
 import { invalidateUserTierCache } from '../../lib/tier.service';
 
 import { determinePickResult } from './pick-result';
+import { isBoxScoreOverdue } from './prop-result';
 import { calculateSlipScore, PickForScoring, summarizePickResults } from './slip-scorer';
 import {
   determineMatchWinner,
@@ -37,17 +38,20 @@ import {
   SlipScoreResult,
   PickResultInput,
   EventScores,
+  PlayerBoxScoreStats,
   FINAL_EVENT_STATUSES,
 } from './settlement.types';
-import { updateLeaderboardEntries } from '../../modules/leaderboard/leaderboard.service';
+import {
+  updateLeaderboardEntries,
+  resolveMatchSport,
+} from '../../modules/leaderboard/leaderboard.service';
+import { advanceTournament } from '../../modules/tournaments/tournaments.service';
 
 // ===========================================
 // Constants
 // ===========================================
 
 const TRANSACTION_TIMEOUT = 30000; // 30 seconds for settlement transaction
-// Note: HOUSE_USER_ID will be defined when house wallet is implemented
-// const HOUSE_USER_ID = 'HOUSE'; // Special user ID for rake collection
 
 // ===========================================
 // Helper Functions
@@ -233,9 +237,20 @@ async function fetchMatchForSettlement(matchId: string) {
               event: {
                 select: {
                   id: true,
+                  sport: true,
                   homeScore: true,
                   awayScore: true,
                   status: true,
+                  scheduledAt: true,
+                  endedAt: true,
+                  playerStats: {
+                    select: {
+                      playerId: true,
+                      playerName: true,
+                      didPlay: true,
+                      stats: true,
+                    },
+                  },
                 },
               },
             },
@@ -249,9 +264,20 @@ async function fetchMatchForSettlement(matchId: string) {
               event: {
                 select: {
                   id: true,
+                  sport: true,
                   homeScore: true,
                   awayScore: true,
                   status: true,
+                  scheduledAt: true,
+                  endedAt: true,
+                  playerStats: {
+                    select: {
+                      playerId: true,
+                      playerName: true,
+                      didPlay: true,
+                      stats: true,
+                    },
+                  },
                 },
               },
             },
@@ -341,11 +367,23 @@ function processSlip(
     selection: string;
     line: any;
     pointValue: any;
+    propType: string | null;
+    propPlayerId: string | null;
+    propPlayerName: string | null;
     event: {
       id: string;
+      sport: string;
       homeScore: number | null;
       awayScore: number | null;
       status: string;
+      scheduledAt: Date;
+      endedAt: Date | null;
+      playerStats: Array<{
+        playerId: string;
+        playerName: string;
+        didPlay: boolean;
+        stats: Prisma.JsonValue;
+      }>;
     };
   }>
 ): SlipScoreResult {
@@ -357,6 +395,9 @@ function processSlip(
       selection: pick.selection,
       line: pick.line !== null ? decimalToNumber(pick.line) : null,
       pointValue: decimalToNumber(pick.pointValue),
+      propType: pick.propType,
+      propPlayerId: pick.propPlayerId,
+      propPlayerName: pick.propPlayerName,
     };
 
     const eventScores: EventScores = {
@@ -364,6 +405,14 @@ function processSlip(
       homeScore: pick.event.homeScore,
       awayScore: pick.event.awayScore,
       status: pick.event.status,
+      sport: pick.event.sport,
+      playerStats: pick.event.playerStats.map((line) => ({
+        playerId: line.playerId,
+        playerName: line.playerName,
+        didPlay: line.didPlay,
+        stats: (line.stats ?? {}) as PlayerBoxScoreStats,
+      })),
+      boxScoreOverdue: isBoxScoreOverdue(pick.event),
     };
 
     const result = determinePickResult(pickInput, eventScores);
@@ -581,7 +630,13 @@ export async function settleMatch(matchId: string): Promise<SettlementResult> {
         winnerResult.winnerId,
         winnerResult.isDraw,
         creatorScore.pointsEarned,
-        opponentScore.pointsEarned
+        opponentScore.pointsEarned,
+        {
+          sport: resolveMatchSport(
+            [...creatorSlip.picks, ...opponentSlip.picks].map((pick) => pick.event.sport)
+          ),
+          seasonId: match!.seasonId,
+        }
       );
 
       // =====================================================
@@ -617,7 +672,11 @@ export async function settleMatch(matchId: string): Promise<SettlementResult> {
   // to avoid long-running transaction issues with wallet service
   // Each financial operation has its own idempotency key
 
-  if (winnerResult.isDraw) {
+  if (match!.stakeAmount === BigInt(0)) {
+    // Nothing staked on the match itself (tournament bracket matches
+    // pay out of the tournament prize pool instead)
+    logger.info(`[Settlement] Match ${matchId} has no stake - skipping payouts`);
+  } else if (winnerResult.isDraw) {
     // Draw: Refund both players
     logger.info(`[Settlement] Processing draw refunds for match ${matchId}`);
 
@@ -672,31 +731,26 @@ export async function settleMatch(matchId: string): Promise<SettlementResult> {
       throw error;
     }
 
-    // Rake collection (if rake > 0)
+    // Rake collection (if rake > 0) into the house wallet
     if (amounts.rakeAmount > BigInt(0)) {
-      // =====================================================
-      // TODO: HOUSE WALLET IMPLEMENTATION
-      // =====================================================
-      // When a house wallet is implemented:
-      // 1. Create a "HOUSE" or "SYSTEM" user with a wallet
-      // 2. Uncomment and use the creditWallet call below
-      // 3. Track rake in both Transaction table and MatchAuditLog
-      //
-      // const rakeTransaction = await creditWallet({
-      //   userId: HOUSE_USER_ID,
-      //   amount: amounts.rakeAmount,
-      //   type: 'RAKE_FEE',
-      //   matchId,
-      //   idempotencyKey: generateIdempotencyKey(matchId, 'rake'),
-      //   description: `Match ${matchId} rake`,
-      // });
-      // rakeTxId = rakeTransaction.id;
-      // =====================================================
-
-      logger.info(
-        `[Settlement] Rake collected: ${bigIntToNumber(amounts.rakeAmount)} cents for match ${matchId}. ` +
-          `(Recorded on Match.rakeAmount - house wallet not yet implemented)`
-      );
+      try {
+        const rakeTransaction = await creditWallet({
+          userId: HOUSE_USER_ID,
+          amount: amounts.rakeAmount,
+          type: 'RAKE_FEE',
+          matchId,
+          idempotencyKey: generateIdempotencyKey(matchId, 'rake'),
+          description: `Match ${matchId} rake`,
+        });
+        rakeTxId = rakeTransaction.id;
+        logger.info(
+          `[Settlement] Rake collected: ${bigIntToNumber(amounts.rakeAmount)} cents for match ${matchId} ` +
+            `(${rakeTransaction.id})`
+        );
+      } catch (error) {
+        logger.error(`[Settlement] Rake collection failed:`, error);
+        throw error;
+      }
     }
   }
 
@@ -738,6 +792,19 @@ export async function settleMatch(matchId: string): Promise<SettlementResult> {
     }
   });
 
+  // Tournament bracket matches: move the winner on. The tournament
+  // scheduler retries this, so a failure must not fail the settlement.
+  if (match!.tournamentId) {
+    try {
+      await advanceTournament(match!.tournamentId);
+    } catch (error) {
+      logger.error(
+        `[Settlement] Failed to advance tournament ${match!.tournamentId} after match ${matchId}:`,
+        error
+      );
+    }
+  }
+
   logger.info(`[Settlement] Match ${matchId} settlement completed successfully`);
 
   return {
@@ -819,6 +886,24 @@ export async function checkSettlementReadiness(matchId: string): Promise<{
     };
   }
 
+  // Prop picks can't be graded until the event's box score is ingested.
+  // Past the deadline they settle as VOID instead of holding the match open.
+  const awaitingBoxScore = allPicks.filter(
+    (pick) =>
+      pick.pickType === 'prop' &&
+      pick.event.playerStats.length === 0 &&
+      !isBoxScoreOverdue(pick.event)
+  ).length;
+
+  if (awaitingBoxScore > 0) {
+    return {
+      isReady: false,
+      reason: `${awaitingBoxScore} prop picks awaiting box score`,
+      pendingEvents: 0,
+      totalEvents,
+    };
+  }
+
   return {
     isReady: true,
     reason: 'Match is ready for settlement',
@@ -9,7 +9,13 @@ import { describe, it, expect } from 'vitest';
 import { determinePickResult } from './pick-result';
 import { calculateSlipScore, PickForScoring } from './slip-scorer';
 import { determineMatchWinner, calculateSettlementAmounts } from './match-winner';
-import { PickResultInput, EventScores, SlipScoreResult } from './settlement.types';
+import { isBoxScoreOverdue } from './prop-result';
+import {
+  PickResultInput,
+  EventScores,
+  SlipScoreResult,
+  PlayerStatLine,
+} from './settlement.types';
 
 // ===========================================
 // Test Helpers
@@ -103,6 +109,44 @@ describe('determinePickResult', () => {
       expect(result.status).toBe('PUSH');
       expect(result.reason).toContain('tie');
     });
+
+    it('should return HIT when draw is selected and a soccer match ends level', () => {
+      const pick = createPickInput({ pickType: 'moneyline', selection: 'draw' });
+      const event = createEventScores({ homeScore: 1, awayScore: 1, sport: 'SOCCER' });
+
+      const result = determinePickResult(pick, event);
+
+      expect(result.status).toBe('HIT');
+      expect(result.reason).toContain('Match drawn');
+    });
+
+    it('should return MISS when draw is selected and a soccer match has a winner', () => {
+      const pick = createPickInput({ pickType: 'moneyline', selection: 'draw' });
+      const event = createEventScores({ homeScore: 2, awayScore: 1, sport: 'SOCCER' });
+
+      const result = determinePickResult(pick, event);
+
+      expect(result.status).toBe('MISS');
+    });
+
+    it('should return MISS for a side selection when a soccer match ends level', () => {
+      const pick = createPickInput({ pickType: 'moneyline', selection: 'home' });
+      const event = createEventScores({ homeScore: 0, awayScore: 0, sport: 'SOCCER' });
+
+      const result = determinePickResult(pick, event);
+
+      expect(result.status).toBe('MISS');
+      expect(result.reason).toContain('Match drawn');
+    });
+
+    it('should return VOID when draw is selected on a two-way moneyline', () => {
+      const pick = createPickInput({ pickType: 'moneyline', selection: 'draw' });
+      const event = createEventScores({ homeScore: 100, awayScore: 100, sport: 'NBA' });
+
+      const result = determinePickResult(pick, event);
+
+      expect(result.status).toBe('VOID');
+    });
   });
 
   describe('Spread', () => {
@@ -303,6 +347,209 @@ describe('determinePickResult', () => {
       expect(result.status).toBe('PENDING');
     });
   });
+
+  describe('Player Props', () => {
+    const boxScore: PlayerStatLine[] = [
+      {
+        playerId: 'lebron_james',
+        playerName: 'LeBron James',
+        didPlay: true,
+        stats: { points: 28, rebounds: 7, assists: 9, threePointersMade: 2 },
+      },
+      {
+        playerId: 'nfl-123',
+        playerName: 'Christian McCaffrey',
+        didPlay: true,
+        stats: { rushingYards: 104, receivingYards: 31, receptions: 4, receivingTouchdowns: 1 },
+      },
+      {
+        playerId: 'kevin_durant',
+        playerName: 'Kevin Durant',
+        didPlay: false,
+        stats: {},
+      },
+    ];
+
+    function createPropPick(overrides: Partial<PickResultInput> = {}): PickResultInput {
+      return createPickInput({
+        pickType: 'prop',
+        selection: 'over',
+        line: 25.5,
+        propType: 'player_points',
+        propPlayerId: 'lebron_james',
+        propPlayerName: 'LeBron James',
+        ...overrides,
+      });
+    }
+
+    it('should return HIT with stat as resultValue when over clears the line', () => {
+      const result = determinePickResult(
+        createPropPick(),
+        createEventScores({ playerStats: boxScore })
+      );
+
+      expect(result.status).toBe('HIT');
+      expect(result.resultValue).toBe(28);
+    });
+
+    it('should return MISS for under when stat exceeds the line', () => {
+      const result = determinePickResult(
+        createPropPick({ selection: 'under' }),
+        createEventScores({ playerStats: boxScore })
+      );
+
+      expect(result.status).toBe('MISS');
+      expect(result.resultValue).toBe(28);
+    });
+
+    it('should return PUSH when stat equals the line', () => {
+      const result = determinePickResult(
+        createPropPick({ propType: 'player_rebounds', line: 7 }),
+        createEventScores({ playerStats: boxScore })
+      );
+
+      expect(result.status).toBe('PUSH');
+      expect(result.resultValue).toBe(7);
+    });
+
+    it('should sum points, rebounds and assists for PRA props', () => {
+      const result = determinePickResult(
+        createPropPick({ propType: 'player_points_rebounds_assists', line: 43.5 }),
+        createEventScores({ playerStats: boxScore })
+      );
+
+      expect(result.status).toBe('HIT');
+      expect(result.resultValue).toBe(44);
+    });
+
+    it('should match players by name when IDs differ between feeds', () => {
+      const result = determinePickResult(
+        createPropPick({
+          propType: 'player_rush_yds',
+          line: 89.5,
+          propPlayerId: 'christian_mccaffrey',
+          propPlayerName: 'Christian McCaffrey',
+        }),
+        createEventScores({ playerStats: boxScore })
+      );
+
+      expect(result.status).toBe('HIT');
+      expect(result.resultValue).toBe(104);
+    });
+
+    it('should grade anytime TD yes picks with a default 0.5 line', () => {
+      const result = determinePickResult(
+        createPropPick({
+          propType: 'player_anytime_td',
+          selection: 'yes',
+          line: null,
+          propPlayerId: 'nfl-123',
+          propPlayerName: 'Christian McCaffrey',
+        }),
+        createEventScores({ playerStats: boxScore })
+      );
+
+      expect(result.status).toBe('HIT');
+      expect(result.resultValue).toBe(1);
+    });
+
+    it('should treat missing stat columns as zero for players who played', () => {
+      const result = determinePickResult(
+        createPropPick({
+          propType: 'player_pass_yds',
+          selection: 'under',
+          line: 0.5,
+          propPlayerId: 'nfl-123',
+        }),
+        createEventScores({ playerStats: boxScore })
+      );
+
+      expect(result.status).toBe('HIT');
+      expect(result.resultValue).toBe(0);
+    });
+
+    it('should return VOID when player did not play', () => {
+      const result = determinePickResult(
+        createPropPick({ propPlayerId: 'kevin_durant', propPlayerName: 'Kevin Durant' }),
+        createEventScores({ playerStats: boxScore })
+      );
+
+      expect(result.status).toBe('VOID');
+      expect(result.reason).toContain('did not play');
+    });
+
+    it('should return VOID when player is missing from the box score', () => {
+      const result = determinePickResult(
+        createPropPick({ propPlayerId: 'stephen_curry', propPlayerName: 'Stephen Curry' }),
+        createEventScores({ playerStats: boxScore })
+      );
+
+      expect(result.status).toBe('VOID');
+      expect(result.reason).toContain('not found in box score');
+    });
+
+    it('should return PENDING when no box score has been ingested', () => {
+      const result = determinePickResult(createPropPick(), createEventScores());
+
+      expect(result.status).toBe('PENDING');
+      expect(result.reason).toContain('box score');
+    });
+
+    it('should return VOID when the box score deadline passed without one', () => {
+      const result = determinePickResult(
+        createPropPick(),
+        createEventScores({ boxScoreOverdue: true })
+      );
+
+      expect(result.status).toBe('VOID');
+      expect(result.reason).toContain('deadline');
+    });
+
+    it('should still grade a late box score that arrived after the deadline', () => {
+      const result = determinePickResult(
+        createPropPick(),
+        createEventScores({ playerStats: boxScore, boxScoreOverdue: true })
+      );
+
+      expect(result.status).toBe('HIT');
+    });
+
+    it('should return VOID for unsupported prop types', () => {
+      const result = determinePickResult(
+        createPropPick({ propType: 'player_blocks' }),
+        createEventScores({ playerStats: boxScore })
+      );
+
+      expect(result.status).toBe('VOID');
+      expect(result.reason).toContain('Unsupported prop type');
+    });
+
+    it('should return VOID when line is missing for over/under props', () => {
+      const result = determinePickResult(
+        createPropPick({ line: null }),
+        createEventScores({ playerStats: boxScore })
+      );
+
+      expect(result.status).toBe('VOID');
+      expect(result.reason).toContain('missing line');
+    });
+  });
+});
+
+describe('isBoxScoreOverdue', () => {
+  const endedAt = new Date('2026-03-01T03:00:00.000Z');
+  const scheduledAt = new Date('2026-03-01T00:00:00.000Z');
+
+  it('waits six hours after the event ends', () => {
+    expect(isBoxScoreOverdue({ endedAt, scheduledAt }, new Date('2026-03-01T09:00:00.000Z'))).toBe(false);
+    expect(isBoxScoreOverdue({ endedAt, scheduledAt }, new Date('2026-03-01T09:00:01.000Z'))).toBe(true);
+  });
+
+  it('falls back to the scheduled start when no end time was recorded', () => {
+    expect(
+      isBoxScoreOverdue({ endedAt: null, scheduledAt }, new Date('2026-03-01T06:00:01.000Z'))
+    ).toBe(true);
+  });
 });
 
 // ===========================================
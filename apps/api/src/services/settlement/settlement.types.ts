@@ -17,9 +17,44 @@ import { PickType, PickStatus, SlipStatus, MatchStatus } from '@prisma/client';
 export interface PickResultInput {
   id: string;
   pickType: PickType;
-  selection: string;        // 'home', 'away', 'over', 'under'
+  selection: string;        // 'home', 'away', 'draw', 'over', 'under'
   line: number | null;      // Spread or total line (e.g., -7.5, 215.5)
   pointValue: number;       // Points this pick is worth if HIT
+  propType?: string | null;       // Prop market (e.g., 'player_points'), prop picks only
+  propPlayerId?: string | null;   // External player ID, prop picks only
+  propPlayerName?: string | null; // Player display name, prop picks only
+}
+
+/**
+ * Normalized player box score stats.
+ * Keys are optional because providers only report the columns relevant
+ * to the sport (and often omit zero values).
+ */
+export interface PlayerBoxScoreStats {
+  // Basketball
+  points?: number;
+  rebounds?: number;
+  assists?: number;
+  threePointersMade?: number;
+  // Football
+  passingYards?: number;
+  passingTouchdowns?: number;
+  rushingYards?: number;
+  rushingTouchdowns?: number;
+  receptions?: number;
+  receivingYards?: number;
+  receivingTouchdowns?: number;
+  otherTouchdowns?: number; // Return / defensive touchdowns (count for anytime TD)
+}
+
+/**
+ * A single player's stat line for an event.
+ */
+export interface PlayerStatLine {
+  playerId: string;
+  playerName: string;
+  didPlay: boolean;
+  stats: PlayerBoxScoreStats;
 }
 
 /**
@@ -31,6 +66,9 @@ export interface EventScores {
   homeScore: number | null;
   awayScore: number | null;
   status: string;           // 'final', 'cancelled', 'postponed', etc.
+  sport?: string;           // SportType - decides two-way vs three-way moneyline grading
+  playerStats?: PlayerStatLine[]; // Ingested box score (required to grade props)
+  boxScoreOverdue?: boolean; // No box score by BOX_SCORE_DEADLINE_MS - props void
 }
 
 /**
@@ -142,8 +180,12 @@ export interface PickForSettlement {
   line: number | null;
   pointValue: number;
   status: PickStatus;
+  propType: string | null;
+  propPlayerId: string | null;
+  propPlayerName: string | null;
   event: {
     id: string;
+    sport: string;
     homeScore: number | null;
     awayScore: number | null;
     status: string;
@@ -181,6 +223,17 @@ export const HOME_SELECTIONS = ['home', 'HOME', 'h', 'H'] as const;
  */
 export const AWAY_SELECTIONS = ['away', 'AWAY', 'a', 'A'] as const;
 
+/**
+ * Selection values for draw picks (three-way moneyline only).
+ */
+export const DRAW_SELECTIONS = ['draw', 'DRAW', 'x', 'X', 'tie', 'TIE'] as const;
+
+/**
+ * Sports whose moneyline is a three-way market (home / draw / away).
+ * A level result grades home and away picks as MISS rather than PUSH.
+ */
+export const THREE_WAY_MONEYLINE_SPORTS = ['SOCCER'] as const;
+
 /**
  * Selection values for over picks.
  */
@@ -190,3 +243,23 @@ export const OVER_SELECTIONS = ['over', 'OVER', 'o', 'O'] as const;
  * Selection values for under picks.
  */
 export const UNDER_SELECTIONS = ['under', 'UNDER', 'u', 'U'] as const;
+
+/**
+ * Selection values for yes/no props (e.g., anytime touchdown).
+ * 'yes' grades like over, 'no' grades like under.
+ */
+export const YES_SELECTIONS = ['yes', 'YES', 'y', 'Y'] as const;
+export const NO_SELECTIONS = ['no', 'NO', 'n', 'N'] as const;
+
+/**
+ * Default line for yes/no props when none was stored with the pick.
+ * Anytime TD "yes" means at least one touchdown, i.e. over 0.5.
+ */
+export const DEFAULT_YES_NO_PROP_LINE = 0.5;
+
+/**
+ * How long after an event ends prop picks wait for its box score.
+ * Past this, props still missing a box score are voided so the match
+ * can settle instead of holding stakes indefinitely.
+ */
+export const BOX_SCORE_DEADLINE_MS = 6 * 60 * 60 * 1000;
@@ -0,0 +1,350 @@
+// =====================================================
+// Skill Rating Service Tests
+// =====================================================
+// Covers the Elo update, rating-weighted rank points with per-tier caps,
+// rating a settled match exactly once, and the offline simulation.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  matchFindUnique: vi.fn(),
+  matchFindUniqueOrThrow: vi.fn(),
+  matchUpdateMany: vi.fn(),
+  userFindMany: vi.fn(),
+  userUpdate: vi.fn(),
+}));
+
+vi.mock('../lib/prisma', () => {
+  const tx = {
+    match: {
+      findUnique: mocks.matchFindUnique,
+      findUniqueOrThrow: mocks.matchFindUniqueOrThrow,
+      updateMany: mocks.matchUpdateMany,
+    },
+    user: { findMany: mocks.userFindMany, update: mocks.userUpdate },
+  };
+
+  return {
+    prisma: {
+      ...tx,
+      $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+import {
+  applyMatchRatings,
+  calculateExpectedScore,
+  calculateMatchMargin,
+  calculateNewRating,
+  calculateRankPointChange,
+  DEFAULT_RATING_MODEL,
+  simulateRatingModel,
+  type SimulationMatch,
+} from './skill-rating.service';
+import { BadRequestError } from '../utils/errors';
+
+// ===========================================
+// Fixtures
+// ===========================================
+
+function createMatch(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'match-1',
+    status: 'settled',
+    creatorId: 'creator',
+    opponentId: 'opponent',
+    winnerId: 'creator',
+    isDraw: false,
+    creatorPoints: 30,
+    opponentPoints: 10,
+    ...overrides,
+  };
+}
+
+function createSimulationMatch(
+  id: number,
+  winnerId: string | null,
+  overrides: Partial<SimulationMatch> = {}
+): SimulationMatch {
+  return {
+    id: `match-${id}`,
+    seasonId: 'season-1',
+    creatorId: 'alice',
+    opponentId: 'bob',
+    winnerId,
+    isDraw: winnerId === null,
+    creatorPoints: 20,
+    opponentPoints: 10,
+    ...overrides,
+  };
+}
+
+async function expectError(promise: Promise<unknown>, errorClass: unknown) {
+  const error = await promise.catch((err) => err);
+  expect(error).toBeInstanceOf(errorClass);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mocks.matchFindUnique.mockResolvedValue(createMatch());
+  mocks.userFindMany.mockResolvedValue([
+    { id: 'creator', skillRating: 1000 },
+    { id: 'opponent', skillRating: 1400 },
+  ]);
+  mocks.matchUpdateMany.mockResolvedValue({ count: 1 });
+  mocks.matchFindUniqueOrThrow.mockImplementation(() => {
+    const { data } = mocks.matchUpdateMany.mock.calls[0][0];
+    return Promise.resolve(data);
+  });
+});
+
+// ===========================================
+// Rating Calculation
+// ===========================================
+
+describe('calculateExpectedScore / calculateNewRating', () => {
+  it('treats equal ratings as a coin flip', () => {
+    expect(calculateExpectedScore(1000, 1000)).toBe(0.5);
+    expect(calculateNewRating(1000, 1000, 'WIN')).toBe(1016);
+    expect(calculateNewRating(1000, 1000, 'LOSS')).toBe(984);
+    expect(calculateNewRating(1000, 1000, 'DRAW')).toBe(1000);
+  });
+
+  it('moves ratings further for upsets', () => {
+    expect(calculateExpectedScore(1400, 1000)).toBeCloseTo(0.909, 3);
+    expect(calculateNewRating(1000, 1400, 'WIN')).toBe(1029);
+    expect(calculateNewRating(1400, 1000, 'WIN')).toBe(1403);
+  });
+
+  it('never drops below the rating floor', () => {
+    expect(calculateNewRating(100, 100, 'LOSS')).toBe(DEFAULT_RATING_MODEL.ratingFloor);
+  });
+});
+
+describe('calculateMatchMargin', () => {
+  it('is the score gap relative to the higher score', () => {
+    expect(calculateMatchMargin(30, 10)).toBeCloseTo(0.667, 3);
+    expect(calculateMatchMargin(10, 30)).toBeCloseTo(0.667, 3);
+    expect(calculateMatchMargin(25, 0)).toBe(1);
+    expect(calculateMatchMargin(0, 0)).toBe(0);
+  });
+});
+
+// ===========================================
+// calculateRankPointChange
+// ===========================================
+
+describe('calculateRankPointChange', () => {
+  it('keeps the flat +25 / -20 for an even match', () => {
+    expect(calculateRankPointChange({ outcome: 'WIN', rank: 'SILVER_2' })).toEqual({
+      rpChange: 25,
+      capped: false,
+    });
+    expect(calculateRankPointChange({ outcome: 'LOSS', rank: 'SILVER_2' }).rpChange).toBe(-20);
+    expect(calculateRankPointChange({ outcome: 'DRAW', rank: 'SILVER_2' }).rpChange).toBe(0);
+  });
+
+  it('pays more for beating a stronger opponent and less for a weaker one', () => {
+    const upset = calculateRankPointChange({
+      outcome: 'WIN',
+      rank: 'SILVER_2',
+      rating: 1000,
+      opponentRating: 1600,
+    });
+    const stomp = calculateRankPointChange({
+      outcome: 'WIN',
+      rank: 'SILVER_2',
+      rating: 1400,
+      opponentRating: 1000,
+    });
+
+    expect(upset.rpChange).toBe(45); // 48 capped at SILVER's maximum gain
+    expect(upset.capped).toBe(true);
+    expect(stomp).toEqual({ rpChange: 10, capped: true }); // 5 raised to the minimum gain
+  });
+
+  it('costs less to lose to a stronger opponent', () => {
+    const result = calculateRankPointChange({
+      outcome: 'LOSS',
+      rank: 'GOLD_1',
+      rating: 1000,
+      opponentRating: 1400,
+    });
+
+    expect(result).toEqual({ rpChange: -10, capped: true }); // 4 raised to GOLD's minimum loss
+  });
+
+  it('scales with the margin', () => {
+    const even = calculateRankPointChange({ outcome: 'WIN', rank: 'GOLD_1', margin: 0 });
+    const blowout = calculateRankPointChange({ outcome: 'WIN', rank: 'GOLD_1', margin: 1 });
+
+    expect(even.rpChange).toBe(25);
+    expect(blowout.rpChange).toBe(31);
+  });
+
+  it('caps losses per tier so tanking is slow', () => {
+    const bronze = calculateRankPointChange({
+      outcome: 'LOSS',
+      rank: 'BRONZE_3',
+      rating: 1600,
+      opponentRating: 1000,
+      margin: 1,
+    });
+    const diamond = calculateRankPointChange({
+      outcome: 'LOSS',
+      rank: 'DIAMOND_1',
+      rating: 1600,
+      opponentRating: 1000,
+      margin: 1,
+    });
+
+    expect(bronze.rpChange).toBe(-20);
+    expect(diamond.rpChange).toBe(-40);
+  });
+
+  it('moves draws toward the underdog', () => {
+    const underdog = calculateRankPointChange({
+      outcome: 'DRAW',
+      rank: 'SILVER_2',
+      rating: 1000,
+      opponentRating: 1200,
+    });
+    const favourite = calculateRankPointChange({
+      outcome: 'DRAW',
+      rank: 'SILVER_2',
+      rating: 1200,
+      opponentRating: 1000,
+    });
+
+    expect(underdog.rpChange).toBe(13);
+    expect(favourite.rpChange).toBe(-10);
+  });
+
+  it('accepts a tuned model', () => {
+    const model = { ...DEFAULT_RATING_MODEL, winPoints: 30 };
+
+    expect(calculateRankPointChange({ outcome: 'WIN', rank: 'GOLD_1' }, model).rpChange).toBe(30);
+  });
+});
+
+// ===========================================
+// applyMatchRatings
+// ===========================================
+
+describe('applyMatchRatings', () => {
+  it('rates both players and returns the pre-match ratings', async () => {
+    const result = await applyMatchRatings('match-1');
+
+    expect(mocks.matchUpdateMany).toHaveBeenCalledWith({
+      where: { id: 'match-1', ratedAt: null },
+      data: expect.objectContaining({
+        creatorRatingBefore: 1000,
+        opponentRatingBefore: 1400,
+        creatorRatingChange: 29,
+        opponentRatingChange: -29,
+      }),
+    });
+    expect(mocks.userUpdate).toHaveBeenCalledWith({
+      where: { id: 'creator' },
+      data: { skillRating: { increment: 29 } },
+    });
+    expect(mocks.userUpdate).toHaveBeenCalledWith({
+      where: { id: 'opponent' },
+      data: { skillRating: { increment: -29 } },
+    });
+    expect(result).toEqual({
+      matchId: 'match-1',
+      ratingsBefore: { creator: 1000, opponent: 1400 },
+      ratingChanges: { creator: 29, opponent: -29 },
+      margin: expect.closeTo(0.667, 3),
+      applied: true,
+    });
+  });
+
+  it('returns the stored ratings when the match was already rated', async () => {
+    mocks.matchUpdateMany.mockResolvedValue({ count: 0 });
+    mocks.matchFindUniqueOrThrow.mockResolvedValue({
+      creatorRatingBefore: 990,
+      opponentRatingBefore: 1410,
+      creatorRatingChange: 29,
+      opponentRatingChange: -29,
+    });
+
+    const result = await applyMatchRatings('match-1');
+
+    expect(mocks.userUpdate).not.toHaveBeenCalled();
+    expect(result.applied).toBe(false);
+    expect(result.ratingsBefore).toEqual({ creator: 990, opponent: 1410 });
+  });
+
+  it('rates draws with no margin', async () => {
+    mocks.matchFindUnique.mockResolvedValue(createMatch({ status: 'draw', winnerId: null, isDraw: true }));
+
+    const result = await applyMatchRatings('match-1');
+
+    expect(result.margin).toBe(0);
+    expect(result.ratingChanges).toEqual({ creator: 13, opponent: -13 });
+  });
+
+  it('rejects matches that are not settled', async () => {
+    mocks.matchFindUnique.mockResolvedValue(createMatch({ status: 'active' }));
+
+    await expectError(applyMatchRatings('match-1'), BadRequestError);
+    expect(mocks.matchUpdateMany).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// simulateRatingModel
+// ===========================================
+
+describe('simulateRatingModel', () => {
+  it('replays matches from the default rating and reports calibration', () => {
+    // alice wins 12 of 12 - the rating learns she is the favourite
+    const matches = Array.from({ length: 12 }, (_, i) => createSimulationMatch(i, 'alice'));
+
+    const report = simulateRatingModel(matches);
+
+    expect(report.matches).toBe(12);
+    expect(report.players).toBe(2);
+    expect(report.favouriteWinRate).toBe(1);
+    expect(report.brierScore).toBeLessThan(0.25);
+    expect(report.rating.max).toBeGreaterThan(DEFAULT_RATING_MODEL.defaultRating);
+    expect(report.rating.mean).toBe(DEFAULT_RATING_MODEL.defaultRating);
+    // Placement: 10/10 -> GOLD_1, 0/10 -> BRONZE_3, then bob's two losses drop him a division
+    expect(report.rankDistribution.BRONZE_2).toBe(1);
+    expect(report.rankDistribution.GOLD_1).toBe(1);
+    expect(report.rankPoints.averageGain).toBeGreaterThan(0);
+    expect(report.rankPoints.averageLoss).toBeGreaterThan(0);
+  });
+
+  it('tracks placement separately per season', () => {
+    const matches = [
+      ...Array.from({ length: 10 }, (_, i) => createSimulationMatch(i, 'alice')),
+      createSimulationMatch(10, 'bob', { seasonId: 'season-2' }),
+    ];
+
+    const report = simulateRatingModel(matches);
+
+    // Season 2 has only one match - nobody placed there yet
+    expect(Object.values(report.rankDistribution).reduce((sum, n) => sum + n, 0)).toBe(2);
+    expect(report.rankPoints.cappedShare).toBe(0);
+  });
+
+  it('handles an empty history', () => {
+    const report = simulateRatingModel([]);
+
+    expect(report).toEqual(
+      expect.objectContaining({ matches: 0, players: 0, brierScore: 0, favouriteWinRate: 0 })
+    );
+  });
+});
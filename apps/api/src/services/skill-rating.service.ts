@@ -0,0 +1,555 @@
+// =====================================================
+// Skill Rating Service
+// =====================================================
+// Elo skill rating for ranked play and the rank point model built on it:
+// 1. Every ranked settlement moves both players' User.skillRating
+// 2. Rank points scale with the opponent's rating and the score margin
+// 3. Per-tier caps bound a single match's RP change
+//
+// The same rating feeds matchmaking's MMR range. simulateRatingModel
+// replays historical matches so the constants can be tuned offline
+// (see scripts/simulate-rating-model.ts).
+//
+// CRITICAL: A match is rated once. Pre-match ratings are stored on the
+// match, so a retried settlement weights rank points the same way.
+
+import { MatchStatus, Rank } from '@prisma/client';
+import {
+  PLACEMENT_MATCHES_REQUIRED,
+  PLACEMENT_RESULTS,
+  RANK_ORDER,
+  RANK_POINT_MODEL,
+  RANK_POINTS,
+  RANK_THRESHOLDS,
+  SKILL_RATING,
+} from '@pick-rivals/shared-types';
+import type { RankTier } from '@pick-rivals/shared-types';
+import { prisma } from '../lib/prisma';
+import { logger } from '../utils/logger';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+
+// ===========================================
+// Types
+// ===========================================
+
+export type MatchOutcome = 'WIN' | 'LOSS' | 'DRAW';
+
+export interface RankPointCaps {
+  minGain: number;
+  maxGain: number;
+  minLoss: number;
+  maxLoss: number;
+}
+
+/**
+ * Tunable constants for the rating and rank point model.
+ * Defaults come from SKILL_RATING, RANK_POINTS and RANK_POINT_MODEL.
+ */
+export interface RatingModel {
+  defaultRating: number;
+  ratingFloor: number;
+  kFactor: number;
+  scale: number;
+  /** RP for beating an equally rated opponent */
+  winPoints: number;
+  /** RP lost to an equally rated opponent (positive) */
+  lossPoints: number;
+  marginBonus: number;
+  caps: Record<RankTier, RankPointCaps>;
+}
+
+export interface RankPointChangeInput {
+  outcome: MatchOutcome;
+  /** Player's rank before the match - selects the caps */
+  rank: Rank;
+  /** Omitted ratings are treated as an even match */
+  rating?: number;
+  opponentRating?: number;
+  margin?: number;
+}
+
+export interface MatchRatingResult {
+  matchId: string;
+  /** Pre-match ratings keyed by user ID - what rank points are weighted by */
+  ratingsBefore: Record<string, number>;
+  ratingChanges: Record<string, number>;
+  margin: number;
+  /** False when the match had already been rated */
+  applied: boolean;
+}
+
+export interface SimulationMatch {
+  id: string;
+  seasonId: string;
+  creatorId: string;
+  opponentId: string;
+  winnerId: string | null;
+  isDraw: boolean;
+  creatorPoints: number;
+  opponentPoints: number;
+}
+
+export interface RatingSimulationReport {
+  matches: number;
+  players: number;
+  /** Mean squared error of the expected score (0.25 = coin flip) */
+  brierScore: number;
+  /** Decisive matches between unequal ratings won by the higher-rated player */
+  favouriteWinRate: number;
+  rating: { min: number; max: number; mean: number };
+  /** Post-placement RP changes */
+  rankPoints: {
+    averageGain: number;
+    averageLoss: number;
+    /** Share of changes clamped by a per-tier cap */
+    cappedShare: number;
+  };
+  /** Placed players by rank at the end of each season, summed over seasons */
+  rankDistribution: Record<Rank, number>;
+}
+
+// ===========================================
+// Model Configuration
+// ===========================================
+
+/** Statuses of a decided match - settleMatch saves ties as draw */
+const RATED_MATCH_STATUSES: MatchStatus[] = [MatchStatus.settled, MatchStatus.draw];
+
+function toCaps(caps: (typeof RANK_POINT_MODEL.CAPS)[RankTier]): RankPointCaps {
+  return {
+    minGain: caps.MIN_GAIN,
+    maxGain: caps.MAX_GAIN,
+    minLoss: caps.MIN_LOSS,
+    maxLoss: caps.MAX_LOSS,
+  };
+}
+
+export const DEFAULT_RATING_MODEL: RatingModel = {
+  defaultRating: SKILL_RATING.DEFAULT,
+  ratingFloor: SKILL_RATING.FLOOR,
+  kFactor: SKILL_RATING.K_FACTOR,
+  scale: SKILL_RATING.SCALE,
+  winPoints: RANK_POINTS.WIN,
+  lossPoints: Math.abs(RANK_POINTS.LOSS),
+  marginBonus: RANK_POINT_MODEL.MARGIN_BONUS,
+  caps: {
+    BRONZE: toCaps(RANK_POINT_MODEL.CAPS.BRONZE),
+    SILVER: toCaps(RANK_POINT_MODEL.CAPS.SILVER),
+    GOLD: toCaps(RANK_POINT_MODEL.CAPS.GOLD),
+    PLATINUM: toCaps(RANK_POINT_MODEL.CAPS.PLATINUM),
+    DIAMOND: toCaps(RANK_POINT_MODEL.CAPS.DIAMOND),
+  },
+};
+
+// ===========================================
+// Rating Calculation
+// ===========================================
+
+/**
+ * Probability-like expected score (0-1) of a player against an opponent.
+ * Pure function with no side effects.
+ *
+ * @example
+ * calculateExpectedScore(1000, 1000) // 0.5
+ * calculateExpectedScore(1400, 1000) // ~0.91
+ */
+export function calculateExpectedScore(
+  rating: number,
+  opponentRating: number,
+  model: RatingModel = DEFAULT_RATING_MODEL
+): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / model.scale));
+}
+
+/**
+ * Relative score margin of a match: 0 for an even score, 1 for a shutout.
+ * Pure function with no side effects.
+ *
+ * @example
+ * calculateMatchMargin(30, 10) // 0.67
+ * calculateMatchMargin(0, 0)   // 0
+ */
+export function calculateMatchMargin(creatorPoints: number, opponentPoints: number): number {
+  const top = Math.max(Math.abs(creatorPoints), Math.abs(opponentPoints));
+  if (top === 0) return 0;
+  return Math.min(1, Math.abs(creatorPoints - opponentPoints) / top);
+}
+
+/**
+ * Rating a player ends the match with (Elo update, floored).
+ * Pure function with no side effects.
+ *
+ * @example
+ * calculateNewRating(1000, 1000, 'WIN') // 1016
+ * calculateNewRating(1000, 1400, 'WIN') // 1029
+ */
+export function calculateNewRating(
+  rating: number,
+  opponentRating: number,
+  outcome: MatchOutcome,
+  model: RatingModel = DEFAULT_RATING_MODEL
+): number {
+  const score = outcome === 'WIN' ? 1 : outcome === 'LOSS' ? 0 : 0.5;
+  const expected = calculateExpectedScore(rating, opponentRating, model);
+  const next = Math.round(rating + model.kFactor * (score - expected));
+  return Math.max(model.ratingFloor, next);
+}
+
+// ===========================================
+// Rank Point Weighting
+// ===========================================
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * RP change for a post-placement match, weighted by the opponent's rating
+ * and the margin, then clamped to the player's tier caps.
+ * Pure function with no side effects.
+ *
+ * @returns rpChange and whether a cap was applied
+ *
+ * @example
+ * calculateRankPointChange({ outcome: 'WIN', rank: 'SILVER_2' })  // +25 (even match)
+ * calculateRankPointChange({ outcome: 'LOSS', rank: 'SILVER_2' }) // -20
+ */
+export function calculateRankPointChange(
+  input: RankPointChangeInput,
+  model: RatingModel = DEFAULT_RATING_MODEL
+): { rpChange: number; capped: boolean } {
+  const { outcome, rank } = input;
+  const rating = input.rating ?? model.defaultRating;
+  const opponentRating = input.opponentRating ?? rating;
+  const expected = calculateExpectedScore(rating, opponentRating, model);
+  const marginFactor = 1 + model.marginBonus * clamp(input.margin ?? 0, 0, 1);
+  const caps = model.caps[rank.split('_')[0] as RankTier];
+
+  let raw: number;
+  let rpChange: number;
+
+  if (outcome === 'WIN') {
+    raw = Math.round(model.winPoints * 2 * (1 - expected) * marginFactor);
+    rpChange = clamp(raw, caps.minGain, caps.maxGain);
+  } else if (outcome === 'LOSS') {
+    raw = -Math.round(model.lossPoints * 2 * expected * marginFactor);
+    rpChange = -clamp(-raw, caps.minLoss, caps.maxLoss);
+  } else {
+    // Draws move RP toward the stronger player's expected result only
+    const points = expected < 0.5 ? model.winPoints : model.lossPoints;
+    raw = Math.round(points * 2 * (0.5 - expected));
+    rpChange = clamp(raw, -caps.maxLoss, caps.maxGain);
+  }
+
+  // Normalize -0 from rounding
+  rpChange = rpChange || 0;
+
+  return { rpChange, capped: rpChange !== (raw || 0) };
+}
+
+// ===========================================
+// Match Rating
+// ===========================================
+
+/**
+ * Update both players' skill ratings for a settled ranked match.
+ * Idempotent - a match that was already rated returns its stored ratings.
+ *
+ * @returns Pre-match ratings and the margin to weight rank points by
+ * @throws {NotFoundError} Match not found
+ * @throws {BadRequestError} Match not settled or has no opponent
+ */
+export async function applyMatchRatings(
+  matchId: string,
+  model: RatingModel = DEFAULT_RATING_MODEL
+): Promise<MatchRatingResult> {
+  const match = await prisma.match.findUnique({
+    where: { id: matchId },
+    select: {
+      id: true,
+      status: true,
+      creatorId: true,
+      opponentId: true,
+      winnerId: true,
+      isDraw: true,
+      creatorPoints: true,
+      opponentPoints: true,
+    },
+  });
+
+  if (!match) {
+    throw new NotFoundError('Match not found');
+  }
+
+  if (!RATED_MATCH_STATUSES.includes(match.status) || !match.opponentId) {
+    throw new BadRequestError(`Match ${matchId} is not a settled head-to-head match`);
+  }
+
+  const { creatorId, opponentId } = match;
+  const margin = match.isDraw
+    ? 0
+    : calculateMatchMargin(Number(match.creatorPoints), Number(match.opponentPoints));
+
+  const rated = await prisma.$transaction(async (tx) => {
+    const users = await tx.user.findMany({
+      where: { id: { in: [creatorId, opponentId] } },
+      select: { id: true, skillRating: true },
+    });
+    const ratingOf = (userId: string) =>
+      users.find((user) => user.id === userId)?.skillRating ?? model.defaultRating;
+
+    const creatorBefore = ratingOf(creatorId);
+    const opponentBefore = ratingOf(opponentId);
+    const creatorOutcome: MatchOutcome = match.isDraw
+      ? 'DRAW'
+      : match.winnerId === creatorId ? 'WIN' : 'LOSS';
+    const opponentOutcome: MatchOutcome = match.isDraw
+      ? 'DRAW'
+      : creatorOutcome === 'WIN' ? 'LOSS' : 'WIN';
+
+    const creatorChange =
+      calculateNewRating(creatorBefore, opponentBefore, creatorOutcome, model) - creatorBefore;
+    const opponentChange =
+      calculateNewRating(opponentBefore, creatorBefore, opponentOutcome, model) - opponentBefore;
+
+    // Claim the match first - a concurrent retry finds ratedAt set and stops
+    const { count } = await tx.match.updateMany({
+      where: { id: matchId, ratedAt: null },
+      data: {
+        creatorRatingBefore: creatorBefore,
+        opponentRatingBefore: opponentBefore,
+        creatorRatingChange: creatorChange,
+        opponentRatingChange: opponentChange,
+        ratedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.user.update({
+      where: { id: creatorId },
+      data: { skillRating: { increment: creatorChange } },
+    });
+    await tx.user.update({
+      where: { id: opponentId },
+      data: { skillRating: { increment: opponentChange } },
+    });
+
+    return true;
+  });
+
+  const stored = await prisma.match.findUniqueOrThrow({
+    where: { id: matchId },
+    select: {
+      creatorRatingBefore: true,
+      opponentRatingBefore: true,
+      creatorRatingChange: true,
+      opponentRatingChange: true,
+    },
+  });
+
+  if (rated) {
+    logger.info(
+      `[SkillRating] Rated match ${matchId}: ${creatorId} ${stored.creatorRatingBefore} ` +
+        `(${stored.creatorRatingChange >= 0 ? '+' : ''}${stored.creatorRatingChange}), ` +
+        `${opponentId} ${stored.opponentRatingBefore} ` +
+        `(${stored.opponentRatingChange >= 0 ? '+' : ''}${stored.opponentRatingChange})`
+    );
+  }
+
+  return {
+    matchId,
+    ratingsBefore: {
+      [creatorId]: stored.creatorRatingBefore,
+      [opponentId]: stored.opponentRatingBefore,
+    },
+    ratingChanges: {
+      [creatorId]: stored.creatorRatingChange,
+      [opponentId]: stored.opponentRatingChange,
+    },
+    margin,
+    applied: rated,
+  };
+}
+
+// ===========================================
+// Simulation
+// ===========================================
+
+interface SimulatedEntry {
+  rankPoints: number;
+  rank: Rank | null;
+  placementPlayed: number;
+  placementWon: number;
+}
+
+/**
+ * Replay matches (oldest first) through a rating model from scratch.
+ * Everyone starts at the default rating; placement and RP follow the
+ * live rules, without decay or the between-season soft reset.
+ * Pure function with no side effects.
+ */
+export function simulateRatingModel(
+  matches: SimulationMatch[],
+  model: RatingModel = DEFAULT_RATING_MODEL
+): RatingSimulationReport {
+  const ratings = new Map<string, number>();
+  const entries = new Map<string, Map<string, SimulatedEntry>>();
+
+  let squaredError = 0;
+  let favouriteWins = 0;
+  let favouriteGames = 0;
+  let gains = 0;
+  let gainCount = 0;
+  let losses = 0;
+  let lossCount = 0;
+  let capped = 0;
+  let rpChanges = 0;
+
+  const ratingOf = (userId: string) => ratings.get(userId) ?? model.defaultRating;
+
+  const entryOf = (seasonId: string, userId: string): SimulatedEntry => {
+    let season = entries.get(seasonId);
+    if (!season) {
+      season = new Map();
+      entries.set(seasonId, season);
+    }
+    let entry = season.get(userId);
+    if (!entry) {
+      entry = { rankPoints: 0, rank: null, placementPlayed: 0, placementWon: 0 };
+      season.set(userId, entry);
+    }
+    return entry;
+  };
+
+  const applyRankPoints = (
+    entry: SimulatedEntry,
+    outcome: MatchOutcome,
+    rating: number,
+    opponentRating: number,
+    margin: number
+  ) => {
+    if (entry.placementPlayed < PLACEMENT_MATCHES_REQUIRED) {
+      entry.placementPlayed += 1;
+      if (outcome === 'WIN') entry.placementWon += 1;
+      if (entry.placementPlayed === PLACEMENT_MATCHES_REQUIRED) {
+        entry.rank = PLACEMENT_RESULTS[entry.placementWon];
+        entry.rankPoints = RANK_THRESHOLDS[entry.rank];
+      }
+      return;
+    }
+
+    const change = calculateRankPointChange(
+      { outcome, rank: entry.rank, rating, opponentRating, margin },
+      model
+    );
+
+    rpChanges += 1;
+    if (change.capped) capped += 1;
+    if (change.rpChange > 0) {
+      gains += change.rpChange;
+      gainCount += 1;
+    } else if (change.rpChange < 0) {
+      losses += -change.rpChange;
+      lossCount += 1;
+    }
+
+    entry.rankPoints = Math.max(0, entry.rankPoints + change.rpChange);
+    entry.rank = rankForPoints(entry.rankPoints);
+  };
+
+  for (const match of matches) {
+    const creatorRating = ratingOf(match.creatorId);
+    const opponentRating = ratingOf(match.opponentId);
+    const creatorOutcome: MatchOutcome = match.isDraw
+      ? 'DRAW'
+      : match.winnerId === match.creatorId ? 'WIN' : 'LOSS';
+    const opponentOutcome: MatchOutcome = match.isDraw
+      ? 'DRAW'
+      : creatorOutcome === 'WIN' ? 'LOSS' : 'WIN';
+    const margin = match.isDraw
+      ? 0
+      : calculateMatchMargin(match.creatorPoints, match.opponentPoints);
+
+    const expected = calculateExpectedScore(creatorRating, opponentRating, model);
+    const score = creatorOutcome === 'WIN' ? 1 : creatorOutcome === 'LOSS' ? 0 : 0.5;
+    squaredError += (expected - score) ** 2;
+
+    if (!match.isDraw && creatorRating !== opponentRating) {
+      favouriteGames += 1;
+      if ((creatorRating > opponentRating) === (creatorOutcome === 'WIN')) {
+        favouriteWins += 1;
+      }
+    }
+
+    applyRankPoints(
+      entryOf(match.seasonId, match.creatorId),
+      creatorOutcome,
+      creatorRating,
+      opponentRating,
+      margin
+    );
+    applyRankPoints(
+      entryOf(match.seasonId, match.opponentId),
+      opponentOutcome,
+      opponentRating,
+      creatorRating,
+      margin
+    );
+
+    ratings.set(
+      match.creatorId,
+      calculateNewRating(creatorRating, opponentRating, creatorOutcome, model)
+    );
+    ratings.set(
+      match.opponentId,
+      calculateNewRating(opponentRating, creatorRating, opponentOutcome, model)
+    );
+  }
+
+  const rankDistribution = Object.fromEntries(RANK_ORDER.map((rank) => [rank, 0])) as Record<
+    Rank,
+    number
+  >;
+  for (const season of entries.values()) {
+    for (const entry of season.values()) {
+      if (entry.rank) rankDistribution[entry.rank] += 1;
+    }
+  }
+
+  const finalRatings = [...ratings.values()];
+  const ratingSum = finalRatings.reduce((sum, rating) => sum + rating, 0);
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+
+  return {
+    matches: matches.length,
+    players: ratings.size,
+    brierScore: matches.length > 0 ? round(squaredError / matches.length) : 0,
+    favouriteWinRate: favouriteGames > 0 ? round(favouriteWins / favouriteGames) : 0,
+    rating: {
+      min: finalRatings.reduce((min, rating) => Math.min(min, rating), model.defaultRating),
+      max: finalRatings.reduce((max, rating) => Math.max(max, rating), model.defaultRating),
+      mean: finalRatings.length > 0 ? Math.round(ratingSum / finalRatings.length) : model.defaultRating,
+    },
+    rankPoints: {
+      averageGain: gainCount > 0 ? round(gains / gainCount) : 0,
+      averageLoss: lossCount > 0 ? round(losses / lossCount) : 0,
+      cappedShare: rpChanges > 0 ? round(capped / rpChanges) : 0,
+    },
+    rankDistribution,
+  };
+}
+
+/**
+ * Highest rank whose threshold the rank points reach.
+ */
+function rankForPoints(rankPoints: number): Rank {
+  for (let i = RANK_ORDER.length - 1; i >= 0; i--) {
+    if (rankPoints >= RANK_THRESHOLDS[RANK_ORDER[i]]) {
+      return RANK_ORDER[i];
+    }
+  }
+  return RANK_ORDER[0];
+}
@@ -0,0 +1,358 @@
+// =====================================================
+// Wallet Reconciliation Service Tests
+// =====================================================
+// Covers the ledger replay (balances, counter rules, balance chains),
+// how drift becomes findings, de-duplication of open discrepancies
+// across runs, and full runs surviving a wallet that fails to load.
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ===========================================
+// Mock Setup
+// ===========================================
+
+const mocks = vi.hoisted(() => ({
+  walletFindUnique: vi.fn(),
+  walletFindMany: vi.fn(),
+  transactionFindMany: vi.fn(),
+  discrepancyFindFirst: vi.fn(),
+  discrepancyCreate: vi.fn(),
+  discrepancyUpdate: vi.fn(),
+  queryRaw: vi.fn(),
+}));
+
+vi.mock('../lib/prisma', () => {
+  const tx = {
+    wallet: { findUnique: mocks.walletFindUnique, findMany: mocks.walletFindMany },
+    transaction: { findMany: mocks.transactionFindMany },
+    walletDiscrepancy: {
+      findFirst: mocks.discrepancyFindFirst,
+      create: mocks.discrepancyCreate,
+      update: mocks.discrepancyUpdate,
+    },
+  };
+
+  return {
+    prisma: {
+      ...tx,
+      $queryRaw: mocks.queryRaw,
+      $transaction: vi.fn((fn: (client: typeof tx) => unknown) => fn(tx)),
+    },
+  };
+});
+
+vi.mock('../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+vi.mock('../lib/wallet.service', () => ({
+  HOUSE_USER_ID: 'house-user',
+}));
+
+import {
+  replayLedger,
+  reconcileWallet,
+  recordDiscrepancies,
+  runWalletReconciliation,
+  getDiscrepancyFingerprint,
+  LedgerTransaction,
+  DiscrepancyFinding,
+} from './wallet-reconciliation.service';
+
+// ===========================================
+// Test Helpers
+// ===========================================
+
+/**
+ * Build a chained ledger from signed paid/bonus moves.
+ */
+function buildLedger(
+  moves: Array<{ type: LedgerTransaction['type']; paid?: number; bonus?: number; metadata?: object }>
+): LedgerTransaction[] {
+  let balance = BigInt(0);
+
+  return moves.map((move, index) => {
+    const paidAmount = BigInt(move.paid ?? 0);
+    const bonusAmount = BigInt(move.bonus ?? 0);
+    const amount = paidAmount + bonusAmount;
+    const balanceBefore = balance;
+    balance += amount;
+
+    return {
+      id: `tx-${index + 1}`,
+      type: move.type,
+      amount,
+      paidAmount,
+      bonusAmount,
+      balanceBefore,
+      balanceAfter: balance,
+      metadata: move.metadata ?? {},
+    };
+  });
+}
+
+function createMockWallet(overrides = {}) {
+  return {
+    id: 'wallet-1',
+    userId: 'user-1',
+    paidBalance: BigInt(0),
+    bonusBalance: BigInt(0),
+    totalDeposited: BigInt(0),
+    totalWon: BigInt(0),
+    totalLost: BigInt(0),
+    totalRakePaid: BigInt(0),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ===========================================
+// replayLedger
+// ===========================================
+
+describe('replayLedger', () => {
+  it('sums the paid and bonus splits and finds no breaks in a clean chain', () => {
+    const ledger = buildLedger([
+      { type: 'STARTER_CREDIT', bonus: 1000 },
+      { type: 'DEPOSIT', paid: 5000 },
+      { type: 'MATCH_ENTRY', paid: -500, bonus: -1000 },
+    ]);
+
+    const { replayed, breaks } = replayLedger(ledger);
+
+    expect(replayed.paidBalance).toBe(BigInt(4500));
+    expect(replayed.bonusBalance).toBe(BigInt(0));
+    expect(breaks).toEqual([]);
+  });
+
+  it('follows the wallet service counter rules', () => {
+    const ledger = buildLedger([
+      { type: 'DEPOSIT', paid: 5000 },
+      { type: 'MATCH_ENTRY', paid: -1000 }, // tx-2
+      { type: 'MATCH_ENTRY', paid: -1000 }, // tx-3
+      { type: 'MATCH_REFUND', paid: 1000, metadata: { originalTransactionId: 'tx-2' } },
+      { type: 'MATCH_WIN', paid: 1900 },
+      { type: 'DISPUTE_HOLD', paid: -2500 }, // clamps totalWon at 0
+      { type: 'PURCHASE_REVERSAL', paid: -100 },
+    ]);
+
+    const { replayed } = replayLedger(ledger);
+
+    expect(replayed.totalDeposited).toBe(BigInt(4900));
+    expect(replayed.totalLost).toBe(BigInt(1000));
+    expect(replayed.totalWon).toBe(BigInt(0));
+    expect(replayed.totalRakePaid).toBe(BigInt(0));
+  });
+
+  it('only reverses totalLost for refunds of entry debits', () => {
+    const ledger = buildLedger([
+      { type: 'DEPOSIT', paid: 5000 },
+      { type: 'MATCH_ENTRY', paid: -1000 },
+      { type: 'MATCH_REFUND', paid: 1000 }, // draw refund via creditWallet
+    ]);
+
+    expect(replayLedger(ledger).replayed.totalLost).toBe(BigInt(1000));
+  });
+
+  it('flags a gap between one balanceAfter and the next balanceBefore', () => {
+    const ledger = buildLedger([
+      { type: 'DEPOSIT', paid: 5000 },
+      { type: 'MATCH_ENTRY', paid: -1000 },
+    ]);
+    ledger[1] = { ...ledger[1], balanceBefore: BigInt(6000), balanceAfter: BigInt(5000) };
+
+    const { breaks } = replayLedger(ledger);
+
+    expect(breaks).toEqual([
+      { transactionId: 'tx-2', field: 'balanceBefore', expected: BigInt(5000), actual: BigInt(6000) },
+    ]);
+  });
+
+  it('flags rows whose own numbers disagree', () => {
+    const ledger = buildLedger([{ type: 'DEPOSIT', paid: 5000 }]);
+    ledger[0] = { ...ledger[0], balanceAfter: BigInt(4000), bonusAmount: BigInt(1) };
+
+    const fields = replayLedger(ledger).breaks.map((b) => b.field);
+
+    expect(fields).toEqual(['amount', 'balanceAfter']);
+  });
+
+  it('skips link checks when asked (house wallet)', () => {
+    const ledger = buildLedger([
+      { type: 'RAKE_FEE', paid: 100 },
+      { type: 'RAKE_FEE', paid: 100 },
+    ]);
+    // Posted concurrently: rows land in the other order
+    const swapped = [ledger[1], ledger[0]];
+
+    expect(replayLedger(swapped).breaks).toHaveLength(2);
+    expect(replayLedger(swapped, { checkLinks: false }).breaks).toEqual([]);
+  });
+});
+
+// ===========================================
+// reconcileWallet
+// ===========================================
+
+describe('reconcileWallet', () => {
+  it('returns no findings when the wallet matches its ledger', async () => {
+    mocks.walletFindUnique.mockResolvedValue(
+      createMockWallet({ paidBalance: BigInt(4000), totalDeposited: BigInt(5000), totalLost: BigInt(1000) })
+    );
+    mocks.transactionFindMany.mockResolvedValue(
+      buildLedger([
+        { type: 'DEPOSIT', paid: 5000 },
+        { type: 'MATCH_ENTRY', paid: -1000 },
+      ])
+    );
+
+    expect(await reconcileWallet('wallet-1')).toEqual([]);
+    expect(mocks.transactionFindMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { walletId: 'wallet-1', status: { in: ['completed', 'reversed'] } },
+      })
+    );
+  });
+
+  it('reports balance and counter drift against the replay', async () => {
+    mocks.walletFindUnique.mockResolvedValue(
+      createMockWallet({ paidBalance: BigInt(4500), totalDeposited: BigInt(5000), totalLost: BigInt(0) })
+    );
+    mocks.transactionFindMany.mockResolvedValue(
+      buildLedger([
+        { type: 'DEPOSIT', paid: 5000 },
+        { type: 'MATCH_ENTRY', paid: -1000 },
+      ])
+    );
+
+    const findings = await reconcileWallet('wallet-1');
+
+    expect(findings).toEqual([
+      expect.objectContaining({
+        type: 'BALANCE_MISMATCH',
+        field: 'paidBalance',
+        expected: BigInt(4000),
+        actual: BigInt(4500),
+        details: { drift: '500', transactionCount: 2 },
+      }),
+      expect.objectContaining({
+        type: 'COUNTER_MISMATCH',
+        field: 'totalLost',
+        expected: BigInt(1000),
+        actual: BigInt(0),
+      }),
+    ]);
+  });
+
+  it('returns nothing for a wallet that no longer exists', async () => {
+    mocks.walletFindUnique.mockResolvedValue(null);
+
+    expect(await reconcileWallet('wallet-gone')).toEqual([]);
+    expect(mocks.transactionFindMany).not.toHaveBeenCalled();
+  });
+});
+
+// ===========================================
+// Discrepancy Records
+// ===========================================
+
+describe('recordDiscrepancies', () => {
+  const drift: DiscrepancyFinding = {
+    walletId: 'wallet-1',
+    userId: 'user-1',
+    type: 'BALANCE_MISMATCH',
+    field: 'paidBalance',
+    expected: BigInt(4000),
+    actual: BigInt(4500),
+    details: { drift: '500' },
+  };
+
+  it('keys balance drift by its size, not the moving totals', () => {
+    const later = { ...drift, expected: BigInt(6000), actual: BigInt(6500) };
+
+    expect(getDiscrepancyFingerprint(drift)).toBe('wallet-1:BALANCE_MISMATCH:paidBalance:500');
+    expect(getDiscrepancyFingerprint(later)).toBe(getDiscrepancyFingerprint(drift));
+  });
+
+  it('creates a discrepancy for new drift', async () => {
+    mocks.discrepancyFindFirst.mockResolvedValue(null);
+
+    const created = await recordDiscrepancies([drift], 'run-1');
+
+    expect(created).toBe(1);
+    expect(mocks.discrepancyCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        walletId: 'wallet-1',
+        type: 'BALANCE_MISMATCH',
+        fingerprint: 'wallet-1:BALANCE_MISMATCH:paidBalance:500',
+        runId: 'run-1',
+      }),
+    });
+  });
+
+  it('refreshes the open discrepancy when the same drift is seen again', async () => {
+    mocks.discrepancyFindFirst.mockResolvedValue({ id: 'disc-1' });
+
+    const created = await recordDiscrepancies([drift], 'run-2');
+
+    expect(created).toBe(0);
+    expect(mocks.discrepancyCreate).not.toHaveBeenCalled();
+    expect(mocks.discrepancyUpdate).toHaveBeenCalledWith({
+      where: { id: 'disc-1' },
+      data: expect.objectContaining({ runId: 'run-2', actual: BigInt(4500) }),
+    });
+  });
+});
+
+// ===========================================
+// runWalletReconciliation
+// ===========================================
+
+describe('runWalletReconciliation', () => {
+  it('checks every wallet, keeps going past failures, then scans for orphans', async () => {
+    mocks.walletFindMany
+      .mockResolvedValueOnce([{ id: 'wallet-1' }, { id: 'wallet-2' }])
+      .mockResolvedValueOnce([]);
+    mocks.walletFindUnique
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce(createMockWallet({ id: 'wallet-2' }));
+    mocks.transactionFindMany.mockResolvedValue([]);
+    mocks.queryRaw.mockResolvedValue([
+      {
+        id: 'tx-entry',
+        walletId: 'wallet-3',
+        userId: 'user-3',
+        type: 'MATCH_ENTRY',
+        amount: BigInt(-1000),
+        matchId: null,
+        reason: 'UNLINKED_ENTRY',
+      },
+    ]);
+    mocks.discrepancyFindFirst.mockResolvedValue(null);
+
+    const result = await runWalletReconciliation();
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        walletsChecked: 1,
+        walletsFailed: 1,
+        discrepanciesFound: 1,
+        newDiscrepancies: 1,
+      })
+    );
+    expect(mocks.walletFindMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ cursor: { id: 'wallet-2' }, skip: 1 })
+    );
+    expect(mocks.discrepancyCreate).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        walletId: 'wallet-3',
+        type: 'ORPHANED_TRANSACTION',
+        transactionId: 'tx-entry',
+        details: { reason: 'UNLINKED_ENTRY', transactionType: 'MATCH_ENTRY', matchId: null },
+      }),
+    });
+  });
+});
@@ -0,0 +1,526 @@
+// =====================================================
+// Wallet Reconciliation Service
+// =====================================================
+// Replays each wallet's ledger and checks it against the denormalized
+// wallet row:
+// 1. paidBalance / bonusBalance equal the sums of the paid / bonus splits
+// 2. totalDeposited / totalWon / totalLost / totalRakePaid follow the
+//    counter rules in wallet.service
+// 3. each transaction's balanceBefore picks up where the previous
+//    balanceAfter left off
+// It then looks for match money nothing accounts for: entry debits no
+// match, league entry, tournament entry or queue entry points at, and
+// payouts on matches that never settled.
+//
+// Every finding is stored as a WalletDiscrepancy for admins to review.
+// CRITICAL: Read-only against wallets - nothing here moves money.
+
+import { randomUUID } from 'crypto';
+import { Prisma, TransactionType, WalletDiscrepancyType } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { logger } from '../utils/logger';
+import { HOUSE_USER_ID } from '../lib/wallet.service';
+
+// ===========================================
+// Constants
+// ===========================================
+
+const WALLET_BATCH_SIZE = 100;
+
+/** Chain breaks recorded per wallet; one bad row can misalign the rest */
+const MAX_CHAIN_BREAKS_PER_WALLET = 20;
+
+/** Entry debits younger than this may still be linking to their match */
+export const ORPHAN_GRACE_MINUTES = 15;
+
+/** How far back the orphan scan looks */
+export const ORPHAN_LOOKBACK_DAYS = 7;
+
+const ZERO = BigInt(0);
+
+// ===========================================
+// Types
+// ===========================================
+
+export type WalletBalanceField = 'paidBalance' | 'bonusBalance';
+export type WalletCounterField = 'totalDeposited' | 'totalWon' | 'totalLost' | 'totalRakePaid';
+
+export type ReplayedWallet = Record<WalletBalanceField | WalletCounterField, bigint>;
+
+const LEDGER_TRANSACTION_SELECT = Prisma.validator<Prisma.TransactionSelect>()({
+  id: true,
+  type: true,
+  amount: true,
+  paidAmount: true,
+  bonusAmount: true,
+  balanceBefore: true,
+  balanceAfter: true,
+  metadata: true,
+});
+
+export type LedgerTransaction = Prisma.TransactionGetPayload<{
+  select: typeof LEDGER_TRANSACTION_SELECT;
+}>;
+
+export interface ChainBreak {
+  transactionId: string;
+  /** amount: paid + bonus split; balanceAfter: before + amount; balanceBefore: previous after */
+  field: 'amount' | 'balanceAfter' | 'balanceBefore';
+  expected: bigint;
+  actual: bigint;
+}
+
+export interface DiscrepancyFinding {
+  walletId: string;
+  userId: string;
+  type: WalletDiscrepancyType;
+  field?: string;
+  expected?: bigint;
+  actual?: bigint;
+  transactionId?: string;
+  details: Record<string, unknown>;
+}
+
+export interface ReconciliationRunResult {
+  runId: string;
+  walletsChecked: number;
+  walletsFailed: number;
+  discrepanciesFound: number;
+  newDiscrepancies: number;
+  durationMs: number;
+}
+
+interface OrphanedTransactionRow {
+  id: string;
+  walletId: string;
+  userId: string;
+  type: TransactionType;
+  amount: bigint;
+  matchId: string | null;
+  reason: 'UNLINKED_ENTRY' | 'PAYOUT_WITHOUT_SETTLEMENT';
+}
+
+// ===========================================
+// Ledger Replay
+// ===========================================
+
+function atLeastZero(value: bigint): bigint {
+  return value < ZERO ? ZERO : value;
+}
+
+function originalTransactionId(metadata: Prisma.JsonValue): string | null {
+  if (metadata && typeof metadata === 'object' && !Array.isArray(metadata)) {
+    const value = (metadata as Prisma.JsonObject).originalTransactionId;
+    return typeof value === 'string' ? value : null;
+  }
+  return null;
+}
+
+/**
+ * Apply one transaction to the cumulative counters, mirroring
+ * creditWallet / debitWallet / processRefund.
+ */
+function applyCounters(
+  totals: ReplayedWallet,
+  tx: LedgerTransaction,
+  byId: Map<string, LedgerTransaction>
+): void {
+  const isCredit = tx.amount > ZERO;
+  const magnitude = isCredit ? tx.amount : -tx.amount;
+
+  switch (tx.type) {
+    case 'DEPOSIT':
+      if (isCredit) totals.totalDeposited += magnitude;
+      break;
+    case 'MATCH_WIN':
+    case 'DISPUTE_RELEASE':
+      if (isCredit) totals.totalWon += magnitude;
+      break;
+    case 'MATCH_ENTRY':
+      if (!isCredit) totals.totalLost += magnitude;
+      break;
+    case 'RAKE_FEE':
+      if (!isCredit) totals.totalRakePaid += magnitude;
+      break;
+    case 'DISPUTE_HOLD':
+      totals.totalWon = atLeastZero(totals.totalWon - magnitude);
+      break;
+    case 'PURCHASE_REVERSAL':
+      totals.totalDeposited = atLeastZero(totals.totalDeposited - magnitude);
+      break;
+    case 'MATCH_REFUND': {
+      // Only processRefund reverses totalLost, and only for entry debits
+      const originalId = originalTransactionId(tx.metadata);
+      if (originalId && byId.get(originalId)?.type === 'MATCH_ENTRY') {
+        totals.totalLost = atLeastZero(totals.totalLost - magnitude);
+      }
+      break;
+    }
+    default:
+      break;
+  }
+}
+
+/**
+ * Replay a wallet's ledger, oldest first.
+ *
+ * Transactions must be completed (or later reversed - a reversal is its
+ * own entry) and ordered by createdAt. User wallet rows are written
+ * after the optimistic-lock update, so createdAt follows lock order.
+ * The house wallet is posted with atomic increments, so its rows can
+ * land out of order: pass checkLinks: false for it.
+ */
+export function replayLedger(
+  transactions: LedgerTransaction[],
+  options: { checkLinks: boolean } = { checkLinks: true }
+): { replayed: ReplayedWallet; breaks: ChainBreak[] } {
+  const replayed: ReplayedWallet = {
+    paidBalance: ZERO,
+    bonusBalance: ZERO,
+    totalDeposited: ZERO,
+    totalWon: ZERO,
+    totalLost: ZERO,
+    totalRakePaid: ZERO,
+  };
+  const breaks: ChainBreak[] = [];
+  const byId = new Map(transactions.map((tx) => [tx.id, tx]));
+  let previous: LedgerTransaction | null = null;
+
+  for (const tx of transactions) {
+    replayed.paidBalance += tx.paidAmount;
+    replayed.bonusBalance += tx.bonusAmount;
+    applyCounters(replayed, tx, byId);
+
+    const split = tx.paidAmount + tx.bonusAmount;
+    if (split !== tx.amount) {
+      breaks.push({ transactionId: tx.id, field: 'amount', expected: tx.amount, actual: split });
+    }
+
+    const expectedAfter = tx.balanceBefore + tx.amount;
+    if (tx.balanceAfter !== expectedAfter) {
+      breaks.push({
+        transactionId: tx.id,
+        field: 'balanceAfter',
+        expected: expectedAfter,
+        actual: tx.balanceAfter,
+      });
+    }
+
+    if (options.checkLinks) {
+      const expectedBefore = previous ? previous.balanceAfter : ZERO;
+      if (tx.balanceBefore !== expectedBefore) {
+        breaks.push({
+          transactionId: tx.id,
+          field: 'balanceBefore',
+          expected: expectedBefore,
+          actual: tx.balanceBefore,
+        });
+      }
+    }
+
+    previous = tx;
+  }
+
+  return { replayed, breaks };
+}
+
+// ===========================================
+// Wallet Checks
+// ===========================================
+
+/**
+ * Reconcile one wallet.
+ * The wallet and its ledger are read in one REPEATABLE READ snapshot, so
+ * a credit landing mid-check can't show up as drift.
+ *
+ * @returns Findings (empty when the wallet reconciles)
+ */
+export async function reconcileWallet(walletId: string): Promise<DiscrepancyFinding[]> {
+  const snapshot = await prisma.$transaction(
+    async (tx) => {
+      const wallet = await tx.wallet.findUnique({
+        where: { id: walletId },
+        select: {
+          id: true,
+          userId: true,
+          paidBalance: true,
+          bonusBalance: true,
+          totalDeposited: true,
+          totalWon: true,
+          totalLost: true,
+          totalRakePaid: true,
+        },
+      });
+
+      if (!wallet) {
+        return null;
+      }
+
+      const transactions = await tx.transaction.findMany({
+        where: { walletId, status: { in: ['completed', 'reversed'] } },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        select: LEDGER_TRANSACTION_SELECT,
+      });
+
+      return { wallet, transactions };
+    },
+    { isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead, timeout: 30000 }
+  );
+
+  if (!snapshot) {
+    return [];
+  }
+
+  const { wallet, transactions } = snapshot;
+  const isHouse = wallet.userId === HOUSE_USER_ID;
+  const { replayed, breaks } = replayLedger(transactions, { checkLinks: !isHouse });
+  const findings: DiscrepancyFinding[] = [];
+
+  const compare = (type: WalletDiscrepancyType, fields: Array<keyof ReplayedWallet>) => {
+    for (const field of fields) {
+      if (replayed[field] !== wallet[field]) {
+        findings.push({
+          walletId: wallet.id,
+          userId: wallet.userId,
+          type,
+          field,
+          expected: replayed[field],
+          actual: wallet[field],
+          details: {
+            drift: (wallet[field] - replayed[field]).toString(),
+            transactionCount: transactions.length,
+          },
+        });
+      }
+    }
+  };
+
+  compare('BALANCE_MISMATCH', ['paidBalance', 'bonusBalance']);
+  compare('COUNTER_MISMATCH', ['totalDeposited', 'totalWon', 'totalLost', 'totalRakePaid']);
+
+  if (breaks.length > MAX_CHAIN_BREAKS_PER_WALLET) {
+    logger.warn(
+      `[WalletReconciliation] Wallet ${wallet.id} has ${breaks.length} chain breaks; ` +
+        `recording the first ${MAX_CHAIN_BREAKS_PER_WALLET}`
+    );
+  }
+
+  for (const chainBreak of breaks.slice(0, MAX_CHAIN_BREAKS_PER_WALLET)) {
+    findings.push({
+      walletId: wallet.id,
+      userId: wallet.userId,
+      type: 'BROKEN_CHAIN',
+      field: chainBreak.field,
+      expected: chainBreak.expected,
+      actual: chainBreak.actual,
+      transactionId: chainBreak.transactionId,
+      details: {},
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Find match money nothing accounts for, within the lookback window:
+ * - UNLINKED_ENTRY: a MATCH_ENTRY debit no match, league entry,
+ *   tournament entry or queue entry points at, and that was never
+ *   refunded (the debit committed but the flow around it didn't)
+ * - PAYOUT_WITHOUT_SETTLEMENT: a MATCH_WIN on a match that never settled
+ */
+export async function findOrphanedMatchTransactions(
+  now: Date = new Date()
+): Promise<DiscrepancyFinding[]> {
+  const graceCutoff = new Date(now.getTime() - ORPHAN_GRACE_MINUTES * 60 * 1000);
+  const lookbackStart = new Date(now.getTime() - ORPHAN_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const rows = await prisma.$queryRaw<OrphanedTransactionRow[]>`
+    SELECT
+      t.id, t.wallet_id AS "walletId", t.user_id AS "userId", t.type, t.amount,
+      t.match_id AS "matchId", 'UNLINKED_ENTRY' AS "reason"
+    FROM transactions t
+    WHERE t.type = 'MATCH_ENTRY'
+      AND t.status = 'completed'
+      AND t.created_at >= ${lookbackStart}
+      AND t.created_at < ${graceCutoff}
+      AND NOT EXISTS (
+        SELECT 1 FROM matches m
+        WHERE m.creator_entry_tx_id = t.id OR m.opponent_entry_tx_id = t.id
+      )
+      AND NOT EXISTS (SELECT 1 FROM league_entries le WHERE le.entry_tx_id = t.id)
+      AND NOT EXISTS (SELECT 1 FROM tournament_entries te WHERE te.entry_tx_id = t.id)
+      AND NOT EXISTS (SELECT 1 FROM matchmaking_queue q WHERE q.entry_tx_id = t.id)
+      AND NOT EXISTS (
+        SELECT 1 FROM transactions r
+        WHERE r.type = 'MATCH_REFUND' AND r.metadata->>'originalTransactionId' = t.id
+      )
+    UNION ALL
+    SELECT
+      t.id, t.wallet_id AS "walletId", t.user_id AS "userId", t.type, t.amount,
+      t.match_id AS "matchId", 'PAYOUT_WITHOUT_SETTLEMENT' AS "reason"
+    FROM transactions t
+    JOIN matches m ON m.id = t.match_id
+    WHERE t.type = 'MATCH_WIN'
+      AND t.status = 'completed'
+      AND t.created_at >= ${lookbackStart}
+      AND m.status IN ('pending', 'matched', 'locked', 'active', 'cancelled', 'expired')
+  `;
+
+  return rows.map((row) => ({
+    walletId: row.walletId,
+    userId: row.userId,
+    type: 'ORPHANED_TRANSACTION' as const,
+    field: row.reason,
+    actual: row.amount,
+    transactionId: row.id,
+    details: { reason: row.reason, transactionType: row.type, matchId: row.matchId },
+  }));
+}
+
+// ===========================================
+// Discrepancy Records
+// ===========================================
+
+/**
+ * Identifies the same drift across runs. Balance and counter drift is
+ * keyed by its size (both sides move with every new transaction), row
+ * problems by the transaction.
+ */
+export function getDiscrepancyFingerprint(finding: DiscrepancyFinding): string {
+  if (finding.type === 'BALANCE_MISMATCH' || finding.type === 'COUNTER_MISMATCH') {
+    const drift = (finding.actual ?? ZERO) - (finding.expected ?? ZERO);
+    return `${finding.walletId}:${finding.type}:${finding.field}:${drift}`;
+  }
+
+  return `${finding.walletId}:${finding.type}:${finding.transactionId}:${finding.field ?? ''}`;
+}
+
+/**
+ * Store findings. An open discrepancy with the same fingerprint is
+ * refreshed instead of duplicated.
+ *
+ * @returns Number of new discrepancies
+ */
+export async function recordDiscrepancies(
+  findings: DiscrepancyFinding[],
+  runId: string,
+  now: Date = new Date()
+): Promise<number> {
+  let created = 0;
+
+  for (const finding of findings) {
+    const fingerprint = getDiscrepancyFingerprint(finding);
+    const data = {
+      field: finding.field ?? null,
+      expected: finding.expected ?? null,
+      actual: finding.actual ?? null,
+      details: finding.details as Prisma.InputJsonValue,
+      runId,
+      lastSeenAt: now,
+    };
+
+    const existing = await prisma.walletDiscrepancy.findFirst({
+      where: { fingerprint, status: 'OPEN' },
+      select: { id: true },
+    });
+
+    if (existing) {
+      await prisma.walletDiscrepancy.update({ where: { id: existing.id }, data });
+      continue;
+    }
+
+    await prisma.walletDiscrepancy.create({
+      data: {
+        ...data,
+        walletId: finding.walletId,
+        userId: finding.userId,
+        type: finding.type,
+        transactionId: finding.transactionId ?? null,
+        fingerprint,
+        detectedAt: now,
+      },
+    });
+    created++;
+
+    logger.warn(
+      `[WalletReconciliation] ${finding.type} on wallet ${finding.walletId}` +
+        (finding.field ? ` (${finding.field})` : '') +
+        (finding.transactionId ? ` at transaction ${finding.transactionId}` : '')
+    );
+  }
+
+  return created;
+}
+
+// ===========================================
+// Full Run
+// ===========================================
+
+/**
+ * Reconcile every wallet, then scan for orphaned match transactions.
+ * A wallet that fails to load is logged and skipped so one bad row
+ * can't stop the run.
+ */
+export async function runWalletReconciliation(
+  now: Date = new Date()
+): Promise<ReconciliationRunResult> {
+  const runId = randomUUID();
+  const startedAt = Date.now();
+  let walletsChecked = 0;
+  let walletsFailed = 0;
+  let discrepanciesFound = 0;
+  let newDiscrepancies = 0;
+  let cursor: string | undefined;
+
+  while (true) {
+    const wallets = await prisma.wallet.findMany({
+      select: { id: true },
+      take: WALLET_BATCH_SIZE,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      orderBy: { id: 'asc' },
+    });
+
+    if (wallets.length === 0) {
+      break;
+    }
+
+    for (const wallet of wallets) {
+      try {
+        const findings = await reconcileWallet(wallet.id);
+        discrepanciesFound += findings.length;
+        newDiscrepancies += await recordDiscrepancies(findings, runId, now);
+        walletsChecked++;
+      } catch (error) {
+        walletsFailed++;
+        logger.error(`[WalletReconciliation] Failed to reconcile wallet ${wallet.id}:`, error);
+      }
+    }
+
+    cursor = wallets[wallets.length - 1].id;
+  }
+
+  const orphans = await findOrphanedMatchTransactions(now);
+  discrepanciesFound += orphans.length;
+  newDiscrepancies += await recordDiscrepancies(orphans, runId, now);
+
+  const result: ReconciliationRunResult = {
+    runId,
+    walletsChecked,
+    walletsFailed,
+    discrepanciesFound,
+    newDiscrepancies,
+    durationMs: Date.now() - startedAt,
+  };
+
+  const summary =
+    `[WalletReconciliation] Run ${runId}: ${walletsChecked} wallets checked, ` +
+    `${discrepanciesFound} discrepancies (${newDiscrepancies} new), ${walletsFailed} failed`;
+
+  if (discrepanciesFound > 0 || walletsFailed > 0) {
+    logger.warn(summary);
+  } else {
+    logger.info(summary);
+  }
+
+  return result;
+}
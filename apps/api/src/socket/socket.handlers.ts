@@ -5,17 +5,26 @@
 
 import { logger } from '../utils/logger';
 import type { TypedSocket } from './socket.service';
-import { joinMatchRoom, leaveMatchRoom, leaveAllRooms } from './socket.service';
+import {
+  joinMatchRoom,
+  leaveMatchRoom,
+  joinTournamentRoom,
+  leaveTournamentRoom,
+  leaveAllRooms,
+} from './socket.service';
 import {
   JoinMatchPayload,
   LeaveMatchPayload,
   JoinMatchResponse,
   LeaveMatchResponse,
+  TournamentRoomPayload,
+  TournamentRoomResponse,
   getMatchRoomId,
   getUserRoomId,
 } from './socket.types';
 import { NotFoundError, ForbiddenError } from '../utils/errors';
 import { ERROR_CODES } from '@pick-rivals/shared-types';
+import { RATE_LIMIT_POLICIES, consumeRateLimit } from '../lib/rate-limit.service';
 
 // ===========================================
 // Handler Registration
@@ -52,6 +61,15 @@ export function registerSocketHandlers(socket: TypedSocket): void {
     handleLeaveMatch(socket, payload, callback);
   });
 
+  // Tournament bracket room handlers
+  socket.on('join:tournament', async (payload, callback) => {
+    await handleJoinTournament(socket, payload, callback);
+  });
+
+  socket.on('leave:tournament', (payload, callback) => {
+    handleLeaveTournament(socket, payload, callback);
+  });
+
   // Disconnect handler
   socket.on('disconnect', (reason) => {
     handleDisconnect(socket, reason);
@@ -69,7 +87,8 @@ export function registerSocketHandlers(socket: TypedSocket): void {
 
 /**
  * Handles join:match event.
- * Verifies user is a match participant and joins the room.
+ * Rate limited per user, then verifies user is a match participant
+ * and joins the room.
  */
 async function handleJoinMatch(
   socket: TypedSocket,
@@ -80,6 +99,15 @@ async function handleJoinMatch(
   const username = socket.data.user.username;
 
   try {
+    // Rate limit per user (shared with other API instances)
+    if (!(await consumeRateLimit('socketJoinMatch', `user:${userId}`))) {
+      return callback({
+        success: false,
+        error: RATE_LIMIT_POLICIES.socketJoinMatch.message,
+        code: ERROR_CODES.RATE_LIMITED,
+      });
+    }
+
     // Validate payload
     if (!payload?.matchId || typeof payload.matchId !== 'string') {
       return callback({
@@ -199,6 +227,101 @@ function handleLeaveMatch(
   }
 }
 
+/**
+ * Handles join:tournament event.
+ * Rate limited per user, then joins the tournament's bracket room.
+ */
+async function handleJoinTournament(
+  socket: TypedSocket,
+  payload: TournamentRoomPayload,
+  callback: (response: TournamentRoomResponse) => void
+): Promise<void> {
+  const userId = socket.data.user.id;
+
+  try {
+    if (!(await consumeRateLimit('socketJoinTournament', `user:${userId}`))) {
+      return callback({
+        success: false,
+        error: RATE_LIMIT_POLICIES.socketJoinTournament.message,
+        code: ERROR_CODES.RATE_LIMITED,
+      });
+    }
+
+    if (!payload?.tournamentId || typeof payload.tournamentId !== 'string') {
+      return callback({
+        success: false,
+        error: 'Invalid payload: tournamentId is required',
+        code: ERROR_CODES.VALIDATION_ERROR,
+      });
+    }
+
+    const { tournamentId } = payload;
+    await joinTournamentRoom(socket, tournamentId);
+
+    callback({
+      success: true,
+      tournamentId,
+    });
+  } catch (error) {
+    logger.error(`[Socket] Join tournament failed for user ${userId}:`, error);
+
+    if (error instanceof NotFoundError) {
+      return callback({
+        success: false,
+        error: 'Tournament not found',
+        code: ERROR_CODES.TOURNAMENT_NOT_FOUND,
+      });
+    }
+
+    callback({
+      success: false,
+      error: 'Failed to join tournament',
+      code: ERROR_CODES.INTERNAL_ERROR,
+    });
+  }
+}
+
+/**
+ * Handles leave:tournament event.
+ */
+function handleLeaveTournament(
+  socket: TypedSocket,
+  payload: TournamentRoomPayload,
+  callback: (response: TournamentRoomResponse) => void
+): void {
+  const userId = socket.data.user.id;
+
+  try {
+    if (!payload?.tournamentId || typeof payload.tournamentId !== 'string') {
+      return callback({
+        success: false,
+        error: 'Invalid payload: tournamentId is required',
+      });
+    }
+
+    const { tournamentId } = payload;
+
+    if (!leaveTournamentRoom(socket, tournamentId)) {
+      return callback({
+        success: false,
+        error: 'You are not in this tournament room',
+      });
+    }
+
+    callback({
+      success: true,
+      tournamentId,
+    });
+  } catch (error) {
+    logger.error(`[Socket] Leave tournament failed for user ${userId}:`, error);
+
+    callback({
+      success: false,
+      error: 'Failed to leave tournament',
+    });
+  }
+}
+
 /**
  * Handles socket disconnection.
  * Cleans up rooms and logs the event.
@@ -216,7 +339,7 @@ function handleDisconnect(socket: TypedSocket, reason: string): void {
 
   // Broadcast left:match only to match rooms (not user rooms or event rooms)
   for (const roomId of joinedRooms) {
-    // Skip non-match rooms (user-*, event-*)
+    // Skip non-match rooms (user-*, event-*, tournament-*)
     if (!roomId.startsWith('match-')) {
       continue;
     }
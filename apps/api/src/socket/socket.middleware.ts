@@ -6,7 +6,9 @@
 
 import type { Socket } from 'socket.io';
 import type { ExtendedError } from 'socket.io/dist/namespace';
+import { ERROR_CODES } from '@pick-rivals/shared-types';
 import { verifyAccessToken } from '../modules/auth/auth.service';
+import { AppError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import type {
   SocketData,
@@ -81,6 +83,13 @@ export async function socketAuthMiddleware(
     );
 
     // Return specific error messages for client handling
+    if (
+      error instanceof AppError &&
+      (error.code === ERROR_CODES.ACCOUNT_SUSPENDED || error.code === ERROR_CODES.ACCOUNT_BANNED)
+    ) {
+      return next(new Error(error.code === ERROR_CODES.ACCOUNT_BANNED ? 'ACCOUNT_BANNED' : 'ACCOUNT_SUSPENDED'));
+    }
+
     if (errorMessage.includes('expired')) {
       return next(new Error('TOKEN_EXPIRED'));
     }
@@ -10,6 +10,7 @@ import { createAdapter } from '@socket.io/redis-adapter';
 import { Redis } from 'ioredis';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { prisma } from '../lib/prisma';
 import { getMatchById } from '../modules/matches/matches.service';
 import { ForbiddenError, NotFoundError } from '../utils/errors';
 import {
@@ -20,6 +21,7 @@ import {
   JoinedMatchPayload,
   LeftMatchPayload,
   getMatchRoomId,
+  getTournamentRoomId,
 } from './socket.types';
 
 // ===========================================
@@ -254,6 +256,66 @@ export function leaveMatchRoom(
   return roomId;
 }
 
+/**
+ * Joins a socket to a tournament room. Brackets are public, so any
+ * authenticated user may watch one.
+ * @throws {NotFoundError} if tournament doesn't exist
+ * @returns The room ID that was joined
+ */
+export async function joinTournamentRoom(
+  socket: TypedSocket,
+  tournamentId: string
+): Promise<string> {
+  const userId = socket.data.user.id;
+  const roomId = getTournamentRoomId(tournamentId);
+
+  const tournament = await prisma.tournament.findUnique({
+    where: { id: tournamentId },
+    select: { id: true },
+  });
+
+  if (!tournament) {
+    throw new NotFoundError(`Tournament not found: ${tournamentId}`);
+  }
+
+  await socket.join(roomId);
+  socket.data.joinedRooms.add(roomId);
+
+  logger.info(
+    `[Socket] User ${userId} joined room ${roomId} (socket: ${socket.id})`
+  );
+
+  return roomId;
+}
+
+/**
+ * Leaves a tournament room.
+ * @returns The room ID that was left, or null if not in room
+ */
+export function leaveTournamentRoom(
+  socket: TypedSocket,
+  tournamentId: string
+): string | null {
+  const userId = socket.data.user.id;
+  const roomId = getTournamentRoomId(tournamentId);
+
+  if (!socket.data.joinedRooms.has(roomId)) {
+    logger.warn(
+      `[Socket] User ${userId} tried to leave room ${roomId} but wasn't in it`
+    );
+    return null;
+  }
+
+  socket.leave(roomId);
+  socket.data.joinedRooms.delete(roomId);
+
+  logger.info(
+    `[Socket] User ${userId} left room ${roomId} (socket: ${socket.id})`
+  );
+
+  return roomId;
+}
+
 /**
  * Leaves all match rooms for a socket (used on disconnect).
  */
@@ -6,6 +6,7 @@
 import type { AuthenticatedUser } from '../modules/auth/auth.service';
 import type { EventStatus } from '@prisma/client';
 import type { GameTime } from '../services/live-scores/types';
+import type { TournamentBracketRound } from '../modules/tournaments/tournaments.schemas';
 
 // ===========================================
 // Socket Session Data
@@ -38,6 +39,13 @@ export interface LeaveMatchPayload {
   matchId: string;
 }
 
+/**
+ * Payload for join:tournament / leave:tournament events.
+ */
+export interface TournamentRoomPayload {
+  tournamentId: string;
+}
+
 /**
  * Client-to-server event map.
  */
@@ -50,6 +58,14 @@ export interface ClientToServerEvents {
     payload: LeaveMatchPayload,
     callback: (response: LeaveMatchResponse) => void
   ) => void;
+  'join:tournament': (
+    payload: TournamentRoomPayload,
+    callback: (response: TournamentRoomResponse) => void
+  ) => void;
+  'leave:tournament': (
+    payload: TournamentRoomPayload,
+    callback: (response: TournamentRoomResponse) => void
+  ) => void;
 }
 
 // ===========================================
@@ -75,6 +91,16 @@ export interface LeaveMatchResponse {
   error?: string;
 }
 
+/**
+ * Response for join:tournament / leave:tournament acknowledgment.
+ */
+export interface TournamentRoomResponse {
+  success: boolean;
+  tournamentId?: string;
+  error?: string;
+  code?: string;
+}
+
 /**
  * Payload for joined:match broadcast.
  */
@@ -240,6 +266,112 @@ export interface QueueExpiredPayload {
   reason: string;
 }
 
+// ===========================================
+// Match Cancellation Events
+// ===========================================
+
+/**
+ * Payload for match:cancel-requested event.
+ * Sent to the other participant when one side asks to cancel a matched game.
+ * Client should prompt the user to confirm or ignore the request.
+ */
+export interface MatchCancelRequestedPayload {
+  /** The match ID */
+  matchId: string;
+  /** User ID that requested the cancellation */
+  requestedBy: string;
+  /** Optional reason supplied by the requester */
+  reason: string | null;
+  /** ISO timestamp of the request */
+  requestedAt: string;
+}
+
+/**
+ * Payload for match:cancelled event.
+ * Sent to the other participant when a match is cancelled and stakes refunded.
+ */
+export interface MatchCancelledPayload {
+  /** The match ID */
+  matchId: string;
+  /** User ID that completed the cancellation */
+  cancelledBy: string;
+  /** Human-readable cancellation reason */
+  reason: string;
+  /** Whether both parties agreed (matched) or the creator withdrew (pending) */
+  mutual: boolean;
+  /** ISO timestamp when the match was cancelled */
+  cancelledAt: string;
+}
+
+// ===========================================
+// Rematch Events
+// ===========================================
+
+/**
+ * Payload for match:rematch-requested event.
+ * Sent to the original opponent when a player asks to run a settled match back.
+ * Client should offer to accept (build a slip and ask back) or ignore.
+ */
+export interface MatchRematchRequestedPayload {
+  /** The pending rematch ID */
+  matchId: string;
+  /** The settled match being replayed */
+  originalMatchId: string;
+  /** User ID that requested the rematch */
+  requestedBy: string;
+  /** Requester's username for display */
+  requesterUsername: string;
+  /** Stake amount in cents (same as the original match) */
+  stakeAmount: number;
+  /** Pick count the accepting slip must have (null = any size) */
+  requiredSlipSize: number | null;
+  /** ISO timestamp when the request expires */
+  expiresAt: string;
+}
+
+/**
+ * Payload for match:rematch-started event.
+ * Sent to the requester when the other player accepts and the rematch begins.
+ */
+export interface MatchRematchStartedPayload {
+  /** The rematch ID */
+  matchId: string;
+  /** The settled match being replayed */
+  originalMatchId: string;
+  /** User ID that accepted the rematch */
+  acceptedBy: string;
+  /** ISO timestamp when the rematch started */
+  startedAt: string;
+}
+
+// ===========================================
+// Tournament Events
+// ===========================================
+
+export type TournamentUpdateReason =
+  | 'registration'
+  | 'started'
+  | 'slip-submitted'
+  | 'bracket-advanced'
+  | 'completed'
+  | 'cancelled';
+
+/**
+ * Payload for tournament:updated event.
+ * Sent to the tournament room (and to affected players' user rooms)
+ * whenever the bracket changes. Carries the full bracket so clients
+ * can re-render without refetching.
+ */
+export interface TournamentUpdatedPayload {
+  tournamentId: string;
+  status: string;
+  currentRound: number;
+  entrantCount: number;
+  reason: TournamentUpdateReason;
+  bracket: TournamentBracketRound[];
+  timestamp: string;
+}
+
 /**
  * Server-to-client event map.
  */
@@ -251,6 +383,11 @@ export interface ServerToClientEvents {
   'match:settled': (payload: MatchSettledPayload) => void;
   'match:created': (payload: MatchCreatedPayload) => void;
   'queue:expired': (payload: QueueExpiredPayload) => void;
+  'match:cancel-requested': (payload: MatchCancelRequestedPayload) => void;
+  'match:cancelled': (payload: MatchCancelledPayload) => void;
+  'match:rematch-requested': (payload: MatchRematchRequestedPayload) => void;
+  'match:rematch-started': (payload: MatchRematchStartedPayload) => void;
+  'tournament:updated': (payload: TournamentUpdatedPayload) => void;
   error: (payload: { message: string; code: string }) => void;
 }
 
@@ -305,6 +442,15 @@ export function getEventIdFromRoom(roomId: string): string | null {
   return null;
 }
 
+/**
+ * Generates a room ID from a tournament ID.
+ * Format: tournament-{tournamentId}
+ * Used for live bracket updates.
+ */
+export function getTournamentRoomId(tournamentId: string): string {
+  return `tournament-${tournamentId}`;
+}
+
 /**
  * Generates a room ID for a specific user.
  * Format: user-{userId}
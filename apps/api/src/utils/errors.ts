@@ -59,3 +59,15 @@ export class InsufficientBalanceError extends AppError {
     super(message, 400, ERROR_CODES.INSUFFICIENT_BALANCE);
   }
 }
+
+export class InvalidReceiptError extends AppError {
+  constructor(message: string = 'Invalid purchase receipt') {
+    super(message, 400, ERROR_CODES.INVALID_RECEIPT);
+  }
+}
+
+export class WalletFrozenError extends AppError {
+  constructor(message: string = 'Wallet is frozen pending review') {
+    super(message, 403, ERROR_CODES.WALLET_FROZEN);
+  }
+}
@@ -65,6 +65,14 @@ export default function HomeScreen() {
     router.push('/friends');
   }, []);
 
+  const handleLeagues = useCallback(() => {
+    router.push('/leagues');
+  }, []);
+
+  const handleTournaments = useCallback(() => {
+    router.push('/tournaments');
+  }, []);
+
   const handleInviteFriend = useCallback(async () => {
     try {
       await Share.share({
@@ -188,6 +196,20 @@ export default function HomeScreen() {
               style={styles.actionCard}
             />
           </View>
+          <GameModeCard
+            title="Leagues"
+            subtitle="Weekly rounds with your crew"
+            iconName="trophy"
+            onPress={handleLeagues}
+            style={styles.leaguesCard}
+          />
+          <GameModeCard
+            title="Tournaments"
+            subtitle="Knockout brackets with prize pools"
+            iconName="git-network"
+            onPress={handleTournaments}
+            style={styles.leaguesCard}
+          />
         </View>
 
         {/* ============================================= */}
@@ -313,6 +335,9 @@ const styles = StyleSheet.create({
   actionCard: {
     flex: 1,
   },
+  leaguesCard: {
+    marginTop: 12,
+  },
 
   // Tier Progress Section
   tierSection: {
@@ -1,7 +1,8 @@
 // =====================================================
 // Leaderboard Screen
 // =====================================================
-// Displays global and weekly leaderboards with current user position
+// Displays all-time, weekly, monthly and seasonal leaderboards (overall or
+// per sport) as top, friends-only or "around me" views with current user position
 
 import React, { useCallback, useMemo } from 'react';
 import {
@@ -23,24 +24,57 @@ import {
   LEADERBOARD_ROW_HEIGHT,
   UserRankCard,
   LeaderboardPeriodTabs,
+  LeaderboardSportFilter,
+  LeaderboardViewTabs,
   LeaderboardSkeleton,
 } from '../../src/components/leaderboard';
-import type { LeaderboardEntry } from '../../src/types/leaderboard.types';
+import type {
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  LeaderboardView,
+} from '../../src/types/leaderboard.types';
 import { LUXURY_THEME } from '../../src/constants/theme';
 
+// =====================================================
+// Config
+// =====================================================
+
+const PERIOD_TITLES: Record<LeaderboardPeriod, string> = {
+  'all-time': 'All Time',
+  weekly: 'This Week',
+  monthly: 'This Month',
+  seasonal: 'This Season',
+};
+
+const EMPTY_MESSAGES: Record<LeaderboardPeriod, string> = {
+  'all-time': 'Complete matches to appear on the leaderboard',
+  weekly: "Be the first to climb this week's leaderboard!",
+  monthly: "Be the first to climb this month's leaderboard!",
+  seasonal: "Be the first to climb this season's leaderboard!",
+};
+
+const VIEW_EMPTY_MESSAGES: Record<Exclude<LeaderboardView, 'top'>, string> = {
+  friends: 'Add friends and play matches to see how you stack up',
+  'around-me': 'Complete a match to see who you are up against',
+};
+
 // =====================================================
 // Sub-components
 // =====================================================
 
-function EmptyState({ period }: { period: string }): React.ReactElement {
+function EmptyState({
+  period,
+  view,
+}: {
+  period: LeaderboardPeriod;
+  view: LeaderboardView;
+}): React.ReactElement {
   return (
     <View style={styles.emptyContainer}>
       <Text style={styles.emptyIcon}>{'\u{1F3C6}'}</Text>
       <Text style={styles.emptyTitle}>No Rankings Yet</Text>
       <Text style={styles.emptyMessage}>
-        {period === 'weekly'
-          ? "Be the first to climb this week's leaderboard!"
-          : 'Complete matches to appear on the leaderboard'}
+        {view === 'top' ? EMPTY_MESSAGES[period] : VIEW_EMPTY_MESSAGES[view]}
       </Text>
     </View>
   );
@@ -97,6 +131,11 @@ export default function LeaderboardScreen(): React.ReactElement {
     error,
     period,
     setPeriod,
+    sport,
+    setSport,
+    view,
+    setView,
+    userRank,
     refresh,
     loadMore,
     currentUserEntry,
@@ -147,23 +186,36 @@ export default function LeaderboardScreen(): React.ReactElement {
         {/* Period Tabs */}
         <LeaderboardPeriodTabs selected={period} onSelect={setPeriod} />
 
+        {/* Sport Filter */}
+        <LeaderboardSportFilter selected={sport} onSelect={setSport} />
+
+        {/* View Tabs - friends and around-me need an account */}
+        {isAuthenticated && <LeaderboardViewTabs selected={view} onSelect={setView} />}
+
         {/* Section Title */}
         <View style={styles.sectionHeader}>
           <Text style={styles.sectionTitle}>
-            {period === 'weekly' ? 'This Week' : 'All Time'} Rankings
+            {PERIOD_TITLES[period]} {sport === 'ALL' ? '' : `${sport} `}Rankings
           </Text>
-          {pagination && pagination.total > 0 && (
-            <Text style={styles.sectionCount}>{pagination.total} players</Text>
+          {view === 'around-me' && userRank !== null ? (
+            <Text style={styles.sectionCount}>You are #{userRank}</Text>
+          ) : (
+            pagination &&
+            pagination.total > 0 && (
+              <Text style={styles.sectionCount}>
+                {pagination.total} {view === 'friends' ? 'friends' : 'players'}
+              </Text>
+            )
           )}
         </View>
       </View>
     ),
-    [period, setPeriod, pagination]
+    [period, setPeriod, sport, setSport, view, setView, userRank, isAuthenticated, pagination]
   );
 
   const ListEmptyComponent = useMemo(
-    () => <EmptyState period={period} />,
-    [period]
+    () => <EmptyState period={period} view={view} />,
+    [period, view]
   );
 
   const ListFooterComponent = useMemo(
@@ -181,6 +233,8 @@ export default function LeaderboardScreen(): React.ReactElement {
       {isLoading ? (
         <View>
           <LeaderboardPeriodTabs selected={period} onSelect={setPeriod} />
+          <LeaderboardSportFilter selected={sport} onSelect={setSport} />
+          {isAuthenticated && <LeaderboardViewTabs selected={view} onSelect={setView} />}
           <LeaderboardSkeleton />
         </View>
       ) : error ? (
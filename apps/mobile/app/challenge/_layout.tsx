@@ -31,6 +31,13 @@ export default function ChallengeLayout() {
           presentation: 'card',
         }}
       />
+      <Stack.Screen
+        name="rematch"
+        options={{
+          title: 'Rematch',
+          presentation: 'card',
+        }}
+      />
     </Stack>
   );
 }
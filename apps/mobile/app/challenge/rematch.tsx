@@ -0,0 +1,560 @@
+// =====================================================
+// Rematch Screen
+// =====================================================
+// "Run it back" after a settled match: build a new slip and ask the same
+// opponent for a rematch at the same stake. If they already asked, the
+// rematch starts straight away.
+
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  Switch,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import type { MatchWithDetails } from '@pick-rivals/shared-types';
+
+import { MatchService } from '../../src/services/match.service';
+import { createSlip } from '../../src/services/slip.service';
+import { useAuthStore } from '../../src/stores/auth.store';
+import { useWallet } from '../../src/hooks/useWallet';
+import { mapDraftPicksToPayload } from '../../src/utils/slip-mapper';
+import { DraftPick, SLIP_MAX_PICKS } from '../../src/types/slip.types';
+import { PickItem } from '../../src/components/slip/PickItem';
+import { BettingEventCard } from '../../src/components/betting/BettingEventCard';
+import { useEvents } from '../../src/hooks/useEvents';
+
+// =====================================================
+// Main Component
+// =====================================================
+
+export default function RematchScreen() {
+  const router = useRouter();
+  const { matchId } = useLocalSearchParams<{ matchId: string }>();
+  const { user } = useAuthStore();
+  const { balance, refreshBalance } = useWallet();
+  const {
+    events,
+    isLoading: isLoadingEvents,
+    isRefreshing,
+    refresh: refreshEvents,
+  } = useEvents();
+
+  // Original match state
+  const [original, setOriginal] = useState<MatchWithDetails | null>(null);
+  const [isLoadingMatch, setIsLoadingMatch] = useState(true);
+  const [matchError, setMatchError] = useState<string | null>(null);
+
+  // Draft picks state (local slip builder)
+  const [draftPicks, setDraftPicks] = useState<DraftPick[]>([]);
+  const [sameSlipSize, setSameSlipSize] = useState(false);
+
+  // Submission state
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Fetch the settled match on mount
+  useEffect(() => {
+    if (!matchId) return;
+
+    const fetchOriginal = async () => {
+      setIsLoadingMatch(true);
+      setMatchError(null);
+
+      try {
+        const match = await MatchService.getMatchById(matchId);
+        setOriginal(match);
+      } catch (error: any) {
+        setMatchError(error.message || 'Failed to load match');
+      } finally {
+        setIsLoadingMatch(false);
+      }
+    };
+
+    fetchOriginal();
+  }, [matchId]);
+
+  const isCreator = original?.creatorId === user?.id;
+  const rival = isCreator ? original?.opponent : original?.creator;
+  const originalSlipSize =
+    (isCreator ? original?.creatorSlip?.totalPicks : original?.opponentSlip?.totalPicks) ?? 0;
+  const requiredPicks = sameSlipSize && originalSlipSize > 0 ? originalSlipSize : null;
+
+  // Calculate point potential
+  const pointPotential = useMemo(
+    () => draftPicks.reduce((sum, pick) => sum + pick.pointValue, 0),
+    [draftPicks]
+  );
+
+  // Handle adding a pick (one per event)
+  const handleAddPick = useCallback(
+    (pick: DraftPick) => {
+      const hasDuplicateEvent = draftPicks.some((p) => p.sportsEventId === pick.sportsEventId);
+      if (hasDuplicateEvent) {
+        setDraftPicks((prev) =>
+          prev.map((p) => (p.sportsEventId === pick.sportsEventId ? pick : p))
+        );
+      } else if (draftPicks.length >= (requiredPicks ?? SLIP_MAX_PICKS)) {
+        setSubmitError(`Maximum ${requiredPicks ?? SLIP_MAX_PICKS} picks allowed`);
+        return;
+      } else {
+        setDraftPicks((prev) => [...prev, pick]);
+      }
+
+      setSubmitError(null);
+    },
+    [draftPicks, requiredPicks]
+  );
+
+  // Handle removing a pick
+  const handleRemovePick = useCallback((pickId: string) => {
+    setDraftPicks((prev) => prev.filter((p) => p.id !== pickId));
+    setSubmitError(null);
+  }, []);
+
+  // Check if user can request the rematch
+  const canSubmit = useMemo(() => {
+    if (!original || isSubmitting) return false;
+    if (draftPicks.length === 0) return false;
+    if (requiredPicks !== null && draftPicks.length !== requiredPicks) return false;
+    if (balance.total < original.stakeAmount) return false;
+    return true;
+  }, [original, isSubmitting, draftPicks, requiredPicks, balance.total]);
+
+  // Handle requesting the rematch
+  const handleSubmit = useCallback(async () => {
+    if (!canSubmit || !original) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      // 1. Create a draft slip (the rematch locks it)
+      const slip = await createSlip(mapDraftPicksToPayload(draftPicks));
+
+      // 2. Request the rematch
+      const result = await MatchService.requestRematch(original.id, {
+        slipId: slip.id,
+        sameSlipSize,
+      });
+
+      // 3. Refresh balance
+      await refreshBalance();
+
+      // 4. Straight into the match if the opponent had already asked
+      if (result.status === 'REMATCH_STARTED') {
+        router.replace(`/match/${result.match.id}`);
+      } else {
+        router.replace({
+          pathname: '/(tabs)/matches',
+          params: { highlightMatchId: result.match.id },
+        });
+      }
+    } catch (error: any) {
+      setSubmitError(error.message || 'Failed to request rematch');
+      setIsSubmitting(false);
+    }
+  }, [canSubmit, original, draftPicks, sameSlipSize, refreshBalance, router]);
+
+  // Loading the original match
+  if (isLoadingMatch && matchId) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'Loading Rematch...' }} />
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#6366f1" />
+            <Text style={styles.loadingText}>Loading match...</Text>
+          </View>
+        </SafeAreaView>
+      </>
+    );
+  }
+
+  // Missing or unavailable match
+  if (!matchId || matchError || !original || !rival) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'Rematch' }} />
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorTitle}>Rematch Unavailable</Text>
+            <Text style={styles.errorMessage}>
+              {matchError || 'This match could not be loaded'}
+            </Text>
+            <Pressable style={styles.actionButton} onPress={() => router.back()}>
+              <Text style={styles.actionButtonText}>Go Back</Text>
+            </Pressable>
+          </View>
+        </SafeAreaView>
+      </>
+    );
+  }
+
+  const hasEnoughBalance = balance.total >= original.stakeAmount;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: 'Rematch',
+          headerStyle: { backgroundColor: '#0f0f23' },
+          headerTintColor: '#fff',
+          headerShadowVisible: false,
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={refreshEvents} tintColor="#6366f1" />
+          }
+        >
+          {/* Rematch Details Card */}
+          <View style={styles.matchCard}>
+            <Text style={styles.matchTitle}>Run it back against</Text>
+            <Text style={styles.rivalName}>{rival.username}</Text>
+
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Stake</Text>
+              <Text style={styles.detailValue}>{original.stakeAmount.toLocaleString()} RC</Text>
+            </View>
+
+            {originalSlipSize > 0 && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Same slip size ({originalSlipSize} picks)</Text>
+                <Switch
+                  value={sameSlipSize}
+                  onValueChange={setSameSlipSize}
+                  disabled={isSubmitting}
+                  trackColor={{ true: '#6366f1', false: '#2a2a3e' }}
+                />
+              </View>
+            )}
+
+            <Text style={styles.hintText}>
+              If {rival.username} asks for a rematch too, the match starts automatically.
+            </Text>
+          </View>
+
+          {/* Your Picks Section */}
+          {draftPicks.length > 0 && (
+            <View style={styles.picksSection}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Your Picks ({draftPicks.length})</Text>
+                <Text style={styles.pointsText}>{pointPotential} pts</Text>
+              </View>
+              {draftPicks.map((pick) => (
+                <View key={pick.id} style={styles.pickItem}>
+                  <PickItem pick={pick} onRemove={() => handleRemovePick(pick.id)} showRemove />
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Events List */}
+          <View style={styles.eventsSection}>
+            <Text style={styles.sectionTitle}>Select Events</Text>
+            {isLoadingEvents ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator color="#6366f1" />
+                <Text style={styles.loadingText}>Loading events...</Text>
+              </View>
+            ) : events.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyText}>No events available</Text>
+              </View>
+            ) : (
+              <FlatList
+                data={events}
+                renderItem={({ item }) => (
+                  <BettingEventCard
+                    event={item}
+                    existingPicks={draftPicks}
+                    onPickSelect={handleAddPick}
+                    onPickRemove={handleRemovePick}
+                    disabled={isSubmitting}
+                  />
+                )}
+                keyExtractor={(item) => item.id}
+                ItemSeparatorComponent={() => <View style={styles.eventSeparator} />}
+                scrollEnabled={false}
+              />
+            )}
+          </View>
+        </ScrollView>
+
+        {/* Error Banner */}
+        {submitError && (
+          <View style={styles.errorBanner}>
+            <Text style={styles.errorBannerText}>{submitError}</Text>
+            <Pressable onPress={() => setSubmitError(null)} hitSlop={8}>
+              <Text style={styles.errorDismiss}>✕</Text>
+            </Pressable>
+          </View>
+        )}
+
+        {/* Submit Footer */}
+        <View style={styles.footer}>
+          <View style={styles.pickCountRow}>
+            <Text style={styles.pickCountText}>
+              {draftPicks.length}/{requiredPicks ?? SLIP_MAX_PICKS} picks
+            </Text>
+            <Text style={styles.pointPotentialText}>{pointPotential} point potential</Text>
+          </View>
+
+          <Pressable
+            style={[styles.submitButton, !canSubmit && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <View style={styles.submittingContent}>
+                <ActivityIndicator color="#ffffff" size="small" />
+                <Text style={styles.submitButtonText}>Sending...</Text>
+              </View>
+            ) : (
+              <Text style={styles.submitButtonText}>
+                {!hasEnoughBalance
+                  ? 'Insufficient balance'
+                  : requiredPicks !== null && draftPicks.length !== requiredPicks
+                  ? `Pick exactly ${requiredPicks}`
+                  : draftPicks.length === 0
+                  ? 'Add picks to request'
+                  : 'Request Rematch'}
+              </Text>
+            )}
+          </Pressable>
+        </View>
+      </SafeAreaView>
+    </>
+  );
+}
+
+// =====================================================
+// Styles
+// =====================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f0f23',
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 200, // Space for footer
+  },
+
+  // Loading/Error States
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  loadingText: {
+    color: '#9ca3af',
+    fontSize: 14,
+    marginTop: 12,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorTitle: {
+    color: '#ef4444',
+    fontSize: 22,
+    fontWeight: '700',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  errorMessage: {
+    color: '#9ca3af',
+    fontSize: 15,
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  actionButton: {
+    backgroundColor: '#3b82f6',
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    borderRadius: 12,
+    minHeight: 48,
+  },
+  actionButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyContainer: {
+    paddingVertical: 32,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: '#6b7280',
+    fontSize: 14,
+  },
+
+  // Rematch Details Card
+  matchCard: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 2,
+    borderColor: '#6366f1',
+    gap: 12,
+  },
+  matchTitle: {
+    color: '#9ca3af',
+    fontSize: 14,
+  },
+  rivalName: {
+    color: '#ffffff',
+    fontSize: 24,
+    fontWeight: '800',
+    marginBottom: 4,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  detailLabel: {
+    color: '#9ca3af',
+    fontSize: 14,
+  },
+  detailValue: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hintText: {
+    color: '#6b7280',
+    fontSize: 13,
+    lineHeight: 18,
+  },
+
+  // Picks Section
+  picksSection: {
+    marginBottom: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  pointsText: {
+    color: '#22c55e',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  pickItem: {
+    marginBottom: 8,
+  },
+
+  // Events Section
+  eventsSection: {
+    marginBottom: 20,
+  },
+  eventSeparator: {
+    height: 12,
+  },
+
+  // Error Banner
+  errorBanner: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: 'rgba(239, 68, 68, 0.95)',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    zIndex: 100,
+  },
+  errorBannerText: {
+    color: '#ffffff',
+    fontSize: 14,
+    flex: 1,
+  },
+  errorDismiss: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+    paddingLeft: 12,
+  },
+
+  // Footer
+  footer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#1a1a2e',
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a3e',
+    padding: 16,
+    paddingBottom: 32,
+  },
+  pickCountRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  pickCountText: {
+    color: '#9ca3af',
+    fontSize: 14,
+  },
+  pointPotentialText: {
+    color: '#22c55e',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  submitButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 14,
+    paddingVertical: 16,
+    alignItems: 'center',
+    shadowColor: '#6366f1',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#2a2a3e',
+    shadowOpacity: 0,
+  },
+  submitButtonText: {
+    color: '#ffffff',
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  submittingContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+});
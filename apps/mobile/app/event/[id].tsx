@@ -1,7 +1,7 @@
 // =====================================================
 // Event Detail Screen - Player Props View
 // =====================================================
-// Displays full event details with player props.
+// Displays full event details, line movement and player props.
 // Dynamic route: /event/[id]
 
 import React, { useMemo, useCallback } from 'react';
@@ -17,11 +17,12 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { useQuery } from '@tanstack/react-query';
-import { PropOdds, formatOdds, formatPropType } from '@pick-rivals/shared-types';
+import { PropOdds, EventOddsHistory, formatOdds, formatPropType } from '@pick-rivals/shared-types';
 import { api } from '../../src/services/api';
 import { useSlipStore } from '../../src/stores/slip.store';
 import { PlayerPropsSection } from '../../src/components/betting/PlayerPropsSection';
 import { SlipFAB } from '../../src/components/betting/SlipFAB';
+import { LineMovementChart } from '../../src/components/events/LineMovementChart';
 import { LUXURY_THEME } from '../../src/constants/theme';
 import { AddPickInput, DraftPickEventInfo } from '../../src/types/slip.types';
 
@@ -158,6 +159,17 @@ export default function EventDetailScreen() {
     staleTime: 30000, // 30 seconds
   });
 
+  // Fetch line movement (optional - the chart is hidden if unavailable)
+  const { data: oddsHistory, refetch: refetchOddsHistory } = useQuery({
+    queryKey: ['event-odds-history', id],
+    queryFn: async () => {
+      const response = await api.get(`/events/${id}/odds-history`);
+      return response.data.data as EventOddsHistory;
+    },
+    enabled: !!id,
+    staleTime: 60000, // 1 minute
+  });
+
   // Slip store
   const addPick = useSlipStore((s) => s.addPick);
   const removePick = useSlipStore((s) => s.removePick);
@@ -242,7 +254,8 @@ export default function EventDetailScreen() {
   const handleRefresh = useCallback(() => {
     refetchEvent();
     refetchProps();
-  }, [refetchEvent, refetchProps]);
+    refetchOddsHistory();
+  }, [refetchEvent, refetchProps, refetchOddsHistory]);
 
   const handleBack = useCallback(() => {
     router.back();
@@ -291,6 +304,13 @@ export default function EventDetailScreen() {
       >
         <EventHeader event={eventData} onBack={handleBack} />
 
+        {oddsHistory && (
+          <LineMovementChart
+            history={oddsHistory}
+            homeLabel={eventData.homeTeamAbbr || eventData.homeTeamName}
+          />
+        )}
+
         <View style={styles.propsSection}>
           {props.length > 0 ? (
             <PlayerPropsSection
@@ -0,0 +1,466 @@
+// =====================================================
+// League Detail Screen
+// =====================================================
+// Standings, members and this week's round for a private league.
+// Members submit their slip for the round from here; the owner can
+// share the invite code or archive the league.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+  Alert,
+  Share,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import type { LeagueDetails, LeagueEntryStatus } from '@pick-rivals/shared-types';
+import { LeagueService } from '../../src/services/league.service';
+import { GlassCard } from '../../src/components/ui/GlassCard';
+import { GoldButton } from '../../src/components/ui/GoldButton';
+import { LUXURY_THEME } from '../../src/constants/theme';
+import { formatWeeklySchedule } from '../../src/utils/date-helpers';
+
+// =====================================================
+// Constants
+// =====================================================
+
+const ENTRY_STATUS_LABELS: Record<LeagueEntryStatus, string> = {
+  SUBMITTED: 'Slip locked in. Pairings go out when the round starts.',
+  MATCHED: "You've been paired for this round.",
+  UNMATCHED: 'No opponent this round. Your slip and stake were returned.',
+};
+
+// =====================================================
+// Main Component
+// =====================================================
+
+export default function LeagueDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+
+  const [league, setLeague] = useState<LeagueDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const fetchLeague = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const data = await LeagueService.getLeague(id);
+      setLeague(data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load league');
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchLeague().finally(() => setIsLoading(false));
+  }, [fetchLeague]);
+
+  // Refresh when returning from slip submission
+  useFocusEffect(
+    useCallback(() => {
+      fetchLeague();
+    }, [fetchLeague])
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await fetchLeague();
+    setIsRefreshing(false);
+  }, [fetchLeague]);
+
+  const handleShareCode = useCallback(async () => {
+    if (!league) return;
+
+    try {
+      await Share.share({
+        message: `Join my PickRivals league "${league.name}" with code ${league.inviteCode}`,
+      });
+    } catch (err) {
+      console.error('Share error:', err);
+    }
+  }, [league]);
+
+  const handleLeaveOrArchive = useCallback(() => {
+    if (!league) return;
+
+    const title = league.isOwner ? 'Archive League' : 'Leave League';
+    const message = league.isOwner
+      ? 'No more rounds will be played. Slips submitted for this round are refunded.'
+      : 'Your slip for this round (if any) will be refunded.';
+
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: league.isOwner ? 'Archive' : 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          setIsUpdating(true);
+          try {
+            if (league.isOwner) {
+              setLeague(await LeagueService.archiveLeague(league.id));
+            } else {
+              await LeagueService.leaveLeague(league.id);
+              router.back();
+            }
+          } catch (err: any) {
+            Alert.alert('Error', err.message || `Failed to ${league.isOwner ? 'archive' : 'leave'} league`);
+          } finally {
+            setIsUpdating(false);
+          }
+        },
+      },
+    ]);
+  }, [league]);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={LUXURY_THEME.gold.main} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !league) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>{error || 'League not found'}</Text>
+          <GoldButton onPress={() => router.back()} variant="outline">
+            Go Back
+          </GoldButton>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const isActive = league.status === 'ACTIVE';
+  const submittedCount = league.members.filter((member) => member.hasSubmitted).length;
+
+  return (
+    <>
+      <Stack.Screen options={{ title: league.name }} />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={handleRefresh}
+              tintColor={LUXURY_THEME.gold.main}
+            />
+          }
+        >
+          {/* League Info */}
+          <GlassCard padded style={styles.card}>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Schedule</Text>
+              <Text style={styles.infoValue}>
+                {isActive ? formatWeeklySchedule(league.scheduleDay, league.scheduleHour) : 'Archived'}
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Stake per match</Text>
+              <Text style={styles.infoValue}>{league.stakeAmount.toLocaleString()} RC</Text>
+            </View>
+            {league.slipSize !== null && (
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Slip size</Text>
+                <Text style={styles.infoValue}>{league.slipSize} picks</Text>
+              </View>
+            )}
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Members</Text>
+              <Text style={styles.infoValue}>
+                {league.memberCount}/{league.maxMembers}
+              </Text>
+            </View>
+            {isActive && (
+              <Pressable style={styles.inviteRow} onPress={handleShareCode}>
+                <View>
+                  <Text style={styles.infoLabel}>Invite code</Text>
+                  <Text style={styles.inviteCode}>{league.inviteCode}</Text>
+                </View>
+                <Ionicons name="share-outline" size={22} color={LUXURY_THEME.gold.main} />
+              </Pressable>
+            )}
+          </GlassCard>
+
+          {/* This Round */}
+          {isActive && (
+            <>
+              <Text style={styles.sectionLabel}>ROUND {league.currentRound}</Text>
+              <GlassCard padded style={styles.card}>
+                <Text style={styles.roundTiming}>
+                  Starts {new Date(league.nextRoundAt).toLocaleString()}
+                </Text>
+                <Text style={styles.roundMeta}>
+                  {submittedCount}/{league.memberCount} slips in
+                </Text>
+                {league.myEntry ? (
+                  <>
+                    <Text style={styles.entryStatus}>
+                      {ENTRY_STATUS_LABELS[league.myEntry.status]}
+                    </Text>
+                    {league.myEntry.matchId && (
+                      <GoldButton
+                        onPress={() => router.push(`/match/${league.myEntry!.matchId}`)}
+                        variant="outline"
+                        fullWidth
+                        style={styles.submitButton}
+                      >
+                        View Match
+                      </GoldButton>
+                    )}
+                  </>
+                ) : (
+                  <GoldButton
+                    onPress={() =>
+                      router.push({ pathname: '/leagues/slip', params: { leagueId: league.id } })
+                    }
+                    fullWidth
+                    style={styles.submitButton}
+                  >
+                    Submit Slip
+                  </GoldButton>
+                )}
+              </GlassCard>
+            </>
+          )}
+
+          {/* Standings */}
+          <Text style={styles.sectionLabel}>STANDINGS</Text>
+          <GlassCard padded style={styles.card}>
+            <View style={styles.tableHeader}>
+              <Text style={[styles.headerCell, styles.rankCell]}>#</Text>
+              <Text style={[styles.headerCell, styles.nameCell]}>Player</Text>
+              <Text style={styles.headerCell}>W-L-D</Text>
+              <Text style={[styles.headerCell, styles.pointsCell]}>Pts</Text>
+            </View>
+            {league.standings.map((row) => (
+              <View key={row.userId} style={styles.tableRow}>
+                <Text style={[styles.cell, styles.rankCell]}>{row.rank}</Text>
+                <Text style={[styles.cell, styles.nameCell]} numberOfLines={1}>
+                  {row.username}
+                </Text>
+                <Text style={styles.cell}>
+                  {row.wins}-{row.losses}-{row.draws}
+                </Text>
+                <Text style={[styles.cell, styles.pointsCell, styles.pointsValue]}>{row.points}</Text>
+              </View>
+            ))}
+            {league.standings.every((row) => row.played === 0) && (
+              <Text style={styles.emptyText}>No results yet. Standings update as matches settle.</Text>
+            )}
+          </GlassCard>
+
+          {/* Members */}
+          <Text style={styles.sectionLabel}>MEMBERS</Text>
+          <GlassCard padded style={styles.card}>
+            {league.members.map((member) => (
+              <View key={member.userId} style={styles.memberRow}>
+                <Text style={styles.memberName}>
+                  {member.displayName || member.username}
+                  {member.userId === league.ownerId ? '  (owner)' : ''}
+                </Text>
+                {isActive && (
+                  <Ionicons
+                    name={member.hasSubmitted ? 'checkmark-circle' : 'ellipse-outline'}
+                    size={18}
+                    color={member.hasSubmitted ? LUXURY_THEME.status.success : LUXURY_THEME.text.muted}
+                  />
+                )}
+              </View>
+            ))}
+          </GlassCard>
+
+          {/* Leave / Archive */}
+          {(isActive || !league.isOwner) && (
+            <Pressable
+              style={styles.dangerButton}
+              onPress={handleLeaveOrArchive}
+              disabled={isUpdating}
+            >
+              <Text style={styles.dangerButtonText}>
+                {league.isOwner ? 'Archive League' : 'Leave League'}
+              </Text>
+            </Pressable>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </>
+  );
+}
+
+// =====================================================
+// Styles
+// =====================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LUXURY_THEME.bg.primary,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  errorText: {
+    color: LUXURY_THEME.status.error,
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  card: {
+    marginBottom: 24,
+  },
+  sectionLabel: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 1.2,
+    marginBottom: 12,
+  },
+
+  // League Info
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  infoLabel: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 14,
+  },
+  infoValue: {
+    color: LUXURY_THEME.text.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  inviteRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: LUXURY_THEME.border.muted,
+  },
+  inviteCode: {
+    color: LUXURY_THEME.gold.main,
+    fontSize: 20,
+    fontWeight: '800',
+    letterSpacing: 3,
+    marginTop: 4,
+  },
+
+  // Round
+  roundTiming: {
+    color: LUXURY_THEME.text.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  roundMeta: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 14,
+    marginTop: 4,
+  },
+  entryStatus: {
+    color: LUXURY_THEME.status.success,
+    fontSize: 14,
+    marginTop: 12,
+    lineHeight: 20,
+  },
+  submitButton: {
+    marginTop: 16,
+  },
+
+  // Standings
+  tableHeader: {
+    flexDirection: 'row',
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: LUXURY_THEME.border.muted,
+  },
+  headerCell: {
+    color: LUXURY_THEME.text.muted,
+    fontSize: 12,
+    fontWeight: '700',
+    width: 64,
+    textAlign: 'center',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  cell: {
+    color: LUXURY_THEME.text.primary,
+    fontSize: 14,
+    width: 64,
+    textAlign: 'center',
+  },
+  rankCell: {
+    width: 28,
+  },
+  nameCell: {
+    flex: 1,
+    textAlign: 'left',
+  },
+  pointsCell: {
+    width: 40,
+  },
+  pointsValue: {
+    color: LUXURY_THEME.gold.main,
+    fontWeight: '700',
+  },
+  emptyText: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 14,
+    marginTop: 12,
+  },
+
+  // Members
+  memberRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  memberName: {
+    color: LUXURY_THEME.text.primary,
+    fontSize: 15,
+  },
+
+  // Leave / Archive
+  dangerButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: LUXURY_THEME.status.error,
+  },
+  dangerButtonText: {
+    color: LUXURY_THEME.status.error,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,49 @@
+// =====================================================
+// Leagues Stack Layout
+// =====================================================
+// Stack navigator for private league screens.
+
+import { Stack } from 'expo-router';
+import { LUXURY_THEME } from '../../src/constants/theme';
+
+export default function LeaguesLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerStyle: {
+          backgroundColor: LUXURY_THEME.bg.primary,
+        },
+        headerTintColor: LUXURY_THEME.text.primary,
+        headerTitleStyle: {
+          fontWeight: '600',
+        },
+        headerShadowVisible: false,
+        contentStyle: {
+          backgroundColor: LUXURY_THEME.bg.primary,
+        },
+      }}
+    >
+      <Stack.Screen
+        name="index"
+        options={{
+          title: 'Leagues',
+          headerBackTitle: 'Back',
+        }}
+      />
+      <Stack.Screen
+        name="[id]"
+        options={{
+          title: 'League',
+          headerBackTitle: 'Leagues',
+        }}
+      />
+      <Stack.Screen
+        name="slip"
+        options={{
+          title: 'Submit Slip',
+          headerBackTitle: 'League',
+        }}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,451 @@
+// =====================================================
+// Leagues Screen
+// =====================================================
+// The user's private leagues, plus joining by invite code and
+// creating a new league with a weekly schedule.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { STAKE_PRESETS, type LeagueSummary } from '@pick-rivals/shared-types';
+import { LeagueService } from '../../src/services/league.service';
+import { GlassCard } from '../../src/components/ui/GlassCard';
+import { GoldButton } from '../../src/components/ui/GoldButton';
+import { LUXURY_THEME } from '../../src/constants/theme';
+import { WEEKDAY_LABELS, formatWeeklySchedule } from '../../src/utils/date-helpers';
+
+// =====================================================
+// Constants
+// =====================================================
+
+const DEFAULT_SCHEDULE_DAY = 0; // Sunday
+const DEFAULT_SCHEDULE_HOUR = 17; // 17:00 UTC
+
+// =====================================================
+// League Row Component
+// =====================================================
+
+function LeagueRow({ league }: { league: LeagueSummary }) {
+  const isArchived = league.status === 'ARCHIVED';
+
+  return (
+    <GlassCard
+      pressable
+      padded
+      onPress={() => router.push(`/leagues/${league.id}`)}
+      style={[styles.leagueCard, isArchived && styles.archived]}
+    >
+      <View style={styles.leagueHeader}>
+        <Text style={styles.leagueName}>{league.name}</Text>
+        {isArchived ? (
+          <Text style={styles.archivedBadge}>Archived</Text>
+        ) : (
+          <Text style={styles.roundBadge}>Round {league.currentRound}</Text>
+        )}
+      </View>
+      <Text style={styles.leagueMeta}>
+        {league.memberCount}/{league.maxMembers} members · {league.stakeAmount.toLocaleString()} RC
+      </Text>
+      {!isArchived && (
+        <Text style={styles.leagueMeta}>
+          {formatWeeklySchedule(league.scheduleDay, league.scheduleHour)}
+        </Text>
+      )}
+    </GlassCard>
+  );
+}
+
+// =====================================================
+// Main Component
+// =====================================================
+
+export default function LeaguesScreen() {
+  const [leagues, setLeagues] = useState<LeagueSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Join form
+  const [inviteCode, setInviteCode] = useState('');
+  const [isJoining, setIsJoining] = useState(false);
+
+  // Create form
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState('');
+  const [stakeAmount, setStakeAmount] = useState(STAKE_PRESETS[0]);
+  const [scheduleDay, setScheduleDay] = useState(DEFAULT_SCHEDULE_DAY);
+  const [scheduleHour, setScheduleHour] = useState(DEFAULT_SCHEDULE_HOUR);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const fetchLeagues = useCallback(async () => {
+    try {
+      const data = await LeagueService.getMyLeagues();
+      setLeagues(data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load leagues');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLeagues().finally(() => setIsLoading(false));
+  }, [fetchLeagues]);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await fetchLeagues();
+    setIsRefreshing(false);
+  }, [fetchLeagues]);
+
+  const handleJoin = useCallback(async () => {
+    const code = inviteCode.trim().toUpperCase();
+    if (!code) return;
+
+    setIsJoining(true);
+    setError(null);
+
+    try {
+      const league = await LeagueService.joinLeague(code);
+      setInviteCode('');
+      router.push(`/leagues/${league.id}`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to join league');
+    } finally {
+      setIsJoining(false);
+    }
+  }, [inviteCode]);
+
+  const handleCreate = useCallback(async () => {
+    if (name.trim().length < 3) {
+      setError('League name must be at least 3 characters');
+      return;
+    }
+
+    setIsCreating(true);
+    setError(null);
+
+    try {
+      const league = await LeagueService.createLeague({
+        name: name.trim(),
+        stakeAmount,
+        scheduleDay,
+        scheduleHour,
+      });
+      setShowCreate(false);
+      setName('');
+      router.push(`/leagues/${league.id}`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to create league');
+    } finally {
+      setIsCreating(false);
+    }
+  }, [name, stakeAmount, scheduleDay, scheduleHour]);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={LUXURY_THEME.gold.main} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={LUXURY_THEME.gold.main}
+          />
+        }
+      >
+        {/* Error */}
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        {/* Join by Code */}
+        <Text style={styles.sectionLabel}>JOIN A LEAGUE</Text>
+        <View style={styles.joinRow}>
+          <TextInput
+            style={[styles.input, styles.codeInput]}
+            value={inviteCode}
+            onChangeText={setInviteCode}
+            placeholder="Invite code"
+            placeholderTextColor={LUXURY_THEME.text.muted}
+            autoCapitalize="characters"
+            autoCorrect={false}
+          />
+          <GoldButton
+            onPress={handleJoin}
+            isLoading={isJoining}
+            disabled={!inviteCode.trim()}
+            size="md"
+          >
+            Join
+          </GoldButton>
+        </View>
+
+        {/* Create */}
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionLabel}>CREATE A LEAGUE</Text>
+          <Pressable onPress={() => setShowCreate((prev) => !prev)} hitSlop={8}>
+            <Text style={styles.toggleText}>{showCreate ? 'Cancel' : 'New League'}</Text>
+          </Pressable>
+        </View>
+
+        {showCreate && (
+          <GlassCard padded style={styles.createCard}>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="League name"
+              placeholderTextColor={LUXURY_THEME.text.muted}
+              maxLength={50}
+            />
+
+            <Text style={styles.fieldLabel}>Stake per match</Text>
+            <View style={styles.chipRow}>
+              {STAKE_PRESETS.map((preset) => (
+                <Pressable
+                  key={preset}
+                  style={[styles.chip, stakeAmount === preset && styles.chipSelected]}
+                  onPress={() => setStakeAmount(preset)}
+                >
+                  <Text style={[styles.chipText, stakeAmount === preset && styles.chipTextSelected]}>
+                    {preset.toLocaleString()}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <Text style={styles.fieldLabel}>Round day</Text>
+            <View style={styles.chipRow}>
+              {WEEKDAY_LABELS.map((label, day) => (
+                <Pressable
+                  key={label}
+                  style={[styles.chip, scheduleDay === day && styles.chipSelected]}
+                  onPress={() => setScheduleDay(day)}
+                >
+                  <Text style={[styles.chipText, scheduleDay === day && styles.chipTextSelected]}>
+                    {label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            <Text style={styles.fieldLabel}>Round time (UTC)</Text>
+            <View style={styles.hourRow}>
+              <Pressable
+                style={styles.hourButton}
+                onPress={() => setScheduleHour((prev) => (prev + 23) % 24)}
+              >
+                <Text style={styles.hourButtonText}>−</Text>
+              </Pressable>
+              <Text style={styles.hourValue}>{String(scheduleHour).padStart(2, '0')}:00</Text>
+              <Pressable
+                style={styles.hourButton}
+                onPress={() => setScheduleHour((prev) => (prev + 1) % 24)}
+              >
+                <Text style={styles.hourButtonText}>+</Text>
+              </Pressable>
+            </View>
+
+            <GoldButton onPress={handleCreate} isLoading={isCreating} fullWidth>
+              Create League
+            </GoldButton>
+          </GlassCard>
+        )}
+
+        {/* My Leagues */}
+        <Text style={styles.sectionLabel}>MY LEAGUES</Text>
+        {leagues.length === 0 ? (
+          <Text style={styles.emptyText}>
+            You're not in any leagues yet. Create one or join with a code from a friend.
+          </Text>
+        ) : (
+          leagues.map((league) => <LeagueRow key={league.id} league={league} />)
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// =====================================================
+// Styles
+// =====================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LUXURY_THEME.bg.primary,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  errorText: {
+    color: LUXURY_THEME.status.error,
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionLabel: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 1.2,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  toggleText: {
+    color: LUXURY_THEME.gold.main,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+
+  // Join
+  joinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 24,
+  },
+  input: {
+    backgroundColor: LUXURY_THEME.surface.raised,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: LUXURY_THEME.border.muted,
+    color: LUXURY_THEME.text.primary,
+    fontSize: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  codeInput: {
+    flex: 1,
+    letterSpacing: 2,
+  },
+
+  // Create
+  createCard: {
+    marginBottom: 24,
+  },
+  fieldLabel: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: LUXURY_THEME.spacing.borderRadiusPill,
+    borderWidth: 1,
+    borderColor: LUXURY_THEME.border.muted,
+  },
+  chipSelected: {
+    borderColor: LUXURY_THEME.gold.main,
+    backgroundColor: LUXURY_THEME.gold.glow,
+  },
+  chipText: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: LUXURY_THEME.gold.main,
+    fontWeight: '700',
+  },
+  hourRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginBottom: 20,
+  },
+  hourButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: LUXURY_THEME.border.gold,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  hourButtonText: {
+    color: LUXURY_THEME.gold.main,
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  hourValue: {
+    color: LUXURY_THEME.text.primary,
+    fontSize: 20,
+    fontWeight: '700',
+  },
+
+  // League Rows
+  leagueCard: {
+    marginBottom: 12,
+  },
+  archived: {
+    opacity: 0.6,
+  },
+  leagueHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  leagueName: {
+    color: LUXURY_THEME.text.primary,
+    fontSize: 18,
+    fontWeight: '700',
+    flex: 1,
+  },
+  roundBadge: {
+    color: LUXURY_THEME.gold.main,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  archivedBadge: {
+    color: LUXURY_THEME.text.muted,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  leagueMeta: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 14,
+    marginTop: 2,
+  },
+  emptyText: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,544 @@
+// =====================================================
+// League Slip Screen
+// =====================================================
+// Build a slip for the league's current round. Submitting debits the
+// league stake and locks the slip until the round starts and pairings
+// go out.
+
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import type { LeagueDetails } from '@pick-rivals/shared-types';
+
+import { LeagueService } from '../../src/services/league.service';
+import { createSlip } from '../../src/services/slip.service';
+import { useWallet } from '../../src/hooks/useWallet';
+import { mapDraftPicksToPayload } from '../../src/utils/slip-mapper';
+import { DraftPick, SLIP_MAX_PICKS } from '../../src/types/slip.types';
+import { PickItem } from '../../src/components/slip/PickItem';
+import { BettingEventCard } from '../../src/components/betting/BettingEventCard';
+import { useEvents } from '../../src/hooks/useEvents';
+
+// =====================================================
+// Main Component
+// =====================================================
+
+export default function LeagueSlipScreen() {
+  const router = useRouter();
+  const { leagueId } = useLocalSearchParams<{ leagueId: string }>();
+  const { balance, refreshBalance } = useWallet();
+  const {
+    events,
+    isLoading: isLoadingEvents,
+    isRefreshing,
+    refresh: refreshEvents,
+  } = useEvents();
+
+  // League state
+  const [league, setLeague] = useState<LeagueDetails | null>(null);
+  const [isLoadingLeague, setIsLoadingLeague] = useState(true);
+  const [leagueError, setLeagueError] = useState<string | null>(null);
+
+  // Draft picks state (local slip builder)
+  const [draftPicks, setDraftPicks] = useState<DraftPick[]>([]);
+
+  // Submission state
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Fetch the league on mount
+  useEffect(() => {
+    if (!leagueId) return;
+
+    const fetchLeague = async () => {
+      setIsLoadingLeague(true);
+      setLeagueError(null);
+
+      try {
+        const data = await LeagueService.getLeague(leagueId);
+        setLeague(data);
+      } catch (error: any) {
+        setLeagueError(error.message || 'Failed to load league');
+      } finally {
+        setIsLoadingLeague(false);
+      }
+    };
+
+    fetchLeague();
+  }, [leagueId]);
+
+  const requiredPicks = league?.slipSize ?? null;
+
+  // Calculate point potential
+  const pointPotential = useMemo(
+    () => draftPicks.reduce((sum, pick) => sum + pick.pointValue, 0),
+    [draftPicks]
+  );
+
+  // Handle adding a pick (one per event)
+  const handleAddPick = useCallback(
+    (pick: DraftPick) => {
+      const hasDuplicateEvent = draftPicks.some((p) => p.sportsEventId === pick.sportsEventId);
+      if (hasDuplicateEvent) {
+        setDraftPicks((prev) =>
+          prev.map((p) => (p.sportsEventId === pick.sportsEventId ? pick : p))
+        );
+      } else if (draftPicks.length >= (requiredPicks ?? SLIP_MAX_PICKS)) {
+        setSubmitError(`Maximum ${requiredPicks ?? SLIP_MAX_PICKS} picks allowed`);
+        return;
+      } else {
+        setDraftPicks((prev) => [...prev, pick]);
+      }
+
+      setSubmitError(null);
+    },
+    [draftPicks, requiredPicks]
+  );
+
+  // Handle removing a pick
+  const handleRemovePick = useCallback((pickId: string) => {
+    setDraftPicks((prev) => prev.filter((p) => p.id !== pickId));
+    setSubmitError(null);
+  }, []);
+
+  // Check if user can submit the slip
+  const canSubmit = useMemo(() => {
+    if (!league || isSubmitting) return false;
+    if (draftPicks.length === 0) return false;
+    if (requiredPicks !== null && draftPicks.length !== requiredPicks) return false;
+    if (balance.total < league.stakeAmount) return false;
+    return true;
+  }, [league, isSubmitting, draftPicks, requiredPicks, balance.total]);
+
+  // Handle submitting the slip for this round
+  const handleSubmit = useCallback(async () => {
+    if (!canSubmit || !league) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      // 1. Create a draft slip (the league entry locks it)
+      const slip = await createSlip(mapDraftPicksToPayload(draftPicks));
+
+      // 2. Enter it into the current round
+      await LeagueService.submitSlip(league.id, slip.id);
+
+      // 3. Refresh balance
+      await refreshBalance();
+
+      // 4. Back to the league
+      router.replace(`/leagues/${league.id}`);
+    } catch (error: any) {
+      setSubmitError(error.message || 'Failed to submit slip');
+      setIsSubmitting(false);
+    }
+  }, [canSubmit, league, draftPicks, refreshBalance, router]);
+
+  // Loading the league
+  if (isLoadingLeague && leagueId) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'Loading League...' }} />
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#6366f1" />
+            <Text style={styles.loadingText}>Loading league...</Text>
+          </View>
+        </SafeAreaView>
+      </>
+    );
+  }
+
+  // Missing league, archived, or already entered this round
+  const unavailableReason = !leagueId || leagueError || !league
+    ? leagueError || 'This league could not be loaded'
+    : league.status !== 'ACTIVE'
+    ? 'This league has been archived'
+    : league.myEntry
+    ? `You already submitted a slip for round ${league.currentRound}`
+    : null;
+
+  if (unavailableReason || !league) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'Submit Slip' }} />
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorTitle}>Can't Submit Slip</Text>
+            <Text style={styles.errorMessage}>{unavailableReason}</Text>
+            <Pressable style={styles.actionButton} onPress={() => router.back()}>
+              <Text style={styles.actionButtonText}>Go Back</Text>
+            </Pressable>
+          </View>
+        </SafeAreaView>
+      </>
+    );
+  }
+
+  const hasEnoughBalance = balance.total >= league.stakeAmount;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: `Round ${league.currentRound}`,
+          headerStyle: { backgroundColor: '#0f0f23' },
+          headerTintColor: '#fff',
+          headerShadowVisible: false,
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={refreshEvents} tintColor="#6366f1" />
+          }
+        >
+          {/* League Round Card */}
+          <View style={styles.leagueCard}>
+            <Text style={styles.leagueTitle}>{league.name}</Text>
+            <Text style={styles.roundName}>Round {league.currentRound}</Text>
+
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Stake</Text>
+              <Text style={styles.detailValue}>{league.stakeAmount.toLocaleString()} RC</Text>
+            </View>
+
+            {requiredPicks !== null && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Slip size</Text>
+                <Text style={styles.detailValue}>{requiredPicks} picks</Text>
+              </View>
+            )}
+
+            <Text style={styles.hintText}>
+              Pairings go out {new Date(league.nextRoundAt).toLocaleString()}. If you don't get an
+              opponent this round, your stake is refunded.
+            </Text>
+          </View>
+
+          {/* Your Picks Section */}
+          {draftPicks.length > 0 && (
+            <View style={styles.picksSection}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Your Picks ({draftPicks.length})</Text>
+                <Text style={styles.pointsText}>{pointPotential} pts</Text>
+              </View>
+              {draftPicks.map((pick) => (
+                <View key={pick.id} style={styles.pickItem}>
+                  <PickItem pick={pick} onRemove={() => handleRemovePick(pick.id)} showRemove />
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Events List */}
+          <View style={styles.eventsSection}>
+            <Text style={styles.sectionTitle}>Select Events</Text>
+            {isLoadingEvents ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator color="#6366f1" />
+                <Text style={styles.loadingText}>Loading events...</Text>
+              </View>
+            ) : events.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyText}>No events available</Text>
+              </View>
+            ) : (
+              <FlatList
+                data={events}
+                renderItem={({ item }) => (
+                  <BettingEventCard
+                    event={item}
+                    existingPicks={draftPicks}
+                    onPickSelect={handleAddPick}
+                    onPickRemove={handleRemovePick}
+                    disabled={isSubmitting}
+                  />
+                )}
+                keyExtractor={(item) => item.id}
+                ItemSeparatorComponent={() => <View style={styles.eventSeparator} />}
+                scrollEnabled={false}
+              />
+            )}
+          </View>
+        </ScrollView>
+
+        {/* Error Banner */}
+        {submitError && (
+          <View style={styles.errorBanner}>
+            <Text style={styles.errorBannerText}>{submitError}</Text>
+            <Pressable onPress={() => setSubmitError(null)} hitSlop={8}>
+              <Text style={styles.errorDismiss}>✕</Text>
+            </Pressable>
+          </View>
+        )}
+
+        {/* Submit Footer */}
+        <View style={styles.footer}>
+          <View style={styles.pickCountRow}>
+            <Text style={styles.pickCountText}>
+              {draftPicks.length}/{requiredPicks ?? SLIP_MAX_PICKS} picks
+            </Text>
+            <Text style={styles.pointPotentialText}>{pointPotential} point potential</Text>
+          </View>
+
+          <Pressable
+            style={[styles.submitButton, !canSubmit && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <View style={styles.submittingContent}>
+                <ActivityIndicator color="#ffffff" size="small" />
+                <Text style={styles.submitButtonText}>Submitting...</Text>
+              </View>
+            ) : (
+              <Text style={styles.submitButtonText}>
+                {!hasEnoughBalance
+                  ? 'Insufficient balance'
+                  : requiredPicks !== null && draftPicks.length !== requiredPicks
+                  ? `Pick exactly ${requiredPicks}`
+                  : draftPicks.length === 0
+                  ? 'Add picks to submit'
+                  : 'Submit Slip'}
+              </Text>
+            )}
+          </Pressable>
+        </View>
+      </SafeAreaView>
+    </>
+  );
+}
+
+// =====================================================
+// Styles
+// =====================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f0f23',
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 200, // Space for footer
+  },
+
+  // Loading/Error States
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  loadingText: {
+    color: '#9ca3af',
+    fontSize: 14,
+    marginTop: 12,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorTitle: {
+    color: '#ef4444',
+    fontSize: 22,
+    fontWeight: '700',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  errorMessage: {
+    color: '#9ca3af',
+    fontSize: 15,
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  actionButton: {
+    backgroundColor: '#3b82f6',
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    borderRadius: 12,
+    minHeight: 48,
+  },
+  actionButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyContainer: {
+    paddingVertical: 32,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: '#6b7280',
+    fontSize: 14,
+  },
+
+  // League Round Card
+  leagueCard: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 2,
+    borderColor: '#6366f1',
+    gap: 12,
+  },
+  leagueTitle: {
+    color: '#9ca3af',
+    fontSize: 14,
+  },
+  roundName: {
+    color: '#ffffff',
+    fontSize: 24,
+    fontWeight: '800',
+    marginBottom: 4,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  detailLabel: {
+    color: '#9ca3af',
+    fontSize: 14,
+  },
+  detailValue: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hintText: {
+    color: '#6b7280',
+    fontSize: 13,
+    lineHeight: 18,
+  },
+
+  // Picks Section
+  picksSection: {
+    marginBottom: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  pointsText: {
+    color: '#22c55e',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  pickItem: {
+    marginBottom: 8,
+  },
+
+  // Events Section
+  eventsSection: {
+    marginBottom: 20,
+  },
+  eventSeparator: {
+    height: 12,
+  },
+
+  // Error Banner
+  errorBanner: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: 'rgba(239, 68, 68, 0.95)',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    zIndex: 100,
+  },
+  errorBannerText: {
+    color: '#ffffff',
+    fontSize: 14,
+    flex: 1,
+  },
+  errorDismiss: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+    paddingLeft: 12,
+  },
+
+  // Footer
+  footer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#1a1a2e',
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a3e',
+    padding: 16,
+    paddingBottom: 32,
+  },
+  pickCountRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  pickCountText: {
+    color: '#9ca3af',
+    fontSize: 14,
+  },
+  pointPotentialText: {
+    color: '#22c55e',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  submitButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 14,
+    paddingVertical: 16,
+    alignItems: 'center',
+    shadowColor: '#6366f1',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#2a2a3e',
+    shadowOpacity: 0,
+  },
+  submitButtonText: {
+    color: '#ffffff',
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  submittingContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+});
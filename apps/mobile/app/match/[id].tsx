@@ -23,7 +23,7 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
-import { useMatchSocket, useMomentum } from '../../src/hooks';
+import { useMatchSocket, useMomentum, useHeadToHead } from '../../src/hooks';
 import { useMatchWithSlips } from '../../src/hooks/useMatchWithSlips';
 import { useAuthStore } from '../../src/stores/auth.store';
 import { useWalletStore } from '../../src/stores/wallet.store';
@@ -296,6 +296,9 @@ export default function MatchDetailScreen() {
   const userPoints = isCreator ? (match?.creatorPoints ?? 0) : (match?.opponentPoints ?? 0);
   const opponentPoints = isCreator ? (match?.opponentPoints ?? 0) : (match?.creatorPoints ?? 0);
 
+  // Rivalry record against the other participant
+  const { headToHead } = useHeadToHead(isCreator ? match?.opponentId : match?.creatorId);
+
   // Compute momentum for the MomentumBar
   const momentum = useMomentum({
     userPicks: userSlip?.picks || [],
@@ -334,6 +337,15 @@ export default function MatchDetailScreen() {
     router.push('/challenge/create' as any);
   }, [router]);
 
+  const handleRematch = useCallback(() => {
+    if (!match) return;
+    setShowCompletionModal(false);
+    router.push({
+      pathname: '/challenge/rematch',
+      params: { matchId: match.id },
+    });
+  }, [match, router]);
+
   const handleBackToHome = useCallback(() => {
     setShowCompletionModal(false);
     router.replace('/');
@@ -446,6 +458,7 @@ export default function MatchDetailScreen() {
             liveScores={scores}
             creatorSlip={creatorSlip}
             opponentSlip={opponentSlip}
+            headToHead={headToHead}
           />
         </View>
 
@@ -535,6 +548,7 @@ export default function MatchDetailScreen() {
         }
         onDismiss={handleDismissCompletionModal}
         onPlayAgain={handlePlayAgain}
+        onRematch={match.opponentId ? handleRematch : undefined}
         onBackToHome={handleBackToHome}
       />
     </SafeAreaView>
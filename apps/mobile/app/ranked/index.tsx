@@ -23,6 +23,7 @@ import {
   RPProgressBar,
   PlacementProgress,
   RewardsTrack,
+  SeasonRecapCard,
 } from '../../src/components/ranked';
 import { GoldButton } from '../../src/components/ui/GoldButton';
 import { LUXURY_THEME } from '../../src/constants/theme';
@@ -187,6 +188,7 @@ export default function RankedScreen() {
     placement,
     progress,
     rewards,
+    summary,
     isLoading,
     isRefreshing,
     isClaiming,
@@ -253,6 +255,33 @@ export default function RankedScreen() {
     );
   }
 
+  // Season over - show the recap until the next season starts
+  if (!hasActiveSeason && summary) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={refresh}
+              tintColor={LUXURY_THEME.gold.brushed}
+              colors={[LUXURY_THEME.gold.brushed]}
+            />
+          }
+        >
+          <SeasonRecapCard summary={summary} />
+          <Text style={styles.nextSeasonText}>
+            Check back soon for the next ranked season!
+          </Text>
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
   // No active season
   if (!hasActiveSeason || !season) {
     return (
@@ -459,6 +488,14 @@ const styles = StyleSheet.create({
     height: 100,
   },
 
+  // Season recap
+  nextSeasonText: {
+    fontSize: 14,
+    color: LUXURY_THEME.text.secondary,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+
   // Empty state
   emptyContainer: {
     flex: 1,
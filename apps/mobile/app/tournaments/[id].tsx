@@ -0,0 +1,485 @@
+// =====================================================
+// Tournament Detail Screen
+// =====================================================
+// Bracket, payouts and your entry for a tournament. The bracket
+// updates live over the socket as matches settle and rounds advance.
+// Registration and later-round slips are submitted from here.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import type {
+  BracketMatch,
+  BracketPlayer,
+  TournamentDetails,
+  TournamentEntryStatus,
+  TournamentPayoutTier,
+} from '@pick-rivals/shared-types';
+import { TournamentService } from '../../src/services/tournament.service';
+import { useTournamentSocket } from '../../src/hooks/useTournamentSocket';
+import { useAuthStore } from '../../src/stores/auth.store';
+import { GlassCard } from '../../src/components/ui/GlassCard';
+import { GoldButton } from '../../src/components/ui/GoldButton';
+import { LUXURY_THEME } from '../../src/constants/theme';
+import type { TournamentUpdatedPayload } from '../../src/types/socket.types';
+
+// =====================================================
+// Constants
+// =====================================================
+
+const ENTRY_STATUS_LABELS: Record<TournamentEntryStatus, string> = {
+  REGISTERED: "You're in. Your round 1 slip is locked until the bracket starts.",
+  ACTIVE: "You're still alive in the bracket.",
+  ELIMINATED: 'You were knocked out.',
+  CHAMPION: 'You won the tournament!',
+  REFUNDED: 'The tournament was cancelled and your entry fee refunded.',
+};
+
+// =====================================================
+// Helpers
+// =====================================================
+
+function ordinal(n: number): string {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+}
+
+function formatPayoutTier(tier: TournamentPayoutTier): string {
+  return tier.players > 1
+    ? `${ordinal(tier.position)}–${ordinal(tier.position + tier.players - 1)}`
+    : ordinal(tier.position);
+}
+
+// =====================================================
+// Bracket Match Component
+// =====================================================
+
+function BracketPlayerRow({
+  player,
+  points,
+  isWinner,
+  isViewer,
+}: {
+  player: BracketPlayer | null;
+  points: number | null;
+  isWinner: boolean;
+  isViewer: boolean;
+}) {
+  return (
+    <View style={styles.playerRow}>
+      <Text
+        style={[
+          styles.playerName,
+          isWinner && styles.playerWinner,
+          isViewer && styles.playerViewer,
+          !player && styles.playerEmpty,
+        ]}
+        numberOfLines={1}
+      >
+        {player ? `(${player.seed}) ${player.username}` : 'TBD'}
+      </Text>
+      {points !== null && (
+        <Text style={[styles.playerPoints, isWinner && styles.playerWinner]}>{points}</Text>
+      )}
+    </View>
+  );
+}
+
+function BracketMatchCard({ match, viewerId }: { match: BracketMatch; viewerId?: string }) {
+  return (
+    <GlassCard
+      pressable={!!match.matchId}
+      padded
+      onPress={match.matchId ? () => router.push(`/match/${match.matchId}`) : undefined}
+      style={styles.matchCard}
+    >
+      <BracketPlayerRow
+        player={match.creator}
+        points={match.creatorPoints}
+        isWinner={!!match.winnerId && match.winnerId === match.creator?.userId}
+        isViewer={!!viewerId && match.creator?.userId === viewerId}
+      />
+      <BracketPlayerRow
+        player={match.opponent}
+        points={match.opponentPoints}
+        isWinner={!!match.winnerId && match.winnerId === match.opponent?.userId}
+        isViewer={!!viewerId && match.opponent?.userId === viewerId}
+      />
+      {match.isBye && <Text style={styles.matchNote}>Bye</Text>}
+    </GlassCard>
+  );
+}
+
+// =====================================================
+// Main Component
+// =====================================================
+
+export default function TournamentDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const user = useAuthStore((state) => state.user);
+
+  const [tournament, setTournament] = useState<TournamentDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTournament = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      const data = await TournamentService.getTournament(id);
+      setTournament(data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load tournament');
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchTournament().finally(() => setIsLoading(false));
+  }, [fetchTournament]);
+
+  // Refresh when returning from slip submission
+  useFocusEffect(
+    useCallback(() => {
+      fetchTournament();
+    }, [fetchTournament])
+  );
+
+  // Live bracket updates. The payload carries the bracket; entrant and
+  // entry details (payouts, needsSlip) need a refetch when they change.
+  const handleUpdate = useCallback(
+    (payload: TournamentUpdatedPayload) => {
+      setTournament((prev) =>
+        prev
+          ? {
+              ...prev,
+              status: payload.status,
+              currentRound: payload.currentRound,
+              entrantCount: payload.entrantCount,
+              bracket: payload.bracket,
+            }
+          : prev
+      );
+
+      if (payload.reason !== 'slip-submitted' && payload.reason !== 'registration') {
+        fetchTournament();
+      }
+    },
+    [fetchTournament]
+  );
+
+  useTournamentSocket({ tournamentId: id, onUpdate: handleUpdate });
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await fetchTournament();
+    setIsRefreshing(false);
+  }, [fetchTournament]);
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={LUXURY_THEME.gold.main} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !tournament) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>{error || 'Tournament not found'}</Text>
+          <GoldButton onPress={() => router.back()} variant="outline">
+            Go Back
+          </GoldButton>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const { myEntry } = tournament;
+  const isRegistration = tournament.status === 'REGISTRATION';
+  const canRegister = isRegistration && !myEntry && tournament.entrantCount < tournament.size;
+  const netPool = Math.floor(tournament.prizePool * (1 - tournament.rakePercentage / 100));
+
+  return (
+    <>
+      <Stack.Screen options={{ title: tournament.name }} />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={handleRefresh}
+              tintColor={LUXURY_THEME.gold.main}
+            />
+          }
+        >
+          {/* Tournament Info */}
+          <GlassCard padded style={styles.card}>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Status</Text>
+              <Text style={styles.infoValue}>
+                {isRegistration
+                  ? `Starts ${new Date(tournament.startsAt).toLocaleString()}`
+                  : tournament.status === 'IN_PROGRESS'
+                  ? `Round ${tournament.currentRound} of ${tournament.totalRounds}`
+                  : tournament.status === 'COMPLETED'
+                  ? 'Completed'
+                  : 'Cancelled'}
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Entry fee</Text>
+              <Text style={styles.infoValue}>{tournament.entryFee.toLocaleString()} RC</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Entrants</Text>
+              <Text style={styles.infoValue}>
+                {tournament.entrantCount}/{tournament.size}
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Prize pool</Text>
+              <Text style={styles.infoValue}>{netPool.toLocaleString()} RC</Text>
+            </View>
+          </GlassCard>
+
+          {/* Your Entry */}
+          {(myEntry || canRegister) && (
+            <>
+              <Text style={styles.sectionLabel}>YOUR ENTRY</Text>
+              <GlassCard padded style={styles.card}>
+                {myEntry ? (
+                  <>
+                    <Text style={styles.entryStatus}>{ENTRY_STATUS_LABELS[myEntry.status]}</Text>
+                    {myEntry.finalPosition !== null && (
+                      <Text style={styles.entryMeta}>
+                        Finished {ordinal(myEntry.finalPosition)}
+                        {myEntry.payoutAmount ? ` · Won ${myEntry.payoutAmount.toLocaleString()} RC` : ''}
+                      </Text>
+                    )}
+                    {myEntry.needsSlip ? (
+                      <>
+                        {myEntry.slipDueAt && (
+                          <Text style={styles.entryMeta}>
+                            Slip due {new Date(myEntry.slipDueAt).toLocaleString()}
+                          </Text>
+                        )}
+                        <GoldButton
+                          onPress={() =>
+                            router.push({
+                              pathname: '/tournaments/slip',
+                              params: { tournamentId: tournament.id },
+                            })
+                          }
+                          fullWidth
+                          style={styles.entryButton}
+                        >
+                          Submit Slip
+                        </GoldButton>
+                      </>
+                    ) : (
+                      myEntry.openMatchId && (
+                        <GoldButton
+                          onPress={() => router.push(`/match/${myEntry.openMatchId}`)}
+                          variant="outline"
+                          fullWidth
+                          style={styles.entryButton}
+                        >
+                          View Match
+                        </GoldButton>
+                      )
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <Text style={styles.entryMeta}>
+                      Build a slip from the round 1 events to register. Your entry fee joins the
+                      prize pool.
+                    </Text>
+                    <GoldButton
+                      onPress={() =>
+                        router.push({
+                          pathname: '/tournaments/slip',
+                          params: { tournamentId: tournament.id },
+                        })
+                      }
+                      fullWidth
+                      style={styles.entryButton}
+                    >
+                      Register · {tournament.entryFee.toLocaleString()} RC
+                    </GoldButton>
+                  </>
+                )}
+              </GlassCard>
+            </>
+          )}
+
+          {/* Payouts */}
+          <Text style={styles.sectionLabel}>PAYOUTS</Text>
+          <GlassCard padded style={styles.card}>
+            {tournament.payouts.map((tier) => (
+              <View key={tier.position} style={styles.infoRow}>
+                <Text style={styles.infoLabel}>{formatPayoutTier(tier)}</Text>
+                <Text style={styles.infoValue}>{tier.percent}%</Text>
+              </View>
+            ))}
+          </GlassCard>
+
+          {/* Bracket */}
+          {tournament.bracket.length > 0 ? (
+            tournament.bracket.map((round) => (
+              <View key={round.round}>
+                <Text style={styles.sectionLabel}>{round.name.toUpperCase()}</Text>
+                {round.matches.map((match) => (
+                  <BracketMatchCard key={match.slot} match={match} viewerId={user?.id} />
+                ))}
+              </View>
+            ))
+          ) : (
+            <>
+              <Text style={styles.sectionLabel}>ENTRANTS</Text>
+              <GlassCard padded style={styles.card}>
+                {tournament.entrants.length === 0 ? (
+                  <Text style={styles.entryMeta}>No one has registered yet.</Text>
+                ) : (
+                  tournament.entrants.map((entrant) => (
+                    <Text key={entrant.userId} style={styles.entrantName}>
+                      {entrant.username}
+                    </Text>
+                  ))
+                )}
+              </GlassCard>
+            </>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+    </>
+  );
+}
+
+// =====================================================
+// Styles
+// =====================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LUXURY_THEME.bg.primary,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  errorText: {
+    color: LUXURY_THEME.status.error,
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  card: {
+    marginBottom: 24,
+  },
+  sectionLabel: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 1.2,
+    marginBottom: 12,
+  },
+
+  // Tournament Info
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  infoLabel: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 14,
+  },
+  infoValue: {
+    color: LUXURY_THEME.text.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+
+  // Entry
+  entryStatus: {
+    color: LUXURY_THEME.status.success,
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  entryMeta: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 14,
+    marginTop: 8,
+    lineHeight: 20,
+  },
+  entryButton: {
+    marginTop: 16,
+  },
+  entrantName: {
+    color: LUXURY_THEME.text.primary,
+    fontSize: 15,
+    paddingVertical: 6,
+  },
+
+  // Bracket
+  matchCard: {
+    marginBottom: 12,
+  },
+  playerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  playerName: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 15,
+    flex: 1,
+  },
+  playerWinner: {
+    color: LUXURY_THEME.gold.main,
+    fontWeight: '700',
+  },
+  playerViewer: {
+    textDecorationLine: 'underline',
+  },
+  playerEmpty: {
+    color: LUXURY_THEME.text.muted,
+    fontStyle: 'italic',
+  },
+  playerPoints: {
+    color: LUXURY_THEME.text.primary,
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 12,
+  },
+  matchNote: {
+    color: LUXURY_THEME.text.muted,
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
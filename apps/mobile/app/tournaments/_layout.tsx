@@ -0,0 +1,49 @@
+// =====================================================
+// Tournaments Stack Layout
+// =====================================================
+// Stack navigator for tournament screens.
+
+import { Stack } from 'expo-router';
+import { LUXURY_THEME } from '../../src/constants/theme';
+
+export default function TournamentsLayout() {
+  return (
+    <Stack
+      screenOptions={{
+        headerStyle: {
+          backgroundColor: LUXURY_THEME.bg.primary,
+        },
+        headerTintColor: LUXURY_THEME.text.primary,
+        headerTitleStyle: {
+          fontWeight: '600',
+        },
+        headerShadowVisible: false,
+        contentStyle: {
+          backgroundColor: LUXURY_THEME.bg.primary,
+        },
+      }}
+    >
+      <Stack.Screen
+        name="index"
+        options={{
+          title: 'Tournaments',
+          headerBackTitle: 'Back',
+        }}
+      />
+      <Stack.Screen
+        name="[id]"
+        options={{
+          title: 'Tournament',
+          headerBackTitle: 'Tournaments',
+        }}
+      />
+      <Stack.Screen
+        name="slip"
+        options={{
+          title: 'Submit Slip',
+          headerBackTitle: 'Tournament',
+        }}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,233 @@
+// =====================================================
+// Tournaments Screen
+// =====================================================
+// Scheduled, running and finished knockout tournaments. Tap one to
+// see its bracket and register.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  StyleSheet,
+  ScrollView,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import type { TournamentStatus, TournamentSummary } from '@pick-rivals/shared-types';
+import { TournamentService } from '../../src/services/tournament.service';
+import { GlassCard } from '../../src/components/ui/GlassCard';
+import { LUXURY_THEME } from '../../src/constants/theme';
+
+// =====================================================
+// Constants
+// =====================================================
+
+const STATUS_FILTERS: Array<{ status: TournamentStatus; label: string }> = [
+  { status: 'REGISTRATION', label: 'Open' },
+  { status: 'IN_PROGRESS', label: 'Live' },
+  { status: 'COMPLETED', label: 'Finished' },
+];
+
+// =====================================================
+// Tournament Row Component
+// =====================================================
+
+function TournamentRow({ tournament }: { tournament: TournamentSummary }) {
+  const isOpen = tournament.status === 'REGISTRATION';
+
+  return (
+    <GlassCard
+      pressable
+      padded
+      onPress={() => router.push(`/tournaments/${tournament.id}`)}
+      style={styles.tournamentCard}
+    >
+      <View style={styles.tournamentHeader}>
+        <Text style={styles.tournamentName}>{tournament.name}</Text>
+        <Text style={styles.statusBadge}>
+          {isOpen
+            ? `${tournament.entrantCount}/${tournament.size}`
+            : tournament.status === 'IN_PROGRESS'
+            ? `Round ${tournament.currentRound}/${tournament.totalRounds}`
+            : 'Final'}
+        </Text>
+      </View>
+      <Text style={styles.tournamentMeta}>
+        {tournament.entryFee.toLocaleString()} RC entry · {tournament.prizePool.toLocaleString()} RC pool
+      </Text>
+      {isOpen && (
+        <Text style={styles.tournamentMeta}>
+          Starts {new Date(tournament.startsAt).toLocaleString()}
+        </Text>
+      )}
+    </GlassCard>
+  );
+}
+
+// =====================================================
+// Main Component
+// =====================================================
+
+export default function TournamentsScreen() {
+  const [status, setStatus] = useState<TournamentStatus>('REGISTRATION');
+  const [tournaments, setTournaments] = useState<TournamentSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTournaments = useCallback(async () => {
+    try {
+      const data = await TournamentService.listTournaments(status);
+      setTournaments(data);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load tournaments');
+    }
+  }, [status]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchTournaments().finally(() => setIsLoading(false));
+  }, [fetchTournaments]);
+
+  const handleRefresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await fetchTournaments();
+    setIsRefreshing(false);
+  }, [fetchTournaments]);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={LUXURY_THEME.gold.main}
+          />
+        }
+      >
+        {/* Status Filter */}
+        <View style={styles.chipRow}>
+          {STATUS_FILTERS.map((filter) => (
+            <Pressable
+              key={filter.status}
+              style={[styles.chip, status === filter.status && styles.chipSelected]}
+              onPress={() => setStatus(filter.status)}
+            >
+              <Text style={[styles.chipText, status === filter.status && styles.chipTextSelected]}>
+                {filter.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {/* Error */}
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        {/* Tournaments */}
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={LUXURY_THEME.gold.main} />
+          </View>
+        ) : tournaments.length === 0 ? (
+          <Text style={styles.emptyText}>
+            {status === 'REGISTRATION'
+              ? 'No tournaments are open for registration right now. Check back soon.'
+              : 'Nothing here yet.'}
+          </Text>
+        ) : (
+          tournaments.map((tournament) => (
+            <TournamentRow key={tournament.id} tournament={tournament} />
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+// =====================================================
+// Styles
+// =====================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: LUXURY_THEME.bg.primary,
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  loadingContainer: {
+    paddingVertical: 48,
+    alignItems: 'center',
+  },
+  errorText: {
+    color: LUXURY_THEME.status.error,
+    fontSize: 14,
+    marginBottom: 16,
+  },
+
+  // Filter
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: LUXURY_THEME.spacing.borderRadiusPill,
+    borderWidth: 1,
+    borderColor: LUXURY_THEME.border.muted,
+  },
+  chipSelected: {
+    borderColor: LUXURY_THEME.gold.main,
+    backgroundColor: LUXURY_THEME.gold.glow,
+  },
+  chipText: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: LUXURY_THEME.gold.main,
+    fontWeight: '700',
+  },
+
+  // Tournament Rows
+  tournamentCard: {
+    marginBottom: 12,
+  },
+  tournamentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  tournamentName: {
+    color: LUXURY_THEME.text.primary,
+    fontSize: 18,
+    fontWeight: '700',
+    flex: 1,
+  },
+  statusBadge: {
+    color: LUXURY_THEME.gold.main,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  tournamentMeta: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 14,
+    marginTop: 2,
+  },
+  emptyText: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,569 @@
+// =====================================================
+// Tournament Slip Screen
+// =====================================================
+// Build a slip from a tournament round's event slate. Before the
+// bracket starts this registers (debiting the entry fee); afterwards it
+// fills your slot in the current bracket match.
+
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import type { TournamentDetails } from '@pick-rivals/shared-types';
+
+import { TournamentService } from '../../src/services/tournament.service';
+import { createSlip } from '../../src/services/slip.service';
+import { useWallet } from '../../src/hooks/useWallet';
+import { mapDraftPicksToPayload } from '../../src/utils/slip-mapper';
+import { DraftPick, SLIP_MAX_PICKS } from '../../src/types/slip.types';
+import { PickItem } from '../../src/components/slip/PickItem';
+import { BettingEventCard } from '../../src/components/betting/BettingEventCard';
+import { useEvents } from '../../src/hooks/useEvents';
+
+// =====================================================
+// Main Component
+// =====================================================
+
+export default function TournamentSlipScreen() {
+  const router = useRouter();
+  const { tournamentId } = useLocalSearchParams<{ tournamentId: string }>();
+  const { balance, refreshBalance } = useWallet();
+  const {
+    events,
+    isLoading: isLoadingEvents,
+    isRefreshing,
+    refresh: refreshEvents,
+  } = useEvents();
+
+  // Tournament state
+  const [tournament, setTournament] = useState<TournamentDetails | null>(null);
+  const [isLoadingTournament, setIsLoadingTournament] = useState(true);
+  const [tournamentError, setTournamentError] = useState<string | null>(null);
+
+  // Draft picks state (local slip builder)
+  const [draftPicks, setDraftPicks] = useState<DraftPick[]>([]);
+
+  // Submission state
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // Fetch the tournament on mount
+  useEffect(() => {
+    if (!tournamentId) return;
+
+    const fetchTournament = async () => {
+      setIsLoadingTournament(true);
+      setTournamentError(null);
+
+      try {
+        const data = await TournamentService.getTournament(tournamentId);
+        setTournament(data);
+      } catch (error: any) {
+        setTournamentError(error.message || 'Failed to load tournament');
+      } finally {
+        setIsLoadingTournament(false);
+      }
+    };
+
+    fetchTournament();
+  }, [tournamentId]);
+
+  // Registering plays round 1; otherwise the slip is for the current round
+  const isRegistering = tournament?.status === 'REGISTRATION';
+  const round = useMemo(() => {
+    if (!tournament) return null;
+    const roundNumber = isRegistering ? 1 : tournament.currentRound;
+    return tournament.rounds.find((r) => r.round === roundNumber) ?? null;
+  }, [tournament, isRegistering]);
+
+  // Only the round's slate can be picked from
+  const slateEvents = useMemo(() => {
+    if (!round) return [];
+    const eventIds = new Set(round.eventIds);
+    return events.filter((event) => eventIds.has(event.id));
+  }, [events, round]);
+
+  // Calculate point potential
+  const pointPotential = useMemo(
+    () => draftPicks.reduce((sum, pick) => sum + pick.pointValue, 0),
+    [draftPicks]
+  );
+
+  // Handle adding a pick (one per event)
+  const handleAddPick = useCallback(
+    (pick: DraftPick) => {
+      const hasDuplicateEvent = draftPicks.some((p) => p.sportsEventId === pick.sportsEventId);
+      if (hasDuplicateEvent) {
+        setDraftPicks((prev) =>
+          prev.map((p) => (p.sportsEventId === pick.sportsEventId ? pick : p))
+        );
+      } else if (draftPicks.length >= SLIP_MAX_PICKS) {
+        setSubmitError(`Maximum ${SLIP_MAX_PICKS} picks allowed`);
+        return;
+      } else {
+        setDraftPicks((prev) => [...prev, pick]);
+      }
+
+      setSubmitError(null);
+    },
+    [draftPicks]
+  );
+
+  // Handle removing a pick
+  const handleRemovePick = useCallback((pickId: string) => {
+    setDraftPicks((prev) => prev.filter((p) => p.id !== pickId));
+    setSubmitError(null);
+  }, []);
+
+  // Check if user can submit the slip
+  const canSubmit = useMemo(() => {
+    if (!tournament || isSubmitting) return false;
+    if (draftPicks.length === 0) return false;
+    if (isRegistering && balance.total < tournament.entryFee) return false;
+    return true;
+  }, [tournament, isSubmitting, draftPicks, isRegistering, balance.total]);
+
+  // Handle registering / submitting the slip for this round
+  const handleSubmit = useCallback(async () => {
+    if (!canSubmit || !tournament) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      // 1. Create a draft slip (the tournament locks it)
+      const slip = await createSlip(mapDraftPicksToPayload(draftPicks));
+
+      // 2. Register with it, or play it in the current bracket match
+      if (isRegistering) {
+        await TournamentService.register(tournament.id, slip.id);
+        await refreshBalance();
+      } else {
+        await TournamentService.submitSlip(tournament.id, slip.id);
+      }
+
+      // 3. Back to the bracket
+      router.replace(`/tournaments/${tournament.id}`);
+    } catch (error: any) {
+      setSubmitError(error.message || 'Failed to submit slip');
+      setIsSubmitting(false);
+    }
+  }, [canSubmit, tournament, draftPicks, isRegistering, refreshBalance, router]);
+
+  // Loading the tournament
+  if (isLoadingTournament && tournamentId) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'Loading Tournament...' }} />
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#6366f1" />
+            <Text style={styles.loadingText}>Loading tournament...</Text>
+          </View>
+        </SafeAreaView>
+      </>
+    );
+  }
+
+  // Missing tournament, already registered, or no match waiting on a slip
+  const unavailableReason = !tournamentId || tournamentError || !tournament
+    ? tournamentError || 'This tournament could not be loaded'
+    : isRegistering
+    ? tournament.myEntry
+      ? "You're already registered for this tournament"
+      : tournament.entrantCount >= tournament.size
+      ? 'This tournament is full'
+      : null
+    : tournament.status !== 'IN_PROGRESS'
+    ? 'This tournament is no longer running'
+    : !tournament.myEntry?.needsSlip
+    ? "You don't have a match waiting on a slip"
+    : null;
+
+  if (unavailableReason || !tournament || !round) {
+    return (
+      <>
+        <Stack.Screen options={{ title: 'Submit Slip' }} />
+        <SafeAreaView style={styles.container} edges={['bottom']}>
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorTitle}>Can't Submit Slip</Text>
+            <Text style={styles.errorMessage}>
+              {unavailableReason || 'This round could not be found'}
+            </Text>
+            <Pressable style={styles.actionButton} onPress={() => router.back()}>
+              <Text style={styles.actionButtonText}>Go Back</Text>
+            </Pressable>
+          </View>
+        </SafeAreaView>
+      </>
+    );
+  }
+
+  const hasEnoughBalance = !isRegistering || balance.total >= tournament.entryFee;
+  const slipDueAt = isRegistering ? round.locksAt : tournament.myEntry?.slipDueAt ?? round.locksAt;
+
+  return (
+    <>
+      <Stack.Screen
+        options={{
+          title: isRegistering ? 'Register' : round.name,
+          headerStyle: { backgroundColor: '#0f0f23' },
+          headerTintColor: '#fff',
+          headerShadowVisible: false,
+        }}
+      />
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={refreshEvents} tintColor="#6366f1" />
+          }
+        >
+          {/* Tournament Round Card */}
+          <View style={styles.roundCard}>
+            <Text style={styles.tournamentTitle}>{tournament.name}</Text>
+            <Text style={styles.roundName}>{round.name}</Text>
+
+            {isRegistering && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Entry fee</Text>
+                <Text style={styles.detailValue}>{tournament.entryFee.toLocaleString()} RC</Text>
+              </View>
+            )}
+
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Slate</Text>
+              <Text style={styles.detailValue}>{round.eventIds.length} events</Text>
+            </View>
+
+            <Text style={styles.hintText}>
+              Slips are due {new Date(slipDueAt).toLocaleString()}.
+              {isRegistering
+                ? ' If the tournament is cancelled before it starts, your entry fee is refunded.'
+                : " If your slip isn't in by then, you forfeit the match."}
+            </Text>
+          </View>
+
+          {/* Your Picks Section */}
+          {draftPicks.length > 0 && (
+            <View style={styles.picksSection}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Your Picks ({draftPicks.length})</Text>
+                <Text style={styles.pointsText}>{pointPotential} pts</Text>
+              </View>
+              {draftPicks.map((pick) => (
+                <View key={pick.id} style={styles.pickItem}>
+                  <PickItem pick={pick} onRemove={() => handleRemovePick(pick.id)} showRemove />
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Events List */}
+          <View style={styles.eventsSection}>
+            <Text style={styles.sectionTitle}>Select Events</Text>
+            {isLoadingEvents ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator color="#6366f1" />
+                <Text style={styles.loadingText}>Loading events...</Text>
+              </View>
+            ) : slateEvents.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyText}>No events from this round's slate are available</Text>
+              </View>
+            ) : (
+              <FlatList
+                data={slateEvents}
+                renderItem={({ item }) => (
+                  <BettingEventCard
+                    event={item}
+                    existingPicks={draftPicks}
+                    onPickSelect={handleAddPick}
+                    onPickRemove={handleRemovePick}
+                    disabled={isSubmitting}
+                  />
+                )}
+                keyExtractor={(item) => item.id}
+                ItemSeparatorComponent={() => <View style={styles.eventSeparator} />}
+                scrollEnabled={false}
+              />
+            )}
+          </View>
+        </ScrollView>
+
+        {/* Error Banner */}
+        {submitError && (
+          <View style={styles.errorBanner}>
+            <Text style={styles.errorBannerText}>{submitError}</Text>
+            <Pressable onPress={() => setSubmitError(null)} hitSlop={8}>
+              <Text style={styles.errorDismiss}>✕</Text>
+            </Pressable>
+          </View>
+        )}
+
+        {/* Submit Footer */}
+        <View style={styles.footer}>
+          <View style={styles.pickCountRow}>
+            <Text style={styles.pickCountText}>
+              {draftPicks.length}/{SLIP_MAX_PICKS} picks
+            </Text>
+            <Text style={styles.pointPotentialText}>{pointPotential} point potential</Text>
+          </View>
+
+          <Pressable
+            style={[styles.submitButton, !canSubmit && styles.submitButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <View style={styles.submittingContent}>
+                <ActivityIndicator color="#ffffff" size="small" />
+                <Text style={styles.submitButtonText}>Submitting...</Text>
+              </View>
+            ) : (
+              <Text style={styles.submitButtonText}>
+                {!hasEnoughBalance
+                  ? 'Insufficient balance'
+                  : draftPicks.length === 0
+                  ? 'Add picks to submit'
+                  : isRegistering
+                  ? 'Register'
+                  : 'Submit Slip'}
+              </Text>
+            )}
+          </Pressable>
+        </View>
+      </SafeAreaView>
+    </>
+  );
+}
+
+// =====================================================
+// Styles
+// =====================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0f0f23',
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 200, // Space for footer
+  },
+
+  // Loading/Error States
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  loadingText: {
+    color: '#9ca3af',
+    fontSize: 14,
+    marginTop: 12,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  errorTitle: {
+    color: '#ef4444',
+    fontSize: 22,
+    fontWeight: '700',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  errorMessage: {
+    color: '#9ca3af',
+    fontSize: 15,
+    textAlign: 'center',
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  actionButton: {
+    backgroundColor: '#3b82f6',
+    paddingHorizontal: 24,
+    paddingVertical: 14,
+    borderRadius: 12,
+    minHeight: 48,
+  },
+  actionButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  emptyContainer: {
+    paddingVertical: 32,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: '#6b7280',
+    fontSize: 14,
+  },
+
+  // Tournament Round Card
+  roundCard: {
+    backgroundColor: '#1a1a2e',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    borderWidth: 2,
+    borderColor: '#6366f1',
+    gap: 12,
+  },
+  tournamentTitle: {
+    color: '#9ca3af',
+    fontSize: 14,
+  },
+  roundName: {
+    color: '#ffffff',
+    fontSize: 24,
+    fontWeight: '800',
+    marginBottom: 4,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  detailLabel: {
+    color: '#9ca3af',
+    fontSize: 14,
+  },
+  detailValue: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hintText: {
+    color: '#6b7280',
+    fontSize: 13,
+    lineHeight: 18,
+  },
+
+  // Picks Section
+  picksSection: {
+    marginBottom: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  pointsText: {
+    color: '#22c55e',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  pickItem: {
+    marginBottom: 8,
+  },
+
+  // Events Section
+  eventsSection: {
+    marginBottom: 20,
+  },
+  eventSeparator: {
+    height: 12,
+  },
+
+  // Error Banner
+  errorBanner: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: 'rgba(239, 68, 68, 0.95)',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    zIndex: 100,
+  },
+  errorBannerText: {
+    color: '#ffffff',
+    fontSize: 14,
+    flex: 1,
+  },
+  errorDismiss: {
+    color: '#ffffff',
+    fontSize: 18,
+    fontWeight: '600',
+    paddingLeft: 12,
+  },
+
+  // Footer
+  footer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: '#1a1a2e',
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a3e',
+    padding: 16,
+    paddingBottom: 32,
+  },
+  pickCountRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  pickCountText: {
+    color: '#9ca3af',
+    fontSize: 14,
+  },
+  pointPotentialText: {
+    color: '#22c55e',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  submitButton: {
+    backgroundColor: '#6366f1',
+    borderRadius: 14,
+    paddingVertical: 16,
+    alignItems: 'center',
+    shadowColor: '#6366f1',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#2a2a3e',
+    shadowOpacity: 0,
+  },
+  submitButtonText: {
+    color: '#ffffff',
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  submittingContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+});
@@ -7,6 +7,7 @@
 // Features:
 // - Public profile viewing (no edit capability)
 // - User stats and streaks display
+// - Head-to-head record against the viewer
 // - Challenge button to start a match
 // - Pull-to-refresh functionality
 // - Loading and error states
@@ -24,7 +25,13 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useProfile } from '../../src/hooks/useProfile';
-import { ProfileHeader, StatsCard, StreaksCard } from '../../src/components/profile';
+import { useHeadToHead } from '../../src/hooks/useHeadToHead';
+import {
+  ProfileHeader,
+  StatsCard,
+  StreaksCard,
+  HeadToHeadCard,
+} from '../../src/components/profile';
 
 // =====================================================
 // Sub-components
@@ -104,14 +111,17 @@ export default function PublicUserProfileScreen() {
   // Fetch public profile
   const { profile, isLoading, error, refresh } = useProfile({ userId });
 
+  // Fetch rivalry record against the viewer
+  const { headToHead, refresh: refreshHeadToHead } = useHeadToHead(userId);
+
   // Pull-to-refresh state
   const [refreshing, setRefreshing] = React.useState(false);
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
-    await refresh();
+    await Promise.all([refresh(), refreshHeadToHead()]);
     setRefreshing(false);
-  }, [refresh]);
+  }, [refresh, refreshHeadToHead]);
 
   const handleBack = () => {
     router.back();
@@ -190,6 +200,14 @@ export default function PublicUserProfileScreen() {
           bestStreak={profile.stats.bestStreak}
         />
 
+        {/* Head-to-Head Card (signed in, other users only) */}
+        {headToHead && (
+          <HeadToHeadCard
+            headToHead={headToHead}
+            opponentName={profile.user.displayName || profile.user.username}
+          />
+        )}
+
         {/* Bottom padding for challenge button */}
         <View style={styles.bottomPadding} />
       </ScrollView>
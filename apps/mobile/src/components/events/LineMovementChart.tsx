@@ -0,0 +1,318 @@
+// =====================================================
+// LineMovementChart Component
+// =====================================================
+// Step chart of how an event's game lines moved since open.
+// Each point holds until the next recorded move, so the chart is
+// drawn as horizontal/vertical segments (no SVG dependency).
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, Pressable, StyleSheet, LayoutChangeEvent } from 'react-native';
+import {
+  EventOddsHistory,
+  OddsHistoryMarket,
+  OddsHistoryPoint,
+  OddsHistorySeries,
+  formatOdds,
+  formatSpread,
+} from '@pick-rivals/shared-types';
+import { LUXURY_THEME } from '../../constants/theme';
+
+// =====================================================
+// Types
+// =====================================================
+
+type GameLineMarket = Exclude<OddsHistoryMarket, 'prop'>;
+
+interface LineMovementChartProps {
+  /** Odds history from /events/:id/odds-history */
+  history: EventOddsHistory;
+  /** Home team label (used for moneyline/spread captions) */
+  homeLabel: string;
+}
+
+interface Segment {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// =====================================================
+// Config
+// =====================================================
+
+const CHART_HEIGHT = 96;
+const STROKE = 2;
+
+const MARKET_OPTIONS: { value: GameLineMarket; label: string }[] = [
+  { value: 'spread', label: 'Spread' },
+  { value: 'total', label: 'Total' },
+  { value: 'moneyline', label: 'Moneyline' },
+];
+
+// =====================================================
+// Helpers
+// =====================================================
+
+/**
+ * Implied probability (0-1) from American odds
+ */
+function impliedProbability(americanOdds: number): number {
+  return americanOdds < 0
+    ? -americanOdds / (-americanOdds + 100)
+    : 100 / (americanOdds + 100);
+}
+
+/**
+ * Numeric value plotted for a point. Moneylines are plotted as the home
+ * side's implied probability so favourites/underdogs share one scale.
+ */
+function getPlotValue(market: GameLineMarket, point: OddsHistoryPoint): number | null {
+  if (market === 'moneyline') {
+    const home = point.prices.home;
+    return home === undefined ? null : impliedProbability(home);
+  }
+  return point.line;
+}
+
+function formatPointValue(market: GameLineMarket, point: OddsHistoryPoint): string {
+  if (market === 'moneyline') {
+    return point.prices.home !== undefined ? formatOdds(point.prices.home) : '-';
+  }
+  if (point.line === null) return '-';
+  return market === 'spread' ? formatSpread(point.line) : point.line.toString();
+}
+
+/**
+ * Builds step-chart segments scaled to the chart's width.
+ */
+function buildSegments(
+  market: GameLineMarket,
+  points: OddsHistoryPoint[],
+  width: number
+): Segment[] {
+  const plotted = points
+    .map((point) => ({ time: new Date(point.capturedAt).getTime(), value: getPlotValue(market, point) }))
+    .filter((p): p is { time: number; value: number } => p.value !== null);
+
+  if (plotted.length === 0 || width === 0) return [];
+
+  const start = plotted[0].time;
+  const end = Math.max(Date.now(), plotted[plotted.length - 1].time);
+  const values = plotted.map((p) => p.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min;
+
+  const x = (time: number) => (end === start ? 0 : ((time - start) / (end - start)) * width);
+  const y = (value: number) =>
+    range === 0 ? CHART_HEIGHT / 2 : (1 - (value - min) / range) * (CHART_HEIGHT - STROKE);
+
+  const segments: Segment[] = [];
+
+  plotted.forEach((point, index) => {
+    const next = plotted[index + 1];
+    const left = x(point.time);
+    const top = y(point.value);
+    const right = next ? x(next.time) : width;
+
+    // Hold the price until the next move
+    segments.push({ left, top, width: Math.max(right - left, STROKE), height: STROKE });
+
+    // Then step to the new price
+    if (next) {
+      const nextTop = y(next.value);
+      segments.push({
+        left: right - STROKE / 2,
+        top: Math.min(top, nextTop),
+        width: STROKE,
+        height: Math.abs(nextTop - top) + STROKE,
+      });
+    }
+  });
+
+  return segments;
+}
+
+// =====================================================
+// Component
+// =====================================================
+
+export function LineMovementChart({
+  history,
+  homeLabel,
+}: LineMovementChartProps): React.ReactElement | null {
+  const seriesByMarket = useMemo(() => {
+    const map = new Map<GameLineMarket, OddsHistorySeries>();
+    for (const series of history.series) {
+      if (series.market !== 'prop' && series.points.length > 0) {
+        map.set(series.market, series);
+      }
+    }
+    return map;
+  }, [history]);
+
+  const available = MARKET_OPTIONS.filter((option) => seriesByMarket.has(option.value));
+  const [selected, setSelected] = useState<GameLineMarket | null>(null);
+  const [chartWidth, setChartWidth] = useState(0);
+
+  const market = selected && seriesByMarket.has(selected) ? selected : available[0]?.value;
+  const series = market ? seriesByMarket.get(market) : undefined;
+
+  const segments = useMemo(
+    () => (market && series ? buildSegments(market, series.points, chartWidth) : []),
+    [market, series, chartWidth]
+  );
+
+  if (!market || !series) {
+    return null;
+  }
+
+  const open = series.points[0];
+  const current = series.points[series.points.length - 1];
+  const moves = series.points.length - 1;
+  const caption = market === 'total' ? 'Total points' : `${homeLabel} ${market}`;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setChartWidth(event.nativeEvent.layout.width);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Line Movement</Text>
+        <View style={styles.tabs}>
+          {available.map((option) => {
+            const isSelected = option.value === market;
+            return (
+              <Pressable
+                key={option.value}
+                onPress={() => setSelected(option.value)}
+                style={[styles.tab, isSelected && styles.tabSelected]}
+                accessibilityRole="tab"
+                accessibilityState={{ selected: isSelected }}
+              >
+                <Text style={[styles.tabText, isSelected && styles.tabTextSelected]}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      </View>
+
+      <View style={styles.summaryRow}>
+        <View>
+          <Text style={styles.summaryLabel}>Open</Text>
+          <Text style={styles.summaryValue}>{formatPointValue(market, open)}</Text>
+        </View>
+        <View style={styles.summaryCenter}>
+          <Text style={styles.summaryLabel}>{caption}</Text>
+          <Text style={styles.movesText}>
+            {moves === 0 ? 'No movement' : `${moves} move${moves === 1 ? '' : 's'}`}
+          </Text>
+        </View>
+        <View style={styles.summaryRight}>
+          <Text style={styles.summaryLabel}>Now</Text>
+          <Text style={[styles.summaryValue, styles.currentValue]}>
+            {formatPointValue(market, current)}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.chart} onLayout={handleLayout}>
+        {segments.map((segment, index) => (
+          <View key={index} style={[styles.segment, segment]} />
+        ))}
+      </View>
+    </View>
+  );
+}
+
+// =====================================================
+// Styles
+// =====================================================
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginTop: 16,
+    padding: 16,
+    backgroundColor: LUXURY_THEME.surface.card,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: LUXURY_THEME.border.subtle,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    color: LUXURY_THEME.text.primary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  tab: {
+    paddingVertical: 4,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabSelected: {
+    borderBottomColor: LUXURY_THEME.gold.main,
+  },
+  tabText: {
+    color: LUXURY_THEME.text.muted,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  tabTextSelected: {
+    color: LUXURY_THEME.text.primary,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    marginBottom: 12,
+  },
+  summaryCenter: {
+    alignItems: 'center',
+  },
+  summaryRight: {
+    alignItems: 'flex-end',
+  },
+  summaryLabel: {
+    color: LUXURY_THEME.text.muted,
+    fontSize: 11,
+    marginBottom: 2,
+  },
+  summaryValue: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  currentValue: {
+    color: LUXURY_THEME.gold.main,
+  },
+  movesText: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 12,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    borderBottomWidth: 1,
+    borderBottomColor: LUXURY_THEME.border.muted,
+  },
+  segment: {
+    position: 'absolute',
+    backgroundColor: LUXURY_THEME.gold.main,
+    borderRadius: STROKE / 2,
+  },
+});
+
+export default LineMovementChart;
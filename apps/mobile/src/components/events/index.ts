@@ -6,4 +6,5 @@ export { EventCard } from './EventCard';
 export { EventCardSkeleton } from './EventCardSkeleton';
 export { SportFilter } from './SportFilter';
 export { LeagueFilterBar } from './LeagueFilterBar';
+export { LineMovementChart } from './LineMovementChart';
 export type { LeagueFilterType } from './LeagueFilterBar';
@@ -1,7 +1,7 @@
 // =====================================================
 // LeaderboardPeriodTabs Component
 // =====================================================
-// Segmented control for switching between All Time / Weekly
+// Segmented control for switching between All Time / Week / Month / Season
 
 import React from 'react';
 import { View, Text, Pressable, StyleSheet } from 'react-native';
@@ -25,7 +25,9 @@ interface LeaderboardPeriodTabsProps {
 
 const PERIOD_OPTIONS: { value: LeaderboardPeriod; label: string }[] = [
   { value: 'all-time', label: 'All Time' },
-  { value: 'weekly', label: 'This Week' },
+  { value: 'weekly', label: 'Week' },
+  { value: 'monthly', label: 'Month' },
+  { value: 'seasonal', label: 'Season' },
 ];
 
 // =====================================================
@@ -83,7 +85,7 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
     paddingVertical: 12,
-    paddingHorizontal: 16,
+    paddingHorizontal: 8,
     borderRadius: 8,
     minHeight: 44,
   },
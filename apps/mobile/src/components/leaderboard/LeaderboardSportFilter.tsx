@@ -0,0 +1,100 @@
+// =====================================================
+// LeaderboardSportFilter Component
+// =====================================================
+// Horizontal chip row for switching between all-sports and per-sport boards
+
+import React from 'react';
+import { ScrollView, Text, Pressable, StyleSheet } from 'react-native';
+import {
+  LEADERBOARD_SPORTS,
+  type LeaderboardSport,
+} from '../../types/leaderboard.types';
+import { LUXURY_THEME } from '../../constants/theme';
+
+// =====================================================
+// Types
+// =====================================================
+
+interface LeaderboardSportFilterProps {
+  /** Currently selected sport */
+  selected: LeaderboardSport;
+  /** Sport change handler */
+  onSelect: (sport: LeaderboardSport) => void;
+}
+
+// =====================================================
+// Component
+// =====================================================
+
+export function LeaderboardSportFilter({
+  selected,
+  onSelect,
+}: LeaderboardSportFilterProps): React.ReactElement {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.container}
+    >
+      {LEADERBOARD_SPORTS.map((sport) => {
+        const isSelected = selected === sport;
+
+        return (
+          <Pressable
+            key={sport}
+            onPress={() => onSelect(sport)}
+            style={({ pressed }) => [
+              styles.chip,
+              isSelected && styles.chipSelected,
+              pressed && styles.chipPressed,
+            ]}
+            accessibilityRole="button"
+            accessibilityState={{ selected: isSelected }}
+            accessibilityLabel={sport === 'ALL' ? 'All sports' : `${sport} leaderboard`}
+          >
+            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+              {sport}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+// =====================================================
+// Styles
+// =====================================================
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    backgroundColor: LUXURY_THEME.surface.card,
+    minHeight: 36,
+    justifyContent: 'center',
+  },
+  chipSelected: {
+    backgroundColor: LUXURY_THEME.gold.main,
+  },
+  chipPressed: {
+    opacity: 0.8,
+  },
+  chipText: {
+    color: LUXURY_THEME.text.secondary,
+    fontSize: 12,
+    fontWeight: '700',
+    letterSpacing: 0.3,
+  },
+  chipTextSelected: {
+    color: LUXURY_THEME.bg.primary,
+  },
+});
+
+export default LeaderboardSportFilter;
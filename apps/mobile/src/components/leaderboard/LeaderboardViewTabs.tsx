@@ -0,0 +1,100 @@
+// =====================================================
+// LeaderboardViewTabs Component
+// =====================================================
+// Text tabs for switching between Top / Friends / Around Me views
+
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import type { LeaderboardView } from '../../types/leaderboard.types';
+import { LUXURY_THEME } from '../../constants/theme';
+
+// =====================================================
+// Types
+// =====================================================
+
+interface LeaderboardViewTabsProps {
+  /** Currently selected view */
+  selected: LeaderboardView;
+  /** View change handler */
+  onSelect: (view: LeaderboardView) => void;
+}
+
+// =====================================================
+// Config
+// =====================================================
+
+const VIEW_OPTIONS: { value: LeaderboardView; label: string }[] = [
+  { value: 'top', label: 'Top' },
+  { value: 'friends', label: 'Friends' },
+  { value: 'around-me', label: 'Around Me' },
+];
+
+// =====================================================
+// Component
+// =====================================================
+
+export function LeaderboardViewTabs({
+  selected,
+  onSelect,
+}: LeaderboardViewTabsProps): React.ReactElement {
+  return (
+    <View style={styles.container}>
+      {VIEW_OPTIONS.map((option) => {
+        const isSelected = selected === option.value;
+
+        return (
+          <Pressable
+            key={option.value}
+            onPress={() => onSelect(option.value)}
+            style={({ pressed }) => [
+              styles.tab,
+              isSelected && styles.tabSelected,
+              pressed && styles.tabPressed,
+            ]}
+            accessibilityRole="tab"
+            accessibilityState={{ selected: isSelected }}
+          >
+            <Text style={[styles.tabText, isSelected && styles.tabTextSelected]}>
+              {option.label}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+// =====================================================
+// Styles
+// =====================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    gap: 20,
+  },
+  tab: {
+    paddingVertical: 8,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+    minHeight: 36,
+  },
+  tabSelected: {
+    borderBottomColor: LUXURY_THEME.gold.main,
+  },
+  tabPressed: {
+    opacity: 0.7,
+  },
+  tabText: {
+    color: LUXURY_THEME.text.muted,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  tabTextSelected: {
+    color: LUXURY_THEME.text.primary,
+  },
+});
+
+export default LeaderboardViewTabs;
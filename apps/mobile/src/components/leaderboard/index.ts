@@ -4,6 +4,8 @@
 
 export { LeaderboardRow, LEADERBOARD_ROW_HEIGHT } from './LeaderboardRow';
 export { LeaderboardPeriodTabs } from './LeaderboardPeriodTabs';
+export { LeaderboardSportFilter } from './LeaderboardSportFilter';
+export { LeaderboardViewTabs } from './LeaderboardViewTabs';
 export { LeaderboardSkeleton } from './LeaderboardSkeleton';
 export { UserRankCard } from './UserRankCard';
 export { RankChangeBadge } from './RankChangeBadge';
@@ -75,6 +75,8 @@ interface MatchCompletionModalProps {
   onDismiss: () => void;
   /** Called when user wants to play again */
   onPlayAgain?: () => void;
+  /** Called when user wants a rematch against the same opponent */
+  onRematch?: () => void;
   /** Called when user wants to view match details */
   onViewDetails?: () => void;
   /** Called when user wants to go back to home */
@@ -134,6 +136,7 @@ export function MatchCompletionModal({
   opponentSlip,
   onDismiss,
   onPlayAgain,
+  onRematch,
   onViewDetails,
   onBackToHome,
 }: MatchCompletionModalProps): React.ReactElement {
@@ -355,6 +358,28 @@ export function MatchCompletionModal({
             </Animated.View>
           )}
 
+          {/* Rematch Button */}
+          {onRematch && (
+            <Animated.View
+              style={[
+                styles.rematchContainer,
+                {
+                  transform: [{ translateY: contentTranslateY }],
+                  opacity: contentOpacity,
+                },
+              ]}
+            >
+              <Pressable
+                style={[styles.rematchButton, { borderColor: config.accentColor }]}
+                onPress={onRematch}
+              >
+                <Text style={[styles.rematchButtonText, { color: config.accentColor }]}>
+                  Run It Back
+                </Text>
+              </Pressable>
+            </Animated.View>
+          )}
+
           {/* Action Buttons */}
           <Animated.View
             style={[
@@ -541,6 +566,23 @@ const styles = StyleSheet.create({
   },
 
   // Buttons
+  rematchContainer: {
+    width: '100%',
+    marginBottom: 12,
+  },
+  rematchButton: {
+    borderRadius: 14,
+    paddingVertical: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1.5,
+    backgroundColor: 'transparent',
+  },
+  rematchButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    letterSpacing: 0.3,
+  },
   buttonContainer: {
     flexDirection: 'row',
     gap: 12,
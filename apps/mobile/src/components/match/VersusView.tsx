@@ -10,6 +10,7 @@
 // │   Creator       ⚔️     Opponent             │
 // │                5000 RC                       │
 // │              (stake)                         │
+// │  Your record: 3W  1L  0D  ·  +900 RC         │
 // ├─────────────────────────────────────────────┤
 // │ [LiveTracker: Creator's Picks]              │
 // ├─────────────────────────────────────────────┤
@@ -20,7 +21,7 @@ import React, { useMemo } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { UserScore } from './UserScore';
 import { LiveTracker } from './LiveTracker';
-import type { MatchWithDetails } from '@pick-rivals/shared-types';
+import type { MatchWithDetails, HeadToHeadSummary } from '@pick-rivals/shared-types';
 import type { ApiSlipResponse } from '../../services/slip.service';
 import type { EventScore } from '../../hooks/useMatchSocket';
 
@@ -39,6 +40,8 @@ interface VersusViewProps {
   creatorSlip?: ApiSlipResponse | null;
   /** Full slip data with picks for opponent */
   opponentSlip?: ApiSlipResponse | null;
+  /** Current user's record against the other participant */
+  headToHead?: HeadToHeadSummary | null;
 }
 
 // =====================================================
@@ -51,6 +54,7 @@ export function VersusView({
   liveScores,
   creatorSlip,
   opponentSlip,
+  headToHead,
 }: VersusViewProps): React.ReactElement {
   // Determine winning state
   const winningState = useMemo(() => {
@@ -149,6 +153,26 @@ export function VersusView({
         )}
       </View>
 
+      {/* Rivalry Record */}
+      {headToHead && headToHead.matchesPlayed > 0 && (
+        <View style={styles.rivalryStrip}>
+          <Text style={styles.rivalryLabel}>Your record</Text>
+          <Text style={styles.rivalryRecord}>
+            {headToHead.wins}W  {headToHead.losses}L  {headToHead.draws}D
+          </Text>
+          <Text
+            style={[
+              styles.rivalryCoins,
+              headToHead.netCoins > 0 && styles.rivalryCoinsUp,
+              headToHead.netCoins < 0 && styles.rivalryCoinsDown,
+            ]}
+          >
+            {headToHead.netCoins > 0 ? '+' : ''}
+            {headToHead.netCoins.toLocaleString()} RC
+          </Text>
+        </View>
+      )}
+
       {/* Live Trackers */}
       <View style={styles.trackersSection}>
         {/* Creator's Picks */}
@@ -284,6 +308,41 @@ const styles = StyleSheet.create({
     lineHeight: 18,
   },
 
+  // Rivalry Record
+  rivalryStrip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    backgroundColor: '#1e1e32',
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  rivalryLabel: {
+    color: '#6b7280',
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  rivalryRecord: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  rivalryCoins: {
+    color: '#9ca3af',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  rivalryCoinsUp: {
+    color: '#22c55e',
+  },
+  rivalryCoinsDown: {
+    color: '#ef4444',
+  },
+
   // Trackers Section
   trackersSection: {
     gap: 12,
@@ -0,0 +1,207 @@
+// =====================================================
+// HeadToHeadCard Component
+// =====================================================
+// Rivalry record against another user: W-L-D, net coins,
+// points for/against, average margin and the last five results.
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import type { HeadToHeadOutcome, HeadToHeadSummary } from '@pick-rivals/shared-types';
+import { LUXURY_THEME } from '../../constants/theme';
+import { GlassCard } from '../ui/GlassCard';
+
+// =====================================================
+// Types
+// =====================================================
+
+export interface HeadToHeadCardProps {
+  /** Record against the other user */
+  headToHead: HeadToHeadSummary;
+  /** Other user's name, for the empty state */
+  opponentName: string;
+}
+
+// =====================================================
+// Constants
+// =====================================================
+
+const OUTCOME_LABELS: Record<HeadToHeadOutcome, string> = {
+  win: 'W',
+  loss: 'L',
+  draw: 'D',
+};
+
+const OUTCOME_COLORS: Record<HeadToHeadOutcome, string> = {
+  win: LUXURY_THEME.status.success,
+  loss: LUXURY_THEME.status.error,
+  draw: LUXURY_THEME.text.muted,
+};
+
+// =====================================================
+// Helpers
+// =====================================================
+
+function formatSigned(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toLocaleString()}`;
+}
+
+// =====================================================
+// Component
+// =====================================================
+
+export function HeadToHeadCard({
+  headToHead,
+  opponentName,
+}: HeadToHeadCardProps): React.ReactElement {
+  const { matchesPlayed, wins, losses, draws, netCoins, averageMargin } = headToHead;
+
+  return (
+    <GlassCard padded>
+      {/* Card Title */}
+      <Text style={styles.title}>Head to Head</Text>
+
+      {matchesPlayed === 0 ? (
+        <Text style={styles.emptyText}>
+          No matches against {opponentName} yet. Challenge them to start a rivalry.
+        </Text>
+      ) : (
+        <>
+          {/* Record */}
+          <View style={styles.recordRow}>
+            <View style={styles.recordColumn}>
+              <Text style={[styles.recordValue, { color: OUTCOME_COLORS.win }]}>{wins}</Text>
+              <Text style={styles.recordLabel}>Wins</Text>
+            </View>
+            <View style={styles.recordColumn}>
+              <Text style={[styles.recordValue, { color: OUTCOME_COLORS.loss }]}>{losses}</Text>
+              <Text style={styles.recordLabel}>Losses</Text>
+            </View>
+            <View style={styles.recordColumn}>
+              <Text style={styles.recordValue}>{draws}</Text>
+              <Text style={styles.recordLabel}>Draws</Text>
+            </View>
+          </View>
+
+          <View style={styles.divider} />
+
+          {/* Totals */}
+          <View style={styles.statRow}>
+            <Text style={styles.statLabel}>Net Coins</Text>
+            <Text
+              style={[
+                styles.statValue,
+                netCoins > 0 && { color: OUTCOME_COLORS.win },
+                netCoins < 0 && { color: OUTCOME_COLORS.loss },
+              ]}
+            >
+              {formatSigned(netCoins)} RC
+            </Text>
+          </View>
+          <View style={styles.statRow}>
+            <Text style={styles.statLabel}>Points</Text>
+            <Text style={styles.statValue}>
+              {headToHead.pointsFor.toLocaleString()} – {headToHead.pointsAgainst.toLocaleString()}
+            </Text>
+          </View>
+          <View style={styles.statRow}>
+            <Text style={styles.statLabel}>Avg Margin</Text>
+            <Text style={styles.statValue}>{formatSigned(averageMargin)} pts</Text>
+          </View>
+
+          <View style={styles.divider} />
+
+          {/* Last Five (most recent first) */}
+          <View style={styles.statRow}>
+            <Text style={styles.statLabel}>Last {headToHead.lastFive.length}</Text>
+            <View style={styles.resultChips}>
+              {headToHead.lastFive.map((match) => (
+                <View
+                  key={match.matchId}
+                  style={[styles.resultChip, { borderColor: OUTCOME_COLORS[match.result] }]}
+                >
+                  <Text style={[styles.resultChipText, { color: OUTCOME_COLORS[match.result] }]}>
+                    {OUTCOME_LABELS[match.result]}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        </>
+      )}
+    </GlassCard>
+  );
+}
+
+// =====================================================
+// Styles
+// =====================================================
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: LUXURY_THEME.text.primary,
+    marginBottom: 16,
+    letterSpacing: 0.3,
+  },
+  emptyText: {
+    fontSize: 15,
+    color: LUXURY_THEME.text.secondary,
+    lineHeight: 22,
+  },
+  recordRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  recordColumn: {
+    alignItems: 'center',
+  },
+  recordValue: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: LUXURY_THEME.text.primary,
+  },
+  recordLabel: {
+    fontSize: 13,
+    color: LUXURY_THEME.text.secondary,
+    fontWeight: '500',
+    marginTop: 4,
+  },
+  statRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  statLabel: {
+    fontSize: 15,
+    color: LUXURY_THEME.text.secondary,
+    fontWeight: '500',
+  },
+  statValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: LUXURY_THEME.text.primary,
+  },
+  resultChips: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  resultChip: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    borderWidth: 1.5,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  resultChipText: {
+    fontSize: 12,
+    fontWeight: '800',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: LUXURY_THEME.border.muted,
+    marginVertical: 12,
+  },
+});
@@ -11,6 +11,9 @@ export type { StatsCardProps } from './StatsCard';
 export { StreaksCard } from './StreaksCard';
 export type { StreaksCardProps } from './StreaksCard';
 
+export { HeadToHeadCard } from './HeadToHeadCard';
+export type { HeadToHeadCardProps } from './HeadToHeadCard';
+
 export { AvatarSelector } from './AvatarSelector';
 export type { AvatarSelectorProps } from './AvatarSelector';
 
@@ -0,0 +1,226 @@
+// =====================================================
+// SeasonRecapCard Component
+// =====================================================
+// End-of-season recap: final rank and standing, peak rank,
+// win/loss record and the season reward paid out.
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { RANK_DISPLAY } from '@pick-rivals/shared-types';
+import type { RankedSeasonSummary } from '@pick-rivals/shared-types';
+import { RankBadge } from './RankBadge';
+import { LUXURY_THEME, GRADIENTS, SHADOWS } from '../../constants/theme';
+
+// =====================================================
+// Types
+// =====================================================
+
+interface SeasonRecapCardProps {
+  summary: RankedSeasonSummary;
+}
+
+// =====================================================
+// Helpers
+// =====================================================
+
+/**
+ * "Top 4%" for the top quarter of the board, otherwise "#42 of 1,250"
+ */
+function formatStanding(position: number, total: number): string {
+  const percentile = Math.max(1, Math.ceil((position / total) * 100));
+  if (percentile <= 25) {
+    return `Top ${percentile}%`;
+  }
+  return `#${position.toLocaleString()} of ${total.toLocaleString()}`;
+}
+
+// =====================================================
+// Component
+// =====================================================
+
+export function SeasonRecapCard({ summary }: SeasonRecapCardProps) {
+  const finalRank = summary.finalRank ?? summary.highestRank;
+  const showPeak =
+    summary.highestRank !== null && summary.highestRank !== summary.finalRank;
+
+  return (
+    <LinearGradient
+      colors={GRADIENTS.glassCard}
+      start={{ x: 0, y: 0 }}
+      end={{ x: 0, y: 1 }}
+      style={styles.container}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.title}>{summary.seasonName} Recap</Text>
+        {summary.rankPosition !== null && summary.totalRanked > 0 && (
+          <View style={styles.standingBadge}>
+            <Text style={styles.standingText}>
+              {formatStanding(summary.rankPosition, summary.totalRanked)}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {/* Final Rank */}
+      {finalRank ? (
+        <View style={styles.rankSection}>
+          <RankBadge rank={finalRank} size="lg" showLabel />
+          <Text style={styles.rankPoints}>{summary.finalRankPoints} RP</Text>
+          {showPeak && summary.highestRank && (
+            <Text style={styles.peakText}>
+              Peak: {RANK_DISPLAY[summary.highestRank].name}
+            </Text>
+          )}
+        </View>
+      ) : (
+        <Text style={styles.unplacedText}>
+          Placements not completed ({summary.placementMatchesPlayed}/10)
+        </Text>
+      )}
+
+      {/* Record */}
+      <View style={styles.recordRow}>
+        <View style={styles.recordItem}>
+          <Text style={styles.recordValue}>{summary.wins}</Text>
+          <Text style={styles.recordLabel}>WINS</Text>
+        </View>
+        <View style={styles.recordItem}>
+          <Text style={styles.recordValue}>{summary.losses}</Text>
+          <Text style={styles.recordLabel}>LOSSES</Text>
+        </View>
+        {summary.draws > 0 && (
+          <View style={styles.recordItem}>
+            <Text style={styles.recordValue}>{summary.draws}</Text>
+            <Text style={styles.recordLabel}>DRAWS</Text>
+          </View>
+        )}
+        <View style={styles.recordItem}>
+          <Text style={[styles.recordValue, styles.winRateValue]}>
+            {Math.round(summary.winRate * 100)}%
+          </Text>
+          <Text style={styles.recordLabel}>WIN RATE</Text>
+        </View>
+      </View>
+
+      {/* Season Reward */}
+      {summary.reward && (
+        <View style={styles.rewardRow}>
+          <Text style={styles.rewardLabel}>SEASON REWARD</Text>
+          <Text style={styles.rewardValue}>
+            +{summary.reward.coinReward.toLocaleString()} coins
+          </Text>
+        </View>
+      )}
+    </LinearGradient>
+  );
+}
+
+// =====================================================
+// Styles
+// =====================================================
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: LUXURY_THEME.spacing.borderRadius,
+    padding: LUXURY_THEME.spacing.cardPadding,
+    borderWidth: 1,
+    borderColor: LUXURY_THEME.border.subtle,
+    ...SHADOWS.card,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: LUXURY_THEME.text.primary,
+    letterSpacing: 0.5,
+  },
+  standingBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: LUXURY_THEME.surface.raised,
+  },
+  standingText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: LUXURY_THEME.gold.brushed,
+    letterSpacing: 1.2,
+  },
+  rankSection: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  rankPoints: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: LUXURY_THEME.text.primary,
+    marginTop: 8,
+    fontVariant: ['tabular-nums'],
+  },
+  peakText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: LUXURY_THEME.text.secondary,
+    marginTop: 4,
+  },
+  unplacedText: {
+    fontSize: 14,
+    color: LUXURY_THEME.text.secondary,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  recordRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: LUXURY_THEME.border.muted,
+  },
+  recordItem: {
+    alignItems: 'center',
+  },
+  recordValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: LUXURY_THEME.text.primary,
+  },
+  winRateValue: {
+    color: LUXURY_THEME.gold.brushed,
+  },
+  recordLabel: {
+    fontSize: 9,
+    fontWeight: '600',
+    color: LUXURY_THEME.text.muted,
+    letterSpacing: 1,
+    marginTop: 2,
+  },
+  rewardRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: LUXURY_THEME.border.muted,
+  },
+  rewardLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: LUXURY_THEME.text.secondary,
+    letterSpacing: 1.5,
+  },
+  rewardValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: LUXURY_THEME.gold.brushed,
+  },
+});
+
+export default SeasonRecapCard;
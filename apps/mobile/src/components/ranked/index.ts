@@ -7,4 +7,5 @@ export { RankBadge } from './RankBadge';
 export { RPProgressBar } from './RPProgressBar';
 export { PlacementProgress } from './PlacementProgress';
 export { RewardsTrack } from './RewardsTrack';
+export { SeasonRecapCard } from './SeasonRecapCard';
 export { RankedScreenSkeleton } from './RankedScreenSkeleton';
@@ -42,6 +42,12 @@ function getTransactionIcon(type: TransactionType): string {
       return '📅';
     case 'ADMIN_ADJUSTMENT':
       return '⚙️';
+    case 'DISPUTE_HOLD':
+      return '⏸️';
+    case 'DISPUTE_RELEASE':
+      return '▶️';
+    case 'PURCHASE_REVERSAL':
+      return '🧾';
     default:
       return '💰';
   }
@@ -70,6 +76,12 @@ function getTransactionLabel(type: TransactionType): string {
       return 'Weekly Allowance';
     case 'ADMIN_ADJUSTMENT':
       return 'Adjustment';
+    case 'DISPUTE_HOLD':
+      return 'Dispute Hold';
+    case 'DISPUTE_RELEASE':
+      return 'Dispute Release';
+    case 'PURCHASE_REVERSAL':
+      return 'Purchase Refunded';
     default:
       return 'Transaction';
   }
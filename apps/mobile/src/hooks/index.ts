@@ -11,8 +11,12 @@ export { useMatchSocket } from './useMatchSocket';
 export { useMatchWithSlips } from './useMatchWithSlips';
 export { useTierStatus } from './useTierStatus';
 export { useMomentum } from './useMomentum';
+export { useHeadToHead } from './useHeadToHead';
+export { useTournamentSocket } from './useTournamentSocket';
 export type { UseSocketReturn } from './useSocket';
 export type { UseMatchSocketOptions, UseMatchSocketReturn, EventScore } from './useMatchSocket';
 export type { UseMatchWithSlipsReturn } from './useMatchWithSlips';
 export type { TierStatus } from './useTierStatus';
+export type { UseHeadToHeadReturn } from './useHeadToHead';
+export type { UseTournamentSocketOptions, UseTournamentSocketReturn } from './useTournamentSocket';
 export type { MomentumResult } from '../utils/momentum';
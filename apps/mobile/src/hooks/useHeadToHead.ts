@@ -0,0 +1,96 @@
+// =====================================================
+// useHeadToHead Hook
+// =====================================================
+// Fetches the current user's rivalry record against another user.
+// Used on public profiles and in the match versus view.
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuthStore } from '../stores/auth.store';
+import { ProfileService } from '../services/profile.service';
+import type { HeadToHeadSummary } from '@pick-rivals/shared-types';
+
+// =====================================================
+// Types
+// =====================================================
+
+export interface UseHeadToHeadReturn {
+  /** Record against the other user (null until loaded) */
+  headToHead: HeadToHeadSummary | null;
+  /** Loading state */
+  isLoading: boolean;
+  /** Error message if fetch failed */
+  error: string | null;
+  /** Refetch the record */
+  refresh: () => Promise<void>;
+}
+
+// =====================================================
+// Hook Implementation
+// =====================================================
+
+/**
+ * Hook for the head-to-head record between the current user and another.
+ * Does nothing when signed out, or when the ID is missing or is the
+ * current user's own.
+ *
+ * @example
+ * ```tsx
+ * const { headToHead } = useHeadToHead(opponentId);
+ * ```
+ */
+export function useHeadToHead(userId?: string | null): UseHeadToHeadReturn {
+  const { user, isAuthenticated, isInitialized } = useAuthStore();
+
+  const [headToHead, setHeadToHead] = useState<HeadToHeadSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isMountedRef = useRef(true);
+
+  const canFetch = isInitialized && isAuthenticated && !!userId && userId !== user?.id;
+
+  const fetchHeadToHead = useCallback(async () => {
+    if (!canFetch || !userId) return;
+
+    setIsLoading(true);
+
+    try {
+      const data = await ProfileService.getHeadToHead(userId);
+      if (isMountedRef.current) {
+        setHeadToHead(data);
+        setError(null);
+      }
+    } catch (err: any) {
+      console.error('[useHeadToHead] Fetch error:', err);
+      if (isMountedRef.current) {
+        setError(err.message || 'Failed to load head-to-head record');
+      }
+    } finally {
+      if (isMountedRef.current) {
+        setIsLoading(false);
+      }
+    }
+  }, [canFetch, userId]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    setHeadToHead(null);
+    fetchHeadToHead();
+  }, [fetchHeadToHead]);
+
+  return {
+    headToHead,
+    isLoading,
+    error,
+    refresh: fetchHeadToHead,
+  };
+}
+
+export default useHeadToHead;
@@ -2,7 +2,7 @@
 // useLeaderboard Hook
 // =====================================================
 // Custom hook for fetching and managing leaderboard data.
-// Supports period switching, pagination, and pull-to-refresh.
+// Supports period, sport and view switching, pagination, and pull-to-refresh.
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuthStore } from '../stores/auth.store';
@@ -12,6 +12,8 @@ import type {
   LeaderboardPeriod,
   LeaderboardPagination,
   LeaderboardData,
+  LeaderboardSport,
+  LeaderboardView,
 } from '../types/leaderboard.types';
 
 // =====================================================
@@ -21,6 +23,10 @@ import type {
 interface UseLeaderboardOptions {
   /** Initial period selection */
   initialPeriod?: LeaderboardPeriod;
+  /** Initial sport selection */
+  initialSport?: LeaderboardSport;
+  /** Initial view selection */
+  initialView?: LeaderboardView;
   /** Items per page */
   limit?: number;
   /** Auto-fetch on mount */
@@ -46,6 +52,16 @@ interface UseLeaderboardReturn {
   period: LeaderboardPeriod;
   /** Set period (triggers refetch) */
   setPeriod: (period: LeaderboardPeriod) => void;
+  /** Current sport filter */
+  sport: LeaderboardSport;
+  /** Set sport (triggers refetch) */
+  setSport: (sport: LeaderboardSport) => void;
+  /** Current view (top, friends or around me) */
+  view: LeaderboardView;
+  /** Set view (triggers refetch) */
+  setView: (view: LeaderboardView) => void;
+  /** Current user's rank on the full board (around-me view only) */
+  userRank: number | null;
   /** Pull-to-refresh handler */
   refresh: () => Promise<void>;
   /** Load more items handler */
@@ -62,11 +78,13 @@ interface UseLeaderboardReturn {
  * useLeaderboard - Fetch and manage leaderboard data with period switching
  *
  * Features:
- * - Switch between all-time and weekly periods
+ * - Switch between all-time, weekly, monthly and seasonal periods
+ * - Filter by sport
+ * - Top, friends-only and "around me" views
  * - Infinite scroll pagination
  * - Pull-to-refresh
  * - Loading/error states
- * - Automatic refetch on period change
+ * - Automatic refetch on period, sport or view change
  * - Current user entry detection
  *
  * @example
@@ -85,7 +103,13 @@ interface UseLeaderboardReturn {
 export function useLeaderboard(
   options: UseLeaderboardOptions = {}
 ): UseLeaderboardReturn {
-  const { initialPeriod = 'all-time', limit = 20, autoFetch = true } = options;
+  const {
+    initialPeriod = 'all-time',
+    initialSport = 'ALL',
+    initialView = 'top',
+    limit = 20,
+    autoFetch = true,
+  } = options;
 
   // Auth state
   const { user, isInitialized } = useAuthStore();
@@ -101,16 +125,29 @@ export function useLeaderboard(
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [period, setPeriodState] = useState<LeaderboardPeriod>(initialPeriod);
+  const [sport, setSportState] = useState<LeaderboardSport>(initialSport);
+  const [view, setViewState] = useState<LeaderboardView>(initialView);
+  const [userRank, setUserRank] = useState<number | null>(null);
 
   // Refs to prevent stale closures
   const currentPeriodRef = useRef(period);
+  const currentSportRef = useRef(sport);
+  const currentViewRef = useRef(view);
   const isFetchingRef = useRef(false);
 
-  // Update ref when period changes
+  // Update refs when selection changes
   useEffect(() => {
     currentPeriodRef.current = period;
   }, [period]);
 
+  useEffect(() => {
+    currentSportRef.current = sport;
+  }, [sport]);
+
+  useEffect(() => {
+    currentViewRef.current = view;
+  }, [view]);
+
   // =====================================================
   // Fetch Logic
   // =====================================================
@@ -128,13 +165,40 @@ export function useLeaderboard(
       isFetchingRef.current = true;
 
       try {
-        const result = await LeaderboardService.getLeaderboard(
-          currentPeriodRef.current,
-          { page, limit }
-        );
+        const selectionChanged = () =>
+          (currentPeriodRef.current !== period ||
+            currentSportRef.current !== sport ||
+            currentViewRef.current !== view) &&
+          !isRefresh;
+
+        // Around-me is a single window - no pagination
+        if (currentViewRef.current === 'around-me') {
+          const result = await LeaderboardService.getAroundMeLeaderboard(
+            currentPeriodRef.current,
+            { sport: currentSportRef.current }
+          );
+
+          if (selectionChanged()) {
+            isFetchingRef.current = false;
+            return;
+          }
 
-        // Check if period changed during fetch
-        if (currentPeriodRef.current !== period && !isRefresh) {
+          setEntries(result.leaderboard.entries);
+          setLeaderboard(result.leaderboard);
+          setPagination(null);
+          setUserRank(result.userRank);
+          setError(null);
+          return;
+        }
+
+        const params = { page, limit, sport: currentSportRef.current };
+        const result =
+          currentViewRef.current === 'friends'
+            ? await LeaderboardService.getFriendsLeaderboard(currentPeriodRef.current, params)
+            : await LeaderboardService.getLeaderboard(currentPeriodRef.current, params);
+
+        // Check if selection changed during fetch
+        if (selectionChanged()) {
           isFetchingRef.current = false;
           return;
         }
@@ -147,6 +211,7 @@ export function useLeaderboard(
 
         setLeaderboard(result.leaderboard);
         setPagination(result.pagination);
+        setUserRank(null);
         setError(null);
       } catch (err: any) {
         console.error('[useLeaderboard] Fetch error:', err);
@@ -155,11 +220,11 @@ export function useLeaderboard(
         isFetchingRef.current = false;
       }
     },
-    [period, limit]
+    [period, sport, view, limit]
   );
 
   // =====================================================
-  // Period Change Handler
+  // Period / Sport / View Change Handlers
   // =====================================================
 
   /**
@@ -172,7 +237,27 @@ export function useLeaderboard(
     setPeriodState(newPeriod);
   }, []);
 
-  // Auto-fetch on mount and period change
+  /**
+   * Change sport filter and refetch
+   */
+  const setSport = useCallback((newSport: LeaderboardSport) => {
+    if (newSport === currentSportRef.current) {
+      return;
+    }
+    setSportState(newSport);
+  }, []);
+
+  /**
+   * Change view and refetch
+   */
+  const setView = useCallback((newView: LeaderboardView) => {
+    if (newView === currentViewRef.current) {
+      return;
+    }
+    setViewState(newView);
+  }, []);
+
+  // Auto-fetch on mount and period/sport/view change
   // Leaderboard endpoints are public so no auth needed, but we wait for init anyway
   useEffect(() => {
     if (autoFetch && isInitialized) {
@@ -182,7 +267,7 @@ export function useLeaderboard(
       setError(null);
       fetchLeaderboardInternal(1).finally(() => setIsLoading(false));
     }
-  }, [period, autoFetch, fetchLeaderboardInternal, isInitialized]);
+  }, [period, sport, view, autoFetch, fetchLeaderboardInternal, isInitialized]);
 
   // =====================================================
   // Refresh Handler
@@ -237,6 +322,11 @@ export function useLeaderboard(
     error,
     period,
     setPeriod,
+    sport,
+    setSport,
+    view,
+    setView,
+    userRank,
     refresh,
     loadMore,
     currentUserEntry,
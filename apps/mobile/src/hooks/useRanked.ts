@@ -7,7 +7,12 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuthStore } from '../stores/auth.store';
 import { RankedService, RewardItem, RankedData } from '../services/ranked.service';
-import type { Season, PlacementStatus, RankedProgress } from '@pick-rivals/shared-types';
+import type {
+  Season,
+  PlacementStatus,
+  RankedProgress,
+  RankedSeasonSummary,
+} from '@pick-rivals/shared-types';
 
 // =====================================================
 // Types
@@ -27,6 +32,8 @@ interface UseRankedReturn {
   progress: RankedProgress | null;
   /** Season rewards with claim status */
   rewards: RewardItem[];
+  /** End-of-season recap (after the season ends) */
+  summary: RankedSeasonSummary | null;
   /** Initial loading state */
   isLoading: boolean;
   /** Pull-to-refresh state */
@@ -56,6 +63,7 @@ interface UseRankedReturn {
  *
  * Features:
  * - Fetches current season, placement status, and ranked progress
+ * - Fetches the season recap once the season has ended
  * - Supports pull-to-refresh
  * - Loading/error states
  * - Reward claiming
@@ -88,6 +96,7 @@ export function useRanked(options: UseRankedOptions = {}): UseRankedReturn {
   const [placement, setPlacement] = useState<PlacementStatus | null>(null);
   const [progress, setProgress] = useState<RankedProgress | null>(null);
   const [rewards, setRewards] = useState<RewardItem[]>([]);
+  const [summary, setSummary] = useState<RankedSeasonSummary | null>(null);
 
   // Loading states
   const [isLoading, setIsLoading] = useState(true);
@@ -133,6 +142,7 @@ export function useRanked(options: UseRankedOptions = {}): UseRankedReturn {
         setPlacement(data.placement);
         setProgress(data.progress);
         setRewards(data.rewards);
+        setSummary(data.summary);
         setError(null);
       }
     } catch (err: any) {
@@ -233,6 +243,7 @@ export function useRanked(options: UseRankedOptions = {}): UseRankedReturn {
     placement,
     progress,
     rewards,
+    summary,
     isLoading,
     isRefreshing,
     isClaiming,
@@ -0,0 +1,97 @@
+// =====================================================
+// useTournamentSocket Hook
+// =====================================================
+// Joins a tournament room while mounted and forwards live bracket
+// updates (tournament:updated) for that tournament.
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import SocketService from '../services/socket.service';
+import { useSocket } from './useSocket';
+import type { TournamentUpdatedPayload } from '../types/socket.types';
+
+// =====================================================
+// Types
+// =====================================================
+
+export interface UseTournamentSocketOptions {
+  /** The tournament to follow */
+  tournamentId: string | undefined;
+  /** Called with each bracket update for this tournament */
+  onUpdate: (payload: TournamentUpdatedPayload) => void;
+}
+
+export interface UseTournamentSocketReturn {
+  /** Whether socket is connected */
+  isConnected: boolean;
+  /** Whether the tournament room has been joined */
+  isInRoom: boolean;
+}
+
+// =====================================================
+// Hook Implementation
+// =====================================================
+
+/**
+ * Hook for live tournament bracket updates.
+ *
+ * Joins the tournament room once the socket is connected (and again
+ * after reconnects, via the socket service) and leaves on unmount.
+ */
+export function useTournamentSocket(
+  options: UseTournamentSocketOptions
+): UseTournamentSocketReturn {
+  const { tournamentId, onUpdate } = options;
+  const socketService = useMemo(() => SocketService.getInstance(), []);
+  const { isConnected } = useSocket();
+  const [isInRoom, setIsInRoom] = useState(false);
+
+  // Keep the latest callback without re-subscribing on every render
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  // Join / leave the room
+  useEffect(() => {
+    if (!tournamentId || !isConnected) return;
+
+    let isMounted = true;
+
+    socketService
+      .joinTournament(tournamentId)
+      .then(() => {
+        if (isMounted) setIsInRoom(true);
+      })
+      .catch((error: unknown) => {
+        if (__DEV__) {
+          console.warn('[useTournamentSocket] Failed to join tournament room:', error);
+        }
+        if (isMounted) setIsInRoom(false);
+      });
+
+    return () => {
+      isMounted = false;
+      socketService.leaveTournament(tournamentId);
+      setIsInRoom(false);
+    };
+  }, [tournamentId, isConnected, socketService]);
+
+  // Forward updates for this tournament
+  useEffect(() => {
+    if (!tournamentId) return;
+
+    const listenerId = socketService.subscribe<TournamentUpdatedPayload>(
+      'tournament:updated',
+      (payload) => {
+        if (payload.tournamentId !== tournamentId) return;
+        onUpdateRef.current(payload);
+      }
+    );
+
+    return () => {
+      socketService.unsubscribe(listenerId);
+    };
+  }, [tournamentId, socketService]);
+
+  return { isConnected, isInRoom };
+}
+
+export default useTournamentSocket;
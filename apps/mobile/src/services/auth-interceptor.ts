@@ -39,6 +39,9 @@ function isAuthEndpoint(url: string | undefined): boolean {
     '/auth/register',
     '/auth/refresh',
     '/auth/check-username',
+    '/auth/verify-email',
+    '/auth/forgot-password',
+    '/auth/reset-password',
   ];
 
   return authEndpoints.some((endpoint) => url.includes(endpoint));
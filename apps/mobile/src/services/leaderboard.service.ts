@@ -5,10 +5,13 @@
 // All methods are typed and handle errors gracefully.
 
 import { api } from './api';
+import { LEADERBOARD_PERIOD_PATHS } from '../types/leaderboard.types';
 import type {
+  AroundMeLeaderboardResponse,
   PaginatedLeaderboardResponse,
   LeaderboardPeriod,
   LeaderboardPagination,
+  LeaderboardSport,
 } from '../types/leaderboard.types';
 
 /**
@@ -35,6 +38,8 @@ interface ApiResponse<T> {
 interface LeaderboardQueryParams {
   page?: number;
   limit?: number;
+  /** Per-sport board; omitted or 'ALL' for the all-sports board */
+  sport?: LeaderboardSport;
 }
 
 /**
@@ -42,26 +47,56 @@ interface LeaderboardQueryParams {
  *
  * Provides type-safe methods for:
  * - Fetching global all-time leaderboard
- * - Fetching current week leaderboard
+ * - Fetching current week, month and season leaderboards
+ * - Filtering any of these to a single sport
+ * - Friends-only and "around me" views (auth required)
  */
 export const LeaderboardService = {
   /**
    * Get global all-time leaderboard.
-   * @param params - Pagination parameters.
+   * @param params - Pagination and sport parameters.
    * @returns Paginated leaderboard data.
    */
   async getGlobalLeaderboard(
     params: LeaderboardQueryParams = {}
   ): Promise<PaginatedLeaderboardResponse> {
-    const { page = 1, limit = 20 } = params;
+    return this.getLeaderboard('all-time', params);
+  },
+
+  /**
+   * Get current week leaderboard.
+   * @param params - Pagination and sport parameters.
+   * @returns Paginated weekly leaderboard data.
+   */
+  async getWeeklyLeaderboard(
+    params: LeaderboardQueryParams = {}
+  ): Promise<PaginatedLeaderboardResponse> {
+    return this.getLeaderboard('weekly', params);
+  },
+
+  /**
+   * Unified fetch method based on period.
+   * @param period - 'all-time', 'weekly', 'monthly' or 'seasonal'
+   * @param params - Pagination and sport parameters.
+   * @returns Paginated leaderboard data.
+   */
+  async getLeaderboard(
+    period: LeaderboardPeriod,
+    params: LeaderboardQueryParams = {}
+  ): Promise<PaginatedLeaderboardResponse> {
+    const { page = 1, limit = 20, sport = 'ALL' } = params;
 
     const queryParams = new URLSearchParams({
       page: page.toString(),
       limit: limit.toString(),
     });
 
+    if (sport !== 'ALL') {
+      queryParams.set('sport', sport);
+    }
+
     const response = await api.get<ApiResponse<PaginatedLeaderboardResponse>>(
-      `/leaderboard?${queryParams.toString()}`
+      `/leaderboard/${LEADERBOARD_PERIOD_PATHS[period]}?${queryParams.toString()}`
     );
 
     if (!response.data.success || !response.data.data) {
@@ -74,27 +109,33 @@ export const LeaderboardService = {
   },
 
   /**
-   * Get current week leaderboard.
-   * @param params - Pagination parameters.
-   * @returns Paginated weekly leaderboard data.
+   * Get the leaderboard ranking only the current user and their friends.
+   * @param period - Leaderboard period.
+   * @param params - Pagination and sport parameters.
+   * @returns Paginated friends leaderboard data.
    */
-  async getWeeklyLeaderboard(
+  async getFriendsLeaderboard(
+    period: LeaderboardPeriod,
     params: LeaderboardQueryParams = {}
   ): Promise<PaginatedLeaderboardResponse> {
-    const { page = 1, limit = 20 } = params;
+    const { page = 1, limit = 20, sport = 'ALL' } = params;
 
     const queryParams = new URLSearchParams({
       page: page.toString(),
       limit: limit.toString(),
     });
 
+    if (sport !== 'ALL') {
+      queryParams.set('sport', sport);
+    }
+
     const response = await api.get<ApiResponse<PaginatedLeaderboardResponse>>(
-      `/leaderboard/weekly?${queryParams.toString()}`
+      `/leaderboard/${LEADERBOARD_PERIOD_PATHS[period]}/friends?${queryParams.toString()}`
     );
 
     if (!response.data.success || !response.data.data) {
       throw new Error(
-        response.data.error?.message || 'Failed to fetch weekly leaderboard'
+        response.data.error?.message || 'Failed to fetch friends leaderboard'
       );
     }
 
@@ -102,18 +143,34 @@ export const LeaderboardService = {
   },
 
   /**
-   * Unified fetch method based on period.
-   * @param period - 'all-time' or 'weekly'
-   * @param params - Pagination parameters.
-   * @returns Paginated leaderboard data.
+   * Get the entries ranked just above and below the current user.
+   * @param period - Leaderboard period.
+   * @param params - Sport filter and number of entries on each side.
+   * @returns Entries around the user with their board rank.
    */
-  async getLeaderboard(
+  async getAroundMeLeaderboard(
     period: LeaderboardPeriod,
-    params: LeaderboardQueryParams = {}
-  ): Promise<PaginatedLeaderboardResponse> {
-    return period === 'weekly'
-      ? this.getWeeklyLeaderboard(params)
-      : this.getGlobalLeaderboard(params);
+    params: { sport?: LeaderboardSport; radius?: number } = {}
+  ): Promise<AroundMeLeaderboardResponse> {
+    const { sport = 'ALL', radius = 5 } = params;
+
+    const queryParams = new URLSearchParams({ radius: radius.toString() });
+
+    if (sport !== 'ALL') {
+      queryParams.set('sport', sport);
+    }
+
+    const response = await api.get<ApiResponse<AroundMeLeaderboardResponse>>(
+      `/leaderboard/${LEADERBOARD_PERIOD_PATHS[period]}/around-me?${queryParams.toString()}`
+    );
+
+    if (!response.data.success || !response.data.data) {
+      throw new Error(
+        response.data.error?.message || 'Failed to fetch leaderboard position'
+      );
+    }
+
+    return response.data.data;
   },
 };
 
@@ -0,0 +1,192 @@
+// =====================================================
+// League Service
+// =====================================================
+// API service for private leagues: create, join, weekly slip
+// submission, standings and leaving/archiving.
+
+import { api } from './api';
+import type {
+  ApiResponse,
+  CreateLeagueInput,
+  LeagueDetails,
+  LeagueEntryInfo,
+  LeagueSummary,
+} from '@pick-rivals/shared-types';
+
+// =====================================================
+// League Service Class
+// =====================================================
+
+/**
+ * Service for private leagues
+ *
+ * Features:
+ * - List the user's leagues
+ * - Create a league / join by invite code
+ * - Fetch members, standings and the current-round entry
+ * - Submit a slip for the current round
+ * - Leave (members) or archive (owner) a league
+ */
+export class LeagueService {
+  /**
+   * Get the leagues the current user belongs to
+   *
+   * @returns League summaries, active leagues first
+   */
+  static async getMyLeagues(): Promise<LeagueSummary[]> {
+    const response = await api.get<ApiResponse<LeagueSummary[]>>('/leagues');
+
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to load leagues');
+    }
+
+    return response.data.data;
+  }
+
+  /**
+   * Get a league's members, standings and your current-round entry
+   *
+   * @param leagueId - League ID
+   * @returns League details
+   * @throws Error if not found or not a member
+   */
+  static async getLeague(leagueId: string): Promise<LeagueDetails> {
+    try {
+      const response = await api.get<ApiResponse<LeagueDetails>>(`/leagues/${leagueId}`);
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.error?.message || 'Failed to load league');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        throw new Error('League not found.');
+      }
+      if (error.response?.status === 403) {
+        throw new Error('You are not a member of this league.');
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Create a league. The creator becomes its owner.
+   *
+   * @param input - Name, stake and weekly schedule (UTC)
+   * @returns Created league (includes the invite code to share)
+   */
+  static async createLeague(input: CreateLeagueInput): Promise<LeagueDetails> {
+    const response = await api.post<ApiResponse<LeagueDetails>>('/leagues', input);
+
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to create league');
+    }
+
+    return response.data.data;
+  }
+
+  /**
+   * Join a league by invite code
+   *
+   * @param inviteCode - Code shared by a league member
+   * @returns Joined league
+   */
+  static async joinLeague(inviteCode: string): Promise<LeagueDetails> {
+    try {
+      const response = await api.post<ApiResponse<LeagueDetails>>('/leagues/join', {
+        inviteCode,
+      });
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.error?.message || 'Failed to join league');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      const code = error.response?.data?.error?.code;
+      if (code === 'LEAGUE_001') {
+        throw new Error('No league found for that invite code.');
+      }
+      if (code === 'LEAGUE_002') {
+        throw new Error('This league is full.');
+      }
+      if (code === 'LEAGUE_003') {
+        throw new Error('This league has been archived.');
+      }
+      if (code === 'LEAGUE_004') {
+        throw new Error("You're already in this league.");
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Submit a slip for the league's current round.
+   * The league stake is debited and the slip locked until the round starts.
+   *
+   * @param leagueId - League ID
+   * @param slipId - DRAFT slip to submit
+   * @returns The round entry
+   */
+  static async submitSlip(leagueId: string, slipId: string): Promise<LeagueEntryInfo> {
+    try {
+      const response = await api.post<ApiResponse<LeagueEntryInfo>>(
+        `/leagues/${leagueId}/entries`,
+        { slipId }
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.error?.message || 'Failed to submit slip');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      const code = error.response?.data?.error?.code;
+      if (code === 'WALLET_001') {
+        throw new Error('Insufficient balance. Please add funds to your wallet.');
+      }
+      if (code === 'LEAGUE_005') {
+        throw new Error('You already submitted a slip for this round.');
+      }
+      if (code === 'SLIP_003') {
+        throw new Error(error.response.data.error.message || 'Your slip has the wrong number of picks.');
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Leave a league. A slip submitted for the current round is refunded.
+   *
+   * @param leagueId - League ID
+   */
+  static async leaveLeague(leagueId: string): Promise<void> {
+    const response = await api.post<ApiResponse<{ left: boolean }>>(`/leagues/${leagueId}/leave`);
+
+    if (!response.data.success) {
+      throw new Error(response.data.error?.message || 'Failed to leave league');
+    }
+  }
+
+  /**
+   * Archive a league (owner only). Stops future rounds.
+   *
+   * @param leagueId - League ID
+   * @returns Archived league
+   */
+  static async archiveLeague(leagueId: string): Promise<LeagueDetails> {
+    const response = await api.delete<ApiResponse<LeagueDetails>>(`/leagues/${leagueId}`);
+
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to archive league');
+    }
+
+    return response.data.data;
+  }
+}
+
+export default LeagueService;
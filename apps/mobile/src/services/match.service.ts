@@ -10,6 +10,8 @@ import type {
   MatchWithDetails,
   CreateMatchInput,
   JoinMatchInput,
+  RequestRematchInput,
+  RematchResult,
 } from '@pick-rivals/shared-types';
 import type { ApiResponse } from '@pick-rivals/shared-types';
 
@@ -26,6 +28,7 @@ import type { ApiResponse } from '@pick-rivals/shared-types';
  * - Fetch user's match history
  * - Get match details by ID
  * - Get match by invite code
+ * - Request a rematch of a settled match
  */
 export class MatchService {
   /**
@@ -116,6 +119,58 @@ export class MatchService {
     }
   }
 
+  /**
+   * Request a rematch of a settled match (same opponent, same stake).
+   * If the opponent already asked, the rematch starts immediately.
+   *
+   * @param matchId - ID of the settled match
+   * @param input - New draft slip and optional same-slip-size requirement
+   * @returns REMATCH_REQUESTED or REMATCH_STARTED with the new match
+   * @throws Error if the request fails
+   *
+   * @example
+   * ```ts
+   * const { status, match } = await MatchService.requestRematch('match_123', {
+   *   slipId: 'slip_456',
+   *   sameSlipSize: true,
+   * });
+   * ```
+   */
+  static async requestRematch(
+    matchId: string,
+    input: RequestRematchInput
+  ): Promise<RematchResult> {
+    try {
+      const response = await api.post<ApiResponse<RematchResult>>(
+        `/matches/${matchId}/rematch`,
+        input
+      );
+
+      if (!response.data.success || !response.data.data) {
+        const errorMessage = response.data.error?.message || 'Failed to request rematch';
+        throw new Error(errorMessage);
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      // Handle specific error codes
+      if (error.response?.data?.error?.code === 'WALLET_001') {
+        throw new Error('Insufficient balance. Please add funds to your wallet.');
+      }
+      if (error.response?.data?.error?.code === 'MATCH_002') {
+        throw new Error(
+          error.response.data.error.message || 'You or your opponent are already in a match.'
+        );
+      }
+      if (error.response?.data?.error?.code === 'SLIP_003') {
+        throw new Error(error.response.data.error.message || 'Your slip has the wrong number of picks.');
+      }
+
+      // Re-throw original error
+      throw error;
+    }
+  }
+
   /**
    * Get match by invite code
    *
@@ -5,7 +5,11 @@
 // All methods are typed and handle errors gracefully.
 
 import { api } from './api';
-import type { UserProfileResponse, UpdateUserInput } from '@pick-rivals/shared-types';
+import type {
+  UserProfileResponse,
+  UpdateUserInput,
+  HeadToHeadSummary,
+} from '@pick-rivals/shared-types';
 
 /**
  * Standard API response wrapper.
@@ -30,6 +34,7 @@ interface ApiResponse<T> {
  * Provides type-safe methods for:
  * - Fetching own profile
  * - Fetching public profiles
+ * - Fetching head-to-head records
  * - Updating profile
  */
 export const ProfileService = {
@@ -70,6 +75,25 @@ export const ProfileService = {
     return response.data.data.user;
   },
 
+  /**
+   * Get the current user's head-to-head record against another user.
+   * @param userId - The other user's ID.
+   * @returns Wins, losses, draws, net coins, points and last five results.
+   */
+  async getHeadToHead(userId: string): Promise<HeadToHeadSummary> {
+    const response = await api.get<ApiResponse<HeadToHeadSummary>>(
+      `/users/${userId}/head-to-head`
+    );
+
+    if (!response.data.success || !response.data.data) {
+      throw new Error(
+        response.data.error?.message || 'Failed to fetch head-to-head record'
+      );
+    }
+
+    return response.data.data;
+  },
+
   /**
    * Update current user's profile.
    * @param data - Fields to update (displayName, avatarUrl).
@@ -9,6 +9,7 @@ import {
   Rank,
   PlacementStatus,
   RankedProgress,
+  RankedSeasonSummary,
   Season,
   SeasonStatus,
   SeasonReward,
@@ -36,6 +37,8 @@ export interface RankedData {
   placement: PlacementStatus | null;
   progress: RankedProgress | null;
   rewards: RewardItem[];
+  /** End-of-season recap, only once the season has ended */
+  summary: RankedSeasonSummary | null;
 }
 
 // =====================================================
@@ -225,6 +228,31 @@ export const RankedService = {
     }
   },
 
+  /**
+   * Get the end-of-season recap for a user
+   */
+  async getSeasonSummary(seasonId: string): Promise<RankedSeasonSummary | null> {
+    try {
+      const response = await api.get<{
+        success: boolean;
+        data?: RankedSeasonSummary;
+        error?: { message: string };
+      }>(`/ranked/season/${seasonId}/summary`);
+
+      if (!response.data.success || !response.data.data) {
+        return null;
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      // 404 means user didn't play the season, 400 that it hasn't ended yet
+      if (error.response?.status === 404 || error.response?.status === 400) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
   /**
    * Get season rewards with claim status
    * TODO: Wire to GET /api/v1/seasons/:seasonId/rewards when backend ready
@@ -271,6 +299,7 @@ export const RankedService = {
         placement: null,
         progress: null,
         rewards: [],
+        summary: null,
       };
     }
 
@@ -289,11 +318,17 @@ export const RankedService = {
     // Get rewards with status based on current rank
     const rewards = await this.getSeasonRewards(season.id, currentRank);
 
+    // Season is over - fetch the recap
+    const hasEnded =
+      season.status === SeasonStatus.ENDED || season.status === SeasonStatus.ARCHIVED;
+    const summary = hasEnded ? await this.getSeasonSummary(season.id) : null;
+
     return {
       season,
       placement,
       progress,
       rewards,
+      summary,
     };
   },
 };
@@ -7,7 +7,7 @@
 // Features:
 // - Auth-aware connection with JWT
 // - Exponential backoff reconnection
-// - Room management for match subscriptions
+// - Room management for match and tournament subscriptions
 // - Event listener registry with leak detection
 // - Auto-disconnect on logout
 
@@ -22,6 +22,7 @@ import type {
   EventCallback,
   JoinMatchResponse,
   LeaveMatchResponse,
+  TournamentRoomResponse,
 } from '../types/socket.types';
 
 
@@ -91,6 +92,7 @@ class SocketService {
   // Room management
   private activeRooms: Set<string> = new Set();
   private roomCleanupTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private activeTournamentRooms: Set<string> = new Set();
 
   // Unsubscribe from auth store
   private authUnsubscribe: (() => void) | null = null;
@@ -225,6 +227,7 @@ class SocketService {
 
     // Clear rooms
     this.activeRooms.clear();
+    this.activeTournamentRooms.clear();
 
     // Disconnect socket
     if (this.socket) {
@@ -326,6 +329,58 @@ class SocketService {
     this.roomCleanupTimers.set(matchId, cleanupTimer);
   }
 
+  /**
+   * Join a tournament room to receive live bracket updates.
+   * @param tournamentId - The tournament ID to join
+   */
+  async joinTournament(tournamentId: string): Promise<void> {
+    if (!this.socket?.connected) {
+      throw new Error('Socket not connected');
+    }
+
+    const currentGen = this.connectionGeneration;
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('Join timeout')), JOIN_TIMEOUT_MS);
+
+      this.socket!.emit('join:tournament', { tournamentId }, (response: TournamentRoomResponse) => {
+        clearTimeout(timeout);
+
+        if (currentGen !== this.connectionGeneration) {
+          return reject(new Error('Connection cycled during join'));
+        }
+
+        if (response.success) {
+          this.activeTournamentRooms.add(tournamentId);
+          console.log('[Socket] Joined tournament room:', tournamentId);
+          resolve();
+        } else {
+          console.error('[Socket] Failed to join tournament:', response.error);
+          reject(new Error(response.error || 'Failed to join tournament'));
+        }
+      });
+    });
+  }
+
+  /**
+   * Leave a tournament room.
+   * @param tournamentId - The tournament ID to leave
+   */
+  leaveTournament(tournamentId: string): void {
+    // Stop rejoining on reconnect even if the leave ack never arrives
+    this.activeTournamentRooms.delete(tournamentId);
+
+    if (!this.socket?.connected) {
+      return;
+    }
+
+    this.socket.emit('leave:tournament', { tournamentId }, (response: TournamentRoomResponse) => {
+      if (!response.success) {
+        console.error('[Socket] Failed to leave tournament:', response.error);
+      }
+    });
+  }
+
   // =====================================================
   // Event Subscription
   // =====================================================
@@ -601,6 +656,8 @@ class SocketService {
   }
 
   private async rejoinActiveRooms(): Promise<void> {
+    await this.rejoinTournamentRooms();
+
     if (this.activeRooms.size === 0) return;
 
     console.log('[Socket] Rejoining rooms:', Array.from(this.activeRooms));
@@ -621,6 +678,17 @@ class SocketService {
     }
   }
 
+  private async rejoinTournamentRooms(): Promise<void> {
+    for (const tournamentId of Array.from(this.activeTournamentRooms)) {
+      try {
+        await this.joinTournament(tournamentId);
+      } catch (error) {
+        console.error(`[Socket] Failed to rejoin tournament ${tournamentId}:`, error);
+        this.activeTournamentRooms.delete(tournamentId);
+      }
+    }
+  }
+
   // =====================================================
   // Cleanup (for testing/hot reload)
   // =====================================================
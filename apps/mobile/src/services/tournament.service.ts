@@ -0,0 +1,150 @@
+// =====================================================
+// Tournament Service
+// =====================================================
+// API service for single-elimination tournaments: browse, register
+// with a round 1 slip, view the bracket and submit slips for later
+// rounds.
+
+import { api } from './api';
+import type {
+  ApiResponse,
+  TournamentDetails,
+  TournamentStatus,
+  TournamentSummary,
+} from '@pick-rivals/shared-types';
+
+// =====================================================
+// Tournament Service Class
+// =====================================================
+
+/**
+ * Service for tournaments
+ *
+ * Features:
+ * - List open, running and finished tournaments
+ * - Fetch the bracket, payouts and your entry
+ * - Register (pays the entry fee with a round 1 slip)
+ * - Submit a slip for your current bracket match
+ */
+export class TournamentService {
+  /**
+   * List tournaments
+   *
+   * @param status - Optional status filter
+   * @returns Tournament summaries, soonest first
+   */
+  static async listTournaments(status?: TournamentStatus): Promise<TournamentSummary[]> {
+    const response = await api.get<ApiResponse<TournamentSummary[]>>('/tournaments', {
+      params: status ? { status } : undefined,
+    });
+
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error?.message || 'Failed to load tournaments');
+    }
+
+    return response.data.data;
+  }
+
+  /**
+   * Get a tournament's bracket, round slates, payouts and your entry
+   *
+   * @param tournamentId - Tournament ID
+   * @returns Tournament details
+   * @throws Error if not found
+   */
+  static async getTournament(tournamentId: string): Promise<TournamentDetails> {
+    try {
+      const response = await api.get<ApiResponse<TournamentDetails>>(
+        `/tournaments/${tournamentId}`
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.error?.message || 'Failed to load tournament');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        throw new Error('Tournament not found.');
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Register for a tournament.
+   * The entry fee is debited and the slip locked until round 1 starts.
+   *
+   * @param tournamentId - Tournament ID
+   * @param slipId - DRAFT slip built from the round 1 events
+   * @returns Updated tournament
+   */
+  static async register(tournamentId: string, slipId: string): Promise<TournamentDetails> {
+    try {
+      const response = await api.post<ApiResponse<TournamentDetails>>(
+        `/tournaments/${tournamentId}/entries`,
+        { slipId }
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.error?.message || 'Failed to register');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      const code = error.response?.data?.error?.code;
+      if (code === 'WALLET_001') {
+        throw new Error('Insufficient balance. Please add funds to your wallet.');
+      }
+      if (code === 'TOURNAMENT_002') {
+        throw new Error('This tournament is full.');
+      }
+      if (code === 'TOURNAMENT_003') {
+        throw new Error('Registration for this tournament has closed.');
+      }
+      if (code === 'TOURNAMENT_004') {
+        throw new Error("You're already registered for this tournament.");
+      }
+      if (code === 'TOURNAMENT_006') {
+        throw new Error('Your slip can only use events from the round 1 slate.');
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Submit a slip for your current bracket match
+   *
+   * @param tournamentId - Tournament ID
+   * @param slipId - DRAFT slip built from the current round's events
+   * @returns Updated tournament
+   */
+  static async submitSlip(tournamentId: string, slipId: string): Promise<TournamentDetails> {
+    try {
+      const response = await api.post<ApiResponse<TournamentDetails>>(
+        `/tournaments/${tournamentId}/slips`,
+        { slipId }
+      );
+
+      if (!response.data.success || !response.data.data) {
+        throw new Error(response.data.error?.message || 'Failed to submit slip');
+      }
+
+      return response.data.data;
+    } catch (error: any) {
+      const code = error.response?.data?.error?.code;
+      if (code === 'TOURNAMENT_005') {
+        throw new Error("You don't have a match waiting on a slip.");
+      }
+      if (code === 'TOURNAMENT_006') {
+        throw new Error("Your slip can only use events from this round's slate.");
+      }
+
+      throw error;
+    }
+  }
+}
+
+export default TournamentService;
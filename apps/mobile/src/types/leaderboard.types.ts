@@ -2,8 +2,33 @@
 // Leaderboard Types
 // ===========================================
 
-export type LeaderboardTimeframe = 'GLOBAL' | 'WEEKLY';
-export type LeaderboardPeriod = 'all-time' | 'weekly';
+export type LeaderboardTimeframe = 'GLOBAL' | 'WEEKLY' | 'MONTHLY' | 'SEASONAL';
+export type LeaderboardPeriod = 'all-time' | 'weekly' | 'monthly' | 'seasonal';
+
+/** Sport filter - 'ALL' is the all-sports board */
+export type LeaderboardSport = 'ALL' | 'NFL' | 'NBA' | 'MLB' | 'NHL' | 'SOCCER' | 'NCAAF' | 'NCAAB';
+
+export const LEADERBOARD_SPORTS: LeaderboardSport[] = [
+  'ALL',
+  'NFL',
+  'NBA',
+  'MLB',
+  'NHL',
+  'SOCCER',
+  'NCAAF',
+  'NCAAB',
+];
+
+/** Which slice of the board to show */
+export type LeaderboardView = 'top' | 'friends' | 'around-me';
+
+/** API path segment for each period */
+export const LEADERBOARD_PERIOD_PATHS: Record<LeaderboardPeriod, string> = {
+  'all-time': 'global',
+  weekly: 'weekly',
+  monthly: 'monthly',
+  seasonal: 'seasonal',
+};
 
 /**
  * Individual leaderboard entry from API
@@ -31,6 +56,7 @@ export interface LeaderboardData {
   id: string;
   name: string;
   timeframe: LeaderboardTimeframe;
+  sport: string | null;
   periodStart: string | null;
   periodEnd: string | null;
   entries: LeaderboardEntry[];
@@ -56,6 +82,17 @@ export interface PaginatedLeaderboardResponse {
   pagination: LeaderboardPagination;
 }
 
+/**
+ * "Around me" API response - entries ranked around the current user
+ */
+export interface AroundMeLeaderboardResponse {
+  leaderboard: LeaderboardData;
+  /** Current user's rank on the full board, null if unranked */
+  userRank: number | null;
+  /** Total entries on the full board */
+  total: number;
+}
+
 // ===========================================
 // Medal Colors for Top 3
 // ===========================================
@@ -4,6 +4,8 @@
 // Type definitions for WebSocket communication.
 // These types match the backend socket contract exactly.
 
+import type { TournamentBracketRound, TournamentStatus } from '@pick-rivals/shared-types';
+
 // =====================================================
 // Connection State
 // =====================================================
@@ -55,6 +57,16 @@ export interface LeaveMatchResponse {
   error?: string;
 }
 
+/**
+ * Response callback for join:tournament / leave:tournament events.
+ */
+export interface TournamentRoomResponse {
+  success: boolean;
+  tournamentId?: string;
+  error?: string;
+  code?: string;
+}
+
 // =====================================================
 // Server-to-Client Event Payloads
 // =====================================================
@@ -224,6 +236,33 @@ export interface QueueExpiredPayload {
   reason: string;
 }
 
+/**
+ * Why a tournament:updated event was sent.
+ */
+export type TournamentUpdateReason =
+  | 'registration'
+  | 'started'
+  | 'slip-submitted'
+  | 'bracket-advanced'
+  | 'completed'
+  | 'cancelled';
+
+/**
+ * Payload for tournament:updated event.
+ * Broadcast to the tournament room and entrants whenever the bracket changes.
+ */
+export interface TournamentUpdatedPayload {
+  tournamentId: string;
+  status: TournamentStatus;
+  currentRound: number;
+  entrantCount: number;
+  reason: TournamentUpdateReason;
+  /** Full bracket after the change */
+  bracket: TournamentBracketRound[];
+  /** ISO 8601 timestamp */
+  timestamp: string;
+}
+
 // =====================================================
 // Socket Event Types
 // =====================================================
@@ -238,6 +277,7 @@ export type ServerToClientEvent =
   | 'event:status'
   | 'match:settled'
   | 'queue:expired'
+  | 'tournament:updated'
   | 'error';
 
 /**
@@ -245,7 +285,9 @@ export type ServerToClientEvent =
  */
 export type ClientToServerEvent =
   | 'join:match'
-  | 'leave:match';
+  | 'leave:match'
+  | 'join:tournament'
+  | 'leave:tournament';
 
 // =====================================================
 // Event Listener Types
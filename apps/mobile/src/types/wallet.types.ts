@@ -17,7 +17,10 @@ export type TransactionType =
   | 'RAKE_FEE'
   | 'BONUS'
   | 'WEEKLY_ALLOWANCE'
-  | 'ADMIN_ADJUSTMENT';
+  | 'ADMIN_ADJUSTMENT'
+  | 'DISPUTE_HOLD'
+  | 'DISPUTE_RELEASE'
+  | 'PURCHASE_REVERSAL';
 
 /**
  * Transaction status values.
@@ -157,12 +160,15 @@ export function getTransactionCategory(type: TransactionType): TransactionCatego
     case 'WITHDRAWAL':
     case 'MATCH_ENTRY':
     case 'RAKE_FEE':
+    case 'DISPUTE_HOLD':
+    case 'PURCHASE_REVERSAL':
       return 'debit';
     case 'BONUS':
     case 'WEEKLY_ALLOWANCE':
     case 'ADMIN_ADJUSTMENT':
       return 'bonus';
     case 'MATCH_REFUND':
+    case 'DISPUTE_RELEASE':
       return 'refund';
     default:
       return 'debit';
@@ -96,3 +96,15 @@ export function getEventTimeLabel(scheduledAt: Date, status: string): string {
 
   return formatEventTime(eventDate);
 }
+
+/**
+ * Short weekday labels, indexed like Date.getUTCDay() (0 = Sunday)
+ */
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Formats a weekly UTC slot, e.g. "Suns at 17:00 UTC"
+ */
+export function formatWeeklySchedule(day: number, hour: number): string {
+  return `${WEEKDAY_LABELS[day]}s at ${String(hour).padStart(2, '0')}:00 UTC`;
+}
@@ -47,6 +47,7 @@ export interface RegisterRequest {
   email: string;
   username: string;
   password: string;
+  referralCode?: string;
 }
 
 export interface AuthTokens {
@@ -84,11 +85,16 @@ export const ERROR_CODES = {
   USER_NOT_FOUND: 'AUTH_004',
   EMAIL_ALREADY_EXISTS: 'AUTH_005',
   USERNAME_ALREADY_EXISTS: 'AUTH_006',
+  ACCOUNT_SUSPENDED: 'AUTH_007',
+  ACCOUNT_BANNED: 'AUTH_008',
 
   // Wallet errors
   INSUFFICIENT_BALANCE: 'WALLET_001',
   TRANSACTION_FAILED: 'WALLET_002',
   ALLOWANCE_ALREADY_CLAIMED: 'WALLET_003',
+  INVALID_RECEIPT: 'WALLET_004',
+  RECEIPT_ALREADY_REDEEMED: 'WALLET_005',
+  WALLET_FROZEN: 'WALLET_006',
 
   // Match errors
   MATCH_NOT_FOUND: 'MATCH_001',
@@ -96,6 +102,8 @@ export const ERROR_CODES = {
   MATCH_EXPIRED: 'MATCH_003',
   CANNOT_CHALLENGE_SELF: 'MATCH_004',
   INVALID_STAKE_AMOUNT: 'MATCH_005',
+  MATCH_NOT_CANCELLABLE: 'MATCH_006',
+  MATCH_NOT_REMATCHABLE: 'MATCH_007',
 
   // Slip errors
   SLIP_NOT_FOUND: 'SLIP_001',
@@ -104,10 +112,36 @@ export const ERROR_CODES = {
   EVENT_ALREADY_STARTED: 'SLIP_004',
   MIN_SPEND_NOT_MET: 'SLIP_005',
   TIER_LOCKED: 'SLIP_006',
+  ODDS_CHANGED: 'SLIP_007',
+  MARKET_UNAVAILABLE: 'SLIP_008',
+  MARKET_SUSPENDED: 'SLIP_009',
+
+  // League errors
+  LEAGUE_NOT_FOUND: 'LEAGUE_001',
+  LEAGUE_FULL: 'LEAGUE_002',
+  LEAGUE_ARCHIVED: 'LEAGUE_003',
+  LEAGUE_ALREADY_MEMBER: 'LEAGUE_004',
+  LEAGUE_ENTRY_EXISTS: 'LEAGUE_005',
+
+  // Tournament errors
+  TOURNAMENT_NOT_FOUND: 'TOURNAMENT_001',
+  TOURNAMENT_FULL: 'TOURNAMENT_002',
+  TOURNAMENT_REGISTRATION_CLOSED: 'TOURNAMENT_003',
+  TOURNAMENT_ALREADY_ENTERED: 'TOURNAMENT_004',
+  TOURNAMENT_NO_OPEN_MATCH: 'TOURNAMENT_005',
+  TOURNAMENT_SLIP_OFF_SLATE: 'TOURNAMENT_006',
+
+  // Season errors
+  SEASON_NOT_FOUND: 'SEASON_001',
+  SEASON_OVERLAP: 'SEASON_002',
+  SEASON_INVALID_STATE: 'SEASON_003',
 
   // Event errors
   EVENT_NOT_FOUND: 'EVENT_001',
 
+  // Leaderboard errors
+  LEADERBOARD_NOT_FOUND: 'LEADERBOARD_001',
+
   // Sports Data errors
   SPORTS_DATA_UNAVAILABLE: 'SPORTS_001',
   SPORTS_DATA_RATE_LIMITED: 'SPORTS_002',
@@ -31,6 +31,13 @@ export const POINTS_FORMULA = {
     prop: 0.90,
     total: 0.90,
   },
+  // Replace MARKET_MODIFIERS for picks placed while the game is in progress
+  LIVE_MARKET_MODIFIERS: {
+    moneyline: 0.8,
+    spread: 0.7,
+    prop: 0.75,
+    total: 0.75,
+  },
 } as const;
 
 export const MIN_SLIP_SPEND: Record<number, number> = {
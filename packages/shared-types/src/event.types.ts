@@ -47,6 +47,7 @@ export interface EventOdds {
 export interface MoneylineOdds {
   home: number; // American odds, e.g., -150
   away: number; // American odds, e.g., +130
+  draw?: number; // American odds, three-way markets (soccer) only
 }
 
 export interface SpreadOdds {
@@ -75,6 +76,36 @@ export interface PropOdds {
   under: number; // American odds
 }
 
+// ===========================================
+// Odds History
+// ===========================================
+
+export type OddsHistoryMarket = 'moneyline' | 'spread' | 'total' | 'prop';
+
+/** Field-level diff against the previous point: { field: [from, to] } */
+export type OddsHistoryChanges = Record<string, [number | null, number | null]>;
+
+export interface OddsHistoryPoint {
+  capturedAt: string;
+  line: number | null; // Home spread, total, or prop line
+  prices: Record<string, number>; // American odds by outcome (home/away/draw, over/under)
+  changes: OddsHistoryChanges | null; // null for the opening point
+}
+
+export interface OddsHistorySeries {
+  market: OddsHistoryMarket;
+  marketKey: string; // Market name, or "prop:<propType>:<playerId>" for props
+  propType: string | null;
+  playerId: string | null;
+  playerName: string | null;
+  points: OddsHistoryPoint[];
+}
+
+export interface EventOddsHistory {
+  eventId: string;
+  series: OddsHistorySeries[];
+}
+
 export interface EventsQueryParams {
   sport?: SportType;
   date?: string; // ISO date string
@@ -7,4 +7,6 @@ export enum GameMode {
   PLAY_FRIEND = 'play_friend',       // Mode B - direct challenge
   QUICK_MATCH = 'quick_match',       // Mode C - auto-queue
   RANDOM_MATCH = 'random_match',     // Mode D - manual filters
+  LEAGUE = 'league',                 // Scheduled private league round
+  TOURNAMENT = 'tournament',         // Single-elimination bracket match
 }
@@ -18,3 +18,5 @@ export * from './ranked.types';
 export * from './friendship.types';
 export * from './matchmaking.types';
 export * from './season.types';
+export * from './league.types';
+export * from './tournament.types';
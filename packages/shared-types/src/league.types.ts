@@ -0,0 +1,92 @@
+// =====================================================
+// Private League Types
+// =====================================================
+// Friend groups that play a scheduled round each week. Members submit
+// a slip for the current round and are paired round robin into matches;
+// standings come from the league's settled matches.
+
+export type LeagueStatus = 'ACTIVE' | 'ARCHIVED';
+
+/**
+ * SUBMITTED: slip locked in for the upcoming round.
+ * MATCHED: paired into a match when the round started.
+ * UNMATCHED: no opponent this round (bye, or opponent didn't submit).
+ */
+export type LeagueEntryStatus = 'SUBMITTED' | 'MATCHED' | 'UNMATCHED';
+
+export interface LeagueSummary {
+  id: string;
+  name: string;
+  ownerId: string;
+  inviteCode: string;
+  /** Stake each player puts up per league match (Rival Coins) */
+  stakeAmount: number;
+  /** Required picks per slip (null = any size) */
+  slipSize: number | null;
+  maxMembers: number;
+  memberCount: number;
+  /** Day of the week rounds start, 0 = Sunday (UTC) */
+  scheduleDay: number;
+  /** Hour of the day rounds start (UTC) */
+  scheduleHour: number;
+  currentRound: number;
+  nextRoundAt: string;
+  status: LeagueStatus;
+  isOwner: boolean;
+}
+
+export interface LeagueMemberInfo {
+  userId: string;
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  joinedAt: string;
+  /** Whether the member has a slip in for the current round */
+  hasSubmitted: boolean;
+}
+
+export interface LeagueStanding {
+  rank: number;
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  played: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  /** League points: 3 per win, 1 per draw */
+  points: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+export interface LeagueEntryInfo {
+  round: number;
+  slipId: string;
+  status: LeagueEntryStatus;
+  matchId: string | null;
+}
+
+export interface LeagueDetails extends LeagueSummary {
+  members: LeagueMemberInfo[];
+  standings: LeagueStanding[];
+  /** Viewer's entry for the current round, if submitted */
+  myEntry: LeagueEntryInfo | null;
+}
+
+export interface CreateLeagueInput {
+  name: string;
+  stakeAmount: number;
+  slipSize?: number;
+  maxMembers?: number;
+  scheduleDay: number;
+  scheduleHour: number;
+}
+
+export interface JoinLeagueInput {
+  inviteCode: string;
+}
+
+export interface SubmitLeagueSlipInput {
+  slipId: string;
+}
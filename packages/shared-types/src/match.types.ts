@@ -28,6 +28,16 @@ export interface Match {
   createdAt: Date;
   updatedAt: Date;
   startedAt: Date | null;
+  /** Settled match this one replays (rematches only) */
+  rematchOfId?: string | null;
+  /** Pick count both slips must have (null = any size) */
+  requiredSlipSize?: number | null;
+  /** League and round this match was paired for (league matches only) */
+  leagueId?: string | null;
+  leagueRound?: number | null;
+  /** Tournament and bracket round this match belongs to (tournament matches only) */
+  tournamentId?: string | null;
+  tournamentRound?: number | null;
 }
 
 export interface MatchWithDetails extends Match {
@@ -66,6 +76,22 @@ export interface JoinMatchInput {
   slipId: string;
 }
 
+export interface RequestRematchInput {
+  slipId: string;
+  /** Require both slips to have the same pick count as the original match */
+  sameSlipSize?: boolean;
+}
+
+/**
+ * REMATCH_REQUESTED: waiting for the opponent to ask back (or join).
+ * REMATCH_STARTED: the opponent had already asked, so the match is on.
+ */
+export interface RematchResult {
+  status: 'REMATCH_REQUESTED' | 'REMATCH_STARTED';
+  match: MatchWithDetails;
+  originalMatchId: string;
+}
+
 // Stake presets (in Rival Coins)
 export const STAKE_PRESETS = [1000, 5000, 10000, 25000, 50000];
 
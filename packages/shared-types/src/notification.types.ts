@@ -1,7 +1,7 @@
 // =====================================================
 // Notification Types
 // =====================================================
-// Type definitions for push notifications and settlement alerts.
+// Type definitions for push notifications: settlement and rematch alerts.
 // SECURITY: Payloads are designed to be safe for lock screen display.
 
 /**
@@ -46,6 +46,32 @@ export interface NotificationDeepLinkData {
 export type SettlementNotificationData = MatchSettledNotificationPayload &
   NotificationDeepLinkData;
 
+/**
+ * Push notification payload for a rematch request.
+ * Tapping it opens the original match, where the rematch can be accepted.
+ */
+export interface RematchRequestedNotificationPayload {
+  /** Notification type discriminator */
+  type: 'REMATCH_REQUESTED';
+  /** The pending rematch ID */
+  matchId: string;
+  /** The settled match being replayed */
+  originalMatchId: string;
+  /** Display-safe requester username */
+  requesterUsername: string;
+}
+
+/**
+ * Combined rematch notification data payload.
+ */
+export type RematchNotificationData = RematchRequestedNotificationPayload &
+  NotificationDeepLinkData;
+
+/**
+ * Any push notification data payload, discriminated by `type`.
+ */
+export type PushNotificationData = SettlementNotificationData | RematchNotificationData;
+
 /**
  * Expo push notification message structure.
  * @see https://docs.expo.dev/push-notifications/sending-notifications/
@@ -58,7 +84,7 @@ export interface ExpoPushMessage {
   /** Notification body text */
   body: string;
   /** Custom data payload for app handling */
-  data?: SettlementNotificationData;
+  data?: PushNotificationData;
   /** Sound to play ('default' or null for silent) */
   sound?: 'default' | null;
   /** iOS badge number */
@@ -2,6 +2,8 @@
 // Ranked System Types
 // =====================================================
 
+import type { PaginationMeta } from './api.types';
+
 /**
  * Rank enum - matches Prisma schema exactly.
  * IMPORTANT: This MUST match the Rank enum in schema.prisma.
@@ -40,6 +42,10 @@ export interface MatchResultForRP {
   loserId: string | null; // null = draw
   isDraw: boolean;
   settledAt: string; // ISO 8601 format for JSON serialization
+  /** Pre-match skill ratings of both players keyed by user ID (omitted = even match) */
+  skillRatings?: Record<string, number>;
+  /** Relative score margin: 0 = even, 1 = shutout (omitted = 0) */
+  margin?: number;
 }
 
 /**
@@ -220,3 +226,86 @@ export interface RankedProgress {
   draws: number;
   winRate: number;
 }
+
+// ===========================================
+// Season Leaderboard Types
+// ===========================================
+
+/**
+ * Metal tier used to filter the season leaderboard to one rank division.
+ */
+export type RankTier = 'BRONZE' | 'SILVER' | 'GOLD' | 'PLATINUM' | 'DIAMOND';
+
+/**
+ * One ranked player on a season leaderboard.
+ * Positions are season-wide, so filtering by tier keeps each player's
+ * overall position.
+ */
+export interface RankedLeaderboardEntry {
+  position: number;
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  rank: Rank;
+  badge: RankDisplayInfo;
+  rankPoints: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  winRate: number;
+}
+
+export interface RankedLeaderboardPage {
+  seasonId: string;
+  tier: RankTier | null;
+  entries: RankedLeaderboardEntry[];
+  pagination: PaginationMeta;
+}
+
+export interface RankedAroundMeLeaderboard {
+  seasonId: string;
+  entries: RankedLeaderboardEntry[];
+  /** Caller's position, null until they finish placement */
+  position: number | null;
+  /** Ranked players on the full board */
+  total: number;
+}
+
+// ===========================================
+// Season Summary Types
+// ===========================================
+
+export interface RankedSeasonRewardClaim {
+  rewardId: string;
+  coinReward: number;
+  description: string | null;
+  claimedAt: string;
+  transactionId: string | null;
+}
+
+/**
+ * End-of-season recap for a user. Only available once a season has ended.
+ * finalRank and rankPosition are null until rankings are finalized.
+ */
+export interface RankedSeasonSummary {
+  seasonId: string;
+  seasonName: string;
+  startDate: string;
+  endDate: string;
+  isPlaced: boolean;
+  initialRank: Rank | null;
+  finalRank: Rank | null;
+  finalRankPoints: number;
+  highestRank: Rank | null;
+  rankPosition: number | null;
+  /** Players with a final standing in the season */
+  totalRanked: number;
+  placementMatchesPlayed: number;
+  placementMatchesWon: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  matchesPlayed: number;
+  winRate: number;
+  reward: RankedSeasonRewardClaim | null;
+}
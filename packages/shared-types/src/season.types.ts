@@ -107,6 +107,33 @@ export const RANK_POINTS = {
   DEMOTION_THRESHOLD: 0,
 } as const;
 
+// Elo skill rating (User.skillRating), updated after every ranked settlement.
+// Matchmaking pairs players within an MMR range of this rating.
+export const SKILL_RATING = {
+  DEFAULT: 1000,
+  FLOOR: 100,
+  /** Most rating a single match can move */
+  K_FACTOR: 32,
+  /** Rating gap at which the stronger player is a 10:1 favourite */
+  SCALE: 400,
+} as const;
+
+// Rating-weighted rank points. Against an equally rated opponent a win is
+// worth RANK_POINTS.WIN and a loss RANK_POINTS.LOSS; beating a stronger
+// player pays up to double, losing to one costs less. A lopsided score
+// scales the change by up to MARGIN_BONUS.
+export const RANK_POINT_MODEL = {
+  MARGIN_BONUS: 0.25,
+  /** Per-tier bounds on one match's RP change, so tanking can't drop a player fast */
+  CAPS: {
+    BRONZE: { MIN_GAIN: 10, MAX_GAIN: 45, MIN_LOSS: 5, MAX_LOSS: 20 },
+    SILVER: { MIN_GAIN: 10, MAX_GAIN: 45, MIN_LOSS: 8, MAX_LOSS: 25 },
+    GOLD: { MIN_GAIN: 8, MAX_GAIN: 40, MIN_LOSS: 10, MAX_LOSS: 30 },
+    PLATINUM: { MIN_GAIN: 6, MAX_GAIN: 35, MIN_LOSS: 12, MAX_LOSS: 35 },
+    DIAMOND: { MIN_GAIN: 5, MAX_GAIN: 30, MIN_LOSS: 15, MAX_LOSS: 40 },
+  },
+} as const;
+
 // Placement match requirements
 export const PLACEMENT_MATCHES_REQUIRED = 10;
 
@@ -137,6 +164,17 @@ export const SEASON_WORKER_CONFIG = {
   DECAY_CRON: '0 2 * * *',
   /** Season end check cron pattern (every hour at :05) */
   SEASON_CHECK_CRON: '5 * * * *',
+  /** Season start check cron pattern (every hour at :10, after the end check) */
+  SEASON_START_CHECK_CRON: '10 * * * *',
   /** Distributed lock TTL in seconds */
   LOCK_TTL_SECONDS: 300,
 } as const;
+
+// Soft reset applied to returning players when a new season activates.
+// RP above the baseline is compressed toward it; RP at or below it carries over.
+export const SEASON_SOFT_RESET = {
+  /** GOLD_1 threshold */
+  BASELINE_RP: 600,
+  /** Share of RP above the baseline that carries over */
+  RETAIN_FRACTION: 0.5,
+} as const;
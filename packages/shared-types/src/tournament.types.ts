@@ -0,0 +1,145 @@
+// =====================================================
+// Tournament Types
+// =====================================================
+// Admin-scheduled single-elimination brackets. Each round is a set of
+// matches played on that round's slice of the event slate; winners
+// advance when their match settles and the prize pool is paid out by
+// finishing position.
+
+export type TournamentStatus = 'REGISTRATION' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+
+/**
+ * REGISTERED: entry fee paid, waiting for the bracket to start.
+ * ACTIVE: still alive in the bracket.
+ * ELIMINATED: knocked out.
+ * CHAMPION: won the final.
+ * REFUNDED: the tournament was cancelled before it started.
+ */
+export type TournamentEntryStatus =
+  | 'REGISTERED'
+  | 'ACTIVE'
+  | 'ELIMINATED'
+  | 'CHAMPION'
+  | 'REFUNDED';
+
+export type TournamentSize = 8 | 16 | 32;
+
+export interface TournamentSummary {
+  id: string;
+  name: string;
+  size: TournamentSize;
+  /** Entry fee per player (Rival Coins) */
+  entryFee: number;
+  rakePercentage: number;
+  entrantCount: number;
+  /** Entry fees collected so far, before rake */
+  prizePool: number;
+  totalRounds: number;
+  /** 0 until the bracket starts */
+  currentRound: number;
+  status: TournamentStatus;
+  /** Registration closes and round 1 starts */
+  startsAt: string;
+  completedAt: string | null;
+  championId: string | null;
+}
+
+export interface TournamentRoundInfo {
+  round: number;
+  /** Display name, e.g. "Quarterfinals" */
+  name: string;
+  /** Events slips for this round must be built from */
+  eventIds: string[];
+  /** Slips due / first event start */
+  locksAt: string;
+}
+
+export interface TournamentPayoutTier {
+  /** Best finishing position in the tier (1, 2, 3, 5, 9, 17) */
+  position: number;
+  /** Players sharing the tier */
+  players: number;
+  /** Share of the net prize pool for the whole tier */
+  percent: number;
+}
+
+export interface BracketPlayer {
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  seed: number;
+}
+
+export interface BracketMatch {
+  round: number;
+  /** 0-based position within the round */
+  slot: number;
+  /** Null for a first-round bye or a slot still waiting on its feeders */
+  matchId: string | null;
+  status: string | null;
+  creator: BracketPlayer | null;
+  opponent: BracketPlayer | null;
+  creatorPoints: number | null;
+  opponentPoints: number | null;
+  /** Player advancing from this slot, once decided */
+  winnerId: string | null;
+  isBye: boolean;
+}
+
+export interface TournamentBracketRound {
+  round: number;
+  name: string;
+  matches: BracketMatch[];
+}
+
+export interface TournamentEntrant {
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  seed: number | null;
+  status: TournamentEntryStatus;
+  eliminatedRound: number | null;
+  finalPosition: number | null;
+  payoutAmount: number | null;
+}
+
+export interface TournamentMyEntry {
+  status: TournamentEntryStatus;
+  seed: number | null;
+  /** Current bracket match, if one is open */
+  openMatchId: string | null;
+  /** Whether the open match is waiting on your slip */
+  needsSlip: boolean;
+  /** When your slip for the open match is due */
+  slipDueAt: string | null;
+  finalPosition: number | null;
+  payoutAmount: number | null;
+}
+
+export interface TournamentDetails extends TournamentSummary {
+  rounds: TournamentRoundInfo[];
+  payouts: TournamentPayoutTier[];
+  bracket: TournamentBracketRound[];
+  entrants: TournamentEntrant[];
+  /** Viewer's entry, if registered */
+  myEntry: TournamentMyEntry | null;
+}
+
+export interface CreateTournamentInput {
+  name: string;
+  size: TournamentSize;
+  entryFee: number;
+  rakePercentage?: number;
+  /** Percent of the net pool per finishing tier (1st, 2nd, 3rd-4th, ...); must sum to 100 */
+  payoutStructure?: number[];
+  /** One event list per round, in round order */
+  rounds: Array<{ eventIds: string[] }>;
+}
+
+export interface RegisterTournamentInput {
+  slipId: string;
+}
+
+export interface SubmitTournamentSlipInput {
+  slipId: string;
+}
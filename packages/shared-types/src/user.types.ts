@@ -84,6 +84,71 @@ export interface UserProfileResponse {
   totalCoinsEarned: number;
 }
 
+// =====================================================
+// Head-to-Head Types
+// =====================================================
+
+export type HeadToHeadOutcome = 'win' | 'loss' | 'draw';
+
+/** One settled match between two users, from the viewer's side */
+export interface HeadToHeadMatchResult {
+  matchId: string;
+  result: HeadToHeadOutcome;
+  /** Viewer's points */
+  points: number;
+  opponentPoints: number;
+  /** Coins won (payout minus stake) or lost (stake); 0 for draws */
+  netCoins: number;
+  settledAt: string;
+}
+
+/** Rivalry record between the viewer and another user */
+export interface HeadToHeadSummary {
+  userId: string;
+  opponentId: string;
+  matchesPlayed: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  /** Net coins won (negative if down overall) */
+  netCoins: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  /** Mean points margin per match (positive if ahead) */
+  averageMargin: number;
+  /** Last five results, most recent first */
+  lastFive: HeadToHeadMatchResult[];
+}
+
+// =====================================================
+// Referral Types
+// =====================================================
+
+export type ReferralStatus = 'pending' | 'rewarded';
+
+export type ReferralPendingReason = 'awaiting_first_match' | 'awaiting_email_verification';
+
+export interface ReferredUser {
+  userId: string;
+  username: string;
+  joinedAt: string;
+  status: ReferralStatus;
+  pendingReason: ReferralPendingReason | null;
+  rewardedAt: string | null;
+}
+
+export interface ReferralSummary {
+  referralCode: string;
+  bonusPerReferral: number;
+  totalReferrals: number;
+  rewardedReferrals: number;
+  pendingReferrals: number;
+  /** Total coins earned from referral bonuses */
+  totalEarned: number;
+  /** Most recent referrals first */
+  referrals: ReferredUser[];
+}
+
 // =====================================================
 // Avatar Options (MVP)
 // =====================================================